@@ -3,10 +3,9 @@
  * Run with: npx prisma db seed
  */
 
-import { PrismaClient } from '@prisma/client';
 import bcrypt from 'bcrypt';
-
-const prisma = new PrismaClient();
+import { prisma } from '../src/lib/prisma';
+import { syncNormCatalogDirectory } from '../src/lib/norm-catalog-service';
 
 async function main() {
   console.log('🌱 Seeding database...');
@@ -30,8 +29,12 @@ async function main() {
     },
   });
 
+  // Norm catalog library, new projects pull their question sets from it
+  const catalogs = await syncNormCatalogDirectory();
+
   console.log('✅ Seeding complete');
   console.log(`✨ Test user created: ${testUser.email}`);
+  console.log(`📚 Norm catalogs imported: ${catalogs.map((catalog) => `${catalog.norm} ${catalog.version}`).join(', ') || 'none'}`);
 }
 
 main()
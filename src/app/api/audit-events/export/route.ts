@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { isGlobalAdmin } from '@/lib/user-role';
+import { auditEventsToCsv, listAuditEvents, parseAuditEventFilters } from '@/lib/audit-service';
+
+/**
+ * Instance-wide audit trail including events of deleted projects and
+ * events outside projects (users, groups, catalogs). Global admins only.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await requireAuth();
+    if (!session.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!isGlobalAdmin(session.user?.role)) {
+      return NextResponse.json({ error: 'Not authorized' }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const events = await listAuditEvents({
+      ...parseAuditEventFilters(searchParams),
+      projectId: searchParams.get('projectId') || undefined,
+    });
+    const fileDate = new Date().toISOString().slice(0, 10);
+
+    if (searchParams.get('format') === 'json') {
+      return new NextResponse(JSON.stringify({ exportedAt: new Date(), events }, null, 2), {
+        headers: {
+          'Content-Type': 'application/json; charset=utf-8',
+          'Content-Disposition': `attachment; filename="audit-trail-${fileDate}.json"`,
+        },
+      });
+    }
+
+    return new NextResponse(auditEventsToCsv(events), {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="audit-trail-${fileDate}.csv"`,
+      },
+    });
+  } catch (error) {
+    if ((error as Error).message === 'Unauthenticated') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    console.error('Export audit events error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -3,6 +3,7 @@ import { hashPassword } from '@/lib/auth';
 import { NextRequest, NextResponse } from 'next/server';
 import { ensureInitialAdminUser } from '@/lib/initial-admin';
 import * as z from 'zod';
+import { recordAuditEvent } from '@/lib/audit-service';
 
 // Validation schema
 const RegisterSchema = z.object({
@@ -49,6 +50,13 @@ export async function POST(req: NextRequest) {
       },
     });
 
+    await recordAuditEvent({
+      actorUserId: user.id,
+      entityType: 'User',
+      entityId: user.id,
+      action: 'Create',
+      after: user,
+    });
     return NextResponse.json(
       {
         id: user.id,
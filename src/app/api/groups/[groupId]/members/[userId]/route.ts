@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { requireAuth } from '@/lib/auth';
 import { isGlobalAdmin } from '@/lib/user-role';
+import { recordAuditEvent } from '@/lib/audit-service';
 
 const GROUP_INCLUDE = {
   createdBy: {
@@ -67,6 +68,14 @@ export async function DELETE(
       return NextResponse.json({ error: 'User is not in this group' }, { status: 404 });
     }
 
+    await recordAuditEvent({
+      actorUserId: currentUserId,
+      entityType: 'UserGroupMember',
+      entityId: params.userId,
+      action: 'Delete',
+      before: { groupId: params.groupId, userId: params.userId },
+    });
+
     const updatedGroup = await prisma.userGroup.findUnique({
       where: { id: params.groupId },
       include: GROUP_INCLUDE,
@@ -3,6 +3,7 @@ import * as z from 'zod';
 import { prisma } from '@/lib/prisma';
 import { requireAuth } from '@/lib/auth';
 import { isGlobalAdmin } from '@/lib/user-role';
+import { recordAuditEvent } from '@/lib/audit-service';
 
 const GROUP_INCLUDE = {
   createdBy: {
@@ -72,6 +73,14 @@ export async function POST(request: NextRequest, { params }: { params: { groupId
       },
     });
 
+    await recordAuditEvent({
+      actorUserId: currentUserId,
+      entityType: 'UserGroupMember',
+      entityId: userId,
+      action: 'Create',
+      after: { groupId: params.groupId, userId },
+    });
+
     const updatedGroup = await prisma.userGroup.findUnique({
       where: { id: params.groupId },
       include: GROUP_INCLUDE,
@@ -4,6 +4,7 @@ import { prisma } from '@/lib/prisma';
 import { requireAuth } from '@/lib/auth';
 import { isGlobalAdmin } from '@/lib/user-role';
 import { EVERYONE_GROUP_NAME, isEveryoneGroupName } from '@/lib/system-groups';
+import { recordAuditEvent } from '@/lib/audit-service';
 
 const GROUP_INCLUDE = {
   createdBy: {
@@ -65,6 +66,7 @@ export async function PATCH(request: NextRequest, { params }: { params: { groupI
       );
     }
 
+    const previousGroup = await prisma.userGroup.findUnique({ where: { id: params.groupId } });
     const updatedGroup = await prisma.userGroup.update({
       where: { id: params.groupId },
       data: {
@@ -74,6 +76,14 @@ export async function PATCH(request: NextRequest, { params }: { params: { groupI
       include: GROUP_INCLUDE,
     });
 
+    await recordAuditEvent({
+      actorUserId: userId,
+      entityType: 'UserGroup',
+      entityId: updatedGroup.id,
+      action: 'Update',
+      before: previousGroup,
+      after: updatedGroup,
+    });
     return NextResponse.json(updatedGroup);
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -110,9 +120,16 @@ export async function DELETE(_request: NextRequest, { params }: { params: { grou
       return NextResponse.json({ error: 'Only Admin can manage groups' }, { status: 403 });
     }
 
-    await prisma.userGroup.delete({
+    const deletedGroup = await prisma.userGroup.delete({
       where: { id: params.groupId },
     });
+    await recordAuditEvent({
+      actorUserId: userId,
+      entityType: 'UserGroup',
+      entityId: deletedGroup.id,
+      action: 'Delete',
+      before: deletedGroup,
+    });
 
     return NextResponse.json({ success: true, deletedGroupId: params.groupId });
   } catch (error) {
@@ -4,6 +4,7 @@ import { prisma } from '@/lib/prisma';
 import { requireAuth } from '@/lib/auth';
 import { isGlobalAdmin } from '@/lib/user-role';
 import { EVERYONE_GROUP_NAME, isEveryoneGroupName } from '@/lib/system-groups';
+import { recordAuditEvent } from '@/lib/audit-service';
 
 const GROUP_INCLUDE = {
   createdBy: {
@@ -135,6 +136,13 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Failed to create group' }, { status: 500 });
     }
 
+    await recordAuditEvent({
+      actorUserId: userId,
+      entityType: 'UserGroup',
+      entityId: group.id,
+      action: 'Create',
+      after: { ...group, memberUserIds: group.members.map((member) => member.userId).sort() },
+    });
     return NextResponse.json(group, { status: 201 });
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -0,0 +1,137 @@
+import { NextRequest, NextResponse } from 'next/server';
+import * as z from 'zod';
+import { prisma } from '@/lib/prisma';
+import { requireAuth } from '@/lib/auth';
+import { isGlobalAdmin } from '@/lib/user-role';
+import { recordAuditEvent } from '@/lib/audit-service';
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: { catalogId: string } }
+) {
+  try {
+    const session = await requireAuth();
+    const userId = session.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'User not found' }, { status: 401 });
+    }
+
+    const catalog = await prisma.normCatalog.findUnique({
+      where: { id: params.catalogId },
+      include: {
+        controls: {
+          orderBy: { sortOrder: 'asc' },
+        },
+      },
+    });
+    if (!catalog) {
+      return NextResponse.json({ error: 'Norm catalog not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(catalog);
+  } catch (error) {
+    if ((error as Error).message === 'Unauthenticated') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    console.error('Get norm catalog error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+const UpdateNormCatalogSchema = z.object({
+  projectNorm: z.enum(['IEC 62443', 'IEC 61508', 'ISO 27001', 'NIST CSF']).nullable(),
+});
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { catalogId: string } }
+) {
+  try {
+    const session = await requireAuth();
+    const userId = session.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'User not found' }, { status: 401 });
+    }
+
+    if (!isGlobalAdmin(session.user?.role)) {
+      return NextResponse.json({ error: 'Only Admin can manage the norm catalog library' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const { projectNorm } = UpdateNormCatalogSchema.parse(body);
+
+    const catalog = await prisma.normCatalog.findUnique({
+      where: { id: params.catalogId },
+    });
+    if (!catalog) {
+      return NextResponse.json({ error: 'Norm catalog not found' }, { status: 404 });
+    }
+
+    const updated = await prisma.normCatalog.update({
+      where: { id: params.catalogId },
+      data: { projectNorm },
+    });
+
+    await recordAuditEvent({
+      actorUserId: userId,
+      entityType: 'NormCatalog',
+      entityId: updated.id,
+      action: 'Update',
+      before: catalog,
+      after: updated,
+    });
+    return NextResponse.json(updated);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid input', details: error.errors }, { status: 400 });
+    }
+    if ((error as Error).message === 'Unauthenticated') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    console.error('Update norm catalog error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: { catalogId: string } }
+) {
+  try {
+    const session = await requireAuth();
+    const userId = session.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'User not found' }, { status: 401 });
+    }
+
+    if (!isGlobalAdmin(session.user?.role)) {
+      return NextResponse.json({ error: 'Only Admin can delete norm catalogs' }, { status: 403 });
+    }
+
+    const catalog = await prisma.normCatalog.findUnique({
+      where: { id: params.catalogId },
+    });
+    if (!catalog) {
+      return NextResponse.json({ error: 'Norm catalog not found' }, { status: 404 });
+    }
+
+    await prisma.normCatalog.delete({
+      where: { id: params.catalogId },
+    });
+    await recordAuditEvent({
+      actorUserId: userId,
+      entityType: 'NormCatalog',
+      entityId: catalog.id,
+      action: 'Delete',
+      before: catalog,
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if ((error as Error).message === 'Unauthenticated') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    console.error('Delete norm catalog error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
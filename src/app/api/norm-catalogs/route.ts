@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from 'next/server';
+import * as z from 'zod';
+import { prisma } from '@/lib/prisma';
+import { requireAuth } from '@/lib/auth';
+import { isGlobalAdmin } from '@/lib/user-role';
+import {
+  NORM_CATALOG_DIRECTORY,
+  loadNormCatalogFile,
+  resolveOscalDocument,
+  saveNormCatalog,
+} from '@/lib/norm-catalog-service';
+import type { ResolvedNormCatalog } from '@/lib/norm-catalog-service';
+import { recordAuditEvent } from '@/lib/audit-service';
+
+const ImportNormCatalogSchema = z
+  .object({
+    path: z.string().trim().min(1).optional(),
+    document: z.unknown().optional(),
+    norm: z.string().trim().min(1).max(120).optional(),
+    version: z.string().trim().min(1).max(60).optional(),
+    projectNorm: z.enum(['IEC 62443', 'IEC 61508', 'ISO 27001', 'NIST CSF']).nullable().optional(),
+  })
+  .refine((value) => Boolean(value.path) !== (value.document !== undefined), {
+    message: 'Provide either a catalog path or an OSCAL document',
+  });
+
+export async function GET() {
+  try {
+    const session = await requireAuth();
+    const userId = session.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'User not found' }, { status: 401 });
+    }
+
+    const catalogs = await prisma.normCatalog.findMany({
+      orderBy: [{ projectNorm: 'asc' }, { norm: 'asc' }, { createdAt: 'desc' }],
+      include: {
+        _count: { select: { controls: true } },
+      },
+    });
+
+    return NextResponse.json(catalogs);
+  } catch (error) {
+    if ((error as Error).message === 'Unauthenticated') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    console.error('Get norm catalogs error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await requireAuth();
+    const userId = session.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'User not found' }, { status: 401 });
+    }
+
+    if (!isGlobalAdmin(session.user?.role)) {
+      return NextResponse.json({ error: 'Only Admin can import norm catalogs' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const { path: sourcePath, document, norm, version, projectNorm } = ImportNormCatalogSchema.parse(body);
+
+    let resolved: ResolvedNormCatalog;
+    try {
+      resolved = sourcePath
+        ? await loadNormCatalogFile(sourcePath)
+        : await resolveOscalDocument(document, NORM_CATALOG_DIRECTORY);
+    } catch (importError) {
+      return NextResponse.json(
+        { error: 'Invalid OSCAL document', details: (importError as Error).message },
+        { status: 400 }
+      );
+    }
+
+    resolved = {
+      ...resolved,
+      metadata: {
+        ...resolved.metadata,
+        norm: norm || resolved.metadata.norm,
+        version: version || resolved.metadata.version,
+        projectNorm: projectNorm !== undefined ? projectNorm : resolved.metadata.projectNorm,
+      },
+    };
+
+    if (resolved.controls.length === 0) {
+      return NextResponse.json({ error: 'The catalog does not contain any controls' }, { status: 400 });
+    }
+
+    const existing = await prisma.normCatalog.findUnique({
+      where: { norm_version: { norm: resolved.metadata.norm, version: resolved.metadata.version } },
+      select: { id: true },
+    });
+    if (existing) {
+      return NextResponse.json({ error: 'This catalog version is already imported' }, { status: 409 });
+    }
+
+    const catalog = await saveNormCatalog(resolved, {
+      sourcePath: sourcePath || null,
+      importedByUserId: userId,
+    });
+
+    await recordAuditEvent({
+      actorUserId: userId,
+      entityType: 'NormCatalog',
+      entityId: catalog.id,
+      action: 'Import',
+      after: { ...catalog, controlCount: resolved.controls.length },
+    });
+    return NextResponse.json({ ...catalog, controlCount: resolved.controls.length }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid input', details: error.errors }, { status: 400 });
+    }
+    if ((error as Error).message === 'Unauthenticated') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    console.error('Import norm catalog error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
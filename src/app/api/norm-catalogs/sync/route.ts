@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { isGlobalAdmin } from '@/lib/user-role';
+import { syncNormCatalogDirectory } from '@/lib/norm-catalog-service';
+import { recordAuditEvent } from '@/lib/audit-service';
+
+// POST /api/norm-catalogs/sync - Import new catalog files from the drop-in directory
+export async function POST() {
+  try {
+    const session = await requireAuth();
+    const userId = session.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'User not found' }, { status: 401 });
+    }
+
+    if (!isGlobalAdmin(session.user?.role)) {
+      return NextResponse.json({ error: 'Only Admin can sync norm catalogs' }, { status: 403 });
+    }
+
+    const imported = await syncNormCatalogDirectory(userId);
+    for (const catalog of imported) {
+      await recordAuditEvent({
+        actorUserId: userId,
+        entityType: 'NormCatalog',
+        entityId: catalog.id,
+        action: 'Import',
+        after: catalog,
+      });
+    }
+
+    return NextResponse.json({ imported });
+  } catch (error) {
+    if ((error as Error).message === 'Unauthenticated') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    console.error('Sync norm catalogs error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
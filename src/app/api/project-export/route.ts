@@ -6,6 +6,8 @@ import { requireAuth } from '@/lib/auth';
 import { isGlobalAdmin } from '@/lib/user-role';
 import { supportsProjectDeletedAt } from '@/lib/project-trash';
 import { parseProjectNorms } from '@/lib/project-norm';
+import { deriveConduits, type DerivedConduit } from '@/lib/zone-service';
+import { readEvidenceContent } from '@/lib/evidence-service';
 
 const OSCAL_VERSION = '1.1.3';
 
@@ -32,6 +34,11 @@ type ExportedProjectData = {
     description: string | null;
     norm: string;
     minRoleToView: string;
+    targetSecurityLevel: number;
+    valuationMode: string;
+    riskMethod: string | null;
+    consensusRule: string;
+    consensusMaxSpread: number;
     createdAt: Date;
     updatedAt: Date;
   };
@@ -52,7 +59,16 @@ type ExportedProjectData = {
     description: string | null;
     notes: string | null;
     parentNodeId: string | null;
+    zoneId: string | null;
   }>;
+  zones: Array<{
+    id: string;
+    name: string;
+    description: string | null;
+    targetSecurityLevel: number;
+    color: string | null;
+  }>;
+  conduits: DerivedConduit[];
   edges: Array<{
     id: string;
     sourceNodeId: string;
@@ -99,7 +115,12 @@ type ExportedProjectData = {
     questionText: string;
     normReference: string;
     severity: number;
+    likelihood: number | null;
+    impact: number | null;
     description: string | null;
+    riskAcceptedAt: Date | null;
+    riskAcceptedByUserId: string | null;
+    riskAcceptanceNote: string | null;
     createdAt: Date;
     updatedAt: Date;
   }>;
@@ -115,12 +136,30 @@ type ExportedProjectData = {
     status: string;
     assignedTo: string | null;
     dueDate: Date | null;
+    likelihoodReduction: number;
+    impactReduction: number;
     createdByUserId: string | null;
     createdAt: Date;
     updatedAt: Date;
   }>;
+  threats: unknown[];
   reports: unknown[];
   savepoints: unknown[];
+  // File metadata plus base64 content; content is null when the stored file could not be read
+  evidence: Array<{
+    id: string;
+    answerId: string | null;
+    findingId: string | null;
+    measureId: string | null;
+    fileName: string;
+    mimeType: string;
+    size: number;
+    sha256: string;
+    description: string | null;
+    uploadedByUserId: string | null;
+    createdAt: Date;
+    contentBase64: string | null;
+  }>;
 };
 
 type ProjectWithMembers = {
@@ -129,6 +168,11 @@ type ProjectWithMembers = {
   description: string | null;
   norm: string;
   minRoleToView: string;
+  targetSecurityLevel: number;
+  valuationMode: string;
+  riskMethod: string | null;
+  consensusRule: string;
+  consensusMaxSpread: number;
   createdAt: Date;
   updatedAt: Date;
   members: Array<{
@@ -310,6 +354,9 @@ const buildOscalProject = (projectData: ExportedProjectData) => {
     if (node.parentNodeId) {
       props.push({ name: 'secudo-parent-node-id', value: node.parentNodeId });
     }
+    if (node.zoneId) {
+      props.push({ name: 'secudo-zone-id', value: node.zoneId });
+    }
     if (dataRelations) {
       props.push({ name: 'secudo-data-relations', value: dataRelations });
     }
@@ -326,6 +373,35 @@ const buildOscalProject = (projectData: ExportedProjectData) => {
     };
   });
 
+  const zoneComponents = projectData.zones.map((zone) => ({
+    uuid: toOscalUuid(`zone:${zone.id}`),
+    type: 'network',
+    title: zone.name,
+    description: ensureText(zone.description, `Security zone ${zone.name}`),
+    props: [
+      { name: 'secudo-zone-id', value: zone.id },
+      { name: 'secudo-zone-target-security-level', value: String(zone.targetSecurityLevel) },
+    ],
+    status: {
+      state: 'operational',
+    },
+  }));
+
+  const conduitComponents = projectData.conduits.map((conduit) => ({
+    uuid: toOscalUuid(`conduit:${conduit.id}`),
+    type: 'interconnection',
+    title: conduit.name,
+    description: `Conduit between security zones ${conduit.name}`,
+    props: [
+      { name: 'secudo-conduit-id', value: conduit.id },
+      { name: 'secudo-conduit-target-security-level', value: String(conduit.targetSecurityLevel) },
+      { name: 'secudo-conduit-edge-ids', value: conduit.edgeIds.join('; ') },
+    ],
+    status: {
+      state: 'operational',
+    },
+  }));
+
   const components = [
     {
       uuid: thisSystemComponentUuid,
@@ -344,6 +420,8 @@ const buildOscalProject = (projectData: ExportedProjectData) => {
       ],
     },
     ...nodeComponents,
+    ...zoneComponents,
+    ...conduitComponents,
   ];
 
   const mappedInventoryItems = projectData.edges.map((edge) => {
@@ -645,6 +723,7 @@ const buildSecudoExportedProject = async (project: ProjectWithMembers): Promise<
   const [
     nodes,
     edges,
+    zones,
     dataObjects,
     componentData,
     edgeDataFlows,
@@ -654,8 +733,10 @@ const buildSecudoExportedProject = async (project: ProjectWithMembers): Promise<
     finalAnswers,
     findings,
     measures,
+    threats,
     reports,
     savepoints,
+    evidenceRecords,
   ] = await Promise.all([
     prisma.modelNode.findMany({
       where: { projectId: project.id },
@@ -665,6 +746,17 @@ const buildSecudoExportedProject = async (project: ProjectWithMembers): Promise<
       where: { projectId: project.id },
       orderBy: { createdAt: 'asc' },
     }),
+    prisma.zone.findMany({
+      where: { projectId: project.id },
+      orderBy: { createdAt: 'asc' },
+      select: {
+        id: true,
+        name: true,
+        description: true,
+        targetSecurityLevel: true,
+        color: true,
+      },
+    }),
     prisma.dataObject.findMany({
       where: { projectId: project.id },
       orderBy: { createdAt: 'asc' },
@@ -709,6 +801,10 @@ const buildSecudoExportedProject = async (project: ProjectWithMembers): Promise<
       where: { projectId: project.id },
       orderBy: { createdAt: 'asc' },
     }),
+    prisma.threat.findMany({
+      where: { projectId: project.id },
+      orderBy: { createdAt: 'asc' },
+    }),
     prisma.report.findMany({
       where: { projectId: project.id },
       orderBy: { generatedAt: 'asc' },
@@ -717,6 +813,10 @@ const buildSecudoExportedProject = async (project: ProjectWithMembers): Promise<
       where: { projectId: project.id },
       orderBy: { createdAt: 'asc' },
     }),
+    prisma.evidence.findMany({
+      where: { projectId: project.id },
+      orderBy: { createdAt: 'asc' },
+    }),
   ]);
 
   const referencedUserIds = new Set<string>();
@@ -733,12 +833,49 @@ const buildSecudoExportedProject = async (project: ProjectWithMembers): Promise<
   answers.forEach((answer) => {
     referencedUserIds.add(answer.userId);
   });
+  findings.forEach((finding) => {
+    if (finding.riskAcceptedByUserId) referencedUserIds.add(finding.riskAcceptedByUserId);
+  });
   measures.forEach((measure) => {
     if (measure.createdByUserId) referencedUserIds.add(measure.createdByUserId);
   });
+  finalAnswers.forEach((finalAnswer) => {
+    if (finalAnswer.resolvedByUserId) referencedUserIds.add(finalAnswer.resolvedByUserId);
+  });
+  threats.forEach((threat) => {
+    if (threat.reviewedByUserId) referencedUserIds.add(threat.reviewedByUserId);
+  });
   savepoints.forEach((savepoint) => {
     if (savepoint.createdByUserId) referencedUserIds.add(savepoint.createdByUserId);
   });
+  evidenceRecords.forEach((entry) => {
+    if (entry.uploadedByUserId) referencedUserIds.add(entry.uploadedByUserId);
+  });
+
+  // Files that cannot be read are exported without content instead of failing the export.
+  const evidence: ExportedProjectData['evidence'] = [];
+  for (const entry of evidenceRecords) {
+    let contentBase64: string | null = null;
+    try {
+      contentBase64 = (await readEvidenceContent(entry)).toString('base64');
+    } catch (error) {
+      console.error('Export evidence file failed:', error);
+    }
+    evidence.push({
+      id: entry.id,
+      answerId: entry.answerId,
+      findingId: entry.findingId,
+      measureId: entry.measureId,
+      fileName: entry.fileName,
+      mimeType: entry.mimeType,
+      size: entry.size,
+      sha256: entry.sha256,
+      description: entry.description,
+      uploadedByUserId: entry.uploadedByUserId,
+      createdAt: entry.createdAt,
+      contentBase64,
+    });
+  }
 
   const exportedUsers: ExportedUser[] =
     referencedUserIds.size > 0
@@ -766,6 +903,11 @@ const buildSecudoExportedProject = async (project: ProjectWithMembers): Promise<
       description: project.description,
       norm: project.norm,
       minRoleToView: project.minRoleToView,
+      targetSecurityLevel: project.targetSecurityLevel,
+      valuationMode: project.valuationMode,
+      riskMethod: project.riskMethod,
+      consensusRule: project.consensusRule,
+      consensusMaxSpread: project.consensusMaxSpread,
       createdAt: project.createdAt,
       updatedAt: project.updatedAt,
     },
@@ -780,6 +922,8 @@ const buildSecudoExportedProject = async (project: ProjectWithMembers): Promise<
     users: exportedUsers,
     nodes,
     edges,
+    zones,
+    conduits: deriveConduits(zones, nodes, edges),
     dataObjects,
     componentData,
     edgeDataFlows,
@@ -789,8 +933,10 @@ const buildSecudoExportedProject = async (project: ProjectWithMembers): Promise<
     finalAnswers,
     findings,
     measures,
+    threats,
     reports,
     savepoints,
+    evidence,
   };
 };
 
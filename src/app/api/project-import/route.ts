@@ -2,6 +2,15 @@ import { NextRequest, NextResponse } from 'next/server';
 import * as z from 'zod';
 import { prisma } from '@/lib/prisma';
 import { requireAuth } from '@/lib/auth';
+import { buildConduitId, MAX_SECURITY_LEVEL, MIN_SECURITY_LEVEL, parseConduitId } from '@/lib/zone-service';
+import { normalizeValuationMode } from '@/lib/valuation-service';
+import { parseRiskMethod, serializeRiskMethod } from '@/lib/risk-method';
+import { normalizeConsensusRule } from '@/lib/consensus-service';
+import { computeSha256, storeEvidence } from '@/lib/evidence-service';
+import type { EvidenceLink } from '@/lib/evidence-service';
+import { recordAuditEvent } from '@/lib/audit-service';
+import { relinkFindingTargets } from '@/lib/risk-service';
+import { autoLayoutDiagramView, ensureDefaultDiagramView } from '@/lib/diagram-layout-service';
 
 const ImportBundleSchema = z.object({
   format: z.string().optional(),
@@ -11,6 +20,15 @@ const ImportBundleSchema = z.object({
 
 type IdMap = Map<string, string>;
 
+type PendingEvidence = {
+  link: EvidenceLink;
+  fileName: string;
+  mimeType: string;
+  content: Buffer;
+  description: string | null;
+  uploadedByUserId: string | null;
+};
+
 function asRecord(value: unknown): Record<string, unknown> | null {
   if (!value || typeof value !== 'object' || Array.isArray(value)) {
     return null;
@@ -85,19 +103,23 @@ function normalizeComponentDataRole(
   return 'Stores';
 }
 
-function normalizeAssetType(value: unknown): 'Node' | 'Edge' | 'DataObject' | null {
+function normalizeAssetType(value: unknown): 'Node' | 'Edge' | 'DataObject' | 'Zone' | 'Conduit' | null {
   const normalized = readString(value)?.toLowerCase();
   if (normalized === 'node') return 'Node';
   if (normalized === 'edge') return 'Edge';
   if (normalized === 'dataobject') return 'DataObject';
+  if (normalized === 'zone') return 'Zone';
+  if (normalized === 'conduit') return 'Conduit';
   return null;
 }
 
-function normalizeQuestionTargetType(value: unknown): 'Component' | 'Edge' | 'DataObject' | 'None' {
+function normalizeQuestionTargetType(value: unknown): 'Component' | 'Edge' | 'DataObject' | 'Zone' | 'Conduit' | 'None' {
   const normalized = readString(value)?.toLowerCase();
   if (normalized === 'component') return 'Component';
   if (normalized === 'edge') return 'Edge';
   if (normalized === 'dataobject') return 'DataObject';
+  if (normalized === 'zone') return 'Zone';
+  if (normalized === 'conduit') return 'Conduit';
   return 'None';
 }
 
@@ -108,11 +130,15 @@ function normalizeAnswerType(value: unknown): 'YesNo' | 'Text' | 'MultiSelect' {
   return 'YesNo';
 }
 
-function normalizeAnswerTargetType(value: unknown): 'Component' | 'Edge' | 'DataObject' | 'None' | null {
+function normalizeAnswerTargetType(
+  value: unknown
+): 'Component' | 'Edge' | 'DataObject' | 'Zone' | 'Conduit' | 'None' | null {
   const normalized = readString(value)?.toLowerCase();
   if (normalized === 'component' || normalized === 'node') return 'Component';
   if (normalized === 'edge') return 'Edge';
   if (normalized === 'dataobject') return 'DataObject';
+  if (normalized === 'zone') return 'Zone';
+  if (normalized === 'conduit') return 'Conduit';
   if (normalized === 'none') return 'None';
   return null;
 }
@@ -139,6 +165,24 @@ function clampAssetValue(value: unknown): number {
   return Math.max(1, Math.min(10, Math.round(numeric)));
 }
 
+function clampOptionalRating(value: unknown): number | null {
+  const numeric = readNumber(value);
+  if (numeric === null) return null;
+  return Math.max(1, Math.min(10, Math.round(numeric)));
+}
+
+function clampReductionPercent(value: unknown): number {
+  const numeric = readNumber(value);
+  if (numeric === null) return 0;
+  return Math.max(0, Math.min(100, Math.round(numeric)));
+}
+
+function clampSecurityLevel(value: unknown): number {
+  const numeric = readNumber(value);
+  if (numeric === null) return MIN_SECURITY_LEVEL;
+  return Math.max(MIN_SECURITY_LEVEL, Math.min(MAX_SECURITY_LEVEL, Math.round(numeric)));
+}
+
 function clampCia(value: unknown): number {
   const numeric = readNumber(value);
   if (numeric === null) return 5;
@@ -157,12 +201,23 @@ function resolveUniqueName(base: string, usedNames: Set<string>, fallbackPrefix:
   return candidate;
 }
 
+function mapConduitId(sourceConduitId: string, zoneIdMap: IdMap): string | null {
+  const parsed = parseConduitId(sourceConduitId);
+  if (!parsed) {
+    return null;
+  }
+  const mappedZoneAId = zoneIdMap.get(parsed.zoneAId);
+  const mappedZoneBId = zoneIdMap.get(parsed.zoneBId);
+  return mappedZoneAId && mappedZoneBId ? buildConduitId(mappedZoneAId, mappedZoneBId) : null;
+}
+
 function mapByAssetType(
-  assetType: 'Node' | 'Edge' | 'DataObject' | null,
+  assetType: 'Node' | 'Edge' | 'DataObject' | 'Zone' | 'Conduit' | null,
   sourceAssetId: string,
   nodeIdMap: IdMap,
   edgeIdMap: IdMap,
-  dataObjectIdMap: IdMap
+  dataObjectIdMap: IdMap,
+  zoneIdMap: IdMap
 ): string | null {
   if (!assetType) {
     return null;
@@ -173,15 +228,22 @@ function mapByAssetType(
   if (assetType === 'Edge') {
     return edgeIdMap.get(sourceAssetId) || null;
   }
+  if (assetType === 'Zone') {
+    return zoneIdMap.get(sourceAssetId) || null;
+  }
+  if (assetType === 'Conduit') {
+    return mapConduitId(sourceAssetId, zoneIdMap);
+  }
   return dataObjectIdMap.get(sourceAssetId) || null;
 }
 
 function mapAnswerTargetId(
-  targetType: 'Component' | 'Edge' | 'DataObject' | 'None' | null,
+  targetType: 'Component' | 'Edge' | 'DataObject' | 'Zone' | 'Conduit' | 'None' | null,
   sourceTargetId: string | null,
   nodeIdMap: IdMap,
   edgeIdMap: IdMap,
-  dataObjectIdMap: IdMap
+  dataObjectIdMap: IdMap,
+  zoneIdMap: IdMap
 ): string | null {
   if (!sourceTargetId || !targetType || targetType === 'None') {
     return null;
@@ -192,6 +254,12 @@ function mapAnswerTargetId(
   if (targetType === 'Edge') {
     return edgeIdMap.get(sourceTargetId) || null;
   }
+  if (targetType === 'Zone') {
+    return zoneIdMap.get(sourceTargetId) || null;
+  }
+  if (targetType === 'Conduit') {
+    return mapConduitId(sourceTargetId, zoneIdMap);
+  }
   return dataObjectIdMap.get(sourceTargetId) || null;
 }
 
@@ -225,6 +293,8 @@ export async function POST(request: NextRequest) {
       }
 
       try {
+        // Evidence files are stored after the transaction so slow storage cannot time it out.
+        const pendingEvidence: PendingEvidence[] = [];
         const imported = await prisma.$transaction(async (tx) => {
           const createdProject = await tx.project.create({
             data: {
@@ -232,6 +302,17 @@ export async function POST(request: NextRequest) {
               description: readOptionalString(projectMeta.description) ?? null,
               norm: readString(projectMeta.norm) || 'IEC 62443',
               minRoleToView: normalizeProjectMinRoleToView(projectMeta.minRoleToView),
+              ...(readNumber(projectMeta.targetSecurityLevel) !== null && {
+                targetSecurityLevel: clampSecurityLevel(projectMeta.targetSecurityLevel),
+              }),
+              valuationMode: normalizeValuationMode(readString(projectMeta.valuationMode)),
+              ...(readString(projectMeta.riskMethod) && {
+                riskMethod: serializeRiskMethod(parseRiskMethod(readString(projectMeta.riskMethod))),
+              }),
+              consensusRule: normalizeConsensusRule(readString(projectMeta.consensusRule)),
+              ...(readNumber(projectMeta.consensusMaxSpread) !== null && {
+                consensusMaxSpread: Math.max(0, Math.min(10, Math.round(readNumber(projectMeta.consensusMaxSpread) as number))),
+              }),
             },
             select: {
               id: true,
@@ -306,9 +387,40 @@ export async function POST(request: NextRequest) {
           const dataObjectIdMap: IdMap = new Map();
           const questionIdMap: IdMap = new Map();
           const findingIdMap: IdMap = new Map();
+          const zoneIdMap: IdMap = new Map();
+          const answerIdMap: IdMap = new Map();
+          const measureIdMap: IdMap = new Map();
+          const evidenceRecords = asArray(projectPayload.evidence).flatMap((rawEvidence) => {
+            const evidenceRecord = asRecord(rawEvidence);
+            return evidenceRecord ? [evidenceRecord] : [];
+          });
+          const evidenceAnswerIds = new Set(
+            evidenceRecords.flatMap((evidenceRecord) => readString(evidenceRecord.answerId) || [])
+          );
           const usedStableIds = new Set<string>();
           const usedDataObjectNames = new Set<string>();
 
+          const zones = asArray(projectPayload.zones);
+          const usedZoneNames = new Set<string>();
+          for (const rawZone of zones) {
+            const zoneRecord = asRecord(rawZone);
+            const sourceZoneId = readString(zoneRecord?.id);
+            if (!sourceZoneId) continue;
+
+            const createdZone = await tx.zone.create({
+              data: {
+                projectId: createdProject.id,
+                name: resolveUniqueName(readString(zoneRecord?.name) || '', usedZoneNames, 'Imported Zone'),
+                description: readOptionalString(zoneRecord?.description) ?? null,
+                targetSecurityLevel: clampSecurityLevel(zoneRecord?.targetSecurityLevel),
+                color: readOptionalString(zoneRecord?.color) ?? null,
+              },
+              select: { id: true },
+            });
+
+            zoneIdMap.set(sourceZoneId, createdZone.id);
+          }
+
           const nodes = asArray(projectPayload.nodes);
           let stableIdCounter = 1;
           for (const rawNode of nodes) {
@@ -341,6 +453,13 @@ export async function POST(request: NextRequest) {
                 description: readOptionalString(nodeRecord?.description) ?? null,
                 notes: readOptionalString(nodeRecord?.notes) ?? null,
                 parentNodeId: null,
+                zoneId: readString(nodeRecord?.zoneId)
+                  ? zoneIdMap.get(readString(nodeRecord?.zoneId) as string) || null
+                  : null,
+                capabilitySecurityLevel:
+                  readNumber(nodeRecord?.capabilitySecurityLevel) === null
+                    ? null
+                    : clampSecurityLevel(nodeRecord?.capabilitySecurityLevel),
                 createdByUserId: readString(nodeRecord?.createdByUserId)
                   ? oldUserIdToNewUserId.get(readString(nodeRecord?.createdByUserId) as string) || null
                   : null,
@@ -492,6 +611,10 @@ export async function POST(request: NextRequest) {
             assetType: string;
             assetId: string;
             value: number;
+            confidentiality: number | null;
+            integrity: number | null;
+            availability: number | null;
+            source: string;
             comment: string | null;
           }> = [];
           assetValues.forEach((rawAssetValue) => {
@@ -504,7 +627,8 @@ export async function POST(request: NextRequest) {
               sourceAssetId,
               nodeIdMap,
               edgeIdMap,
-              dataObjectIdMap
+              dataObjectIdMap,
+              zoneIdMap
             );
             if (!mappedAssetId) return;
             assetValueRows.push({
@@ -512,6 +636,10 @@ export async function POST(request: NextRequest) {
               assetType: sourceAssetType,
               assetId: mappedAssetId,
               value: clampAssetValue(record?.value),
+              confidentiality: readNumber(record?.confidentiality) !== null ? clampCia(record?.confidentiality) : null,
+              integrity: readNumber(record?.integrity) !== null ? clampCia(record?.integrity) : null,
+              availability: readNumber(record?.availability) !== null ? clampCia(record?.availability) : null,
+              source: readString(record?.source) === 'Derived' ? 'Derived' : 'Manual',
               comment: readOptionalString(record?.comment) ?? null,
             });
           });
@@ -536,6 +664,7 @@ export async function POST(request: NextRequest) {
                 answerType: normalizeAnswerType(questionRecord?.answerType),
                 riskDescription: readOptionalString(questionRecord?.riskDescription) ?? null,
                 defaultMeasures: readOptionalString(questionRecord?.defaultMeasures) ?? null,
+                applicability: readOptionalString(questionRecord?.applicability) ?? null,
               },
               select: { id: true },
             });
@@ -553,12 +682,12 @@ export async function POST(request: NextRequest) {
             comment: string | null;
             isAggregate: boolean;
           }> = [];
-          answers.forEach((rawAnswer) => {
+          for (const rawAnswer of answers) {
             const answerRecord = asRecord(rawAnswer);
             const sourceQuestionId = readString(answerRecord?.questionId);
-            if (!sourceQuestionId) return;
+            if (!sourceQuestionId) continue;
             const mappedQuestionId = questionIdMap.get(sourceQuestionId);
-            if (!mappedQuestionId) return;
+            if (!mappedQuestionId) continue;
             const sourceUserId = readString(answerRecord?.userId);
             const mappedUserId = sourceUserId ? oldUserIdToNewUserId.get(sourceUserId) || userId : userId;
             const targetType = normalizeAnswerTargetType(answerRecord?.targetType);
@@ -567,9 +696,10 @@ export async function POST(request: NextRequest) {
               readString(answerRecord?.targetId),
               nodeIdMap,
               edgeIdMap,
-              dataObjectIdMap
+              dataObjectIdMap,
+              zoneIdMap
             );
-            answerRows.push({
+            const answerRow = {
               projectId: createdProject.id,
               questionId: mappedQuestionId,
               userId: mappedUserId,
@@ -578,8 +708,16 @@ export async function POST(request: NextRequest) {
               targetId,
               comment: readOptionalString(answerRecord?.comment) ?? null,
               isAggregate: readBoolean(answerRecord?.isAggregate),
-            });
-          });
+            };
+            // Answers with evidence are created one by one to learn their new ids.
+            const sourceAnswerId = readString(answerRecord?.id);
+            if (sourceAnswerId && evidenceAnswerIds.has(sourceAnswerId)) {
+              const createdAnswer = await tx.answer.create({ data: answerRow, select: { id: true } });
+              answerIdMap.set(sourceAnswerId, createdAnswer.id);
+            } else {
+              answerRows.push(answerRow);
+            }
+          }
           if (answerRows.length > 0) {
             await tx.answer.createMany({
               data: answerRows,
@@ -590,9 +728,14 @@ export async function POST(request: NextRequest) {
           const finalAnswerRows: Array<{
             projectId: string;
             questionId: string;
+            targetType: string;
+            targetId: string;
             answerValue: string;
             status: string;
+            source: string;
+            answerCount: number;
             resolvedAt: Date | null;
+            resolvedByUserId: string | null;
             notes: string | null;
           }> = [];
           finalAnswers.forEach((rawFinalAnswer) => {
@@ -604,12 +747,30 @@ export async function POST(request: NextRequest) {
             const answerValue = readString(finalAnswerRecord?.answerValue) || '';
             if (!answerValue) return;
             const resolvedAtValue = readString(finalAnswerRecord?.resolvedAt);
+            const targetType = normalizeAnswerTargetType(finalAnswerRecord?.targetType) || 'None';
+            const targetId = mapAnswerTargetId(
+              targetType,
+              readString(finalAnswerRecord?.targetId),
+              nodeIdMap,
+              edgeIdMap,
+              dataObjectIdMap,
+              zoneIdMap
+            );
+            if (targetType !== 'None' && !targetId) return;
+            const sourceResolvedByUserId = readString(finalAnswerRecord?.resolvedByUserId);
             finalAnswerRows.push({
               projectId: createdProject.id,
               questionId: mappedQuestionId,
+              targetType,
+              targetId: targetId || '',
               answerValue,
               status: readString(finalAnswerRecord?.status) || 'Approved',
+              source: readString(finalAnswerRecord?.source) === 'Consensus' ? 'Consensus' : 'Manual',
+              answerCount: Math.max(0, Math.round(readNumber(finalAnswerRecord?.answerCount) ?? 0)),
               resolvedAt: resolvedAtValue ? new Date(resolvedAtValue) : null,
+              resolvedByUserId: sourceResolvedByUserId
+                ? oldUserIdToNewUserId.get(sourceResolvedByUserId) || null
+                : null,
               notes: readOptionalString(finalAnswerRecord?.notes) ?? null,
             });
           });
@@ -629,9 +790,11 @@ export async function POST(request: NextRequest) {
             const sourceAssetId = readString(findingRecord.assetId);
             const mappedAssetId =
               sourceAssetType && sourceAssetId
-                ? mapByAssetType(sourceAssetType, sourceAssetId, nodeIdMap, edgeIdMap, dataObjectIdMap)
+                ? mapByAssetType(sourceAssetType, sourceAssetId, nodeIdMap, edgeIdMap, dataObjectIdMap, zoneIdMap)
                 : null;
 
+            const sourceRiskAcceptedAt = readString(findingRecord.riskAcceptedAt);
+            const sourceRiskAcceptedByUserId = readString(findingRecord.riskAcceptedByUserId);
             const createdFinding = await tx.finding.create({
               data: {
                 projectId: createdProject.id,
@@ -641,7 +804,18 @@ export async function POST(request: NextRequest) {
                 questionText: readString(findingRecord.questionText) || 'Imported Finding',
                 normReference: readString(findingRecord.normReference) || 'Custom',
                 severity: clampSeverity(findingRecord.severity),
+                likelihood: clampOptionalRating(findingRecord.likelihood),
+                impact: clampOptionalRating(findingRecord.impact),
                 description: readOptionalString(findingRecord.description) ?? null,
+                riskAcceptedAt: sourceRiskAcceptedAt ? new Date(sourceRiskAcceptedAt) : null,
+                riskAcceptedByUserId:
+                  sourceRiskAcceptedAt && sourceRiskAcceptedByUserId
+                    ? oldUserIdToNewUserId.get(sourceRiskAcceptedByUserId) || null
+                    : null,
+                riskAcceptanceNote: sourceRiskAcceptedAt
+                  ? readOptionalString(findingRecord.riskAcceptanceNote) ?? null
+                  : null,
+                questionId: questionIdMap.get(readString(findingRecord.questionId) || '') || null,
               },
               select: { id: true },
             });
@@ -651,6 +825,8 @@ export async function POST(request: NextRequest) {
             }
           }
 
+          await relinkFindingTargets(tx, createdProject.id);
+
           const measures = asArray(projectPayload.measures);
           for (const rawMeasure of measures) {
             const measureRecord = asRecord(rawMeasure);
@@ -663,11 +839,11 @@ export async function POST(request: NextRequest) {
             const sourceAssetId = readString(measureRecord?.assetId);
             const mappedAssetId =
               sourceAssetType && sourceAssetId
-                ? mapByAssetType(sourceAssetType, sourceAssetId, nodeIdMap, edgeIdMap, dataObjectIdMap)
+                ? mapByAssetType(sourceAssetType, sourceAssetId, nodeIdMap, edgeIdMap, dataObjectIdMap, zoneIdMap)
                 : null;
 
             const sourceCreatedByUserId = readString(measureRecord?.createdByUserId);
-            await tx.measure.create({
+            const createdMeasure = await tx.measure.create({
               data: {
                 projectId: createdProject.id,
                 findingId: mappedFindingId,
@@ -682,10 +858,62 @@ export async function POST(request: NextRequest) {
                 dueDate: readString(measureRecord?.dueDate)
                   ? new Date(readString(measureRecord?.dueDate) as string)
                   : null,
+                likelihoodReduction: clampReductionPercent(measureRecord?.likelihoodReduction),
+                impactReduction: clampReductionPercent(measureRecord?.impactReduction),
                 createdByUserId: sourceCreatedByUserId
                   ? oldUserIdToNewUserId.get(sourceCreatedByUserId) || null
                   : null,
               },
+              select: { id: true },
+            });
+            const sourceMeasureId = readString(measureRecord?.id);
+            if (sourceMeasureId) {
+              measureIdMap.set(sourceMeasureId, createdMeasure.id);
+            }
+          }
+
+          const threats = asArray(projectPayload.threats);
+          for (const rawThreat of threats) {
+            const threatRecord = asRecord(rawThreat);
+            if (!threatRecord) continue;
+            const category = readString(threatRecord.category);
+            const sourceAssetType = normalizeAssetType(threatRecord.assetType);
+            const sourceAssetId = readString(threatRecord.assetId);
+            if (!category || !sourceAssetType || !sourceAssetId) continue;
+            const mappedAssetId =
+              mapByAssetType(sourceAssetType, sourceAssetId, nodeIdMap, edgeIdMap, dataObjectIdMap, zoneIdMap) ||
+              sourceAssetId;
+            const sourceFindingId = readString(threatRecord.findingId);
+            const sourceReviewedByUserId = readString(threatRecord.reviewedByUserId);
+
+            await tx.threat.upsert({
+              where: {
+                projectId_ruleKey: {
+                  projectId: createdProject.id,
+                  ruleKey: `${category}:${sourceAssetType}:${mappedAssetId}`,
+                },
+              },
+              update: {},
+              create: {
+                projectId: createdProject.id,
+                category,
+                assetType: sourceAssetType,
+                assetId: mappedAssetId,
+                assetName: readString(threatRecord.assetName) || 'Imported Asset',
+                title: readString(threatRecord.title) || 'Imported Threat',
+                description: readOptionalString(threatRecord.description) ?? null,
+                severity: clampSeverity(threatRecord.severity),
+                ruleKey: `${category}:${sourceAssetType}:${mappedAssetId}`,
+                status: readString(threatRecord.status) || 'Open',
+                reviewComment: readOptionalString(threatRecord.reviewComment) ?? null,
+                reviewedByUserId: sourceReviewedByUserId
+                  ? oldUserIdToNewUserId.get(sourceReviewedByUserId) || null
+                  : null,
+                reviewedAt: readString(threatRecord.reviewedAt)
+                  ? new Date(readString(threatRecord.reviewedAt) as string)
+                  : null,
+                findingId: sourceFindingId ? findingIdMap.get(sourceFindingId) || null : null,
+              },
             });
           }
 
@@ -702,6 +930,16 @@ export async function POST(request: NextRequest) {
                   : new Date(),
                 pdfUrl: readOptionalString(reportRecord.pdfUrl) ?? null,
                 format: readString(reportRecord.format) || 'PDF',
+                templateName: readOptionalString(reportRecord.templateName) ?? null,
+                language: readString(reportRecord.language) || 'en',
+                recipient: readOptionalString(reportRecord.recipient) ?? null,
+                note: readOptionalString(reportRecord.note) ?? null,
+                fileName: readOptionalString(reportRecord.fileName) ?? null,
+                mimeType: readOptionalString(reportRecord.mimeType) ?? null,
+                size: readNumber(reportRecord.size),
+                sha256: readOptionalString(reportRecord.sha256) ?? null,
+                // Artifacts are not part of the export; the history entry is kept without a file
+                storageKey: null,
               },
             });
           }
@@ -724,9 +962,59 @@ export async function POST(request: NextRequest) {
             });
           }
 
+          for (const evidenceRecord of evidenceRecords) {
+            const sourceAnswerId = readString(evidenceRecord.answerId);
+            const sourceFindingId = readString(evidenceRecord.findingId);
+            const sourceMeasureId = readString(evidenceRecord.measureId);
+            const link: EvidenceLink = sourceAnswerId
+              ? { answerId: answerIdMap.get(sourceAnswerId) }
+              : sourceFindingId
+                ? { findingId: findingIdMap.get(sourceFindingId) }
+                : { measureId: sourceMeasureId ? measureIdMap.get(sourceMeasureId) : undefined };
+            const content = Buffer.from(readString(evidenceRecord.contentBase64) || '', 'base64');
+            // Skip evidence whose linked item was not imported or whose content does not match its hash.
+            if (!link.answerId && !link.findingId && !link.measureId) continue;
+            if (content.length === 0 || computeSha256(content) !== readString(evidenceRecord.sha256)) continue;
+            const sourceUploadedByUserId = readString(evidenceRecord.uploadedByUserId);
+            pendingEvidence.push({
+              link,
+              fileName: readString(evidenceRecord.fileName) || 'evidence',
+              mimeType: readString(evidenceRecord.mimeType) || 'application/octet-stream',
+              content,
+              description: readOptionalString(evidenceRecord.description) ?? null,
+              uploadedByUserId: sourceUploadedByUserId
+                ? oldUserIdToNewUserId.get(sourceUploadedByUserId) || null
+                : null,
+            });
+          }
+
           return createdProject;
         });
 
+        for (const evidence of pendingEvidence) {
+          try {
+            await storeEvidence({ projectId: imported.id, ...evidence });
+          } catch (evidenceError) {
+            console.error('Import evidence file failed:', evidenceError);
+          }
+        }
+
+        // Exports carry no diagram layout, so imported models start with an arranged default view
+        try {
+          const view = await ensureDefaultDiagramView(imported.id, userId);
+          await autoLayoutDiagramView(imported.id, view.id, { algorithm: 'layered' });
+        } catch (layoutError) {
+          console.error('Import auto layout failed:', layoutError);
+        }
+
+        await recordAuditEvent({
+          projectId: imported.id,
+          actorUserId: userId,
+          entityType: 'Project',
+          entityId: imported.id,
+          action: 'Import',
+          after: imported,
+        });
         importedProjects.push(imported);
       } catch (projectImportError) {
         failedProjects.push({
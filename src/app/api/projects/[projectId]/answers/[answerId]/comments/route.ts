@@ -3,6 +3,7 @@ import { z } from 'zod';
 import { prisma } from '@/lib/prisma';
 import { requireAuth } from '@/lib/auth';
 import { getProjectViewAccess } from '@/lib/project-access';
+import { recordAuditEvent } from '@/lib/audit-service';
 
 const CreateAnswerCommentSchema = z.object({
   text: z.string().trim().min(1).max(3000),
@@ -144,6 +145,15 @@ export async function POST(
       },
     });
 
+    await recordAuditEvent({
+      projectId: params.projectId,
+      actorUserId: userId,
+      entityType: 'AnswerComment',
+      entityId: createdComment.id,
+      action: 'Create',
+      after: createdComment,
+    });
+
     if (answer.userId !== userId) {
       const project = await prisma.project.findUnique({
         where: { id: params.projectId },
@@ -2,6 +2,10 @@ import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { prisma } from '@/lib/prisma';
 import { requireAuth } from '@/lib/auth';
+import { getProjectConduits } from '@/lib/zone-service';
+import { syncFinalAnswers } from '@/lib/consensus-service';
+import { deleteEvidence } from '@/lib/evidence-service';
+import { recordAuditEvent } from '@/lib/audit-service';
 
 const isValidFulfillmentAnswerValue = (value: string): boolean => {
   const trimmed = value.trim();
@@ -28,7 +32,7 @@ const FulfillmentAnswerValueSchema = z
 
 const UpdateAnswerSchema = z.object({
   answerValue: FulfillmentAnswerValueSchema.optional(),
-  targetType: z.enum(['Component', 'Edge', 'DataObject', 'None']).optional(),
+  targetType: z.enum(['Component', 'Edge', 'DataObject', 'Zone', 'Conduit', 'None']).optional(),
   targetId: z.string().optional(),
   comment: z.string().optional(),
 });
@@ -124,7 +128,7 @@ export async function PUT(
 
     if (
       data.targetType &&
-      ['Component', 'Edge', 'DataObject', 'None'].includes(question.targetType) &&
+      ['Component', 'Edge', 'DataObject', 'Zone', 'Conduit', 'None'].includes(question.targetType) &&
       data.targetType !== question.targetType
     ) {
       return NextResponse.json({ error: 'targetType must match the question target type' }, { status: 400 });
@@ -133,7 +137,7 @@ export async function PUT(
     const effectiveTargetType =
       data.targetType ||
       existing.targetType ||
-      (['Component', 'Edge', 'DataObject', 'None'].includes(question.targetType) ? question.targetType : 'None');
+      (['Component', 'Edge', 'DataObject', 'Zone', 'Conduit', 'None'].includes(question.targetType) ? question.targetType : 'None');
     const normalizedTargetId = data.targetId === undefined ? undefined : data.targetId.trim() || null;
 
     if (effectiveTargetType === 'Component' && normalizedTargetId) {
@@ -163,9 +167,25 @@ export async function PUT(
       }
     }
 
+    if (effectiveTargetType === 'Zone' && normalizedTargetId) {
+      const zone = await prisma.zone.findUnique({
+        where: { id: normalizedTargetId },
+      });
+      if (!zone || zone.projectId !== params.projectId) {
+        return NextResponse.json({ error: 'Invalid zone target' }, { status: 400 });
+      }
+    }
+
+    if (effectiveTargetType === 'Conduit' && normalizedTargetId) {
+      const conduits = await getProjectConduits(params.projectId);
+      if (!conduits.some((conduit) => conduit.id === normalizedTargetId)) {
+        return NextResponse.json({ error: 'Invalid conduit target' }, { status: 400 });
+      }
+    }
+
     const updateData: {
       answerValue?: string;
-      targetType?: 'Component' | 'Edge' | 'DataObject' | 'None';
+      targetType?: 'Component' | 'Edge' | 'DataObject' | 'Zone' | 'Conduit' | 'None';
       targetId?: string | null;
       comment?: string;
     } = {
@@ -186,6 +206,16 @@ export async function PUT(
         },
       },
     });
+    await recordAuditEvent({
+      projectId: params.projectId,
+      actorUserId: userId,
+      entityType: 'Answer',
+      entityId: updated.id,
+      action: 'Update',
+      before: existing,
+      after: updated,
+    });
+    await syncFinalAnswers(params.projectId, existing.questionId);
 
     return NextResponse.json(updated);
   } catch (error) {
@@ -226,9 +256,19 @@ export async function DELETE(
       return NextResponse.json({ error: 'Only the answer owner can delete this answer' }, { status: 403 });
     }
 
+    await deleteEvidence({ answerId: params.answerId });
     await prisma.answer.delete({
       where: { id: params.answerId },
     });
+    await recordAuditEvent({
+      projectId: params.projectId,
+      actorUserId: userId,
+      entityType: 'Answer',
+      entityId: existing.id,
+      action: 'Delete',
+      before: existing,
+    });
+    await syncFinalAnswers(params.projectId, existing.questionId);
 
     return NextResponse.json({ success: true });
   } catch (error) {
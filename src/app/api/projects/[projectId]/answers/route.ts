@@ -2,6 +2,9 @@ import { prisma } from '@/lib/prisma';
 import { requireAuth } from '@/lib/auth';
 import { NextRequest, NextResponse } from 'next/server';
 import * as z from 'zod';
+import { getProjectConduits } from '@/lib/zone-service';
+import { syncFinalAnswers } from '@/lib/consensus-service';
+import { recordAuditEvent } from '@/lib/audit-service';
 
 const isValidFulfillmentAnswerValue = (value: string): boolean => {
   const trimmed = value.trim();
@@ -29,7 +32,7 @@ const FulfillmentAnswerValueSchema = z
 const CreateAnswerSchema = z.object({
   questionId: z.string(),
   answerValue: FulfillmentAnswerValueSchema,
-  targetType: z.enum(['Component', 'Edge', 'DataObject', 'None']).optional(),
+  targetType: z.enum(['Component', 'Edge', 'DataObject', 'Zone', 'Conduit', 'None']).optional(),
   targetId: z.string().optional(),
   comment: z.string().optional(),
 });
@@ -135,7 +138,7 @@ export async function POST(
 
     if (
       targetType &&
-      ['Component', 'Edge', 'DataObject', 'None'].includes(question.targetType) &&
+      ['Component', 'Edge', 'DataObject', 'Zone', 'Conduit', 'None'].includes(question.targetType) &&
       targetType !== question.targetType
     ) {
       return NextResponse.json(
@@ -145,9 +148,9 @@ export async function POST(
     }
 
     const effectiveTargetType =
-      targetType && ['Component', 'Edge', 'DataObject', 'None'].includes(targetType)
+      targetType && ['Component', 'Edge', 'DataObject', 'Zone', 'Conduit', 'None'].includes(targetType)
         ? targetType
-        : question.targetType && ['Component', 'Edge', 'DataObject', 'None'].includes(question.targetType)
+        : question.targetType && ['Component', 'Edge', 'DataObject', 'Zone', 'Conduit', 'None'].includes(question.targetType)
           ? question.targetType
           : 'None';
     const normalizedTargetId = targetId?.trim() || null;
@@ -188,6 +191,28 @@ export async function POST(
       }
     }
 
+    if (effectiveTargetType === 'Zone' && normalizedTargetId) {
+      const zone = await prisma.zone.findUnique({
+        where: { id: normalizedTargetId },
+      });
+      if (!zone || zone.projectId !== params.projectId) {
+        return NextResponse.json(
+          { error: 'Invalid zone target' },
+          { status: 400 }
+        );
+      }
+    }
+
+    if (effectiveTargetType === 'Conduit' && normalizedTargetId) {
+      const conduits = await getProjectConduits(params.projectId);
+      if (!conduits.some((conduit) => conduit.id === normalizedTargetId)) {
+        return NextResponse.json(
+          { error: 'Invalid conduit target' },
+          { status: 400 }
+        );
+      }
+    }
+
     const answer = await prisma.answer.create({
       data: {
         projectId: params.projectId,
@@ -204,6 +229,15 @@ export async function POST(
         },
       },
     });
+    await recordAuditEvent({
+      projectId: params.projectId,
+      actorUserId: userId,
+      entityType: 'Answer',
+      entityId: answer.id,
+      action: 'Create',
+      after: answer,
+    });
+    await syncFinalAnswers(params.projectId, questionId);
 
     return NextResponse.json(answer, { status: 201 });
   } catch (error) {
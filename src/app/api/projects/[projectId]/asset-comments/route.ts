@@ -3,6 +3,7 @@ import { z } from 'zod';
 import { prisma } from '@/lib/prisma';
 import { requireAuth } from '@/lib/auth';
 import { getProjectViewAccess } from '@/lib/project-access';
+import { recordAuditEvent } from '@/lib/audit-service';
 
 const CreateAssetCommentSchema = z.object({
   assetType: z.enum(['Node', 'Edge', 'DataObject']),
@@ -217,6 +218,15 @@ export async function POST(
       },
     });
 
+    await recordAuditEvent({
+      projectId: params.projectId,
+      actorUserId: userId,
+      entityType: 'AssetComment',
+      entityId: createdComment.id,
+      action: 'Create',
+      after: createdComment,
+    });
+
     if (context.ownerUserId && context.ownerUserId !== userId) {
       const project = await prisma.project.findUnique({
         where: { id: params.projectId },
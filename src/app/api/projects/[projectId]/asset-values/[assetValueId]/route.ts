@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { prisma } from '@/lib/prisma';
 import { requireAuth } from '@/lib/auth';
+import { syncEnforcedAssetValues } from '@/lib/valuation-service';
+import { recordAuditEvent } from '@/lib/audit-service';
 
 const UpdateAssetValueSchema = z.object({
   value: z.number().int().min(1).max(10).optional(),
@@ -79,9 +81,18 @@ export async function PUT(
       return NextResponse.json({ error: 'No updates provided' }, { status: 400 });
     }
 
+    // Changing the value turns a derived value into a manual override.
     let updated = await prisma.assetValue.update({
       where: { id: params.assetValueId },
-      data,
+      data: {
+        ...data,
+        ...(data.value !== undefined && {
+          source: 'Manual',
+          confidentiality: null,
+          integrity: null,
+          availability: null,
+        }),
+      },
     });
 
     if (!updated.createdByUserId) {
@@ -93,6 +104,15 @@ export async function PUT(
       });
     }
 
+    await recordAuditEvent({
+      projectId: params.projectId,
+      actorUserId: userId,
+      entityType: 'AssetValue',
+      entityId: updated.id,
+      action: 'Update',
+      before: existing,
+      after: updated,
+    });
     return NextResponse.json(updated);
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -133,6 +153,15 @@ export async function DELETE(
     await prisma.assetValue.delete({
       where: { id: params.assetValueId },
     });
+    await recordAuditEvent({
+      projectId: params.projectId,
+      actorUserId: userId,
+      entityType: 'AssetValue',
+      entityId: existing.id,
+      action: 'Delete',
+      before: existing,
+    });
+    await syncEnforcedAssetValues(params.projectId);
 
     return NextResponse.json({ success: true });
   } catch (error) {
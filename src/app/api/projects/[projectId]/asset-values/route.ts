@@ -4,6 +4,7 @@ import { getProjectViewAccess } from '@/lib/project-access';
 import { isGlobalAdmin } from '@/lib/user-role';
 import { NextRequest, NextResponse } from 'next/server';
 import * as z from 'zod';
+import { recordAuditEvent } from '@/lib/audit-service';
 
 const CreateAssetValueSchema = z.object({
   assetType: z.enum(['Node', 'Edge']),
@@ -144,6 +145,9 @@ export async function POST(
     }
 
     // Create or update asset value
+    const previous = await prisma.assetValue.findUnique({
+      where: { projectId_assetType_assetId: { projectId: params.projectId, assetType, assetId } },
+    });
     let assetValue = await prisma.assetValue.upsert({
       where: {
         projectId_assetType_assetId: {
@@ -152,13 +156,14 @@ export async function POST(
           assetId,
         },
       },
-      update: { value, comment },
+      update: { value, comment, confidentiality: null, integrity: null, availability: null, source: 'Manual' },
       create: {
         projectId: params.projectId,
         assetType,
         assetId,
         value,
         comment,
+        source: 'Manual',
         createdByUserId: userId,
       },
     });
@@ -174,6 +179,15 @@ export async function POST(
       });
     }
 
+    await recordAuditEvent({
+      projectId: params.projectId,
+      actorUserId: userId,
+      entityType: 'AssetValue',
+      entityId: assetValue.id,
+      action: previous ? 'Update' : 'Create',
+      before: previous,
+      after: assetValue,
+    });
     return NextResponse.json(assetValue, { status: 201 });
   } catch (error) {
     if (error instanceof z.ZodError) {
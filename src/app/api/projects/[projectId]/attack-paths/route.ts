@@ -0,0 +1,59 @@
+/**
+ * Attack Paths API Route
+ * Ranks attack paths from entry points to target assets
+ * Query: entry=<nodeId,...>&target=<nodeId,...>&limit=<n>&depth=<n>
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { getProjectViewAccess } from '@/lib/project-access';
+import { DEFAULT_MAX_PATH_DEPTH, DEFAULT_MAX_PATHS, getAttackPathAnalysis } from '@/lib/attack-path-service';
+
+const readIdList = (value: string | null): string[] =>
+  (value || '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+
+const readBoundedInt = (value: string | null, fallback: number, max: number): number => {
+  const parsed = Number.parseInt(value || '', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? Math.min(parsed, max) : fallback;
+};
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { projectId: string } }
+) {
+  try {
+    const session = await requireAuth();
+    const userId = session.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'User not found' }, { status: 401 });
+    }
+
+    const access = await getProjectViewAccess(params.projectId, userId, session.user?.role);
+    if (!access.exists) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    if (!access.canView) {
+      return NextResponse.json({ error: 'Not authorized' }, { status: 403 });
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const analysis = await getAttackPathAnalysis(params.projectId, {
+      entryNodeIds: readIdList(searchParams.get('entry')),
+      targetNodeIds: readIdList(searchParams.get('target')),
+      maxPaths: readBoundedInt(searchParams.get('limit'), DEFAULT_MAX_PATHS, 25),
+      maxDepth: readBoundedInt(searchParams.get('depth'), DEFAULT_MAX_PATH_DEPTH, 12),
+    });
+
+    return NextResponse.json(analysis);
+  } catch (error) {
+    if ((error as Error).message === 'Unauthenticated') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    console.error('Get attack paths error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
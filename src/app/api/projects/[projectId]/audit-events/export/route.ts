@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requireAuth } from '@/lib/auth';
+import { isGlobalAdmin } from '@/lib/user-role';
+import { isProjectAdminMembershipRole } from '@/lib/project-access';
+import { auditEventsToCsv, listAuditEvents, parseAuditEventFilters } from '@/lib/audit-service';
+
+async function getMembership(projectId: string, userId: string) {
+  return prisma.projectMembership.findUnique({
+    where: { projectId_userId: { projectId, userId } },
+  });
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { projectId: string } }
+) {
+  try {
+    const session = await requireAuth();
+    const userId = session.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const membership = await getMembership(params.projectId, userId);
+    if (!isGlobalAdmin(session.user?.role) && !isProjectAdminMembershipRole(membership?.role)) {
+      return NextResponse.json({ error: 'Not authorized (Admin required)' }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const events = await listAuditEvents({ ...parseAuditEventFilters(searchParams), projectId: params.projectId });
+    const fileDate = new Date().toISOString().slice(0, 10);
+
+    if (searchParams.get('format') === 'json') {
+      return new NextResponse(JSON.stringify({ projectId: params.projectId, exportedAt: new Date(), events }, null, 2), {
+        headers: {
+          'Content-Type': 'application/json; charset=utf-8',
+          'Content-Disposition': `attachment; filename="audit-trail-${params.projectId}-${fileDate}.json"`,
+        },
+      });
+    }
+
+    return new NextResponse(auditEventsToCsv(events), {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="audit-trail-${params.projectId}-${fileDate}.csv"`,
+      },
+    });
+  } catch (error) {
+    if ((error as Error).message === 'Unauthenticated') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    console.error('Export audit events error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requireAuth } from '@/lib/auth';
+import { getProjectViewAccess } from '@/lib/project-access';
+import { listAuditEvents, parseAuditEventFilters } from '@/lib/audit-service';
+
+const DEFAULT_PAGE_SIZE = 100;
+const MAX_PAGE_SIZE = 500;
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { projectId: string } }
+) {
+  try {
+    const session = await requireAuth();
+    const userId = session.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const access = await getProjectViewAccess(params.projectId, userId, session.user?.role);
+    if (!access.exists) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+    if (!access.canView) {
+      return NextResponse.json({ error: 'Not authorized' }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const requestedLimit = Number(searchParams.get('limit'));
+    const take = Number.isInteger(requestedLimit) && requestedLimit > 0
+      ? Math.min(requestedLimit, MAX_PAGE_SIZE)
+      : DEFAULT_PAGE_SIZE;
+
+    const [events, entityTypes, actors] = await Promise.all([
+      listAuditEvents(
+        { ...parseAuditEventFilters(searchParams), projectId: params.projectId },
+        { take: take + 1, cursor: searchParams.get('cursor') || undefined }
+      ),
+      prisma.auditEvent.findMany({
+        where: { projectId: params.projectId },
+        distinct: ['entityType'],
+        select: { entityType: true },
+        orderBy: { entityType: 'asc' },
+      }),
+      prisma.auditEvent.findMany({
+        where: { projectId: params.projectId, actorUserId: { not: null } },
+        distinct: ['actorUserId'],
+        select: { actorUserId: true, actorName: true },
+      }),
+    ]);
+
+    const page = events.slice(0, take);
+    return NextResponse.json({
+      events: page,
+      nextCursor: events.length > take ? page[page.length - 1]?.id || null : null,
+      entityTypes: entityTypes.map((entry) => entry.entityType),
+      actors: actors.map((actor) => ({ id: actor.actorUserId, name: actor.actorName || actor.actorUserId })),
+    });
+  } catch (error) {
+    if ((error as Error).message === 'Unauthenticated') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    console.error('Get audit events error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
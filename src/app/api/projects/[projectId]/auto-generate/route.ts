@@ -8,6 +8,7 @@ import { autoGenerateFindings } from '@/lib/risk-service';
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { isGlobalAdmin } from '@/lib/user-role';
+import { recordAuditEvent } from '@/lib/audit-service';
 
 export async function POST(
   _request: NextRequest,
@@ -38,6 +39,13 @@ export async function POST(
 
     // Auto-generate
     const result = await autoGenerateFindings(params.projectId, userId);
+    await recordAuditEvent({
+      projectId: params.projectId,
+      actorUserId: userId,
+      entityType: 'Finding',
+      action: 'Generate',
+      after: { findingsGenerated: result.findingsGenerated, measuresGenerated: result.measuresGenerated },
+    });
 
     return NextResponse.json({
       success: true,
@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { requireAuth } from '@/lib/auth';
+import { getProjectViewAccess, isProjectAdminMembershipRole } from '@/lib/project-access';
+import { isGlobalAdmin } from '@/lib/user-role';
+import { recordAuditEvent } from '@/lib/audit-service';
+import { loadAssessmentBaseline } from '@/lib/baseline-service';
+
+/**
+ * Full frozen content of a baseline.
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: { projectId: string; baselineId: string } }
+) {
+  try {
+    const session = await requireAuth();
+    const userId = session.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'User not found' }, { status: 401 });
+    }
+
+    const access = await getProjectViewAccess(params.projectId, userId, session.user?.role);
+    if (!access.exists) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+    if (!access.canView) {
+      return NextResponse.json({ error: 'Not authorized' }, { status: 403 });
+    }
+
+    const loaded = await loadAssessmentBaseline(params.projectId, params.baselineId);
+    if (!loaded) {
+      return NextResponse.json({ error: 'Baseline not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ ...loaded.baseline, snapshot: loaded.snapshot });
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ error: 'Baseline data is corrupted (invalid JSON)' }, { status: 422 });
+    }
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid baseline format', details: error.errors }, { status: 422 });
+    }
+    if ((error as Error).message === 'Unauthenticated') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    console.error('Get baseline error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * Baselines are the frozen record of a release, so only project admins may delete them.
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: { projectId: string; baselineId: string } }
+) {
+  try {
+    const session = await requireAuth();
+    const userId = session.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'User not found' }, { status: 401 });
+    }
+
+    const access = await getProjectViewAccess(params.projectId, userId, session.user?.role);
+    if (!access.exists) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+    if (!isGlobalAdmin(session.user?.role) && !isProjectAdminMembershipRole(access.membershipRole)) {
+      return NextResponse.json({ error: 'Not authorized (Admin required)' }, { status: 403 });
+    }
+
+    const baseline = await prisma.assessmentBaseline.findFirst({
+      where: {
+        id: params.baselineId,
+        projectId: params.projectId,
+      },
+      select: {
+        id: true,
+        releaseName: true,
+        notes: true,
+        createdByUserId: true,
+        createdAt: true,
+      },
+    });
+
+    if (!baseline) {
+      return NextResponse.json({ error: 'Baseline not found' }, { status: 404 });
+    }
+
+    await prisma.assessmentBaseline.delete({
+      where: { id: baseline.id },
+    });
+    await recordAuditEvent({
+      projectId: params.projectId,
+      actorUserId: userId,
+      entityType: 'Baseline',
+      entityId: baseline.id,
+      action: 'Delete',
+      before: baseline,
+    });
+
+    return NextResponse.json({ success: true, id: baseline.id });
+  } catch (error) {
+    if ((error as Error).message === 'Unauthenticated') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    console.error('Delete baseline error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
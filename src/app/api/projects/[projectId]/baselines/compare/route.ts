@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireAuth } from '@/lib/auth';
+import { getProjectViewAccess } from '@/lib/project-access';
+import {
+  AssessmentBaseline,
+  LATEST_BASELINE_REF,
+  LIVE_BASELINE_REF,
+  captureAssessmentBaseline,
+  compareAssessmentBaselines,
+  loadAssessmentBaseline,
+} from '@/lib/baseline-service';
+
+type BaselineSide = {
+  ref: { id: string; releaseName: string; createdAt: Date | null };
+  snapshot: AssessmentBaseline;
+};
+
+/**
+ * Release-over-release comparison: `?from=<baselineId|latest>&to=<baselineId|live>`,
+ * `from` defaults to the latest baseline and `to` to the current assessment.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { projectId: string } }
+) {
+  try {
+    const session = await requireAuth();
+    const userId = session.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'User not found' }, { status: 401 });
+    }
+
+    const access = await getProjectViewAccess(params.projectId, userId, session.user?.role);
+    if (!access.exists) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+    if (!access.canView) {
+      return NextResponse.json({ error: 'Not authorized' }, { status: 403 });
+    }
+
+    const searchParams = new URL(request.url).searchParams;
+    const fromRef = searchParams.get('from') || LATEST_BASELINE_REF;
+    const toRef = searchParams.get('to') || LIVE_BASELINE_REF;
+
+    const loadSide = async (ref: string): Promise<BaselineSide | null> => {
+      if (ref === LIVE_BASELINE_REF) {
+        return {
+          ref: { id: LIVE_BASELINE_REF, releaseName: 'Current assessment', createdAt: null },
+          snapshot: await captureAssessmentBaseline(params.projectId),
+        };
+      }
+      const loaded = await loadAssessmentBaseline(params.projectId, ref);
+      return loaded
+        ? {
+            ref: { id: loaded.baseline.id, releaseName: loaded.baseline.releaseName, createdAt: loaded.baseline.createdAt },
+            snapshot: loaded.snapshot,
+          }
+        : null;
+    };
+
+    const [from, to] = await Promise.all([loadSide(fromRef), loadSide(toRef)]);
+    if (!from || !to) {
+      return NextResponse.json({ error: 'Baseline not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      from: from.ref,
+      to: to.ref,
+      ...compareAssessmentBaselines(from.snapshot, to.snapshot),
+    });
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ error: 'Baseline data is corrupted (invalid JSON)' }, { status: 422 });
+    }
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid baseline format', details: error.errors }, { status: 422 });
+    }
+    if ((error as Error).message === 'Unauthenticated') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    console.error('Compare baselines error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,132 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { requireAuth } from '@/lib/auth';
+import { getProjectViewAccess } from '@/lib/project-access';
+import { isGlobalAdmin } from '@/lib/user-role';
+import { recordAuditEvent } from '@/lib/audit-service';
+import { captureAssessmentBaseline } from '@/lib/baseline-service';
+
+const CreateBaselineSchema = z.object({
+  releaseName: z.string().trim().min(1).max(120),
+  notes: z.string().max(2000).optional(),
+});
+
+const baselineSelect = {
+  id: true,
+  releaseName: true,
+  notes: true,
+  createdAt: true,
+  createdBy: {
+    select: {
+      id: true,
+      name: true,
+      email: true,
+    },
+  },
+} as const;
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: { projectId: string } }
+) {
+  try {
+    const session = await requireAuth();
+    const userId = session.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'User not found' }, { status: 401 });
+    }
+
+    const access = await getProjectViewAccess(params.projectId, userId, session.user?.role);
+    if (!access.exists) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+    if (!access.canView) {
+      return NextResponse.json({ error: 'Not authorized' }, { status: 403 });
+    }
+
+    const baselines = await prisma.assessmentBaseline.findMany({
+      where: { projectId: params.projectId },
+      orderBy: { createdAt: 'desc' },
+      select: baselineSelect,
+    });
+
+    return NextResponse.json(baselines);
+  } catch (error) {
+    if ((error as Error).message === 'Unauthenticated') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    console.error('Get baselines error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * Freezes the current model and assessment as the baseline of a release.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { projectId: string } }
+) {
+  try {
+    const session = await requireAuth();
+    const userId = session.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'User not found' }, { status: 401 });
+    }
+
+    const access = await getProjectViewAccess(params.projectId, userId, session.user?.role);
+    if (!access.exists) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+    if (
+      !isGlobalAdmin(session.user?.role) &&
+      (!access.membershipRole || (access.membershipRole !== 'Admin' && access.membershipRole !== 'Editor'))
+    ) {
+      return NextResponse.json({ error: 'Not authorized (Editor required)' }, { status: 403 });
+    }
+
+    const data = CreateBaselineSchema.parse(await request.json());
+    const snapshot = await captureAssessmentBaseline(params.projectId);
+
+    const created = await prisma.assessmentBaseline.create({
+      data: {
+        projectId: params.projectId,
+        releaseName: data.releaseName,
+        notes: data.notes?.trim() || null,
+        baselineJson: JSON.stringify(snapshot),
+        createdByUserId: userId,
+      },
+      select: baselineSelect,
+    });
+
+    await recordAuditEvent({
+      projectId: params.projectId,
+      actorUserId: userId,
+      entityType: 'Baseline',
+      entityId: created.id,
+      action: 'Create',
+      after: {
+        releaseName: created.releaseName,
+        notes: created.notes,
+        nodes: snapshot.model.nodes.length,
+        answers: snapshot.answers.length,
+        findings: snapshot.findings.length,
+        measures: snapshot.measures.length,
+      },
+    });
+    return NextResponse.json(created, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid input', details: error.errors }, { status: 400 });
+    }
+    if ((error as { code?: string })?.code === 'P2002') {
+      return NextResponse.json({ error: 'A baseline for this release already exists' }, { status: 409 });
+    }
+    if ((error as Error).message === 'Unauthenticated') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    console.error('Create baseline error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -2,8 +2,11 @@ import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { prisma } from '@/lib/prisma';
 import { requireAuth } from '@/lib/auth';
+import { syncEnforcedAssetValues } from '@/lib/valuation-service';
 import { getProjectViewAccess } from '@/lib/project-access';
 import { isGlobalAdmin } from '@/lib/user-role';
+import { recordAuditEvent } from '@/lib/audit-service';
+import { getRequestClientId, publishModelChange } from '@/lib/collaboration-service';
 
 const CreateComponentDataSchema = z.object({
   nodeId: z.string(),
@@ -105,6 +108,9 @@ export async function POST(
       return NextResponse.json({ error: 'Data can only be assigned to components' }, { status: 400 });
     }
 
+    const previous = await prisma.componentData.findUnique({
+      where: { nodeId_dataObjectId: { nodeId: data.nodeId, dataObjectId: data.dataObjectId } },
+    });
     const record = await prisma.componentData.upsert({
       where: {
         nodeId_dataObjectId: {
@@ -123,6 +129,23 @@ export async function POST(
       },
     });
 
+    await recordAuditEvent({
+      projectId: params.projectId,
+      actorUserId: userId,
+      entityType: 'ComponentData',
+      entityId: record.id,
+      action: previous ? 'Update' : 'Create',
+      before: previous,
+      after: record,
+    });
+    publishModelChange(params.projectId, {
+      entityType: 'ComponentData',
+      entityId: record.id,
+      action: previous ? 'Update' : 'Create',
+      actorUserId: userId,
+      clientId: getRequestClientId(request),
+    });
+    await syncEnforcedAssetValues(params.projectId);
     return NextResponse.json(record, { status: 201 });
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -166,7 +189,23 @@ export async function DELETE(
     await prisma.componentData.delete({
       where: { nodeId_dataObjectId: data },
     });
+    await recordAuditEvent({
+      projectId: params.projectId,
+      actorUserId: userId,
+      entityType: 'ComponentData',
+      entityId: existing.id,
+      action: 'Delete',
+      before: existing,
+    });
+    publishModelChange(params.projectId, {
+      entityType: 'ComponentData',
+      entityId: existing.id,
+      action: 'Delete',
+      actorUserId: userId,
+      clientId: getRequestClientId(request),
+    });
 
+    await syncEnforcedAssetValues(params.projectId);
     return NextResponse.json({ success: true });
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -2,6 +2,9 @@ import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { prisma } from '@/lib/prisma';
 import { requireAuth } from '@/lib/auth';
+import { syncEnforcedAssetValues } from '@/lib/valuation-service';
+import { recordAuditEvent } from '@/lib/audit-service';
+import { getRequestClientId, isStaleWrite, publishModelChange, versionedUpdateWhere } from '@/lib/collaboration-service';
 
 const UpdateDataObjectSchema = z.object({
   name: z.string().min(1).optional(),
@@ -23,6 +26,7 @@ const UpdateDataObjectSchema = z.object({
   integrity: z.number().int().min(1).max(10).optional(),
   availability: z.number().int().min(1).max(10).optional(),
   tags: z.string().optional(),
+  expectedUpdatedAt: z.string().optional(),
 });
 
 async function getMembership(projectId: string, userId: string) {
@@ -92,20 +96,55 @@ export async function PUT(
     }
 
     const payload = await request.json();
-    const data = UpdateDataObjectSchema.parse(payload);
+    const { expectedUpdatedAt, ...data } = UpdateDataObjectSchema.parse(payload);
     if (Object.keys(data).length === 0) {
       return NextResponse.json({ error: 'No updates provided' }, { status: 400 });
     }
+    const staleConflict = (current: unknown) =>
+      NextResponse.json(
+        {
+          error: 'This data object was changed by someone else. Review the latest version and try again.',
+          current,
+        },
+        { status: 409 }
+      );
+    if (isStaleWrite(expectedUpdatedAt, existing.updatedAt)) {
+      return staleConflict(existing);
+    }
 
-    const updated = await prisma.dataObject.update({
-      where: { id: params.dataObjectId },
+    const { count } = await prisma.dataObject.updateMany({
+      where: versionedUpdateWhere(params.dataObjectId, expectedUpdatedAt),
       data,
+    });
+    if (count === 0) {
+      return staleConflict(await prisma.dataObject.findUnique({ where: { id: params.dataObjectId } }));
+    }
+
+    const updated = await prisma.dataObject.findUniqueOrThrow({
+      where: { id: params.dataObjectId },
       include: {
         componentData: true,
         edgeDataFlows: true,
       },
     });
 
+    await recordAuditEvent({
+      projectId: params.projectId,
+      actorUserId: userId,
+      entityType: 'DataObject',
+      entityId: updated.id,
+      action: 'Update',
+      before: existing,
+      after: updated,
+    });
+    publishModelChange(params.projectId, {
+      entityType: 'DataObject',
+      entityId: updated.id,
+      action: 'Update',
+      actorUserId: userId,
+      clientId: getRequestClientId(request),
+    });
+    await syncEnforcedAssetValues(params.projectId);
     return NextResponse.json(updated);
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -120,7 +159,7 @@ export async function PUT(
 }
 
 export async function DELETE(
-  _request: NextRequest,
+  request: NextRequest,
   { params }: { params: { projectId: string; dataObjectId: string } }
 ) {
   try {
@@ -145,7 +184,23 @@ export async function DELETE(
     await prisma.dataObject.delete({
       where: { id: params.dataObjectId },
     });
+    await recordAuditEvent({
+      projectId: params.projectId,
+      actorUserId: userId,
+      entityType: 'DataObject',
+      entityId: existing.id,
+      action: 'Delete',
+      before: existing,
+    });
+    publishModelChange(params.projectId, {
+      entityType: 'DataObject',
+      entityId: existing.id,
+      action: 'Delete',
+      actorUserId: userId,
+      clientId: getRequestClientId(request),
+    });
 
+    await syncEnforcedAssetValues(params.projectId);
     return NextResponse.json({ success: true });
   } catch (error) {
     if ((error as Error).message === 'Unauthenticated') {
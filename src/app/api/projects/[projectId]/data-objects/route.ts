@@ -3,6 +3,8 @@ import { z } from 'zod';
 import { prisma } from '@/lib/prisma';
 import { requireAuth } from '@/lib/auth';
 import { getProjectViewAccess } from '@/lib/project-access';
+import { recordAuditEvent } from '@/lib/audit-service';
+import { getRequestClientId, publishModelChange } from '@/lib/collaboration-service';
 
 const CreateDataObjectSchema = z.object({
   name: z.string().min(1),
@@ -99,6 +101,21 @@ export async function POST(
       },
     });
 
+    await recordAuditEvent({
+      projectId: params.projectId,
+      actorUserId: userId,
+      entityType: 'DataObject',
+      entityId: dataObject.id,
+      action: 'Create',
+      after: dataObject,
+    });
+    publishModelChange(params.projectId, {
+      entityType: 'DataObject',
+      entityId: dataObject.id,
+      action: 'Create',
+      actorUserId: userId,
+      clientId: getRequestClientId(request),
+    });
     return NextResponse.json(dataObject, { status: 201 });
   } catch (error) {
     if (error instanceof z.ZodError) {
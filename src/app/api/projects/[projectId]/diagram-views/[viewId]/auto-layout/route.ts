@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { requireAuth } from '@/lib/auth';
+import { canEditProjectMembershipRole, getProjectViewAccess } from '@/lib/project-access';
+import { isGlobalAdmin } from '@/lib/user-role';
+import { autoLayoutDiagramView, resolveDiagramView } from '@/lib/diagram-layout-service';
+import { AUTO_LAYOUT_ALGORITHMS, isLayoutContainer } from '@/lib/auto-layout-service';
+import { getRequestClientId, publishLayoutChange } from '@/lib/collaboration-service';
+import { recordAuditEvent } from '@/lib/audit-service';
+
+const AutoLayoutSchema = z.object({
+  algorithm: z.enum(AUTO_LAYOUT_ALGORITHMS),
+  containerId: z.string().optional().nullable(),
+});
+
+/**
+ * Arranges the whole model or the content of one container in this view and
+ * stores the result like a manual layout change. Unlike single moves, an
+ * auto layout rearranges many elements at once and is audited.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { projectId: string; viewId: string } }
+) {
+  try {
+    const session = await requireAuth();
+    const userId = session.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const access = await getProjectViewAccess(params.projectId, userId, session.user?.role);
+    if (!access.exists) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+    if (!isGlobalAdmin(session.user?.role) && !canEditProjectMembershipRole(access.membershipRole)) {
+      return NextResponse.json({ error: 'Not authorized (Editor required)' }, { status: 403 });
+    }
+
+    const view = await resolveDiagramView(params.projectId, params.viewId);
+    if (!view) {
+      return NextResponse.json({ error: 'View not found' }, { status: 404 });
+    }
+
+    const { algorithm, containerId } = AutoLayoutSchema.parse(await request.json());
+
+    if (containerId) {
+      const container = await prisma.modelNode.findFirst({
+        where: { id: containerId, projectId: params.projectId },
+        select: { category: true },
+      });
+      if (!container || !isLayoutContainer(container)) {
+        return NextResponse.json({ error: 'Container not found' }, { status: 404 });
+      }
+    }
+
+    const layout = await autoLayoutDiagramView(params.projectId, view.id, { algorithm, containerId });
+    await recordAuditEvent({
+      projectId: params.projectId,
+      actorUserId: userId,
+      entityType: 'DiagramView',
+      entityId: view.id,
+      action: 'Update',
+      after: {
+        autoLayout: algorithm,
+        containerId: containerId ?? null,
+        arrangedNodes: Object.keys(layout.nodePositions).length,
+      },
+    });
+    publishLayoutChange(params.projectId, {
+      viewId: view.id,
+      nodePositions: layout.nodePositions,
+      containerSizes: layout.containerSizes,
+      actorUserId: userId,
+      clientId: getRequestClientId(request),
+    });
+
+    return NextResponse.json({ viewId: view.id, ...layout });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid input', details: error.errors }, { status: 400 });
+    }
+    if ((error as Error).message === 'Unauthenticated') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    console.error('Auto layout error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
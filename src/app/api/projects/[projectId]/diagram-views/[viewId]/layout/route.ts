@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireAuth } from '@/lib/auth';
+import { canEditProjectMembershipRole, getProjectViewAccess } from '@/lib/project-access';
+import { isGlobalAdmin } from '@/lib/user-role';
+import { getDiagramLayout, resolveDiagramView, saveDiagramLayout } from '@/lib/diagram-layout-service';
+import { getRequestClientId, publishLayoutChange } from '@/lib/collaboration-service';
+
+const PositionSchema = z.object({ x: z.number().finite(), y: z.number().finite() });
+const SizeSchema = z.object({ width: z.number().finite().positive(), height: z.number().finite().positive() });
+
+const SaveLayoutSchema = z.object({
+  nodePositions: z.record(PositionSchema).optional(),
+  containerSizes: z.record(SizeSchema).optional(),
+});
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: { projectId: string; viewId: string } }
+) {
+  try {
+    const session = await requireAuth();
+    const userId = session.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const access = await getProjectViewAccess(params.projectId, userId, session.user?.role);
+    if (!access.exists) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+    if (!access.canView) {
+      return NextResponse.json({ error: 'Not authorized' }, { status: 403 });
+    }
+
+    const view = await resolveDiagramView(params.projectId, params.viewId);
+    if (!view) {
+      return NextResponse.json({ error: 'View not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ viewId: view.id, ...(await getDiagramLayout(view.id)) });
+  } catch (error) {
+    if ((error as Error).message === 'Unauthenticated') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    console.error('Get diagram layout error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * Stores moved nodes and resized containers. Nodes that are not sent keep
+ * their stored layout. Layout moves are not written to the audit trail.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { projectId: string; viewId: string } }
+) {
+  try {
+    const session = await requireAuth();
+    const userId = session.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const access = await getProjectViewAccess(params.projectId, userId, session.user?.role);
+    if (!access.exists) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+    if (!isGlobalAdmin(session.user?.role) && !canEditProjectMembershipRole(access.membershipRole)) {
+      return NextResponse.json({ error: 'Not authorized (Editor required)' }, { status: 403 });
+    }
+
+    const view = await resolveDiagramView(params.projectId, params.viewId);
+    if (!view) {
+      return NextResponse.json({ error: 'View not found' }, { status: 404 });
+    }
+
+    const layout = await saveDiagramLayout(params.projectId, view.id, SaveLayoutSchema.parse(await request.json()));
+    publishLayoutChange(params.projectId, {
+      viewId: view.id,
+      nodePositions: layout.nodePositions,
+      containerSizes: layout.containerSizes,
+      actorUserId: userId,
+      clientId: getRequestClientId(request),
+    });
+
+    return NextResponse.json({ viewId: view.id, ...layout });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid input', details: error.errors }, { status: 400 });
+    }
+    if ((error as Error).message === 'Unauthenticated') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    console.error('Save diagram layout error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,133 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { requireAuth } from '@/lib/auth';
+import { canEditProjectMembershipRole, getProjectViewAccess } from '@/lib/project-access';
+import { isGlobalAdmin } from '@/lib/user-role';
+import { recordAuditEvent } from '@/lib/audit-service';
+import { resolveDiagramView } from '@/lib/diagram-layout-service';
+
+const UpdateDiagramViewSchema = z.object({
+  name: z.string().trim().min(1).max(80).optional(),
+  description: z.string().max(500).nullable().optional(),
+  isDefault: z.literal(true).optional(),
+});
+
+async function authorizeEditor(projectId: string) {
+  const session = await requireAuth();
+  const userId = session.user?.id;
+  if (!userId) {
+    return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) };
+  }
+
+  const access = await getProjectViewAccess(projectId, userId, session.user?.role);
+  if (!access.exists) {
+    return { error: NextResponse.json({ error: 'Project not found' }, { status: 404 }) };
+  }
+  if (!isGlobalAdmin(session.user?.role) && !canEditProjectMembershipRole(access.membershipRole)) {
+    return { error: NextResponse.json({ error: 'Not authorized (Editor required)' }, { status: 403 }) };
+  }
+  return { userId };
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { projectId: string; viewId: string } }
+) {
+  try {
+    const auth = await authorizeEditor(params.projectId);
+    if (auth.error) {
+      return auth.error;
+    }
+
+    const existing = await resolveDiagramView(params.projectId, params.viewId);
+    if (!existing) {
+      return NextResponse.json({ error: 'View not found' }, { status: 404 });
+    }
+
+    const data = UpdateDiagramViewSchema.parse(await request.json());
+    if (data.name && data.name !== existing.name) {
+      const duplicate = await prisma.diagramView.findUnique({
+        where: { projectId_name: { projectId: params.projectId, name: data.name } },
+      });
+      if (duplicate) {
+        return NextResponse.json({ error: 'A view with this name already exists' }, { status: 409 });
+      }
+    }
+
+    const view = await prisma.$transaction(async (tx) => {
+      if (data.isDefault) {
+        await tx.diagramView.updateMany({
+          where: { projectId: params.projectId, isDefault: true, NOT: { id: existing.id } },
+          data: { isDefault: false },
+        });
+      }
+      return tx.diagramView.update({
+        where: { id: existing.id },
+        data: {
+          ...(data.name && { name: data.name }),
+          ...(data.description !== undefined && { description: data.description?.trim() || null }),
+          ...(data.isDefault && { isDefault: true }),
+        },
+      });
+    });
+
+    await recordAuditEvent({
+      projectId: params.projectId,
+      actorUserId: auth.userId,
+      entityType: 'DiagramView',
+      entityId: view.id,
+      action: 'Update',
+      before: existing,
+      after: view,
+    });
+    return NextResponse.json(view);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid input', details: error.errors }, { status: 400 });
+    }
+    if ((error as Error).message === 'Unauthenticated') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    console.error('Update diagram view error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: { projectId: string; viewId: string } }
+) {
+  try {
+    const auth = await authorizeEditor(params.projectId);
+    if (auth.error) {
+      return auth.error;
+    }
+
+    const existing = await resolveDiagramView(params.projectId, params.viewId);
+    if (!existing) {
+      return NextResponse.json({ error: 'View not found' }, { status: 404 });
+    }
+    if (existing.isDefault) {
+      return NextResponse.json({ error: 'The default view cannot be deleted' }, { status: 400 });
+    }
+
+    await prisma.diagramView.delete({ where: { id: existing.id } });
+    await recordAuditEvent({
+      projectId: params.projectId,
+      actorUserId: auth.userId,
+      entityType: 'DiagramView',
+      entityId: existing.id,
+      action: 'Delete',
+      before: existing,
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if ((error as Error).message === 'Unauthenticated') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    console.error('Delete diagram view error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
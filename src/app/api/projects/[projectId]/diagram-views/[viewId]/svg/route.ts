@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { getProjectViewAccess } from '@/lib/project-access';
+import { buildModelDiagramScene, renderModelDiagramSvg } from '@/lib/model-diagram';
+import { loadModelDiagramSource } from '@/lib/model-diagram-service';
+
+/**
+ * Renders the view as SVG image. `?containerId=` limits the drawing to one
+ * container and its content.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { projectId: string; viewId: string } }
+) {
+  try {
+    const session = await requireAuth();
+    const userId = session.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const access = await getProjectViewAccess(params.projectId, userId, session.user?.role);
+    if (!access.exists) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+    if (!access.canView) {
+      return NextResponse.json({ error: 'Not authorized' }, { status: 403 });
+    }
+
+    const source = await loadModelDiagramSource(params.projectId, params.viewId);
+    if (!source) {
+      return NextResponse.json({ error: 'View not found' }, { status: 404 });
+    }
+    const containerId = request.nextUrl.searchParams.get('containerId');
+    if (containerId && !source.nodes.some((node) => node.id === containerId)) {
+      return NextResponse.json({ error: 'Container not found' }, { status: 404 });
+    }
+
+    return new NextResponse(renderModelDiagramSvg(buildModelDiagramScene(source, containerId)), {
+      headers: {
+        'Content-Type': 'image/svg+xml; charset=utf-8',
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    if ((error as Error).message === 'Unauthenticated') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    console.error('Render diagram SVG error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
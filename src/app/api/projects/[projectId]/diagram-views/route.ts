@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { requireAuth } from '@/lib/auth';
+import { canEditProjectMembershipRole, getProjectViewAccess } from '@/lib/project-access';
+import { isGlobalAdmin } from '@/lib/user-role';
+import { recordAuditEvent } from '@/lib/audit-service';
+import { copyDiagramLayout, ensureDefaultDiagramView, resolveDiagramView } from '@/lib/diagram-layout-service';
+
+const CreateDiagramViewSchema = z.object({
+  name: z.string().trim().min(1).max(80),
+  description: z.string().max(500).optional(),
+  copyFromViewId: z.string().nullable().optional(),
+});
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: { projectId: string } }
+) {
+  try {
+    const session = await requireAuth();
+    const userId = session.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const access = await getProjectViewAccess(params.projectId, userId, session.user?.role);
+    if (!access.exists) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+    if (!access.canView) {
+      return NextResponse.json({ error: 'Not authorized' }, { status: 403 });
+    }
+
+    await ensureDefaultDiagramView(params.projectId);
+    const views = await prisma.diagramView.findMany({
+      where: { projectId: params.projectId },
+      orderBy: [{ isDefault: 'desc' }, { name: 'asc' }],
+    });
+
+    return NextResponse.json(views);
+  } catch (error) {
+    if ((error as Error).message === 'Unauthenticated') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    console.error('Get diagram views error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { projectId: string } }
+) {
+  try {
+    const session = await requireAuth();
+    const userId = session.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const access = await getProjectViewAccess(params.projectId, userId, session.user?.role);
+    if (!access.exists) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+    if (!isGlobalAdmin(session.user?.role) && !canEditProjectMembershipRole(access.membershipRole)) {
+      return NextResponse.json({ error: 'Not authorized (Editor required)' }, { status: 403 });
+    }
+
+    const data = CreateDiagramViewSchema.parse(await request.json());
+    const existing = await prisma.diagramView.findUnique({
+      where: { projectId_name: { projectId: params.projectId, name: data.name } },
+    });
+    if (existing) {
+      return NextResponse.json({ error: 'A view with this name already exists' }, { status: 409 });
+    }
+
+    const sourceView = data.copyFromViewId
+      ? await resolveDiagramView(params.projectId, data.copyFromViewId)
+      : null;
+    if (data.copyFromViewId && !sourceView) {
+      return NextResponse.json({ error: 'View to copy not found' }, { status: 404 });
+    }
+
+    await ensureDefaultDiagramView(params.projectId, userId);
+    const view = await prisma.diagramView.create({
+      data: {
+        projectId: params.projectId,
+        name: data.name,
+        description: data.description?.trim() || null,
+        createdByUserId: userId,
+      },
+    });
+    if (sourceView) {
+      await copyDiagramLayout(sourceView.id, view.id);
+    }
+
+    await recordAuditEvent({
+      projectId: params.projectId,
+      actorUserId: userId,
+      entityType: 'DiagramView',
+      entityId: view.id,
+      action: 'Create',
+      after: view,
+    });
+    return NextResponse.json(view, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid input', details: error.errors }, { status: 400 });
+    }
+    if ((error as Error).message === 'Unauthenticated') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    console.error('Create diagram view error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -2,7 +2,10 @@ import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { prisma } from '@/lib/prisma';
 import { requireAuth } from '@/lib/auth';
+import { syncEnforcedAssetValues } from '@/lib/valuation-service';
 import { getProjectViewAccess } from '@/lib/project-access';
+import { recordAuditEvent } from '@/lib/audit-service';
+import { getRequestClientId, publishModelChange } from '@/lib/collaboration-service';
 
 const CreateEdgeDataFlowSchema = z.object({
   edgeId: z.string(),
@@ -92,6 +95,9 @@ export async function POST(
       return NextResponse.json({ error: 'Edge or data object not in project' }, { status: 400 });
     }
 
+    const previous = await prisma.edgeDataFlow.findUnique({
+      where: { edgeId_dataObjectId: { edgeId: data.edgeId, dataObjectId: data.dataObjectId } },
+    });
     const record = await prisma.edgeDataFlow.upsert({
       where: {
         edgeId_dataObjectId: {
@@ -110,6 +116,23 @@ export async function POST(
       },
     });
 
+    await recordAuditEvent({
+      projectId: params.projectId,
+      actorUserId: userId,
+      entityType: 'EdgeDataFlow',
+      entityId: record.id,
+      action: previous ? 'Update' : 'Create',
+      before: previous,
+      after: record,
+    });
+    publishModelChange(params.projectId, {
+      entityType: 'EdgeDataFlow',
+      entityId: record.id,
+      action: previous ? 'Update' : 'Create',
+      actorUserId: userId,
+      clientId: getRequestClientId(request),
+    });
+    await syncEnforcedAssetValues(params.projectId);
     return NextResponse.json(record, { status: 201 });
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -153,7 +176,23 @@ export async function DELETE(
     await prisma.edgeDataFlow.delete({
       where: { edgeId_dataObjectId: data },
     });
+    await recordAuditEvent({
+      projectId: params.projectId,
+      actorUserId: userId,
+      entityType: 'EdgeDataFlow',
+      entityId: existing.id,
+      action: 'Delete',
+      before: existing,
+    });
+    publishModelChange(params.projectId, {
+      entityType: 'EdgeDataFlow',
+      entityId: existing.id,
+      action: 'Delete',
+      actorUserId: userId,
+      clientId: getRequestClientId(request),
+    });
 
+    await syncEnforcedAssetValues(params.projectId);
     return NextResponse.json({ success: true });
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { prisma } from '@/lib/prisma';
 import { requireAuth } from '@/lib/auth';
+import { recordAuditEvent } from '@/lib/audit-service';
+import { getRequestClientId, isStaleWrite, publishModelChange, versionedUpdateWhere } from '@/lib/collaboration-service';
 
 const UpdateEdgeSchema = z.object({
   name: z.string().optional(),
@@ -11,6 +13,7 @@ const UpdateEdgeSchema = z.object({
   notes: z.string().optional(),
   sourceHandleId: z.string().nullable().optional(),
   targetHandleId: z.string().nullable().optional(),
+  expectedUpdatedAt: z.string().optional(),
 });
 
 async function getMembership(projectId: string, userId: string) {
@@ -81,14 +84,32 @@ export async function PUT(
     }
 
     const payload = await request.json();
-    const data = UpdateEdgeSchema.parse(payload);
+    const { expectedUpdatedAt, ...data } = UpdateEdgeSchema.parse(payload);
     if (Object.keys(data).length === 0) {
       return NextResponse.json({ error: 'No updates provided' }, { status: 400 });
     }
+    const staleConflict = (current: unknown) =>
+      NextResponse.json(
+        {
+          error: 'This interface was changed by someone else. Review the latest version and try again.',
+          current,
+        },
+        { status: 409 }
+      );
+    if (isStaleWrite(expectedUpdatedAt, existing.updatedAt)) {
+      return staleConflict(existing);
+    }
 
-    const edge = await prisma.modelEdge.update({
-      where: { id: params.edgeId },
+    const { count } = await prisma.modelEdge.updateMany({
+      where: versionedUpdateWhere(params.edgeId, expectedUpdatedAt),
       data,
+    });
+    if (count === 0) {
+      return staleConflict(await prisma.modelEdge.findUnique({ where: { id: params.edgeId } }));
+    }
+
+    const edge = await prisma.modelEdge.findUniqueOrThrow({
+      where: { id: params.edgeId },
       include: {
         sourceNode: true,
         targetNode: true,
@@ -96,6 +117,22 @@ export async function PUT(
       },
     });
 
+    await recordAuditEvent({
+      projectId: params.projectId,
+      actorUserId: userId,
+      entityType: 'Edge',
+      entityId: edge.id,
+      action: 'Update',
+      before: existing,
+      after: edge,
+    });
+    publishModelChange(params.projectId, {
+      entityType: 'Edge',
+      entityId: edge.id,
+      action: 'Update',
+      actorUserId: userId,
+      clientId: getRequestClientId(request),
+    });
     return NextResponse.json(edge);
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -110,7 +147,7 @@ export async function PUT(
 }
 
 export async function DELETE(
-  _request: NextRequest,
+  request: NextRequest,
   { params }: { params: { projectId: string; edgeId: string } }
 ) {
   try {
@@ -135,6 +172,21 @@ export async function DELETE(
     await prisma.modelEdge.delete({
       where: { id: params.edgeId },
     });
+    await recordAuditEvent({
+      projectId: params.projectId,
+      actorUserId: userId,
+      entityType: 'Edge',
+      entityId: existing.id,
+      action: 'Delete',
+      before: existing,
+    });
+    publishModelChange(params.projectId, {
+      entityType: 'Edge',
+      entityId: existing.id,
+      action: 'Delete',
+      actorUserId: userId,
+      clientId: getRequestClientId(request),
+    });
 
     return NextResponse.json({ success: true });
   } catch (error) {
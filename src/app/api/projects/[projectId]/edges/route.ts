@@ -4,6 +4,8 @@ import { getProjectViewAccess } from '@/lib/project-access';
 import { isGlobalAdmin } from '@/lib/user-role';
 import { NextRequest, NextResponse } from 'next/server';
 import * as z from 'zod';
+import { recordAuditEvent } from '@/lib/audit-service';
+import { getRequestClientId, publishModelChange } from '@/lib/collaboration-service';
 
 const CreateEdgeSchema = z.object({
   sourceNodeId: z.string(),
@@ -151,6 +153,22 @@ export async function POST(
               dataFlows: true,
             },
           });
+          await recordAuditEvent({
+            projectId: params.projectId,
+            actorUserId: userId,
+            entityType: 'Edge',
+            entityId: patchedEdge.id,
+            action: 'Update',
+            before: existingEdge,
+            after: patchedEdge,
+          });
+          publishModelChange(params.projectId, {
+            entityType: 'Edge',
+            entityId: patchedEdge.id,
+            action: 'Update',
+            actorUserId: userId,
+            clientId: getRequestClientId(request),
+          });
           return NextResponse.json(patchedEdge, { status: 200 });
         }
       }
@@ -178,6 +196,21 @@ export async function POST(
       },
     });
 
+    await recordAuditEvent({
+      projectId: params.projectId,
+      actorUserId: userId,
+      entityType: 'Edge',
+      entityId: edge.id,
+      action: 'Create',
+      after: edge,
+    });
+    publishModelChange(params.projectId, {
+      entityType: 'Edge',
+      entityId: edge.id,
+      action: 'Create',
+      actorUserId: userId,
+      clientId: getRequestClientId(request),
+    });
     return NextResponse.json(edge, { status: 201 });
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -0,0 +1,150 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireAuth } from '@/lib/auth';
+import { getProjectViewAccess } from '@/lib/project-access';
+import {
+  formatServerSentEvent,
+  normalizeClientId,
+  subscribeToProject,
+  updatePresenceSelection,
+} from '@/lib/collaboration-service';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const HEARTBEAT_INTERVAL_MS = 25_000;
+const MAX_SELECTION_IDS = 500;
+
+const PresenceSchema = z.object({
+  clientId: z.string(),
+  selection: z.object({
+    nodeIds: z.array(z.string()).max(MAX_SELECTION_IDS),
+    edgeIds: z.array(z.string()).max(MAX_SELECTION_IDS),
+  }),
+});
+
+/**
+ * Server-sent event stream of model changes, layout moves and presence for
+ * one open editor, identified by the `clientId` query parameter.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { projectId: string } }
+) {
+  try {
+    const session = await requireAuth();
+    const userId = session.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const access = await getProjectViewAccess(params.projectId, userId, session.user?.role);
+    if (!access.exists) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+    if (!access.canView) {
+      return NextResponse.json({ error: 'Not authorized' }, { status: 403 });
+    }
+
+    const clientId = normalizeClientId(new URL(request.url).searchParams.get('clientId'));
+    if (!clientId) {
+      return NextResponse.json({ error: 'Invalid client id' }, { status: 400 });
+    }
+
+    const encoder = new TextEncoder();
+    let closeStream = () => {};
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        const send = (chunk: string) => {
+          try {
+            controller.enqueue(encoder.encode(chunk));
+          } catch {
+            closeStream();
+          }
+        };
+
+        send('retry: 3000\n\n');
+        const unsubscribe = subscribeToProject(
+          params.projectId,
+          { clientId, userId, name: session.user?.name || session.user?.email || 'Unknown user' },
+          (event) => send(formatServerSentEvent(event))
+        );
+        const heartbeat = setInterval(() => send(': heartbeat\n\n'), HEARTBEAT_INTERVAL_MS);
+
+        closeStream = () => {
+          clearInterval(heartbeat);
+          unsubscribe();
+          try {
+            controller.close();
+          } catch {
+            // Already closed by the client.
+          }
+        };
+        request.signal.addEventListener('abort', () => closeStream());
+      },
+      cancel() {
+        closeStream();
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream; charset=utf-8',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+        'X-Accel-Buffering': 'no',
+      },
+    });
+  } catch (error) {
+    if ((error as Error).message === 'Unauthenticated') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    console.error('Open collaboration stream error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * Presence update of an open editor: the nodes and interfaces it has selected.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { projectId: string } }
+) {
+  try {
+    const session = await requireAuth();
+    const userId = session.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const access = await getProjectViewAccess(params.projectId, userId, session.user?.role);
+    if (!access.exists) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+    if (!access.canView) {
+      return NextResponse.json({ error: 'Not authorized' }, { status: 403 });
+    }
+
+    const message = PresenceSchema.parse(await request.json());
+    const clientId = normalizeClientId(message.clientId);
+    if (!clientId) {
+      return NextResponse.json({ error: 'Invalid client id' }, { status: 400 });
+    }
+
+    const isConnected = updatePresenceSelection(params.projectId, clientId, userId, message.selection);
+    if (!isConnected) {
+      return NextResponse.json({ error: 'Client is not connected' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid input', details: error.errors }, { status: 400 });
+    }
+    if ((error as Error).message === 'Unauthenticated') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    console.error('Update presence error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requireAuth } from '@/lib/auth';
+import { getProjectViewAccess } from '@/lib/project-access';
+import { isGlobalAdmin } from '@/lib/user-role';
+import { deleteEvidence, readEvidenceContent, sanitizeEvidenceFileName } from '@/lib/evidence-service';
+import { recordAuditEvent } from '@/lib/audit-service';
+
+async function getMembership(projectId: string, userId: string) {
+  return prisma.projectMembership.findUnique({
+    where: { projectId_userId: { projectId, userId } },
+  });
+}
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: { projectId: string; evidenceId: string } }
+) {
+  try {
+    const session = await requireAuth();
+    const userId = session.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const access = await getProjectViewAccess(params.projectId, userId, session.user?.role);
+    if (!access.exists) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+    if (!access.canView) {
+      return NextResponse.json({ error: 'Not authorized' }, { status: 403 });
+    }
+
+    const evidence = await prisma.evidence.findUnique({ where: { id: params.evidenceId } });
+    if (!evidence || evidence.projectId !== params.projectId) {
+      return NextResponse.json({ error: 'Evidence not found' }, { status: 404 });
+    }
+
+    const content = await readEvidenceContent(evidence);
+    return new NextResponse(new Uint8Array(content), {
+      headers: {
+        'Content-Type': evidence.mimeType,
+        'Content-Disposition': `attachment; filename=\"${sanitizeEvidenceFileName(evidence.fileName)}\"`,
+        'X-Content-SHA256': evidence.sha256,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    if ((error as Error).message === 'Unauthenticated') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if ((error as Error).message === 'Evidence integrity check failed') {
+      return NextResponse.json({ error: 'Stored file does not match its SHA-256 hash' }, { status: 409 });
+    }
+    console.error('Download evidence error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: { projectId: string; evidenceId: string } }
+) {
+  try {
+    const session = await requireAuth();
+    const userId = session.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const evidence = await prisma.evidence.findUnique({ where: { id: params.evidenceId } });
+    if (!evidence || evidence.projectId !== params.projectId) {
+      return NextResponse.json({ error: 'Evidence not found' }, { status: 404 });
+    }
+
+    // Uploaders remove their own evidence; project admins remove any.
+    const membership = await getMembership(params.projectId, userId);
+    const isUploader = evidence.uploadedByUserId === userId && Boolean(membership);
+    if (!isGlobalAdmin(session.user?.role) && membership?.role !== 'Admin' && !isUploader) {
+      return NextResponse.json({ error: 'Not authorized' }, { status: 403 });
+    }
+
+    await deleteEvidence({ id: evidence.id });
+    await recordAuditEvent({
+      projectId: params.projectId,
+      actorUserId: userId,
+      entityType: 'Evidence',
+      entityId: evidence.id,
+      action: 'Delete',
+      before: evidence,
+    });
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if ((error as Error).message === 'Unauthenticated') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    console.error('Delete evidence error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
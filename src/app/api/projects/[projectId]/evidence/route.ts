@@ -0,0 +1,149 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { requireAuth } from '@/lib/auth';
+import { getProjectViewAccess } from '@/lib/project-access';
+import { isGlobalAdmin } from '@/lib/user-role';
+import {
+  MAX_EVIDENCE_FILE_BYTES,
+  evidenceInclude,
+  isEvidenceLinkInProject,
+  resolveEvidenceLinkType,
+  storeEvidence,
+} from '@/lib/evidence-service';
+import { recordAuditEvent } from '@/lib/audit-service';
+
+const EvidenceUploadSchema = z.object({
+  answerId: z.string().min(1).optional(),
+  findingId: z.string().min(1).optional(),
+  measureId: z.string().min(1).optional(),
+  description: z.string().trim().max(1000).optional(),
+});
+
+async function getMembership(projectId: string, userId: string) {
+  return prisma.projectMembership.findUnique({
+    where: { projectId_userId: { projectId, userId } },
+  });
+}
+
+const readFormString = (form: FormData, key: string): string | undefined => {
+  const value = form.get(key);
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+};
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { projectId: string } }
+) {
+  try {
+    const session = await requireAuth();
+    const userId = session.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const access = await getProjectViewAccess(params.projectId, userId, session.user?.role);
+    if (!access.exists) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+    if (!access.canView) {
+      return NextResponse.json({ error: 'Not authorized' }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const answerId = searchParams.get('answerId');
+    const findingId = searchParams.get('findingId');
+    const measureId = searchParams.get('measureId');
+
+    const evidence = await prisma.evidence.findMany({
+      where: {
+        projectId: params.projectId,
+        ...(answerId && { answerId }),
+        ...(findingId && { findingId }),
+        ...(measureId && { measureId }),
+      },
+      orderBy: { createdAt: 'asc' },
+      include: evidenceInclude,
+    });
+
+    return NextResponse.json(evidence);
+  } catch (error) {
+    if ((error as Error).message === 'Unauthenticated') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    console.error('Get evidence error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { projectId: string } }
+) {
+  try {
+    const session = await requireAuth();
+    const userId = session.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const membership = await getMembership(params.projectId, userId);
+    if (!isGlobalAdmin(session.user?.role) && (!membership || !['Admin', 'Editor'].includes(membership.role))) {
+      return NextResponse.json({ error: 'Not authorized (Editor required)' }, { status: 403 });
+    }
+
+    const form = await request.formData();
+    const file = form.get('file');
+    if (!(file instanceof Blob)) {
+      return NextResponse.json({ error: 'File is required' }, { status: 400 });
+    }
+    if (file.size === 0 || file.size > MAX_EVIDENCE_FILE_BYTES) {
+      return NextResponse.json(
+        { error: `File must be between 1 byte and ${MAX_EVIDENCE_FILE_BYTES / (1024 * 1024)} MB` },
+        { status: 400 }
+      );
+    }
+
+    const link = EvidenceUploadSchema.parse({
+      answerId: readFormString(form, 'answerId'),
+      findingId: readFormString(form, 'findingId'),
+      measureId: readFormString(form, 'measureId'),
+      description: readFormString(form, 'description'),
+    });
+    if (!resolveEvidenceLinkType(link)) {
+      return NextResponse.json({ error: 'Evidence must link to exactly one answer, finding or measure' }, { status: 400 });
+    }
+    if (!(await isEvidenceLinkInProject(params.projectId, link))) {
+      return NextResponse.json({ error: 'Linked item not found' }, { status: 404 });
+    }
+
+    const evidence = await storeEvidence({
+      projectId: params.projectId,
+      link,
+      fileName: file instanceof File ? file.name : 'evidence',
+      mimeType: file.type,
+      content: Buffer.from(await file.arrayBuffer()),
+      description: link.description,
+      uploadedByUserId: userId,
+    });
+
+    await recordAuditEvent({
+      projectId: params.projectId,
+      actorUserId: userId,
+      entityType: 'Evidence',
+      entityId: evidence.id,
+      action: 'Create',
+      after: evidence,
+    });
+    return NextResponse.json(evidence, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid input', details: error.errors }, { status: 400 });
+    }
+    if ((error as Error).message === 'Unauthenticated') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    console.error('Upload evidence error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
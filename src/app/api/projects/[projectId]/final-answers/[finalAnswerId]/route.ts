@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { prisma } from '@/lib/prisma';
 import { requireAuth } from '@/lib/auth';
+import { recordAuditEvent } from '@/lib/audit-service';
 
 const UpdateFinalAnswerSchema = z.object({
   answerValue: z.string().min(1).optional(),
@@ -81,15 +82,31 @@ export async function PUT(
       where: { id: params.finalAnswerId },
       data: {
         ...data,
+        source: 'Manual',
         resolvedAt:
           data.status === 'Approved'
             ? new Date()
             : data.status === 'Conflict'
             ? null
             : undefined,
+        resolvedByUserId:
+          data.status === 'Approved'
+            ? userId
+            : data.status === 'Conflict'
+            ? null
+            : undefined,
       },
     });
 
+    await recordAuditEvent({
+      projectId: params.projectId,
+      actorUserId: userId,
+      entityType: 'FinalAnswer',
+      entityId: updated.id,
+      action: 'Update',
+      before: existing,
+      after: updated,
+    });
     return NextResponse.json(updated);
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -129,6 +146,14 @@ export async function DELETE(
     await prisma.finalAnswer.delete({
       where: { id: params.finalAnswerId },
     });
+    await recordAuditEvent({
+      projectId: params.projectId,
+      actorUserId: userId,
+      entityType: 'FinalAnswer',
+      entityId: existing.id,
+      action: 'Delete',
+      before: existing,
+    });
 
     return NextResponse.json({ success: true });
   } catch (error) {
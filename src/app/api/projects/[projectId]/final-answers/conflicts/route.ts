@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requireAuth } from '@/lib/auth';
+import { getConflictInbox } from '@/lib/consensus-service';
+
+async function getMembership(projectId: string, userId: string) {
+  return prisma.projectMembership.findUnique({
+    where: { projectId_userId: { projectId, userId } },
+  });
+}
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: { projectId: string } }
+) {
+  try {
+    const session = await requireAuth();
+    const userId = session.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const membership = await getMembership(params.projectId, userId);
+    if (!membership) {
+      return NextResponse.json({ error: 'Not authorized' }, { status: 403 });
+    }
+
+    const conflicts = await getConflictInbox(params.projectId);
+    return NextResponse.json(conflicts);
+  } catch (error) {
+    if ((error as Error).message === 'Unauthenticated') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    console.error('Get answer conflicts error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requireAuth } from '@/lib/auth';
+import { syncFinalAnswers } from '@/lib/consensus-service';
+import { recordAuditEvent } from '@/lib/audit-service';
+
+async function getMembership(projectId: string, userId: string) {
+  return prisma.projectMembership.findUnique({
+    where: { projectId_userId: { projectId, userId } },
+  });
+}
+
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: { projectId: string } }
+) {
+  try {
+    const session = await requireAuth();
+    const userId = session.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const membership = await getMembership(params.projectId, userId);
+    if (!membership || membership.role !== 'Admin') {
+      return NextResponse.json({ error: 'Not authorized (Admin required)' }, { status: 403 });
+    }
+
+    const result = await syncFinalAnswers(params.projectId);
+    await recordAuditEvent({
+      projectId: params.projectId,
+      actorUserId: userId,
+      entityType: 'FinalAnswer',
+      action: 'Generate',
+      after: result,
+    });
+    return NextResponse.json(result);
+  } catch (error) {
+    if ((error as Error).message === 'Unauthenticated') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    console.error('Recompute final answers error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -2,9 +2,12 @@ import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { prisma } from '@/lib/prisma';
 import { requireAuth } from '@/lib/auth';
+import { recordAuditEvent } from '@/lib/audit-service';
 
 const UpsertFinalAnswerSchema = z.object({
   questionId: z.string(),
+  targetType: z.enum(['Component', 'Edge', 'DataObject', 'Zone', 'Conduit', 'None']).default('None'),
+  targetId: z.string().default(''),
   answerValue: z.string().min(1),
   status: z.enum(['Approved', 'Pending', 'Conflict']).default('Approved'),
   notes: z.string().optional(),
@@ -17,7 +20,7 @@ async function getMembership(projectId: string, userId: string) {
 }
 
 export async function GET(
-  _request: NextRequest,
+  request: NextRequest,
   { params }: { params: { projectId: string } }
 ) {
   try {
@@ -32,8 +35,9 @@ export async function GET(
       return NextResponse.json({ error: 'Not authorized' }, { status: 403 });
     }
 
+    const status = request.nextUrl.searchParams.get('status');
     const finalAnswers = await prisma.finalAnswer.findMany({
-      where: { projectId: params.projectId },
+      where: { projectId: params.projectId, ...(status && { status }) },
       orderBy: { updatedAt: 'desc' },
     });
 
@@ -73,29 +77,54 @@ export async function POST(
       return NextResponse.json({ error: 'Invalid question' }, { status: 400 });
     }
 
-    const finalAnswer = await prisma.finalAnswer.upsert({
+    const targetId = data.targetType === 'None' ? '' : data.targetId.trim();
+    // Manual answers take precedence over the consensus until the answers of the target change again
+    const resolution = {
+      answerValue: data.answerValue,
+      status: data.status,
+      notes: data.notes,
+      source: 'Manual',
+      resolvedAt: data.status === 'Approved' ? new Date() : null,
+      resolvedByUserId: data.status === 'Approved' ? userId : null,
+    };
+    const previous = await prisma.finalAnswer.findUnique({
       where: {
-        projectId_questionId: {
+        projectId_questionId_targetType_targetId: {
           projectId: params.projectId,
           questionId: data.questionId,
+          targetType: data.targetType,
+          targetId,
         },
       },
-      update: {
-        answerValue: data.answerValue,
-        status: data.status,
-        notes: data.notes,
-        resolvedAt: data.status === 'Approved' ? new Date() : null,
+    });
+    const finalAnswer = await prisma.finalAnswer.upsert({
+      where: {
+        projectId_questionId_targetType_targetId: {
+          projectId: params.projectId,
+          questionId: data.questionId,
+          targetType: data.targetType,
+          targetId,
+        },
       },
+      update: resolution,
       create: {
         projectId: params.projectId,
         questionId: data.questionId,
-        answerValue: data.answerValue,
-        status: data.status,
-        notes: data.notes,
-        resolvedAt: data.status === 'Approved' ? new Date() : null,
+        targetType: data.targetType,
+        targetId,
+        ...resolution,
       },
     });
 
+    await recordAuditEvent({
+      projectId: params.projectId,
+      actorUserId: userId,
+      entityType: 'FinalAnswer',
+      entityId: finalAnswer.id,
+      action: previous ? 'Update' : 'Create',
+      before: previous,
+      after: finalAnswer,
+    });
     return NextResponse.json(finalAnswer, { status: 201 });
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -3,15 +3,25 @@ import { z } from 'zod';
 import { prisma } from '@/lib/prisma';
 import { requireAuth } from '@/lib/auth';
 import { isGlobalAdmin } from '@/lib/user-role';
+import { deleteEvidence } from '@/lib/evidence-service';
+import { recordAuditEvent } from '@/lib/audit-service';
+import { resolveFindingTargetKeys } from '@/lib/risk-service';
 
 const UpdateFindingSchema = z.object({
-  assetType: z.enum(['Node', 'Edge']).optional(),
+  assetType: z.enum(['Node', 'Edge', 'DataObject', 'Zone', 'Conduit']).optional(),
   assetId: z.string().optional(),
   assetName: z.string().optional(),
   questionText: z.string().optional(),
   normReference: z.string().optional(),
+  // Links the finding to a question of the project; null unlinks it
+  questionId: z.string().nullable().optional(),
   severity: z.number().int().min(1).max(10).optional(),
+  likelihood: z.number().int().min(1).max(10).nullable().optional(),
+  impact: z.number().int().min(1).max(10).nullable().optional(),
   description: z.string().optional(),
+  // Accepting records who accepted the residual risk and when; false revokes the acceptance.
+  riskAccepted: z.boolean().optional(),
+  riskAcceptanceNote: z.string().optional(),
 });
 
 async function getMembership(projectId: string, userId: string) {
@@ -81,17 +91,59 @@ export async function PUT(
     }
 
     const payload = await request.json();
-    const data = UpdateFindingSchema.parse(payload);
-    if (Object.keys(data).length === 0) {
+    const { riskAccepted, riskAcceptanceNote, ...data } = UpdateFindingSchema.parse(payload);
+    if (Object.keys(data).length === 0 && riskAccepted === undefined) {
       return NextResponse.json({ error: 'No updates provided' }, { status: 400 });
     }
 
+    const question = data.questionId ? await prisma.question.findUnique({ where: { id: data.questionId } }) : null;
+    if (data.questionId && (!question || question.projectId !== params.projectId)) {
+      return NextResponse.json({ error: 'Invalid question for project' }, { status: 400 });
+    }
+
+    const targetKeys =
+      data.assetType !== undefined || data.assetId !== undefined
+        ? await resolveFindingTargetKeys(
+            params.projectId,
+            data.assetType ?? existing.assetType,
+            data.assetId ?? existing.assetId
+          )
+        : null;
+
     const updated = await prisma.finding.update({
       where: { id: params.findingId },
-      data,
-      include: { measures: true },
+      data: {
+        ...(question && { questionText: question.text, normReference: question.normReference }),
+        ...data,
+        ...targetKeys,
+        ...(riskAccepted === true && {
+          riskAcceptedAt: new Date(),
+          riskAcceptedByUserId: userId,
+          riskAcceptanceNote: riskAcceptanceNote?.trim() || null,
+        }),
+        ...(riskAccepted === false && {
+          riskAcceptedAt: null,
+          riskAcceptedByUserId: null,
+          riskAcceptanceNote: null,
+        }),
+      },
+      include: {
+        measures: true,
+        riskAcceptedBy: {
+          select: { id: true, name: true, email: true },
+        },
+      },
     });
 
+    await recordAuditEvent({
+      projectId: params.projectId,
+      actorUserId: userId,
+      entityType: 'Finding',
+      entityId: updated.id,
+      action: 'Update',
+      before: existing,
+      after: updated,
+    });
     return NextResponse.json(updated);
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -129,9 +181,18 @@ export async function DELETE(
       return NextResponse.json({ error: 'Finding not found' }, { status: 404 });
     }
 
+    await deleteEvidence({ OR: [{ findingId: params.findingId }, { measure: { findingId: params.findingId } }] });
     await prisma.finding.delete({
       where: { id: params.findingId },
     });
+    await recordAuditEvent({
+      projectId: params.projectId,
+      actorUserId: userId,
+      entityType: 'Finding',
+      entityId: existing.id,
+      action: 'Delete',
+      before: existing,
+    });
 
     return NextResponse.json({ success: true });
   } catch (error) {
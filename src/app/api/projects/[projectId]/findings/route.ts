@@ -2,15 +2,21 @@ import { prisma } from '@/lib/prisma';
 import { requireAuth } from '@/lib/auth';
 import { getProjectViewAccess } from '@/lib/project-access';
 import { isGlobalAdmin } from '@/lib/user-role';
+import { getProjectConduits } from '@/lib/zone-service';
 import { NextRequest, NextResponse } from 'next/server';
 import * as z from 'zod';
+import { recordAuditEvent } from '@/lib/audit-service';
+import { toFindingTargetKeys } from '@/lib/risk-service';
 
 const CreateFindingSchema = z.object({
-  assetType: z.enum(['Node', 'Edge']),
+  assetType: z.enum(['Node', 'Edge', 'DataObject', 'Zone', 'Conduit']),
   assetId: z.string(),
   questionText: z.string(),
   normReference: z.string(),
+  questionId: z.string().optional(),
   severity: z.number().min(1).max(10),
+  likelihood: z.number().int().min(1).max(10).nullable().optional(),
+  impact: z.number().int().min(1).max(10).nullable().optional(),
   description: z.string().optional(),
 });
 
@@ -48,6 +54,9 @@ export async function GET(
       where: { projectId: params.projectId },
       include: {
         measures: true,
+        riskAcceptedBy: {
+          select: { id: true, name: true, email: true },
+        },
       },
     });
 
@@ -95,7 +104,18 @@ export async function POST(
     }
 
     const body = await req.json();
-    const { assetType, assetId, questionText, normReference, severity, description } = CreateFindingSchema.parse(body);
+    const { assetType, assetId, questionText, normReference, questionId, severity, likelihood, impact, description } =
+      CreateFindingSchema.parse(body);
+
+    if (questionId) {
+      const question = await prisma.question.findUnique({ where: { id: questionId } });
+      if (!question || question.projectId !== params.projectId) {
+        return NextResponse.json(
+          { error: 'Invalid question for project' },
+          { status: 400 }
+        );
+      }
+    }
 
     // Verify asset exists in project and get display name
     let assetName = 'Unknown Asset';
@@ -117,6 +137,33 @@ export async function POST(
         );
       }
       assetName = edge.name || `${edge.sourceNodeId} -> ${edge.targetNodeId}`;
+    } else if (assetType === 'DataObject') {
+      const dataObject = await prisma.dataObject.findUnique({ where: { id: assetId } });
+      if (!dataObject || dataObject.projectId !== params.projectId) {
+        return NextResponse.json(
+          { error: 'Invalid data object asset for project' },
+          { status: 400 }
+        );
+      }
+      assetName = dataObject.name;
+    } else if (assetType === 'Zone') {
+      const zone = await prisma.zone.findUnique({ where: { id: assetId } });
+      if (!zone || zone.projectId !== params.projectId) {
+        return NextResponse.json(
+          { error: 'Invalid zone asset for project' },
+          { status: 400 }
+        );
+      }
+      assetName = zone.name;
+    } else if (assetType === 'Conduit') {
+      const conduit = (await getProjectConduits(params.projectId)).find((entry) => entry.id === assetId);
+      if (!conduit) {
+        return NextResponse.json(
+          { error: 'Invalid conduit asset for project' },
+          { status: 400 }
+        );
+      }
+      assetName = conduit.name;
     }
 
     const finding = await prisma.finding.create({
@@ -128,13 +175,25 @@ export async function POST(
         questionText,
         normReference,
         severity,
+        likelihood: likelihood ?? null,
+        impact: impact ?? null,
         description,
+        questionId: questionId ?? null,
+        ...toFindingTargetKeys(assetType, assetId),
       },
       include: {
         measures: true,
       },
     });
 
+    await recordAuditEvent({
+      projectId: params.projectId,
+      actorUserId: userId,
+      entityType: 'Finding',
+      entityId: finding.id,
+      action: 'Create',
+      after: finding,
+    });
     return NextResponse.json(finding, { status: 201 });
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -0,0 +1,188 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { requireAuth } from '@/lib/auth';
+import { getProjectViewAccess, isProjectAdminMembershipRole } from '@/lib/project-access';
+import { isGlobalAdmin } from '@/lib/user-role';
+import { recordAuditEvent } from '@/lib/audit-service';
+import { getRequestClientId, publishModelChange } from '@/lib/collaboration-service';
+import { applyVariantUpdates, detachVariant, getVariantInheritance } from '@/lib/variant-service';
+
+const MAX_SELECTED_UPDATES = 5000;
+
+/**
+ * Whether the user may still read the parent of a variant. Parent access can
+ * be revoked after the variant was created, so it is checked on every call.
+ */
+async function canViewParentProject(projectId: string, userId: string, role?: string | null): Promise<boolean> {
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    select: { parentProjectId: true },
+  });
+  if (!project?.parentProjectId) {
+    return true;
+  }
+  const parentAccess = await getProjectViewAccess(project.parentProjectId, userId, role);
+  return parentAccess.exists && parentAccess.canView;
+}
+
+const ApplyUpdatesSchema = z.object({
+  keys: z.array(z.string()).max(MAX_SELECTED_UPDATES).optional(),
+  overwriteLocal: z.boolean().default(false),
+});
+
+/**
+ * Parent project, pending parent updates and local overrides of a variant.
+ * Returns `{ parent: null }` for projects that do not inherit.
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: { projectId: string } }
+) {
+  try {
+    const session = await requireAuth();
+    const userId = session.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'User not found' }, { status: 401 });
+    }
+
+    const access = await getProjectViewAccess(params.projectId, userId, session.user?.role);
+    if (!access.exists) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+    if (!access.canView) {
+      return NextResponse.json({ error: 'Not authorized' }, { status: 403 });
+    }
+    if (!(await canViewParentProject(params.projectId, userId, session.user?.role))) {
+      return NextResponse.json({ error: 'Not authorized for the parent project' }, { status: 403 });
+    }
+
+    const inheritance = await getVariantInheritance(params.projectId);
+    return NextResponse.json(inheritance ?? { parent: null });
+  } catch (error) {
+    if ((error as Error).message === 'Unauthenticated') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    console.error('Get inheritance error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * Pulls pending parent updates into the variant, all of them or the given keys.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { projectId: string } }
+) {
+  try {
+    const session = await requireAuth();
+    const userId = session.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'User not found' }, { status: 401 });
+    }
+
+    const access = await getProjectViewAccess(params.projectId, userId, session.user?.role);
+    if (!access.exists) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+    if (
+      !isGlobalAdmin(session.user?.role) &&
+      (!access.membershipRole || (access.membershipRole !== 'Admin' && access.membershipRole !== 'Editor'))
+    ) {
+      return NextResponse.json({ error: 'Not authorized (Editor required)' }, { status: 403 });
+    }
+    if (!(await canViewParentProject(params.projectId, userId, session.user?.role))) {
+      return NextResponse.json({ error: 'Not authorized for the parent project' }, { status: 403 });
+    }
+
+    const data = ApplyUpdatesSchema.parse(await request.json());
+    const result = await applyVariantUpdates(params.projectId, data, userId);
+    if (!result) {
+      return NextResponse.json({ error: 'Project is not a variant' }, { status: 400 });
+    }
+
+    await recordAuditEvent({
+      projectId: params.projectId,
+      actorUserId: userId,
+      entityType: 'Project',
+      entityId: params.projectId,
+      action: 'Import',
+      after: {
+        applied: result.applied,
+        skipped: result.skipped,
+        overwriteLocal: data.overwriteLocal,
+        keys: data.keys ?? null,
+      },
+    });
+    publishModelChange(params.projectId, {
+      entityType: 'Model',
+      entityId: null,
+      action: 'Update',
+      actorUserId: userId,
+      clientId: getRequestClientId(request),
+    });
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid input', details: error.errors }, { status: 400 });
+    }
+    if ((error as Error).message === 'Unauthenticated') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    console.error('Apply inheritance updates error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * Detaches a variant from its parent; its elements become local elements.
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: { projectId: string } }
+) {
+  try {
+    const session = await requireAuth();
+    const userId = session.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'User not found' }, { status: 401 });
+    }
+
+    const access = await getProjectViewAccess(params.projectId, userId, session.user?.role);
+    if (!access.exists) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+    if (!isGlobalAdmin(session.user?.role) && !isProjectAdminMembershipRole(access.membershipRole)) {
+      return NextResponse.json({ error: 'Not authorized (Admin required)' }, { status: 403 });
+    }
+
+    const project = await prisma.project.findUnique({
+      where: { id: params.projectId },
+      select: { parentProjectId: true },
+    });
+    if (!project?.parentProjectId) {
+      return NextResponse.json({ error: 'Project is not a variant' }, { status: 400 });
+    }
+
+    await detachVariant(params.projectId);
+    await recordAuditEvent({
+      projectId: params.projectId,
+      actorUserId: userId,
+      entityType: 'Project',
+      entityId: params.projectId,
+      action: 'Update',
+      before: { parentProjectId: project.parentProjectId },
+      after: { parentProjectId: null },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if ((error as Error).message === 'Unauthenticated') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    console.error('Detach variant error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
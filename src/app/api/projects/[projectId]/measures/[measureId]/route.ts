@@ -3,6 +3,8 @@ import { z } from 'zod';
 import { prisma } from '@/lib/prisma';
 import { requireAuth } from '@/lib/auth';
 import { isGlobalAdmin } from '@/lib/user-role';
+import { deleteEvidence } from '@/lib/evidence-service';
+import { recordAuditEvent } from '@/lib/audit-service';
 
 const UpdateMeasureSchema = z.object({
   title: z.string().min(1).optional(),
@@ -11,6 +13,8 @@ const UpdateMeasureSchema = z.object({
   status: z.enum(['Open', 'InProgress', 'Done']).optional(),
   assignedTo: z.string().optional(),
   dueDate: z.string().optional().nullable(),
+  likelihoodReduction: z.number().int().min(0).max(100).optional(),
+  impactReduction: z.number().int().min(0).max(100).optional(),
 });
 
 async function getMembership(projectId: string, userId: string) {
@@ -90,6 +94,8 @@ export async function PUT(
       status?: 'Open' | 'InProgress' | 'Done';
       assignedTo?: string | null;
       dueDate?: Date | null;
+      likelihoodReduction?: number;
+      impactReduction?: number;
     } = {};
 
     if (data.title !== undefined) {
@@ -104,6 +110,12 @@ export async function PUT(
     if (data.status !== undefined) {
       updateData.status = data.status;
     }
+    if (data.likelihoodReduction !== undefined) {
+      updateData.likelihoodReduction = data.likelihoodReduction;
+    }
+    if (data.impactReduction !== undefined) {
+      updateData.impactReduction = data.impactReduction;
+    }
 
     if (Object.prototype.hasOwnProperty.call(data, 'assignedTo')) {
       updateData.assignedTo = data.assignedTo?.trim() || null;
@@ -127,6 +139,15 @@ export async function PUT(
       include: { finding: true },
     });
 
+    await recordAuditEvent({
+      projectId: params.projectId,
+      actorUserId: userId,
+      entityType: 'Measure',
+      entityId: updated.id,
+      action: 'Update',
+      before: existing,
+      after: updated,
+    });
     return NextResponse.json(updated);
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -163,9 +184,18 @@ export async function DELETE(
       return NextResponse.json({ error: 'Measure not found' }, { status: 404 });
     }
 
+    await deleteEvidence({ measureId: params.measureId });
     await prisma.measure.delete({
       where: { id: params.measureId },
     });
+    await recordAuditEvent({
+      projectId: params.projectId,
+      actorUserId: userId,
+      entityType: 'Measure',
+      entityId: existing.id,
+      action: 'Delete',
+      before: existing,
+    });
 
     return NextResponse.json({ success: true });
   } catch (error) {
@@ -4,18 +4,21 @@ import { getProjectViewAccess } from '@/lib/project-access';
 import { isGlobalAdmin } from '@/lib/user-role';
 import { NextRequest, NextResponse } from 'next/server';
 import * as z from 'zod';
+import { recordAuditEvent } from '@/lib/audit-service';
 
 const CreateMeasureSchema = z.object({
   findingId: z.string(),
   title: z.string().min(1),
   description: z.string().optional(),
-  assetType: z.enum(['Node', 'Edge']),
+  assetType: z.enum(['Node', 'Edge', 'DataObject', 'Zone', 'Conduit']),
   assetId: z.string(),
   normReference: z.string().optional(),
   priority: z.enum(['Low', 'Medium', 'High', 'Critical']).default('Medium'),
   status: z.enum(['Open', 'InProgress', 'Done']).default('Open'),
   assignedTo: z.string().optional(),
   dueDate: z.string().optional().nullable(),
+  likelihoodReduction: z.number().int().min(0).max(100).default(0),
+  impactReduction: z.number().int().min(0).max(100).default(0),
 });
 
 export async function GET(
@@ -108,8 +111,20 @@ export async function POST(
     }
 
     const body = await req.json();
-    const { findingId, title, description, assetType, assetId, normReference, priority, status, assignedTo, dueDate } =
-      CreateMeasureSchema.parse(body);
+    const {
+      findingId,
+      title,
+      description,
+      assetType,
+      assetId,
+      normReference,
+      priority,
+      status,
+      assignedTo,
+      dueDate,
+      likelihoodReduction,
+      impactReduction,
+    } = CreateMeasureSchema.parse(body);
 
     const finding = await prisma.finding.findUnique({
       where: { id: findingId },
@@ -153,6 +168,8 @@ export async function POST(
         status,
         assignedTo: assignedTo?.trim() || undefined,
         dueDate: dueDateValue,
+        likelihoodReduction,
+        impactReduction,
         createdByUserId: userId,
       },
       include: {
@@ -168,6 +185,14 @@ export async function POST(
       },
     });
 
+    await recordAuditEvent({
+      projectId: params.projectId,
+      actorUserId: userId,
+      entityType: 'Measure',
+      entityId: measure.id,
+      action: 'Create',
+      after: measure,
+    });
     return NextResponse.json(measure, { status: 201 });
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -5,6 +5,7 @@ import { prisma } from '@/lib/prisma';
 import { isGlobalAdmin } from '@/lib/user-role';
 import { normalizeProjectMembershipRole } from '@/lib/project-access';
 import { supportsProjectDeletedAt } from '@/lib/project-trash';
+import { recordAuditEvent } from '@/lib/audit-service';
 
 const updateRoleSchema = z.object({
   role: z
@@ -118,6 +119,15 @@ export async function PATCH(
       },
     });
 
+    await recordAuditEvent({
+      projectId: params.projectId,
+      actorUserId: userId,
+      entityType: 'ProjectMember',
+      entityId: updatedMembership.userId,
+      action: 'Update',
+      before: targetMembership,
+      after: updatedMembership,
+    });
     const normalizedRole = normalizeProjectMembershipRole(updatedMembership.role) ?? 'Viewer';
     return NextResponse.json({
       ...updatedMembership,
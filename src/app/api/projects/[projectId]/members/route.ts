@@ -6,6 +6,7 @@ import { normalizeProjectMembershipRole } from '@/lib/project-access';
 import { isGlobalAdmin } from '@/lib/user-role';
 import { EVERYONE_GROUP_ID, isEveryoneGroupId } from '@/lib/system-groups';
 import { supportsProjectDeletedAt } from '@/lib/project-trash';
+import { recordAuditEvents } from '@/lib/audit-service';
 
 type InviteRole = 'Viewer' | 'Editor' | 'Admin';
 
@@ -430,6 +431,34 @@ export async function POST(
       throw new Error('Failed to update project members');
     }
 
+    const previousRoleByUserId = new Map(project.members.map((member) => [member.userId, member.role]));
+    const updatedRoleByUserId = new Map(updatedProject.members.map((member) => [member.userId, member.role]));
+    await recordAuditEvents([
+      ...updatedProject.members
+        .filter((member) => previousRoleByUserId.get(member.userId) !== member.role)
+        .map((member) => ({
+          projectId: params.projectId,
+          actorUserId: userId,
+          entityType: 'ProjectMember',
+          entityId: member.userId,
+          action: previousRoleByUserId.has(member.userId) ? ('Update' as const) : ('Create' as const),
+          before: previousRoleByUserId.has(member.userId)
+            ? { userId: member.userId, role: previousRoleByUserId.get(member.userId) }
+            : null,
+          after: { userId: member.userId, role: member.role },
+        })),
+      ...project.members
+        .filter((member) => !updatedRoleByUserId.has(member.userId))
+        .map((member) => ({
+          projectId: params.projectId,
+          actorUserId: userId,
+          entityType: 'ProjectMember',
+          entityId: member.userId,
+          action: 'Delete' as const,
+          before: { userId: member.userId, role: member.role },
+        })),
+    ]);
+
     return NextResponse.json({
       creatorUserId,
       canManageSettings: access.canManageSettings,
@@ -1,15 +1,20 @@
 import { prisma } from '@/lib/prisma';
 import { requireAuth } from '@/lib/auth';
+import { syncEnforcedAssetValues } from '@/lib/valuation-service';
 import { NextRequest, NextResponse } from 'next/server';
 import * as z from 'zod';
 import { wouldCreateHierarchyCycle } from '@/lib/model-hierarchy';
 import { isGlobalAdmin } from '@/lib/user-role';
+import { recordAuditEvent } from '@/lib/audit-service';
+import { getRequestClientId, isStaleWrite, publishModelChange, versionedUpdateWhere } from '@/lib/collaboration-service';
 
 const UpdateNodeSchema = z.object({
   name: z.string().min(1).optional(),
   description: z.string().optional(),
   notes: z.string().optional(),
   parentNodeId: z.string().nullable().optional(),
+  capabilitySecurityLevel: z.number().int().min(1).max(4).nullable().optional(),
+  expectedUpdatedAt: z.string().optional(),
 });
 
 function normalizeCategory(rawCategory: string | undefined | null): 'Container' | 'Component' {
@@ -147,7 +152,8 @@ export async function PUT(
     }
 
     const body = await request.json();
-    const { name, description, notes, parentNodeId } = UpdateNodeSchema.parse(body);
+    const { name, description, notes, parentNodeId, capabilitySecurityLevel, expectedUpdatedAt } =
+      UpdateNodeSchema.parse(body);
 
     // Verify node exists and belongs to this project
     const node = await prisma.modelNode.findUnique({
@@ -161,6 +167,18 @@ export async function PUT(
       );
     }
 
+    const staleConflict = (current: unknown) =>
+      NextResponse.json(
+        {
+          error: 'This node was changed by someone else. Review the latest version and try again.',
+          current,
+        },
+        { status: 409 }
+      );
+    if (isStaleWrite(expectedUpdatedAt, node.updatedAt)) {
+      return staleConflict(node);
+    }
+
     let normalizedParentNodeId = parentNodeId;
     if (parentNodeId === null && normalizeCategory(node.category) === 'Component') {
       const globalContainer = await ensureGlobalContainer(params.projectId, userId);
@@ -203,15 +221,23 @@ export async function PUT(
       );
     }
 
-    const updatedNode = await prisma.modelNode.update({
-      where: { id: params.nodeId },
+    const { count } = await prisma.modelNode.updateMany({
+      where: versionedUpdateWhere(params.nodeId, expectedUpdatedAt),
       data: {
         ...(name && { name }),
         ...(description !== undefined && { description }),
         ...(notes !== undefined && { notes }),
         ...(normalizedParentNodeId !== undefined && { parentNodeId: normalizedParentNodeId }),
+        ...(capabilitySecurityLevel !== undefined && { capabilitySecurityLevel }),
         updatedByUserId: userId,
       },
+    });
+    if (count === 0) {
+      return staleConflict(await prisma.modelNode.findUnique({ where: { id: params.nodeId } }));
+    }
+
+    const updatedNode = await prisma.modelNode.findUniqueOrThrow({
+      where: { id: params.nodeId },
       include: {
         childNodes: true,
         outgoingEdges: true,
@@ -220,6 +246,23 @@ export async function PUT(
       },
     });
 
+    await recordAuditEvent({
+      projectId: params.projectId,
+      actorUserId: userId,
+      entityType: 'Node',
+      entityId: node.id,
+      action: 'Update',
+      before: node,
+      after: updatedNode,
+    });
+    publishModelChange(params.projectId, {
+      entityType: 'Node',
+      entityId: node.id,
+      action: 'Update',
+      actorUserId: userId,
+      clientId: getRequestClientId(request),
+    });
+    await syncEnforcedAssetValues(params.projectId);
     return NextResponse.json(updatedNode);
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -243,7 +286,7 @@ export async function PUT(
 }
 
 export async function DELETE(
-  _request: NextRequest,
+  request: NextRequest,
   { params }: { params: { projectId: string; nodeId: string } }
 ) {
   try {
@@ -285,6 +328,21 @@ export async function DELETE(
     await prisma.modelNode.delete({
       where: { id: params.nodeId },
     });
+    await recordAuditEvent({
+      projectId: params.projectId,
+      actorUserId: userId,
+      entityType: 'Node',
+      entityId: node.id,
+      action: 'Delete',
+      before: node,
+    });
+    publishModelChange(params.projectId, {
+      entityType: 'Node',
+      entityId: node.id,
+      action: 'Delete',
+      actorUserId: userId,
+      clientId: getRequestClientId(request),
+    });
 
     return NextResponse.json({ success: true });
   } catch (error) {
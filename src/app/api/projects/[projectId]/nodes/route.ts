@@ -4,6 +4,9 @@ import { getProjectViewAccess } from '@/lib/project-access';
 import { isGlobalAdmin } from '@/lib/user-role';
 import { NextRequest, NextResponse } from 'next/server';
 import * as z from 'zod';
+import { recordAuditEvent } from '@/lib/audit-service';
+import { getRequestClientId, publishModelChange } from '@/lib/collaboration-service';
+import { resolveDiagramView, toDiagramLayout } from '@/lib/diagram-layout-service';
 
 const CreateNodeSchema = z.object({
   name: z.string().min(1),
@@ -62,8 +65,12 @@ async function ensureGlobalContainer(projectId: string, userId: string) {
   });
 }
 
+/**
+ * All nodes of the project. Each node carries its `layout` (position and, for
+ * containers, size) in the view given by `viewId`, or in the default view.
+ */
 export async function GET(
-  _request: NextRequest,
+  request: NextRequest,
   { params }: { params: { projectId: string } }
 ) {
   try {
@@ -92,6 +99,15 @@ export async function GET(
       );
     }
 
+    const viewId = new URL(request.url).searchParams.get('viewId');
+    const view = await resolveDiagramView(params.projectId, viewId);
+    if (viewId && !view) {
+      return NextResponse.json(
+        { error: 'View not found' },
+        { status: 404 }
+      );
+    }
+
     const nodes = await prisma.modelNode.findMany({
       where: { projectId: params.projectId },
       include: {
@@ -99,10 +115,25 @@ export async function GET(
         outgoingEdges: true,
         incomingEdges: true,
         dataComponents: true,
+        diagramLayouts: {
+          where: view ? { viewId: view.id } : { viewId: { in: [] } },
+          select: { nodeId: true, x: true, y: true, width: true, height: true },
+        },
       },
     });
 
-    return NextResponse.json(nodes);
+    return NextResponse.json(
+      nodes.map(({ diagramLayouts, ...node }) => {
+        const layout = toDiagramLayout(diagramLayouts);
+        return {
+          ...node,
+          layout: {
+            position: layout.nodePositions[node.id] || null,
+            size: layout.containerSizes[node.id] || null,
+          },
+        };
+      })
+    );
   } catch (error) {
     if ((error as Error).message === 'Unauthenticated') {
       return NextResponse.json(
@@ -201,6 +232,21 @@ export async function POST(
       },
     });
 
+    await recordAuditEvent({
+      projectId: params.projectId,
+      actorUserId: userId,
+      entityType: 'Node',
+      entityId: node.id,
+      action: 'Create',
+      after: node,
+    });
+    publishModelChange(params.projectId, {
+      entityType: 'Node',
+      entityId: node.id,
+      action: 'Create',
+      actorUserId: userId,
+      clientId: getRequestClientId(request),
+    });
     return NextResponse.json(node, { status: 201 });
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from 'next/server';
+import * as z from 'zod';
+import { prisma } from '@/lib/prisma';
+import { requireAuth } from '@/lib/auth';
+import { getProjectViewAccess } from '@/lib/project-access';
+import { parseProjectNorms } from '@/lib/project-norm';
+import { isGlobalAdmin } from '@/lib/user-role';
+import {
+  getProjectCatalogStatus,
+  syncProjectNormCatalog,
+} from '@/lib/norm-catalog-service';
+import { recordAuditEvent } from '@/lib/audit-service';
+
+const SyncNormCatalogSchema = z.object({
+  projectNorm: z.enum(['IEC 62443', 'IEC 61508', 'ISO 27001', 'NIST CSF']),
+  removeObsolete: z.boolean().optional(),
+  overwriteLocalChanges: z.boolean().optional(),
+});
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: { projectId: string } }
+) {
+  try {
+    const session = await requireAuth();
+    const userId = session.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'User not found' }, { status: 401 });
+    }
+
+    const access = await getProjectViewAccess(params.projectId, userId, session.user?.role);
+    if (!access.exists) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+    if (!access.canView) {
+      return NextResponse.json({ error: 'Not authorized' }, { status: 403 });
+    }
+
+    const project = await prisma.project.findUnique({
+      where: { id: params.projectId },
+      select: { norm: true },
+    });
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(await getProjectCatalogStatus(params.projectId, project.norm));
+  } catch (error) {
+    if ((error as Error).message === 'Unauthenticated') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    console.error('Get project norm catalogs error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { projectId: string } }
+) {
+  try {
+    const session = await requireAuth();
+    const userId = session.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'User not found' }, { status: 401 });
+    }
+
+    const membership = await prisma.projectMembership.findUnique({
+      where: { projectId_userId: { projectId: params.projectId, userId } },
+    });
+    if (!isGlobalAdmin(session.user?.role) && (!membership || (membership.role !== 'Editor' && membership.role !== 'Admin'))) {
+      return NextResponse.json({ error: 'Not authorized (Editor required)' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const { projectNorm, removeObsolete, overwriteLocalChanges } = SyncNormCatalogSchema.parse(body);
+
+    const project = await prisma.project.findUnique({
+      where: { id: params.projectId },
+      select: { norm: true },
+    });
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+    if (!parseProjectNorms(project.norm).includes(projectNorm)) {
+      return NextResponse.json({ error: 'The project does not use this norm' }, { status: 400 });
+    }
+
+    const result = await syncProjectNormCatalog(params.projectId, projectNorm, {
+      removeObsolete,
+      overwriteLocalChanges,
+    });
+    if (!result) {
+      return NextResponse.json({ error: 'No library catalog available for this norm' }, { status: 404 });
+    }
+
+    await recordAuditEvent({
+      projectId: params.projectId,
+      actorUserId: userId,
+      entityType: 'Question',
+      action: 'Generate',
+      after: { projectNorm, ...result },
+    });
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid input', details: error.errors }, { status: 400 });
+    }
+    if ((error as Error).message === 'Unauthenticated') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    console.error('Sync project norm catalog error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -2,14 +2,17 @@ import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { prisma } from '@/lib/prisma';
 import { requireAuth } from '@/lib/auth';
+import { validateApplicabilityRule } from '@/lib/applicability-service';
+import { recordAuditEvent } from '@/lib/audit-service';
 
 const UpdateQuestionSchema = z.object({
   text: z.string().min(1).optional(),
   normReference: z.string().optional(),
-  targetType: z.enum(['Component', 'Edge', 'DataObject', 'None']).optional(),
+  targetType: z.enum(['Component', 'Edge', 'DataObject', 'Zone', 'Conduit', 'None']).optional(),
   answerType: z.enum(['YesNo', 'Text', 'MultiSelect']).optional(),
   riskDescription: z.string().optional(),
   defaultMeasures: z.string().optional(),
+  applicability: z.string().trim().max(500).nullable().optional(),
 });
 
 async function getMembership(projectId: string, userId: string) {
@@ -84,12 +87,32 @@ export async function PUT(
       return NextResponse.json({ error: 'No updates provided' }, { status: 400 });
     }
 
+    const applicability = data.applicability === undefined ? existing.applicability : data.applicability;
+    if (applicability) {
+      const applicabilityError = validateApplicabilityRule(applicability, data.targetType || existing.targetType);
+      if (applicabilityError) {
+        return NextResponse.json(
+          { error: 'Invalid applicability rule', details: applicabilityError },
+          { status: 400 }
+        );
+      }
+    }
+
     const updated = await prisma.question.update({
       where: { id: params.questionId },
-      data,
+      data: { ...data, applicability: data.applicability === '' ? null : data.applicability },
       include: { answers: true },
     });
 
+    await recordAuditEvent({
+      projectId: params.projectId,
+      actorUserId: userId,
+      entityType: 'Question',
+      entityId: updated.id,
+      action: 'Update',
+      before: existing,
+      after: updated,
+    });
     return NextResponse.json(updated);
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -130,6 +153,14 @@ export async function DELETE(
     await prisma.question.delete({
       where: { id: params.questionId },
     });
+    await recordAuditEvent({
+      projectId: params.projectId,
+      actorUserId: userId,
+      entityType: 'Question',
+      entityId: existing.id,
+      action: 'Delete',
+      before: existing,
+    });
 
     return NextResponse.json({ success: true });
   } catch (error) {
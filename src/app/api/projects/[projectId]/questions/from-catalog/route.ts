@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import * as z from 'zod';
+import { prisma } from '@/lib/prisma';
+import { requireAuth } from '@/lib/auth';
+import { isGlobalAdmin } from '@/lib/user-role';
+import { createProjectQuestionsFromCatalog } from '@/lib/norm-catalog-service';
+import { recordAuditEvent } from '@/lib/audit-service';
+
+const GenerateQuestionsSchema = z.object({
+  catalogId: z.string().min(1),
+  controlIds: z.array(z.string().min(1)).optional(),
+});
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { projectId: string } }
+) {
+  try {
+    const session = await requireAuth();
+    const userId = session.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'User not found' }, { status: 401 });
+    }
+
+    const membership = await prisma.projectMembership.findUnique({
+      where: { projectId_userId: { projectId: params.projectId, userId } },
+    });
+    if (!isGlobalAdmin(session.user?.role) && (!membership || (membership.role !== 'Editor' && membership.role !== 'Admin'))) {
+      return NextResponse.json({ error: 'Not authorized (Editor required)' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const { catalogId, controlIds } = GenerateQuestionsSchema.parse(body);
+
+    const result = await createProjectQuestionsFromCatalog(params.projectId, catalogId, controlIds);
+    if (!result) {
+      return NextResponse.json({ error: 'Norm catalog not found' }, { status: 404 });
+    }
+
+    await recordAuditEvent({
+      projectId: params.projectId,
+      actorUserId: userId,
+      entityType: 'Question',
+      action: 'Generate',
+      after: { catalogId, ...result },
+    });
+    return NextResponse.json(result, { status: result.created > 0 ? 201 : 200 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid input', details: error.errors }, { status: 400 });
+    }
+    if ((error as Error).message === 'Unauthenticated') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    console.error('Generate questions from catalog error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -2,10 +2,14 @@ import { prisma } from '@/lib/prisma';
 import { requireAuth } from '@/lib/auth';
 import { getProjectViewAccess } from '@/lib/project-access';
 import { getPrimaryProjectNorm, isNoneOnlyProjectNorm, parseProjectNorms } from '@/lib/project-norm';
+import { validateApplicabilityRule } from '@/lib/applicability-service';
+import { ensureNormCatalogLibrary, syncProjectNormCatalog, toLibraryProjectNorm } from '@/lib/norm-catalog-service';
 import { isGlobalAdmin } from '@/lib/user-role';
 import { NextRequest, NextResponse } from 'next/server';
 import * as z from 'zod';
+import { recordAuditEvent } from '@/lib/audit-service';
 
+// Fallback question set for projects whose norms have no catalog in the library.
 const DEFAULT_QUESTIONS = [
   {
     text: 'Does the component use encrypted communication (TLS/SSL)?',
@@ -48,9 +52,10 @@ const DEFAULT_QUESTIONS = [
 const CreateQuestionSchema = z.object({
   text: z.string().min(1),
   normReference: z.string().optional(),
-  targetType: z.enum(['Component', 'Edge', 'DataObject', 'None']).default('None'),
+  targetType: z.enum(['Component', 'Edge', 'DataObject', 'Zone', 'Conduit', 'None']).default('None'),
   answerType: z.enum(['YesNo', 'Text', 'MultiSelect']).default('YesNo'),
   riskDescription: z.string().optional(),
+  applicability: z.string().trim().max(500).optional(),
 });
 
 export async function GET(
@@ -128,21 +133,40 @@ export async function GET(
       );
     }
 
-    const projectNorms = parseProjectNorms(project.norm);
-    const noneOnlyNorm = isNoneOnlyProjectNorm(project.norm);
-    const primaryProjectNorm = getPrimaryProjectNorm(project.norm);
-    const hasIec62443 = projectNorms.includes('IEC 62443');
+    if (questions.length === 0 && !isNoneOnlyProjectNorm(project.norm)) {
+      // New projects pull their initial question set from the central norm catalog library.
+      const importedCatalogs = await ensureNormCatalogLibrary();
+      for (const catalog of importedCatalogs) {
+        await recordAuditEvent({
+          actorUserId: userId,
+          entityType: 'NormCatalog',
+          entityId: catalog.id,
+          action: 'Import',
+          after: catalog,
+        });
+      }
+      const projectNorms = parseProjectNorms(project.norm);
+      let pulledQuestions = 0;
+      for (const projectNorm of projectNorms) {
+        if (toLibraryProjectNorm(projectNorm)) {
+          const pulled = await syncProjectNormCatalog(params.projectId, projectNorm);
+          pulledQuestions += pulled?.added ?? 0;
+        }
+      }
 
-    if (questions.length === 0 && !noneOnlyNorm) {
-      await prisma.question.createMany({
-        data: DEFAULT_QUESTIONS.map((question) => ({
-          projectId: params.projectId,
-          text: question.text,
-          normReference: hasIec62443 ? question.normReference : primaryProjectNorm,
-          targetType: question.targetType,
-          answerType: question.answerType,
-        })),
-      });
+      if (pulledQuestions === 0) {
+        const hasIec62443 = projectNorms.includes('IEC 62443');
+        const primaryProjectNorm = getPrimaryProjectNorm(project.norm);
+        await prisma.question.createMany({
+          data: DEFAULT_QUESTIONS.map((question) => ({
+            projectId: params.projectId,
+            text: question.text,
+            normReference: hasIec62443 ? question.normReference : primaryProjectNorm,
+            targetType: question.targetType,
+            answerType: question.answerType,
+          })),
+        });
+      }
 
       questions = await prisma.question.findMany({
         where: { projectId: params.projectId },
@@ -229,7 +253,15 @@ export async function POST(
     }
 
     const body = await req.json();
-    const { text, normReference, targetType, answerType, riskDescription } = CreateQuestionSchema.parse(body);
+    const { text, normReference, targetType, answerType, riskDescription, applicability } = CreateQuestionSchema.parse(body);
+
+    const applicabilityError = applicability ? validateApplicabilityRule(applicability, targetType) : null;
+    if (applicabilityError) {
+      return NextResponse.json(
+        { error: 'Invalid applicability rule', details: applicabilityError },
+        { status: 400 }
+      );
+    }
 
     const projectNorm = membership?.project.norm
       ? membership.project.norm
@@ -255,6 +287,7 @@ export async function POST(
         targetType,
         answerType,
         riskDescription,
+        applicability: applicability || null,
       },
       include: {
         answers: {
@@ -287,6 +320,14 @@ export async function POST(
       },
     });
 
+    await recordAuditEvent({
+      projectId: params.projectId,
+      actorUserId: userId,
+      entityType: 'Question',
+      entityId: question.id,
+      action: 'Create',
+      after: question,
+    });
     return NextResponse.json(question, { status: 201 });
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -0,0 +1,140 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { requireAuth } from '@/lib/auth';
+import { getProjectViewAccess, isProjectAdminMembershipRole } from '@/lib/project-access';
+import { isGlobalAdmin } from '@/lib/user-role';
+import { recordAuditEvent } from '@/lib/audit-service';
+import {
+  ReportTemplateDefinitionSchema,
+  parseReportTemplateDefinition,
+  serializeReportTemplateDefinition,
+} from '@/lib/report-template';
+import { toReportTemplateAuditSnapshot } from '@/lib/report-template-service';
+
+const UpdateReportTemplateSchema = z.object({
+  name: z.string().trim().min(1).max(120).optional(),
+  definition: ReportTemplateDefinitionSchema.optional(),
+});
+
+/**
+ * Updates a report template. Organization templates need a global admin,
+ * project templates a project admin.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { projectId: string; templateId: string } }
+) {
+  try {
+    const session = await requireAuth();
+    const userId = session.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'User not found' }, { status: 401 });
+    }
+
+    const access = await getProjectViewAccess(params.projectId, userId, session.user?.role);
+    if (!access.exists) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const template = await prisma.reportTemplate.findFirst({
+      where: { id: params.templateId, OR: [{ projectId: params.projectId }, { projectId: null }] },
+    });
+    if (!template) {
+      return NextResponse.json({ error: 'Report template not found' }, { status: 404 });
+    }
+    const isAdmin = isGlobalAdmin(session.user?.role);
+    if (!template.projectId && !isAdmin) {
+      return NextResponse.json({ error: 'Only Admin can manage organization templates' }, { status: 403 });
+    }
+    if (template.projectId && !isAdmin && !isProjectAdminMembershipRole(access.membershipRole)) {
+      return NextResponse.json({ error: 'Not authorized (Admin required)' }, { status: 403 });
+    }
+
+    const data = UpdateReportTemplateSchema.parse(await request.json());
+    const updated = await prisma.reportTemplate.update({
+      where: { id: template.id },
+      data: {
+        ...(data.name !== undefined && { name: data.name }),
+        ...(data.definition && { definitionJson: serializeReportTemplateDefinition(data.definition) }),
+      },
+    });
+    const definition = parseReportTemplateDefinition(updated.definitionJson);
+
+    await recordAuditEvent({
+      projectId: template.projectId,
+      actorUserId: userId,
+      entityType: 'ReportTemplate',
+      entityId: template.id,
+      action: 'Update',
+      before: toReportTemplateAuditSnapshot(template.name, parseReportTemplateDefinition(template.definitionJson)),
+      after: toReportTemplateAuditSnapshot(updated.name, definition),
+    });
+    return NextResponse.json({
+      id: updated.id,
+      name: updated.name,
+      scope: updated.projectId ? 'project' : 'organization',
+      definition,
+      updatedAt: updated.updatedAt,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid input', details: error.errors }, { status: 400 });
+    }
+    if ((error as Error).message === 'Unauthenticated') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    console.error('Update report template error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: { projectId: string; templateId: string } }
+) {
+  try {
+    const session = await requireAuth();
+    const userId = session.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'User not found' }, { status: 401 });
+    }
+
+    const access = await getProjectViewAccess(params.projectId, userId, session.user?.role);
+    if (!access.exists) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const template = await prisma.reportTemplate.findFirst({
+      where: { id: params.templateId, OR: [{ projectId: params.projectId }, { projectId: null }] },
+    });
+    if (!template) {
+      return NextResponse.json({ error: 'Report template not found' }, { status: 404 });
+    }
+    const isAdmin = isGlobalAdmin(session.user?.role);
+    if (!template.projectId && !isAdmin) {
+      return NextResponse.json({ error: 'Only Admin can manage organization templates' }, { status: 403 });
+    }
+    if (template.projectId && !isAdmin && !isProjectAdminMembershipRole(access.membershipRole)) {
+      return NextResponse.json({ error: 'Not authorized (Admin required)' }, { status: 403 });
+    }
+
+    await prisma.reportTemplate.delete({ where: { id: template.id } });
+    await recordAuditEvent({
+      projectId: template.projectId,
+      actorUserId: userId,
+      entityType: 'ReportTemplate',
+      entityId: template.id,
+      action: 'Delete',
+      before: toReportTemplateAuditSnapshot(template.name, parseReportTemplateDefinition(template.definitionJson)),
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if ((error as Error).message === 'Unauthenticated') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    console.error('Delete report template error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
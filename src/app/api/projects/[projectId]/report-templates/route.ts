@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { requireAuth } from '@/lib/auth';
+import { getProjectViewAccess, isProjectAdminMembershipRole } from '@/lib/project-access';
+import { isGlobalAdmin } from '@/lib/user-role';
+import { recordAuditEvent } from '@/lib/audit-service';
+import { ReportTemplateDefinitionSchema, serializeReportTemplateDefinition } from '@/lib/report-template';
+import { listReportTemplates, toReportTemplateAuditSnapshot } from '@/lib/report-template-service';
+
+const CreateReportTemplateSchema = z.object({
+  name: z.string().trim().min(1).max(120),
+  scope: z.enum(['project', 'organization']).default('project'),
+  definition: ReportTemplateDefinitionSchema,
+});
+
+/**
+ * Project and organization report templates, with the caller's rights to
+ * manage either kind.
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: { projectId: string } }
+) {
+  try {
+    const session = await requireAuth();
+    const userId = session.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'User not found' }, { status: 401 });
+    }
+
+    const access = await getProjectViewAccess(params.projectId, userId, session.user?.role);
+    if (!access.exists) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+    if (!access.canView) {
+      return NextResponse.json({ error: 'Not authorized' }, { status: 403 });
+    }
+
+    const templates = await listReportTemplates(params.projectId);
+    const isAdmin = isGlobalAdmin(session.user?.role);
+    return NextResponse.json({
+      templates,
+      canManageProject: isAdmin || isProjectAdminMembershipRole(access.membershipRole),
+      canManageOrganization: isAdmin,
+    });
+  } catch (error) {
+    if ((error as Error).message === 'Unauthenticated') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    console.error('Get report templates error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * Creates a project template (project admin) or an organization-wide
+ * template (global admin).
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { projectId: string } }
+) {
+  try {
+    const session = await requireAuth();
+    const userId = session.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'User not found' }, { status: 401 });
+    }
+
+    const access = await getProjectViewAccess(params.projectId, userId, session.user?.role);
+    if (!access.exists) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const data = CreateReportTemplateSchema.parse(await request.json());
+    const isAdmin = isGlobalAdmin(session.user?.role);
+    if (data.scope === 'organization' && !isAdmin) {
+      return NextResponse.json({ error: 'Only Admin can manage organization templates' }, { status: 403 });
+    }
+    if (data.scope === 'project' && !isAdmin && !isProjectAdminMembershipRole(access.membershipRole)) {
+      return NextResponse.json({ error: 'Not authorized (Admin required)' }, { status: 403 });
+    }
+
+    const template = await prisma.reportTemplate.create({
+      data: {
+        projectId: data.scope === 'project' ? params.projectId : null,
+        name: data.name,
+        definitionJson: serializeReportTemplateDefinition(data.definition),
+        createdByUserId: userId,
+      },
+      select: { id: true, projectId: true, name: true, updatedAt: true },
+    });
+
+    await recordAuditEvent({
+      projectId: template.projectId,
+      actorUserId: userId,
+      entityType: 'ReportTemplate',
+      entityId: template.id,
+      action: 'Create',
+      after: { ...toReportTemplateAuditSnapshot(template.name, data.definition), scope: data.scope },
+    });
+    return NextResponse.json(
+      {
+        id: template.id,
+        name: template.name,
+        scope: data.scope,
+        definition: data.definition,
+        updatedAt: template.updatedAt,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid input', details: error.errors }, { status: 400 });
+    }
+    if ((error as Error).message === 'Unauthenticated') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    console.error('Create report template error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requireAuth } from '@/lib/auth';
+import { getProjectViewAccess, isProjectAdminMembershipRole } from '@/lib/project-access';
+import { isGlobalAdmin } from '@/lib/user-role';
+import { recordAuditEvent } from '@/lib/audit-service';
+import { deleteReports, readReportArtifact } from '@/lib/report-service';
+
+export const runtime = 'nodejs';
+
+/**
+ * Downloads the stored artifact of a generated report.
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: { projectId: string; reportId: string } }
+) {
+  try {
+    const session = await requireAuth();
+    const userId = session.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'User not found' }, { status: 401 });
+    }
+
+    const access = await getProjectViewAccess(params.projectId, userId, session.user?.role);
+    if (!access.exists) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+    if (!access.canView) {
+      return NextResponse.json({ error: 'Not authorized' }, { status: 403 });
+    }
+
+    const report = await prisma.report.findUnique({ where: { id: params.reportId } });
+    if (!report || report.projectId !== params.projectId) {
+      return NextResponse.json({ error: 'Report not found' }, { status: 404 });
+    }
+
+    const content = await readReportArtifact(report);
+    if (!content) {
+      return NextResponse.json({ error: 'No file stored for this report' }, { status: 404 });
+    }
+    return new NextResponse(new Uint8Array(content), {
+      headers: {
+        'Content-Type': report.mimeType || 'application/octet-stream',
+        'Content-Disposition': `attachment; filename=\"${report.fileName || 'report'}\"`,
+        'X-Content-SHA256': report.sha256 || '',
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    if ((error as Error).message === 'Unauthenticated') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if ((error as Error).message === 'Report integrity check failed') {
+      return NextResponse.json({ error: 'Stored file does not match its SHA-256 hash' }, { status: 409 });
+    }
+    console.error('Download report error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * Removes a report from the history together with its stored file.
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: { projectId: string; reportId: string } }
+) {
+  try {
+    const session = await requireAuth();
+    const userId = session.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'User not found' }, { status: 401 });
+    }
+
+    const access = await getProjectViewAccess(params.projectId, userId, session.user?.role);
+    if (!access.exists) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+    if (!isGlobalAdmin(session.user?.role) && !isProjectAdminMembershipRole(access.membershipRole)) {
+      return NextResponse.json({ error: 'Not authorized (Admin required)' }, { status: 403 });
+    }
+
+    const report = await prisma.report.findUnique({ where: { id: params.reportId } });
+    if (!report || report.projectId !== params.projectId) {
+      return NextResponse.json({ error: 'Report not found' }, { status: 404 });
+    }
+
+    await deleteReports({ id: report.id });
+    await recordAuditEvent({
+      projectId: params.projectId,
+      actorUserId: userId,
+      entityType: 'Report',
+      entityId: report.id,
+      action: 'Delete',
+      before: report,
+    });
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if ((error as Error).message === 'Unauthenticated') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    console.error('Delete report error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,131 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { requireAuth } from '@/lib/auth';
+import { canEditProjectMembershipRole, getProjectViewAccess, isProjectAdminMembershipRole } from '@/lib/project-access';
+import { isGlobalAdmin } from '@/lib/user-role';
+import { recordAuditEvent } from '@/lib/audit-service';
+import { DEFAULT_REPORT_TEMPLATE, REPORT_FORMATS } from '@/lib/report-template';
+import { loadReportTemplate } from '@/lib/report-template-service';
+import { generateReport, reportInclude } from '@/lib/report-service';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const GenerateReportSchema = z.object({
+  format: z.enum(REPORT_FORMATS),
+  templateId: z.string().min(1).nullish(),
+  recipient: z.string().trim().max(200).nullish(),
+  note: z.string().trim().max(2000).nullish(),
+});
+
+/**
+ * Report history of the project, newest first.
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: { projectId: string } }
+) {
+  try {
+    const session = await requireAuth();
+    const userId = session.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'User not found' }, { status: 401 });
+    }
+
+    const access = await getProjectViewAccess(params.projectId, userId, session.user?.role);
+    if (!access.exists) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+    if (!access.canView) {
+      return NextResponse.json({ error: 'Not authorized' }, { status: 403 });
+    }
+
+    const reports = await prisma.report.findMany({
+      where: { projectId: params.projectId },
+      orderBy: { generatedAt: 'desc' },
+      include: reportInclude,
+    });
+    const isAdmin = isGlobalAdmin(session.user?.role);
+    return NextResponse.json({
+      reports,
+      canGenerate: isAdmin || canEditProjectMembershipRole(access.membershipRole),
+      canDelete: isAdmin || isProjectAdminMembershipRole(access.membershipRole),
+    });
+  } catch (error) {
+    if ((error as Error).message === 'Unauthenticated') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    console.error('Get reports error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * Generates a report in the requested format and keeps it in the history.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { projectId: string } }
+) {
+  try {
+    const session = await requireAuth();
+    const userId = session.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'User not found' }, { status: 401 });
+    }
+
+    const access = await getProjectViewAccess(params.projectId, userId, session.user?.role);
+    if (!access.exists) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+    if (!isGlobalAdmin(session.user?.role) && !canEditProjectMembershipRole(access.membershipRole)) {
+      return NextResponse.json({ error: 'Not authorized (Editor required)' }, { status: 403 });
+    }
+
+    const data = GenerateReportSchema.parse(await request.json());
+    const reportTemplate = data.templateId ? await loadReportTemplate(params.projectId, data.templateId) : null;
+    if (data.templateId && !reportTemplate) {
+      return NextResponse.json({ error: 'Report template not found' }, { status: 404 });
+    }
+
+    const report = await generateReport({
+      projectId: params.projectId,
+      format: data.format,
+      template: reportTemplate?.definition ?? DEFAULT_REPORT_TEMPLATE,
+      templateName: reportTemplate?.name ?? null,
+      recipient: data.recipient,
+      note: data.note,
+      generatedByUserId: userId,
+    });
+    if (!report) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    await recordAuditEvent({
+      projectId: params.projectId,
+      actorUserId: userId,
+      entityType: 'Report',
+      entityId: report.id,
+      action: 'Generate',
+      after: {
+        title: report.title,
+        format: report.format,
+        templateName: report.templateName,
+        recipient: report.recipient,
+        fileName: report.fileName,
+        sha256: report.sha256,
+      },
+    });
+    return NextResponse.json(report, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid input', details: error.errors }, { status: 400 });
+    }
+    if ((error as Error).message === 'Unauthenticated') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    console.error('Generate report error:', error);
+    return NextResponse.json({ error: (error as Error).message || 'Failed to generate report' }, { status: 500 });
+  }
+}
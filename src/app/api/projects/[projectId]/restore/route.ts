@@ -3,6 +3,7 @@ import { prisma } from '@/lib/prisma';
 import { requireAuth } from '@/lib/auth';
 import { isGlobalAdmin } from '@/lib/user-role';
 import { supportsProjectDeletedAt } from '@/lib/project-trash';
+import { recordAuditEvent } from '@/lib/audit-service';
 
 export async function POST(
   _request: NextRequest,
@@ -27,8 +28,7 @@ export async function POST(
           not: null,
         },
       },
-      select: {
-        id: true,
+      include: {
         members: {
           orderBy: {
             createdAt: 'asc',
@@ -59,12 +59,21 @@ export async function POST(
       );
     }
 
-    await prisma.project.update({
+    const restoredProject = await prisma.project.update({
       where: { id: trashedProject.id },
       data: {
         deletedAt: null,
       },
     });
+    await recordAuditEvent({
+      projectId: restoredProject.id,
+      actorUserId: userId,
+      entityType: 'Project',
+      entityId: restoredProject.id,
+      action: 'Restore',
+      before: trashedProject,
+      after: restoredProject,
+    });
 
     return NextResponse.json({ success: true, projectId: trashedProject.id });
   } catch (error) {
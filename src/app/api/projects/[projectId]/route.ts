@@ -9,8 +9,14 @@ import {
   purgeExpiredDeletedProjects,
   supportsProjectDeletedAt,
 } from '@/lib/project-trash';
+import { VALUATION_MODES, syncEnforcedAssetValues } from '@/lib/valuation-service';
+import { RiskMethodSchema, serializeRiskMethod } from '@/lib/risk-method';
+import { CONSENSUS_RULES, syncFinalAnswers } from '@/lib/consensus-service';
+import { deleteEvidence } from '@/lib/evidence-service';
+import { deleteReports } from '@/lib/report-service';
 import { NextRequest, NextResponse } from 'next/server';
 import * as z from 'zod';
+import { recordAuditEvent } from '@/lib/audit-service';
 
 const UpdateProjectSchema = z.object({
   name: z.string().min(1).optional(),
@@ -18,6 +24,12 @@ const UpdateProjectSchema = z.object({
   norm: z.string().optional(),
   norms: z.array(z.enum(PROJECT_NORMS)).optional(),
   minRoleToView: z.enum(['any', 'user', 'admin', 'private', 'viewer', 'editor']).optional(),
+  targetSecurityLevel: z.number().int().min(1).max(4).optional(),
+  valuationMode: z.enum(VALUATION_MODES).optional(),
+  // null resets the project to the default risk method
+  riskMethod: RiskMethodSchema.nullable().optional(),
+  consensusRule: z.enum(CONSENSUS_RULES).optional(),
+  consensusMaxSpread: z.number().int().min(0).max(10).optional(),
 });
 
 // GET /api/projects/[projectId]
@@ -124,8 +136,7 @@ export async function PUT(
 
     const activeProject = await prisma.project.findFirst({
       where: activeProjectWhere,
-      select: {
-        id: true,
+      include: {
         members: {
           orderBy: {
             createdAt: 'asc',
@@ -160,7 +171,18 @@ export async function PUT(
     }
 
     const body = await req.json();
-    const { name, description, norm, norms, minRoleToView } = UpdateProjectSchema.parse(body);
+    const {
+      name,
+      description,
+      norm,
+      norms,
+      minRoleToView,
+      targetSecurityLevel,
+      valuationMode,
+      riskMethod,
+      consensusRule,
+      consensusMaxSpread,
+    } = UpdateProjectSchema.parse(body);
     const normalizedMinRoleToView = minRoleToView === 'user' ? 'editor' : minRoleToView;
     const normalizedNorm =
       norm !== undefined || norms !== undefined
@@ -174,6 +196,11 @@ export async function PUT(
         ...(description !== undefined && { description }),
         ...(normalizedNorm !== undefined && { norm: normalizedNorm }),
         ...(normalizedMinRoleToView && { minRoleToView: normalizedMinRoleToView }),
+        ...(targetSecurityLevel !== undefined && { targetSecurityLevel }),
+        ...(valuationMode !== undefined && { valuationMode }),
+        ...(riskMethod !== undefined && { riskMethod: riskMethod ? serializeRiskMethod(riskMethod) : null }),
+        ...(consensusRule !== undefined && { consensusRule }),
+        ...(consensusMaxSpread !== undefined && { consensusMaxSpread }),
       },
       include: {
         members: {
@@ -185,6 +212,25 @@ export async function PUT(
         },
       },
     });
+    await recordAuditEvent({
+      projectId,
+      actorUserId: userId,
+      entityType: 'Project',
+      entityId: projectId,
+      action: 'Update',
+      before: activeProject,
+      after: project,
+    });
+
+    if (valuationMode === 'Enforce') {
+      await syncEnforcedAssetValues(projectId);
+    }
+    if (
+      (consensusRule !== undefined && consensusRule !== activeProject.consensusRule) ||
+      (consensusMaxSpread !== undefined && consensusMaxSpread !== activeProject.consensusMaxSpread)
+    ) {
+      await syncFinalAnswers(projectId);
+    }
 
     return NextResponse.json(project);
   } catch (error) {
@@ -236,8 +282,7 @@ export async function DELETE(
 
     const project = await prisma.project.findFirst({
       where: projectWhere,
-      select: {
-        id: true,
+      include: {
         members: {
           orderBy: {
             createdAt: 'asc',
@@ -271,9 +316,19 @@ export async function DELETE(
     }
 
     if (!hasTrashSupport || permanentDeleteRequested) {
+      await deleteEvidence({ projectId });
+      await deleteReports({ projectId });
       await prisma.project.delete({
         where: { id: projectId },
       });
+      await recordAuditEvent({
+        projectId,
+        actorUserId: userId,
+        entityType: 'Project',
+        entityId: projectId,
+        action: 'Delete',
+        before: project,
+      });
       return NextResponse.json({
         success: true,
         projectId,
@@ -296,6 +351,15 @@ export async function DELETE(
       },
     });
 
+    await recordAuditEvent({
+      projectId,
+      actorUserId: userId,
+      entityType: 'Project',
+      entityId: projectId,
+      action: 'Delete',
+      before: project,
+      after: { ...project, deletedAt },
+    });
     const expiresAt = getProjectTrashExpiry(deletedAt);
     return NextResponse.json({
       success: true,
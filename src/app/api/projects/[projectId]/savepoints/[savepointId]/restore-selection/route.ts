@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireAuth } from '@/lib/auth';
+import { getProjectViewAccess } from '@/lib/project-access';
+import { isGlobalAdmin } from '@/lib/user-role';
+import { recordAuditEvent } from '@/lib/audit-service';
+import { getRequestClientId, publishModelChange } from '@/lib/collaboration-service';
+import {
+  applySelectiveRestore,
+  captureLiveModelSnapshot,
+  loadSavepointSnapshot,
+  planSelectiveRestore,
+} from '@/lib/model-snapshot-service';
+
+const MAX_SELECTED_IDS = 1000;
+
+const RestoreSelectionSchema = z
+  .object({
+    nodeIds: z.array(z.string()).max(MAX_SELECTED_IDS).default([]),
+    edgeIds: z.array(z.string()).max(MAX_SELECTED_IDS).default([]),
+    dataObjectIds: z.array(z.string()).max(MAX_SELECTED_IDS).default([]),
+    includeChildren: z.boolean().default(true),
+  })
+  .refine((selection) => selection.nodeIds.length + selection.edgeIds.length + selection.dataObjectIds.length > 0, {
+    message: 'Select at least one element to restore',
+  });
+
+/**
+ * Restores individual nodes (with their nested children), interfaces and data
+ * objects from a savepoint while keeping the rest of the live model.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { projectId: string; savepointId: string } }
+) {
+  try {
+    const session = await requireAuth();
+    const userId = session.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'User not found' }, { status: 401 });
+    }
+
+    const access = await getProjectViewAccess(params.projectId, userId, session.user?.role);
+    if (!access.exists) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+    if (
+      !isGlobalAdmin(session.user?.role) &&
+      (!access.membershipRole || (access.membershipRole !== 'Admin' && access.membershipRole !== 'Editor'))
+    ) {
+      return NextResponse.json({ error: 'Not authorized (Editor required)' }, { status: 403 });
+    }
+
+    const selection = RestoreSelectionSchema.parse(await request.json());
+
+    let loaded;
+    try {
+      loaded = await loadSavepointSnapshot(params.projectId, params.savepointId);
+    } catch {
+      return NextResponse.json({ error: 'Snapshot data is corrupted' }, { status: 422 });
+    }
+    if (!loaded) {
+      return NextResponse.json({ error: 'Snapshot not found' }, { status: 404 });
+    }
+
+    const plan = planSelectiveRestore(loaded.snapshot, await captureLiveModelSnapshot(params.projectId), selection);
+    await applySelectiveRestore(params.projectId, plan, userId);
+
+    const restored = {
+      nodes: plan.nodes.length,
+      edges: plan.edges.length,
+      dataObjects: plan.dataObjects.length,
+      componentData: plan.componentData.length,
+      edgeDataFlows: plan.edgeDataFlows.length,
+    };
+    await recordAuditEvent({
+      projectId: params.projectId,
+      actorUserId: userId,
+      entityType: 'Savepoint',
+      entityId: loaded.savepoint.id,
+      action: 'Restore',
+      after: {
+        title: loaded.savepoint.title,
+        ...restored,
+        nodeIds: plan.nodes.map((node) => node.id),
+        edgeIds: plan.edges.map((edge) => edge.id),
+        dataObjectIds: plan.dataObjects.map((dataObject) => dataObject.id),
+      },
+    });
+    publishModelChange(params.projectId, {
+      entityType: 'Model',
+      entityId: null,
+      action: 'Restore',
+      actorUserId: userId,
+      clientId: getRequestClientId(request),
+    });
+
+    return NextResponse.json({ success: true, savepoint: loaded.savepoint, restored });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid input', details: error.errors }, { status: 400 });
+    }
+    if ((error as Error).message === 'Unauthenticated') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    console.error('Restore snapshot selection error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -5,112 +5,19 @@ import { prisma } from '@/lib/prisma';
 import { requireAuth } from '@/lib/auth';
 import { getProjectViewAccess } from '@/lib/project-access';
 import { isGlobalAdmin } from '@/lib/user-role';
-
-const SnapshotNodeSchema = z.object({
-  id: z.string().optional(),
-  stableId: z.string().optional(),
-  name: z.string().min(1),
-  category: z.string().optional(),
-  description: z.string().nullable().optional(),
-  notes: z.string().nullable().optional(),
-  parentNodeId: z.string().nullable().optional(),
-});
-
-const SnapshotEdgeSchema = z.object({
-  id: z.string().optional(),
-  sourceNodeId: z.string(),
-  targetNodeId: z.string(),
-  sourceHandleId: z.string().nullable().optional(),
-  targetHandleId: z.string().nullable().optional(),
-  name: z.string().nullable().optional(),
-  direction: z.string().optional(),
-  protocol: z.string().nullable().optional(),
-  description: z.string().nullable().optional(),
-  notes: z.string().nullable().optional(),
-});
-
-const SnapshotDataObjectSchema = z.object({
-  id: z.string().optional(),
-  name: z.string().min(1),
-  description: z.string().nullable().optional(),
-  dataClass: z.string().optional(),
-  confidentiality: z.number().optional(),
-  integrity: z.number().optional(),
-  availability: z.number().optional(),
-  tags: z.string().nullable().optional(),
-});
-
-const SnapshotComponentDataSchema = z.object({
-  id: z.string().optional(),
-  nodeId: z.string(),
-  dataObjectId: z.string(),
-  role: z.string().optional(),
-  notes: z.string().nullable().optional(),
-});
-
-const SnapshotEdgeDataFlowSchema = z.object({
-  id: z.string().optional(),
-  edgeId: z.string(),
-  dataObjectId: z.string(),
-  direction: z.string().optional(),
-  notes: z.string().nullable().optional(),
-});
-
-const SnapshotSchema = z.object({
-  version: z.number().optional(),
-  capturedAt: z.string().optional(),
-  nodes: z.array(SnapshotNodeSchema).default([]),
-  edges: z.array(SnapshotEdgeSchema).default([]),
-  dataObjects: z.array(SnapshotDataObjectSchema).default([]),
-  componentData: z.array(SnapshotComponentDataSchema).default([]),
-  edgeDataFlows: z.array(SnapshotEdgeDataFlowSchema).default([]),
-  nodePositions: z
-    .record(
-      z.object({
-        x: z.number(),
-        y: z.number(),
-      })
-    )
-    .default({}),
-  containerSizes: z
-    .record(
-      z.object({
-        width: z.number(),
-        height: z.number(),
-      })
-    )
-    .default({}),
-});
-
-function normalizeNodeCategory(rawCategory: string | undefined): 'Container' | 'Component' {
-  const value = (rawCategory || '').trim().toLowerCase();
-  if (value === 'container' || value === 'system') {
-    return 'Container';
-  }
-  return 'Component';
-}
-
-function normalizeEdgeDirection(rawDirection: string | undefined): 'A_TO_B' | 'B_TO_A' | 'BIDIRECTIONAL' {
-  const value = (rawDirection || '').trim().toUpperCase();
-  if (value === 'B_TO_A') return 'B_TO_A';
-  if (value === 'BIDIRECTIONAL') return 'BIDIRECTIONAL';
-  return 'A_TO_B';
-}
-
-function normalizeComponentDataRole(rawRole: string | undefined): 'Stores' | 'Processes' | 'Generates' | 'Receives' {
-  const value = (rawRole || '').trim().toLowerCase();
-  if (value === 'processes') return 'Processes';
-  if (value === 'generates') return 'Generates';
-  if (value === 'receives') return 'Receives';
-  return 'Stores';
-}
-
-function normalizeFlowDirection(rawDirection: string | undefined): 'SourceToTarget' | 'TargetToSource' | 'Bidirectional' {
-  const value = (rawDirection || '').trim().toLowerCase();
-  if (value === 'targettosource') return 'TargetToSource';
-  if (value === 'bidirectional') return 'Bidirectional';
-  return 'SourceToTarget';
-}
+import { normalizeSecurityLevel } from '@/lib/zone-service';
+import { relinkFindingTargets } from '@/lib/risk-service';
+import { recordAuditEvent } from '@/lib/audit-service';
+import { getRequestClientId, publishModelChange } from '@/lib/collaboration-service';
+import { ensureDefaultDiagramView, saveDiagramLayout } from '@/lib/diagram-layout-service';
+import {
+  ModelSnapshotSchema,
+  clampCia,
+  normalizeComponentDataRole,
+  normalizeEdgeDirection,
+  normalizeFlowDirection,
+  normalizeNodeCategory,
+} from '@/lib/model-snapshot-service';
 
 function safeIdFromSnapshot(rawId: string | undefined, prefix: string, index: number): string {
   const candidate = (rawId || '').trim();
@@ -120,11 +27,6 @@ function safeIdFromSnapshot(rawId: string | undefined, prefix: string, index: nu
   return `${prefix}_${index + 1}_${randomUUID().replace(/-/g, '')}`;
 }
 
-function clampCia(value: number | undefined): number {
-  if (!Number.isFinite(value)) return 5;
-  return Math.max(1, Math.min(10, Math.round(value as number)));
-}
-
 function sanitizeNodePositionMap(
   rawMap: Record<string, { x: number; y: number }>,
   idMap: Map<string, string>,
@@ -177,7 +79,7 @@ function sanitizeContainerSizeMap(
 }
 
 export async function POST(
-  _request: NextRequest,
+  request: NextRequest,
   { params }: { params: { projectId: string; savepointId: string } }
 ) {
   try {
@@ -222,7 +124,7 @@ export async function POST(
       return NextResponse.json({ error: 'Snapshot data is corrupted (invalid JSON)' }, { status: 422 });
     }
 
-    const snapshot = SnapshotSchema.parse(parsedJson);
+    const snapshot = ModelSnapshotSchema.parse(parsedJson);
 
     const restoreResult = await prisma.$transaction(async (tx) => {
       await tx.edgeDataFlow.deleteMany({
@@ -243,6 +145,51 @@ export async function POST(
       await tx.modelNode.deleteMany({ where: { projectId: params.projectId } });
       await tx.dataObject.deleteMany({ where: { projectId: params.projectId } });
 
+      const zoneIdMap = new Map<string, string>();
+      if (snapshot.zones) {
+        await tx.zone.deleteMany({ where: { projectId: params.projectId } });
+
+        const usedZoneIds = new Set<string>();
+        const usedZoneNames = new Set<string>();
+        for (let index = 0; index < snapshot.zones.length; index += 1) {
+          const zone = snapshot.zones[index];
+          const sourceId = safeIdFromSnapshot(zone.id, 'snapshot_zone_source', index);
+          let restoredId = safeIdFromSnapshot(zone.id, 'snapshot_zone', index);
+          if (usedZoneIds.has(restoredId)) {
+            restoredId = safeIdFromSnapshot(undefined, 'snapshot_zone', index);
+          }
+          usedZoneIds.add(restoredId);
+          zoneIdMap.set(sourceId, restoredId);
+
+          let zoneName = zone.name.trim() || `Restored Zone ${index + 1}`;
+          if (usedZoneNames.has(zoneName.toLowerCase())) {
+            let suffix = 2;
+            while (usedZoneNames.has(`${zoneName.toLowerCase()} (${suffix})`)) {
+              suffix += 1;
+            }
+            zoneName = `${zoneName} (${suffix})`;
+          }
+          usedZoneNames.add(zoneName.toLowerCase());
+
+          await tx.zone.create({
+            data: {
+              id: restoredId,
+              projectId: params.projectId,
+              name: zoneName,
+              description: zone.description || null,
+              targetSecurityLevel: normalizeSecurityLevel(zone.targetSecurityLevel),
+              color: zone.color || null,
+            },
+          });
+        }
+      } else {
+        const existingZones = await tx.zone.findMany({
+          where: { projectId: params.projectId },
+          select: { id: true },
+        });
+        existingZones.forEach((zone) => zoneIdMap.set(zone.id, zone.id));
+      }
+
       const nodeIdMap = new Map<string, string>();
       const usedNodeIds = new Set<string>();
       const usedStableIds = new Set<string>();
@@ -276,6 +223,8 @@ export async function POST(
           description: node.description || null,
           notes: node.notes || null,
           parentSourceId: node.parentNodeId || null,
+          zoneId: node.zoneId ? zoneIdMap.get(node.zoneId) || null : null,
+          capabilitySecurityLevel: node.capabilitySecurityLevel ?? null,
         };
       });
 
@@ -290,6 +239,8 @@ export async function POST(
             description: node.description,
             notes: node.notes,
             parentNodeId: null,
+            zoneId: node.zoneId,
+            capabilitySecurityLevel: node.capabilitySecurityLevel,
             createdByUserId: userId,
             updatedByUserId: userId,
           },
@@ -483,6 +434,8 @@ export async function POST(
         });
       }
 
+      await relinkFindingTargets(tx, params.projectId);
+
       const restoredNodeIds = new Set(normalizedNodes.map((node) => node.restoredId));
       const restoredPositions = sanitizeNodePositionMap(snapshot.nodePositions, nodeIdMap, restoredNodeIds);
       const restoredContainerSizes = sanitizeContainerSizeMap(snapshot.containerSizes, nodeIdMap, restoredNodeIds);
@@ -501,6 +454,7 @@ export async function POST(
       return {
         restored: {
           nodes: normalizedNodes.length,
+          zones: snapshot.zones ? snapshot.zones.length : null,
           dataObjects: snapshot.dataObjects.length,
           edges: snapshot.edges.length - skippedEdges,
           componentData: snapshot.componentData.length - skippedComponentData,
@@ -514,6 +468,28 @@ export async function POST(
       };
     });
 
+    // Restored nodes replace the previous ones, so every view starts from the snapshot layout.
+    await ensureDefaultDiagramView(params.projectId, userId);
+    const views = await prisma.diagramView.findMany({ where: { projectId: params.projectId }, select: { id: true } });
+    for (const view of views) {
+      await saveDiagramLayout(params.projectId, view.id, restoreResult.state);
+    }
+
+    await recordAuditEvent({
+      projectId: params.projectId,
+      actorUserId: userId,
+      entityType: 'Savepoint',
+      entityId: savepoint.id,
+      action: 'Restore',
+      after: { title: savepoint.title, ...restoreResult.restored, warning: restoreResult.warning },
+    });
+    publishModelChange(params.projectId, {
+      entityType: 'Model',
+      entityId: null,
+      action: 'Restore',
+      actorUserId: userId,
+      clientId: getRequestClientId(request),
+    });
     return NextResponse.json({
       success: true,
       savepoint: {
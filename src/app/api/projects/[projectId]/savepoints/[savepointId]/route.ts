@@ -3,6 +3,7 @@ import { prisma } from '@/lib/prisma';
 import { requireAuth } from '@/lib/auth';
 import { getProjectViewAccess } from '@/lib/project-access';
 import { isGlobalAdmin } from '@/lib/user-role';
+import { recordAuditEvent } from '@/lib/audit-service';
 
 export async function DELETE(
   _request: NextRequest,
@@ -33,6 +34,9 @@ export async function DELETE(
       },
       select: {
         id: true,
+        title: true,
+        createdByUserId: true,
+        createdAt: true,
       },
     });
 
@@ -43,6 +47,14 @@ export async function DELETE(
     await prisma.canonicalModelSavepoint.delete({
       where: { id: savepoint.id },
     });
+    await recordAuditEvent({
+      projectId: params.projectId,
+      actorUserId: userId,
+      entityType: 'Savepoint',
+      entityId: savepoint.id,
+      action: 'Delete',
+      before: savepoint,
+    });
 
     return NextResponse.json({ success: true, id: savepoint.id });
   } catch (error) {
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireAuth } from '@/lib/auth';
+import { getProjectViewAccess } from '@/lib/project-access';
+import {
+  LIVE_MODEL_REF,
+  ModelSnapshot,
+  captureLiveModelSnapshot,
+  diffModelSnapshots,
+  loadSavepointSnapshot,
+} from '@/lib/model-snapshot-service';
+
+type SnapshotSide = {
+  ref: { id: string; title: string; createdAt: Date | null };
+  snapshot: ModelSnapshot;
+};
+
+/**
+ * Structured diff between two savepoints, or a savepoint and the live model:
+ * `?from=<savepointId|live>&to=<savepointId|live>`, `to` defaults to the live
+ * model. Live placements are read from `viewId` (default view when omitted).
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { projectId: string } }
+) {
+  try {
+    const session = await requireAuth();
+    const userId = session.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'User not found' }, { status: 401 });
+    }
+
+    const access = await getProjectViewAccess(params.projectId, userId, session.user?.role);
+    if (!access.exists) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+    if (!access.canView) {
+      return NextResponse.json({ error: 'Not authorized' }, { status: 403 });
+    }
+
+    const searchParams = new URL(request.url).searchParams;
+    const fromRef = searchParams.get('from');
+    const toRef = searchParams.get('to') || LIVE_MODEL_REF;
+    const viewId = searchParams.get('viewId');
+    if (!fromRef) {
+      return NextResponse.json({ error: 'Missing "from" savepoint' }, { status: 400 });
+    }
+
+    const loadSide = async (ref: string): Promise<SnapshotSide | null> => {
+      if (ref === LIVE_MODEL_REF) {
+        return {
+          ref: { id: LIVE_MODEL_REF, title: 'Current model', createdAt: null },
+          snapshot: await captureLiveModelSnapshot(params.projectId, viewId),
+        };
+      }
+      const loaded = await loadSavepointSnapshot(params.projectId, ref);
+      return loaded ? { ref: loaded.savepoint, snapshot: loaded.snapshot } : null;
+    };
+
+    const [from, to] = await Promise.all([loadSide(fromRef), loadSide(toRef)]);
+    if (!from || !to) {
+      return NextResponse.json({ error: 'Snapshot not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      from: from.ref,
+      to: to.ref,
+      ...diffModelSnapshots(from.snapshot, to.snapshot),
+      // Layout of both sides so removed elements can be drawn where they were
+      fromLayout: { nodePositions: from.snapshot.nodePositions, containerSizes: from.snapshot.containerSizes },
+    });
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ error: 'Snapshot data is corrupted (invalid JSON)' }, { status: 422 });
+    }
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid snapshot format', details: error.errors }, { status: 422 });
+    }
+    if ((error as Error).message === 'Unauthenticated') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    console.error('Diff snapshots error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * Threat Conversion API Route
+ * Converts a threat into a finding with default measures
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { convertThreatToFinding } from '@/lib/threat-service';
+import { isGlobalAdmin } from '@/lib/user-role';
+import { recordAuditEvent } from '@/lib/audit-service';
+
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: { projectId: string; threatId: string } }
+) {
+  try {
+    const session = await requireAuth();
+    const userId = session.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'User not found' }, { status: 401 });
+    }
+
+    const membership = await prisma.projectMembership.findUnique({
+      where: { projectId_userId: { projectId: params.projectId, userId } },
+    });
+
+    if (!isGlobalAdmin(session.user?.role) && (!membership || (membership.role !== 'Admin' && membership.role !== 'Editor'))) {
+      return NextResponse.json({ error: 'Not authorized (Editor required)' }, { status: 403 });
+    }
+
+    const threat = await prisma.threat.findFirst({
+      where: { id: params.threatId, projectId: params.projectId },
+    });
+    if (!threat) {
+      return NextResponse.json({ error: 'Threat not found' }, { status: 404 });
+    }
+    if (threat.findingId) {
+      return NextResponse.json({ error: 'Threat was already converted into a finding' }, { status: 409 });
+    }
+
+    const finding = await convertThreatToFinding(threat, userId);
+    if (finding) {
+      await recordAuditEvent({
+        projectId: params.projectId,
+        actorUserId: userId,
+        entityType: 'Finding',
+        entityId: finding.id,
+        action: 'Create',
+        after: { ...finding, threatId: threat.id },
+      });
+    }
+
+    return NextResponse.json(finding, { status: 201 });
+  } catch (error) {
+    if ((error as Error).message === 'Unauthenticated') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    console.error('Convert threat error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,82 @@
+/**
+ * Threat Review API Route
+ * Accept, reject or mark a threat as mitigated
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireAuth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { THREAT_STATUSES } from '@/lib/threat-service';
+import { isGlobalAdmin } from '@/lib/user-role';
+import { recordAuditEvent } from '@/lib/audit-service';
+
+const ReviewThreatSchema = z.object({
+  status: z.enum(THREAT_STATUSES),
+  reviewComment: z.string().max(2000).optional().nullable(),
+});
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { projectId: string; threatId: string } }
+) {
+  try {
+    const session = await requireAuth();
+    const userId = session.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'User not found' }, { status: 401 });
+    }
+
+    const membership = await prisma.projectMembership.findUnique({
+      where: { projectId_userId: { projectId: params.projectId, userId } },
+    });
+
+    if (!isGlobalAdmin(session.user?.role) && (!membership || (membership.role !== 'Admin' && membership.role !== 'Editor'))) {
+      return NextResponse.json({ error: 'Not authorized (Editor required)' }, { status: 403 });
+    }
+
+    const threat = await prisma.threat.findFirst({
+      where: { id: params.threatId, projectId: params.projectId },
+    });
+    if (!threat) {
+      return NextResponse.json({ error: 'Threat not found' }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const validated = ReviewThreatSchema.parse(body);
+    const isOpen = validated.status === 'Open';
+
+    const updated = await prisma.threat.update({
+      where: { id: threat.id },
+      data: {
+        status: validated.status,
+        reviewComment: validated.reviewComment?.trim() || null,
+        reviewedByUserId: isOpen ? null : userId,
+        reviewedAt: isOpen ? null : new Date(),
+      },
+      include: {
+        finding: { select: { id: true, questionText: true } },
+      },
+    });
+
+    await recordAuditEvent({
+      projectId: params.projectId,
+      actorUserId: userId,
+      entityType: 'Threat',
+      entityId: updated.id,
+      action: 'Update',
+      before: threat,
+      after: updated,
+    });
+    return NextResponse.json(updated);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid input', details: error.errors }, { status: 400 });
+    }
+    if ((error as Error).message === 'Unauthenticated') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    console.error('Review threat error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * Threat Generation API Route
+ * Enumerates STRIDE threats from the project model (offline, rule based)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { generateProjectThreats } from '@/lib/threat-service';
+import { isGlobalAdmin } from '@/lib/user-role';
+import { recordAuditEvent } from '@/lib/audit-service';
+
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: { projectId: string } }
+) {
+  try {
+    const session = await requireAuth();
+    const userId = session.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'User not found' }, { status: 401 });
+    }
+
+    const membership = await prisma.projectMembership.findUnique({
+      where: { projectId_userId: { projectId: params.projectId, userId } },
+    });
+
+    if (!isGlobalAdmin(session.user?.role) && (!membership || (membership.role !== 'Admin' && membership.role !== 'Editor'))) {
+      return NextResponse.json({ error: 'Not authorized (Editor required)' }, { status: 403 });
+    }
+
+    const result = await generateProjectThreats(params.projectId);
+    await recordAuditEvent({
+      projectId: params.projectId,
+      actorUserId: userId,
+      entityType: 'Threat',
+      action: 'Generate',
+      after: result,
+    });
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    if ((error as Error).message === 'Unauthenticated') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    console.error('Threat generation error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
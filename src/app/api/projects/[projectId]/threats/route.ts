@@ -0,0 +1,47 @@
+/**
+ * Threats API Route
+ * Lists the STRIDE threats of a project
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { getProjectViewAccess } from '@/lib/project-access';
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: { projectId: string } }
+) {
+  try {
+    const session = await requireAuth();
+    const userId = session.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'User not found' }, { status: 401 });
+    }
+
+    const access = await getProjectViewAccess(params.projectId, userId, session.user?.role);
+    if (!access.exists) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    if (!access.canView) {
+      return NextResponse.json({ error: 'Not authorized' }, { status: 403 });
+    }
+
+    const threats = await prisma.threat.findMany({
+      where: { projectId: params.projectId },
+      include: {
+        finding: { select: { id: true, questionText: true } },
+      },
+      orderBy: [{ severity: 'desc' }, { assetName: 'asc' }],
+    });
+
+    return NextResponse.json(threats);
+  } catch (error) {
+    if ((error as Error).message === 'Unauthenticated') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    console.error('Get threats error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
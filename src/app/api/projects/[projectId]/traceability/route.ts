@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { getProjectViewAccess } from '@/lib/project-access';
+import {
+  TRACEABILITY_COLUMNS,
+  getTraceabilityMatrix,
+  traceabilityTableRows,
+  traceabilityToCsv,
+} from '@/lib/traceability-service';
+import { createXlsxWorkbook } from '@/lib/xlsx-workbook';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * Requirement traceability matrix of the project. `?format=csv|xlsx|json`
+ * downloads it as file.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { projectId: string } }
+) {
+  try {
+    const session = await requireAuth();
+    const userId = session.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'User not found' }, { status: 401 });
+    }
+
+    const access = await getProjectViewAccess(params.projectId, userId, session.user?.role);
+    if (!access.exists) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+    if (!access.canView) {
+      return NextResponse.json({ error: 'Not authorized' }, { status: 403 });
+    }
+
+    const matrix = await getTraceabilityMatrix(params.projectId);
+    const format = request.nextUrl.searchParams.get('format');
+    const fileName = `traceability-${params.projectId}-${new Date().toISOString().slice(0, 10)}`;
+
+    if (format === 'csv') {
+      return new NextResponse(traceabilityToCsv(matrix.rows), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="${fileName}.csv"`,
+        },
+      });
+    }
+    if (format === 'xlsx') {
+      const workbook = createXlsxWorkbook([
+        { name: 'Traceability', rows: [[...TRACEABILITY_COLUMNS], ...traceabilityTableRows(matrix.rows)] },
+      ]);
+      return new NextResponse(new Uint8Array(workbook), {
+        headers: {
+          'Content-Type': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+          'Content-Disposition': `attachment; filename="${fileName}.xlsx"`,
+        },
+      });
+    }
+    if (format === 'json') {
+      return new NextResponse(JSON.stringify({ projectId: params.projectId, exportedAt: new Date(), ...matrix }, null, 2), {
+        headers: {
+          'Content-Type': 'application/json; charset=utf-8',
+          'Content-Disposition': `attachment; filename="${fileName}.json"`,
+        },
+      });
+    }
+
+    return NextResponse.json(matrix);
+  } catch (error) {
+    if ((error as Error).message === 'Unauthenticated') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    console.error('Get traceability matrix error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
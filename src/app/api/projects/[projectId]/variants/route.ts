@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { requireAuth } from '@/lib/auth';
+import { canEditProjectMembershipRole, getProjectViewAccess } from '@/lib/project-access';
+import { isGlobalAdmin } from '@/lib/user-role';
+import { recordAuditEvent } from '@/lib/audit-service';
+import { createVariantProject } from '@/lib/variant-service';
+
+const CreateVariantSchema = z.object({
+  name: z.string().trim().min(1).max(200),
+  description: z.string().max(2000).optional(),
+});
+
+/**
+ * Variants derived from this project.
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: { projectId: string } }
+) {
+  try {
+    const session = await requireAuth();
+    const userId = session.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'User not found' }, { status: 401 });
+    }
+
+    const access = await getProjectViewAccess(params.projectId, userId, session.user?.role);
+    if (!access.exists) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+    if (!access.canView) {
+      return NextResponse.json({ error: 'Not authorized' }, { status: 403 });
+    }
+
+    const variants = await prisma.project.findMany({
+      where: { parentProjectId: params.projectId, deletedAt: null },
+      orderBy: { createdAt: 'asc' },
+      select: { id: true, name: true, description: true, createdAt: true },
+    });
+
+    return NextResponse.json(variants);
+  } catch (error) {
+    if ((error as Error).message === 'Unauthenticated') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    console.error('Get variants error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * Derives a new variant project from this project. Requires editor access on
+ * the parent; the creator becomes admin of the variant.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { projectId: string } }
+) {
+  try {
+    const session = await requireAuth();
+    const userId = session.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'User not found' }, { status: 401 });
+    }
+
+    const access = await getProjectViewAccess(params.projectId, userId, session.user?.role);
+    if (!access.exists) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+    if (!isGlobalAdmin(session.user?.role) && !canEditProjectMembershipRole(access.membershipRole)) {
+      return NextResponse.json({ error: 'Not authorized (Editor required)' }, { status: 403 });
+    }
+
+    const data = CreateVariantSchema.parse(await request.json());
+    const created = await createVariantProject(
+      params.projectId,
+      { name: data.name, description: data.description?.trim() || null },
+      userId
+    );
+    if (!created) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    await recordAuditEvent({
+      projectId: created.variant.id,
+      actorUserId: userId,
+      entityType: 'Project',
+      entityId: created.variant.id,
+      action: 'Create',
+      after: { ...created.variant, inheritedElements: created.inherited },
+    });
+    return NextResponse.json(created, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid input', details: error.errors }, { status: 400 });
+    }
+    if ((error as Error).message === 'Unauthenticated') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    console.error('Create variant error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,186 @@
+import { NextRequest, NextResponse } from 'next/server';
+import * as z from 'zod';
+import { prisma } from '@/lib/prisma';
+import { requireAuth } from '@/lib/auth';
+import { isGlobalAdmin } from '@/lib/user-role';
+import { MAX_SECURITY_LEVEL, MIN_SECURITY_LEVEL } from '@/lib/zone-service';
+import { recordAuditEvent } from '@/lib/audit-service';
+import { getRequestClientId, publishModelChange } from '@/lib/collaboration-service';
+
+const UpdateZoneSchema = z.object({
+  name: z.string().trim().min(1).max(120).optional(),
+  description: z.string().nullable().optional(),
+  targetSecurityLevel: z.number().int().min(MIN_SECURITY_LEVEL).max(MAX_SECURITY_LEVEL).optional(),
+  color: z
+    .string()
+    .regex(/^#[0-9a-fA-F]{6}$/)
+    .nullable()
+    .optional(),
+  nodeIds: z.array(z.string()).optional(),
+});
+
+async function canEditProject(projectId: string, userId: string, role: string | undefined) {
+  if (isGlobalAdmin(role)) {
+    return true;
+  }
+  const membership = await prisma.projectMembership.findUnique({
+    where: { projectId_userId: { projectId, userId } },
+  });
+  return Boolean(membership && (membership.role === 'Editor' || membership.role === 'Admin'));
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { projectId: string; zoneId: string } }
+) {
+  try {
+    const session = await requireAuth();
+    const userId = session.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'User not found' }, { status: 401 });
+    }
+
+    if (!(await canEditProject(params.projectId, userId, session.user?.role))) {
+      return NextResponse.json({ error: 'Not authorized (Editor required)' }, { status: 403 });
+    }
+
+    const existing = await prisma.zone.findUnique({
+      where: { id: params.zoneId },
+      include: { nodes: { select: { id: true } } },
+    });
+    if (!existing || existing.projectId !== params.projectId) {
+      return NextResponse.json({ error: 'Zone not found' }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const { nodeIds, ...data } = UpdateZoneSchema.parse(body);
+    if (Object.keys(data).length === 0 && nodeIds === undefined) {
+      return NextResponse.json({ error: 'No updates provided' }, { status: 400 });
+    }
+
+    if (data.name && data.name !== existing.name) {
+      const duplicate = await prisma.zone.findUnique({
+        where: { projectId_name: { projectId: params.projectId, name: data.name } },
+      });
+      if (duplicate) {
+        return NextResponse.json({ error: 'A zone with this name already exists' }, { status: 409 });
+      }
+    }
+
+    const uniqueNodeIds = nodeIds ? Array.from(new Set(nodeIds)) : null;
+    if (uniqueNodeIds && uniqueNodeIds.length > 0) {
+      const nodeCount = await prisma.modelNode.count({
+        where: { projectId: params.projectId, id: { in: uniqueNodeIds } },
+      });
+      if (nodeCount !== uniqueNodeIds.length) {
+        return NextResponse.json({ error: 'Invalid zone members' }, { status: 400 });
+      }
+    }
+
+    const zone = await prisma.$transaction(async (tx) => {
+      if (Object.keys(data).length > 0) {
+        await tx.zone.update({
+          where: { id: params.zoneId },
+          data,
+        });
+      }
+
+      // The submitted member list replaces the current membership.
+      if (uniqueNodeIds) {
+        await tx.modelNode.updateMany({
+          where: { projectId: params.projectId, zoneId: params.zoneId, id: { notIn: uniqueNodeIds } },
+          data: { zoneId: null, updatedByUserId: userId },
+        });
+        if (uniqueNodeIds.length > 0) {
+          await tx.modelNode.updateMany({
+            where: { projectId: params.projectId, id: { in: uniqueNodeIds } },
+            data: { zoneId: params.zoneId, updatedByUserId: userId },
+          });
+        }
+      }
+
+      return tx.zone.findUniqueOrThrow({
+        where: { id: params.zoneId },
+        include: { nodes: { select: { id: true } } },
+      });
+    });
+
+    await recordAuditEvent({
+      projectId: params.projectId,
+      actorUserId: userId,
+      entityType: 'Zone',
+      entityId: zone.id,
+      action: 'Update',
+      before: { ...existing, nodeIds: existing.nodes.map((node) => node.id).sort() },
+      after: { ...zone, nodeIds: zone.nodes.map((node) => node.id).sort() },
+    });
+    publishModelChange(params.projectId, {
+      entityType: 'Zone',
+      entityId: zone.id,
+      action: 'Update',
+      actorUserId: userId,
+      clientId: getRequestClientId(request),
+    });
+    return NextResponse.json(zone);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid input', details: error.errors }, { status: 400 });
+    }
+    if ((error as Error).message === 'Unauthenticated') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    console.error('Update zone error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { projectId: string; zoneId: string } }
+) {
+  try {
+    const session = await requireAuth();
+    const userId = session.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'User not found' }, { status: 401 });
+    }
+
+    if (!(await canEditProject(params.projectId, userId, session.user?.role))) {
+      return NextResponse.json({ error: 'Not authorized (Editor required)' }, { status: 403 });
+    }
+
+    const existing = await prisma.zone.findUnique({
+      where: { id: params.zoneId },
+    });
+    if (!existing || existing.projectId !== params.projectId) {
+      return NextResponse.json({ error: 'Zone not found' }, { status: 404 });
+    }
+
+    await prisma.zone.delete({
+      where: { id: params.zoneId },
+    });
+    await recordAuditEvent({
+      projectId: params.projectId,
+      actorUserId: userId,
+      entityType: 'Zone',
+      entityId: existing.id,
+      action: 'Delete',
+      before: existing,
+    });
+    publishModelChange(params.projectId, {
+      entityType: 'Zone',
+      entityId: existing.id,
+      action: 'Delete',
+      actorUserId: userId,
+      clientId: getRequestClientId(request),
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if ((error as Error).message === 'Unauthenticated') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    console.error('Delete zone error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
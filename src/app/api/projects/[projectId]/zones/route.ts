@@ -0,0 +1,148 @@
+import { NextRequest, NextResponse } from 'next/server';
+import * as z from 'zod';
+import { prisma } from '@/lib/prisma';
+import { requireAuth } from '@/lib/auth';
+import { getProjectViewAccess } from '@/lib/project-access';
+import { isGlobalAdmin } from '@/lib/user-role';
+import { MAX_SECURITY_LEVEL, MIN_SECURITY_LEVEL } from '@/lib/zone-service';
+import { recordAuditEvent } from '@/lib/audit-service';
+import { getRequestClientId, publishModelChange } from '@/lib/collaboration-service';
+
+const CreateZoneSchema = z.object({
+  name: z.string().trim().min(1).max(120),
+  description: z.string().optional(),
+  targetSecurityLevel: z.number().int().min(MIN_SECURITY_LEVEL).max(MAX_SECURITY_LEVEL).default(MIN_SECURITY_LEVEL),
+  color: z
+    .string()
+    .regex(/^#[0-9a-fA-F]{6}$/)
+    .optional(),
+  nodeIds: z.array(z.string()).optional(),
+});
+
+const zoneInclude = {
+  nodes: { select: { id: true } },
+} as const;
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: { projectId: string } }
+) {
+  try {
+    const session = await requireAuth();
+    const userId = session.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'User not found' }, { status: 401 });
+    }
+
+    const access = await getProjectViewAccess(params.projectId, userId, session.user?.role);
+    if (!access.exists) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    if (!access.canView) {
+      return NextResponse.json({ error: 'Not authorized' }, { status: 403 });
+    }
+
+    const zones = await prisma.zone.findMany({
+      where: { projectId: params.projectId },
+      include: zoneInclude,
+      orderBy: { name: 'asc' },
+    });
+
+    return NextResponse.json(zones);
+  } catch (error) {
+    if ((error as Error).message === 'Unauthenticated') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    console.error('Get zones error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { projectId: string } }
+) {
+  try {
+    const session = await requireAuth();
+    const userId = session.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'User not found' }, { status: 401 });
+    }
+
+    const membership = await prisma.projectMembership.findUnique({
+      where: { projectId_userId: { projectId: params.projectId, userId } },
+    });
+
+    if (!isGlobalAdmin(session.user?.role) && (!membership || (membership.role !== 'Editor' && membership.role !== 'Admin'))) {
+      return NextResponse.json({ error: 'Not authorized (Editor required)' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const { nodeIds, ...data } = CreateZoneSchema.parse(body);
+
+    const duplicate = await prisma.zone.findUnique({
+      where: { projectId_name: { projectId: params.projectId, name: data.name } },
+    });
+    if (duplicate) {
+      return NextResponse.json({ error: 'A zone with this name already exists' }, { status: 409 });
+    }
+
+    const uniqueNodeIds = Array.from(new Set(nodeIds || []));
+    if (uniqueNodeIds.length > 0) {
+      const nodeCount = await prisma.modelNode.count({
+        where: { projectId: params.projectId, id: { in: uniqueNodeIds } },
+      });
+      if (nodeCount !== uniqueNodeIds.length) {
+        return NextResponse.json({ error: 'Invalid zone members' }, { status: 400 });
+      }
+    }
+
+    const zone = await prisma.$transaction(async (tx) => {
+      const created = await tx.zone.create({
+        data: {
+          projectId: params.projectId,
+          ...data,
+        },
+      });
+
+      if (uniqueNodeIds.length > 0) {
+        await tx.modelNode.updateMany({
+          where: { projectId: params.projectId, id: { in: uniqueNodeIds } },
+          data: { zoneId: created.id, updatedByUserId: userId },
+        });
+      }
+
+      return tx.zone.findUniqueOrThrow({
+        where: { id: created.id },
+        include: zoneInclude,
+      });
+    });
+
+    await recordAuditEvent({
+      projectId: params.projectId,
+      actorUserId: userId,
+      entityType: 'Zone',
+      entityId: zone.id,
+      action: 'Create',
+      after: { ...zone, nodeIds: zone.nodes.map((node) => node.id).sort() },
+    });
+    publishModelChange(params.projectId, {
+      entityType: 'Zone',
+      entityId: zone.id,
+      action: 'Create',
+      actorUserId: userId,
+      clientId: getRequestClientId(request),
+    });
+    return NextResponse.json(zone, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid input', details: error.errors }, { status: 400 });
+    }
+    if ((error as Error).message === 'Unauthenticated') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    console.error('Create zone error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
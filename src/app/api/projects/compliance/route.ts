@@ -0,0 +1,62 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requireAuth } from '@/lib/auth';
+import { canUserViewProject } from '@/lib/project-access';
+import { isGlobalAdmin } from '@/lib/user-role';
+import { supportsProjectDeletedAt } from '@/lib/project-trash';
+import {
+  getComplianceCoverages,
+  summarizeComplianceNorm,
+  summarizePortfolioCompliance,
+} from '@/lib/compliance-service';
+import type { PortfolioComplianceProject } from '@/lib/compliance-service';
+
+// GET /api/projects/compliance - Compliance rollup across the user's projects
+export async function GET() {
+  try {
+    const session = await requireAuth();
+    const userId = session.user?.id;
+    if (!userId) {
+      return NextResponse.json({ error: 'User not found' }, { status: 401 });
+    }
+
+    const currentUserRole = session.user?.role;
+    const activeFilter = supportsProjectDeletedAt() ? { deletedAt: null } : {};
+    const projects = await prisma.project.findMany({
+      where: isGlobalAdmin(currentUserRole)
+        ? activeFilter
+        : {
+            ...activeFilter,
+            OR: [{ minRoleToView: 'any' }, { members: { some: { userId } } }],
+          },
+      select: {
+        id: true,
+        name: true,
+        minRoleToView: true,
+        members: { where: { userId }, select: { role: true } },
+      },
+      orderBy: { name: 'asc' },
+    });
+    const visibleProjects = projects.filter((project) =>
+      canUserViewProject(project.minRoleToView, project.members[0]?.role, currentUserRole)
+    );
+
+    const coverages = await getComplianceCoverages(visibleProjects.map((project) => project.id));
+    const projectSummaries: PortfolioComplianceProject[] = visibleProjects.map((project) => ({
+      id: project.id,
+      name: project.name,
+      norms: (coverages.get(project.id)?.norms ?? []).map(summarizeComplianceNorm),
+    }));
+
+    return NextResponse.json({
+      norms: summarizePortfolioCompliance(projectSummaries),
+      projects: projectSummaries,
+    });
+  } catch (error) {
+    if ((error as Error).message === 'Unauthenticated') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    console.error('Get portfolio compliance error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -5,8 +5,10 @@ import { PROJECT_NORMS, normalizeSelectableProjectNorms, serializeProjectNorms }
 import { EVERYONE_GROUP_ID, isEveryoneGroupId } from '@/lib/system-groups';
 import { isGlobalAdmin } from '@/lib/user-role';
 import { purgeExpiredDeletedProjects, supportsProjectDeletedAt } from '@/lib/project-trash';
+import { evaluateFindingRisk, parseRiskMethod } from '@/lib/risk-method';
 import { NextRequest, NextResponse } from 'next/server';
 import * as z from 'zod';
+import { recordAuditEvents } from '@/lib/audit-service';
 
 const InviteRoleSchema = z
   .enum(['Admin', 'Editor', 'Viewer', 'User'])
@@ -122,17 +124,43 @@ export async function GET(_request: NextRequest) {
       return NextResponse.json(visibleProjects);
     }
 
-    const measureStatuses = await prisma.measure.findMany({
-      where: {
-        projectId: {
-          in: visibleProjects.map((project) => project.id),
+    const visibleProjectIds = visibleProjects.map((project) => project.id);
+    const [measureStatuses, findings, assetValues, dataObjects] = await Promise.all([
+      prisma.measure.findMany({
+        where: {
+          projectId: {
+            in: visibleProjectIds,
+          },
         },
-      },
-      select: {
-        projectId: true,
-        status: true,
-      },
-    });
+        select: {
+          projectId: true,
+          findingId: true,
+          status: true,
+          likelihoodReduction: true,
+          impactReduction: true,
+        },
+      }),
+      prisma.finding.findMany({
+        where: { projectId: { in: visibleProjectIds }, riskAcceptedAt: null },
+        select: {
+          id: true,
+          projectId: true,
+          assetType: true,
+          assetId: true,
+          severity: true,
+          likelihood: true,
+          impact: true,
+        },
+      }),
+      prisma.assetValue.findMany({
+        where: { projectId: { in: visibleProjectIds } },
+        select: { projectId: true, assetType: true, assetId: true, value: true },
+      }),
+      prisma.dataObject.findMany({
+        where: { projectId: { in: visibleProjectIds } },
+        select: { id: true, projectId: true, confidentiality: true, integrity: true, availability: true },
+      }),
+    ]);
 
     const progressByProjectId = new Map<string, { totalMeasures: number; completedMeasures: number }>();
     measureStatuses.forEach((measure) => {
@@ -147,6 +175,41 @@ export async function GET(_request: NextRequest) {
       progressByProjectId.set(measure.projectId, current);
     });
 
+    // Residual risks above the tolerance of each project's risk method that were not accepted
+    const assetValueByKey = new Map([
+      ...assetValues.map((entry) => [`${entry.projectId}:${entry.assetType}:${entry.assetId}`, entry.value] as const),
+      ...dataObjects.map(
+        (dataObject) =>
+          [
+            `${dataObject.projectId}:DataObject:${dataObject.id}`,
+            Math.max(dataObject.confidentiality, dataObject.integrity, dataObject.availability),
+          ] as const
+      ),
+    ]);
+    const riskMethodByProjectId = new Map(
+      visibleProjects.map((project) => [project.id, parseRiskMethod(project.riskMethod)])
+    );
+    const measuresByFindingId = new Map<string, typeof measureStatuses>();
+    measureStatuses.forEach((measure) => {
+      measuresByFindingId.set(measure.findingId, [...(measuresByFindingId.get(measure.findingId) || []), measure]);
+    });
+    const intolerableRisksByProjectId = new Map<string, number>();
+    findings.forEach((finding) => {
+      const riskMethod = riskMethodByProjectId.get(finding.projectId);
+      if (!riskMethod) {
+        return;
+      }
+      const evaluation = evaluateFindingRisk(
+        riskMethod,
+        finding,
+        assetValueByKey.get(`${finding.projectId}:${finding.assetType}:${finding.assetId}`),
+        measuresByFindingId.get(finding.id) || []
+      );
+      if (evaluation && !evaluation.residual.tolerable) {
+        intolerableRisksByProjectId.set(finding.projectId, (intolerableRisksByProjectId.get(finding.projectId) || 0) + 1);
+      }
+    });
+
     const projectsWithProgress = visibleProjects.map((project) => {
       const progress = progressByProjectId.get(project.id) || {
         totalMeasures: 0,
@@ -162,6 +225,7 @@ export async function GET(_request: NextRequest) {
         totalMeasures: progress.totalMeasures,
         completedMeasures: progress.completedMeasures,
         completionPercent,
+        intolerableRisks: intolerableRisksByProjectId.get(project.id) || 0,
       };
     });
 
@@ -386,6 +450,18 @@ export async function POST(req: NextRequest) {
       throw new Error('Failed to create project');
     }
 
+    await recordAuditEvents([
+      { projectId: project.id, actorUserId: userId, entityType: 'Project', entityId: project.id, action: 'Create', after: project },
+      ...project.members.map((member) => ({
+        projectId: project.id,
+        actorUserId: userId,
+        entityType: 'ProjectMember',
+        entityId: member.userId,
+        action: 'Create' as const,
+        after: { userId: member.userId, role: member.role },
+      })),
+    ]);
+
     return NextResponse.json(project, { status: 201 });
   } catch (error) {
     if (error instanceof z.ZodError) {
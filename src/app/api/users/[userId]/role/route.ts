@@ -3,6 +3,7 @@ import { requireAuth } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
 import { canManageUserRoles } from '@/lib/user-role';
 import * as z from 'zod';
+import { recordAuditEvent } from '@/lib/audit-service';
 
 const UpdateUserRoleSchema = z.object({
   role: z.enum(['User', 'Admin']),
@@ -67,6 +68,14 @@ export async function PATCH(
       },
     });
 
+    await recordAuditEvent({
+      actorUserId: currentUserId,
+      entityType: 'User',
+      entityId: updatedUser.id,
+      action: 'Update',
+      before: existingUser,
+      after: updatedUser,
+    });
     return NextResponse.json(updatedUser);
   } catch (error) {
     if (error instanceof z.ZodError) {
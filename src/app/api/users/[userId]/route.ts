@@ -3,6 +3,7 @@ import * as z from 'zod';
 import { hashPassword, requireAuth } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
 import { isGlobalAdmin, normalizeGlobalRole } from '@/lib/user-role';
+import { recordAuditEvent } from '@/lib/audit-service';
 
 const profileUpdateSchema = z.object({
   firstName: z.string().trim().min(2).max(80),
@@ -110,6 +111,10 @@ export async function PATCH(
 
     const hashedPassword = password ? await hashPassword(password) : undefined;
     const name = `${firstName} ${lastName}`.trim();
+    const previousUser = await prisma.user.findUnique({
+      where: { id: targetUserId },
+      select: { id: true, firstName: true, lastName: true, email: true, jobTitle: true, role: true },
+    });
 
     const updatedUser = await prisma.user.update({
       where: { id: targetUserId },
@@ -132,6 +137,14 @@ export async function PATCH(
       },
     });
 
+    await recordAuditEvent({
+      actorUserId: currentUserId,
+      entityType: 'User',
+      entityId: updatedUser.id,
+      action: 'Update',
+      before: previousUser,
+      after: { ...updatedUser, ...(hashedPassword && { password: hashedPassword }) },
+    });
     return NextResponse.json({
       ...updatedUser,
       role: normalizeGlobalRole(updatedUser.role),
@@ -172,6 +185,8 @@ export async function DELETE(
       where: { id: targetUserId },
       select: {
         id: true,
+        email: true,
+        name: true,
         role: true,
       },
     });
@@ -203,6 +218,13 @@ export async function DELETE(
       });
     });
 
+    await recordAuditEvent({
+      actorUserId: currentUserId,
+      entityType: 'User',
+      entityId: targetUser.id,
+      action: 'Delete',
+      before: targetUser,
+    });
     return NextResponse.json({ success: true, deletedUserId: targetUserId });
   } catch (error) {
     if ((error as Error).message === 'Unauthenticated') {
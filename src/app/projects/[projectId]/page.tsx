@@ -8,10 +8,17 @@ import Image from 'next/image';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import GraphEditor from '@/components/project/GraphEditor';
 import ProjectSettings from '@/components/project/ProjectSettings';
+import ProjectVariants from '@/components/project/ProjectVariants';
 import AssetValuation from '@/components/project/AssetValuation';
 import AssessmentQuestions from '@/components/project/AssessmentQuestions';
+import AnswerConflictInbox from '@/components/project/AnswerConflictInbox';
+import ThreatModel from '@/components/project/ThreatModel';
 import FindingsAndMeasures from '@/components/project/FindingsAndMeasures';
+import ComplianceCoverage from '@/components/project/ComplianceCoverage';
+import TraceabilityMatrix from '@/components/project/TraceabilityMatrix';
 import ReportPreview from '@/components/project/ReportPreview';
+import ReleaseBaselines from '@/components/project/ReleaseBaselines';
+import ProjectHistory from '@/components/project/ProjectHistory';
 import InviteNotificationsBell from '@/components/common/InviteNotificationsBell';
 
 interface Project {
@@ -20,6 +27,11 @@ interface Project {
   description?: string | null;
   norm: string;
   minRoleToView: string;
+  targetSecurityLevel?: number;
+  valuationMode?: string;
+  riskMethod?: string | null;
+  consensusRule?: string;
+  consensusMaxSpread?: number;
   canEdit?: boolean;
   canManageSettings?: boolean;
 }
@@ -46,7 +58,7 @@ export default function ProjectPage() {
       return;
     }
 
-    const allowedTabs = new Set(['settings', 'model', 'assets', 'questions', 'findings', 'report']);
+    const allowedTabs = new Set(['settings', 'model', 'assets', 'questions', 'threats', 'findings', 'compliance', 'traceability', 'report', 'history']);
     if (allowedTabs.has(queryTab)) {
       setActiveTab(queryTab);
     }
@@ -173,12 +185,24 @@ export default function ProjectPage() {
               <TabsTrigger value="questions" className="text-slate-300 border-b-2 border-transparent data-[state=active]:border-orange-400">
                 Assessment Questions
               </TabsTrigger>
+              <TabsTrigger value="threats" className="text-slate-300 border-b-2 border-transparent data-[state=active]:border-orange-400">
+                Threats
+              </TabsTrigger>
               <TabsTrigger value="findings" className="text-slate-300 border-b-2 border-transparent data-[state=active]:border-orange-400">
                 Findings & Measures
               </TabsTrigger>
+              <TabsTrigger value="compliance" className="text-slate-300 border-b-2 border-transparent data-[state=active]:border-orange-400">
+                Compliance
+              </TabsTrigger>
+              <TabsTrigger value="traceability" className="text-slate-300 border-b-2 border-transparent data-[state=active]:border-orange-400">
+                Traceability
+              </TabsTrigger>
               <TabsTrigger value="report" className="text-slate-300 border-b-2 border-transparent data-[state=active]:border-orange-400">
                 Report
               </TabsTrigger>
+              <TabsTrigger value="history" className="text-slate-300 border-b-2 border-transparent data-[state=active]:border-orange-400">
+                History
+              </TabsTrigger>
             </TabsList>
 
             <TabsContent value="settings" className="px-1 pb-4 pt-3 md:px-2">
@@ -189,10 +213,20 @@ export default function ProjectPage() {
                   description: project.description,
                   norm: project.norm,
                   minRoleToView: project.minRoleToView,
+                  targetSecurityLevel: project.targetSecurityLevel,
+                  valuationMode: project.valuationMode,
+                  riskMethod: project.riskMethod,
+                  consensusRule: project.consensusRule,
+                  consensusMaxSpread: project.consensusMaxSpread,
                 }}
                 canManageSettings={project.canManageSettings ?? false}
                 onProjectUpdated={handleProjectUpdated}
               />
+              <ProjectVariants
+                projectId={projectId}
+                canEdit={project.canEdit ?? false}
+                canManage={project.canManageSettings ?? false}
+              />
             </TabsContent>
 
             <TabsContent value="model" className="px-1 pb-4 pt-3 md:px-2">
@@ -210,6 +244,7 @@ export default function ProjectPage() {
             </TabsContent>
 
             <TabsContent value="questions" className="px-1 pb-4 pt-3 md:px-2">
+              {project.canManageSettings ? <AnswerConflictInbox projectId={projectId} /> : null}
               <AssessmentQuestions
                 projectId={projectId}
                 canEdit={project.canEdit ?? false}
@@ -218,13 +253,38 @@ export default function ProjectPage() {
               />
             </TabsContent>
 
+            <TabsContent value="threats" className="px-1 pb-4 pt-3 md:px-2">
+              <ThreatModel projectId={projectId} canEdit={project.canEdit ?? false} />
+            </TabsContent>
+
             <TabsContent value="findings" className="px-1 pb-4 pt-3 md:px-2">
-              <FindingsAndMeasures projectId={projectId} canEdit={project.canEdit ?? false} />
+              <FindingsAndMeasures
+                projectId={projectId}
+                canEdit={project.canEdit ?? false}
+                riskMethod={project.riskMethod}
+              />
+            </TabsContent>
+
+            <TabsContent value="compliance" className="px-1 pb-4 pt-3 md:px-2">
+              <ComplianceCoverage projectId={projectId} />
+            </TabsContent>
+
+            <TabsContent value="traceability" className="px-1 pb-4 pt-3 md:px-2">
+              <TraceabilityMatrix projectId={projectId} />
             </TabsContent>
 
             <TabsContent value="report" className="px-1 pb-4 pt-3 md:px-2">
+              <ReleaseBaselines
+                projectId={projectId}
+                canEdit={project.canEdit ?? false}
+                canManage={project.canManageSettings ?? false}
+              />
               <ReportPreview projectId={projectId} />
             </TabsContent>
+
+            <TabsContent value="history" className="px-1 pb-4 pt-3 md:px-2">
+              <ProjectHistory projectId={projectId} canExport={project.canManageSettings ?? false} />
+            </TabsContent>
           </Tabs>
         </div>
       </div>
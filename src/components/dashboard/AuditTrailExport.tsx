@@ -0,0 +1,52 @@
+'use client';
+
+import { useState } from 'react';
+
+export default function AuditTrailExport() {
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+
+  const exportHref = (format: 'csv' | 'json') =>
+    `/api/audit-events/export?${new URLSearchParams({
+      format,
+      ...(from && { from }),
+      ...(to && { to }),
+    }).toString()}`;
+
+  const inputClassName = 'rounded border border-slate-600 bg-slate-700 px-3 py-2 text-sm text-white';
+
+  return (
+    <div>
+      <div className="mb-5">
+        <h2 className="mb-2 text-3xl font-bold text-white">Audit Trail</h2>
+        <p className="text-slate-400">
+          Export every recorded change across all projects, including deleted projects and changes to users, groups
+          and norm catalogs.
+        </p>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-3">
+        <label className="flex flex-col gap-1 text-sm text-slate-300">
+          From
+          <input type="date" value={from} onChange={(event) => setFrom(event.target.value)} className={inputClassName} />
+        </label>
+        <label className="flex flex-col gap-1 text-sm text-slate-300">
+          To
+          <input type="date" value={to} onChange={(event) => setTo(event.target.value)} className={inputClassName} />
+        </label>
+        <a
+          href={exportHref('csv')}
+          className="rounded bg-orange-500 px-4 py-2 text-sm font-semibold text-white hover:bg-orange-600"
+        >
+          Export CSV
+        </a>
+        <a
+          href={exportHref('json')}
+          className="rounded border border-slate-500/60 bg-slate-700/40 px-4 py-2 text-sm font-semibold text-slate-200 hover:bg-slate-700/70"
+        >
+          Export JSON
+        </a>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,160 @@
+'use client';
+
+import { Fragment, useEffect, useState } from 'react';
+import Link from 'next/link';
+import type { PortfolioComplianceNorm, PortfolioComplianceProject } from '@/lib/compliance-service';
+
+// Same value as CUSTOM_COMPLIANCE_NORM in the compliance service
+const CUSTOM_NORM = 'Custom';
+
+const formatPercent = (value: number | null): string => (value === null ? '-' : `${value}%`);
+
+const formatFulfillment = (value: number | null): string => (value === null ? '-' : `${value.toFixed(1)} / 10`);
+
+const fulfillmentTextClass = (value: number | null): string => {
+  if (value === null) return 'text-slate-400';
+  if (value >= 7) return 'text-green-300';
+  if (value >= 4) return 'text-yellow-300';
+  return 'text-red-300';
+};
+
+const normLabel = (norm: string): string => (norm === CUSTOM_NORM ? 'Project-specific questions' : norm);
+
+/**
+ * Compliance per norm across all visible projects; a norm expands into its
+ * projects, which link to the project's compliance tab.
+ */
+export default function ComplianceRollup() {
+  const [norms, setNorms] = useState<PortfolioComplianceNorm[]>([]);
+  const [projects, setProjects] = useState<PortfolioComplianceProject[]>([]);
+  const [expandedNorm, setExpandedNorm] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const fetchRollup = async () => {
+      try {
+        const response = await fetch('/api/projects/compliance');
+        if (!response.ok) {
+          throw new Error('Compliance overview could not be loaded');
+        }
+        const payload = (await response.json()) as {
+          norms: PortfolioComplianceNorm[];
+          projects: PortfolioComplianceProject[];
+        };
+        setNorms(payload.norms);
+        setProjects(payload.projects);
+      } catch (loadError) {
+        setError((loadError as Error).message);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    void fetchRollup();
+  }, []);
+
+  return (
+    <div>
+      <div className="mb-5">
+        <h2 className="mb-2 text-3xl font-bold text-white">Compliance</h2>
+        <p className="text-slate-400">
+          Answered requirements, average fulfillment and open work per norm across your projects.
+        </p>
+      </div>
+
+      {error ? (
+        <div className="mb-4 rounded border border-red-600/30 bg-red-900/20 p-3 text-sm text-red-200">{error}</div>
+      ) : null}
+
+      {isLoading ? (
+        <p className="text-sm text-slate-400">Loading compliance overview...</p>
+      ) : norms.length === 0 ? (
+        <p className="text-sm text-slate-400">None of your projects has a norm selected yet.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full min-w-[760px] text-left text-sm">
+            <thead>
+              <tr className="border-b border-slate-700 text-xs uppercase text-slate-400">
+                <th className="py-2 pr-3 font-semibold">Norm</th>
+                <th className="py-2 pr-3 font-semibold">Projects</th>
+                <th className="py-2 pr-3 font-semibold">Requirements Answered</th>
+                <th className="py-2 pr-3 font-semibold">Questions Answered</th>
+                <th className="py-2 pr-3 font-semibold">Avg. Fulfillment</th>
+                <th className="py-2 pr-3 font-semibold">Open Findings</th>
+                <th className="py-2 font-semibold">Open Measures</th>
+              </tr>
+            </thead>
+            <tbody>
+              {norms.map((norm) => {
+                const isExpanded = expandedNorm === norm.norm;
+                return (
+                  <Fragment key={norm.norm}>
+                    <tr className="border-b border-slate-800 text-slate-200">
+                      <td className="py-2 pr-3">
+                        <button
+                          type="button"
+                          onClick={() => setExpandedNorm(isExpanded ? null : norm.norm)}
+                          className="text-left font-semibold text-white hover:text-orange-300"
+                        >
+                          <span className="mr-1 text-slate-500">{isExpanded ? '▾' : '▸'}</span>
+                          {normLabel(norm.norm)}
+                        </button>
+                      </td>
+                      <td className="py-2 pr-3">{norm.projectCount}</td>
+                      <td className="py-2 pr-3">
+                        {norm.answeredRequirements} / {norm.requirementCount}
+                      </td>
+                      <td className="py-2 pr-3">{formatPercent(norm.answeredPercent)}</td>
+                      <td className={`py-2 pr-3 font-semibold ${fulfillmentTextClass(norm.fulfillmentAverage)}`}>
+                        {formatFulfillment(norm.fulfillmentAverage)}
+                      </td>
+                      <td className={`py-2 pr-3 ${norm.openFindings > 0 ? 'text-orange-300' : 'text-slate-400'}`}>
+                        {norm.openFindings}
+                      </td>
+                      <td className={`py-2 ${norm.openMeasures > 0 ? 'text-orange-300' : 'text-slate-400'}`}>
+                        {norm.openMeasures}
+                      </td>
+                    </tr>
+                    {isExpanded
+                      ? projects.flatMap((project) =>
+                          project.norms
+                            .filter((entry) => entry.norm === norm.norm)
+                            .map((entry) => (
+                              <tr
+                                key={`${norm.norm}-${project.id}`}
+                                className="border-b border-slate-800/60 bg-slate-900/30 text-xs text-slate-300"
+                              >
+                                <td className="py-1.5 pl-6 pr-3">
+                                  <Link
+                                    href={`/projects/${project.id}?tab=compliance`}
+                                    className="text-cyan-300 hover:text-cyan-200"
+                                  >
+                                    {project.name}
+                                  </Link>
+                                </td>
+                                <td className="py-1.5 pr-3 text-slate-500">
+                                  {entry.catalog ? `v${entry.catalog.version}` : '-'}
+                                </td>
+                                <td className="py-1.5 pr-3">
+                                  {entry.answeredRequirements} / {entry.requirementCount}
+                                </td>
+                                <td className="py-1.5 pr-3">{formatPercent(entry.answeredPercent)}</td>
+                                <td className={`py-1.5 pr-3 font-semibold ${fulfillmentTextClass(entry.fulfillmentAverage)}`}>
+                                  {formatFulfillment(entry.fulfillmentAverage)}
+                                </td>
+                                <td className="py-1.5 pr-3">{entry.openFindings}</td>
+                                <td className="py-1.5">{entry.openMeasures}</td>
+                              </tr>
+                            ))
+                        )
+                      : null}
+                  </Fragment>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
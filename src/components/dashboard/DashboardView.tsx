@@ -9,6 +9,9 @@ import { signOut } from 'next-auth/react';
 import Image from 'next/image';
 import Button from '@/components/common/Button';
 import InviteNotificationsBell from '@/components/common/InviteNotificationsBell';
+import NormCatalogLibrary from '@/components/dashboard/NormCatalogLibrary';
+import AuditTrailExport from '@/components/dashboard/AuditTrailExport';
+import ComplianceRollup from '@/components/dashboard/ComplianceRollup';
 import {
   Dialog,
   DialogContent,
@@ -32,6 +35,7 @@ interface Project {
   completionPercent?: number;
   totalMeasures?: number;
   completedMeasures?: number;
+  intolerableRisks?: number;
 }
 
 interface TrashedProject {
@@ -315,6 +319,8 @@ export default function DashboardView({ settingsOnly = false }: DashboardViewPro
 
     if (settingsOnly && isGlobalAdminUser) {
       sectionItems.push({ id: 'groups', label: 'Groups' });
+      sectionItems.push({ id: 'norm-catalogs', label: 'Norm Catalogs' });
+      sectionItems.push({ id: 'audit-trail', label: 'Audit Trail' });
     }
 
     if (settingsOnly) {
@@ -1958,6 +1964,11 @@ export default function DashboardView({ settingsOnly = false }: DashboardViewPro
                   </div>
                   <p className="mt-1 text-[11px] text-slate-500">
                     {project.completedMeasures ?? 0}/{project.totalMeasures ?? 0} measures done
+                    {(project.intolerableRisks ?? 0) > 0 ? (
+                      <span className="ml-2 font-semibold text-red-300">
+                        {project.intolerableRisks} residual risk(s) above tolerance
+                      </span>
+                    ) : null}
                   </p>
                 </div>
                 <div className="flex justify-between items-center text-xs text-slate-500">
@@ -1997,6 +2008,12 @@ export default function DashboardView({ settingsOnly = false }: DashboardViewPro
             </section>
             )}
 
+            {!settingsOnly && !isLoading && hasProjects && (
+              <section id="compliance" className="scroll-mt-32 rounded-lg border border-slate-700 bg-slate-800/45 p-6">
+                <ComplianceRollup />
+              </section>
+            )}
+
             {settingsOnly && (
               <section id="profile" className="scroll-mt-32 rounded-lg border border-slate-700 bg-slate-800/45 p-6">
               <div className="mb-5">
@@ -2399,6 +2416,18 @@ export default function DashboardView({ settingsOnly = false }: DashboardViewPro
               </section>
             )}
 
+            {settingsOnly && isGlobalAdminUser && (
+              <section id="norm-catalogs" className="scroll-mt-32 rounded-lg border border-slate-700 bg-slate-800/45 p-6">
+                <NormCatalogLibrary />
+              </section>
+            )}
+
+            {settingsOnly && isGlobalAdminUser && (
+              <section id="audit-trail" className="scroll-mt-32 rounded-lg border border-slate-700 bg-slate-800/45 p-6">
+                <AuditTrailExport />
+              </section>
+            )}
+
             {settingsOnly && !isLoading && (
               <section id="recycle-bin" className="scroll-mt-32 rounded-lg border border-slate-700 bg-slate-800/45 p-6">
                 <div className="mb-4">
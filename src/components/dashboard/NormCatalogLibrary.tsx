@@ -0,0 +1,255 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { ChangeEvent } from 'react';
+import Button from '@/components/common/Button';
+import { PROJECT_NORMS } from '@/lib/project-norm';
+
+interface NormCatalogEntry {
+  id: string;
+  norm: string;
+  title: string;
+  version: string;
+  projectNorm: string | null;
+  sourceType: string;
+  sourcePath: string | null;
+  createdAt: string;
+  _count?: { controls: number };
+}
+
+const LIBRARY_NORMS = PROJECT_NORMS.filter((norm) => norm !== 'None');
+
+export default function NormCatalogLibrary() {
+  const [catalogs, setCatalogs] = useState<NormCatalogEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [uploadProjectNorm, setUploadProjectNorm] = useState<string>(LIBRARY_NORMS[0]);
+  const [isUploading, setIsUploading] = useState(false);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [updatingCatalogId, setUpdatingCatalogId] = useState<string | null>(null);
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+
+  const fetchCatalogs = async () => {
+    try {
+      setIsLoading(true);
+      setError('');
+      const response = await fetch('/api/norm-catalogs');
+      if (!response.ok) {
+        throw new Error('Norm catalogs could not be loaded');
+      }
+      setCatalogs((await response.json()) as NormCatalogEntry[]);
+    } catch (fetchError) {
+      setError((fetchError as Error).message);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    void fetchCatalogs();
+  }, []);
+
+  const handleUpload = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) {
+      return;
+    }
+
+    try {
+      setIsUploading(true);
+      setError('');
+      setMessage('');
+      let document: unknown;
+      try {
+        document = JSON.parse(await file.text());
+      } catch {
+        throw new Error('The selected file is not valid JSON');
+      }
+
+      const response = await fetch('/api/norm-catalogs', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ document, projectNorm: uploadProjectNorm }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details ? `${data.error}: ${data.details}` : data.error || 'Catalog could not be imported');
+      }
+      setMessage(`Imported ${data.norm} v${data.version} (${data.controlCount} controls) for ${uploadProjectNorm}`);
+      await fetchCatalogs();
+    } catch (uploadError) {
+      setError((uploadError as Error).message);
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleSyncDirectory = async () => {
+    try {
+      setIsSyncing(true);
+      setError('');
+      setMessage('');
+      const response = await fetch('/api/norm-catalogs/sync', { method: 'POST' });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || 'Catalog directory could not be synced');
+      }
+      const imported = (data.imported || []) as Array<{ norm: string; version: string }>;
+      setMessage(
+        imported.length > 0
+          ? `Imported ${imported.map((catalog) => `${catalog.norm} v${catalog.version}`).join(', ')}`
+          : 'No new catalog files found'
+      );
+      await fetchCatalogs();
+    } catch (syncError) {
+      setError((syncError as Error).message);
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
+  const handleAssign = async (catalogId: string, projectNorm: string) => {
+    try {
+      setUpdatingCatalogId(catalogId);
+      setError('');
+      const response = await fetch(`/api/norm-catalogs/${catalogId}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ projectNorm: projectNorm || null }),
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Catalog could not be updated');
+      }
+      await fetchCatalogs();
+    } catch (updateError) {
+      setError((updateError as Error).message);
+    } finally {
+      setUpdatingCatalogId(null);
+    }
+  };
+
+  const handleDelete = async (catalog: NormCatalogEntry) => {
+    if (!window.confirm(`Delete ${catalog.norm} v${catalog.version}? Questions pulled from it stay in their projects.`)) {
+      return;
+    }
+
+    try {
+      setUpdatingCatalogId(catalog.id);
+      setError('');
+      const response = await fetch(`/api/norm-catalogs/${catalog.id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Catalog could not be deleted');
+      }
+      await fetchCatalogs();
+    } catch (deleteError) {
+      setError((deleteError as Error).message);
+    } finally {
+      setUpdatingCatalogId(null);
+    }
+  };
+
+  return (
+    <div>
+      <div className="mb-5">
+        <h2 className="mb-2 text-3xl font-bold text-white">Norm Catalog Library</h2>
+        <p className="text-slate-400">
+          Projects pull their questions from the newest catalog version assigned to each norm. Catalog files placed in
+          standards/catalogs are imported with the directory sync.
+        </p>
+      </div>
+
+      {error ? (
+        <div className="mb-4 rounded border border-red-600/30 bg-red-900/20 p-3 text-sm text-red-200">{error}</div>
+      ) : null}
+      {message ? (
+        <div className="mb-4 rounded border border-emerald-600/30 bg-emerald-900/20 p-3 text-sm text-emerald-200">
+          {message}
+        </div>
+      ) : null}
+
+      <div className="mb-6 flex flex-wrap items-center gap-3">
+        <select
+          value={uploadProjectNorm}
+          onChange={(event) => setUploadProjectNorm(event.target.value)}
+          disabled={isUploading}
+          className="rounded-lg border border-slate-600 bg-slate-700 px-3 py-2 text-sm text-white focus:border-orange-400 focus:outline-none"
+        >
+          {LIBRARY_NORMS.map((norm) => (
+            <option key={norm} value={norm}>
+              {norm}
+            </option>
+          ))}
+        </select>
+        <label className="cursor-pointer">
+          <input type="file" accept=".json,application/json" className="hidden" onChange={(event) => void handleUpload(event)} />
+          <span className="inline-flex h-10 items-center rounded-md bg-primary px-4 text-white hover:bg-primary/90">
+            {isUploading ? 'Importing...' : 'Import OSCAL Catalog'}
+          </span>
+        </label>
+        <Button variant="secondary" onClick={() => void handleSyncDirectory()} disabled={isSyncing}>
+          {isSyncing ? 'Syncing...' : 'Sync Catalog Directory'}
+        </Button>
+      </div>
+
+      {isLoading && catalogs.length === 0 ? (
+        <p className="text-sm text-slate-400">Loading catalogs...</p>
+      ) : catalogs.length === 0 ? (
+        <p className="text-sm text-slate-400">No norm catalogs imported yet.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-sm">
+            <thead>
+              <tr className="border-b border-slate-700 text-slate-400">
+                <th className="px-4 py-3 font-semibold">Catalog</th>
+                <th className="px-4 py-3 font-semibold">Version</th>
+                <th className="px-4 py-3 font-semibold">Controls</th>
+                <th className="px-4 py-3 font-semibold">Library Norm</th>
+                <th className="px-4 py-3 font-semibold">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {catalogs.map((catalog) => (
+                <tr key={catalog.id} className="border-b border-slate-800 text-slate-200">
+                  <td className="px-4 py-3">
+                    <span className="font-semibold">{catalog.norm}</span>
+                    <span className="block text-xs text-slate-500">{catalog.sourcePath || catalog.title}</span>
+                  </td>
+                  <td className="px-4 py-3">{catalog.version}</td>
+                  <td className="px-4 py-3">{catalog._count?.controls ?? 0}</td>
+                  <td className="px-4 py-3">
+                    <select
+                      value={catalog.projectNorm || ''}
+                      onChange={(event) => void handleAssign(catalog.id, event.target.value)}
+                      disabled={updatingCatalogId === catalog.id}
+                      className="rounded border border-slate-600 bg-slate-700 px-2 py-1 text-sm text-white focus:border-orange-400 focus:outline-none"
+                    >
+                      <option value="">Not in library</option>
+                      {LIBRARY_NORMS.map((norm) => (
+                        <option key={norm} value={norm}>
+                          {norm}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="px-4 py-3">
+                    <Button
+                      size="sm"
+                      variant="danger"
+                      onClick={() => void handleDelete(catalog)}
+                      disabled={updatingCatalogId === catalog.id}
+                    >
+                      Delete
+                    </Button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,204 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+interface ConflictVote {
+  answerId: string;
+  userId: string;
+  userName: string;
+  answerValue: string | null;
+  comment: string | null;
+  updatedAt: string;
+}
+
+interface AnswerConflict {
+  id: string;
+  questionId: string;
+  targetType: string;
+  targetId: string;
+  answerValue: string;
+  answerCount: number;
+  targetName: string;
+  question: { id: string; text: string; normReference: string } | null;
+  votes: ConflictVote[];
+}
+
+interface ResolutionDraft {
+  answerValue: string;
+  notes: string;
+}
+
+const ANSWER_VALUE_OPTIONS = ['N/A', ...Array.from({ length: 11 }, (_, index) => String(index))];
+
+export default function AnswerConflictInbox({ projectId }: { projectId: string }) {
+  const [conflicts, setConflicts] = useState<AnswerConflict[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, ResolutionDraft>>({});
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+  const [isRecomputing, setIsRecomputing] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+
+  const fetchConflicts = async () => {
+    try {
+      setIsLoading(true);
+      setError('');
+      const response = await fetch(`/api/projects/${projectId}/final-answers/conflicts`);
+      if (!response.ok) {
+        throw new Error('Answer conflicts could not be loaded');
+      }
+      const payload = (await response.json()) as AnswerConflict[];
+      setConflicts(payload);
+      setDrafts(
+        Object.fromEntries(payload.map((conflict) => [conflict.id, { answerValue: conflict.answerValue, notes: '' }]))
+      );
+    } catch (loadError) {
+      setError((loadError as Error).message);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    void fetchConflicts();
+  }, [projectId]);
+
+  const updateDraft = (conflictId: string, updates: Partial<ResolutionDraft>) => {
+    setDrafts((previous) => ({
+      ...previous,
+      [conflictId]: { ...(previous[conflictId] || { answerValue: 'N/A', notes: '' }), ...updates },
+    }));
+  };
+
+  const handleResolve = async (conflict: AnswerConflict) => {
+    const draft = drafts[conflict.id];
+    if (!draft) return;
+    try {
+      setResolvingId(conflict.id);
+      setError('');
+      setMessage('');
+      const response = await fetch(`/api/projects/${projectId}/final-answers/${conflict.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          answerValue: draft.answerValue,
+          status: 'Approved',
+          notes: draft.notes.trim() || undefined,
+        }),
+      });
+      const payload = (await response.json().catch(() => ({}))) as { error?: string };
+      if (!response.ok) throw new Error(payload.error || 'Failed to resolve conflict');
+      setConflicts((previous) => previous.filter((entry) => entry.id !== conflict.id));
+      setMessage('Conflict resolved.');
+    } catch (resolveError) {
+      setError((resolveError as Error).message);
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
+  const handleRecompute = async () => {
+    try {
+      setIsRecomputing(true);
+      setError('');
+      setMessage('');
+      const response = await fetch(`/api/projects/${projectId}/final-answers/recompute`, { method: 'POST' });
+      const payload = (await response.json().catch(() => ({}))) as { error?: string; updated?: number };
+      if (!response.ok) throw new Error(payload.error || 'Failed to recompute final answers');
+      setMessage(`${payload.updated ?? 0} final answer(s) updated.`);
+      await fetchConflicts();
+    } catch (recomputeError) {
+      setError((recomputeError as Error).message);
+    } finally {
+      setIsRecomputing(false);
+    }
+  };
+
+  return (
+    <div className="mb-4 space-y-3 rounded-lg border border-slate-700 bg-slate-800/50 p-4">
+      <div className="flex flex-wrap items-start justify-between gap-2">
+        <div>
+          <h3 className="text-lg font-semibold text-white">Answer Conflicts ({conflicts.length})</h3>
+          <p className="text-xs text-slate-400">
+            Contradictory answers that the consensus rule could not aggregate. Resolving sets the final answer until
+            the answers of that target change again.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={() => void handleRecompute()}
+          disabled={isRecomputing}
+          className="rounded border border-slate-500/60 bg-slate-700/40 px-3 py-1 text-xs font-semibold text-slate-200 hover:bg-slate-700/70 disabled:opacity-60"
+        >
+          {isRecomputing ? 'Recomputing...' : 'Recompute Consensus'}
+        </button>
+      </div>
+
+      {error ? (
+        <div className="rounded border border-red-600/40 bg-red-900/20 p-2 text-xs text-red-200">{error}</div>
+      ) : null}
+      {message ? (
+        <div className="rounded border border-emerald-600/40 bg-emerald-900/20 p-2 text-xs text-emerald-200">
+          {message}
+        </div>
+      ) : null}
+
+      {isLoading ? (
+        <p className="text-xs text-slate-400">Loading conflicts...</p>
+      ) : conflicts.length === 0 ? (
+        <p className="text-xs text-slate-400">No open answer conflicts.</p>
+      ) : (
+        <ul className="max-h-96 space-y-2 overflow-y-auto pr-1">
+          {conflicts.map((conflict) => {
+            const draft = drafts[conflict.id] || { answerValue: conflict.answerValue, notes: '' };
+            return (
+              <li key={conflict.id} className="rounded border border-amber-500/40 bg-amber-900/10 p-3 text-xs">
+                <p className="font-semibold text-slate-100">{conflict.question?.text || 'Unknown question'}</p>
+                <p className="mt-0.5 text-slate-400">
+                  {conflict.question?.normReference || '-'} · {conflict.targetType}: {conflict.targetName} ·{' '}
+                  {conflict.votes.length} answer(s)
+                </p>
+                <ul className="mt-2 space-y-0.5 text-slate-300">
+                  {conflict.votes.map((vote) => (
+                    <li key={vote.answerId}>
+                      <span className="font-semibold text-slate-100">{vote.answerValue || '-'}</span> by {vote.userName}
+                      {vote.comment ? <span className="text-slate-400"> · {vote.comment}</span> : null}
+                    </li>
+                  ))}
+                </ul>
+                <div className="mt-2 flex flex-wrap items-center gap-2">
+                  <select
+                    value={draft.answerValue}
+                    onChange={(event) => updateDraft(conflict.id, { answerValue: event.target.value })}
+                    className="rounded border border-slate-600 bg-slate-700 px-2 py-1 text-xs text-white"
+                  >
+                    {ANSWER_VALUE_OPTIONS.map((value) => (
+                      <option key={value} value={value}>
+                        {value}
+                      </option>
+                    ))}
+                  </select>
+                  <input
+                    type="text"
+                    value={draft.notes}
+                    onChange={(event) => updateDraft(conflict.id, { notes: event.target.value })}
+                    placeholder="Resolution note"
+                    className="min-w-[12rem] flex-1 rounded border border-slate-600 bg-slate-700 px-2 py-1 text-xs text-white"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => void handleResolve(conflict)}
+                    disabled={resolvingId === conflict.id}
+                    className="rounded bg-orange-500 px-3 py-1 text-xs font-semibold text-white hover:bg-orange-600 disabled:opacity-60"
+                  >
+                    {resolvingId === conflict.id ? 'Saving...' : 'Resolve'}
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -4,12 +4,16 @@ import { useEffect, useMemo, useRef, useState } from 'react';
 import type { FormEvent } from 'react';
 import { useSession } from 'next-auth/react';
 import Button from '@/components/common/Button';
+import NormCatalogSync from '@/components/project/NormCatalogSync';
+import EvidenceAttachments from '@/components/project/EvidenceAttachments';
+import type { EvidenceItem } from '@/components/project/EvidenceAttachments';
 
 interface Answer {
   id: string;
   answerValue: string;
   targetType?: string | null;
   targetId?: string | null;
+  isInherited?: boolean;
   user?: {
     id?: string;
     name?: string | null;
@@ -39,6 +43,7 @@ interface Question {
   normReference: string;
   targetType: string;
   answerType: string;
+  applicability?: string | null;
   answers?: Answer[];
 }
 
@@ -60,7 +65,69 @@ interface DataObjectOption {
   name: string;
 }
 
-type QuestionTargetType = 'Component' | 'Edge' | 'DataObject' | 'None';
+interface ZoneOption {
+  id: string;
+  name: string;
+}
+
+interface NormCatalogSummary {
+  id: string;
+  norm: string;
+  title: string;
+  version: string;
+  sourceType: string;
+  _count?: { controls: number };
+}
+
+interface NormCatalogControl {
+  oscalId: string;
+  controlId: string;
+  title: string;
+  groupTitle: string | null;
+  targetType: string;
+}
+
+interface ApplicableTarget {
+  targetType: string;
+  targetId: string;
+  name: string;
+  answered: boolean;
+}
+
+interface QuestionApplicability {
+  questionId: string;
+  rule: string;
+  error: string | null;
+  targets: ApplicableTarget[];
+  applicableCount: number;
+  answeredCount: number;
+}
+
+interface ApplicabilityReport {
+  questions: QuestionApplicability[];
+  coverage: { applicable: number; answered: number; unanswered: number };
+}
+
+const APPLICABILITY_RULE_EXAMPLES: Record<string, string> = {
+  Component: 'e.g. stores = "Credentials" and zone = "Control Zone"',
+  Edge: 'e.g. protocol != "HTTPS"',
+  DataObject: 'e.g. confidentiality >= 8',
+  Zone: 'e.g. sl >= 3',
+  Conduit: 'e.g. zones = "DMZ"',
+};
+
+type QuestionTargetType = 'Component' | 'Edge' | 'DataObject' | 'Zone' | 'Conduit' | 'None';
+type SelectableTargetType = 'Component' | 'DataObject' | 'Zone' | 'Conduit';
+
+const TARGET_TYPE_LABEL: Record<SelectableTargetType, string> = {
+  Component: 'component',
+  DataObject: 'data object',
+  Zone: 'zone',
+  Conduit: 'conduit',
+};
+
+const isSelectableTargetType = (targetType: string): targetType is SelectableTargetType =>
+  targetType === 'Component' || targetType === 'DataObject' || targetType === 'Zone' || targetType === 'Conduit';
 const FULFILLMENT_VALUES = ['0', '1', '2', '3', '4', '5', '6', '7', '8', '9', '10'] as const;
 type FulfillmentNumericValue = (typeof FULFILLMENT_VALUES)[number];
 type FulfillmentAnswerValue = FulfillmentNumericValue | 'N/A';
@@ -144,12 +211,13 @@ const formatAnswerValue = (value: string): string => {
 const formatAnswerAuthor = (answer: Answer): string => {
   const authorName = answer.user?.name?.trim();
   const authorEmail = answer.user?.email?.trim();
+  const author =
+    authorName && authorEmail && authorName.toLowerCase() !== authorEmail.toLowerCase()
+      ? `${authorName} (${authorEmail})`
+      : authorName || authorEmail || 'Unknown user';
 
-  if (authorName && authorEmail && authorName.toLowerCase() !== authorEmail.toLowerCase()) {
-    return `${authorName} (${authorEmail})`;
-  }
-
-  return authorName || authorEmail || 'Unknown user';
+  // Answers taken over from the parent project keep the parent author
+  return answer.isInherited ? `${author} · inherited from parent` : author;
 };
 
 const formatCommentAuthor = (comment: AnswerComment): string => {
@@ -196,11 +264,24 @@ export default function AssessmentQuestions({
   const [highlightedCommentId, setHighlightedCommentId] = useState<string | null>(null);
   const [components, setComponents] = useState<ComponentOption[]>([]);
   const [dataObjects, setDataObjects] = useState<DataObjectOption[]>([]);
+  const [zones, setZones] = useState<ZoneOption[]>([]);
+  const [conduits, setConduits] = useState<ZoneOption[]>([]);
+  const [evidence, setEvidence] = useState<EvidenceItem[]>([]);
   const [newQuestion, setNewQuestion] = useState({
     text: '',
     normReference: '',
     targetType: 'None' as QuestionTargetType,
+    applicability: '',
   });
+  const [applicability, setApplicability] = useState<ApplicabilityReport | null>(null);
+  const [showCatalogPanel, setShowCatalogPanel] = useState(false);
+  const [normCatalogs, setNormCatalogs] = useState<NormCatalogSummary[]>([]);
+  const [selectedCatalogId, setSelectedCatalogId] = useState('');
+  const [catalogControls, setCatalogControls] = useState<NormCatalogControl[]>([]);
+  const [selectedControlIds, setSelectedControlIds] = useState<Set<string>>(new Set());
+  const [isCatalogLoading, setIsCatalogLoading] = useState(false);
+  const [isGeneratingFromCatalog, setIsGeneratingFromCatalog] = useState(false);
+  const [catalogMessage, setCatalogMessage] = useState('');
 
   const componentNameById = useMemo(
     () => new Map(components.map((component) => [component.id, component.name])),
@@ -210,6 +291,38 @@ export default function AssessmentQuestions({
     () => new Map(dataObjects.map((dataObject) => [dataObject.id, dataObject.name])),
     [dataObjects]
   );
+  const zoneNameById = useMemo(
+    () => new Map([...zones, ...conduits].map((zone) => [zone.id, zone.name])),
+    [zones, conduits]
+  );
+  const targetOptionsByType: Record<SelectableTargetType, Array<{ id: string; name: string }>> = {
+    Component: components,
+    DataObject: dataObjects,
+    Zone: zones,
+    Conduit: conduits,
+  };
+  const applicabilityByQuestionId = useMemo(
+    () => new Map((applicability?.questions || []).map((entry) => [entry.questionId, entry])),
+    [applicability]
+  );
+  const applicableTargetNameById = useMemo(
+    () =>
+      new Map(
+        (applicability?.questions || []).flatMap((entry) =>
+          entry.targets.map((target) => [target.targetId, target.name] as const)
+        )
+      ),
+    [applicability]
+  );
+  const evidenceByAnswerId = useMemo(() => {
+    const map = new Map<string, EvidenceItem[]>();
+    evidence.forEach((item) => {
+      if (item.answerId) {
+        map.set(item.answerId, [...(map.get(item.answerId) || []), item]);
+      }
+    });
+    return map;
+  }, [evidence]);
   const currentUserId = session?.user?.id ?? null;
   const hasAppliedAnswerFocusRef = useRef(false);
   const hasAppliedCommentFocusRef = useRef(false);
@@ -224,6 +337,7 @@ export default function AssessmentQuestions({
       }
       const data = (await response.json()) as Question[];
       setQuestions(data);
+      void fetchApplicability();
       return data;
     } catch (fetchError) {
       setError((fetchError as Error).message);
@@ -233,11 +347,35 @@ export default function AssessmentQuestions({
     }
   };
 
+  const fetchApplicability = async () => {
+    try {
+      const response = await fetch(`/api/projects/${projectId}/questions/applicability`);
+      if (response.ok) {
+        setApplicability((await response.json()) as ApplicabilityReport);
+      }
+    } catch {
+      setApplicability(null);
+    }
+  };
+
+  const fetchEvidence = async () => {
+    try {
+      const response = await fetch(`/api/projects/${projectId}/evidence`);
+      if (response.ok) {
+        setEvidence((await response.json()) as EvidenceItem[]);
+      }
+    } catch {
+      setEvidence([]);
+    }
+  };
+
   const fetchQuestionTargets = async () => {
     try {
-      const [nodesResponse, dataObjectsResponse] = await Promise.all([
+      const [nodesResponse, dataObjectsResponse, zonesResponse, conduitsResponse] = await Promise.all([
         fetch(`/api/projects/${projectId}/nodes`),
         fetch(`/api/projects/${projectId}/data-objects`),
+        fetch(`/api/projects/${projectId}/zones`),
+        fetch(`/api/projects/${projectId}/conduits`),
       ]);
 
       if (nodesResponse.ok) {
@@ -253,6 +391,14 @@ export default function AssessmentQuestions({
         const objects = (await dataObjectsResponse.json()) as DataObjectOption[];
         setDataObjects(objects.sort((a, b) => a.name.localeCompare(b.name)));
       }
+
+      if (zonesResponse.ok) {
+        setZones((await zonesResponse.json()) as ZoneOption[]);
+      }
+
+      if (conduitsResponse.ok) {
+        setConduits((await conduitsResponse.json()) as ZoneOption[]);
+      }
     } catch {
       setError('Targets for questions could not be loaded');
     }
@@ -286,14 +432,17 @@ export default function AssessmentQuestions({
       return dataObjectNameById.get(answer.targetId) || answer.targetId;
     }
     if (answer.targetType === 'Edge') {
-      return `Interface ${answer.targetId}`;
+      return applicableTargetNameById.get(answer.targetId) || `Interface ${answer.targetId}`;
+    }
+    if (answer.targetType === 'Zone' || answer.targetType === 'Conduit') {
+      return zoneNameById.get(answer.targetId) || answer.targetId;
     }
 
     return answer.targetId;
   };
 
   useEffect(() => {
-    void Promise.all([fetchQuestions(), fetchQuestionTargets()]).catch(() => undefined);
+    void Promise.all([fetchQuestions(), fetchQuestionTargets(), fetchEvidence()]).catch(() => undefined);
   }, [projectId]);
 
   useEffect(() => {
@@ -355,6 +504,8 @@ export default function AssessmentQuestions({
         selected?.targetType === 'Component' ||
         selected?.targetType === 'Edge' ||
         selected?.targetType === 'DataObject' ||
+        selected?.targetType === 'Zone' ||
+        selected?.targetType === 'Conduit' ||
         selected?.targetType === 'None'
           ? selected.targetType
           : 'None';
@@ -413,15 +564,23 @@ export default function AssessmentQuestions({
           normReference: newQuestion.normReference.trim() || undefined,
           targetType: newQuestion.targetType,
           answerType: 'YesNo',
+          applicability:
+            newQuestion.targetType !== 'None' && newQuestion.applicability.trim()
+              ? newQuestion.applicability.trim()
+              : undefined,
         }),
       });
 
       if (!response.ok) {
         const payload = await response.json().catch(() => ({}));
-        throw new Error(payload.error || 'Question could not be created');
+        throw new Error(
+          payload.details && typeof payload.details === 'string'
+            ? `${payload.error}: ${payload.details}`
+            : payload.error || 'Question could not be created'
+        );
       }
 
-      setNewQuestion({ text: '', normReference: '', targetType: 'None' });
+      setNewQuestion({ text: '', normReference: '', targetType: 'None', applicability: '' });
       setShowCreateQuestionForm(false);
       await fetchQuestions();
     } catch (createError) {
@@ -431,6 +590,99 @@ export default function AssessmentQuestions({
     }
   };
 
+  const fetchNormCatalogs = async () => {
+    try {
+      setIsCatalogLoading(true);
+      const response = await fetch('/api/norm-catalogs');
+      if (!response.ok) {
+        throw new Error('Norm catalogs could not be loaded');
+      }
+      const data = (await response.json()) as NormCatalogSummary[];
+      setNormCatalogs(data);
+      if (data.length > 0 && !data.some((catalog) => catalog.id === selectedCatalogId)) {
+        await handleSelectCatalog(data[0].id);
+      }
+    } catch (fetchError) {
+      setError((fetchError as Error).message);
+    } finally {
+      setIsCatalogLoading(false);
+    }
+  };
+
+  const handleSelectCatalog = async (catalogId: string) => {
+    setSelectedCatalogId(catalogId);
+    setCatalogControls([]);
+    setSelectedControlIds(new Set());
+    setCatalogMessage('');
+    if (!catalogId) {
+      return;
+    }
+
+    try {
+      setIsCatalogLoading(true);
+      const response = await fetch(`/api/norm-catalogs/${catalogId}`);
+      if (!response.ok) {
+        throw new Error('Norm catalog could not be loaded');
+      }
+      const data = (await response.json()) as { controls: NormCatalogControl[] };
+      setCatalogControls(data.controls);
+      setSelectedControlIds(new Set(data.controls.map((control) => control.oscalId)));
+    } catch (fetchError) {
+      setError((fetchError as Error).message);
+    } finally {
+      setIsCatalogLoading(false);
+    }
+  };
+
+  const toggleCatalogControl = (oscalId: string) => {
+    setSelectedControlIds((previous) => {
+      const next = new Set(previous);
+      if (next.has(oscalId)) {
+        next.delete(oscalId);
+      } else {
+        next.add(oscalId);
+      }
+      return next;
+    });
+  };
+
+  const handleGenerateFromCatalog = async () => {
+    if (!canEdit || !selectedCatalogId || selectedControlIds.size === 0) {
+      return;
+    }
+
+    try {
+      setError('');
+      setCatalogMessage('');
+      setIsGeneratingFromCatalog(true);
+      const response = await fetch(`/api/projects/${projectId}/questions/from-catalog`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          catalogId: selectedCatalogId,
+          controlIds: Array.from(selectedControlIds),
+        }),
+      });
+      const payload = (await response.json().catch(() => ({}))) as {
+        error?: string;
+        created?: number;
+        skipped?: number;
+      };
+      if (!response.ok) {
+        throw new Error(payload.error || 'Questions could not be generated');
+      }
+
+      setCatalogMessage(
+        `${payload.created ?? 0} question(s) created, ${payload.skipped ?? 0} already present.`
+      );
+      await fetchQuestions();
+    } catch (generateError) {
+      setError((generateError as Error).message);
+    } finally {
+      setIsGeneratingFromCatalog(false);
+    }
+  };
+
   const handleSubmitAnswerComment = async (answerId: string) => {
     const draft = answerCommentDrafts[answerId] || '';
     const normalizedDraft = draft.trim();
@@ -543,9 +795,30 @@ export default function AssessmentQuestions({
                   <option value="Component">Component</option>
                   <option value="Edge">Edge</option>
                   <option value="DataObject">Data Object</option>
+                  <option value="Zone">Zone</option>
+                  <option value="Conduit">Conduit</option>
                 </select>
               </div>
 
+              {newQuestion.targetType !== 'None' ? (
+                <div>
+                  <label className="mb-1 block text-sm text-slate-300">Applicability Rule (optional)</label>
+                  <input
+                    type="text"
+                    value={newQuestion.applicability}
+                    onChange={(event) =>
+                      setNewQuestion((prev) => ({ ...prev, applicability: event.target.value }))
+                    }
+                    placeholder={APPLICABILITY_RULE_EXAMPLES[newQuestion.targetType]}
+                    className="w-full rounded-lg border border-slate-600 bg-slate-700 px-3 py-2 font-mono text-sm text-white placeholder-slate-400 focus:border-orange-400 focus:outline-none"
+                  />
+                  <p className="mt-1 text-xs text-slate-400">
+                    The question is expanded to every matching element. Combine comparisons (=, !=, &gt;, &lt;, in,
+                    contains) with and, or, not.
+                  </p>
+                </div>
+              ) : null}
+
               <div className="flex gap-2">
                 <Button type="submit" className="flex-1" disabled={isCreatingQuestion}>
                   {isCreatingQuestion ? 'Creating...' : 'Create Question'}
@@ -554,7 +827,7 @@ export default function AssessmentQuestions({
                   type="button"
                   onClick={() => {
                     setShowCreateQuestionForm(false);
-                    setNewQuestion({ text: '', normReference: '', targetType: 'None' });
+                    setNewQuestion({ text: '', normReference: '', targetType: 'None', applicability: '' });
                   }}
                   className="flex-1 rounded-lg bg-slate-700 px-4 py-2 text-white transition-colors hover:bg-slate-600"
                 >
@@ -570,11 +843,145 @@ export default function AssessmentQuestions({
         </div>
       )}
 
+      <NormCatalogSync
+        projectId={projectId}
+        canEdit={canEdit}
+        questionCount={questions.length}
+        onChanged={() => void fetchQuestions().catch(() => undefined)}
+      />
+
+      {canEdit ? (
+        !showCatalogPanel ? (
+          <Button
+            onClick={() => {
+              setShowCatalogPanel(true);
+              void fetchNormCatalogs();
+            }}
+          >
+            + Generate from Norm Catalog
+          </Button>
+        ) : (
+          <div className="rounded-lg border border-slate-700 bg-slate-800/50 p-4">
+            <h3 className="mb-1 text-sm font-semibold text-white">Generate Questions from Norm Catalog</h3>
+            <p className="mb-4 text-xs text-slate-400">
+              Catalogs are imported from OSCAL files. Each selected control becomes one question with the control ID as
+              norm reference.
+            </p>
+            {normCatalogs.length === 0 && !isCatalogLoading ? (
+              <p className="text-sm text-slate-400">No norm catalogs imported yet.</p>
+            ) : (
+              <div className="space-y-3">
+                <select
+                  value={selectedCatalogId}
+                  onChange={(event) => void handleSelectCatalog(event.target.value)}
+                  disabled={isCatalogLoading || isGeneratingFromCatalog}
+                  className="w-full rounded-lg border border-slate-600 bg-slate-700 px-3 py-2 text-white focus:border-orange-400 focus:outline-none"
+                >
+                  {normCatalogs.map((catalog) => (
+                    <option key={catalog.id} value={catalog.id}>
+                      {catalog.norm} v{catalog.version} ({catalog._count?.controls ?? 0} controls)
+                    </option>
+                  ))}
+                </select>
+                <div className="flex items-center justify-between text-xs text-slate-400">
+                  <span>
+                    {selectedControlIds.size} of {catalogControls.length} controls selected
+                  </span>
+                  <span className="flex gap-3">
+                    <button
+                      type="button"
+                      onClick={() => setSelectedControlIds(new Set(catalogControls.map((control) => control.oscalId)))}
+                      className="text-cyan-300 hover:text-cyan-200"
+                    >
+                      Select all
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setSelectedControlIds(new Set())}
+                      className="text-cyan-300 hover:text-cyan-200"
+                    >
+                      Select none
+                    </button>
+                  </span>
+                </div>
+                <div className="max-h-64 space-y-1 overflow-y-auto rounded border border-slate-700 bg-slate-900/40 p-2">
+                  {isCatalogLoading ? (
+                    <p className="text-xs text-slate-400">Loading controls...</p>
+                  ) : (
+                    catalogControls.map((control) => (
+                      <label
+                        key={control.oscalId}
+                        className="flex cursor-pointer items-start gap-2 rounded px-2 py-1 text-sm text-slate-200 hover:bg-slate-800"
+                      >
+                        <input
+                          type="checkbox"
+                          checked={selectedControlIds.has(control.oscalId)}
+                          onChange={() => toggleCatalogControl(control.oscalId)}
+                          className="mt-1 h-4 w-4 rounded border-slate-500 bg-slate-800 text-orange-500 focus:ring-orange-400"
+                        />
+                        <span>
+                          <span className="font-semibold text-orange-300">{control.controlId}</span> {control.title}
+                          {control.groupTitle ? (
+                            <span className="block text-xs text-slate-500">{control.groupTitle}</span>
+                          ) : null}
+                        </span>
+                      </label>
+                    ))
+                  )}
+                </div>
+              </div>
+            )}
+            {catalogMessage ? <p className="mt-3 text-xs text-emerald-300">{catalogMessage}</p> : null}
+            <div className="mt-4 flex gap-2">
+              <Button
+                type="button"
+                className="flex-1"
+                onClick={() => void handleGenerateFromCatalog()}
+                disabled={isGeneratingFromCatalog || selectedControlIds.size === 0}
+              >
+                {isGeneratingFromCatalog ? 'Generating...' : 'Generate Questions'}
+              </Button>
+              <button
+                type="button"
+                onClick={() => {
+                  setShowCatalogPanel(false);
+                  setCatalogMessage('');
+                }}
+                className="flex-1 rounded-lg bg-slate-700 px-4 py-2 text-white transition-colors hover:bg-slate-600"
+              >
+                Close
+              </button>
+            </div>
+          </div>
+        )
+      ) : null}
+
+      {applicability && applicability.coverage.applicable > 0 ? (
+        <div className="rounded-lg border border-slate-700 bg-slate-800/50 p-3 text-sm text-slate-300">
+          <span className="font-semibold text-white">Applicable targets:</span>{' '}
+          {applicability.coverage.answered} of {applicability.coverage.applicable} answered
+          {applicability.coverage.unanswered > 0 ? (
+            <span className="ml-2 rounded bg-orange-900/30 px-2 py-0.5 text-xs font-semibold text-orange-200">
+              {applicability.coverage.unanswered} open
+            </span>
+          ) : null}
+          <div className="mt-2 h-1.5 w-full overflow-hidden rounded bg-slate-700">
+            <div
+              className="h-full bg-cyan-400"
+              style={{
+                width: `${Math.round((applicability.coverage.answered / applicability.coverage.applicable) * 100)}%`,
+              }}
+            />
+          </div>
+        </div>
+      ) : null}
+
       <div className="space-y-3">
         {questions.map((question) => {
           const sortedAnswers = [...(question.answers || [])].sort(
             (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
           );
+          const questionApplicability = applicabilityByQuestionId.get(question.id) || null;
 
           return (
             <div
@@ -583,12 +990,16 @@ export default function AssessmentQuestions({
                 if (!canEdit || selectedQuestion === question.id) {
                   return;
                 }
-                const latestTargetId = sortedAnswers[0]?.targetId || '';
+                const latestTargetId = questionApplicability
+                  ? questionApplicability.targets.find((target) => !target.answered)?.targetId ||
+                    questionApplicability.targets[0]?.targetId ||
+                    ''
+                  : sortedAnswers[0]?.targetId || '';
                 setSelectedQuestion(question.id);
                 setAnswerValue(DEFAULT_FULFILLMENT_VALUE);
                 setLastNumericAnswerValue(DEFAULT_FULFILLMENT_VALUE);
                 setComment('');
-                if (question.targetType === 'Component' || question.targetType === 'DataObject' || question.targetType === 'Edge') {
+                if (isSelectableTargetType(question.targetType) || question.targetType === 'Edge') {
                   setSelectedTargetId(latestTargetId);
                 } else {
                   setSelectedTargetId('');
@@ -606,6 +1017,16 @@ export default function AssessmentQuestions({
                   <div className="mt-2 flex flex-wrap gap-2">
                     <span className="rounded bg-slate-700 px-2 py-1 text-xs">{question.normReference}</span>
                     <span className="rounded bg-blue-900/30 px-2 py-1 text-xs text-blue-300">{question.targetType}</span>
+                    {questionApplicability ? (
+                      <span
+                        className={`rounded px-2 py-1 font-mono text-xs ${
+                          questionApplicability.error ? 'bg-red-900/30 text-red-300' : 'bg-cyan-900/30 text-cyan-300'
+                        }`}
+                        title={questionApplicability.error || 'Applicability rule'}
+                      >
+                        {questionApplicability.rule}
+                      </span>
+                    ) : null}
                   </div>
                 </div>
                 {sortedAnswers.length > 0 && (
@@ -615,6 +1036,43 @@ export default function AssessmentQuestions({
                 )}
               </div>
 
+              {questionApplicability && !questionApplicability.error ? (
+                <div className="mt-3 border-t border-slate-600 pt-3">
+                  <p className="mb-2 text-xs text-slate-400">
+                    {questionApplicability.answeredCount} of {questionApplicability.applicableCount} applicable targets
+                    answered
+                  </p>
+                  {questionApplicability.targets.length === 0 ? (
+                    <p className="text-xs text-slate-500">No model element matches this rule.</p>
+                  ) : (
+                    <div className="flex max-h-32 flex-wrap gap-1 overflow-y-auto">
+                      {questionApplicability.targets.map((target) => (
+                        <button
+                          key={target.targetId}
+                          type="button"
+                          disabled={!canEdit}
+                          onClick={(event) => {
+                            event.stopPropagation();
+                            setSelectedQuestion(question.id);
+                            setSelectedTargetId(target.targetId);
+                          }}
+                          className={`rounded border px-2 py-0.5 text-xs transition-colors ${
+                            selectedQuestion === question.id && selectedTargetId === target.targetId
+                              ? 'border-orange-400 text-orange-200'
+                              : target.answered
+                                ? 'border-green-700/60 bg-green-900/20 text-green-300'
+                                : 'border-slate-600 bg-slate-800/60 text-slate-300 hover:border-slate-500'
+                          } disabled:cursor-default`}
+                        >
+                          {target.answered ? '✓ ' : ''}
+                          {target.name}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              ) : null}
+
               {sortedAnswers.length > 0 && (
                 <div className="mt-3 border-t border-slate-600 pt-3">
                   <div className="max-h-52 space-y-2 overflow-y-auto pr-1">
@@ -710,6 +1168,17 @@ export default function AssessmentQuestions({
                             </div>
                           ) : null}
 
+                          <EvidenceAttachments
+                            projectId={projectId}
+                            link={{ answerId: answer.id }}
+                            evidence={evidenceByAnswerId.get(answer.id) || []}
+                            canUpload={canEdit}
+                            onUploaded={(item) => setEvidence((previous) => [...previous, item])}
+                            onDeleted={(evidenceId) =>
+                              setEvidence((previous) => previous.filter((item) => item.id !== evidenceId))
+                            }
+                          />
+
                           <div className="mt-2" onClick={(event) => event.stopPropagation()}>
                             {!isCommentEditorOpen ? (
                               <button
@@ -829,29 +1298,42 @@ export default function AssessmentQuestions({
                       <p className="mt-2 text-xs text-slate-400">0 = not fulfilled, 10 = fully fulfilled</p>
                     </div>
 
-                    {(question.targetType === 'Component' || question.targetType === 'DataObject') && (
+                    {questionApplicability && !questionApplicability.error ? (
+                      <div>
+                        <label className="mb-2 block text-sm font-medium text-slate-300">Applicable Target</label>
+                        <select
+                          value={selectedTargetId}
+                          onChange={(event) => setSelectedTargetId(event.target.value)}
+                          className="w-full rounded-lg border border-slate-600 bg-slate-700 px-3 py-2 text-white focus:border-orange-400 focus:outline-none"
+                        >
+                          <option value="">No specific target selected</option>
+                          {questionApplicability.targets.map((target) => (
+                            <option key={target.targetId} value={target.targetId}>
+                              {target.answered ? '✓ ' : ''}
+                              {target.name}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                    ) : isSelectableTargetType(question.targetType) && (
                       <div>
-                        <label className="mb-2 block text-sm font-medium text-slate-300">
-                          {question.targetType === 'Component' ? 'Component (optional)' : 'Data Object (optional)'}
+                        <label className="mb-2 block text-sm font-medium capitalize text-slate-300">
+                          {TARGET_TYPE_LABEL[question.targetType]} (optional)
                         </label>
                         <select
                           value={selectedTargetId}
                           onChange={(event) => setSelectedTargetId(event.target.value)}
                           className="w-full rounded-lg border border-slate-600 bg-slate-700 px-3 py-2 text-white focus:border-orange-400 focus:outline-none"
                         >
-                          <option value="">
-                            {question.targetType === 'Component'
-                              ? 'No specific component selected'
-                              : 'No specific data object selected'}
-                          </option>
-                          {(question.targetType === 'Component' ? components : dataObjects).map((item) => (
+                          <option value="">No specific {TARGET_TYPE_LABEL[question.targetType]} selected</option>
+                          {targetOptionsByType[question.targetType].map((item) => (
                             <option key={item.id} value={item.id}>
                               {item.name}
                             </option>
                           ))}
                         </select>
                         <p className="mt-1 text-xs text-slate-400">
-                          Optional: assign the answer to a specific {question.targetType === 'Component' ? 'component' : 'data object'}.
+                          Optional: assign the answer to a specific {TARGET_TYPE_LABEL[question.targetType]}.
                         </p>
                       </div>
                     )}
@@ -8,6 +8,7 @@ interface NodeAsset {
   name: string;
   category: string;
   parentNodeId: string | null;
+  layout?: { position: NodePosition | null; size: NodeSize | null };
 }
 
 interface EdgeAsset {
@@ -56,6 +57,26 @@ interface AssetValue {
   comment?: string;
 }
 
+interface ValuationSource {
+  kind: 'DataObject' | 'ChildNode';
+  id: string;
+  name: string;
+  relation: string;
+  rating: { confidentiality: number; integrity: number; availability: number };
+  determines: Array<'confidentiality' | 'integrity' | 'availability'>;
+}
+
+interface ValuationEntry {
+  assetType: 'Node' | 'Edge';
+  assetId: string;
+  derived: {
+    rating: { confidentiality: number; integrity: number; availability: number };
+    value: number;
+    sources: ValuationSource[];
+  } | null;
+  isOverride: boolean;
+}
+
 interface AssetValuationComment {
   id: string;
   assetType: 'Node' | 'Edge' | 'DataObject';
@@ -100,13 +121,17 @@ type ContainerSizeMap = Record<string, NodeSize>;
 
 const GLOBAL_GROUP_ID = '__GLOBAL__';
 const GLOBAL_GROUP_TITLE = 'Global';
-const NODE_POSITION_STORAGE_PREFIX = 'secudo.graph.positions.';
-const CONTAINER_SIZE_STORAGE_PREFIX = 'secudo.graph.container-sizes.';
 const DEFAULT_CONTAINER_WIDTH = 520;
 const DEFAULT_CONTAINER_HEIGHT = 320;
 const COMPONENT_WIDTH = 220;
 const COMPONENT_HEIGHT = 96;
 
+const CIA_LETTERS: Record<ValuationSource['determines'][number], string> = {
+  confidentiality: 'C',
+  integrity: 'I',
+  availability: 'A',
+};
+
 const clampScore = (value: number) => Math.min(10, Math.max(1, Math.round(value)));
 const dataObjectCriticality = (dataObject: Pick<DataObject, 'confidentiality' | 'integrity' | 'availability'>) =>
   Math.max(dataObject.confidentiality, dataObject.integrity, dataObject.availability);
@@ -212,6 +237,10 @@ export default function AssetValuation({
   const [edgeDataFlows, setEdgeDataFlows] = useState<EdgeDataFlowRecord[]>([]);
   const [values, setValues] = useState<Map<string, AssetValue>>(new Map());
   const [assetComments, setAssetComments] = useState<AssetValuationComment[]>([]);
+  const [valuationMode, setValuationMode] = useState<'Propose' | 'Enforce'>('Propose');
+  const [valuationEntries, setValuationEntries] = useState<Map<string, ValuationEntry>>(new Map());
+  const [isApplyingValuation, setIsApplyingValuation] = useState(false);
+  const [valuationMessage, setValuationMessage] = useState('');
 
   const [isLoading, setIsLoading] = useState(true);
   const [loadError, setLoadError] = useState('');
@@ -242,8 +271,16 @@ export default function AssetValuation({
       setIsLoading(true);
       setLoadError('');
 
-      const [nodesRes, edgesRes, dataObjectsRes, valuesRes, componentDataRes, edgeDataFlowsRes, assetCommentsRes] =
-        await Promise.all([
+      const [
+        nodesRes,
+        edgesRes,
+        dataObjectsRes,
+        valuesRes,
+        componentDataRes,
+        edgeDataFlowsRes,
+        assetCommentsRes,
+        valuationRes,
+      ] = await Promise.all([
           fetch(`/api/projects/${projectId}/nodes`),
           fetch(`/api/projects/${projectId}/edges`),
           fetch(`/api/projects/${projectId}/data-objects`),
@@ -251,6 +288,7 @@ export default function AssetValuation({
           fetch(`/api/projects/${projectId}/component-data`),
           fetch(`/api/projects/${projectId}/edge-data-flows`),
           fetch(`/api/projects/${projectId}/asset-comments`),
+          fetch(`/api/projects/${projectId}/valuation`),
         ]);
 
       if (!nodesRes.ok || !edgesRes.ok || !dataObjectsRes.ok || !valuesRes.ok) {
@@ -270,6 +308,9 @@ export default function AssetValuation({
       const nextAssetComments = assetCommentsRes.ok
         ? ((await assetCommentsRes.json()) as AssetValuationComment[])
         : [];
+      const nextValuation = valuationRes.ok
+        ? ((await valuationRes.json()) as { mode: 'Propose' | 'Enforce'; entries: ValuationEntry[] })
+        : null;
 
       setNodes(nextNodes);
       setEdges(nextEdges);
@@ -278,6 +319,10 @@ export default function AssetValuation({
       setEdgeDataFlows(nextEdgeDataFlows);
       setValues(new Map(nextValues.map((entry) => [valueKey(entry.assetType, entry.assetId), entry])));
       setAssetComments(nextAssetComments);
+      setValuationMode(nextValuation?.mode ?? 'Propose');
+      setValuationEntries(
+        new Map((nextValuation?.entries ?? []).map((entry) => [valueKey(entry.assetType, entry.assetId), entry]))
+      );
     } catch (fetchError) {
       setLoadError((fetchError as Error).message || 'Loading assets failed');
     } finally {
@@ -297,72 +342,17 @@ export default function AssetValuation({
     );
     const userContainers = containerNodes.filter((node) => node.id !== globalContainer?.id);
 
-    const readNodePositionMap = (): NodePositionMap => {
-      if (typeof window === 'undefined') {
-        return {};
+    // Containers are ordered like in the default view of the graph editor
+    const positionMap: NodePositionMap = {};
+    const containerSizeMap: ContainerSizeMap = {};
+    nodes.forEach((node) => {
+      if (node.layout?.position) {
+        positionMap[node.id] = node.layout.position;
       }
-      try {
-        const raw = window.localStorage.getItem(`${NODE_POSITION_STORAGE_PREFIX}${projectId}`);
-        if (!raw) {
-          return {};
-        }
-        const parsed = JSON.parse(raw) as Record<string, unknown>;
-        const sanitized: NodePositionMap = {};
-        Object.entries(parsed).forEach(([nodeId, value]) => {
-          if (typeof value !== 'object' || value === null) {
-            return;
-          }
-          const position = value as { x?: unknown; y?: unknown };
-          if (
-            typeof position.x === 'number' &&
-            Number.isFinite(position.x) &&
-            typeof position.y === 'number' &&
-            Number.isFinite(position.y)
-          ) {
-            sanitized[nodeId] = { x: position.x, y: position.y };
-          }
-        });
-        return sanitized;
-      } catch {
-        return {};
-      }
-    };
-
-    const readContainerSizeMap = (): ContainerSizeMap => {
-      if (typeof window === 'undefined') {
-        return {};
+      if (node.layout?.size) {
+        containerSizeMap[node.id] = node.layout.size;
       }
-      try {
-        const raw = window.localStorage.getItem(`${CONTAINER_SIZE_STORAGE_PREFIX}${projectId}`);
-        if (!raw) {
-          return {};
-        }
-        const parsed = JSON.parse(raw) as Record<string, unknown>;
-        const sanitized: ContainerSizeMap = {};
-        Object.entries(parsed).forEach(([nodeId, value]) => {
-          if (typeof value !== 'object' || value === null) {
-            return;
-          }
-          const size = value as { width?: unknown; height?: unknown };
-          if (
-            typeof size.width === 'number' &&
-            Number.isFinite(size.width) &&
-            size.width > 0 &&
-            typeof size.height === 'number' &&
-            Number.isFinite(size.height) &&
-            size.height > 0
-          ) {
-            sanitized[nodeId] = { width: size.width, height: size.height };
-          }
-        });
-        return sanitized;
-      } catch {
-        return {};
-      }
-    };
-
-    const positionMap = readNodePositionMap();
-    const containerSizeMap = readContainerSizeMap();
+    });
 
     const ensureGroup = (groupId: string, title: string): ContainerGroup => {
       const existing = groups.get(groupId);
@@ -491,7 +481,7 @@ export default function AssetValuation({
           details: [],
           rateType: 'Node',
           rateId: node.id,
-          defaultValue: 5,
+          defaultValue: valuationEntries.get(valueKey('Node', node.id))?.derived?.value ?? 5,
         });
         targets.add(valueKey('Node', node.id));
       });
@@ -522,7 +512,7 @@ export default function AssetValuation({
           details: [],
           rateType: 'Edge',
           rateId: edge.id,
-          defaultValue: 5,
+          defaultValue: valuationEntries.get(valueKey('Edge', edge.id))?.derived?.value ?? 5,
         });
       });
 
@@ -630,7 +620,7 @@ export default function AssetValuation({
       assetLookup: lookup,
       rateTargets: targets,
     };
-  }, [componentData, dataObjects, edgeDataFlows, edges, nodes, projectId]);
+  }, [componentData, dataObjects, edgeDataFlows, edges, nodes, valuationEntries]);
 
   const selectedAsset = useMemo(() => {
     if (!selectedAssetKey) return null;
@@ -895,6 +885,38 @@ export default function AssetValuation({
     }
   };
 
+  const handleApplyDerivedValues = async (assets?: Array<{ assetType: 'Node' | 'Edge'; assetId: string }>) => {
+    if (!canEdit || isApplyingValuation) return;
+
+    try {
+      setIsApplyingValuation(true);
+      setSaveError('');
+      setValuationMessage('');
+      const response = await fetch(`/api/projects/${projectId}/valuation`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(assets ? { assets } : {}),
+      });
+
+      const payload = (await response.json().catch(() => ({}))) as {
+        error?: string;
+        applied?: number;
+        removed?: number;
+      };
+      if (!response.ok) {
+        throw new Error(payload.error || 'Failed to apply derived values');
+      }
+
+      setValuationMessage(`${payload.applied ?? 0} derived value(s) applied, ${payload.removed ?? 0} removed.`);
+      setSelectedAssetKey(null);
+      await fetchData();
+    } catch (applyError) {
+      setSaveError((applyError as Error).message);
+    } finally {
+      setIsApplyingValuation(false);
+    }
+  };
+
   const handleSubmitAssetComment = async () => {
     if (!selectedAsset || isSubmittingAssetComment) {
       return;
@@ -970,6 +992,24 @@ export default function AssetValuation({
         <p className="mt-3 text-xs text-slate-400">
           Coverage: {ratedCount}/{rateTargets.size} assets rated.
         </p>
+        <div className="mt-3 flex flex-wrap items-center justify-between gap-2 border-t border-slate-700 pt-3">
+          <p className="text-xs text-slate-400">
+            {valuationMode === 'Enforce'
+              ? 'Derived values are enforced: components and interfaces follow the C/I/A ratings of their data objects unless overridden manually.'
+              : 'Components and interfaces get proposals derived from the C/I/A ratings of their data objects (maximum principle).'}
+          </p>
+          {canEdit ? (
+            <Button
+              size="sm"
+              variant="secondary"
+              onClick={() => void handleApplyDerivedValues()}
+              disabled={isApplyingValuation}
+            >
+              {isApplyingValuation ? 'Applying...' : 'Apply All Proposals'}
+            </Button>
+          ) : null}
+        </div>
+        {valuationMessage ? <p className="mt-2 text-xs text-emerald-300">{valuationMessage}</p> : null}
       </div>
 
       {!canEdit && (
@@ -1014,6 +1054,10 @@ export default function AssetValuation({
                         const currentKey = `${asset.rateType}_${asset.rateId}_${asset.key}`;
                         const isSelected = selectedAssetKey === currentKey;
                         const isSelectedDataObject = isSelected && asset.rateType === 'DataObject';
+                        const valuation =
+                          asset.rateType === 'DataObject'
+                            ? null
+                            : valuationEntries.get(valueKey(asset.rateType, asset.rateId)) || null;
 
                         return (
                           <div
@@ -1038,7 +1082,14 @@ export default function AssetValuation({
                                   {effectiveValue ?? '-'}/10
                                 </span>
                               </div>
-                              <p className={`mt-1 text-xs font-semibold ${risk.color}`}>{risk.label}</p>
+                              <p className={`mt-1 text-xs font-semibold ${risk.color}`}>
+                                {risk.label}
+                                {valuation?.isOverride ? (
+                                  <span className="ml-2 rounded bg-orange-900/40 px-1.5 py-0.5 text-[10px] text-orange-200">
+                                    Override (derived {valuation.derived?.value}/10)
+                                  </span>
+                                ) : null}
+                              </p>
                               {asset.details.slice(0, 2).map((detail) => (
                                 <p key={`${asset.key}:${detail}`} className="mt-1 text-[11px] text-slate-400">
                                   {detail}
@@ -1132,6 +1183,51 @@ export default function AssetValuation({
                                     </div>
                                   ) : (
                                     <>
+                                      {valuation?.derived ? (
+                                        <div className="space-y-2 rounded-lg border border-cyan-500/30 bg-cyan-900/15 p-3">
+                                          <p className="text-xs font-semibold uppercase tracking-wide text-cyan-100">
+                                            Derived Value
+                                          </p>
+                                          <p className="text-xs text-cyan-100">
+                                            C {valuation.derived.rating.confidentiality} · I{' '}
+                                            {valuation.derived.rating.integrity} · A{' '}
+                                            {valuation.derived.rating.availability} ={' '}
+                                            <span className="font-semibold">{valuation.derived.value}/10</span>
+                                          </p>
+                                          <ul className="space-y-1">
+                                            {valuation.derived.sources.map((source) => (
+                                              <li
+                                                key={`${source.kind}:${source.id}:${source.relation}`}
+                                                className="text-[11px] text-slate-300"
+                                              >
+                                                {source.relation} {source.name} (C {source.rating.confidentiality}, I{' '}
+                                                {source.rating.integrity}, A {source.rating.availability})
+                                                {source.determines.length > 0 ? (
+                                                  <span className="text-cyan-200">
+                                                    {' '}
+                                                    → sets {source.determines.map((dimension) => CIA_LETTERS[dimension]).join('/')}
+                                                  </span>
+                                                ) : null}
+                                              </li>
+                                            ))}
+                                          </ul>
+                                          {canEdit && entry?.value !== valuation.derived.value ? (
+                                            <button
+                                              type="button"
+                                              onClick={() =>
+                                                void handleApplyDerivedValues([
+                                                  { assetType: valuation.assetType, assetId: valuation.assetId },
+                                                ])
+                                              }
+                                              disabled={isApplyingValuation}
+                                              className="rounded border border-cyan-500/40 bg-cyan-900/20 px-3 py-1 text-xs font-semibold text-cyan-100 transition-colors hover:bg-cyan-900/35 disabled:opacity-60"
+                                            >
+                                              Apply Derived Value
+                                            </button>
+                                          ) : null}
+                                        </div>
+                                      ) : null}
+
                                       <div>
                                         <label className="mb-1 block text-xs font-medium text-slate-300">
                                           Criticality: {value}/10
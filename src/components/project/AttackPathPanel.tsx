@@ -0,0 +1,201 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+
+interface AttackPathHop {
+  edgeId: string;
+  fromNodeId: string;
+  toNodeId: string;
+  cost: number;
+  openFindings: number;
+  missingControls: number;
+}
+
+interface AttackPath {
+  entryNodeId: string;
+  targetNodeId: string;
+  nodeIds: string[];
+  nodeNames: string[];
+  edgeIds: string[];
+  hops: AttackPathHop[];
+  cost: number;
+  targetValue: number | null;
+}
+
+interface AttackPathAnalysis {
+  entryNodeIds: string[];
+  targetNodeIds: string[];
+  paths: AttackPath[];
+}
+
+export interface AttackPathHighlight {
+  nodeIds: Set<string>;
+  edgeIds: Set<string>;
+}
+
+interface AttackPathPanelProps {
+  projectId: string;
+  nodes: Array<{ id: string; name: string; category: string }>;
+  onHighlightChange: (highlight: AttackPathHighlight | null) => void;
+}
+
+const isContainerCategory = (category: string): boolean => {
+  const value = category.trim().toLowerCase();
+  return value === 'container' || value === 'system';
+};
+
+const readSelectedValues = (select: HTMLSelectElement): string[] =>
+  Array.from(select.selectedOptions).map((option) => option.value);
+
+export default function AttackPathPanel({ projectId, nodes, onHighlightChange }: AttackPathPanelProps) {
+  const [entryNodeIds, setEntryNodeIds] = useState<string[]>([]);
+  const [targetNodeIds, setTargetNodeIds] = useState<string[]>([]);
+  const [paths, setPaths] = useState<AttackPath[]>([]);
+  const [focusedPathIndex, setFocusedPathIndex] = useState<number | null>(null);
+  const [isHighlighting, setIsHighlighting] = useState(true);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const componentNodes = useMemo(
+    () =>
+      nodes
+        .filter((node) => !isContainerCategory(node.category))
+        .sort((left, right) => left.name.localeCompare(right.name)),
+    [nodes]
+  );
+
+  const analyze = async (entries: string[], targets: string[]) => {
+    try {
+      setIsLoading(true);
+      setError('');
+      const query = new URLSearchParams();
+      if (entries.length > 0) query.set('entry', entries.join(','));
+      if (targets.length > 0) query.set('target', targets.join(','));
+      const response = await fetch(`/api/projects/${projectId}/attack-paths?${query.toString()}`);
+      if (!response.ok) {
+        throw new Error('Attack paths could not be analyzed');
+      }
+      const analysis = (await response.json()) as AttackPathAnalysis;
+      setEntryNodeIds(analysis.entryNodeIds);
+      setTargetNodeIds(analysis.targetNodeIds);
+      setPaths(analysis.paths);
+      setFocusedPathIndex(null);
+    } catch (analyzeError) {
+      setError((analyzeError as Error).message);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    void analyze([], []);
+  }, [projectId]);
+
+  useEffect(() => {
+    if (!isHighlighting || paths.length === 0) {
+      onHighlightChange(null);
+      return;
+    }
+    const highlightedPaths = focusedPathIndex === null ? paths : [paths[focusedPathIndex]].filter(Boolean);
+    onHighlightChange({
+      nodeIds: new Set(highlightedPaths.flatMap((attackPath) => attackPath.nodeIds)),
+      edgeIds: new Set(highlightedPaths.flatMap((attackPath) => attackPath.edgeIds)),
+    });
+  }, [focusedPathIndex, isHighlighting, onHighlightChange, paths]);
+
+  return (
+    <div className="space-y-2 rounded border border-slate-700 bg-slate-900/40 p-3">
+      <div>
+        <h4 className="text-sm font-semibold text-white">Attack Paths</h4>
+        <p className="mt-1 text-[11px] text-slate-400">
+          Cheapest routes from entry points to critical assets. Open findings and missing controls make a hop cheaper.
+        </p>
+      </div>
+
+      {error ? (
+        <div className="rounded border border-red-600/40 bg-red-900/20 p-2 text-xs text-red-200">{error}</div>
+      ) : null}
+
+      <label className="block text-[11px] text-slate-300">
+        Entry points
+        <select
+          multiple
+          value={entryNodeIds}
+          onChange={(event) => setEntryNodeIds(readSelectedValues(event.target))}
+          className="mt-1 h-20 w-full rounded border border-slate-600 bg-slate-700 px-2 py-1 text-xs text-white focus:border-orange-400 focus:outline-none"
+        >
+          {componentNodes.map((node) => (
+            <option key={node.id} value={node.id}>
+              {node.name}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="block text-[11px] text-slate-300">
+        Targets
+        <select
+          multiple
+          value={targetNodeIds}
+          onChange={(event) => setTargetNodeIds(readSelectedValues(event.target))}
+          className="mt-1 h-20 w-full rounded border border-slate-600 bg-slate-700 px-2 py-1 text-xs text-white focus:border-orange-400 focus:outline-none"
+        >
+          {componentNodes.map((node) => (
+            <option key={node.id} value={node.id}>
+              {node.name}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <div className="grid grid-cols-2 gap-1">
+        <button
+          type="button"
+          onClick={() => void analyze(entryNodeIds, targetNodeIds)}
+          disabled={isLoading}
+          className="rounded bg-orange-500 px-2 py-1 text-[11px] font-semibold text-white hover:bg-orange-600 disabled:opacity-60"
+        >
+          {isLoading ? 'Analyzing...' : 'Analyze'}
+        </button>
+        <button
+          type="button"
+          onClick={() => setIsHighlighting((current) => !current)}
+          disabled={paths.length === 0}
+          className="rounded border border-slate-500/60 bg-slate-700/40 px-2 py-1 text-[11px] font-semibold text-slate-200 hover:bg-slate-700/70 disabled:opacity-60"
+        >
+          {isHighlighting ? 'Hide on graph' : 'Show on graph'}
+        </button>
+      </div>
+
+      {!isLoading && paths.length === 0 ? (
+        <p className="text-xs text-slate-400">
+          {entryNodeIds.length === 0 || targetNodeIds.length === 0
+            ? 'Select entry points and targets (targets default to assets valued 8 or higher).'
+            : 'No path connects the selected entry points with the targets.'}
+        </p>
+      ) : (
+        <ol className="max-h-64 space-y-1 overflow-y-auto pr-1">
+          {paths.map((attackPath, index) => {
+            const isFocused = focusedPathIndex === index;
+            const openFindings = attackPath.hops.reduce((sum, hop) => sum + hop.openFindings, 0);
+            return (
+              <li key={`${attackPath.edgeIds.join('-')}-${index}`}>
+                <button
+                  type="button"
+                  onClick={() => setFocusedPathIndex(isFocused ? null : index)}
+                  className={`w-full rounded border p-2 text-left text-[11px] ${
+                    isFocused ? 'border-red-400 bg-red-900/20' : 'border-slate-700 bg-slate-900/40 hover:border-slate-500'
+                  }`}
+                >
+                  <span className="block font-semibold text-slate-100">{attackPath.nodeNames.join(' → ')}</span>
+                  <span className="block text-slate-400">
+                    Cost {attackPath.cost} · {attackPath.hops.length} hop(s) · {openFindings} open finding(s)
+                  </span>
+                </button>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,257 @@
+'use client';
+
+import { Fragment, useEffect, useMemo, useState } from 'react';
+import type {
+  ComplianceCoverage as ComplianceCoverageData,
+  ComplianceMetrics,
+  ComplianceNorm,
+} from '@/lib/compliance-service';
+
+// Questions outside the selected norms, see CUSTOM_COMPLIANCE_NORM
+const CUSTOM_NORM = 'Custom';
+
+const formatAnsweredPercent = (value: number | null): string => (value === null ? '-' : `${value}%`);
+
+const formatFulfillment = (value: number | null): string => (value === null ? '-' : `${value.toFixed(1)} / 10`);
+
+const percentBarClass = (value: number | null): string => {
+  if (value === null) return 'bg-slate-600';
+  if (value >= 80) return 'bg-green-500';
+  if (value >= 50) return 'bg-yellow-500';
+  return 'bg-red-500';
+};
+
+const fulfillmentTextClass = (value: number | null): string => {
+  if (value === null) return 'text-slate-400';
+  if (value >= 7) return 'text-green-300';
+  if (value >= 4) return 'text-yellow-300';
+  return 'text-red-300';
+};
+
+const normLabel = (norm: ComplianceNorm): string =>
+  norm.norm === CUSTOM_NORM ? 'Project-specific questions' : norm.norm;
+
+function MetricCells({ metrics }: { metrics: ComplianceMetrics }) {
+  return (
+    <>
+      <td className="py-1.5 pr-2">
+        {metrics.answeredCount} / {metrics.questionCount}
+        <span className="ml-1 text-slate-400">({formatAnsweredPercent(metrics.answeredPercent)})</span>
+      </td>
+      <td className={`py-1.5 pr-2 font-semibold ${fulfillmentTextClass(metrics.fulfillmentAverage)}`}>
+        {formatFulfillment(metrics.fulfillmentAverage)}
+      </td>
+      <td className={`py-1.5 pr-2 ${metrics.openFindings > 0 ? 'text-orange-300' : 'text-slate-400'}`}>
+        {metrics.openFindings}
+      </td>
+      <td className={`py-1.5 ${metrics.openMeasures > 0 ? 'text-orange-300' : 'text-slate-400'}`}>{metrics.openMeasures}</td>
+    </>
+  );
+}
+
+/**
+ * Coverage and fulfillment of every selected norm, drilling down from the norm
+ * to its requirements and their questions.
+ */
+export default function ComplianceCoverage({ projectId }: { projectId: string }) {
+  const [coverage, setCoverage] = useState<ComplianceCoverageData | null>(null);
+  const [selectedNorm, setSelectedNorm] = useState<string | null>(null);
+  const [expandedReferences, setExpandedReferences] = useState<Set<string>>(new Set());
+  const [onlyGaps, setOnlyGaps] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const fetchCoverage = async () => {
+    try {
+      setIsLoading(true);
+      setError('');
+      const response = await fetch(`/api/projects/${projectId}/compliance`);
+      if (!response.ok) {
+        throw new Error('Compliance coverage could not be loaded');
+      }
+      const payload = (await response.json()) as ComplianceCoverageData;
+      setCoverage(payload);
+      setSelectedNorm((current) =>
+        current && payload.norms.some((norm) => norm.norm === current) ? current : payload.norms[0]?.norm ?? null
+      );
+    } catch (loadError) {
+      setError((loadError as Error).message);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    setSelectedNorm(null);
+    setExpandedReferences(new Set());
+    void fetchCoverage();
+  }, [projectId]);
+
+  const activeNorm = coverage?.norms.find((norm) => norm.norm === selectedNorm) ?? null;
+  const visibleRequirements = useMemo(
+    () =>
+      (activeNorm?.requirements ?? []).filter(
+        (requirement) =>
+          !onlyGaps ||
+          requirement.questionCount === 0 ||
+          requirement.answeredCount < requirement.questionCount ||
+          requirement.openFindings > 0
+      ),
+    [activeNorm, onlyGaps]
+  );
+
+  const toggleReference = (reference: string) => {
+    setExpandedReferences((current) => {
+      const next = new Set(current);
+      if (next.has(reference)) {
+        next.delete(reference);
+      } else {
+        next.add(reference);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <div className="space-y-4 rounded-lg border border-slate-700 bg-slate-800/50 p-4">
+      <div className="flex flex-wrap items-start justify-between gap-2">
+        <div>
+          <h3 className="text-lg font-semibold text-white">Compliance Coverage</h3>
+          <p className="text-xs text-slate-400">
+            Answered questions, average fulfillment and open findings and measures per norm requirement. A question
+            counts as answered once every element it applies to is answered.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={() => void fetchCoverage()}
+          className="rounded bg-slate-700 px-2 py-1 text-xs text-slate-200 hover:bg-slate-600"
+        >
+          Refresh
+        </button>
+      </div>
+
+      {error ? (
+        <div className="rounded border border-red-600/40 bg-red-900/20 p-2 text-xs text-red-200">{error}</div>
+      ) : null}
+
+      {isLoading && !coverage ? (
+        <p className="text-xs text-slate-400">Loading compliance coverage...</p>
+      ) : !coverage || coverage.norms.length === 0 ? (
+        <p className="text-xs text-slate-400">The project has no norm selected and no questions yet.</p>
+      ) : (
+        <>
+          <div className="grid gap-3 md:grid-cols-2 xl:grid-cols-4">
+            {coverage.norms.map((norm) => (
+              <button
+                key={norm.norm}
+                type="button"
+                onClick={() => setSelectedNorm(norm.norm)}
+                className={`rounded-lg border p-3 text-left transition-colors ${
+                  norm.norm === selectedNorm
+                    ? 'border-orange-400 bg-slate-900/60'
+                    : 'border-slate-700 bg-slate-900/30 hover:border-slate-500'
+                }`}
+              >
+                <p className="font-semibold text-white">{normLabel(norm)}</p>
+                <p className="text-[11px] text-slate-400">
+                  {norm.catalog ? `${norm.catalog.norm} v${norm.catalog.version}` : 'Requirements from question references'}
+                </p>
+                <div className="mt-2 h-1.5 w-full overflow-hidden rounded bg-slate-700">
+                  <div
+                    className={`h-full ${percentBarClass(norm.answeredPercent)}`}
+                    style={{ width: `${norm.answeredPercent ?? 0}%` }}
+                  />
+                </div>
+                <div className="mt-2 grid grid-cols-2 gap-1 text-xs text-slate-300">
+                  <span>Answered {formatAnsweredPercent(norm.answeredPercent)}</span>
+                  <span className={fulfillmentTextClass(norm.fulfillmentAverage)}>
+                    Fulfillment {formatFulfillment(norm.fulfillmentAverage)}
+                  </span>
+                  <span>
+                    Requirements {norm.answeredRequirements} / {norm.requirementCount}
+                  </span>
+                  <span>
+                    Open {norm.openFindings} findings · {norm.openMeasures} measures
+                  </span>
+                </div>
+                {norm.coveredRequirements < norm.requirementCount ? (
+                  <p className="mt-1 text-[11px] text-yellow-300">
+                    {norm.requirementCount - norm.coveredRequirements} requirement(s) without questions
+                  </p>
+                ) : null}
+              </button>
+            ))}
+          </div>
+
+          {activeNorm ? (
+            <div className="space-y-2">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <h4 className="text-sm font-semibold text-slate-100">{normLabel(activeNorm)} requirements</h4>
+                <label className="flex items-center gap-2 text-xs text-slate-300">
+                  <input type="checkbox" checked={onlyGaps} onChange={(event) => setOnlyGaps(event.target.checked)} />
+                  Only requirements with gaps
+                </label>
+              </div>
+              <div className="overflow-x-auto">
+                <table className="w-full min-w-[900px] text-left text-xs">
+                  <thead>
+                    <tr className="border-b border-slate-700 text-slate-400">
+                      <th className="py-1 pr-2 font-semibold">Requirement</th>
+                      <th className="py-1 pr-2 font-semibold">Answered</th>
+                      <th className="py-1 pr-2 font-semibold">Avg. Fulfillment</th>
+                      <th className="py-1 pr-2 font-semibold">Open Findings</th>
+                      <th className="py-1 font-semibold">Open Measures</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {visibleRequirements.map((requirement) => {
+                      const isExpanded = expandedReferences.has(requirement.reference);
+                      return (
+                        <Fragment key={requirement.reference}>
+                          <tr className="border-b border-slate-800 align-top text-slate-200">
+                            <td className="py-1.5 pr-2">
+                              <button
+                                type="button"
+                                onClick={() => toggleReference(requirement.reference)}
+                                disabled={requirement.questions.length === 0}
+                                className="text-left disabled:cursor-default"
+                              >
+                                <span className="mr-1 text-slate-500">
+                                  {requirement.questions.length === 0 ? '·' : isExpanded ? '▾' : '▸'}
+                                </span>
+                                <span className="font-semibold text-slate-100">{requirement.reference}</span>
+                                {requirement.title ? <span className="ml-1 text-slate-400">{requirement.title}</span> : null}
+                              </button>
+                              {requirement.questionCount === 0 ? (
+                                <span className="ml-2 rounded border border-yellow-500/40 bg-yellow-900/20 px-1 text-[11px] text-yellow-200">
+                                  no questions
+                                </span>
+                              ) : null}
+                            </td>
+                            <MetricCells metrics={requirement} />
+                          </tr>
+                          {isExpanded
+                            ? requirement.questions.map((question) => (
+                                <tr key={question.id} className="border-b border-slate-800/60 bg-slate-900/30 text-slate-300">
+                                  <td className="max-w-[420px] py-1 pl-6 pr-2">{question.text}</td>
+                                  <MetricCells metrics={question} />
+                                </tr>
+                              ))
+                            : null}
+                        </Fragment>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+              {visibleRequirements.length === 0 ? (
+                <p className="text-xs text-slate-400">No requirements with gaps.</p>
+              ) : null}
+            </div>
+          ) : null}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import type { ChangeEvent } from 'react';
+
+export interface EvidenceItem {
+  id: string;
+  answerId: string | null;
+  findingId: string | null;
+  measureId: string | null;
+  fileName: string;
+  mimeType: string;
+  size: number;
+  sha256: string;
+  description: string | null;
+  createdAt: string;
+  uploadedBy?: { id: string; name: string | null; email: string } | null;
+}
+
+interface EvidenceAttachmentsProps {
+  projectId: string;
+  link: { answerId?: string; findingId?: string; measureId?: string };
+  evidence: EvidenceItem[];
+  canUpload: boolean;
+  onUploaded: (item: EvidenceItem) => void;
+  onDeleted: (evidenceId: string) => void;
+}
+
+const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+export default function EvidenceAttachments({
+  projectId,
+  link,
+  evidence,
+  canUpload,
+  onUploaded,
+  onDeleted,
+}: EvidenceAttachmentsProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  const handleFileSelected = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      setIsUploading(true);
+      setError('');
+      const form = new FormData();
+      form.append('file', file);
+      Object.entries(link).forEach(([key, value]) => {
+        if (value) form.append(key, value);
+      });
+      const response = await fetch(`/api/projects/${projectId}/evidence`, { method: 'POST', body: form });
+      const payload = (await response.json().catch(() => ({}))) as EvidenceItem & { error?: string };
+      if (!response.ok) throw new Error(payload.error || 'Evidence could not be uploaded');
+      onUploaded(payload);
+    } catch (uploadError) {
+      setError((uploadError as Error).message);
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleDelete = async (item: EvidenceItem) => {
+    if (!window.confirm(`Remove evidence "${item.fileName}"?`)) return;
+    try {
+      setDeletingId(item.id);
+      setError('');
+      const response = await fetch(`/api/projects/${projectId}/evidence/${item.id}`, { method: 'DELETE' });
+      const payload = (await response.json().catch(() => ({}))) as { error?: string };
+      if (!response.ok) throw new Error(payload.error || 'Evidence could not be removed');
+      onDeleted(item.id);
+    } catch (deleteError) {
+      setError((deleteError as Error).message);
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  if (evidence.length === 0 && !canUpload) {
+    return null;
+  }
+
+  return (
+    <div className="mt-2 space-y-1" onClick={(event) => event.stopPropagation()}>
+      {evidence.length > 0 ? (
+        <ul className="space-y-1">
+          {evidence.map((item) => (
+            <li
+              key={item.id}
+              className="flex items-center justify-between gap-2 rounded border border-slate-700/80 bg-slate-900/40 px-2 py-1 text-[11px]"
+            >
+              <div className="min-w-0">
+                <a
+                  href={`/api/projects/${projectId}/evidence/${item.id}`}
+                  className="block truncate font-semibold text-cyan-300 hover:text-cyan-200"
+                >
+                  {item.fileName}
+                </a>
+                <span className="block truncate text-slate-500" title={`SHA-256 ${item.sha256}`}>
+                  {formatFileSize(item.size)} · SHA-256 {item.sha256.slice(0, 12)}… ·{' '}
+                  {item.uploadedBy?.name || item.uploadedBy?.email || 'Unknown'}
+                </span>
+              </div>
+              {canUpload ? (
+                <button
+                  type="button"
+                  onClick={() => void handleDelete(item)}
+                  disabled={deletingId === item.id}
+                  className="shrink-0 text-slate-400 hover:text-red-300 disabled:opacity-60"
+                >
+                  {deletingId === item.id ? 'Removing...' : 'Remove'}
+                </button>
+              ) : null}
+            </li>
+          ))}
+        </ul>
+      ) : null}
+
+      {canUpload ? (
+        <>
+          <input ref={fileInputRef} type="file" className="hidden" onChange={(event) => void handleFileSelected(event)} />
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isUploading}
+            className="rounded border border-cyan-500/40 bg-cyan-900/20 px-3 py-1 text-xs font-semibold text-cyan-200 transition-colors hover:bg-cyan-900/35 disabled:opacity-60"
+          >
+            {isUploading ? 'Uploading...' : 'Attach Evidence'}
+          </button>
+        </>
+      ) : null}
+
+      {error ? <p className="text-[11px] text-red-300">{error}</p> : null}
+    </div>
+  );
+}
@@ -3,14 +3,17 @@
 import { useEffect, useMemo, useState } from 'react';
 import type { FormEvent } from 'react';
 import Button from '@/components/common/Button';
+import EvidenceAttachments from '@/components/project/EvidenceAttachments';
+import type { EvidenceItem } from '@/components/project/EvidenceAttachments';
+import { evaluateFindingRisk, parseRiskMethod } from '@/lib/risk-method';
+import type { RiskEvaluation } from '@/lib/risk-method';
 
-type AssetType = 'Node' | 'Edge';
+type AssetType = 'Node' | 'Edge' | 'DataObject' | 'Zone' | 'Conduit';
 type MeasurePriority = 'Low' | 'Medium' | 'High' | 'Critical';
 type MeasureStatus = 'Open' | 'InProgress' | 'Done';
 type SeverityFilter = 'ALL' | 'CRITICAL' | 'HIGH' | 'MEDIUM' | 'LOW';
 type FindingsSort = 'SEVERITY_DESC' | 'SEVERITY_ASC' | 'NEWEST' | 'OLDEST';
 type MeasuresSort = 'PRIORITY_DESC' | 'PRIORITY_ASC' | 'DUE_ASC' | 'DUE_DESC' | 'NEWEST' | 'OLDEST';
-type RiskLevel = 'Unknown' | 'Low' | 'Medium' | 'High' | 'Critical';
 type QuestionSort = 'FULFILLMENT_ASC' | 'FULFILLMENT_DESC' | 'ASSET_RATING_DESC' | 'LATEST_ANSWER';
 
 interface Finding {
@@ -20,8 +23,13 @@ interface Finding {
   assetName: string;
   questionText: string;
   severity: number;
+  likelihood?: number | null;
+  impact?: number | null;
   normReference: string;
   description?: string | null;
+  riskAcceptedAt?: string | null;
+  riskAcceptanceNote?: string | null;
+  riskAcceptedBy?: { id: string; name: string | null; email: string } | null;
   createdAt?: string;
 }
 
@@ -34,6 +42,8 @@ interface Measure {
   status: MeasureStatus;
   dueDate?: string | null;
   assignedTo?: string | null;
+  likelihoodReduction: number;
+  impactReduction: number;
   createdAt?: string;
 }
 
@@ -57,10 +67,27 @@ interface EdgeOption {
   targetNode?: { id: string; name: string };
 }
 
+interface DataObjectOption {
+  id: string;
+  name: string;
+}
+
+interface ZoneOption {
+  id: string;
+  name: string;
+  targetSecurityLevel: number;
+}
+
+interface ConduitOption {
+  id: string;
+  name: string;
+  targetSecurityLevel: number;
+}
+
 interface QuestionAnswer {
   id: string;
   answerValue?: string | null;
-  targetType?: 'Component' | 'Edge' | 'DataObject' | 'None' | null;
+  targetType?: 'Component' | 'Edge' | 'DataObject' | 'Zone' | 'Conduit' | 'None' | null;
   targetId?: string | null;
   createdAt?: string;
 }
@@ -69,7 +96,7 @@ interface Question {
   id: string;
   text: string;
   normReference: string;
-  targetType: 'Component' | 'Edge' | 'DataObject' | 'None';
+  targetType: 'Component' | 'Edge' | 'DataObject' | 'Zone' | 'Conduit' | 'None';
   answers?: QuestionAnswer[];
 }
 
@@ -77,7 +104,7 @@ interface QuestionInsight {
   questionId: string;
   questionText: string;
   normReference: string;
-  targetType: 'Component' | 'Edge' | 'DataObject' | 'None';
+  targetType: 'Component' | 'Edge' | 'DataObject' | 'Zone' | 'Conduit' | 'None';
   fulfillmentAverage: number | null;
   fulfillmentCount: number;
   maxAssetValue: number | null;
@@ -90,6 +117,7 @@ interface QuestionInsight {
 interface FindingsAndMeasuresProps {
   projectId: string;
   canEdit?: boolean;
+  riskMethod?: string | null;
 }
 
 interface NewMeasureForm {
@@ -99,15 +127,27 @@ interface NewMeasureForm {
   status: MeasureStatus;
   dueDate: string;
   assignedTo: string;
+  likelihoodReduction: number;
+  impactReduction: number;
 }
 
 interface FindingEditForm {
   questionText: string;
   normReference: string;
   severity: number;
+  // Empty keeps the default: likelihood from severity, impact from asset value
+  likelihood: string;
+  impact: string;
   description: string;
 }
 
+interface FindingRiskView {
+  inherent: RiskEvaluation | null;
+  residual: RiskEvaluation | null;
+  tolerable: boolean;
+  accepted: boolean;
+}
+
 const priorityRank: Record<MeasurePriority, number> = {
   Low: 1,
   Medium: 2,
@@ -135,14 +175,6 @@ const statusBadgeClass = (status: MeasureStatus): string => {
   return 'bg-slate-700 text-slate-200';
 };
 
-const riskBadgeClass = (level: RiskLevel): string => {
-  if (level === 'Critical') return 'bg-red-900/30 text-red-300';
-  if (level === 'High') return 'bg-orange-900/30 text-orange-300';
-  if (level === 'Medium') return 'bg-yellow-900/30 text-yellow-300';
-  if (level === 'Low') return 'bg-green-900/30 text-green-300';
-  return 'bg-slate-700 text-slate-200';
-};
-
 const severityLabel = (severity: number): 'Critical' | 'High' | 'Medium' | 'Low' => {
   if (severity >= 8) return 'Critical';
   if (severity >= 6) return 'High';
@@ -157,11 +189,38 @@ const toDateInputValue = (value?: string | null): string => {
   return parsed.toISOString().slice(0, 10);
 };
 
+// Empty input clears the rating (null), otherwise clamps to 1-10.
+const toOptionalRating = (value: string): number | null => {
+  const parsed = Number(value.trim());
+  if (!value.trim() || !Number.isFinite(parsed)) return null;
+  return Math.max(1, Math.min(10, Math.round(parsed)));
+};
+
+const toReductionPercent = (value: string): number | null => {
+  const parsed = Number(value.trim() || '0');
+  if (!Number.isInteger(parsed) || parsed < 0 || parsed > 100) return null;
+  return parsed;
+};
+
+const riskBadgeStyle = (evaluation: RiskEvaluation | null) =>
+  evaluation ? { backgroundColor: evaluation.color } : undefined;
+
+const formatRisk = (evaluation: RiskEvaluation | null): string =>
+  evaluation ? `${evaluation.score} (${evaluation.level})` : 'n/a';
+
 const isContainerCategory = (value: string | null | undefined): boolean => {
   const normalized = (value || '').toLowerCase().trim();
   return normalized === 'container' || normalized === 'system';
 };
 
+const ASSET_TYPE_LABEL: Record<AssetType, string> = {
+  Node: 'Component',
+  Edge: 'Interface',
+  DataObject: 'Data Object',
+  Zone: 'Zone',
+  Conduit: 'Conduit',
+};
+
 const edgeLabel = (edge: EdgeOption): string => {
   if (edge.name && edge.name.trim()) return edge.name;
   const sourceName = edge.sourceNode?.name || 'Source';
@@ -182,13 +241,17 @@ const parseFulfillmentValue = (value?: string | null): number | null => {
 
 const clampSeverity = (value: number): number => Math.max(1, Math.min(10, Math.round(value)));
 
-export default function FindingsAndMeasures({ projectId, canEdit = true }: FindingsAndMeasuresProps) {
+export default function FindingsAndMeasures({ projectId, canEdit = true, riskMethod }: FindingsAndMeasuresProps) {
   const [findings, setFindings] = useState<Finding[]>([]);
   const [measures, setMeasures] = useState<Measure[]>([]);
   const [assetValues, setAssetValues] = useState<AssetValue[]>([]);
   const [questions, setQuestions] = useState<Question[]>([]);
   const [nodes, setNodes] = useState<NodeOption[]>([]);
   const [edges, setEdges] = useState<EdgeOption[]>([]);
+  const [dataObjects, setDataObjects] = useState<DataObjectOption[]>([]);
+  const [evidence, setEvidence] = useState<EvidenceItem[]>([]);
+  const [zones, setZones] = useState<ZoneOption[]>([]);
+  const [conduits, setConduits] = useState<ConduitOption[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isGenerating, setIsGenerating] = useState(false);
   const [isSavingMeasure, setIsSavingMeasure] = useState(false);
@@ -222,6 +285,8 @@ export default function FindingsAndMeasures({ projectId, canEdit = true }: Findi
     questionText: '',
     normReference: '',
     severity: 6,
+    likelihood: '',
+    impact: '',
     description: '',
   });
   const [newMeasure, setNewMeasure] = useState<NewMeasureForm>({
@@ -231,6 +296,8 @@ export default function FindingsAndMeasures({ projectId, canEdit = true }: Findi
     status: 'Open',
     dueDate: '',
     assignedTo: '',
+    likelihoodReduction: 0,
+    impactReduction: 0,
   });
 
   const fetchData = async () => {
@@ -265,6 +332,17 @@ export default function FindingsAndMeasures({ projectId, canEdit = true }: Findi
       setNodes(Array.isArray(nodesData) ? nodesData : []);
       setEdges(Array.isArray(edgesData) ? edgesData : []);
       setQuestions(Array.isArray(questionsData) ? questionsData : []);
+
+      const [dataObjectsRes, zonesRes, conduitsRes, evidenceRes] = await Promise.all([
+        fetch(`/api/projects/${projectId}/data-objects`),
+        fetch(`/api/projects/${projectId}/zones`),
+        fetch(`/api/projects/${projectId}/conduits`),
+        fetch(`/api/projects/${projectId}/evidence`),
+      ]);
+      setDataObjects(dataObjectsRes.ok ? ((await dataObjectsRes.json()) as DataObjectOption[]) : []);
+      setEvidence(evidenceRes.ok ? ((await evidenceRes.json()) as EvidenceItem[]) : []);
+      setZones(zonesRes.ok ? ((await zonesRes.json()) as ZoneOption[]) : []);
+      setConduits(conduitsRes.ok ? ((await conduitsRes.json()) as ConduitOption[]) : []);
     } catch (fetchError) {
       setActionError((fetchError as Error).message);
     } finally {
@@ -306,8 +384,22 @@ export default function FindingsAndMeasures({ projectId, canEdit = true }: Findi
     if (newFinding.assetType === 'Node') {
       return nodeAssetOptions.map((node) => ({ id: node.id, label: node.name }));
     }
+    if (newFinding.assetType === 'DataObject') {
+      return [...dataObjects]
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .map((dataObject) => ({ id: dataObject.id, label: dataObject.name }));
+    }
+    if (newFinding.assetType === 'Zone') {
+      return zones.map((zone) => ({ id: zone.id, label: `${zone.name} (SL-T ${zone.targetSecurityLevel})` }));
+    }
+    if (newFinding.assetType === 'Conduit') {
+      return conduits.map((conduit) => ({
+        id: conduit.id,
+        label: `${conduit.name} (SL-T ${conduit.targetSecurityLevel})`,
+      }));
+    }
     return edgeAssetOptions.map((edge) => ({ id: edge.id, label: edgeLabel(edge) }));
-  }, [newFinding.assetType, nodeAssetOptions, edgeAssetOptions]);
+  }, [newFinding.assetType, nodeAssetOptions, edgeAssetOptions, dataObjects, zones, conduits]);
 
   useEffect(() => {
     if (newFindingAssetOptions.length === 0) {
@@ -332,12 +424,24 @@ export default function FindingsAndMeasures({ projectId, canEdit = true }: Findi
     return map;
   }, [measures]);
 
+  const evidenceByLinkKey = useMemo(() => {
+    const map = new Map<string, EvidenceItem[]>();
+    evidence.forEach((item) => {
+      const key = item.findingId ? `Finding:${item.findingId}` : item.measureId ? `Measure:${item.measureId}` : null;
+      if (key) {
+        map.set(key, [...(map.get(key) || []), item]);
+      }
+    });
+    return map;
+  }, [evidence]);
+
+  const handleEvidenceUploaded = (item: EvidenceItem) => setEvidence((previous) => [...previous, item]);
+  const handleEvidenceDeleted = (evidenceId: string) =>
+    setEvidence((previous) => previous.filter((item) => item.id !== evidenceId));
+
   const assetValueByAssetKey = useMemo(() => {
     const map = new Map<string, number>();
     assetValues.forEach((assetValue) => {
-      if (assetValue.assetType !== 'Node' && assetValue.assetType !== 'Edge') {
-        return;
-      }
       map.set(`${assetValue.assetType}:${assetValue.assetId}`, assetValue.value);
     });
     return map;
@@ -383,6 +487,29 @@ export default function FindingsAndMeasures({ projectId, canEdit = true }: Findi
               assetValue: assetValueByAssetKey.get(`Edge:${answer.targetId}`) ?? null,
             };
           }
+          if (answer.targetType === 'DataObject') {
+            const dataObject = dataObjects.find((entry) => entry.id === answer.targetId);
+            if (!dataObject) return null;
+            return {
+              assetType: 'DataObject' as const,
+              assetId: answer.targetId,
+              assetName: dataObject.name,
+              assetValue: assetValueByAssetKey.get(`DataObject:${answer.targetId}`) ?? null,
+            };
+          }
+          if (answer.targetType === 'Zone' || answer.targetType === 'Conduit') {
+            const zoneOrConduit =
+              answer.targetType === 'Zone'
+                ? zones.find((zone) => zone.id === answer.targetId)
+                : conduits.find((conduit) => conduit.id === answer.targetId);
+            if (!zoneOrConduit) return null;
+            return {
+              assetType: answer.targetType,
+              assetId: answer.targetId,
+              assetName: zoneOrConduit.name,
+              assetValue: null as number | null,
+            };
+          }
           return null;
         })
         .filter(
@@ -426,22 +553,35 @@ export default function FindingsAndMeasures({ projectId, canEdit = true }: Findi
     });
 
     return insights;
-  }, [assetValueByAssetKey, edgeById, nodeById, questions]);
+  }, [assetValueByAssetKey, conduits, dataObjects, edgeById, nodeById, questions, zones]);
 
   const questionInsightById = useMemo(() => {
     return new Map(questionInsights.map((insight) => [insight.questionId, insight]));
   }, [questionInsights]);
 
-  const findingRisk = (finding: Finding): { score: number | null; level: RiskLevel } => {
+  const projectRiskMethod = useMemo(() => parseRiskMethod(riskMethod), [riskMethod]);
+
+  const findingRisk = (finding: Finding): FindingRiskView => {
     const assetValue = assetValueByAssetKey.get(`${finding.assetType}:${finding.assetId}`);
-    if (typeof assetValue !== 'number') {
-      return { score: null, level: 'Unknown' };
-    }
-    const score = Math.max(1, Math.min(100, Math.round(assetValue * finding.severity)));
-    const level: RiskLevel = score >= 81 ? 'Critical' : score >= 51 ? 'High' : score >= 21 ? 'Medium' : 'Low';
-    return { score, level };
+    const evaluation = evaluateFindingRisk(
+      projectRiskMethod,
+      finding,
+      assetValue,
+      measuresByFindingId.get(finding.id) || []
+    );
+    return {
+      inherent: evaluation?.inherent ?? null,
+      residual: evaluation?.residual ?? null,
+      tolerable: evaluation ? evaluation.residual.tolerable : true,
+      accepted: Boolean(finding.riskAcceptedAt),
+    };
   };
 
+  const intolerableFindingCount = findings.filter((finding) => {
+    const risk = findingRisk(finding);
+    return !risk.tolerable && !risk.accepted;
+  }).length;
+
   const handleAutoGenerateFindings = async () => {
     if (!canEdit) {
       return;
@@ -496,6 +636,7 @@ export default function FindingsAndMeasures({ projectId, canEdit = true }: Findi
           assetId: newFinding.assetId,
           questionText,
           normReference,
+          questionId: selectedQuestionTemplateId || undefined,
           severity: Math.max(1, Math.min(10, Math.round(newFinding.severity))),
           description: newFinding.description.trim() || undefined,
         }),
@@ -590,6 +731,8 @@ export default function FindingsAndMeasures({ projectId, canEdit = true }: Findi
           status: newMeasure.status,
           assignedTo: newMeasure.assignedTo || undefined,
           dueDate: newMeasure.dueDate || undefined,
+          likelihoodReduction: newMeasure.likelihoodReduction,
+          impactReduction: newMeasure.impactReduction,
         }),
       });
 
@@ -603,6 +746,8 @@ export default function FindingsAndMeasures({ projectId, canEdit = true }: Findi
         status: 'Open',
         dueDate: '',
         assignedTo: '',
+        likelihoodReduction: 0,
+        impactReduction: 0,
       });
       setSelectedFindingId(null);
       setActionMessage('Measure created.');
@@ -620,6 +765,8 @@ export default function FindingsAndMeasures({ projectId, canEdit = true }: Findi
       questionText: finding.questionText,
       normReference: finding.normReference,
       severity: finding.severity,
+      likelihood: finding.likelihood ? String(finding.likelihood) : '',
+      impact: finding.impact ? String(finding.impact) : '',
       description: finding.description || '',
     });
   };
@@ -637,6 +784,8 @@ export default function FindingsAndMeasures({ projectId, canEdit = true }: Findi
           questionText: findingEdit.questionText.trim(),
           normReference: findingEdit.normReference.trim(),
           severity: Math.max(1, Math.min(10, Math.round(findingEdit.severity))),
+          likelihood: toOptionalRating(findingEdit.likelihood),
+          impact: toOptionalRating(findingEdit.impact),
           description: findingEdit.description.trim() || undefined,
         }),
       });
@@ -652,6 +801,34 @@ export default function FindingsAndMeasures({ projectId, canEdit = true }: Findi
     }
   };
 
+  const handleRiskAcceptance = async (finding: Finding, accept: boolean) => {
+    if (!canEdit) return;
+    let note = '';
+    if (accept) {
+      const nextNote = window.prompt('Justification for accepting the residual risk');
+      if (nextNote === null) return;
+      note = nextNote;
+    } else if (!window.confirm('Revoke the risk acceptance of this finding?')) {
+      return;
+    }
+
+    try {
+      setActionError('');
+      setActionMessage('');
+      const response = await fetch(`/api/projects/${projectId}/findings/${finding.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ riskAccepted: accept, riskAcceptanceNote: note.trim() || undefined }),
+      });
+      const payload = (await response.json().catch(() => ({}))) as { error?: string };
+      if (!response.ok) throw new Error(payload.error || 'Failed to update risk acceptance');
+      setActionMessage(accept ? 'Residual risk accepted.' : 'Risk acceptance revoked.');
+      await fetchData();
+    } catch (acceptanceError) {
+      setActionError((acceptanceError as Error).message);
+    }
+  };
+
   const handleDeleteFinding = async (findingId: string) => {
     if (!canEdit) return;
     if (!window.confirm('Delete this finding and all linked measures?')) return;
@@ -712,6 +889,22 @@ export default function FindingsAndMeasures({ projectId, canEdit = true }: Findi
     const nextDueDate = window.prompt('Due Date YYYY-MM-DD (empty clears)', toDateInputValue(measure.dueDate));
     if (nextDueDate === null) return;
 
+    const nextLikelihoodReduction = window.prompt(
+      'Expected likelihood reduction in % (0-100)',
+      String(measure.likelihoodReduction)
+    );
+    if (nextLikelihoodReduction === null) return;
+
+    const nextImpactReduction = window.prompt('Expected impact reduction in % (0-100)', String(measure.impactReduction));
+    if (nextImpactReduction === null) return;
+
+    const likelihoodReduction = toReductionPercent(nextLikelihoodReduction);
+    const impactReduction = toReductionPercent(nextImpactReduction);
+    if (likelihoodReduction === null || impactReduction === null) {
+      setActionError('Invalid reduction. Allowed: whole numbers from 0 to 100.');
+      return;
+    }
+
     try {
       setActionError('');
       setActionMessage('');
@@ -724,6 +917,8 @@ export default function FindingsAndMeasures({ projectId, canEdit = true }: Findi
           priority: nextPriority,
           assignedTo: nextAssignedTo.trim() || '',
           dueDate: nextDueDate.trim() || null,
+          likelihoodReduction,
+          impactReduction,
         }),
       });
       const payload = (await response.json().catch(() => ({}))) as { error?: string };
@@ -1005,7 +1200,7 @@ export default function FindingsAndMeasures({ projectId, canEdit = true }: Findi
                   <div className="min-w-0">
                     <p className="text-sm font-semibold text-white">{insight.questionText}</p>
                     <p className="mt-1 text-xs text-slate-400">
-                      Asset: {insight.candidateAssetName} ({insight.candidateAssetType === 'Node' ? 'Component' : 'Interface'})
+                      Asset: {insight.candidateAssetName} ({insight.candidateAssetType ? ASSET_TYPE_LABEL[insight.candidateAssetType] : 'Interface'})
                     </p>
                     <p className="text-xs text-slate-500">Norm: {insight.normReference || 'n/a'}</p>
                   </div>
@@ -1056,6 +1251,9 @@ export default function FindingsAndMeasures({ projectId, canEdit = true }: Findi
               >
                 <option value="Node">Component</option>
                 <option value="Edge">Interface</option>
+                <option value="DataObject">Data Object</option>
+                <option value="Zone">Zone</option>
+                <option value="Conduit">Conduit</option>
               </select>
             </div>
             <div>
@@ -1149,7 +1347,13 @@ export default function FindingsAndMeasures({ projectId, canEdit = true }: Findi
 
       <div className="space-y-3">
         <div className="flex flex-wrap items-center justify-between gap-3">
-          <h3 className="text-lg font-semibold text-white">Security Findings ({filteredFindings.length})</h3>
+          <div>
+            <h3 className="text-lg font-semibold text-white">Security Findings ({filteredFindings.length})</h3>
+            <p className="text-xs text-slate-400">
+              Risk method: {projectRiskMethod.name} · {intolerableFindingCount} residual risk(s) above tolerance (
+              {projectRiskMethod.toleranceLevel}) and not accepted
+            </p>
+          </div>
           <div className="flex flex-wrap gap-2">
             <input
               type="text"
@@ -1210,15 +1414,61 @@ export default function FindingsAndMeasures({ projectId, canEdit = true }: Findi
                   <span className={`rounded px-2 py-1 font-semibold ${severityBadgeClass(finding.severity)}`}>
                     {severityLabel(finding.severity)} {finding.severity}/10
                   </span>
-                  <span className={`rounded px-2 py-1 font-semibold ${riskBadgeClass(risk.level)}`}>
-                    Risk: {risk.score === null ? 'n/a' : `${risk.score} (${risk.level})`}
+                  <span
+                    className={`rounded px-2 py-1 font-semibold ${
+                      risk.inherent ? 'text-slate-900' : 'bg-slate-700 text-slate-200'
+                    }`}
+                    style={riskBadgeStyle(risk.inherent)}
+                    title="Inherent risk before measures"
+                  >
+                    Inherent: {formatRisk(risk.inherent)}
                   </span>
+                  {risk.residual && (
+                    <span
+                      className="rounded px-2 py-1 font-semibold text-slate-900"
+                      style={riskBadgeStyle(risk.residual)}
+                      title={
+                        risk.tolerable
+                          ? 'Residual risk after measures in progress or done'
+                          : 'Residual risk above the tolerated risk level'
+                      }
+                    >
+                      Residual: {formatRisk(risk.residual)}
+                      {risk.tolerable ? '' : ' !'}
+                    </span>
+                  )}
+                  {risk.accepted && (
+                    <span className="rounded bg-cyan-900/40 px-2 py-1 font-semibold text-cyan-200">Risk accepted</span>
+                  )}
                   <span className="rounded bg-slate-700 px-2 py-1 text-slate-200">Measures: {linkedMeasures.length}</span>
                 </div>
               </div>
 
-              <div className="mt-2 text-xs text-slate-400">Norm: {finding.normReference}</div>
+              <div className="mt-2 text-xs text-slate-400">
+                Norm: {finding.normReference}
+                {risk.inherent &&
+                  ` · ${projectRiskMethod.likelihood.label} ${risk.inherent.likelihood} → ${
+                    risk.residual?.likelihood ?? risk.inherent.likelihood
+                  } · ${projectRiskMethod.impact.label} ${risk.inherent.impact} → ${
+                    risk.residual?.impact ?? risk.inherent.impact
+                  }`}
+              </div>
               <p className="mt-2 text-sm text-slate-300">{finding.description || 'No description provided.'}</p>
+              {risk.accepted && finding.riskAcceptedAt && (
+                <p className="mt-2 text-xs text-cyan-200">
+                  Residual risk accepted by {finding.riskAcceptedBy?.name || finding.riskAcceptedBy?.email || 'Unknown'} on{' '}
+                  {new Date(finding.riskAcceptedAt).toLocaleDateString()}
+                  {finding.riskAcceptanceNote ? `: ${finding.riskAcceptanceNote}` : ''}
+                </p>
+              )}
+              <EvidenceAttachments
+                projectId={projectId}
+                link={{ findingId: finding.id }}
+                evidence={evidenceByLinkKey.get(`Finding:${finding.id}`) || []}
+                canUpload={canEdit}
+                onUploaded={handleEvidenceUploaded}
+                onDeleted={handleEvidenceDeleted}
+              />
 
               {isEditing ? (
                 <div className="mt-3 space-y-3 rounded border border-slate-600 bg-slate-900/40 p-3">
@@ -1246,6 +1496,26 @@ export default function FindingsAndMeasures({ projectId, canEdit = true }: Findi
                       className="w-full rounded border border-slate-600 bg-slate-700 px-3 py-2 text-sm text-white"
                     />
                   </div>
+                  <div className="grid grid-cols-2 gap-3">
+                    <input
+                      type="number"
+                      min={1}
+                      max={10}
+                      value={findingEdit.likelihood}
+                      onChange={(event) => setFindingEdit((prev) => ({ ...prev, likelihood: event.target.value }))}
+                      placeholder="Likelihood 1-10 (default: severity)"
+                      className="w-full rounded border border-slate-600 bg-slate-700 px-3 py-2 text-sm text-white"
+                    />
+                    <input
+                      type="number"
+                      min={1}
+                      max={10}
+                      value={findingEdit.impact}
+                      onChange={(event) => setFindingEdit((prev) => ({ ...prev, impact: event.target.value }))}
+                      placeholder="Impact 1-10 (default: asset value)"
+                      className="w-full rounded border border-slate-600 bg-slate-700 px-3 py-2 text-sm text-white"
+                    />
+                  </div>
                   <textarea
                     rows={3}
                     value={findingEdit.description}
@@ -1289,6 +1559,25 @@ export default function FindingsAndMeasures({ projectId, canEdit = true }: Findi
                     >
                       Add Measure
                     </button>
+                    {risk.accepted ? (
+                      <button
+                        type="button"
+                        onClick={() => void handleRiskAcceptance(finding, false)}
+                        className="rounded bg-slate-700 px-3 py-1 text-xs text-cyan-200 hover:bg-slate-600"
+                      >
+                        Revoke Acceptance
+                      </button>
+                    ) : (
+                      risk.residual && (
+                        <button
+                          type="button"
+                          onClick={() => void handleRiskAcceptance(finding, true)}
+                          className="rounded bg-cyan-900/40 px-3 py-1 text-xs text-cyan-200 hover:bg-cyan-900/60"
+                        >
+                          Accept Residual Risk
+                        </button>
+                      )
+                    )}
                   </div>
                 )
               )}
@@ -1382,6 +1671,46 @@ export default function FindingsAndMeasures({ projectId, canEdit = true }: Findi
               </div>
             </div>
 
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="mb-2 block text-sm font-medium text-slate-300">Likelihood Reduction (%)</label>
+                <input
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={newMeasure.likelihoodReduction}
+                  onChange={(event) =>
+                    setNewMeasure((prev) => ({
+                      ...prev,
+                      likelihoodReduction: Math.max(0, Math.min(100, Math.round(Number(event.target.value) || 0))),
+                    }))
+                  }
+                  className="w-full rounded-lg border border-slate-600 bg-slate-700 px-3 py-2 text-white focus:border-orange-400 focus:outline-none"
+                  disabled={!canEdit}
+                />
+              </div>
+              <div>
+                <label className="mb-2 block text-sm font-medium text-slate-300">Impact Reduction (%)</label>
+                <input
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={newMeasure.impactReduction}
+                  onChange={(event) =>
+                    setNewMeasure((prev) => ({
+                      ...prev,
+                      impactReduction: Math.max(0, Math.min(100, Math.round(Number(event.target.value) || 0))),
+                    }))
+                  }
+                  className="w-full rounded-lg border border-slate-600 bg-slate-700 px-3 py-2 text-white focus:border-orange-400 focus:outline-none"
+                  disabled={!canEdit}
+                />
+              </div>
+              <p className="col-span-2 text-xs text-slate-400">
+                Expected reduction once done. Measures in progress count with half of it toward the residual risk.
+              </p>
+            </div>
+
             <div className="flex gap-2">
               <Button type="submit" className="flex-1" disabled={!canEdit || isSavingMeasure}>
                 {isSavingMeasure ? 'Saving...' : 'Create Measure'}
@@ -1461,8 +1790,17 @@ export default function FindingsAndMeasures({ projectId, canEdit = true }: Findi
                   {measure.description && <p className="mt-1 text-sm text-slate-400">{measure.description}</p>}
                   <p className="mt-1 text-xs text-slate-500">
                     Finding: {parentFinding?.assetName || 'Unknown'} | Due:{' '}
-                    {measure.dueDate ? new Date(measure.dueDate).toLocaleDateString() : 'n/a'}
+                    {measure.dueDate ? new Date(measure.dueDate).toLocaleDateString() : 'n/a'} | Reduction: likelihood{' '}
+                    {measure.likelihoodReduction}%, impact {measure.impactReduction}%
                   </p>
+                  <EvidenceAttachments
+                    projectId={projectId}
+                    link={{ measureId: measure.id }}
+                    evidence={evidenceByLinkKey.get(`Measure:${measure.id}`) || []}
+                    canUpload={canEdit}
+                    onUploaded={handleEvidenceUploaded}
+                    onDeleted={handleEvidenceDeleted}
+                  />
                 </div>
                 <div className="flex flex-wrap items-start gap-2">
                   <span className={`rounded px-2 py-1 text-xs font-semibold ${priorityBadgeClass(measure.priority)}`}>
@@ -1,6 +1,6 @@
 'use client';
 
-import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import ReactFlow, {
   Background,
   ConnectionMode,
@@ -19,6 +19,8 @@ import ReactFlow, {
 } from 'reactflow';
 import 'reactflow/dist/style.css';
 import AIModelGenerator from '@/components/project/AIModelGenerator';
+import AttackPathPanel from '@/components/project/AttackPathPanel';
+import type { AttackPathHighlight } from '@/components/project/AttackPathPanel';
 
 type NodeCategory = 'Container' | 'Component';
 type EdgeDirection = 'A_TO_B' | 'B_TO_A' | 'BIDIRECTIONAL';
@@ -40,6 +42,27 @@ interface ApiNode {
   description?: string | null;
   notes?: string | null;
   parentNodeId?: string | null;
+  zoneId?: string | null;
+  capabilitySecurityLevel?: number | null;
+  updatedAt?: string;
+}
+
+interface ApiZone {
+  id: string;
+  name: string;
+  description?: string | null;
+  targetSecurityLevel: number;
+  color?: string | null;
+  nodes?: Array<{ id: string }>;
+}
+
+interface ApiConduit {
+  id: string;
+  name: string;
+  zoneAId: string;
+  zoneBId: string;
+  targetSecurityLevel: number;
+  edgeIds: string[];
 }
 
 interface ApiEdge {
@@ -53,6 +76,7 @@ interface ApiEdge {
   protocol?: string | null;
   description?: string | null;
   notes?: string | null;
+  updatedAt?: string;
 }
 
 interface ApiDataObject {
@@ -63,6 +87,7 @@ interface ApiDataObject {
   confidentiality: number;
   integrity: number;
   availability: number;
+  updatedAt?: string;
 }
 
 interface ApiComponentData {
@@ -94,10 +119,35 @@ interface ApiModelSnapshotSummary {
   } | null;
 }
 
+type SnapshotDiffChange = 'added' | 'removed' | 'modified';
+
+type SnapshotDiffEntityType = 'node' | 'edge' | 'dataObject' | 'zone' | 'componentData' | 'edgeDataFlow' | 'placement';
+
+interface ApiSnapshotDiffEntry {
+  entityType: SnapshotDiffEntityType;
+  id: string;
+  label: string;
+  change: SnapshotDiffChange;
+  fields: string[];
+  before: Record<string, string | number | null> | null;
+  after: Record<string, string | number | null> | null;
+}
+
+interface ApiSnapshotDiff {
+  from: { id: string; title: string; createdAt: string | null };
+  to: { id: string; title: string; createdAt: string | null };
+  entries: ApiSnapshotDiffEntry[];
+  fromLayout: {
+    nodePositions: Record<string, { x: number; y: number }>;
+    containerSizes: Record<string, { width: number; height: number }>;
+  };
+}
+
 interface ApiModelSnapshotRestoreResponse {
   success: boolean;
   restored?: {
     nodes: number;
+    zones?: number | null;
     edges: number;
     dataObjects: number;
     componentData: number;
@@ -111,6 +161,29 @@ interface ApiModelSnapshotRestoreResponse {
   error?: string;
 }
 
+interface ApiDiagramView {
+  id: string;
+  name: string;
+  description?: string | null;
+  isDefault: boolean;
+}
+
+interface ApiDiagramLayout {
+  viewId: string;
+  nodePositions: Record<string, { x: number; y: number }>;
+  containerSizes: Record<string, { width: number; height: number }>;
+}
+
+type AutoLayoutAlgorithm = 'layered' | 'force' | 'orthogonal';
+
+interface CollaborationParticipant {
+  clientId: string;
+  userId: string;
+  name: string;
+  color: string;
+  selection: { nodeIds: string[]; edgeIds: string[] };
+}
+
 interface GraphEditorProps {
   projectId: string;
   canEdit?: boolean;
@@ -198,6 +271,38 @@ const DEFAULT_CONTAINER_HEIGHT = 320;
 const COMPONENT_WIDTH = 220;
 const COMPONENT_HEIGHT = 96;
 const MIN_CONTAINER_DIMENSION = 1;
+const ZONE_REGION_PADDING = 28;
+const ZONE_REGION_LABEL_HEIGHT = 22;
+const ZONE_COLOR_OPTIONS = ['#a78bfa', '#34d399', '#f472b6', '#60a5fa', '#facc15', '#f87171'];
+const SECURITY_LEVEL_OPTIONS = [1, 2, 3, 4];
+const CONDUIT_EDGE_COLOR = '#c084fc';
+const ATTACK_PATH_COLOR = '#f87171';
+const SNAPSHOT_DIFF_COLORS: Record<SnapshotDiffChange | 'moved', string> = {
+  added: '#22c55e',
+  removed: '#ef4444',
+  modified: '#eab308',
+  moved: '#a78bfa',
+};
+const SNAPSHOT_DIFF_ENTITY_LABELS: Record<SnapshotDiffEntityType, string> = {
+  node: 'Node',
+  edge: 'Interface',
+  dataObject: 'Data object',
+  zone: 'Zone',
+  componentData: 'Component data',
+  edgeDataFlow: 'Data flow',
+  placement: 'Placement',
+};
+// Elements that can be brought back individually from a snapshot
+const RESTORABLE_DIFF_ENTITY_TYPES = new Set<SnapshotDiffEntityType>(['node', 'edge', 'dataObject']);
+const AUTO_LAYOUT_OPTIONS: Array<{ value: AutoLayoutAlgorithm; label: string }> = [
+  { value: 'layered', label: 'Layered' },
+  { value: 'force', label: 'Force-directed' },
+  { value: 'orthogonal', label: 'Orthogonal' },
+];
+const REMOTE_REFRESH_DELAY_MS = 250;
+const PRESENCE_UPDATE_DELAY_MS = 300;
+// Identifies this browser tab, so the editor can skip the pushed echo of its own changes.
+const COLLABORATION_CLIENT_ID = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
 const DEFAULT_DATA_TRANSFER_DRAFT: DataTransferDraft = {
   componentAId: '',
   componentBId: '',
@@ -328,6 +433,67 @@ const isInHandleId = (handleId: string | null | undefined) =>
 const isOutHandleId = (handleId: string | null | undefined) =>
   Boolean(handleId && HANDLE_POINT_BY_ID.has(handleId));
 
+const collaborationFetch = (input: string, init: RequestInit = {}) =>
+  fetch(input, {
+    ...init,
+    headers: { ...(init.headers as Record<string, string> | undefined), 'X-Client-Id': COLLABORATION_CLIENT_ID },
+  });
+
+// Keeps unchanged records identical so that a refetch caused by someone else's
+// change does not reset open edit forms of untouched elements.
+const reconcileRecords = <T extends { id: string }>(current: T[], next: T[]): T[] => {
+  const currentById = new Map(current.map((record) => [record.id, record]));
+  return next.map((record) => {
+    const existing = currentById.get(record.id);
+    return existing && JSON.stringify(existing) === JSON.stringify(record) ? existing : record;
+  });
+};
+
+// Layouts were kept in the browser before they were stored per project; they
+// are uploaded once into the first view that has no stored layout yet.
+const readLegacyLayout = (projectId: string): { nodePositions: NodePositionMap; containerSizes: ContainerSizeMap } => {
+  const readMap = (key: string): Record<string, Record<string, unknown>> => {
+    try {
+      const parsed = JSON.parse(window.localStorage.getItem(key) || '{}') as unknown;
+      return parsed && typeof parsed === 'object' ? (parsed as Record<string, Record<string, unknown>>) : {};
+    } catch {
+      return {};
+    }
+  };
+  const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+  const nodePositions: NodePositionMap = {};
+  Object.entries(readMap(`${NODE_POSITION_STORAGE_PREFIX}${projectId}`)).forEach(([nodeId, value]) => {
+    if (isFiniteNumber(value?.x) && isFiniteNumber(value?.y)) {
+      nodePositions[nodeId] = { x: value.x, y: value.y };
+    }
+  });
+  const containerSizes: ContainerSizeMap = {};
+  Object.entries(readMap(`${CONTAINER_SIZE_STORAGE_PREFIX}${projectId}`)).forEach(([nodeId, value]) => {
+    if (isFiniteNumber(value?.width) && isFiniteNumber(value?.height) && value.width > 0 && value.height > 0) {
+      containerSizes[nodeId] = { width: value.width, height: value.height };
+    }
+  });
+  return { nodePositions, containerSizes };
+};
+
+const clearLegacyLayout = (projectId: string) => {
+  try {
+    window.localStorage.removeItem(`${NODE_POSITION_STORAGE_PREFIX}${projectId}`);
+    window.localStorage.removeItem(`${CONTAINER_SIZE_STORAGE_PREFIX}${projectId}`);
+  } catch {
+    // Ignore storage errors (e.g., private mode).
+  }
+};
+
+const getInitials = (name: string) =>
+  name
+    .split(/[\s@._-]+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((part) => part[0].toUpperCase())
+    .join('') || '?';
+
 function EightHandleNode({ data }: NodeProps<GraphNodeData>) {
   return (
     <div className="relative h-full w-full">
@@ -346,6 +512,18 @@ function EightHandleNode({ data }: NodeProps<GraphNodeData>) {
   );
 }
 
+function ZoneRegionNode({ data }: NodeProps<GraphNodeData>) {
+  return <div className="pointer-events-none h-full w-full">{data.label}</div>;
+}
+
+const hexToRgba = (hex: string, alpha: number) => {
+  const normalized = /^#[0-9a-fA-F]{6}$/.test(hex) ? hex : ZONE_COLOR_OPTIONS[0];
+  const red = Number.parseInt(normalized.slice(1, 3), 16);
+  const green = Number.parseInt(normalized.slice(3, 5), 16);
+  const blue = Number.parseInt(normalized.slice(5, 7), 16);
+  return `rgba(${red},${green},${blue},${alpha})`;
+};
+
 const getRect = (position: NodePosition, size: NodeSize) => ({
   left: position.x,
   top: position.y,
@@ -380,6 +558,8 @@ export default function GraphEditor({ projectId, canEdit = false }: GraphEditorP
   const [dataObjects, setDataObjects] = useState<ApiDataObject[]>([]);
   const [componentData, setComponentData] = useState<ApiComponentData[]>([]);
   const [edgeDataFlows, setEdgeDataFlows] = useState<ApiEdgeDataFlow[]>([]);
+  const [zones, setZones] = useState<ApiZone[]>([]);
+  const [conduits, setConduits] = useState<ApiConduit[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [hasLoadedOnce, setHasLoadedOnce] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
@@ -401,10 +581,18 @@ export default function GraphEditor({ projectId, canEdit = false }: GraphEditorP
   const [inlineNodeName, setInlineNodeName] = useState('');
   const [inlineEdgeName, setInlineEdgeName] = useState('');
   const [nodePositionMap, setNodePositionMap] = useState<NodePositionMap>({});
-  const [positionsReady, setPositionsReady] = useState(false);
   const [containerSizeMap, setContainerSizeMap] = useState<ContainerSizeMap>({});
-  const [containerSizesReady, setContainerSizesReady] = useState(false);
+  const [isLayoutReady, setIsLayoutReady] = useState(false);
+  const [diagramViews, setDiagramViews] = useState<ApiDiagramView[]>([]);
+  const [activeViewId, setActiveViewId] = useState<string | null>(null);
+  const [autoLayoutAlgorithm, setAutoLayoutAlgorithm] = useState<AutoLayoutAlgorithm>('layered');
+  const [isAutoLayoutBusy, setIsAutoLayoutBusy] = useState(false);
   const [activeResize, setActiveResize] = useState<ActiveResizeState | null>(null);
+  const [participants, setParticipants] = useState<CollaborationParticipant[]>([]);
+  const [isLiveConnected, setIsLiveConnected] = useState(false);
+  const fetchModelDataRef = useRef<() => Promise<void>>(async () => {});
+  const loadLayoutRef = useRef<() => Promise<void>>(async () => {});
+  const activeViewIdRef = useRef<string | null>(null);
 
   const [newDataObjectName, setNewDataObjectName] = useState('');
   const [newDataObjectClass, setNewDataObjectClass] = useState<DataClass>('Other');
@@ -448,14 +636,61 @@ export default function GraphEditor({ projectId, canEdit = false }: GraphEditorP
   const [restoringSavepointId, setRestoringSavepointId] = useState<string | null>(null);
   const [deletingSavepointId, setDeletingSavepointId] = useState<string | null>(null);
   const [savepointError, setSavepointError] = useState('');
+  const [snapshotDiff, setSnapshotDiff] = useState<ApiSnapshotDiff | null>(null);
+  const [diffSavepoint, setDiffSavepoint] = useState<ApiModelSnapshotSummary | null>(null);
+  const [isDiffLoading, setIsDiffLoading] = useState(false);
+  const [diffRestoreKeys, setDiffRestoreKeys] = useState<string[]>([]);
+  const [isRestoringSelection, setIsRestoringSelection] = useState(false);
+  const [newZoneName, setNewZoneName] = useState('');
+  const [newZoneSecurityLevel, setNewZoneSecurityLevel] = useState(1);
+  const [busyZoneId, setBusyZoneId] = useState<string | null>(null);
+  const [zoneError, setZoneError] = useState('');
+  const [attackPathHighlight, setAttackPathHighlight] = useState<AttackPathHighlight | null>(null);
 
   const nodeById = useMemo(() => new Map(modelNodes.map((node) => [node.id, node])), [modelNodes]);
   const edgeById = useMemo(() => new Map(modelEdges.map((edge) => [edge.id, edge])), [modelEdges]);
   const dataObjectById = useMemo(() => new Map(dataObjects.map((item) => [item.id, item])), [dataObjects]);
-  const nodeTypes = useMemo(() => ({ eightHandleNode: EightHandleNode }), []);
+  const nodeTypes = useMemo(() => ({ eightHandleNode: EightHandleNode, zoneRegion: ZoneRegionNode }), []);
+  const zoneById = useMemo(() => new Map(zones.map((zone) => [zone.id, zone])), [zones]);
+  const conduitByEdgeId = useMemo(() => {
+    const map = new Map<string, ApiConduit>();
+    conduits.forEach((conduit) => conduit.edgeIds.forEach((edgeId) => map.set(edgeId, conduit)));
+    return map;
+  }, [conduits]);
   const selectedNodeIdSet = useMemo(() => new Set(selectedNodeIds), [selectedNodeIds]);
   const selectedEdgeIdSet = useMemo(() => new Set(selectedEdgeIds), [selectedEdgeIds]);
 
+  const remoteParticipants = useMemo(
+    () => participants.filter((participant) => participant.clientId !== COLLABORATION_CLIENT_ID),
+    [participants]
+  );
+
+  const remoteSelectorsByElementId = useMemo(() => {
+    const map = new Map<string, CollaborationParticipant[]>();
+    remoteParticipants.forEach((participant) => {
+      [...participant.selection.nodeIds, ...participant.selection.edgeIds].forEach((elementId) => {
+        map.set(elementId, [...(map.get(elementId) || []), participant]);
+      });
+    });
+    return map;
+  }, [remoteParticipants]);
+
+  useEffect(() => {
+    if (!isLiveConnected) {
+      return;
+    }
+    const timer = setTimeout(() => {
+      const nodeIds = Array.from(new Set([...selectedNodeIds, ...(selectedNodeId ? [selectedNodeId] : [])]));
+      const edgeIds = Array.from(new Set([...selectedEdgeIds, ...(selectedEdgeId ? [selectedEdgeId] : [])]));
+      void fetch(`/api/projects/${projectId}/events`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ clientId: COLLABORATION_CLIENT_ID, selection: { nodeIds, edgeIds } }),
+      }).catch(() => undefined);
+    }, PRESENCE_UPDATE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [isLiveConnected, projectId, selectedEdgeId, selectedEdgeIds, selectedNodeId, selectedNodeIds]);
+
   const selectedNode = useMemo(
     () => (selectedNodeId ? modelNodes.find((node) => node.id === selectedNodeId) || null : null),
     [modelNodes, selectedNodeId]
@@ -718,9 +953,11 @@ export default function GraphEditor({ projectId, canEdit = false }: GraphEditorP
         description?: string | null;
         notes?: string | null;
         parentNodeId?: string | null;
+        capabilitySecurityLevel?: number | null;
+        expectedUpdatedAt?: string;
       }
     ) => {
-      const response = await fetch(`/api/projects/${projectId}/nodes/${nodeId}`, {
+      const response = await collaborationFetch(`/api/projects/${projectId}/nodes/${nodeId}`, {
         method: 'PUT',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(payload),
@@ -728,6 +965,9 @@ export default function GraphEditor({ projectId, canEdit = false }: GraphEditorP
 
       if (!response.ok) {
         const body = (await response.json().catch(() => ({}))) as { error?: string };
+        if (response.status === 409) {
+          void fetchModelDataRef.current();
+        }
         throw new Error(body.error || 'Node update failed');
       }
     },
@@ -745,9 +985,10 @@ export default function GraphEditor({ projectId, canEdit = false }: GraphEditorP
         notes?: string | null;
         sourceHandleId?: string | null;
         targetHandleId?: string | null;
+        expectedUpdatedAt?: string;
       }
     ) => {
-      const response = await fetch(`/api/projects/${projectId}/edges/${edgeId}`, {
+      const response = await collaborationFetch(`/api/projects/${projectId}/edges/${edgeId}`, {
         method: 'PUT',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(payload),
@@ -755,6 +996,9 @@ export default function GraphEditor({ projectId, canEdit = false }: GraphEditorP
 
       if (!response.ok) {
         const body = (await response.json().catch(() => ({}))) as { error?: string };
+        if (response.status === 409) {
+          void fetchModelDataRef.current();
+        }
         throw new Error(body.error || 'Edge update failed');
       }
     },
@@ -771,9 +1015,10 @@ export default function GraphEditor({ projectId, canEdit = false }: GraphEditorP
         confidentiality?: number;
         integrity?: number;
         availability?: number;
+        expectedUpdatedAt?: string;
       }
     ) => {
-      const response = await fetch(`/api/projects/${projectId}/data-objects/${dataObjectId}`, {
+      const response = await collaborationFetch(`/api/projects/${projectId}/data-objects/${dataObjectId}`, {
         method: 'PUT',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(payload),
@@ -781,6 +1026,9 @@ export default function GraphEditor({ projectId, canEdit = false }: GraphEditorP
 
       if (!response.ok) {
         const body = (await response.json().catch(() => ({}))) as { error?: string };
+        if (response.status === 409) {
+          void fetchModelDataRef.current();
+        }
         throw new Error(body.error || 'Data object update failed');
       }
     },
@@ -818,13 +1066,16 @@ export default function GraphEditor({ projectId, canEdit = false }: GraphEditorP
       setError('');
       setWarning('');
 
-      const [nodesRes, edgesRes, dataObjectsRes, componentDataRes, edgeDataFlowsRes] = await Promise.all([
-        fetch(`/api/projects/${projectId}/nodes`),
-        fetch(`/api/projects/${projectId}/edges`),
-        fetch(`/api/projects/${projectId}/data-objects`),
-        fetch(`/api/projects/${projectId}/component-data`),
-        fetch(`/api/projects/${projectId}/edge-data-flows`),
-      ]);
+      const [nodesRes, edgesRes, dataObjectsRes, componentDataRes, edgeDataFlowsRes, zonesRes, conduitsRes] =
+        await Promise.all([
+          collaborationFetch(`/api/projects/${projectId}/nodes`),
+          collaborationFetch(`/api/projects/${projectId}/edges`),
+          collaborationFetch(`/api/projects/${projectId}/data-objects`),
+          collaborationFetch(`/api/projects/${projectId}/component-data`),
+          collaborationFetch(`/api/projects/${projectId}/edge-data-flows`),
+          collaborationFetch(`/api/projects/${projectId}/zones`),
+          collaborationFetch(`/api/projects/${projectId}/conduits`),
+        ]);
 
       if (!nodesRes.ok || !edgesRes.ok) {
         throw new Error('Model data could not be loaded');
@@ -837,16 +1088,20 @@ export default function GraphEditor({ projectId, canEdit = false }: GraphEditorP
       const nextEdgeDataFlows = edgeDataFlowsRes.ok
         ? ((await edgeDataFlowsRes.json()) as ApiEdgeDataFlow[])
         : [];
+      const nextZones = zonesRes.ok ? ((await zonesRes.json()) as ApiZone[]) : [];
+      const nextConduits = conduitsRes.ok ? ((await conduitsRes.json()) as ApiConduit[]) : [];
 
       if (!dataObjectsRes.ok || !componentDataRes.ok || !edgeDataFlowsRes.ok) {
         setWarning('Core model loaded, but data object details are partially unavailable for this user.');
       }
 
-      setModelNodes(nextNodes);
-      setModelEdges(nextEdges);
-      setDataObjects(nextDataObjects);
+      setModelNodes((current) => reconcileRecords(current, nextNodes));
+      setModelEdges((current) => reconcileRecords(current, nextEdges));
+      setDataObjects((current) => reconcileRecords(current, nextDataObjects));
       setComponentData(nextComponentData);
       setEdgeDataFlows(nextEdgeDataFlows);
+      setZones(nextZones);
+      setConduits(nextConduits);
     } catch (fetchError) {
       setError((fetchError as Error).message);
     } finally {
@@ -860,131 +1115,203 @@ export default function GraphEditor({ projectId, canEdit = false }: GraphEditorP
   }, [fetchModelData]);
 
   useEffect(() => {
-    setHasLoadedOnce(false);
-    setIsLoading(true);
+    fetchModelDataRef.current = fetchModelData;
+  }, [fetchModelData]);
+
+  useEffect(() => {
+    if (typeof EventSource === 'undefined') {
+      return;
+    }
+
+    let refreshTimer: ReturnType<typeof setTimeout> | null = null;
+    let hasConnected = false;
+    const scheduleRefresh = (withLayout = false) => {
+      if (refreshTimer) {
+        clearTimeout(refreshTimer);
+      }
+      refreshTimer = setTimeout(() => {
+        void fetchModelDataRef.current();
+        if (withLayout) {
+          void loadLayoutRef.current();
+        }
+      }, REMOTE_REFRESH_DELAY_MS);
+    };
+    const readPayload = <T,>(event: Event) => JSON.parse((event as MessageEvent<string>).data) as T;
+
+    const source = new EventSource(`/api/projects/${projectId}/events?clientId=${COLLABORATION_CLIENT_ID}`);
+    source.onopen = () => {
+      setIsLiveConnected(true);
+      // Changes made while the connection was down were not pushed.
+      if (hasConnected) {
+        scheduleRefresh(true);
+      }
+      hasConnected = true;
+    };
+    source.onerror = () => {
+      setIsLiveConnected(false);
+    };
+    source.addEventListener('presence', (event) => {
+      setParticipants(readPayload<{ participants: CollaborationParticipant[] }>(event).participants);
+    });
+    source.addEventListener('model-change', (event) => {
+      const payload = readPayload<{ clientId: string | null; entityType: string }>(event);
+      if (payload.clientId !== COLLABORATION_CLIENT_ID) {
+        // A restored savepoint replaces all nodes together with their layout.
+        scheduleRefresh(payload.entityType === 'Model');
+      }
+    });
+    source.addEventListener('layout', (event) => {
+      const payload = readPayload<{
+        viewId: string;
+        clientId: string | null;
+        nodePositions: NodePositionMap;
+        containerSizes?: ContainerSizeMap;
+      }>(event);
+      if (payload.clientId === COLLABORATION_CLIENT_ID || payload.viewId !== activeViewIdRef.current) {
+        return;
+      }
+      setNodePositionMap((current) => ({ ...current, ...payload.nodePositions }));
+      if (payload.containerSizes) {
+        setContainerSizeMap((current) => ({ ...current, ...payload.containerSizes }));
+      }
+    });
+
+    return () => {
+      if (refreshTimer) {
+        clearTimeout(refreshTimer);
+      }
+      source.close();
+      setIsLiveConnected(false);
+      setParticipants([]);
+    };
   }, [projectId]);
 
-  const fetchSavepoints = useCallback(async () => {
+  const fetchDiagramViews = useCallback(async () => {
     try {
-      setIsSavepointsLoading(true);
-      setSavepointError('');
-      const response = await fetch(`/api/projects/${projectId}/savepoints`);
+      const response = await collaborationFetch(`/api/projects/${projectId}/diagram-views`);
       if (!response.ok) {
         const payload = (await response.json().catch(() => ({}))) as { error?: string };
-        throw new Error(payload.error || 'Savepoints could not be loaded');
+        throw new Error(payload.error || 'Diagram views could not be loaded');
       }
-      const data = (await response.json()) as ApiModelSnapshotSummary[];
-      setSavepoints(data);
+      const views = (await response.json()) as ApiDiagramView[];
+      setDiagramViews(views);
+      setActiveViewId((current) =>
+        current && views.some((view) => view.id === current)
+          ? current
+          : views.find((view) => view.isDefault)?.id || views[0]?.id || null
+      );
     } catch (fetchError) {
-      setSavepointError((fetchError as Error).message);
-    } finally {
-      setIsSavepointsLoading(false);
+      setError((fetchError as Error).message);
+      setIsLayoutReady(true);
     }
   }, [projectId]);
 
   useEffect(() => {
-    void fetchSavepoints();
-  }, [fetchSavepoints]);
+    setActiveViewId(null);
+    setIsLayoutReady(false);
+    void fetchDiagramViews();
+  }, [fetchDiagramViews]);
 
-  useEffect(() => {
-    setPositionsReady(false);
+  const loadLayout = useCallback(async () => {
+    if (!activeViewId) {
+      return;
+    }
 
     try {
-      const raw = window.localStorage.getItem(`${NODE_POSITION_STORAGE_PREFIX}${projectId}`);
-      if (!raw) {
-        setNodePositionMap({});
-        return;
+      const layoutUrl = `/api/projects/${projectId}/diagram-views/${activeViewId}/layout`;
+      const response = await collaborationFetch(layoutUrl);
+      if (!response.ok) {
+        const payload = (await response.json().catch(() => ({}))) as { error?: string };
+        throw new Error(payload.error || 'Layout could not be loaded');
       }
+      let layout = (await response.json()) as ApiDiagramLayout;
 
-      const parsed = JSON.parse(raw) as Record<string, unknown>;
-      const sanitized: NodePositionMap = {};
-      Object.entries(parsed).forEach(([nodeId, value]) => {
-        if (typeof value !== 'object' || value === null) {
-          return;
+      const legacyLayout = canEdit && Object.keys(layout.nodePositions).length === 0 ? readLegacyLayout(projectId) : null;
+      if (legacyLayout && Object.keys(legacyLayout.nodePositions).length > 0) {
+        const migrateResponse = await collaborationFetch(layoutUrl, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(legacyLayout),
+        });
+        if (migrateResponse.ok) {
+          layout = (await migrateResponse.json()) as ApiDiagramLayout;
+          clearLegacyLayout(projectId);
         }
+      }
 
-        const position = value as { x?: unknown; y?: unknown };
-        if (typeof position.x === 'number' && Number.isFinite(position.x) && typeof position.y === 'number' && Number.isFinite(position.y)) {
-          sanitized[nodeId] = { x: position.x, y: position.y };
-        }
-      });
-      setNodePositionMap(sanitized);
-    } catch {
-      setNodePositionMap({});
+      setNodePositionMap(layout.nodePositions);
+      setContainerSizeMap(layout.containerSizes);
+    } catch (loadError) {
+      setError((loadError as Error).message);
     } finally {
-      setPositionsReady(true);
+      setIsLayoutReady(true);
     }
-  }, [projectId]);
+  }, [activeViewId, canEdit, projectId]);
 
   useEffect(() => {
-    if (!positionsReady) {
-      return;
-    }
-
-    try {
-      window.localStorage.setItem(`${NODE_POSITION_STORAGE_PREFIX}${projectId}`, JSON.stringify(nodePositionMap));
-    } catch {
-      // Ignore persistence errors (e.g., storage limits/private mode).
-    }
-  }, [nodePositionMap, positionsReady, projectId]);
+    activeViewIdRef.current = activeViewId;
+    loadLayoutRef.current = loadLayout;
+    setIsLayoutReady(false);
+    void loadLayout();
+  }, [activeViewId, loadLayout]);
+
+  const persistLayout = useCallback(
+    (nodePositions: NodePositionMap, containerSizes: ContainerSizeMap = {}) => {
+      if (
+        !canEdit ||
+        !activeViewId ||
+        Object.keys(nodePositions).length + Object.keys(containerSizes).length === 0
+      ) {
+        return;
+      }
+      void collaborationFetch(`/api/projects/${projectId}/diagram-views/${activeViewId}/layout`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ nodePositions, containerSizes }),
+      })
+        .then((response) => {
+          if (!response.ok) {
+            setWarning('Layout changes could not be saved.');
+          }
+        })
+        .catch(() => setWarning('Layout changes could not be saved.'));
+    },
+    [activeViewId, canEdit, projectId]
+  );
 
   useEffect(() => {
-    setContainerSizesReady(false);
+    setHasLoadedOnce(false);
+    setIsLoading(true);
+  }, [projectId]);
 
+  const fetchSavepoints = useCallback(async () => {
     try {
-      const raw = window.localStorage.getItem(`${CONTAINER_SIZE_STORAGE_PREFIX}${projectId}`);
-      if (!raw) {
-        setContainerSizeMap({});
-        return;
+      setIsSavepointsLoading(true);
+      setSavepointError('');
+      const response = await collaborationFetch(`/api/projects/${projectId}/savepoints`);
+      if (!response.ok) {
+        const payload = (await response.json().catch(() => ({}))) as { error?: string };
+        throw new Error(payload.error || 'Savepoints could not be loaded');
       }
-
-      const parsed = JSON.parse(raw) as Record<string, unknown>;
-      const sanitized: ContainerSizeMap = {};
-      Object.entries(parsed).forEach(([nodeId, value]) => {
-        if (typeof value !== 'object' || value === null) {
-          return;
-        }
-
-        const size = value as { width?: unknown; height?: unknown };
-        if (
-          typeof size.width === 'number' &&
-          Number.isFinite(size.width) &&
-          size.width > 0 &&
-          typeof size.height === 'number' &&
-          Number.isFinite(size.height) &&
-          size.height > 0
-        ) {
-          sanitized[nodeId] = {
-            width: size.width,
-            height: size.height,
-          };
-        }
-      });
-      setContainerSizeMap(sanitized);
-    } catch {
-      setContainerSizeMap({});
+      const data = (await response.json()) as ApiModelSnapshotSummary[];
+      setSavepoints(data);
+    } catch (fetchError) {
+      setSavepointError((fetchError as Error).message);
     } finally {
-      setContainerSizesReady(true);
+      setIsSavepointsLoading(false);
     }
   }, [projectId]);
 
   useEffect(() => {
-    if (!containerSizesReady) {
-      return;
-    }
-
-    try {
-      window.localStorage.setItem(`${CONTAINER_SIZE_STORAGE_PREFIX}${projectId}`, JSON.stringify(containerSizeMap));
-    } catch {
-      // Ignore persistence errors (e.g., storage limits/private mode).
-    }
-  }, [containerSizeMap, containerSizesReady, projectId]);
+    void fetchSavepoints();
+  }, [fetchSavepoints]);
 
   useEffect(() => {
     if (!activeResize) {
       return;
     }
 
+    let resizedSize: NodeSize | null = null;
     const onMouseMove = (event: MouseEvent) => {
       const width = Math.max(
         MIN_CONTAINER_DIMENSION,
@@ -994,6 +1321,7 @@ export default function GraphEditor({ projectId, canEdit = false }: GraphEditorP
         MIN_CONTAINER_DIMENSION,
         Math.round(activeResize.startHeight + (event.clientY - activeResize.startClientY))
       );
+      resizedSize = { width, height };
 
       setContainerSizeMap((current) => {
         const previous = current[activeResize.nodeId];
@@ -1008,6 +1336,9 @@ export default function GraphEditor({ projectId, canEdit = false }: GraphEditorP
     };
 
     const onMouseUp = () => {
+      if (resizedSize) {
+        persistLayout({}, { [activeResize.nodeId]: resizedSize });
+      }
       setActiveResize(null);
     };
 
@@ -1022,7 +1353,7 @@ export default function GraphEditor({ projectId, canEdit = false }: GraphEditorP
       window.removeEventListener('mousemove', onMouseMove);
       window.removeEventListener('mouseup', onMouseUp);
     };
-  }, [activeResize]);
+  }, [activeResize, persistLayout]);
 
   const startContainerResize = useCallback(
     (
@@ -1136,7 +1467,7 @@ export default function GraphEditor({ projectId, canEdit = false }: GraphEditorP
 
     try {
       setError('');
-      await applyNodeUpdate(currentNode.id, { name: nextName });
+      await applyNodeUpdate(currentNode.id, { name: nextName, expectedUpdatedAt: currentNode.updatedAt });
       registerHistoryAction({
         label: `Rename node "${currentNode.name}"`,
         undo: async () => applyNodeUpdate(currentNode.id, { name: currentNode.name }),
@@ -1203,7 +1534,7 @@ export default function GraphEditor({ projectId, canEdit = false }: GraphEditorP
 
     try {
       setError('');
-      await applyEdgeUpdate(currentEdge.id, { name: nextName });
+      await applyEdgeUpdate(currentEdge.id, { name: nextName, expectedUpdatedAt: currentEdge.updatedAt });
       registerHistoryAction({
         label: 'Rename interface',
         undo: async () => applyEdgeUpdate(currentEdge.id, { name: previousName }),
@@ -1273,7 +1604,10 @@ export default function GraphEditor({ projectId, canEdit = false }: GraphEditorP
 
     try {
       setError('');
-      await applyDataObjectUpdate(currentDataObject.id, { name: nextName });
+      await applyDataObjectUpdate(currentDataObject.id, {
+        name: nextName,
+        expectedUpdatedAt: currentDataObject.updatedAt,
+      });
       registerHistoryAction({
         label: `Rename data object "${currentDataObject.name}"`,
         undo: async () => applyDataObjectUpdate(currentDataObject.id, { name: currentDataObject.name }),
@@ -1300,8 +1634,20 @@ export default function GraphEditor({ projectId, canEdit = false }: GraphEditorP
     registerHistoryAction,
   ]);
 
+  const diffStatusByElementId = useMemo(() => {
+    const statuses = new Map<string, SnapshotDiffChange | 'moved'>();
+    snapshotDiff?.entries.forEach((entry) => {
+      if (entry.entityType === 'node' || entry.entityType === 'edge') {
+        statuses.set(entry.id, entry.change);
+      } else if (entry.entityType === 'placement' && !statuses.has(entry.id)) {
+        statuses.set(entry.id, 'moved');
+      }
+    });
+    return statuses;
+  }, [snapshotDiff]);
+
   useEffect(() => {
-    if (!positionsReady || !containerSizesReady) {
+    if (!isLayoutReady) {
       return;
     }
 
@@ -1393,6 +1739,8 @@ export default function GraphEditor({ projectId, canEdit = false }: GraphEditorP
 
     const rfNodes: GraphNode[] = visibleNodes.map((node) => {
       const isSelected = selectedNodeIdSet.has(node.id) || node.id === selectedNodeId;
+      const remoteSelectors = remoteSelectorsByElementId.get(node.id) || [];
+      const diffStatus = diffStatusByElementId.get(node.id);
       const isContainer = isContainerNode(node);
       const childCount = (childrenByParentId.get(node.id) || []).length;
       const nodePosition = nextPositionMap[node.id] || { x: ROOT_GRID_X, y: ROOT_GRID_Y };
@@ -1410,6 +1758,22 @@ export default function GraphEditor({ projectId, canEdit = false }: GraphEditorP
                 isContainer ? 'justify-start pt-1' : 'justify-center'
               } gap-0.5 px-2 pb-5 text-center`}
             >
+              {diffStatus ? (
+                <span
+                  className="absolute -top-5 left-0 rounded px-1.5 py-0.5 text-[10px] font-semibold capitalize text-slate-900"
+                  style={{ background: SNAPSHOT_DIFF_COLORS[diffStatus] }}
+                >
+                  {diffStatus}
+                </span>
+              ) : null}
+              {remoteSelectors.length > 0 ? (
+                <span
+                  className="absolute -top-5 right-0 max-w-full truncate rounded px-1.5 py-0.5 text-[10px] font-semibold text-slate-900"
+                  style={{ background: remoteSelectors[0].color }}
+                >
+                  {remoteSelectors.map((participant) => participant.name).join(', ')}
+                </span>
+              ) : null}
               {canEdit && editingNodeId === node.id ? (
                 <input
                   autoFocus
@@ -1482,7 +1846,19 @@ export default function GraphEditor({ projectId, canEdit = false }: GraphEditorP
         position: nodePosition,
         style: {
           borderRadius: isContainer ? 14 : 12,
-          border: `2px solid ${isSelected ? '#f59e0b' : isContainer ? '#22d3ee' : '#475569'}`,
+          border: `2px solid ${
+            isSelected
+              ? '#f59e0b'
+              : remoteSelectors.length > 0
+                ? remoteSelectors[0].color
+                : diffStatus
+                  ? SNAPSHOT_DIFF_COLORS[diffStatus]
+                  : isContainer
+                ? '#22d3ee'
+                : attackPathHighlight?.nodeIds.has(node.id)
+                  ? ATTACK_PATH_COLOR
+                  : '#475569'
+          }`,
           background: isContainer
             ? 'linear-gradient(180deg, rgba(30,41,59,0.72) 0%, rgba(15,23,42,0.55) 100%)'
             : '#1e293b',
@@ -1497,8 +1873,87 @@ export default function GraphEditor({ projectId, canEdit = false }: GraphEditorP
       };
     });
 
+    const effectiveZoneIdByNodeId = new Map<string, string | null>();
+    const resolveEffectiveZoneId = (nodeId: string, depth = 0): string | null => {
+      if (effectiveZoneIdByNodeId.has(nodeId)) {
+        return effectiveZoneIdByNodeId.get(nodeId) ?? null;
+      }
+      const node = nodeById.get(nodeId);
+      if (!node || depth > modelNodes.length) {
+        return null;
+      }
+      const zoneId =
+        (node.zoneId && zoneById.has(node.zoneId) ? node.zoneId : null) ||
+        (node.parentNodeId ? resolveEffectiveZoneId(node.parentNodeId, depth + 1) : null);
+      effectiveZoneIdByNodeId.set(nodeId, zoneId);
+      return zoneId;
+    };
+
+    const zoneBounds = new Map<string, { minX: number; minY: number; maxX: number; maxY: number }>();
+    visibleNodes.forEach((node) => {
+      const zoneId = resolveEffectiveZoneId(node.id);
+      const position = nextPositionMap[node.id];
+      if (!zoneId || !position) {
+        return;
+      }
+      const size = isContainerNode(node)
+        ? nextContainerSizeMap[node.id] || { width: DEFAULT_CONTAINER_WIDTH, height: DEFAULT_CONTAINER_HEIGHT }
+        : { width: COMPONENT_WIDTH, height: COMPONENT_HEIGHT };
+      const bounds = zoneBounds.get(zoneId);
+      zoneBounds.set(zoneId, {
+        minX: Math.min(bounds?.minX ?? position.x, position.x),
+        minY: Math.min(bounds?.minY ?? position.y, position.y),
+        maxX: Math.max(bounds?.maxX ?? position.x + size.width, position.x + size.width),
+        maxY: Math.max(bounds?.maxY ?? position.y + size.height, position.y + size.height),
+      });
+    });
+
+    const zoneRegionNodes: GraphNode[] = Array.from(zoneBounds.entries()).flatMap(([zoneId, bounds]) => {
+      const zone = zoneById.get(zoneId);
+      if (!zone) {
+        return [];
+      }
+      const color = zone.color || ZONE_COLOR_OPTIONS[0];
+      const width = bounds.maxX - bounds.minX + ZONE_REGION_PADDING * 2;
+      const height = bounds.maxY - bounds.minY + ZONE_REGION_PADDING * 2 + ZONE_REGION_LABEL_HEIGHT;
+      return [
+        {
+          id: `zone-region:${zone.id}`,
+          type: 'zoneRegion',
+          data: {
+            label: (
+              <div className="px-2 pt-1 text-left text-[11px] font-semibold" style={{ color }}>
+                {zone.name} · SL-T {zone.targetSecurityLevel}
+              </div>
+            ),
+          },
+          position: {
+            x: bounds.minX - ZONE_REGION_PADDING,
+            y: bounds.minY - ZONE_REGION_PADDING - ZONE_REGION_LABEL_HEIGHT,
+          },
+          draggable: false,
+          selectable: false,
+          connectable: false,
+          focusable: false,
+          style: {
+            width,
+            height,
+            borderRadius: 18,
+            border: `2px dashed ${hexToRgba(color, 0.7)}`,
+            background: hexToRgba(color, 0.08),
+            pointerEvents: 'none',
+            zIndex: -1,
+          },
+        },
+      ];
+    });
+
     const rfEdges: GraphEdge[] = visibleEdges.map((edge) => {
       const isSelected = selectedEdgeIdSet.has(edge.id) || edge.id === selectedEdgeId;
+      const remoteSelector = remoteSelectorsByElementId.get(edge.id)?.[0];
+      const diffStatus = diffStatusByElementId.get(edge.id);
+      const isConduitEdge = conduitByEdgeId.has(edge.id);
+      const isAttackPathEdge = Boolean(attackPathHighlight?.edgeIds.has(edge.id));
       const nearestHandles = resolveNearestDirectionalHandles(edge.sourceNodeId, edge.targetNodeId);
       const sourceHandle = isOutHandleId(edge.sourceHandleId) ? edge.sourceHandleId : nearestHandles.sourceHandleId;
       const targetHandle = isInHandleId(edge.targetHandleId) ? edge.targetHandleId : nearestHandles.targetHandleId;
@@ -1563,8 +2018,19 @@ export default function GraphEditor({ projectId, canEdit = false }: GraphEditorP
           pointerEvents: 'all',
         },
         style: {
-          stroke: isSelected ? '#f59e0b' : '#cbd5e1',
-          strokeWidth: isSelected ? 2.5 : 2,
+          stroke: isSelected
+            ? '#f59e0b'
+            : remoteSelector
+              ? remoteSelector.color
+              : diffStatus
+                ? SNAPSHOT_DIFF_COLORS[diffStatus]
+                : isAttackPathEdge
+              ? ATTACK_PATH_COLOR
+              : isConduitEdge
+                ? CONDUIT_EDGE_COLOR
+                : '#cbd5e1',
+          strokeWidth: isSelected || isAttackPathEdge ? 2.5 : 2,
+          strokeDasharray: isConduitEdge && !isSelected && !isAttackPathEdge ? '6 4' : undefined,
         },
         markerEnd:
           edge.direction === 'A_TO_B' || edge.direction === 'BIDIRECTIONAL'
@@ -1577,7 +2043,52 @@ export default function GraphEditor({ projectId, canEdit = false }: GraphEditorP
       };
     });
 
-    setNodes(rfNodes);
+    // Nodes deleted since the compared snapshot are drawn where they were, as dashed outlines
+    const removedNodeOutlines: GraphNode[] = (snapshotDiff?.entries || [])
+      .filter((entry) => entry.entityType === 'node' && entry.change === 'removed')
+      .flatMap((entry) => {
+        const position = snapshotDiff?.fromLayout.nodePositions[entry.id];
+        if (!position) {
+          return [];
+        }
+        const category = String(entry.before?.category || '').toLowerCase();
+        const isContainerOutline = category === 'container' || category === 'system';
+        const size = isContainerOutline
+          ? snapshotDiff?.fromLayout.containerSizes[entry.id] || {
+              width: DEFAULT_CONTAINER_WIDTH,
+              height: DEFAULT_CONTAINER_HEIGHT,
+            }
+          : { width: COMPONENT_WIDTH, height: COMPONENT_HEIGHT };
+        return [
+          {
+            id: `diff-removed:${entry.id}`,
+            type: 'zoneRegion',
+            data: {
+              label: (
+                <div className="px-2 pt-1 text-left text-[11px] font-semibold text-red-300 line-through">
+                  {entry.label}
+                </div>
+              ),
+            },
+            position,
+            draggable: false,
+            selectable: false,
+            connectable: false,
+            focusable: false,
+            style: {
+              width: size.width,
+              height: size.height,
+              borderRadius: 8,
+              border: `2px dashed ${SNAPSHOT_DIFF_COLORS.removed}`,
+              background: hexToRgba(SNAPSHOT_DIFF_COLORS.removed, 0.08),
+              pointerEvents: 'none',
+              zIndex: isContainerOutline ? -1 : 5,
+            },
+          },
+        ];
+      });
+
+    setNodes([...zoneRegionNodes, ...removedNodeOutlines, ...rfNodes]);
     setEdges(rfEdges);
 
     const isPositionMapChanged = (() => {
@@ -1612,13 +2123,15 @@ export default function GraphEditor({ projectId, canEdit = false }: GraphEditorP
       setContainerSizeMap(nextContainerSizeMap);
     }
   }, [
+    attackPathHighlight,
     canEdit,
     cancelInlineEdgeRename,
     cancelInlineNodeRename,
     commitInlineEdgeRename,
     commitInlineNodeRename,
+    conduitByEdgeId,
     containerSizeMap,
-    containerSizesReady,
+    diffStatusByElementId,
     editingEdgeId,
     editingNodeId,
     globalContainerId,
@@ -1626,10 +2139,12 @@ export default function GraphEditor({ projectId, canEdit = false }: GraphEditorP
     inlineEdgeName,
     inlineNodeName,
     isContainerNode,
+    isLayoutReady,
     modelEdges,
     modelNodes,
+    nodeById,
     nodePositionMap,
-    positionsReady,
+    remoteSelectorsByElementId,
     resolveNearestDirectionalHandles,
     selectedEdgeId,
     selectedEdgeIdSet,
@@ -1637,7 +2152,9 @@ export default function GraphEditor({ projectId, canEdit = false }: GraphEditorP
     selectedNodeIdSet,
     setEdges,
     setNodes,
+    snapshotDiff,
     startContainerResize,
+    zoneById,
   ]);
 
   useEffect(() => {
@@ -1729,7 +2246,7 @@ export default function GraphEditor({ projectId, canEdit = false }: GraphEditorP
         description: payload.description?.trim() || undefined,
         parentNodeId: payload.parentNodeId ?? null,
       };
-      const response = await fetch(`/api/projects/${projectId}/nodes`, {
+      const response = await collaborationFetch(`/api/projects/${projectId}/nodes`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(createPayload),
@@ -1746,12 +2263,12 @@ export default function GraphEditor({ projectId, canEdit = false }: GraphEditorP
       registerHistoryAction({
         label: `Create node "${createPayload.name}"`,
         undo: async () => {
-          await fetch(`/api/projects/${projectId}/nodes/${currentNodeId}`, {
+          await collaborationFetch(`/api/projects/${projectId}/nodes/${currentNodeId}`, {
             method: 'DELETE',
           });
         },
         redo: async () => {
-          const redoResponse = await fetch(`/api/projects/${projectId}/nodes`, {
+          const redoResponse = await collaborationFetch(`/api/projects/${projectId}/nodes`, {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify(createPayload),
@@ -1817,7 +2334,7 @@ export default function GraphEditor({ projectId, canEdit = false }: GraphEditorP
         dataClass: newDataObjectClass,
         description: newDataObjectDescription.trim() || undefined,
       };
-      const response = await fetch(`/api/projects/${projectId}/data-objects`, {
+      const response = await collaborationFetch(`/api/projects/${projectId}/data-objects`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(createPayload),
@@ -1834,12 +2351,12 @@ export default function GraphEditor({ projectId, canEdit = false }: GraphEditorP
       registerHistoryAction({
         label: `Create data object "${createPayload.name}"`,
         undo: async () => {
-          await fetch(`/api/projects/${projectId}/data-objects/${currentDataObjectId}`, {
+          await collaborationFetch(`/api/projects/${projectId}/data-objects/${currentDataObjectId}`, {
             method: 'DELETE',
           });
         },
         redo: async () => {
-          const redoResponse = await fetch(`/api/projects/${projectId}/data-objects`, {
+          const redoResponse = await collaborationFetch(`/api/projects/${projectId}/data-objects`, {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify(createPayload),
@@ -1881,10 +2398,17 @@ export default function GraphEditor({ projectId, canEdit = false }: GraphEditorP
       setIsCreatingSavepoint(true);
       setSavepointError('');
       const snapshot = {
-        version: 1,
+        version: 2,
         capturedAt: new Date().toISOString(),
         nodes: modelNodes,
         edges: modelEdges,
+        zones: zones.map((zone) => ({
+          id: zone.id,
+          name: zone.name,
+          description: zone.description ?? null,
+          targetSecurityLevel: zone.targetSecurityLevel,
+          color: zone.color ?? null,
+        })),
         dataObjects,
         componentData,
         edgeDataFlows,
@@ -1892,7 +2416,7 @@ export default function GraphEditor({ projectId, canEdit = false }: GraphEditorP
         containerSizes: containerSizeMap,
       };
 
-      const response = await fetch(`/api/projects/${projectId}/savepoints`, {
+      const response = await collaborationFetch(`/api/projects/${projectId}/savepoints`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
@@ -1915,6 +2439,220 @@ export default function GraphEditor({ projectId, canEdit = false }: GraphEditorP
     }
   };
 
+  const activeDiagramView = diagramViews.find((view) => view.id === activeViewId) || null;
+
+  const requestDiagramView = async (url: string, init: RequestInit, fallbackError: string) => {
+    const response = await collaborationFetch(url, init);
+    const payload = (await response.json().catch(() => ({}))) as Partial<ApiDiagramView> & { error?: string };
+    if (!response.ok) {
+      throw new Error(payload.error || fallbackError);
+    }
+    return payload;
+  };
+
+  const handleCreateDiagramView = async () => {
+    const name = window.prompt('Name of the new view (starts with the current layout):', '')?.trim();
+    if (!canEdit || !name) {
+      return;
+    }
+
+    try {
+      setError('');
+      const view = await requestDiagramView(
+        `/api/projects/${projectId}/diagram-views`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ name, copyFromViewId: activeViewId }),
+        },
+        'View could not be created'
+      );
+      await fetchDiagramViews();
+      setActiveViewId(view.id || null);
+    } catch (viewError) {
+      setError((viewError as Error).message);
+    }
+  };
+
+  const handleUpdateDiagramView = async (data: { name?: string; isDefault?: true }) => {
+    if (!canEdit || !activeDiagramView) {
+      return;
+    }
+
+    try {
+      setError('');
+      await requestDiagramView(
+        `/api/projects/${projectId}/diagram-views/${activeDiagramView.id}`,
+        { method: 'PUT', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(data) },
+        'View could not be updated'
+      );
+      await fetchDiagramViews();
+    } catch (viewError) {
+      setError((viewError as Error).message);
+    }
+  };
+
+  const handleRenameDiagramView = async () => {
+    const name = activeDiagramView ? window.prompt('New view name:', activeDiagramView.name)?.trim() : '';
+    if (name && name !== activeDiagramView?.name) {
+      await handleUpdateDiagramView({ name });
+    }
+  };
+
+  const handleDeleteDiagramView = async () => {
+    if (!canEdit || !activeDiagramView || activeDiagramView.isDefault) {
+      return;
+    }
+    if (!window.confirm(`Delete view "${activeDiagramView.name}"?\n\nThe model itself is not changed.`)) {
+      return;
+    }
+
+    try {
+      setError('');
+      await requestDiagramView(
+        `/api/projects/${projectId}/diagram-views/${activeDiagramView.id}`,
+        { method: 'DELETE' },
+        'View could not be deleted'
+      );
+      setActiveViewId(null);
+      await fetchDiagramViews();
+    } catch (viewError) {
+      setError((viewError as Error).message);
+    }
+  };
+
+  const autoLayoutContainer =
+    selectedNode && isContainerNode(selectedNode) && selectedNode.id !== globalContainerId ? selectedNode : null;
+
+  const handleAutoLayout = async () => {
+    if (!canEdit || !activeViewId || isAutoLayoutBusy) {
+      return;
+    }
+
+    try {
+      setIsAutoLayoutBusy(true);
+      setError('');
+      const response = await collaborationFetch(`/api/projects/${projectId}/diagram-views/${activeViewId}/auto-layout`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ algorithm: autoLayoutAlgorithm, containerId: autoLayoutContainer?.id ?? null }),
+      });
+      const payload = (await response.json().catch(() => ({}))) as Partial<ApiDiagramLayout> & { error?: string };
+      if (!response.ok || !payload.nodePositions || !payload.containerSizes) {
+        throw new Error(payload.error || 'Auto layout failed');
+      }
+
+      const nextPositions = payload.nodePositions;
+      const nextSizes = payload.containerSizes;
+      const previousPositions: NodePositionMap = {};
+      Object.keys(nextPositions).forEach((nodeId) => {
+        if (nodePositionMap[nodeId]) {
+          previousPositions[nodeId] = nodePositionMap[nodeId];
+        }
+      });
+      const previousSizes: ContainerSizeMap = {};
+      Object.keys(nextSizes).forEach((nodeId) => {
+        if (containerSizeMap[nodeId]) {
+          previousSizes[nodeId] = containerSizeMap[nodeId];
+        }
+      });
+
+      const applyLayout = (positions: NodePositionMap, sizes: ContainerSizeMap) => {
+        setNodePositionMap((current) => ({ ...current, ...positions }));
+        setContainerSizeMap((current) => ({ ...current, ...sizes }));
+      };
+      applyLayout(nextPositions, nextSizes);
+      registerHistoryAction({
+        label: autoLayoutContainer ? `Auto layout "${autoLayoutContainer.name}"` : 'Auto layout',
+        undo: async () => {
+          applyLayout(previousPositions, previousSizes);
+          persistLayout(previousPositions, previousSizes);
+        },
+        redo: async () => {
+          applyLayout(nextPositions, nextSizes);
+          persistLayout(nextPositions, nextSizes);
+        },
+      });
+    } catch (layoutError) {
+      setError((layoutError as Error).message);
+    } finally {
+      setIsAutoLayoutBusy(false);
+    }
+  };
+
+  const loadSnapshotDiff = async (savepoint: ApiModelSnapshotSummary) => {
+    try {
+      setIsDiffLoading(true);
+      setSavepointError('');
+      const query = new URLSearchParams({ from: savepoint.id, to: 'live', ...(activeViewId ? { viewId: activeViewId } : {}) });
+      const response = await collaborationFetch(`/api/projects/${projectId}/savepoints/diff?${query.toString()}`);
+      const payload = (await response.json().catch(() => ({}))) as Partial<ApiSnapshotDiff> & { error?: string };
+      if (!response.ok || !payload.entries) {
+        throw new Error(payload.error || 'Snapshot could not be compared');
+      }
+      setSnapshotDiff(payload as ApiSnapshotDiff);
+      setDiffSavepoint(savepoint);
+      setDiffRestoreKeys([]);
+    } catch (diffError) {
+      setSavepointError((diffError as Error).message);
+    } finally {
+      setIsDiffLoading(false);
+    }
+  };
+
+  const closeSnapshotDiff = () => {
+    setSnapshotDiff(null);
+    setDiffSavepoint(null);
+    setDiffRestoreKeys([]);
+  };
+
+  const toggleDiffRestoreKey = (key: string) => {
+    setDiffRestoreKeys((current) =>
+      current.includes(key) ? current.filter((currentKey) => currentKey !== key) : [...current, key]
+    );
+  };
+
+  const handleRestoreDiffSelection = async () => {
+    if (!canEdit || !diffSavepoint || diffRestoreKeys.length === 0 || isRestoringSelection) {
+      return;
+    }
+
+    const idsOf = (entityType: SnapshotDiffEntityType) =>
+      diffRestoreKeys
+        .filter((key) => key.startsWith(`${entityType}:`))
+        .map((key) => key.slice(entityType.length + 1));
+
+    try {
+      setIsRestoringSelection(true);
+      setSavepointError('');
+      const response = await collaborationFetch(
+        `/api/projects/${projectId}/savepoints/${diffSavepoint.id}/restore-selection`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            nodeIds: idsOf('node'),
+            edgeIds: idsOf('edge'),
+            dataObjectIds: idsOf('dataObject'),
+            includeChildren: true,
+          }),
+        }
+      );
+      const payload = (await response.json().catch(() => ({}))) as { error?: string };
+      if (!response.ok) {
+        throw new Error(payload.error || 'Selected elements could not be restored');
+      }
+
+      await fetchModelData();
+      await loadLayout();
+      await loadSnapshotDiff(diffSavepoint);
+    } catch (restoreError) {
+      setSavepointError((restoreError as Error).message);
+    } finally {
+      setIsRestoringSelection(false);
+    }
+  };
+
   const handleRestoreSavepoint = async (savepoint: ApiModelSnapshotSummary) => {
     if (!canEdit || restoringSavepointId || deletingSavepointId) {
       return;
@@ -1931,7 +2669,7 @@ export default function GraphEditor({ projectId, canEdit = false }: GraphEditorP
       setRestoringSavepointId(savepoint.id);
       setSavepointError('');
 
-      const response = await fetch(`/api/projects/${projectId}/savepoints/${savepoint.id}/restore`, {
+      const response = await collaborationFetch(`/api/projects/${projectId}/savepoints/${savepoint.id}/restore`, {
         method: 'POST',
       });
       const payload = (await response.json().catch(() => ({}))) as ApiModelSnapshotRestoreResponse;
@@ -1965,7 +2703,7 @@ export default function GraphEditor({ projectId, canEdit = false }: GraphEditorP
       setDeletingSavepointId(savepoint.id);
       setSavepointError('');
 
-      const response = await fetch(`/api/projects/${projectId}/savepoints/${savepoint.id}`, {
+      const response = await collaborationFetch(`/api/projects/${projectId}/savepoints/${savepoint.id}`, {
         method: 'DELETE',
       });
       if (!response.ok) {
@@ -1981,6 +2719,118 @@ export default function GraphEditor({ projectId, canEdit = false }: GraphEditorP
     }
   };
 
+  const getSelectedModelNodeIds = () =>
+    Array.from(new Set([...selectedNodeIds, ...(selectedNodeId ? [selectedNodeId] : [])])).filter((nodeId) =>
+      nodeById.has(nodeId)
+    );
+
+  const saveZone = async (zoneId: string, payload: Record<string, unknown>) => {
+    try {
+      setBusyZoneId(zoneId);
+      setZoneError('');
+      const response = await collaborationFetch(`/api/projects/${projectId}/zones/${zoneId}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+      });
+      if (!response.ok) {
+        const result = (await response.json().catch(() => ({}))) as { error?: string };
+        throw new Error(result.error || 'Zone could not be updated');
+      }
+      await fetchModelData();
+    } catch (zoneSaveError) {
+      setZoneError((zoneSaveError as Error).message);
+    } finally {
+      setBusyZoneId(null);
+    }
+  };
+
+  const handleAddZone = async () => {
+    if (!canEdit) {
+      return;
+    }
+
+    const normalizedName = newZoneName.trim();
+    if (!normalizedName) {
+      setZoneError('Zone name is required');
+      return;
+    }
+
+    try {
+      setBusyZoneId('new');
+      setZoneError('');
+      const response = await collaborationFetch(`/api/projects/${projectId}/zones`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: normalizedName,
+          targetSecurityLevel: newZoneSecurityLevel,
+          color: ZONE_COLOR_OPTIONS[zones.length % ZONE_COLOR_OPTIONS.length],
+          nodeIds: getSelectedModelNodeIds(),
+        }),
+      });
+      if (!response.ok) {
+        const payload = (await response.json().catch(() => ({}))) as { error?: string };
+        throw new Error(payload.error || 'Zone could not be created');
+      }
+
+      setNewZoneName('');
+      setNewZoneSecurityLevel(1);
+      await fetchModelData();
+    } catch (zoneCreateError) {
+      setZoneError((zoneCreateError as Error).message);
+    } finally {
+      setBusyZoneId(null);
+    }
+  };
+
+  const handleAssignSelectionToZone = async (zone: ApiZone) => {
+    const selectedIds = getSelectedModelNodeIds();
+    if (!canEdit || selectedIds.length === 0) {
+      return;
+    }
+    const memberIds = new Set((zone.nodes || []).map((member) => member.id));
+    selectedIds.forEach((nodeId) => memberIds.add(nodeId));
+    await saveZone(zone.id, { nodeIds: Array.from(memberIds) });
+  };
+
+  const handleRemoveSelectionFromZone = async (zone: ApiZone) => {
+    const selectedIds = new Set(getSelectedModelNodeIds());
+    if (!canEdit || selectedIds.size === 0) {
+      return;
+    }
+    const memberIds = (zone.nodes || []).map((member) => member.id).filter((nodeId) => !selectedIds.has(nodeId));
+    await saveZone(zone.id, { nodeIds: memberIds });
+  };
+
+  const handleDeleteZone = async (zone: ApiZone) => {
+    if (!canEdit) {
+      return;
+    }
+
+    const confirmed = window.confirm(`Delete zone "${zone.name}"?\n\nAssigned elements stay in the model.`);
+    if (!confirmed) {
+      return;
+    }
+
+    try {
+      setBusyZoneId(zone.id);
+      setZoneError('');
+      const response = await collaborationFetch(`/api/projects/${projectId}/zones/${zone.id}`, {
+        method: 'DELETE',
+      });
+      if (!response.ok) {
+        const payload = (await response.json().catch(() => ({}))) as { error?: string };
+        throw new Error(payload.error || 'Zone could not be deleted');
+      }
+      await fetchModelData();
+    } catch (zoneDeleteError) {
+      setZoneError((zoneDeleteError as Error).message);
+    } finally {
+      setBusyZoneId(null);
+    }
+  };
+
   const resolveOrCreateEdgeForFlow = async (
     sourceNodeId: string,
     targetNodeId: string
@@ -2006,7 +2856,7 @@ export default function GraphEditor({ projectId, canEdit = false }: GraphEditorP
       const sourceName = nodeById.get(sourceNodeId)?.name || 'Source';
       const targetName = nodeById.get(targetNodeId)?.name || 'Target';
       const nearestHandles = resolveNearestDirectionalHandles(sourceNodeId, targetNodeId);
-      const createEdgeResponse = await fetch(`/api/projects/${projectId}/edges`, {
+      const createEdgeResponse = await collaborationFetch(`/api/projects/${projectId}/edges`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
@@ -2059,7 +2909,7 @@ export default function GraphEditor({ projectId, canEdit = false }: GraphEditorP
     integrity?: number;
     availability?: number;
   }): Promise<ApiDataObject> => {
-    const createDataResponse = await fetch(`/api/projects/${projectId}/data-objects`, {
+    const createDataResponse = await collaborationFetch(`/api/projects/${projectId}/data-objects`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({
@@ -2085,7 +2935,7 @@ export default function GraphEditor({ projectId, canEdit = false }: GraphEditorP
     dataObjectId: string;
     direction: 'SourceToTarget' | 'TargetToSource' | 'Bidirectional';
   }) => {
-    const assignFlowResponse = await fetch(`/api/projects/${projectId}/edge-data-flows`, {
+    const assignFlowResponse = await collaborationFetch(`/api/projects/${projectId}/edge-data-flows`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify(payload),
@@ -2133,7 +2983,7 @@ export default function GraphEditor({ projectId, canEdit = false }: GraphEditorP
         direction: 'A_TO_B' as EdgeDirection,
         name: `${sourceName} --> ${targetName}`,
       };
-      const response = await fetch(`/api/projects/${projectId}/edges`, {
+      const response = await collaborationFetch(`/api/projects/${projectId}/edges`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(createPayload),
@@ -2165,20 +3015,20 @@ export default function GraphEditor({ projectId, canEdit = false }: GraphEditorP
         });
       } catch (autoDataError) {
         if (currentDataObjectId) {
-          await fetch(`/api/projects/${projectId}/data-objects/${currentDataObjectId}`, { method: 'DELETE' });
+          await collaborationFetch(`/api/projects/${projectId}/data-objects/${currentDataObjectId}`, { method: 'DELETE' });
         }
-        await fetch(`/api/projects/${projectId}/edges/${currentEdgeId}`, { method: 'DELETE' });
+        await collaborationFetch(`/api/projects/${projectId}/edges/${currentEdgeId}`, { method: 'DELETE' });
         throw autoDataError;
       }
 
       registerHistoryAction({
         label: 'Create interface',
         undo: async () => {
-          await fetch(`/api/projects/${projectId}/edges/${currentEdgeId}`, { method: 'DELETE' });
-          await fetch(`/api/projects/${projectId}/data-objects/${currentDataObjectId}`, { method: 'DELETE' });
+          await collaborationFetch(`/api/projects/${projectId}/edges/${currentEdgeId}`, { method: 'DELETE' });
+          await collaborationFetch(`/api/projects/${projectId}/data-objects/${currentDataObjectId}`, { method: 'DELETE' });
         },
         redo: async () => {
-          const redoResponse = await fetch(`/api/projects/${projectId}/edges`, {
+          const redoResponse = await collaborationFetch(`/api/projects/${projectId}/edges`, {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify(createPayload),
@@ -2225,6 +3075,7 @@ export default function GraphEditor({ projectId, canEdit = false }: GraphEditorP
       ...current,
       [node.id]: droppedPosition,
     }));
+    persistLayout({ [node.id]: droppedPosition });
 
     const movedNode = modelNodes.find((item) => item.id === node.id);
     if (!movedNode || isContainerNode(movedNode)) {
@@ -2381,7 +3232,7 @@ export default function GraphEditor({ projectId, canEdit = false }: GraphEditorP
         parentNodeId: normalizedEditedParentNodeId,
       };
 
-      await applyNodeUpdate(selectedNode.id, afterPayload);
+      await applyNodeUpdate(selectedNode.id, { ...afterPayload, expectedUpdatedAt: selectedNode.updatedAt });
 
       registerHistoryAction({
         label: `Update node "${afterPayload.name}"`,
@@ -2397,6 +3248,29 @@ export default function GraphEditor({ projectId, canEdit = false }: GraphEditorP
     }
   };
 
+  const handleSaveNodeCapability = async (node: ApiNode, capabilitySecurityLevel: number | null) => {
+    if (!canEdit) return;
+
+    try {
+      setIsSaving(true);
+      setError('');
+      const previousLevel = node.capabilitySecurityLevel ?? null;
+      await applyNodeUpdate(node.id, { capabilitySecurityLevel, expectedUpdatedAt: node.updatedAt });
+
+      registerHistoryAction({
+        label: `Set SL-C of "${node.name}"`,
+        undo: async () => applyNodeUpdate(node.id, { capabilitySecurityLevel: previousLevel }),
+        redo: async () => applyNodeUpdate(node.id, { capabilitySecurityLevel }),
+      });
+
+      await fetchModelData();
+    } catch (saveError) {
+      setError((saveError as Error).message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
   const handleSaveEdge = async () => {
     if (!canEdit || !selectedEdge) return;
 
@@ -2418,7 +3292,7 @@ export default function GraphEditor({ projectId, canEdit = false }: GraphEditorP
         notes: editEdgeNotes.trim() || null,
       };
 
-      await applyEdgeUpdate(selectedEdge.id, afterPayload);
+      await applyEdgeUpdate(selectedEdge.id, { ...afterPayload, expectedUpdatedAt: selectedEdge.updatedAt });
 
       registerHistoryAction({
         label: 'Update interface',
@@ -2451,7 +3325,10 @@ export default function GraphEditor({ projectId, canEdit = false }: GraphEditorP
         description: editDataObjectDescription.trim() || null,
       };
 
-      await applyDataObjectUpdate(selectedDataObject.id, afterPayload);
+      await applyDataObjectUpdate(selectedDataObject.id, {
+        ...afterPayload,
+        expectedUpdatedAt: selectedDataObject.updatedAt,
+      });
 
       registerHistoryAction({
         label: `Update data object "${afterPayload.name}"`,
@@ -2476,7 +3353,7 @@ export default function GraphEditor({ projectId, canEdit = false }: GraphEditorP
       return;
     }
     try {
-      const response = await fetch(`/api/projects/${projectId}/nodes/${nodeToDelete.id}`, { method: 'DELETE' });
+      const response = await collaborationFetch(`/api/projects/${projectId}/nodes/${nodeToDelete.id}`, { method: 'DELETE' });
       if (!response.ok) {
         const payload = (await response.json().catch(() => ({}))) as { error?: string };
         throw new Error(payload.error || 'Node could not be deleted');
@@ -2503,7 +3380,7 @@ export default function GraphEditor({ projectId, canEdit = false }: GraphEditorP
     const edgeToDelete = modelEdges.find((edge) => edge.id === edgeId);
     if (!edgeToDelete) return;
     try {
-      const response = await fetch(`/api/projects/${projectId}/edges/${edgeToDelete.id}`, { method: 'DELETE' });
+      const response = await collaborationFetch(`/api/projects/${projectId}/edges/${edgeToDelete.id}`, { method: 'DELETE' });
       if (!response.ok) {
         const payload = (await response.json().catch(() => ({}))) as { error?: string };
         throw new Error(payload.error || 'Edge could not be deleted');
@@ -2557,7 +3434,7 @@ export default function GraphEditor({ projectId, canEdit = false }: GraphEditorP
       setError('');
 
       for (const edgeId of edgeIdsToDelete) {
-        const response = await fetch(`/api/projects/${projectId}/edges/${edgeId}`, { method: 'DELETE' });
+        const response = await collaborationFetch(`/api/projects/${projectId}/edges/${edgeId}`, { method: 'DELETE' });
         if (!response.ok) {
           const payload = (await response.json().catch(() => ({}))) as { error?: string };
           throw new Error(payload.error || 'One or more interfaces could not be deleted');
@@ -2565,7 +3442,7 @@ export default function GraphEditor({ projectId, canEdit = false }: GraphEditorP
       }
 
       for (const nodeId of nodeIdsToDelete) {
-        const response = await fetch(`/api/projects/${projectId}/nodes/${nodeId}`, { method: 'DELETE' });
+        const response = await collaborationFetch(`/api/projects/${projectId}/nodes/${nodeId}`, { method: 'DELETE' });
         if (!response.ok) {
           const payload = (await response.json().catch(() => ({}))) as { error?: string };
           throw new Error(payload.error || 'One or more nodes could not be deleted');
@@ -2667,7 +3544,7 @@ export default function GraphEditor({ projectId, canEdit = false }: GraphEditorP
 
       for (const node of sortedNodes) {
         const mappedParentNodeId = node.parentNodeId ? oldToNewNodeId.get(node.parentNodeId) || node.parentNodeId : null;
-        const response = await fetch(`/api/projects/${projectId}/nodes`, {
+        const response = await collaborationFetch(`/api/projects/${projectId}/nodes`, {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({
@@ -2723,7 +3600,7 @@ export default function GraphEditor({ projectId, canEdit = false }: GraphEditorP
           continue;
         }
 
-        const response = await fetch(`/api/projects/${projectId}/edges`, {
+        const response = await collaborationFetch(`/api/projects/${projectId}/edges`, {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({
@@ -2757,6 +3634,7 @@ export default function GraphEditor({ projectId, canEdit = false }: GraphEditorP
         ...current,
         ...copiedContainerSizes,
       }));
+      persistLayout(copiedNodePositions, copiedContainerSizes);
       setSelectedNodeIds(copiedNodeIds);
       setSelectedEdgeIds(copiedEdgeIds);
       setSelectedNodeId(copiedNodeIds[0] || null);
@@ -2772,6 +3650,7 @@ export default function GraphEditor({ projectId, canEdit = false }: GraphEditorP
       setIsSelectionActionBusy(false);
     }
   }, [
+    persistLayout,
     canEdit,
     containerSizeMap,
     fetchModelData,
@@ -2807,14 +3686,14 @@ export default function GraphEditor({ projectId, canEdit = false }: GraphEditorP
       );
 
       for (const edgeId of edgeIdsToDelete) {
-        const edgeDeleteResponse = await fetch(`/api/projects/${projectId}/edges/${edgeId}`, { method: 'DELETE' });
+        const edgeDeleteResponse = await collaborationFetch(`/api/projects/${projectId}/edges/${edgeId}`, { method: 'DELETE' });
         if (!edgeDeleteResponse.ok) {
           const payload = (await edgeDeleteResponse.json().catch(() => ({}))) as { error?: string };
           throw new Error(payload.error || 'Linked interface could not be deleted');
         }
       }
 
-      const response = await fetch(`/api/projects/${projectId}/data-objects/${dataObjectToDelete.id}`, { method: 'DELETE' });
+      const response = await collaborationFetch(`/api/projects/${projectId}/data-objects/${dataObjectToDelete.id}`, { method: 'DELETE' });
       if (!response.ok) {
         const payload = (await response.json().catch(() => ({}))) as { error?: string };
         throw new Error(payload.error || 'Data object could not be deleted');
@@ -2855,7 +3734,7 @@ export default function GraphEditor({ projectId, canEdit = false }: GraphEditorP
         role: newComponentDataRole,
       };
 
-      const response = await fetch(`/api/projects/${projectId}/component-data`, {
+      const response = await collaborationFetch(`/api/projects/${projectId}/component-data`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(createPayload),
@@ -2868,7 +3747,7 @@ export default function GraphEditor({ projectId, canEdit = false }: GraphEditorP
       registerHistoryAction({
         label: 'Assign data-at-rest',
         undo: async () => {
-          await fetch(`/api/projects/${projectId}/component-data`, {
+          await collaborationFetch(`/api/projects/${projectId}/component-data`, {
             method: 'DELETE',
             headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify({
@@ -2878,7 +3757,7 @@ export default function GraphEditor({ projectId, canEdit = false }: GraphEditorP
           });
         },
         redo: async () => {
-          await fetch(`/api/projects/${projectId}/component-data`, {
+          await collaborationFetch(`/api/projects/${projectId}/component-data`, {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify(createPayload),
@@ -2921,7 +3800,7 @@ export default function GraphEditor({ projectId, canEdit = false }: GraphEditorP
         role: mappedRole,
       };
 
-      const response = await fetch(`/api/projects/${projectId}/component-data`, {
+      const response = await collaborationFetch(`/api/projects/${projectId}/component-data`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(createPayload),
@@ -2961,7 +3840,7 @@ export default function GraphEditor({ projectId, canEdit = false }: GraphEditorP
       registerHistoryAction({
         label: 'Assign data-at-rest',
         undo: async () => {
-          await fetch(`/api/projects/${projectId}/component-data`, {
+          await collaborationFetch(`/api/projects/${projectId}/component-data`, {
             method: 'DELETE',
             headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify({
@@ -2971,7 +3850,7 @@ export default function GraphEditor({ projectId, canEdit = false }: GraphEditorP
           });
         },
         redo: async () => {
-          await fetch(`/api/projects/${projectId}/component-data`, {
+          await collaborationFetch(`/api/projects/${projectId}/component-data`, {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify(createPayload),
@@ -3024,7 +3903,7 @@ export default function GraphEditor({ projectId, canEdit = false }: GraphEditorP
 
       const resolved = await resolveOrCreateEdgeForFlow(dataSourceNodeId, dataTargetNodeId);
 
-      const assignFlowResponse = await fetch(`/api/projects/${projectId}/edge-data-flows`, {
+      const assignFlowResponse = await collaborationFetch(`/api/projects/${projectId}/edge-data-flows`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
@@ -3057,7 +3936,7 @@ export default function GraphEditor({ projectId, canEdit = false }: GraphEditorP
         direction: newEdgeDataDirection,
       };
 
-      const response = await fetch(`/api/projects/${projectId}/edge-data-flows`, {
+      const response = await collaborationFetch(`/api/projects/${projectId}/edge-data-flows`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(createPayload),
@@ -3070,7 +3949,7 @@ export default function GraphEditor({ projectId, canEdit = false }: GraphEditorP
       registerHistoryAction({
         label: 'Assign data-in-transit',
         undo: async () => {
-          await fetch(`/api/projects/${projectId}/edge-data-flows`, {
+          await collaborationFetch(`/api/projects/${projectId}/edge-data-flows`, {
             method: 'DELETE',
             headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify({
@@ -3080,7 +3959,7 @@ export default function GraphEditor({ projectId, canEdit = false }: GraphEditorP
           });
         },
         redo: async () => {
-          await fetch(`/api/projects/${projectId}/edge-data-flows`, {
+          await collaborationFetch(`/api/projects/${projectId}/edge-data-flows`, {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify(createPayload),
@@ -3098,7 +3977,7 @@ export default function GraphEditor({ projectId, canEdit = false }: GraphEditorP
     if (!canEdit) return;
     const existingRecord =
       componentData.find((record) => record.nodeId === nodeId && record.dataObjectId === dataObjectId) || null;
-    await fetch(`/api/projects/${projectId}/component-data`, {
+    await collaborationFetch(`/api/projects/${projectId}/component-data`, {
       method: 'DELETE',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({ nodeId, dataObjectId }),
@@ -3108,7 +3987,7 @@ export default function GraphEditor({ projectId, canEdit = false }: GraphEditorP
       registerHistoryAction({
         label: 'Remove data-at-rest',
         undo: async () => {
-          await fetch(`/api/projects/${projectId}/component-data`, {
+          await collaborationFetch(`/api/projects/${projectId}/component-data`, {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify({
@@ -3120,7 +3999,7 @@ export default function GraphEditor({ projectId, canEdit = false }: GraphEditorP
           });
         },
         redo: async () => {
-          await fetch(`/api/projects/${projectId}/component-data`, {
+          await collaborationFetch(`/api/projects/${projectId}/component-data`, {
             method: 'DELETE',
             headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify({
@@ -3139,7 +4018,7 @@ export default function GraphEditor({ projectId, canEdit = false }: GraphEditorP
     if (!canEdit) return;
     const existingRecord =
       edgeDataFlows.find((record) => record.edgeId === edgeId && record.dataObjectId === dataObjectId) || null;
-    await fetch(`/api/projects/${projectId}/edge-data-flows`, {
+    await collaborationFetch(`/api/projects/${projectId}/edge-data-flows`, {
       method: 'DELETE',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({ edgeId, dataObjectId }),
@@ -3149,7 +4028,7 @@ export default function GraphEditor({ projectId, canEdit = false }: GraphEditorP
       registerHistoryAction({
         label: 'Remove data-in-transit',
         undo: async () => {
-          await fetch(`/api/projects/${projectId}/edge-data-flows`, {
+          await collaborationFetch(`/api/projects/${projectId}/edge-data-flows`, {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify({
@@ -3161,7 +4040,7 @@ export default function GraphEditor({ projectId, canEdit = false }: GraphEditorP
           });
         },
         redo: async () => {
-          await fetch(`/api/projects/${projectId}/edge-data-flows`, {
+          await collaborationFetch(`/api/projects/${projectId}/edge-data-flows`, {
             method: 'DELETE',
             headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify({
@@ -3289,6 +4168,120 @@ export default function GraphEditor({ projectId, canEdit = false }: GraphEditorP
         <p className="text-xs text-slate-400">
           Selected in graph: {selectedGraphElementsCount}
         </p>
+        <div className="flex items-center gap-1">
+          <label htmlFor="graph-diagram-view" className="text-xs text-slate-400">
+            View
+          </label>
+          <select
+            id="graph-diagram-view"
+            value={activeViewId || ''}
+            onChange={(event) => setActiveViewId(event.target.value || null)}
+            disabled={diagramViews.length === 0}
+            className="rounded border border-slate-600 bg-slate-800 px-2 py-1 text-xs text-slate-200"
+          >
+            {diagramViews.map((view) => (
+              <option key={view.id} value={view.id}>
+                {view.isDefault ? `${view.name} (default)` : view.name}
+              </option>
+            ))}
+          </select>
+          {canEdit ? (
+            <>
+              <button
+                type="button"
+                onClick={() => void handleCreateDiagramView()}
+                className="rounded border border-slate-600 bg-slate-800 px-2 py-1 text-xs text-slate-200 transition-colors hover:bg-slate-700"
+                title="Create a new view of the same model, starting with the current layout"
+              >
+                New view
+              </button>
+              <button
+                type="button"
+                onClick={() => void handleRenameDiagramView()}
+                disabled={!activeDiagramView}
+                className="rounded border border-slate-600 bg-slate-800 px-2 py-1 text-xs text-slate-200 transition-colors hover:bg-slate-700 disabled:cursor-not-allowed disabled:opacity-50"
+              >
+                Rename
+              </button>
+              <button
+                type="button"
+                onClick={() => void handleUpdateDiagramView({ isDefault: true })}
+                disabled={!activeDiagramView || activeDiagramView.isDefault}
+                className="rounded border border-slate-600 bg-slate-800 px-2 py-1 text-xs text-slate-200 transition-colors hover:bg-slate-700 disabled:cursor-not-allowed disabled:opacity-50"
+                title="Open this view first for all project members"
+              >
+                Set default
+              </button>
+              <button
+                type="button"
+                onClick={() => void handleDeleteDiagramView()}
+                disabled={!activeDiagramView || activeDiagramView.isDefault}
+                className="rounded border border-red-500/60 bg-red-500/20 px-2 py-1 text-xs text-red-100 transition-colors hover:bg-red-500/30 disabled:cursor-not-allowed disabled:opacity-50"
+              >
+                Delete view
+              </button>
+            </>
+          ) : null}
+        </div>
+        {canEdit ? (
+          <div className="flex items-center gap-1">
+            <select
+              value={autoLayoutAlgorithm}
+              onChange={(event) => setAutoLayoutAlgorithm(event.target.value as AutoLayoutAlgorithm)}
+              className="rounded border border-slate-600 bg-slate-800 px-2 py-1 text-xs text-slate-200"
+              aria-label="Auto layout algorithm"
+            >
+              {AUTO_LAYOUT_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={() => void handleAutoLayout()}
+              disabled={!activeViewId || isAutoLayoutBusy}
+              className="rounded border border-cyan-500/60 bg-cyan-500/20 px-2 py-1 text-xs text-cyan-100 transition-colors hover:bg-cyan-500/30 disabled:cursor-not-allowed disabled:opacity-50"
+              title={
+                autoLayoutContainer
+                  ? `Arrange the content of "${autoLayoutContainer.name}"`
+                  : 'Arrange the whole model (select a container to arrange only its content)'
+              }
+            >
+              {isAutoLayoutBusy
+                ? 'Arranging...'
+                : autoLayoutContainer
+                  ? `Auto layout "${autoLayoutContainer.name}"`
+                  : 'Auto layout'}
+            </button>
+          </div>
+        ) : null}
+        <div className="ml-auto flex items-center gap-2">
+          <span
+            className={`flex items-center gap-1 text-xs ${isLiveConnected ? 'text-emerald-300' : 'text-slate-500'}`}
+            title={
+              isLiveConnected
+                ? 'Changes by others appear automatically'
+                : 'Not connected: changes by others appear after reloading'
+            }
+          >
+            <span className={`h-2 w-2 rounded-full ${isLiveConnected ? 'bg-emerald-400' : 'bg-slate-500'}`} />
+            {isLiveConnected ? 'Live' : 'Offline'}
+          </span>
+          {remoteParticipants.map((participant) => {
+            const selectedCount = participant.selection.nodeIds.length + participant.selection.edgeIds.length;
+            return (
+              <span
+                key={participant.clientId}
+                className="flex h-6 w-6 items-center justify-center rounded-full text-[10px] font-bold text-slate-900"
+                style={{ background: participant.color }}
+                title={`${participant.name} · ${selectedCount > 0 ? `selecting ${selectedCount} element(s)` : 'viewing'}`}
+              >
+                {getInitials(participant.name)}
+              </span>
+            );
+          })}
+        </div>
       </div>
 
       {showAIGenerator && (
@@ -3371,9 +4364,155 @@ export default function GraphEditor({ projectId, canEdit = false }: GraphEditorP
             >
               {isSaving ? 'Saving...' : 'Add component'}
             </button>
+            {selectedNode && !isContainerNode(selectedNode) ? (
+              <label className="flex items-center justify-between gap-2 border-t border-slate-700 pt-2 text-xs text-slate-300">
+                <span className="truncate">Capability (SL-C) of {selectedNode.name}</span>
+                <select
+                  value={selectedNode.capabilitySecurityLevel ?? ''}
+                  onChange={(event) =>
+                    void handleSaveNodeCapability(
+                      selectedNode,
+                      event.target.value ? Number.parseInt(event.target.value, 10) : null
+                    )
+                  }
+                  disabled={!canEdit || isSaving}
+                  className="rounded border border-slate-600 bg-slate-700 px-1 py-0.5 text-[11px] text-white disabled:opacity-60"
+                >
+                  <option value="">Not declared</option>
+                  {SECURITY_LEVEL_OPTIONS.map((level) => (
+                    <option key={level} value={level}>
+                      SL-C {level}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            ) : null}
 
           </div>
 
+          <div className="space-y-2 rounded border border-slate-700 bg-slate-900/40 p-3">
+            <div>
+              <h4 className="text-sm font-semibold text-white">Security Zones</h4>
+              <p className="mt-1 text-[11px] text-slate-400">
+                Group elements into zones with a target security level. Interfaces between zones form conduits.
+              </p>
+            </div>
+
+            {zoneError && (
+              <div className="rounded border border-red-600/40 bg-red-900/20 p-2 text-xs text-red-200">{zoneError}</div>
+            )}
+
+            <div className="space-y-2">
+              <input
+                type="text"
+                value={newZoneName}
+                onChange={(event) => setNewZoneName(event.target.value)}
+                placeholder="Zone name"
+                disabled={!canEdit || Boolean(busyZoneId)}
+                className="w-full rounded border border-slate-600 bg-slate-700 px-3 py-2 text-xs text-white placeholder-slate-400 focus:border-orange-400 focus:outline-none disabled:opacity-60"
+              />
+              <select
+                value={newZoneSecurityLevel}
+                onChange={(event) => setNewZoneSecurityLevel(Number.parseInt(event.target.value, 10))}
+                disabled={!canEdit || Boolean(busyZoneId)}
+                className="w-full rounded border border-slate-600 bg-slate-700 px-3 py-2 text-xs text-white focus:border-orange-400 focus:outline-none disabled:opacity-60"
+              >
+                {SECURITY_LEVEL_OPTIONS.map((level) => (
+                  <option key={level} value={level}>
+                    SL-T {level}
+                  </option>
+                ))}
+              </select>
+              <button
+                type="button"
+                onClick={() => void handleAddZone()}
+                disabled={!canEdit || Boolean(busyZoneId)}
+                className="w-full rounded bg-orange-500 px-3 py-2 text-xs font-semibold text-white hover:bg-orange-600 disabled:opacity-60"
+              >
+                {busyZoneId === 'new' ? 'Saving...' : 'Add zone (with selection)'}
+              </button>
+            </div>
+
+            <div className="max-h-64 space-y-2 overflow-y-auto pr-1">
+              {zones.length === 0 ? (
+                <p className="text-xs text-slate-400">No zones yet.</p>
+              ) : (
+                zones.map((zone) => (
+                  <div key={zone.id} className="rounded border border-slate-700 bg-slate-900/40 p-2">
+                    <div className="flex items-center gap-2">
+                      <span
+                        className="h-3 w-3 shrink-0 rounded-full"
+                        style={{ background: zone.color || ZONE_COLOR_OPTIONS[0] }}
+                        aria-hidden="true"
+                      />
+                      <p className="flex-1 truncate text-xs font-semibold text-slate-100">{zone.name}</p>
+                      <select
+                        value={zone.targetSecurityLevel}
+                        onChange={(event) =>
+                          void saveZone(zone.id, { targetSecurityLevel: Number.parseInt(event.target.value, 10) })
+                        }
+                        disabled={!canEdit || Boolean(busyZoneId)}
+                        className="rounded border border-slate-600 bg-slate-700 px-1 py-0.5 text-[11px] text-white disabled:opacity-60"
+                        aria-label={`Target security level of ${zone.name}`}
+                      >
+                        {SECURITY_LEVEL_OPTIONS.map((level) => (
+                          <option key={level} value={level}>
+                            SL-T {level}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                    <p className="mt-1 text-[11px] text-slate-400">{(zone.nodes || []).length} assigned element(s)</p>
+                    {canEdit ? (
+                      <div className="mt-2 grid grid-cols-2 gap-1">
+                        <button
+                          type="button"
+                          onClick={() => void handleAssignSelectionToZone(zone)}
+                          disabled={Boolean(busyZoneId) || getSelectedModelNodeIds().length === 0}
+                          className="rounded border border-cyan-500/50 bg-cyan-500/20 px-2 py-1 text-[11px] font-semibold text-cyan-100 hover:bg-cyan-500/30 disabled:opacity-60"
+                        >
+                          Add selected
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => void handleRemoveSelectionFromZone(zone)}
+                          disabled={Boolean(busyZoneId) || getSelectedModelNodeIds().length === 0}
+                          className="rounded border border-slate-500/60 bg-slate-700/40 px-2 py-1 text-[11px] font-semibold text-slate-200 hover:bg-slate-700/70 disabled:opacity-60"
+                        >
+                          Remove selected
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => void handleDeleteZone(zone)}
+                          disabled={Boolean(busyZoneId)}
+                          className="col-span-2 rounded border border-red-500/50 bg-red-900/25 px-2 py-1 text-[11px] font-semibold text-red-200 hover:bg-red-900/40 disabled:opacity-60"
+                        >
+                          {busyZoneId === zone.id ? 'Saving...' : 'Delete zone'}
+                        </button>
+                      </div>
+                    ) : null}
+                  </div>
+                ))
+              )}
+            </div>
+
+            {conduits.length > 0 ? (
+              <div className="space-y-1 border-t border-slate-700 pt-2">
+                <p className="text-[11px] font-semibold uppercase tracking-wide text-slate-400">Conduits</p>
+                {conduits.map((conduit) => (
+                  <p key={conduit.id} className="text-[11px] text-slate-300">
+                    <span className="font-semibold" style={{ color: CONDUIT_EDGE_COLOR }}>
+                      {conduit.name}
+                    </span>{' '}
+                    · SL-T {conduit.targetSecurityLevel} · {conduit.edgeIds.length} interface(s)
+                  </p>
+                ))}
+              </div>
+            ) : null}
+          </div>
+
+          <AttackPathPanel projectId={projectId} nodes={modelNodes} onHighlightChange={setAttackPathHighlight} />
+
           <div className="space-y-2 rounded border border-slate-700 bg-slate-900/40 p-3">
             <div>
               <h4 className="text-sm font-semibold text-white">Model Snapshots</h4>
@@ -3420,6 +4559,16 @@ export default function GraphEditor({ projectId, canEdit = false }: GraphEditorP
                     <p className="text-[11px] text-slate-500">
                       by {savepoint.createdBy?.name || savepoint.createdBy?.email || 'Unknown'}
                     </p>
+                    <button
+                      type="button"
+                      onClick={() =>
+                        diffSavepoint?.id === savepoint.id ? closeSnapshotDiff() : void loadSnapshotDiff(savepoint)
+                      }
+                      disabled={isDiffLoading}
+                      className="mt-2 w-full rounded border border-slate-500/60 bg-slate-700/40 px-2 py-1 text-xs font-semibold text-slate-200 hover:bg-slate-700/70 disabled:opacity-60"
+                    >
+                      {diffSavepoint?.id === savepoint.id ? 'Hide Changes' : 'Compare with Current'}
+                    </button>
                     {canEdit ? (
                       <div className="mt-2 space-y-2">
                         <button
@@ -3444,6 +4593,79 @@ export default function GraphEditor({ projectId, canEdit = false }: GraphEditorP
                 ))
               )}
             </div>
+
+            {snapshotDiff && diffSavepoint ? (
+              <div className="space-y-2 rounded border border-slate-600 bg-slate-900/60 p-2">
+                <div className="flex items-start justify-between gap-2">
+                  <p className="text-xs font-semibold text-slate-100">Changes since &quot;{diffSavepoint.title}&quot;</p>
+                  <button
+                    type="button"
+                    onClick={closeSnapshotDiff}
+                    className="text-[11px] text-slate-400 hover:text-slate-200"
+                  >
+                    Close
+                  </button>
+                </div>
+                <div className="flex flex-wrap gap-2 text-[10px] text-slate-400">
+                  {Object.entries(SNAPSHOT_DIFF_COLORS).map(([status, color]) => (
+                    <span key={status} className="flex items-center gap-1 capitalize">
+                      <span className="h-2 w-2 rounded-full" style={{ background: color }} />
+                      {status}
+                    </span>
+                  ))}
+                </div>
+                {snapshotDiff.entries.length === 0 ? (
+                  <p className="text-[11px] text-slate-400">The current model matches this snapshot.</p>
+                ) : (
+                  <ul className="max-h-64 space-y-1 overflow-y-auto pr-1">
+                    {snapshotDiff.entries.map((entry) => {
+                      const key = `${entry.entityType}:${entry.id}`;
+                      const status = entry.entityType === 'placement' ? 'moved' : entry.change;
+                      const isRestorable =
+                        canEdit && RESTORABLE_DIFF_ENTITY_TYPES.has(entry.entityType) && entry.change !== 'added';
+                      return (
+                        <li key={key} className="flex items-start gap-2 text-[11px]">
+                          {isRestorable ? (
+                            <input
+                              type="checkbox"
+                              checked={diffRestoreKeys.includes(key)}
+                              onChange={() => toggleDiffRestoreKey(key)}
+                              className="mt-0.5"
+                              aria-label={`Restore ${entry.label}`}
+                            />
+                          ) : (
+                            <span className="w-[13px] shrink-0" />
+                          )}
+                          <span
+                            className="shrink-0 rounded px-1 font-semibold capitalize text-slate-900"
+                            style={{ background: SNAPSHOT_DIFF_COLORS[status] }}
+                          >
+                            {status}
+                          </span>
+                          <span
+                            className="min-w-0 flex-1 truncate text-slate-200"
+                            title={entry.fields.length > 0 ? `Changed: ${entry.fields.join(', ')}` : entry.label}
+                          >
+                            {SNAPSHOT_DIFF_ENTITY_LABELS[entry.entityType]} · {entry.label}
+                          </span>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                )}
+                {canEdit ? (
+                  <button
+                    type="button"
+                    onClick={() => void handleRestoreDiffSelection()}
+                    disabled={diffRestoreKeys.length === 0 || isRestoringSelection}
+                    className="w-full rounded border border-cyan-500/50 bg-cyan-500/20 px-2 py-1 text-xs font-semibold text-cyan-100 hover:bg-cyan-500/30 disabled:opacity-60"
+                    title="Bring the checked elements back from the snapshot; removed containers return with their content"
+                  >
+                    {isRestoringSelection ? 'Restoring...' : `Restore Selected (${diffRestoreKeys.length})`}
+                  </button>
+                ) : null}
+              </div>
+            ) : null}
           </div>
         </aside>
 
@@ -0,0 +1,227 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Button from '@/components/common/Button';
+
+type DiffStatus = 'added' | 'removed' | 'changed' | 'unchanged';
+
+interface CatalogDiffEntry {
+  status: DiffStatus;
+  controlKey: string;
+  controlId: string;
+  title: string;
+  questionId: string | null;
+  currentText: string | null;
+  latestText: string | null;
+  changedFields: string[];
+  localModified: boolean;
+  answerCount: number;
+}
+
+interface ProjectNormCatalogStatus {
+  projectNorm: string;
+  linkedCatalog: { id: string; title: string; version: string; syncedAt: string } | null;
+  latestCatalog: { id: string; title: string; version: string } | null;
+  updateAvailable: boolean;
+  diff: CatalogDiffEntry[];
+}
+
+interface SyncResult {
+  version: string;
+  added: number;
+  updated: number;
+  removed: number;
+  skippedLocalChanges: number;
+  keptObsolete: number;
+}
+
+interface NormCatalogSyncProps {
+  projectId: string;
+  canEdit: boolean;
+  questionCount: number;
+  onChanged: () => void;
+}
+
+const STATUS_LABELS: Record<DiffStatus, string> = {
+  added: 'New',
+  removed: 'Removed',
+  changed: 'Changed',
+  unchanged: 'Unchanged',
+};
+
+const STATUS_CLASS_NAMES: Record<DiffStatus, string> = {
+  added: 'bg-green-900/30 text-green-300',
+  removed: 'bg-red-900/30 text-red-300',
+  changed: 'bg-yellow-900/30 text-yellow-200',
+  unchanged: 'bg-slate-700 text-slate-300',
+};
+
+export default function NormCatalogSync({ projectId, canEdit, questionCount, onChanged }: NormCatalogSyncProps) {
+  const [statuses, setStatuses] = useState<ProjectNormCatalogStatus[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [expandedNorm, setExpandedNorm] = useState<string | null>(null);
+  const [syncingNorm, setSyncingNorm] = useState<string | null>(null);
+  const [removeObsolete, setRemoveObsolete] = useState(false);
+  const [overwriteLocalChanges, setOverwriteLocalChanges] = useState(false);
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+
+  const fetchStatuses = async () => {
+    try {
+      setIsLoading(true);
+      const response = await fetch(`/api/projects/${projectId}/norm-catalogs`);
+      if (!response.ok) {
+        throw new Error('Norm catalog status could not be loaded');
+      }
+      setStatuses((await response.json()) as ProjectNormCatalogStatus[]);
+    } catch (fetchError) {
+      setError((fetchError as Error).message);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    void fetchStatuses();
+  }, [projectId, questionCount]);
+
+  const handleSync = async (projectNorm: string) => {
+    try {
+      setSyncingNorm(projectNorm);
+      setError('');
+      setMessage('');
+      const response = await fetch(`/api/projects/${projectId}/norm-catalogs`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ projectNorm, removeObsolete, overwriteLocalChanges }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Question set could not be updated');
+      }
+      const result = data as SyncResult;
+      setMessage(
+        `${projectNorm} synced to v${result.version}: ${result.added} added, ${result.updated} updated, ${result.removed} removed` +
+          (result.skippedLocalChanges > 0 ? `, ${result.skippedLocalChanges} local edits kept` : '') +
+          (result.keptObsolete > 0 ? `, ${result.keptObsolete} obsolete questions kept` : '')
+      );
+      await fetchStatuses();
+      onChanged();
+    } catch (syncError) {
+      setError((syncError as Error).message);
+    } finally {
+      setSyncingNorm(null);
+    }
+  };
+
+  if (statuses.length === 0 && !isLoading && !error) {
+    return null;
+  }
+
+  return (
+    <div className="rounded-lg border border-slate-700 bg-slate-800/50 p-4">
+      <h3 className="mb-1 text-sm font-semibold text-white">Norm Catalog Library</h3>
+      <p className="mb-3 text-xs text-slate-400">
+        Questions are pulled from the central catalog of each project norm. Compare the project question set with the
+        latest catalog version and update it.
+      </p>
+      {error ? <p className="mb-3 text-xs text-red-300">{error}</p> : null}
+      {message ? <p className="mb-3 text-xs text-emerald-300">{message}</p> : null}
+
+      <div className="space-y-2">
+        {statuses.map((status) => {
+          const pendingEntries = status.diff.filter((entry) => entry.status !== 'unchanged');
+          const isExpanded = expandedNorm === status.projectNorm;
+          return (
+            <div key={status.projectNorm} className="rounded border border-slate-700 bg-slate-900/40 p-3">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div className="text-sm text-slate-200">
+                  <span className="font-semibold text-orange-300">{status.projectNorm}</span>{' '}
+                  {status.latestCatalog ? (
+                    <span className="text-xs text-slate-400">
+                      {status.linkedCatalog ? `project v${status.linkedCatalog.version}` : 'not pulled yet'} · library v
+                      {status.latestCatalog.version}
+                    </span>
+                  ) : (
+                    <span className="text-xs text-slate-500">no library catalog available</span>
+                  )}
+                </div>
+                <div className="flex items-center gap-2">
+                  {status.diff.length > 0 ? (
+                    <button
+                      type="button"
+                      onClick={() => setExpandedNorm(isExpanded ? null : status.projectNorm)}
+                      className="text-xs text-cyan-300 hover:text-cyan-200"
+                    >
+                      {isExpanded ? 'Hide diff' : `Show diff (${pendingEntries.length} pending)`}
+                    </button>
+                  ) : null}
+                  {canEdit && status.latestCatalog ? (
+                    <Button
+                      size="sm"
+                      onClick={() => void handleSync(status.projectNorm)}
+                      disabled={Boolean(syncingNorm) || (!status.updateAvailable && pendingEntries.length === 0)}
+                    >
+                      {syncingNorm === status.projectNorm
+                        ? 'Syncing...'
+                        : status.linkedCatalog
+                          ? 'Update'
+                          : 'Pull'}
+                    </Button>
+                  ) : null}
+                </div>
+              </div>
+
+              {isExpanded ? (
+                <ul className="mt-3 max-h-64 space-y-1 overflow-y-auto text-xs">
+                  {status.diff.map((entry) => (
+                    <li key={entry.controlKey} className="flex items-start gap-2 rounded px-2 py-1 hover:bg-slate-800">
+                      <span className={`shrink-0 rounded px-1.5 py-0.5 font-semibold ${STATUS_CLASS_NAMES[entry.status]}`}>
+                        {STATUS_LABELS[entry.status]}
+                      </span>
+                      <span className="text-slate-200">
+                        <span className="font-semibold text-orange-300">{entry.controlId}</span> {entry.title}
+                        {entry.status === 'changed' ? (
+                          <span className="block text-slate-400">Changed: {entry.changedFields.join(', ')}</span>
+                        ) : null}
+                        {entry.localModified ? (
+                          <span className="block text-yellow-300">Edited in this project</span>
+                        ) : null}
+                        {entry.status === 'removed' && entry.answerCount > 0 ? (
+                          <span className="block text-slate-400">{entry.answerCount} answers, kept on update</span>
+                        ) : null}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              ) : null}
+            </div>
+          );
+        })}
+      </div>
+
+      {canEdit ? (
+        <div className="mt-3 flex flex-wrap gap-4 text-xs text-slate-300">
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={removeObsolete}
+              onChange={(event) => setRemoveObsolete(event.target.checked)}
+              className="h-4 w-4 rounded border-slate-500 bg-slate-800 text-orange-500 focus:ring-orange-400"
+            />
+            Remove obsolete unanswered questions
+          </label>
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={overwriteLocalChanges}
+              onChange={(event) => setOverwriteLocalChanges(event.target.checked)}
+              className="h-4 w-4 rounded border-slate-500 bg-slate-800 text-orange-500 focus:ring-orange-400"
+            />
+            Overwrite local question edits
+          </label>
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,274 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+type AuditValue = string | number | boolean | null | Array<string | number | boolean | null>;
+
+interface AuditChange {
+  field: string;
+  before?: AuditValue;
+  after?: AuditValue;
+}
+
+interface AuditEventItem {
+  id: string;
+  actorUserId: string | null;
+  actorName: string | null;
+  entityType: string;
+  entityId: string | null;
+  action: string;
+  createdAt: string;
+  changes: AuditChange[];
+}
+
+interface AuditEventPage {
+  events: AuditEventItem[];
+  nextCursor: string | null;
+  entityTypes: string[];
+  actors: Array<{ id: string; name: string }>;
+}
+
+interface HistoryFilters {
+  entityType: string;
+  action: string;
+  actorUserId: string;
+  from: string;
+  to: string;
+}
+
+const AUDIT_ACTIONS = ['Create', 'Update', 'Delete', 'Restore', 'Import', 'Generate'];
+const EMPTY_FILTERS: HistoryFilters = { entityType: '', action: '', actorUserId: '', from: '', to: '' };
+const MAX_VISIBLE_CHANGES = 8;
+
+const ACTION_STYLES: Record<string, string> = {
+  Create: 'border-emerald-500/40 bg-emerald-900/20 text-emerald-200',
+  Update: 'border-cyan-500/40 bg-cyan-900/20 text-cyan-200',
+  Delete: 'border-red-500/40 bg-red-900/20 text-red-200',
+};
+
+const formatValue = (value: AuditValue | undefined): string => {
+  if (value === undefined || value === null || value === '') return '–';
+  return typeof value === 'string' ? value : JSON.stringify(value);
+};
+
+const toQuery = (filters: HistoryFilters, extra: Record<string, string> = {}): string =>
+  new URLSearchParams(
+    Object.entries({ ...filters, ...extra }).filter(([, value]) => value.length > 0)
+  ).toString();
+
+export default function ProjectHistory({ projectId, canExport }: { projectId: string; canExport: boolean }) {
+  const [filters, setFilters] = useState<HistoryFilters>(EMPTY_FILTERS);
+  const [events, setEvents] = useState<AuditEventItem[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [entityTypes, setEntityTypes] = useState<string[]>([]);
+  const [actors, setActors] = useState<Array<{ id: string; name: string }>>([]);
+  const [expandedIds, setExpandedIds] = useState<Set<string>>(new Set());
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const fetchEvents = async (cursor?: string) => {
+    try {
+      setIsLoading(true);
+      setError('');
+      const response = await fetch(
+        `/api/projects/${projectId}/audit-events?${toQuery(filters, cursor ? { cursor } : {})}`
+      );
+      if (!response.ok) {
+        throw new Error('History could not be loaded');
+      }
+      const payload = (await response.json()) as AuditEventPage;
+      setEvents((previous) => (cursor ? [...previous, ...payload.events] : payload.events));
+      setNextCursor(payload.nextCursor);
+      setEntityTypes(payload.entityTypes);
+      setActors(payload.actors);
+    } catch (loadError) {
+      setError((loadError as Error).message);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    void fetchEvents();
+  }, [projectId, filters]);
+
+  const updateFilter = (key: keyof HistoryFilters, value: string) => {
+    setFilters((previous) => ({ ...previous, [key]: value }));
+  };
+
+  const toggleExpanded = (eventId: string) => {
+    setExpandedIds((previous) => {
+      const next = new Set(previous);
+      if (next.has(eventId)) {
+        next.delete(eventId);
+      } else {
+        next.add(eventId);
+      }
+      return next;
+    });
+  };
+
+  const selectClassName = 'rounded border border-slate-600 bg-slate-700 px-2 py-1 text-xs text-white';
+
+  return (
+    <div className="space-y-4 rounded-lg border border-slate-700 bg-slate-800/50 p-4">
+      <div className="flex flex-wrap items-start justify-between gap-2">
+        <div>
+          <h3 className="text-lg font-semibold text-white">Change History</h3>
+          <p className="text-xs text-slate-400">
+            Every change to the model, assessment, findings and measures of this project, with who made it and what
+            changed.
+          </p>
+        </div>
+        {canExport ? (
+          <div className="flex gap-2">
+            <a
+              href={`/api/projects/${projectId}/audit-events/export?${toQuery(filters, { format: 'csv' })}`}
+              className="rounded border border-slate-500/60 bg-slate-700/40 px-3 py-1 text-xs font-semibold text-slate-200 hover:bg-slate-700/70"
+            >
+              Export CSV
+            </a>
+            <a
+              href={`/api/projects/${projectId}/audit-events/export?${toQuery(filters, { format: 'json' })}`}
+              className="rounded border border-slate-500/60 bg-slate-700/40 px-3 py-1 text-xs font-semibold text-slate-200 hover:bg-slate-700/70"
+            >
+              Export JSON
+            </a>
+          </div>
+        ) : null}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={filters.entityType}
+          onChange={(event) => updateFilter('entityType', event.target.value)}
+          className={selectClassName}
+        >
+          <option value="">All entities</option>
+          {entityTypes.map((entityType) => (
+            <option key={entityType} value={entityType}>
+              {entityType}
+            </option>
+          ))}
+        </select>
+        <select
+          value={filters.action}
+          onChange={(event) => updateFilter('action', event.target.value)}
+          className={selectClassName}
+        >
+          <option value="">All actions</option>
+          {AUDIT_ACTIONS.map((action) => (
+            <option key={action} value={action}>
+              {action}
+            </option>
+          ))}
+        </select>
+        <select
+          value={filters.actorUserId}
+          onChange={(event) => updateFilter('actorUserId', event.target.value)}
+          className={selectClassName}
+        >
+          <option value="">All users</option>
+          {actors.map((actor) => (
+            <option key={actor.id} value={actor.id}>
+              {actor.name}
+            </option>
+          ))}
+        </select>
+        <label className="flex items-center gap-1 text-xs text-slate-400">
+          From
+          <input
+            type="date"
+            value={filters.from}
+            onChange={(event) => updateFilter('from', event.target.value)}
+            className={selectClassName}
+          />
+        </label>
+        <label className="flex items-center gap-1 text-xs text-slate-400">
+          To
+          <input
+            type="date"
+            value={filters.to}
+            onChange={(event) => updateFilter('to', event.target.value)}
+            className={selectClassName}
+          />
+        </label>
+        {Object.values(filters).some(Boolean) ? (
+          <button
+            type="button"
+            onClick={() => setFilters(EMPTY_FILTERS)}
+            className="text-xs text-slate-400 hover:text-slate-200"
+          >
+            Reset filters
+          </button>
+        ) : null}
+      </div>
+
+      {error ? (
+        <div className="rounded border border-red-600/40 bg-red-900/20 p-2 text-xs text-red-200">{error}</div>
+      ) : null}
+
+      {events.length === 0 && !isLoading ? (
+        <p className="text-xs text-slate-400">No changes recorded for these filters.</p>
+      ) : (
+        <ul className="space-y-2">
+          {events.map((event) => {
+            const isExpanded = expandedIds.has(event.id);
+            const visibleChanges = isExpanded ? event.changes : event.changes.slice(0, MAX_VISIBLE_CHANGES);
+            return (
+              <li key={event.id} className="rounded border border-slate-700 bg-slate-900/40 p-3 text-xs">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span
+                    className={`rounded border px-2 py-0.5 font-semibold ${
+                      ACTION_STYLES[event.action] || 'border-amber-500/40 bg-amber-900/20 text-amber-200'
+                    }`}
+                  >
+                    {event.action}
+                  </span>
+                  <span className="font-semibold text-slate-100">{event.entityType}</span>
+                  {event.entityId ? <span className="text-slate-500">{event.entityId}</span> : null}
+                  <span className="ml-auto text-slate-400">
+                    {event.actorName || 'System'} · {new Date(event.createdAt).toLocaleString()}
+                  </span>
+                </div>
+                {visibleChanges.length > 0 ? (
+                  <table className="mt-2 w-full table-fixed text-left">
+                    <tbody>
+                      {visibleChanges.map((change) => (
+                        <tr key={change.field} className="align-top">
+                          <td className="w-40 truncate py-0.5 pr-2 text-slate-400">{change.field}</td>
+                          <td className="break-words py-0.5 pr-2 text-red-200/80">{formatValue(change.before)}</td>
+                          <td className="break-words py-0.5 text-emerald-200/90">{formatValue(change.after)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                ) : null}
+                {event.changes.length > MAX_VISIBLE_CHANGES ? (
+                  <button
+                    type="button"
+                    onClick={() => toggleExpanded(event.id)}
+                    className="mt-1 text-cyan-300 hover:text-cyan-200"
+                  >
+                    {isExpanded ? 'Show less' : `Show all ${event.changes.length} fields`}
+                  </button>
+                ) : null}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {isLoading ? <p className="text-xs text-slate-400">Loading history...</p> : null}
+      {nextCursor && !isLoading ? (
+        <button
+          type="button"
+          onClick={() => void fetchEvents(nextCursor)}
+          className="rounded border border-slate-500/60 bg-slate-700/40 px-3 py-1 text-xs font-semibold text-slate-200 hover:bg-slate-700/70"
+        >
+          Load more
+        </button>
+      ) : null}
+    </div>
+  );
+}
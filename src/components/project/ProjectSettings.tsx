@@ -4,12 +4,19 @@ import { useEffect, useMemo, useState } from 'react';
 import Button from '@/components/common/Button';
 import { PROJECT_NORMS, parseProjectNorms } from '@/lib/project-norm';
 import type { ProjectNorm } from '@/lib/project-norm';
+import { RISK_METHOD_PRESETS, RiskMethodSchema, parseRiskMethod } from '@/lib/risk-method';
+import type { RiskMethod } from '@/lib/risk-method';
 
 interface ProjectSettingsProject {
   name: string;
   description?: string | null;
   norm: string;
   minRoleToView: string;
+  targetSecurityLevel?: number;
+  valuationMode?: string;
+  riskMethod?: string | null;
+  consensusRule?: string;
+  consensusMaxSpread?: number;
 }
 
 type ProjectMemberRole = 'Viewer' | 'Editor' | 'Admin';
@@ -83,6 +90,23 @@ const PROJECT_INVITE_ROLE_SECTIONS: Array<{
   },
 ];
 
+const SECURITY_LEVEL_OPTIONS = [1, 2, 3, 4];
+const DEFAULT_TARGET_SECURITY_LEVEL = 2;
+const VALUATION_MODE_OPTIONS = [
+  { value: 'Propose', label: 'Propose derived values' },
+  { value: 'Enforce', label: 'Enforce derived values' },
+];
+const DEFAULT_VALUATION_MODE = 'Propose';
+const CONSENSUS_RULE_OPTIONS = [
+  { value: 'Unanimous', label: 'Unanimous (any difference is a conflict)' },
+  { value: 'Median', label: 'Median of 0-10 scores' },
+  { value: 'MaxSpread', label: 'Median unless the score spread is too large' },
+];
+const DEFAULT_CONSENSUS_RULE = 'Unanimous';
+const DEFAULT_CONSENSUS_MAX_SPREAD = 3;
+
+const formatRiskMethod = (method: RiskMethod): string => JSON.stringify(method, null, 2);
+
 function normalizeNormsForForm(rawNorm: string): ProjectNorm[] {
   const parsed = parseProjectNorms(rawNorm).filter(
     (value): value is ProjectNorm => PROJECT_NORMS.includes(value as ProjectNorm)
@@ -114,6 +138,15 @@ export default function ProjectSettings({
   const [name, setName] = useState(project.name);
   const [description, setDescription] = useState(project.description || '');
   const [norms, setNorms] = useState<ProjectNorm[]>(normalizeNormsForForm(project.norm));
+  const [targetSecurityLevel, setTargetSecurityLevel] = useState(
+    project.targetSecurityLevel ?? DEFAULT_TARGET_SECURITY_LEVEL
+  );
+  const [valuationMode, setValuationMode] = useState(project.valuationMode ?? DEFAULT_VALUATION_MODE);
+  const [riskMethodText, setRiskMethodText] = useState(formatRiskMethod(parseRiskMethod(project.riskMethod)));
+  const [consensusRule, setConsensusRule] = useState(project.consensusRule ?? DEFAULT_CONSENSUS_RULE);
+  const [consensusMaxSpread, setConsensusMaxSpread] = useState(
+    project.consensusMaxSpread ?? DEFAULT_CONSENSUS_MAX_SPREAD
+  );
   const [isSavingSettings, setIsSavingSettings] = useState(false);
   const [error, setError] = useState('');
   const [message, setMessage] = useState('');
@@ -141,7 +174,32 @@ export default function ProjectSettings({
     setName(project.name);
     setDescription(project.description || '');
     setNorms(normalizeNormsForForm(project.norm));
-  }, [project.description, project.name, project.norm]);
+    setTargetSecurityLevel(project.targetSecurityLevel ?? DEFAULT_TARGET_SECURITY_LEVEL);
+    setValuationMode(project.valuationMode ?? DEFAULT_VALUATION_MODE);
+    setRiskMethodText(formatRiskMethod(parseRiskMethod(project.riskMethod)));
+    setConsensusRule(project.consensusRule ?? DEFAULT_CONSENSUS_RULE);
+    setConsensusMaxSpread(project.consensusMaxSpread ?? DEFAULT_CONSENSUS_MAX_SPREAD);
+  }, [
+    project.consensusMaxSpread,
+    project.consensusRule,
+    project.description,
+    project.name,
+    project.norm,
+    project.riskMethod,
+    project.targetSecurityLevel,
+    project.valuationMode,
+  ]);
+
+  const riskMethodDraft = useMemo((): { method: RiskMethod | null; error: string } => {
+    try {
+      const parsed = RiskMethodSchema.safeParse(JSON.parse(riskMethodText));
+      return parsed.success
+        ? { method: parsed.data, error: '' }
+        : { method: null, error: parsed.error.errors.map((issue) => issue.message).join('; ') };
+    } catch {
+      return { method: null, error: 'Risk method definition is not valid JSON.' };
+    }
+  }, [riskMethodText]);
 
   const hasSettingsChanges = useMemo(() => {
     const originalNorms = normalizeNormsForForm(project.norm);
@@ -151,9 +209,31 @@ export default function ProjectSettings({
     return (
       name.trim() !== project.name ||
       description.trim() !== (project.description || '') ||
+      targetSecurityLevel !== (project.targetSecurityLevel ?? DEFAULT_TARGET_SECURITY_LEVEL) ||
+      valuationMode !== (project.valuationMode ?? DEFAULT_VALUATION_MODE) ||
+      riskMethodText !== formatRiskMethod(parseRiskMethod(project.riskMethod)) ||
+      consensusRule !== (project.consensusRule ?? DEFAULT_CONSENSUS_RULE) ||
+      consensusMaxSpread !== (project.consensusMaxSpread ?? DEFAULT_CONSENSUS_MAX_SPREAD) ||
       normChanged
     );
-  }, [description, name, norms, project.description, project.name, project.norm]);
+  }, [
+    consensusMaxSpread,
+    consensusRule,
+    description,
+    name,
+    norms,
+    project.consensusMaxSpread,
+    project.consensusRule,
+    project.description,
+    project.name,
+    project.norm,
+    project.riskMethod,
+    project.targetSecurityLevel,
+    project.valuationMode,
+    riskMethodText,
+    targetSecurityLevel,
+    valuationMode,
+  ]);
 
   const membersByRole = useMemo<Record<ProjectInviteRole, ProjectMember[]>>(
     () => ({
@@ -336,6 +416,11 @@ export default function ProjectSettings({
       return;
     }
 
+    if (!riskMethodDraft.method) {
+      setError(riskMethodDraft.error);
+      return;
+    }
+
     try {
       setIsSavingSettings(true);
       setError('');
@@ -348,6 +433,11 @@ export default function ProjectSettings({
           name: normalizedName,
           description: description.trim(),
           norms,
+          targetSecurityLevel,
+          valuationMode,
+          riskMethod: riskMethodDraft.method,
+          consensusRule,
+          consensusMaxSpread,
         }),
       });
 
@@ -356,6 +446,11 @@ export default function ProjectSettings({
         name?: string;
         description?: string | null;
         norm?: string;
+        targetSecurityLevel?: number;
+        valuationMode?: string;
+        riskMethod?: string | null;
+        consensusRule?: string;
+        consensusMaxSpread?: number;
       };
 
       if (!response.ok) {
@@ -367,6 +462,11 @@ export default function ProjectSettings({
         name: payload.name ?? normalizedName,
         description: payload.description ?? description.trim(),
         norm: payload.norm ?? project.norm,
+        targetSecurityLevel: payload.targetSecurityLevel ?? targetSecurityLevel,
+        valuationMode: payload.valuationMode ?? valuationMode,
+        riskMethod: payload.riskMethod ?? JSON.stringify(riskMethodDraft.method),
+        consensusRule: payload.consensusRule ?? consensusRule,
+        consensusMaxSpread: payload.consensusMaxSpread ?? consensusMaxSpread,
       });
     } catch (saveError) {
       setError((saveError as Error).message);
@@ -499,6 +599,161 @@ export default function ProjectSettings({
           </p>
         </div>
 
+        <div>
+          <label className="mb-1 block text-slate-300">Default Target Security Level (SL-T)</label>
+          <select
+            value={targetSecurityLevel}
+            onChange={(event) => setTargetSecurityLevel(Number.parseInt(event.target.value, 10))}
+            disabled={!canManageSettings || isSavingSettings}
+            className="w-full rounded-lg border border-slate-600 bg-slate-700 px-4 py-2 text-white focus:border-orange-400 focus:outline-none disabled:cursor-not-allowed disabled:opacity-60"
+          >
+            {SECURITY_LEVEL_OPTIONS.map((level) => (
+              <option key={level} value={level}>
+                SL-T {level}
+              </option>
+            ))}
+          </select>
+          <p className="mt-1 text-xs text-slate-400">
+            Used in the security level gap analysis for components outside any security zone.
+          </p>
+        </div>
+
+        <div>
+          <label className="mb-1 block text-slate-300">Asset Valuation</label>
+          <select
+            value={valuationMode}
+            onChange={(event) => setValuationMode(event.target.value)}
+            disabled={!canManageSettings || isSavingSettings}
+            className="w-full rounded-lg border border-slate-600 bg-slate-700 px-4 py-2 text-white focus:border-orange-400 focus:outline-none disabled:cursor-not-allowed disabled:opacity-60"
+          >
+            {VALUATION_MODE_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          <p className="mt-1 text-xs text-slate-400">
+            Asset values are derived from the C/I/A ratings of the data objects a component or interface handles.
+            Enforce keeps values without a manual override in sync with the model.
+          </p>
+        </div>
+
+        <div>
+          <label className="mb-1 block text-slate-300">Risk Method</label>
+          <select
+            value={
+              RISK_METHOD_PRESETS.some((preset) => preset.key === riskMethodDraft.method?.key)
+                ? riskMethodDraft.method?.key
+                : ''
+            }
+            onChange={(event) => {
+              const preset = RISK_METHOD_PRESETS.find((entry) => entry.key === event.target.value);
+              if (preset) {
+                setRiskMethodText(formatRiskMethod(preset));
+              }
+            }}
+            disabled={!canManageSettings || isSavingSettings}
+            className="w-full rounded-lg border border-slate-600 bg-slate-700 px-4 py-2 text-white focus:border-orange-400 focus:outline-none disabled:cursor-not-allowed disabled:opacity-60"
+          >
+            <option value="" disabled>
+              Custom definition
+            </option>
+            {RISK_METHOD_PRESETS.map((preset) => (
+              <option key={preset.key} value={preset.key}>
+                {preset.name}
+              </option>
+            ))}
+          </select>
+          {riskMethodDraft.method ? (
+            <div className="mt-2 flex flex-wrap items-center gap-2 text-xs">
+              {riskMethodDraft.method.levels.map((level) => (
+                <span
+                  key={level.name}
+                  className="rounded px-2 py-0.5 font-semibold text-slate-900"
+                  style={{ backgroundColor: level.color }}
+                >
+                  {level.name}
+                </span>
+              ))}
+              <label className="ml-auto flex items-center gap-2 text-slate-300">
+                Tolerated up to
+                <select
+                  value={riskMethodDraft.method.toleranceLevel}
+                  onChange={(event) => {
+                    if (riskMethodDraft.method) {
+                      setRiskMethodText(
+                        formatRiskMethod({ ...riskMethodDraft.method, toleranceLevel: event.target.value })
+                      );
+                    }
+                  }}
+                  disabled={!canManageSettings || isSavingSettings}
+                  className="rounded border border-slate-600 bg-slate-700 px-2 py-1 text-xs text-white focus:border-orange-400 focus:outline-none disabled:opacity-60"
+                >
+                  {riskMethodDraft.method.levels.map((level) => (
+                    <option key={level.name} value={level.name}>
+                      {level.name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+          ) : null}
+          <details className="mt-2">
+            <summary className="cursor-pointer text-xs text-slate-400 hover:text-slate-200">
+              Edit definition (axes, formula or matrix, levels, colors)
+            </summary>
+            <textarea
+              value={riskMethodText}
+              onChange={(event) => setRiskMethodText(event.target.value)}
+              rows={14}
+              spellCheck={false}
+              disabled={!canManageSettings || isSavingSettings}
+              className="mt-2 w-full rounded-lg border border-slate-600 bg-slate-900 px-3 py-2 font-mono text-xs text-slate-100 focus:border-orange-400 focus:outline-none disabled:opacity-60"
+            />
+          </details>
+          {riskMethodDraft.error ? <p className="mt-1 text-xs text-red-300">{riskMethodDraft.error}</p> : null}
+          <p className="mt-1 text-xs text-slate-400">
+            Likelihood is scaled from the finding severity, impact from the asset value. Findings, the report and
+            the dashboard rate risks with this method.
+          </p>
+        </div>
+
+        <div>
+          <label className="mb-1 block text-slate-300">Answer Consensus</label>
+          <div className="flex gap-2">
+            <select
+              value={consensusRule}
+              onChange={(event) => setConsensusRule(event.target.value)}
+              disabled={!canManageSettings || isSavingSettings}
+              className="w-full rounded-lg border border-slate-600 bg-slate-700 px-4 py-2 text-white focus:border-orange-400 focus:outline-none disabled:cursor-not-allowed disabled:opacity-60"
+            >
+              {CONSENSUS_RULE_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            {consensusRule === 'MaxSpread' ? (
+              <input
+                type="number"
+                min={0}
+                max={10}
+                value={consensusMaxSpread}
+                onChange={(event) =>
+                  setConsensusMaxSpread(Math.max(0, Math.min(10, Math.round(Number(event.target.value) || 0))))
+                }
+                disabled={!canManageSettings || isSavingSettings}
+                title="Maximum spread between the highest and lowest score"
+                className="w-24 rounded-lg border border-slate-600 bg-slate-700 px-3 py-2 text-white focus:border-orange-400 focus:outline-none disabled:cursor-not-allowed disabled:opacity-60"
+              />
+            ) : null}
+          </div>
+          <p className="mt-1 text-xs text-slate-400">
+            Answers of all assessors are aggregated into one final answer per question and target. Identical answers
+            are approved automatically; conflicts go to the admin inbox in the Questions tab.
+          </p>
+        </div>
+
       </div>
 
       {canManageSettings ? (
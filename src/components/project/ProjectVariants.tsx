@@ -0,0 +1,350 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+
+type UpdateChange = 'added' | 'removed' | 'modified';
+
+interface VariantUpdate {
+  key: string;
+  entityType: string;
+  parentEntityId: string;
+  localEntityId: string | null;
+  label: string;
+  change: UpdateChange;
+  fields: string[];
+  conflictFields: string[];
+}
+
+interface InheritanceStatus {
+  parent: { id: string; name: string; deletedAt: string | null } | null;
+  updates?: VariantUpdate[];
+  summary?: { inherited: number; overridden: number; localOnly: number };
+}
+
+interface VariantItem {
+  id: string;
+  name: string;
+  description: string | null;
+  createdAt: string;
+}
+
+const ENTITY_LABELS: Record<string, string> = {
+  Zone: 'Zone',
+  Node: 'Node',
+  DataObject: 'Data object',
+  Edge: 'Interface',
+  ComponentData: 'Node data',
+  EdgeDataFlow: 'Data flow',
+  Question: 'Question',
+  Answer: 'Answer',
+};
+
+const CHANGE_CLASS_NAMES: Record<UpdateChange, string> = {
+  added: 'text-emerald-300',
+  modified: 'text-cyan-300',
+  removed: 'text-red-300',
+};
+
+export default function ProjectVariants({
+  projectId,
+  canEdit,
+  canManage,
+}: {
+  projectId: string;
+  canEdit: boolean;
+  canManage: boolean;
+}) {
+  const [inheritance, setInheritance] = useState<InheritanceStatus | null>(null);
+  const [variants, setVariants] = useState<VariantItem[]>([]);
+  const [selectedKeys, setSelectedKeys] = useState<Set<string>>(new Set());
+  const [overwriteLocal, setOverwriteLocal] = useState(false);
+  const [variantName, setVariantName] = useState('');
+  const [variantDescription, setVariantDescription] = useState('');
+  const [isApplying, setIsApplying] = useState(false);
+  const [isCreating, setIsCreating] = useState(false);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+
+  const fetchInheritance = async () => {
+    try {
+      const [inheritanceResponse, variantsResponse] = await Promise.all([
+        fetch(`/api/projects/${projectId}/inheritance`),
+        fetch(`/api/projects/${projectId}/variants`),
+      ]);
+      if (!inheritanceResponse.ok || !variantsResponse.ok) {
+        throw new Error('Variant information could not be loaded');
+      }
+      const status = (await inheritanceResponse.json()) as InheritanceStatus;
+      setInheritance(status);
+      setVariants((await variantsResponse.json()) as VariantItem[]);
+      setSelectedKeys(new Set((status.updates || []).map((update) => update.key)));
+    } catch (loadError) {
+      setError((loadError as Error).message);
+    }
+  };
+
+  useEffect(() => {
+    setMessage('');
+    void fetchInheritance();
+  }, [projectId]);
+
+  const toggleKey = (key: string) => {
+    setSelectedKeys((previous) => {
+      const next = new Set(previous);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const handleApply = async () => {
+    if (selectedKeys.size === 0) return;
+    try {
+      setIsApplying(true);
+      setError('');
+      setMessage('');
+      const response = await fetch(`/api/projects/${projectId}/inheritance`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ keys: Array.from(selectedKeys), overwriteLocal }),
+      });
+      if (!response.ok) {
+        const payload = (await response.json().catch(() => ({}))) as { error?: string };
+        throw new Error(payload.error || 'Parent updates could not be applied');
+      }
+      const result = (await response.json()) as { applied: number; skipped: number };
+      setMessage(
+        `${result.applied} update(s) applied${result.skipped > 0 ? `, ${result.skipped} skipped` : ''}.`
+      );
+      await fetchInheritance();
+    } catch (applyError) {
+      setError((applyError as Error).message);
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const handleDetach = async () => {
+    if (!inheritance?.parent) return;
+    if (
+      !window.confirm(
+        `Detach this project from "${inheritance.parent.name}"? Its elements stay, but parent changes will no longer be offered.`
+      )
+    ) {
+      return;
+    }
+    try {
+      setError('');
+      const response = await fetch(`/api/projects/${projectId}/inheritance`, { method: 'DELETE' });
+      if (!response.ok) {
+        const payload = (await response.json().catch(() => ({}))) as { error?: string };
+        throw new Error(payload.error || 'Project could not be detached');
+      }
+      setMessage('Project detached from its parent.');
+      await fetchInheritance();
+    } catch (detachError) {
+      setError((detachError as Error).message);
+    }
+  };
+
+  const handleCreateVariant = async () => {
+    if (!variantName.trim()) {
+      setError('Variant name is required');
+      return;
+    }
+    try {
+      setIsCreating(true);
+      setError('');
+      setMessage('');
+      const response = await fetch(`/api/projects/${projectId}/variants`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: variantName.trim(), description: variantDescription.trim() || undefined }),
+      });
+      if (!response.ok) {
+        const payload = (await response.json().catch(() => ({}))) as { error?: string };
+        throw new Error(payload.error || 'Variant could not be created');
+      }
+      const created = (await response.json()) as { variant: VariantItem; inherited: number };
+      setVariantName('');
+      setVariantDescription('');
+      setVariants((previous) => [...previous, created.variant]);
+      setMessage(`Variant "${created.variant.name}" created with ${created.inherited} inherited element(s).`);
+    } catch (createError) {
+      setError((createError as Error).message);
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const inputClassName = 'rounded border border-slate-600 bg-slate-700 px-2 py-1 text-xs text-white';
+  const updates = inheritance?.updates || [];
+  const conflictCount = updates.filter((update) => update.conflictFields.length > 0).length;
+
+  return (
+    <div className="mt-6 space-y-4 rounded-lg border border-slate-700 bg-slate-800/50 p-4">
+      <div>
+        <h3 className="text-lg font-semibold text-white">Product Variants</h3>
+        <p className="text-xs text-slate-400">
+          Variants inherit the model, questions and answers of a parent project. Local changes override inherited
+          values; changes in the parent are offered as pending updates.
+        </p>
+      </div>
+
+      {error ? (
+        <div className="rounded border border-red-600/40 bg-red-900/20 p-2 text-xs text-red-200">{error}</div>
+      ) : null}
+      {message ? (
+        <div className="rounded border border-emerald-600/40 bg-emerald-900/20 p-2 text-xs text-emerald-200">
+          {message}
+        </div>
+      ) : null}
+
+      {inheritance?.parent ? (
+        <div className="space-y-3 rounded border border-slate-700 bg-slate-900/30 p-3">
+          <div className="flex flex-wrap items-center gap-2 text-xs">
+            <span className="text-slate-400">Variant of</span>
+            <Link href={`/projects/${inheritance.parent.id}`} className="font-semibold text-cyan-300 hover:text-cyan-200">
+              {inheritance.parent.name}
+            </Link>
+            {inheritance.parent.deletedAt ? <span className="text-amber-300">(parent is in the trash)</span> : null}
+            {inheritance.summary ? (
+              <span className="text-slate-400">
+                · {inheritance.summary.inherited} inherited · {inheritance.summary.overridden} overridden ·{' '}
+                {inheritance.summary.localOnly} local only
+              </span>
+            ) : null}
+            {canManage ? (
+              <button
+                type="button"
+                onClick={() => void handleDetach()}
+                className="ml-auto text-red-300 hover:text-red-200"
+              >
+                Detach
+              </button>
+            ) : null}
+          </div>
+
+          {updates.length === 0 ? (
+            <p className="text-xs text-slate-400">The variant is up to date with its parent.</p>
+          ) : (
+            <>
+              <p className="text-xs font-semibold uppercase text-slate-400">
+                Pending parent updates ({updates.length})
+                {conflictCount > 0 ? <span className="ml-2 normal-case text-amber-300">{conflictCount} conflict(s)</span> : null}
+              </p>
+              <ul className="max-h-72 space-y-1 overflow-y-auto">
+                {updates.map((update) => (
+                  <li key={update.key} className="flex items-start gap-2 rounded bg-slate-900/40 px-2 py-1 text-xs">
+                    {canEdit ? (
+                      <input
+                        type="checkbox"
+                        checked={selectedKeys.has(update.key)}
+                        onChange={() => toggleKey(update.key)}
+                        className="mt-0.5"
+                      />
+                    ) : null}
+                    <span className="flex-1 text-slate-200">
+                      <span className={`font-semibold ${CHANGE_CLASS_NAMES[update.change]}`}>{update.change}</span>{' '}
+                      <span className="text-slate-400">{ENTITY_LABELS[update.entityType] || update.entityType}</span>{' '}
+                      {update.label}
+                      {update.fields.length > 0 ? (
+                        <span className="block text-slate-500">Changed: {update.fields.join(', ')}</span>
+                      ) : null}
+                      {update.conflictFields.length > 0 ? (
+                        <span className="block text-amber-300">
+                          Overridden locally: {update.conflictFields.join(', ')}
+                        </span>
+                      ) : null}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+              {canEdit ? (
+                <div className="flex flex-wrap items-center gap-3 text-xs">
+                  <button
+                    type="button"
+                    onClick={() =>
+                      setSelectedKeys(
+                        selectedKeys.size === updates.length ? new Set() : new Set(updates.map((update) => update.key))
+                      )
+                    }
+                    className="text-cyan-300 hover:text-cyan-200"
+                  >
+                    {selectedKeys.size === updates.length ? 'Select none' : 'Select all'}
+                  </button>
+                  <label className="flex items-center gap-1 text-slate-300">
+                    <input
+                      type="checkbox"
+                      checked={overwriteLocal}
+                      onChange={(event) => setOverwriteLocal(event.target.checked)}
+                    />
+                    Overwrite local overrides
+                  </label>
+                  <button
+                    type="button"
+                    onClick={() => void handleApply()}
+                    disabled={isApplying || selectedKeys.size === 0}
+                    className="ml-auto rounded border border-orange-500/60 bg-orange-600/20 px-3 py-1 font-semibold text-orange-200 hover:bg-orange-600/30 disabled:opacity-50"
+                  >
+                    {isApplying ? 'Applying...' : `Apply Selected (${selectedKeys.size})`}
+                  </button>
+                </div>
+              ) : null}
+            </>
+          )}
+        </div>
+      ) : null}
+
+      <div className="space-y-2">
+        <p className="text-xs font-semibold uppercase text-slate-400">Variants of this project ({variants.length})</p>
+        {variants.length === 0 ? (
+          <p className="text-xs text-slate-500">No variant has been derived from this project yet.</p>
+        ) : (
+          <ul className="space-y-1">
+            {variants.map((variant) => (
+              <li
+                key={variant.id}
+                className="flex flex-wrap items-center gap-2 rounded border border-slate-700 bg-slate-900/40 px-3 py-2 text-xs"
+              >
+                <Link href={`/projects/${variant.id}`} className="font-semibold text-cyan-300 hover:text-cyan-200">
+                  {variant.name}
+                </Link>
+                {variant.description ? <span className="text-slate-500">{variant.description}</span> : null}
+                <span className="ml-auto text-slate-400">{new Date(variant.createdAt).toLocaleDateString()}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            value={variantName}
+            onChange={(event) => setVariantName(event.target.value)}
+            placeholder="Variant name"
+            maxLength={200}
+            className={`${inputClassName} w-52`}
+          />
+          <input
+            value={variantDescription}
+            onChange={(event) => setVariantDescription(event.target.value)}
+            placeholder="Description (optional)"
+            maxLength={2000}
+            className={`${inputClassName} min-w-[200px] flex-1`}
+          />
+          <button
+            type="button"
+            onClick={() => void handleCreateVariant()}
+            disabled={isCreating}
+            className="rounded border border-cyan-500/60 bg-cyan-700/20 px-3 py-1 text-xs font-semibold text-cyan-200 hover:bg-cyan-700/30 disabled:opacity-50"
+          >
+            {isCreating ? 'Creating...' : 'Create Variant'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
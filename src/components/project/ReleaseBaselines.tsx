@@ -0,0 +1,493 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+interface BaselineItem {
+  id: string;
+  releaseName: string;
+  notes: string | null;
+  createdAt: string;
+  createdBy: { id: string; name: string | null; email: string } | null;
+}
+
+interface FindingRef {
+  id: string;
+  assetName: string;
+  questionText: string;
+  normReference: string;
+  severity: number;
+  residualScore: number | null;
+  residualLevel: string | null;
+}
+
+interface RiskSummary {
+  findings: number;
+  rated: number;
+  inherentScore: number;
+  residualScore: number;
+  intolerable: number;
+  accepted: number;
+}
+
+interface AnswerChange {
+  key: string;
+  questionText: string;
+  targetLabel: string | null;
+  userId: string | null;
+  before: string | null;
+  after: string | null;
+}
+
+interface ValueChange {
+  key: string;
+  label: string;
+  before: string | number | null;
+  after: string | number | null;
+}
+
+export interface BaselineComparisonResult {
+  from: { id: string; releaseName: string; createdAt: string | null };
+  to: { id: string; releaseName: string; createdAt: string | null };
+  model: Record<string, { added: number; removed: number; modified: number }>;
+  findings: {
+    new: FindingRef[];
+    closed: FindingRef[];
+    changed: Array<FindingRef & { fields: string[]; before: FindingRef }>;
+  };
+  risk: {
+    methodName: string;
+    before: RiskSummary;
+    after: RiskSummary;
+    delta: { findings: number; inherentScore: number; residualScore: number; intolerable: number };
+  };
+  finalAnswers: AnswerChange[];
+  answers: AnswerChange[];
+  assetValues: ValueChange[];
+  measures: ValueChange[];
+}
+
+const LIVE_REF = 'live';
+const MAX_VISIBLE_ROWS = 12;
+
+const RISK_ROWS: Array<{ label: string; key: keyof BaselineComparisonResult['risk']['delta'] }> = [
+  { label: 'Findings', key: 'findings' },
+  { label: 'Inherent risk score', key: 'inherentScore' },
+  { label: 'Residual risk score', key: 'residualScore' },
+  { label: 'Residual above tolerance', key: 'intolerable' },
+];
+
+const MODEL_LABELS: Record<string, string> = {
+  node: 'Nodes',
+  edge: 'Interfaces',
+  dataObject: 'Data objects',
+  zone: 'Zones',
+};
+
+const formatDelta = (value: number): string => (value > 0 ? `+${value}` : String(value));
+
+const formatValue = (value: string | number | null): string => (value === null || value === '' ? '–' : String(value));
+
+// Rising risk is bad, so positive deltas are red
+const deltaClassName = (value: number): string => {
+  if (value > 0) return 'text-red-300';
+  if (value < 0) return 'text-emerald-300';
+  return 'text-slate-400';
+};
+
+export function BaselineRiskTable({ comparison }: { comparison: BaselineComparisonResult }) {
+  return (
+    <table className="w-full text-left text-xs">
+      <thead>
+        <tr className="text-slate-400">
+          <th className="py-1 pr-2 font-semibold">Risk ({comparison.risk.methodName})</th>
+          <th className="py-1 pr-2 font-semibold">{comparison.from.releaseName}</th>
+          <th className="py-1 pr-2 font-semibold">{comparison.to.releaseName}</th>
+          <th className="py-1 font-semibold">Delta</th>
+        </tr>
+      </thead>
+      <tbody>
+        {RISK_ROWS.map((row) => (
+          <tr key={row.key} className="border-t border-slate-700/60">
+            <td className="py-1 pr-2 text-slate-300">{row.label}</td>
+            <td className="py-1 pr-2 text-slate-200">{comparison.risk.before[row.key]}</td>
+            <td className="py-1 pr-2 text-slate-200">{comparison.risk.after[row.key]}</td>
+            <td className={`py-1 font-semibold ${deltaClassName(comparison.risk.delta[row.key])}`}>
+              {formatDelta(comparison.risk.delta[row.key])}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+function FindingList({ title, findings, className }: { title: string; findings: FindingRef[]; className: string }) {
+  const [showAll, setShowAll] = useState(false);
+  const visible = showAll ? findings : findings.slice(0, MAX_VISIBLE_ROWS);
+  return (
+    <div>
+      <p className={`text-xs font-semibold uppercase ${className}`}>
+        {title} ({findings.length})
+      </p>
+      {findings.length === 0 ? (
+        <p className="mt-1 text-xs text-slate-500">None</p>
+      ) : (
+        <ul className="mt-1 space-y-1 text-xs">
+          {visible.map((finding) => (
+            <li key={finding.id} className="rounded bg-slate-900/40 px-2 py-1 text-slate-200">
+              <span className="font-semibold">{finding.assetName}</span> · {finding.questionText}
+              <span className="block text-slate-400">
+                {finding.normReference} · Severity {finding.severity}
+                {finding.residualScore !== null ? ` · Residual ${finding.residualScore} (${finding.residualLevel})` : ''}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+      {findings.length > MAX_VISIBLE_ROWS ? (
+        <button
+          type="button"
+          onClick={() => setShowAll(!showAll)}
+          className="mt-1 text-xs text-cyan-300 hover:text-cyan-200"
+        >
+          {showAll ? 'Show less' : `Show all ${findings.length}`}
+        </button>
+      ) : null}
+    </div>
+  );
+}
+
+function ChangeTable({
+  title,
+  rows,
+}: {
+  title: string;
+  rows: Array<{ key: string; label: string; before: string | number | null; after: string | number | null }>;
+}) {
+  const [showAll, setShowAll] = useState(false);
+  const visible = showAll ? rows : rows.slice(0, MAX_VISIBLE_ROWS);
+  return (
+    <div>
+      <p className="text-xs font-semibold uppercase text-slate-400">
+        {title} ({rows.length})
+      </p>
+      {rows.length === 0 ? (
+        <p className="mt-1 text-xs text-slate-500">None</p>
+      ) : (
+        <table className="mt-1 w-full table-fixed text-left text-xs">
+          <tbody>
+            {visible.map((row) => (
+              <tr key={row.key} className="align-top">
+                <td className="break-words py-0.5 pr-2 text-slate-300">{row.label}</td>
+                <td className="w-24 break-words py-0.5 pr-2 text-red-200/80">{formatValue(row.before)}</td>
+                <td className="w-24 break-words py-0.5 text-emerald-200/90">{formatValue(row.after)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      {rows.length > MAX_VISIBLE_ROWS ? (
+        <button
+          type="button"
+          onClick={() => setShowAll(!showAll)}
+          className="mt-1 text-xs text-cyan-300 hover:text-cyan-200"
+        >
+          {showAll ? 'Show less' : `Show all ${rows.length}`}
+        </button>
+      ) : null}
+    </div>
+  );
+}
+
+const toAnswerRows = (changes: AnswerChange[]) =>
+  changes.map((change) => ({
+    key: change.key,
+    label: change.targetLabel ? `${change.questionText} (${change.targetLabel})` : change.questionText,
+    before: change.before,
+    after: change.after,
+  }));
+
+export default function ReleaseBaselines({
+  projectId,
+  canEdit,
+  canManage,
+}: {
+  projectId: string;
+  canEdit: boolean;
+  canManage: boolean;
+}) {
+  const [baselines, setBaselines] = useState<BaselineItem[]>([]);
+  const [releaseName, setReleaseName] = useState('');
+  const [notes, setNotes] = useState('');
+  const [fromRef, setFromRef] = useState('');
+  const [toRef, setToRef] = useState(LIVE_REF);
+  const [comparison, setComparison] = useState<BaselineComparisonResult | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isComparing, setIsComparing] = useState(false);
+  const [error, setError] = useState('');
+
+  const fetchBaselines = async () => {
+    try {
+      setIsLoading(true);
+      const response = await fetch(`/api/projects/${projectId}/baselines`);
+      if (!response.ok) {
+        throw new Error('Baselines could not be loaded');
+      }
+      const payload = (await response.json()) as BaselineItem[];
+      setBaselines(payload);
+      setFromRef((previous) => (payload.some((baseline) => baseline.id === previous) ? previous : payload[0]?.id || ''));
+    } catch (loadError) {
+      setError((loadError as Error).message);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    void fetchBaselines();
+    setComparison(null);
+  }, [projectId]);
+
+  const handleCreate = async () => {
+    if (!releaseName.trim()) {
+      setError('Release name is required');
+      return;
+    }
+    try {
+      setIsSaving(true);
+      setError('');
+      const response = await fetch(`/api/projects/${projectId}/baselines`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ releaseName: releaseName.trim(), notes: notes.trim() || undefined }),
+      });
+      if (!response.ok) {
+        const payload = (await response.json().catch(() => ({}))) as { error?: string };
+        throw new Error(payload.error || 'Baseline could not be frozen');
+      }
+      const created = (await response.json()) as BaselineItem;
+      setReleaseName('');
+      setNotes('');
+      setBaselines((previous) => [created, ...previous]);
+      setFromRef(created.id);
+    } catch (createError) {
+      setError((createError as Error).message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (baseline: BaselineItem) => {
+    if (!window.confirm(`Delete the baseline of release "${baseline.releaseName}"?`)) return;
+    try {
+      setError('');
+      const response = await fetch(`/api/projects/${projectId}/baselines/${baseline.id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const payload = (await response.json().catch(() => ({}))) as { error?: string };
+        throw new Error(payload.error || 'Baseline could not be deleted');
+      }
+      setComparison((previous) =>
+        previous && (previous.from.id === baseline.id || previous.to.id === baseline.id) ? null : previous
+      );
+      if (toRef === baseline.id) {
+        setToRef(LIVE_REF);
+      }
+      await fetchBaselines();
+    } catch (deleteError) {
+      setError((deleteError as Error).message);
+    }
+  };
+
+  const handleCompare = async (from: string, to: string) => {
+    try {
+      setIsComparing(true);
+      setError('');
+      setFromRef(from);
+      setToRef(to);
+      const response = await fetch(
+        `/api/projects/${projectId}/baselines/compare?${new URLSearchParams({ from, to }).toString()}`
+      );
+      if (!response.ok) {
+        const payload = (await response.json().catch(() => ({}))) as { error?: string };
+        throw new Error(payload.error || 'Baselines could not be compared');
+      }
+      setComparison((await response.json()) as BaselineComparisonResult);
+    } catch (compareError) {
+      setError((compareError as Error).message);
+    } finally {
+      setIsComparing(false);
+    }
+  };
+
+  const inputClassName = 'rounded border border-slate-600 bg-slate-700 px-2 py-1 text-xs text-white';
+  const modelChanges = comparison
+    ? Object.entries(MODEL_LABELS)
+        .map(([entityType, label]) => ({ label, counts: comparison.model[entityType] }))
+        .filter((entry) => entry.counts && entry.counts.added + entry.counts.removed + entry.counts.modified > 0)
+    : [];
+
+  return (
+    <div className="mb-6 space-y-4 rounded-lg border border-slate-700 bg-slate-800/50 p-4">
+      <div>
+        <h3 className="text-lg font-semibold text-white">Release Baselines</h3>
+        <p className="text-xs text-slate-400">
+          Freeze the model, asset values, questions, answers, findings and measures of a release and compare it with
+          later releases or the current assessment.
+        </p>
+      </div>
+
+      {canEdit ? (
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            value={releaseName}
+            onChange={(event) => setReleaseName(event.target.value)}
+            placeholder="Release, e.g. v2.1"
+            maxLength={120}
+            className={`${inputClassName} w-44`}
+          />
+          <input
+            value={notes}
+            onChange={(event) => setNotes(event.target.value)}
+            placeholder="Notes (optional)"
+            maxLength={2000}
+            className={`${inputClassName} min-w-[200px] flex-1`}
+          />
+          <button
+            type="button"
+            onClick={() => void handleCreate()}
+            disabled={isSaving}
+            className="rounded border border-orange-500/60 bg-orange-600/20 px-3 py-1 text-xs font-semibold text-orange-200 hover:bg-orange-600/30 disabled:opacity-50"
+          >
+            {isSaving ? 'Freezing...' : 'Freeze Baseline'}
+          </button>
+        </div>
+      ) : null}
+
+      {error ? (
+        <div className="rounded border border-red-600/40 bg-red-900/20 p-2 text-xs text-red-200">{error}</div>
+      ) : null}
+
+      {baselines.length === 0 && !isLoading ? (
+        <p className="text-xs text-slate-400">No baseline has been frozen for this project yet.</p>
+      ) : (
+        <ul className="space-y-1">
+          {baselines.map((baseline) => (
+            <li
+              key={baseline.id}
+              className="flex flex-wrap items-center gap-2 rounded border border-slate-700 bg-slate-900/40 px-3 py-2 text-xs"
+            >
+              <span className="font-semibold text-slate-100">{baseline.releaseName}</span>
+              <span className="text-slate-400">
+                {new Date(baseline.createdAt).toLocaleString()} ·{' '}
+                {baseline.createdBy?.name || baseline.createdBy?.email || 'Unknown'}
+              </span>
+              {baseline.notes ? <span className="text-slate-500">{baseline.notes}</span> : null}
+              <span className="ml-auto flex gap-2">
+                <button
+                  type="button"
+                  onClick={() => void handleCompare(baseline.id, LIVE_REF)}
+                  disabled={isComparing}
+                  className="text-cyan-300 hover:text-cyan-200 disabled:opacity-50"
+                >
+                  Compare with Current
+                </button>
+                {canManage ? (
+                  <button
+                    type="button"
+                    onClick={() => void handleDelete(baseline)}
+                    className="text-red-300 hover:text-red-200"
+                  >
+                    Delete
+                  </button>
+                ) : null}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {baselines.length > 0 ? (
+        <div className="flex flex-wrap items-center gap-2 text-xs text-slate-400">
+          Compare
+          <select value={fromRef} onChange={(event) => setFromRef(event.target.value)} className={inputClassName}>
+            {baselines.map((baseline) => (
+              <option key={baseline.id} value={baseline.id}>
+                {baseline.releaseName}
+              </option>
+            ))}
+          </select>
+          with
+          <select value={toRef} onChange={(event) => setToRef(event.target.value)} className={inputClassName}>
+            <option value={LIVE_REF}>Current assessment</option>
+            {baselines.map((baseline) => (
+              <option key={baseline.id} value={baseline.id}>
+                {baseline.releaseName}
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={() => void handleCompare(fromRef, toRef)}
+            disabled={isComparing || !fromRef || fromRef === toRef}
+            className="rounded border border-cyan-500/60 bg-cyan-700/20 px-3 py-1 font-semibold text-cyan-200 hover:bg-cyan-700/30 disabled:opacity-50"
+          >
+            {isComparing ? 'Comparing...' : 'Compare'}
+          </button>
+        </div>
+      ) : null}
+
+      {comparison ? (
+        <div className="space-y-4 rounded border border-slate-700 bg-slate-900/30 p-3">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <p className="text-sm font-semibold text-slate-100">
+              {comparison.from.releaseName} → {comparison.to.releaseName}
+            </p>
+            <button
+              type="button"
+              onClick={() => setComparison(null)}
+              className="text-xs text-slate-400 hover:text-slate-200"
+            >
+              Close
+            </button>
+          </div>
+          <BaselineRiskTable comparison={comparison} />
+          {modelChanges.length > 0 ? (
+            <p className="text-xs text-slate-400">
+              Model:{' '}
+              {modelChanges
+                .map(
+                  (entry) =>
+                    `${entry.label} +${entry.counts.added} / −${entry.counts.removed} / ~${entry.counts.modified}`
+                )
+                .join(' · ')}
+            </p>
+          ) : (
+            <p className="text-xs text-slate-400">Model: no structural changes</p>
+          )}
+          <div className="grid gap-4 md:grid-cols-2">
+            <FindingList title="New findings" findings={comparison.findings.new} className="text-red-300" />
+            <FindingList title="Closed findings" findings={comparison.findings.closed} className="text-emerald-300" />
+          </div>
+          <ChangeTable
+            title="Changed findings"
+            rows={comparison.findings.changed.map((finding) => ({
+              key: finding.id,
+              label: `${finding.assetName} · ${finding.questionText} (${finding.fields.join(', ')})`,
+              before: finding.before.residualLevel
+                ? `${finding.before.residualScore} (${finding.before.residualLevel})`
+                : `Severity ${finding.before.severity}`,
+              after: finding.residualLevel ? `${finding.residualScore} (${finding.residualLevel})` : `Severity ${finding.severity}`,
+            }))}
+          />
+          <div className="grid gap-4 md:grid-cols-2">
+            <ChangeTable title="Changed final answers" rows={toAnswerRows(comparison.finalAnswers)} />
+            <ChangeTable title="Changed individual answers" rows={toAnswerRows(comparison.answers)} />
+            <ChangeTable title="Changed asset values" rows={comparison.assetValues} />
+            <ChangeTable title="Changed measure status" rows={comparison.measures} />
+          </div>
+        </div>
+      ) : null}
+    </div>
+  );
+}
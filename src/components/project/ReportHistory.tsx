@@ -0,0 +1,226 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { REPORT_FORMATS, formatFileSize } from '@/lib/report-template';
+import type { ReportFormat } from '@/lib/report-template';
+
+interface ReportItem {
+  id: string;
+  title: string;
+  format: string;
+  templateName: string | null;
+  language: string;
+  recipient: string | null;
+  note: string | null;
+  fileName: string | null;
+  size: number | null;
+  sha256: string | null;
+  storageKey: string | null;
+  generatedAt: string;
+  generatedBy: { id: string; name: string | null; email: string } | null;
+}
+
+const FORMAT_LABELS: Record<ReportFormat, string> = {
+  PDF: 'PDF (LaTeX)',
+  HTML: 'HTML (self-contained)',
+  DOCX: 'Word (DOCX)',
+  Markdown: 'Markdown',
+};
+
+/**
+ * Generates reports with the selected template and lists every report
+ * delivered so far.
+ */
+export default function ReportHistory({
+  projectId,
+  templateId,
+}: {
+  projectId: string;
+  templateId: string;
+}) {
+  const [reports, setReports] = useState<ReportItem[]>([]);
+  const [canGenerate, setCanGenerate] = useState(false);
+  const [canDelete, setCanDelete] = useState(false);
+  const [format, setFormat] = useState<ReportFormat>('PDF');
+  const [recipient, setRecipient] = useState('');
+  const [note, setNote] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState('');
+
+  const fetchReports = async () => {
+    try {
+      setIsLoading(true);
+      const response = await fetch(`/api/projects/${projectId}/reports`);
+      if (!response.ok) {
+        throw new Error('Report history could not be loaded');
+      }
+      const payload = (await response.json()) as { reports: ReportItem[]; canGenerate: boolean; canDelete: boolean };
+      setReports(payload.reports);
+      setCanGenerate(payload.canGenerate);
+      setCanDelete(payload.canDelete);
+    } catch (loadError) {
+      setError((loadError as Error).message);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    void fetchReports();
+  }, [projectId]);
+
+  const downloadUrl = (report: ReportItem) => `/api/projects/${projectId}/reports/${report.id}`;
+
+  const handleGenerate = async () => {
+    try {
+      setIsGenerating(true);
+      setError('');
+      const response = await fetch(`/api/projects/${projectId}/reports`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          format,
+          templateId: templateId || undefined,
+          recipient: recipient.trim() || undefined,
+          note: note.trim() || undefined,
+        }),
+      });
+      if (!response.ok) {
+        const payload = (await response.json().catch(() => ({}))) as { error?: string };
+        throw new Error(payload.error || 'Report could not be generated');
+      }
+      const created = (await response.json()) as ReportItem;
+      setReports((previous) => [created, ...previous]);
+      setRecipient('');
+      setNote('');
+
+      const anchor = document.createElement('a');
+      anchor.href = downloadUrl(created);
+      anchor.download = created.fileName || '';
+      document.body.appendChild(anchor);
+      anchor.click();
+      document.body.removeChild(anchor);
+    } catch (generateError) {
+      setError((generateError as Error).message);
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const handleDelete = async (report: ReportItem) => {
+    if (!window.confirm(`Delete the ${report.format} report of ${new Date(report.generatedAt).toLocaleString()}?`)) return;
+    try {
+      setError('');
+      const response = await fetch(downloadUrl(report), { method: 'DELETE' });
+      if (!response.ok) {
+        const payload = (await response.json().catch(() => ({}))) as { error?: string };
+        throw new Error(payload.error || 'Report could not be deleted');
+      }
+      setReports((previous) => previous.filter((entry) => entry.id !== report.id));
+    } catch (deleteError) {
+      setError((deleteError as Error).message);
+    }
+  };
+
+  const inputClassName = 'rounded border border-slate-600 bg-slate-700 px-2 py-1 text-xs text-white';
+
+  return (
+    <div className="space-y-4 rounded-lg border border-slate-700 bg-slate-800/50 p-4">
+      <div>
+        <h3 className="text-lg font-semibold text-white">Generated Reports</h3>
+        <p className="text-xs text-slate-400">
+          Every generated report is kept with its file, so you can see what was delivered to whom and when.
+        </p>
+      </div>
+
+      {canGenerate ? (
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={format}
+            onChange={(event) => setFormat(event.target.value as ReportFormat)}
+            className={inputClassName}
+          >
+            {REPORT_FORMATS.map((entry) => (
+              <option key={entry} value={entry}>
+                {FORMAT_LABELS[entry]}
+              </option>
+            ))}
+          </select>
+          <input
+            value={recipient}
+            onChange={(event) => setRecipient(event.target.value)}
+            placeholder="Recipient (optional)"
+            maxLength={200}
+            className={`${inputClassName} w-52`}
+          />
+          <input
+            value={note}
+            onChange={(event) => setNote(event.target.value)}
+            placeholder="Note (optional)"
+            maxLength={2000}
+            className={`${inputClassName} min-w-[200px] flex-1`}
+          />
+          <button
+            type="button"
+            onClick={() => void handleGenerate()}
+            disabled={isGenerating}
+            className="rounded border border-orange-500/60 bg-orange-600/20 px-3 py-1 text-xs font-semibold text-orange-200 hover:bg-orange-600/30 disabled:opacity-50"
+          >
+            {isGenerating ? 'Generating...' : 'Generate Report'}
+          </button>
+        </div>
+      ) : null}
+
+      {error ? (
+        <div className="rounded border border-red-600/40 bg-red-900/20 p-2 text-xs text-red-200">{error}</div>
+      ) : null}
+
+      {reports.length === 0 && !isLoading ? (
+        <p className="text-xs text-slate-400">No report has been generated for this project yet.</p>
+      ) : (
+        <ul className="space-y-1">
+          {reports.map((report) => (
+            <li
+              key={report.id}
+              className="flex flex-wrap items-center gap-2 rounded border border-slate-700 bg-slate-900/40 px-3 py-2 text-xs"
+            >
+              <span className="rounded bg-slate-700 px-1.5 py-0.5 font-semibold text-cyan-200">{report.format}</span>
+              <span className="font-semibold text-slate-100">{report.title}</span>
+              <span className="text-slate-400">
+                {new Date(report.generatedAt).toLocaleString()} ·{' '}
+                {report.generatedBy?.name || report.generatedBy?.email || 'Unknown'}
+                {report.recipient ? ` · for ${report.recipient}` : ''}
+                {` · ${report.templateName || 'Built-in report'}`}
+                {report.size !== null ? ` · ${formatFileSize(report.size)}` : ''}
+              </span>
+              {report.note ? <span className="text-slate-500">{report.note}</span> : null}
+              <span className="ml-auto flex gap-2">
+                {report.storageKey ? (
+                  <a
+                    href={downloadUrl(report)}
+                    download={report.fileName || undefined}
+                    className="text-cyan-300 hover:text-cyan-200"
+                  >
+                    Download
+                  </a>
+                ) : (
+                  <span className="text-slate-500">No file</span>
+                )}
+                {canDelete ? (
+                  <button
+                    type="button"
+                    onClick={() => void handleDelete(report)}
+                    className="text-red-300 hover:text-red-200"
+                  >
+                    Delete
+                  </button>
+                ) : null}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -2,7 +2,43 @@
 
 import { useEffect, useState } from 'react';
 import Image from 'next/image';
-import Button from '@/components/common/Button';
+import SecurityLevelRadar from '@/components/project/SecurityLevelRadar';
+import type { SecurityLevelGapReport } from '@/components/project/SecurityLevelRadar';
+import { BaselineRiskTable } from '@/components/project/ReleaseBaselines';
+import type { BaselineComparisonResult } from '@/components/project/ReleaseBaselines';
+import ReportTemplateEditor from '@/components/project/ReportTemplateEditor';
+import type { ReportTemplateItem } from '@/components/project/ReportTemplateEditor';
+import ReportHistory from '@/components/project/ReportHistory';
+import { countRiskLevels, evaluateFindingRisk, parseRiskMethod } from '@/lib/risk-method';
+import type { RiskReducingMeasure } from '@/lib/risk-method';
+
+interface AttackPathSummary {
+  nodeNames: string[];
+  hops: Array<{ edgeId: string }>;
+  cost: number;
+  targetValue: number | null;
+}
+
+// Fields of the asset value, finding and measure payloads the preview counts
+interface AssetValuePayload {
+  assetType: string;
+  assetId: string;
+  value: number;
+}
+
+interface FindingPayload {
+  id: string;
+  assetType: string;
+  assetId: string;
+  severity: number;
+  likelihood: number | null;
+  impact: number | null;
+  riskAcceptedAt: string | null;
+}
+
+interface MeasurePayload extends RiskReducingMeasure {
+  findingId: string;
+}
 
 interface ReportData {
   project: {
@@ -20,42 +56,173 @@ interface ReportData {
     count: number;
     bySeverity: Record<string, number>;
   };
+  risks: {
+    methodName: string;
+    toleranceLevel: string;
+    inherentLevels: Array<{ name: string; color: string; count: number }>;
+    residualLevels: Array<{ name: string; color: string; count: number }>;
+    intolerable: number;
+    accepted: number;
+    unrated: number;
+  };
   measures: {
     total: number;
     open: number;
     inProgress: number;
     done: number;
   };
+  securityLevels: SecurityLevelGapReport | null;
+  attackPaths: AttackPathSummary[];
+  releaseChanges: BaselineComparisonResult | null;
 }
 
 export default function ReportPreview({ projectId }: { projectId: string }) {
   const [report, setReport] = useState<ReportData | null>(null);
   const [isLoading, setIsLoading] = useState(true);
-  const [isExporting, setIsExporting] = useState(false);
   const [exportError, setExportError] = useState<string | null>(null);
+  const [templates, setTemplates] = useState<ReportTemplateItem[]>([]);
+  const [selectedTemplateId, setSelectedTemplateId] = useState('');
+  const [canManageProjectTemplates, setCanManageProjectTemplates] = useState(false);
+  const [canManageOrganizationTemplates, setCanManageOrganizationTemplates] = useState(false);
+  // undefined: editor closed, null: new template
+  const [editorTemplate, setEditorTemplate] = useState<ReportTemplateItem | null | undefined>(undefined);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
 
   useEffect(() => {
     fetchReportData();
+    fetchTemplates();
+    setSelectedTemplateId('');
+    setEditorTemplate(undefined);
+    setPreviewUrl(null);
   }, [projectId]);
 
+  useEffect(() => {
+    return () => {
+      if (previewUrl) URL.revokeObjectURL(previewUrl);
+    };
+  }, [previewUrl]);
+
+  const selectedTemplate = templates.find((template) => template.id === selectedTemplateId) ?? null;
+  const canManageSelectedTemplate = selectedTemplate
+    ? selectedTemplate.scope === 'project'
+      ? canManageProjectTemplates
+      : canManageOrganizationTemplates
+    : false;
+
+  const fetchTemplates = async () => {
+    try {
+      const response = await fetch(`/api/projects/${projectId}/report-templates`);
+      if (!response.ok) throw new Error('Failed to fetch report templates');
+      const payload = (await response.json()) as {
+        templates: ReportTemplateItem[];
+        canManageProject: boolean;
+        canManageOrganization: boolean;
+      };
+      setTemplates(payload.templates);
+      setCanManageProjectTemplates(payload.canManageProject);
+      setCanManageOrganizationTemplates(payload.canManageOrganization);
+    } catch (error) {
+      console.error('Failed to fetch report templates:', error);
+    }
+  };
+
+  // Renders the report with the selected template; the built-in layout when none is selected
+  const handlePreviewPDF = async () => {
+    setIsPreviewing(true);
+    setExportError(null);
+    try {
+      const query = new URLSearchParams({
+        ...(selectedTemplateId && { templateId: selectedTemplateId }),
+        disposition: 'inline',
+      }).toString();
+      const response = await fetch(`/api/projects/${projectId}/report/pdf?${query}`, { method: 'GET' });
+      if (!response.ok) {
+        const payload = (await response.json().catch(() => ({}))) as { error?: string };
+        throw new Error(payload.error || 'Failed to generate PDF');
+      }
+      setPreviewUrl(URL.createObjectURL(await response.blob()));
+    } catch (error) {
+      console.error('Failed to preview PDF:', error);
+      setExportError((error as Error).message || 'Failed to preview PDF');
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  const handleTemplateSaved = (saved: ReportTemplateItem) => {
+    setTemplates((previous) =>
+      previous.some((template) => template.id === saved.id)
+        ? previous.map((template) => (template.id === saved.id ? saved : template))
+        : [...previous, saved]
+    );
+    setSelectedTemplateId(saved.id);
+    setEditorTemplate(undefined);
+    setPreviewUrl(null);
+  };
+
+  const handleDeleteTemplate = async () => {
+    if (!selectedTemplate) return;
+    if (!window.confirm(`Delete the report template "${selectedTemplate.name}"?`)) return;
+    try {
+      setExportError(null);
+      const response = await fetch(`/api/projects/${projectId}/report-templates/${selectedTemplate.id}`, {
+        method: 'DELETE',
+      });
+      if (!response.ok) {
+        const payload = (await response.json().catch(() => ({}))) as { error?: string };
+        throw new Error(payload.error || 'Report template could not be deleted');
+      }
+      setTemplates((previous) => previous.filter((template) => template.id !== selectedTemplate.id));
+      setSelectedTemplateId('');
+      setPreviewUrl(null);
+    } catch (error) {
+      setExportError((error as Error).message);
+    }
+  };
+
   const fetchReportData = async () => {
     try {
       setIsLoading(true);
 
       // Fetch all data needed for report
-      const [projectRes, assetRes, findingsRes, measuresRes] = await Promise.all([
-        fetch(`/api/projects/${projectId}`),
-        fetch(`/api/projects/${projectId}/asset-values`),
-        fetch(`/api/projects/${projectId}/findings`),
-        fetch(`/api/projects/${projectId}/measures`),
-      ]);
+      const [projectRes, assetRes, findingsRes, measuresRes, securityLevelsRes, attackPathsRes, releaseChangesRes] =
+        await Promise.all([
+          fetch(`/api/projects/${projectId}`),
+          fetch(`/api/projects/${projectId}/asset-values`),
+          fetch(`/api/projects/${projectId}/findings`),
+          fetch(`/api/projects/${projectId}/measures`),
+          fetch(`/api/projects/${projectId}/security-levels`),
+          fetch(`/api/projects/${projectId}/attack-paths`),
+          // Latest baseline against the current assessment; 404 until a baseline was frozen
+          fetch(`/api/projects/${projectId}/baselines/compare`),
+        ]);
 
       if (!projectRes.ok) throw new Error('Failed to fetch project');
 
       const project = await projectRes.json();
-      const assets = (await assetRes.json()) || [];
-      const findings = (await findingsRes.json()) || [];
-      const measures = (await measuresRes.json()) || [];
+      const assets = ((await assetRes.json()) as AssetValuePayload[] | null) || [];
+      const findings = ((await findingsRes.json()) as FindingPayload[] | null) || [];
+      const measures = ((await measuresRes.json()) as MeasurePayload[] | null) || [];
+      const securityLevels = securityLevelsRes.ok ? ((await securityLevelsRes.json()) as SecurityLevelGapReport) : null;
+      const attackPaths = attackPathsRes.ok
+        ? (((await attackPathsRes.json()) as { paths: AttackPathSummary[] }).paths ?? [])
+        : [];
+      const releaseChanges = releaseChangesRes.ok ? ((await releaseChangesRes.json()) as BaselineComparisonResult) : null;
+
+      const riskMethod = parseRiskMethod(project.riskMethod);
+      const assetValueByKey = new Map(assets.map((a) => [`${a.assetType}:${a.assetId}`, a.value]));
+      const riskEvaluations = findings.flatMap((f) => {
+        const evaluation = evaluateFindingRisk(
+          riskMethod,
+          f,
+          assetValueByKey.get(`${f.assetType}:${f.assetId}`),
+          measures.filter((m) => m.findingId === f.id)
+        );
+        return evaluation ? [{ ...evaluation, accepted: Boolean(f.riskAcceptedAt) }] : [];
+      });
+      const inherentEvaluations = riskEvaluations.map((evaluation) => evaluation.inherent);
+      const residualEvaluations = riskEvaluations.map((evaluation) => evaluation.residual);
 
       const reportData: ReportData = {
         project: {
@@ -64,26 +231,39 @@ export default function ReportPreview({ projectId }: { projectId: string }) {
           norm: project.norm,
         },
         assets: {
-          critical: assets.filter((a: any) => a.value >= 8).length,
-          high: assets.filter((a: any) => a.value >= 6 && a.value < 8).length,
-          medium: assets.filter((a: any) => a.value >= 4 && a.value < 6).length,
-          low: assets.filter((a: any) => a.value < 4).length,
+          critical: assets.filter((a) => a.value >= 8).length,
+          high: assets.filter((a) => a.value >= 6 && a.value < 8).length,
+          medium: assets.filter((a) => a.value >= 4 && a.value < 6).length,
+          low: assets.filter((a) => a.value < 4).length,
         },
         findings: {
           count: findings.length,
           bySeverity: {
-            critical: findings.filter((f: any) => f.severity >= 8).length,
-            high: findings.filter((f: any) => f.severity >= 6 && f.severity < 8).length,
-            medium: findings.filter((f: any) => f.severity >= 4 && f.severity < 6).length,
-            low: findings.filter((f: any) => f.severity < 4).length,
+            critical: findings.filter((f) => f.severity >= 8).length,
+            high: findings.filter((f) => f.severity >= 6 && f.severity < 8).length,
+            medium: findings.filter((f) => f.severity >= 4 && f.severity < 6).length,
+            low: findings.filter((f) => f.severity < 4).length,
           },
         },
+        risks: {
+          methodName: riskMethod.name,
+          toleranceLevel: riskMethod.toleranceLevel,
+          inherentLevels: countRiskLevels(riskMethod, inherentEvaluations),
+          residualLevels: countRiskLevels(riskMethod, residualEvaluations),
+          intolerable: riskEvaluations.filter((evaluation) => !evaluation.residual.tolerable && !evaluation.accepted)
+            .length,
+          accepted: findings.filter((f) => f.riskAcceptedAt).length,
+          unrated: findings.length - riskEvaluations.length,
+        },
         measures: {
           total: measures.length,
-          open: measures.filter((m: any) => m.status === 'Open').length,
-          inProgress: measures.filter((m: any) => m.status === 'InProgress').length,
-          done: measures.filter((m: any) => m.status === 'Done').length,
+          open: measures.filter((m) => m.status === 'Open').length,
+          inProgress: measures.filter((m) => m.status === 'InProgress').length,
+          done: measures.filter((m) => m.status === 'Done').length,
         },
+        securityLevels,
+        attackPaths,
+        releaseChanges,
       };
 
       setReport(reportData);
@@ -94,36 +274,6 @@ export default function ReportPreview({ projectId }: { projectId: string }) {
     }
   };
 
-  const handleExportPDF = async () => {
-    setIsExporting(true);
-    setExportError(null);
-    try {
-      const response = await fetch(`/api/projects/${projectId}/report/pdf`, {
-        method: 'GET',
-      });
-      if (!response.ok) {
-        const payload = (await response.json().catch(() => ({}))) as { error?: string };
-        throw new Error(payload.error || 'Failed to generate PDF');
-      }
-
-      const pdfBlob = await response.blob();
-      const downloadUrl = URL.createObjectURL(pdfBlob);
-      const anchor = document.createElement('a');
-      anchor.href = downloadUrl;
-      anchor.download = `${report?.project.name || 'secudo-report'}.pdf`;
-      document.body.appendChild(anchor);
-      anchor.click();
-      document.body.removeChild(anchor);
-      URL.revokeObjectURL(downloadUrl);
-      setExportError(null);
-    } catch (error) {
-      console.error('Failed to export PDF:', error);
-      setExportError((error as Error).message || 'Failed to export PDF');
-    } finally {
-      setIsExporting(false);
-    }
-  };
-
   if (isLoading) {
     return <div className="text-slate-400">Generating report preview...</div>;
   }
@@ -146,11 +296,77 @@ export default function ReportPreview({ projectId }: { projectId: string }) {
         </button>
       )}
 
-      {/* Export Button */}
+      {/* Report Template */}
+      <div className="flex flex-wrap items-center gap-2 text-sm text-slate-300">
+        <span>Template</span>
+        <select
+          value={selectedTemplateId}
+          onChange={(event) => {
+            setSelectedTemplateId(event.target.value);
+            setPreviewUrl(null);
+          }}
+          className="rounded border border-slate-600 bg-slate-700 px-2 py-1 text-sm text-white"
+        >
+          <option value="">Built-in report</option>
+          {templates.map((template) => (
+            <option key={template.id} value={template.id}>
+              {template.name}
+              {template.scope === 'organization' ? ' (organization)' : ''}
+            </option>
+          ))}
+        </select>
+        {canManageProjectTemplates || canManageOrganizationTemplates ? (
+          <button
+            type="button"
+            onClick={() => setEditorTemplate(null)}
+            className="text-xs text-cyan-300 hover:text-cyan-200"
+          >
+            New Template
+          </button>
+        ) : null}
+        {selectedTemplate && canManageSelectedTemplate ? (
+          <>
+            <button
+              type="button"
+              onClick={() => setEditorTemplate(selectedTemplate)}
+              className="text-xs text-cyan-300 hover:text-cyan-200"
+            >
+              Edit
+            </button>
+            <button
+              type="button"
+              onClick={() => void handleDeleteTemplate()}
+              className="text-xs text-red-300 hover:text-red-200"
+            >
+              Delete
+            </button>
+          </>
+        ) : null}
+      </div>
+
+      {editorTemplate !== undefined && (
+        <ReportTemplateEditor
+          key={editorTemplate?.id ?? 'new'}
+          projectId={projectId}
+          template={editorTemplate}
+          canManageProject={canManageProjectTemplates}
+          canManageOrganization={canManageOrganizationTemplates}
+          onSaved={handleTemplateSaved}
+          onCancel={() => setEditorTemplate(undefined)}
+        />
+      )}
+
+      <ReportHistory projectId={projectId} templateId={selectedTemplateId} />
+
+      {/* Preview Buttons */}
       <div className="flex gap-2">
-        <Button onClick={handleExportPDF} disabled={isExporting}>
-          {isExporting ? 'Exporting PDF...' : 'Export as PDF (LaTeX)'}
-        </Button>
+        <button
+          onClick={handlePreviewPDF}
+          disabled={isPreviewing}
+          className="px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg transition-colors disabled:opacity-50"
+        >
+          {isPreviewing ? 'Rendering Preview...' : 'Preview PDF'}
+        </button>
         <button
           onClick={fetchReportData}
           className="px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg transition-colors"
@@ -159,6 +375,18 @@ export default function ReportPreview({ projectId }: { projectId: string }) {
         </button>
       </div>
 
+      {previewUrl && (
+        <div className="overflow-hidden rounded-lg border border-slate-700">
+          <div className="flex items-center justify-between bg-slate-900 px-3 py-2 text-xs text-slate-300">
+            <span>PDF preview{selectedTemplate ? ` · ${selectedTemplate.name}` : ''}</span>
+            <button type="button" onClick={() => setPreviewUrl(null)} className="text-slate-400 hover:text-slate-200">
+              Close
+            </button>
+          </div>
+          <iframe src={previewUrl} title="Report PDF preview" className="h-[800px] w-full bg-white" />
+        </div>
+      )}
+
       {/* Report Preview */}
       <div
         id="report-content"
@@ -166,13 +394,34 @@ export default function ReportPreview({ projectId }: { projectId: string }) {
       >
         {/* Header */}
         <div className="border-b border-slate-700 bg-gradient-to-r from-slate-900 via-slate-800 to-slate-900 p-8">
-          <div className="mb-3 flex items-center gap-3">
-            <Image src="/secudo-logo.png?v=20260212c" alt="Secudo logo" width={144} height={144} className="secudo-brand-logo h-36 w-36 object-contain" />
-            <h1 className="secudo-brand-wordmark text-4xl font-black">
-              SECUDO
-            </h1>
-          </div>
-          <p className="text-lg text-slate-300">Security Assessment Report</p>
+          {selectedTemplate?.definition.logo || selectedTemplate?.definition.title ? (
+            <div className="mb-3 flex items-center gap-4">
+              {selectedTemplate.definition.logo && (
+                <Image
+                  src={selectedTemplate.definition.logo}
+                  alt="Report logo"
+                  width={144}
+                  height={144}
+                  unoptimized
+                  className="h-24 w-auto max-w-[240px] rounded bg-white object-contain p-2"
+                />
+              )}
+              <h1 className="text-3xl font-black text-white">
+                {selectedTemplate.definition.title || 'SECUDO Security Assessment Report'}
+              </h1>
+            </div>
+          ) : (
+            <div className="mb-3 flex items-center gap-3">
+              <Image src="/secudo-logo.png?v=20260212c" alt="Secudo logo" width={144} height={144} className="secudo-brand-logo h-36 w-36 object-contain" />
+              <h1 className="secudo-brand-wordmark text-4xl font-black">
+                SECUDO
+              </h1>
+            </div>
+          )}
+          <p className="text-lg text-slate-300">{selectedTemplate?.definition.subtitle || 'Security Assessment Report'}</p>
+          {selectedTemplate?.definition.preparedBy && (
+            <p className="mt-1 text-sm text-slate-400">Prepared by {selectedTemplate.definition.preparedBy}</p>
+          )}
         </div>
 
         {/* Content */}
@@ -222,6 +471,31 @@ export default function ReportPreview({ projectId }: { projectId: string }) {
             <p className="mt-4 text-sm text-slate-300">
               Total findings: <strong>{report.findings.count}</strong>
             </p>
+            <div className="mt-4 rounded border border-slate-700 bg-slate-900/40 p-3">
+              <p className="text-xs font-semibold uppercase text-slate-400">Risk Levels ({report.risks.methodName})</p>
+              {[
+                { label: 'Inherent', levels: report.risks.inherentLevels },
+                { label: 'Residual', levels: report.risks.residualLevels },
+              ].map((row) => (
+                <div key={row.label} className="mt-2 flex flex-wrap items-center gap-2">
+                  <span className="w-20 text-xs text-slate-400">{row.label}</span>
+                  {row.levels.map((level) => (
+                    <span
+                      key={level.name}
+                      className="rounded px-2 py-1 text-sm font-semibold text-slate-900"
+                      style={{ backgroundColor: level.color }}
+                    >
+                      {level.name}: {level.count}
+                    </span>
+                  ))}
+                </div>
+              ))}
+              <p className="mt-2 text-sm text-slate-300">
+                Residual risks above tolerance ({report.risks.toleranceLevel}) and not accepted:{' '}
+                <strong>{report.risks.intolerable}</strong> · Accepted: <strong>{report.risks.accepted}</strong>
+                {report.risks.unrated > 0 ? ` · ${report.risks.unrated} finding(s) without asset value` : ''}
+              </p>
+            </div>
           </section>
 
           {/* Asset Distribution */}
@@ -278,6 +552,86 @@ export default function ReportPreview({ projectId }: { projectId: string }) {
             )}
           </section>
 
+          {/* Changes Since Last Release */}
+          {report.releaseChanges && (
+            <section>
+              <h2 className="mb-4 border-b border-slate-700 pb-2 text-2xl font-bold text-white">
+                Changes Since Last Release
+              </h2>
+              <p className="mb-4 text-sm text-slate-300">
+                Compared with the baseline of release <strong>{report.releaseChanges.from.releaseName}</strong>
+                {report.releaseChanges.from.createdAt
+                  ? `, frozen on ${new Date(report.releaseChanges.from.createdAt).toLocaleDateString()}`
+                  : ''}
+                .
+              </p>
+              <BaselineRiskTable comparison={report.releaseChanges} />
+              <div className="mt-4 grid grid-cols-4 gap-3">
+                {[
+                  { label: 'New Findings', value: report.releaseChanges.findings.new.length, className: 'text-red-400' },
+                  {
+                    label: 'Closed Findings',
+                    value: report.releaseChanges.findings.closed.length,
+                    className: 'text-green-400',
+                  },
+                  {
+                    label: 'Changed Findings',
+                    value: report.releaseChanges.findings.changed.length,
+                    className: 'text-yellow-300',
+                  },
+                  {
+                    label: 'Changed Answers',
+                    value: report.releaseChanges.finalAnswers.length,
+                    className: 'text-cyan-300',
+                  },
+                ].map((entry) => (
+                  <div key={entry.label} className="rounded border border-slate-700 bg-slate-900/40 p-3 text-center">
+                    <p className="text-xs font-semibold uppercase text-slate-400">{entry.label}</p>
+                    <p className={`text-2xl font-bold ${entry.className}`}>{entry.value}</p>
+                  </div>
+                ))}
+              </div>
+            </section>
+          )}
+
+          {/* Security Level Gap Analysis */}
+          {report.securityLevels && (
+            <section>
+              <h2 className="mb-4 border-b border-slate-700 pb-2 text-2xl font-bold text-white">
+                Security Level Gap Analysis
+              </h2>
+              <p className="mb-4 text-sm text-slate-300">
+                Achieved security level (SL-A) per IEC 62443 foundational requirement compared to the target
+                security level (SL-T). Project default SL-T: <strong>{report.securityLevels.targetSecurityLevel}</strong>
+              </p>
+              <SecurityLevelRadar report={report.securityLevels} />
+            </section>
+          )}
+
+          {/* Attack Paths */}
+          {report.attackPaths.length > 0 && (
+            <section>
+              <h2 className="mb-4 border-b border-slate-700 pb-2 text-2xl font-bold text-white">Top Attack Paths</h2>
+              <p className="mb-4 text-sm text-slate-300">
+                Cheapest routes from external entry points to critical assets. A lower cost means open findings and
+                missing controls make the path easier for an attacker.
+              </p>
+              <ol className="space-y-2 text-sm text-slate-200">
+                {report.attackPaths.map((attackPath, index) => (
+                  <li key={`${attackPath.nodeNames.join('-')}-${index}`} className="rounded bg-slate-800 p-3">
+                    <span className="font-semibold">
+                      {index + 1}. {attackPath.nodeNames.join(' → ')}
+                    </span>
+                    <span className="block text-xs text-slate-400">
+                      Cost {attackPath.cost} · {attackPath.hops.length} hop(s)
+                      {attackPath.targetValue !== null ? ` · target value ${attackPath.targetValue}/10` : ''}
+                    </span>
+                  </li>
+                ))}
+              </ol>
+            </section>
+          )}
+
           {/* Footer */}
           <div className="border-t border-slate-700 pt-8 text-center text-xs text-slate-400">
             <p>
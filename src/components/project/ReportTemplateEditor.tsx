@@ -0,0 +1,319 @@
+'use client';
+
+import { useState } from 'react';
+import Image from 'next/image';
+import {
+  DEFAULT_REPORT_TEMPLATE,
+  MAX_REPORT_LOGO_LENGTH,
+  REPORT_LANGUAGES,
+  REPORT_SECTION_IDS,
+  reportSectionTitle,
+} from '@/lib/report-template';
+import type {
+  ReportLanguage,
+  ReportSectionId,
+  ReportTemplate,
+  ReportTemplateDefinition,
+  ReportTemplateScope,
+} from '@/lib/report-template';
+
+export type ReportTemplateItem = Omit<ReportTemplate, 'updatedAt'> & { updatedAt: string };
+
+const LANGUAGE_LABELS: Record<ReportLanguage, string> = { en: 'English', de: 'Deutsch' };
+
+export default function ReportTemplateEditor({
+  projectId,
+  template,
+  canManageProject,
+  canManageOrganization,
+  onSaved,
+  onCancel,
+}: {
+  projectId: string;
+  template: ReportTemplateItem | null;
+  canManageProject: boolean;
+  canManageOrganization: boolean;
+  onSaved: (template: ReportTemplateItem) => void;
+  onCancel: () => void;
+}) {
+  const initial = template?.definition ?? DEFAULT_REPORT_TEMPLATE;
+  const [name, setName] = useState(template?.name ?? '');
+  const [scope, setScope] = useState<ReportTemplateScope>(
+    template?.scope ?? (canManageProject ? 'project' : 'organization')
+  );
+  const [definition, setDefinition] = useState<ReportTemplateDefinition>(initial);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const update = (changes: Partial<ReportTemplateDefinition>) => setDefinition((previous) => ({ ...previous, ...changes }));
+
+  // Enabled sections in report order, followed by the unused ones
+  const orderedSections: ReportSectionId[] = [
+    ...definition.sections,
+    ...REPORT_SECTION_IDS.filter((section) => !definition.sections.includes(section)),
+  ];
+
+  const toggleSection = (section: ReportSectionId) => {
+    update({
+      sections: definition.sections.includes(section)
+        ? definition.sections.filter((entry) => entry !== section)
+        : [...definition.sections, section],
+    });
+  };
+
+  const moveSection = (index: number, offset: -1 | 1) => {
+    const target = index + offset;
+    if (target < 0 || target >= definition.sections.length) return;
+    const sections = [...definition.sections];
+    [sections[index], sections[target]] = [sections[target], sections[index]];
+    update({ sections });
+  };
+
+  const handleLogoChange = (file: File | undefined) => {
+    if (!file) return;
+    if (file.type !== 'image/png' && file.type !== 'image/jpeg') {
+      setError('Logo must be a PNG or JPEG image');
+      return;
+    }
+    const reader = new FileReader();
+    reader.onload = () => {
+      const dataUrl = String(reader.result || '');
+      if (dataUrl.length > MAX_REPORT_LOGO_LENGTH) {
+        setError('Logo is too large (max. about 350 KB)');
+        return;
+      }
+      setError('');
+      update({ logo: dataUrl });
+    };
+    reader.readAsDataURL(file);
+  };
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      setError('Template name is required');
+      return;
+    }
+    if (definition.sections.length === 0) {
+      setError('Select at least one section');
+      return;
+    }
+    try {
+      setIsSaving(true);
+      setError('');
+      const response = await fetch(
+        template
+          ? `/api/projects/${projectId}/report-templates/${template.id}`
+          : `/api/projects/${projectId}/report-templates`,
+        {
+          method: template ? 'PUT' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ name: name.trim(), ...(!template && { scope }), definition }),
+        }
+      );
+      if (!response.ok) {
+        const payload = (await response.json().catch(() => ({}))) as { error?: string };
+        throw new Error(payload.error || 'Report template could not be saved');
+      }
+      onSaved((await response.json()) as ReportTemplateItem);
+    } catch (saveError) {
+      setError((saveError as Error).message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClassName = 'rounded border border-slate-600 bg-slate-700 px-2 py-1 text-xs text-white';
+
+  return (
+    <div className="space-y-4 rounded-lg border border-slate-700 bg-slate-800/50 p-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="text-lg font-semibold text-white">{template ? 'Edit Report Template' : 'New Report Template'}</h3>
+        <button type="button" onClick={onCancel} className="text-xs text-slate-400 hover:text-slate-200">
+          Cancel
+        </button>
+      </div>
+
+      {error ? (
+        <div className="rounded border border-red-600/40 bg-red-900/20 p-2 text-xs text-red-200">{error}</div>
+      ) : null}
+
+      <div className="grid gap-3 md:grid-cols-2">
+        <label className="space-y-1 text-xs text-slate-400">
+          <span className="block">Template name</span>
+          <input
+            value={name}
+            onChange={(event) => setName(event.target.value)}
+            maxLength={120}
+            className={`${inputClassName} w-full`}
+          />
+        </label>
+        <div className="flex flex-wrap items-end gap-3">
+          <label className="space-y-1 text-xs text-slate-400">
+            <span className="block">Language</span>
+            <select
+              value={definition.language}
+              onChange={(event) => update({ language: event.target.value as ReportLanguage })}
+              className={inputClassName}
+            >
+              {REPORT_LANGUAGES.map((language) => (
+                <option key={language} value={language}>
+                  {LANGUAGE_LABELS[language]}
+                </option>
+              ))}
+            </select>
+          </label>
+          {!template && canManageProject && canManageOrganization ? (
+            <label className="space-y-1 text-xs text-slate-400">
+              <span className="block">Available for</span>
+              <select
+                value={scope}
+                onChange={(event) => setScope(event.target.value as ReportTemplateScope)}
+                className={inputClassName}
+              >
+                <option value="project">This project</option>
+                <option value="organization">All projects</option>
+              </select>
+            </label>
+          ) : null}
+          <label className="flex items-center gap-1 pb-1 text-xs text-slate-300">
+            <input
+              type="checkbox"
+              checked={definition.coverPage}
+              onChange={(event) => update({ coverPage: event.target.checked })}
+            />
+            Cover page
+          </label>
+        </div>
+        <label className="space-y-1 text-xs text-slate-400">
+          <span className="block">Title</span>
+          <input
+            value={definition.title ?? ''}
+            onChange={(event) => update({ title: event.target.value || undefined })}
+            placeholder="SECUDO Security Assessment Report"
+            maxLength={200}
+            className={`${inputClassName} w-full`}
+          />
+        </label>
+        <label className="space-y-1 text-xs text-slate-400">
+          <span className="block">Subtitle</span>
+          <input
+            value={definition.subtitle ?? ''}
+            onChange={(event) => update({ subtitle: event.target.value || undefined })}
+            maxLength={300}
+            className={`${inputClassName} w-full`}
+          />
+        </label>
+        <label className="space-y-1 text-xs text-slate-400">
+          <span className="block">Prepared by</span>
+          <input
+            value={definition.preparedBy ?? ''}
+            onChange={(event) => update({ preparedBy: event.target.value || undefined })}
+            placeholder="Consultancy or author"
+            maxLength={200}
+            className={`${inputClassName} w-full`}
+          />
+        </label>
+        <div className="space-y-1 text-xs text-slate-400">
+          <span className="block">Logo (PNG or JPEG)</span>
+          <div className="flex items-center gap-2">
+            {definition.logo ? (
+              <Image
+                src={definition.logo}
+                alt="Report logo"
+                width={120}
+                height={40}
+                unoptimized
+                className="h-10 w-auto max-w-[120px] rounded bg-white object-contain p-1"
+              />
+            ) : null}
+            <input
+              type="file"
+              accept="image/png,image/jpeg"
+              onChange={(event) => handleLogoChange(event.target.files?.[0])}
+              className="text-xs text-slate-300"
+            />
+            {definition.logo ? (
+              <button
+                type="button"
+                onClick={() => update({ logo: undefined })}
+                className="text-red-300 hover:text-red-200"
+              >
+                Remove
+              </button>
+            ) : null}
+          </div>
+        </div>
+      </div>
+
+      <label className="block space-y-1 text-xs text-slate-400">
+        <span className="block">Disclaimer</span>
+        <textarea
+          value={definition.disclaimer ?? ''}
+          onChange={(event) => update({ disclaimer: event.target.value || undefined })}
+          rows={3}
+          maxLength={5000}
+          className={`${inputClassName} w-full`}
+        />
+      </label>
+
+      <div>
+        <p className="text-xs font-semibold uppercase text-slate-400">
+          Sections ({definition.sections.length} of {REPORT_SECTION_IDS.length})
+        </p>
+        <ul className="mt-1 space-y-1">
+          {orderedSections.map((section) => {
+            const index = definition.sections.indexOf(section);
+            const isEnabled = index >= 0;
+            return (
+              <li
+                key={section}
+                className={`flex items-center gap-2 rounded bg-slate-900/40 px-2 py-1 text-xs ${
+                  isEnabled ? 'text-slate-200' : 'text-slate-500'
+                }`}
+              >
+                <input type="checkbox" checked={isEnabled} onChange={() => toggleSection(section)} />
+                <span className="flex-1">
+                  {isEnabled ? `${index + 1}. ` : ''}
+                  {reportSectionTitle(definition.language, section)}
+                </span>
+                {isEnabled ? (
+                  <span className="flex gap-1">
+                    <button
+                      type="button"
+                      onClick={() => moveSection(index, -1)}
+                      disabled={index === 0}
+                      className="px-1 text-cyan-300 hover:text-cyan-200 disabled:opacity-30"
+                      aria-label="Move section up"
+                    >
+                      ↑
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => moveSection(index, 1)}
+                      disabled={index === definition.sections.length - 1}
+                      className="px-1 text-cyan-300 hover:text-cyan-200 disabled:opacity-30"
+                      aria-label="Move section down"
+                    >
+                      ↓
+                    </button>
+                  </span>
+                ) : null}
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+
+      <div className="flex justify-end">
+        <button
+          type="button"
+          onClick={() => void handleSave()}
+          disabled={isSaving}
+          className="rounded border border-orange-500/60 bg-orange-600/20 px-3 py-1 text-xs font-semibold text-orange-200 hover:bg-orange-600/30 disabled:opacity-50"
+        >
+          {isSaving ? 'Saving...' : 'Save Template'}
+        </button>
+      </div>
+    </div>
+  );
+}
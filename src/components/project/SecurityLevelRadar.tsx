@@ -0,0 +1,218 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+
+type FoundationalRequirementId = 'FR1' | 'FR2' | 'FR3' | 'FR4' | 'FR5' | 'FR6' | 'FR7';
+
+type SecurityLevelProfile = Record<FoundationalRequirementId, number | null>;
+
+export interface SecurityLevelGapRow {
+  targetType: 'Component' | 'Zone';
+  targetId: string;
+  name: string;
+  zoneId: string | null;
+  targetLevel: number;
+  capabilityLevel: number | null;
+  achieved: SecurityLevelProfile;
+  gaps: SecurityLevelProfile;
+  assessedRequirements: number;
+}
+
+export interface SecurityLevelGapReport {
+  targetSecurityLevel: number;
+  foundationalRequirements: Array<{ id: FoundationalRequirementId; name: string }>;
+  rows: SecurityLevelGapRow[];
+}
+
+const MAX_LEVEL = 4;
+const CHART_SIZE = 280;
+const CHART_RADIUS = 100;
+const CHART_CENTER = CHART_SIZE / 2;
+
+const polarPoint = (index: number, count: number, level: number) => {
+  const angle = -Math.PI / 2 + (index / count) * Math.PI * 2;
+  const radius = (Math.max(0, level) / MAX_LEVEL) * CHART_RADIUS;
+  return {
+    x: CHART_CENTER + Math.cos(angle) * radius,
+    y: CHART_CENTER + Math.sin(angle) * radius,
+  };
+};
+
+const toPolygonPoints = (levels: number[]): string =>
+  levels
+    .map((level, index) => {
+      const point = polarPoint(index, levels.length, level);
+      return `${point.x.toFixed(1)},${point.y.toFixed(1)}`;
+    })
+    .join(' ');
+
+const rowKey = (row: SecurityLevelGapRow): string => `${row.targetType}:${row.targetId}`;
+
+const gapCellClassName = (gap: number | null): string => {
+  if (gap === null) {
+    return 'text-slate-500';
+  }
+  if (gap === 0) {
+    return 'bg-green-900/20 text-green-300';
+  }
+  if (gap === 1) {
+    return 'bg-yellow-900/20 text-yellow-200';
+  }
+  return 'bg-red-900/20 text-red-300';
+};
+
+// A component declared below its target cannot reach SL-T, whatever the assessment shows
+const capabilityClassName = (row: SecurityLevelGapRow): string => {
+  if (row.capabilityLevel === null) {
+    return 'text-slate-500';
+  }
+  return row.capabilityLevel < row.targetLevel ? 'font-semibold text-red-300' : 'text-slate-200';
+};
+
+export default function SecurityLevelRadar({ report }: { report: SecurityLevelGapReport }) {
+  const [selectedKey, setSelectedKey] = useState('');
+
+  useEffect(() => {
+    if (!report.rows.some((row) => rowKey(row) === selectedKey)) {
+      setSelectedKey(report.rows[0] ? rowKey(report.rows[0]) : '');
+    }
+  }, [report.rows, selectedKey]);
+
+  const selectedRow = useMemo(
+    () => report.rows.find((row) => rowKey(row) === selectedKey) || null,
+    [report.rows, selectedKey]
+  );
+
+  if (report.rows.length === 0) {
+    return <p className="text-sm text-slate-400">No components or zones available for the gap analysis.</p>;
+  }
+
+  const axes = report.foundationalRequirements;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col gap-4 md:flex-row md:items-start">
+        <div className="md:w-1/2">
+          <select
+            value={selectedKey}
+            onChange={(event) => setSelectedKey(event.target.value)}
+            className="mb-3 w-full rounded border border-slate-600 bg-slate-700 px-3 py-2 text-sm text-white focus:border-orange-400 focus:outline-none"
+          >
+            {report.rows.map((row) => (
+              <option key={rowKey(row)} value={rowKey(row)}>
+                {row.targetType === 'Zone' ? 'Zone' : 'Component'}: {row.name} (SL-T {row.targetLevel})
+              </option>
+            ))}
+          </select>
+          {selectedRow ? (
+            <svg
+              viewBox={`0 0 ${CHART_SIZE} ${CHART_SIZE}`}
+              className="mx-auto h-72 w-72"
+              role="img"
+              aria-label={`Security level radar for ${selectedRow.name}`}
+            >
+              {[1, 2, 3, 4].map((level) => (
+                <polygon
+                  key={level}
+                  points={toPolygonPoints(axes.map(() => level))}
+                  fill="none"
+                  stroke="#334155"
+                  strokeWidth={1}
+                />
+              ))}
+              {axes.map((axis, index) => {
+                const outer = polarPoint(index, axes.length, MAX_LEVEL);
+                const label = polarPoint(index, axes.length, MAX_LEVEL + 0.7);
+                return (
+                  <g key={axis.id}>
+                    <line x1={CHART_CENTER} y1={CHART_CENTER} x2={outer.x} y2={outer.y} stroke="#334155" strokeWidth={1} />
+                    <text x={label.x} y={label.y} fill="#cbd5e1" fontSize={11} textAnchor="middle" dominantBaseline="middle">
+                      {axis.id}
+                    </text>
+                  </g>
+                );
+              })}
+              <polygon
+                points={toPolygonPoints(axes.map(() => selectedRow.targetLevel))}
+                fill="rgba(251, 146, 60, 0.08)"
+                stroke="#fb923c"
+                strokeWidth={2}
+                strokeDasharray="6 4"
+              />
+              <polygon
+                points={toPolygonPoints(axes.map((axis) => selectedRow.achieved[axis.id] ?? 0))}
+                fill="rgba(34, 211, 238, 0.25)"
+                stroke="#22d3ee"
+                strokeWidth={2}
+              />
+            </svg>
+          ) : null}
+          <div className="mt-2 flex justify-center gap-4 text-xs text-slate-300">
+            <span className="flex items-center gap-1">
+              <span className="inline-block h-0.5 w-4 border-t-2 border-dashed border-orange-400" /> Target (SL-T)
+            </span>
+            <span className="flex items-center gap-1">
+              <span className="inline-block h-2 w-4 rounded-sm bg-cyan-400/60" /> Achieved (SL-A)
+            </span>
+          </div>
+        </div>
+
+        {selectedRow ? (
+          <div className="space-y-1 text-sm md:w-1/2">
+            {axes.map((axis) => (
+              <div key={axis.id} className="flex items-center justify-between border-b border-slate-700 py-1">
+                <span className="text-slate-300">
+                  <span className="font-semibold text-slate-100">{axis.id}</span> {axis.name}
+                </span>
+                <span className={`rounded px-2 text-xs font-semibold ${gapCellClassName(selectedRow.gaps[axis.id])}`}>
+                  {selectedRow.achieved[axis.id] ?? '-'} / {selectedRow.targetLevel}
+                </span>
+              </div>
+            ))}
+            <p className="pt-2 text-xs text-slate-400">
+              Declared capability (SL-C):{' '}
+              <span className={capabilityClassName(selectedRow)}>{selectedRow.capabilityLevel ?? 'not declared'}</span>
+            </p>
+            <p className="text-xs text-slate-400">
+              Assessed requirements: {selectedRow.assessedRequirements}
+            </p>
+          </div>
+        ) : null}
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-left text-xs">
+          <thead>
+            <tr className="border-b border-slate-700 text-slate-400">
+              <th className="py-2 pr-2 font-semibold uppercase">Target</th>
+              <th className="px-2 py-2 font-semibold uppercase">SL-T</th>
+              <th className="px-2 py-2 font-semibold uppercase">SL-C</th>
+              {axes.map((axis) => (
+                <th key={axis.id} className="px-2 py-2 text-center font-semibold uppercase">
+                  {axis.id}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {report.rows.map((row) => (
+              <tr key={rowKey(row)} className="border-b border-slate-800">
+                <td className="py-1 pr-2 text-slate-200">
+                  {row.targetType === 'Zone' ? <span className="mr-1 text-cyan-300">Zone</span> : null}
+                  {row.name}
+                </td>
+                <td className="px-2 py-1 text-slate-200">{row.targetLevel}</td>
+                <td className={`px-2 py-1 ${capabilityClassName(row)}`}>{row.capabilityLevel ?? '-'}</td>
+                {axes.map((axis) => (
+                  <td key={axis.id} className={`px-2 py-1 text-center ${gapCellClassName(row.gaps[axis.id])}`}>
+                    {row.achieved[axis.id] ?? '-'}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
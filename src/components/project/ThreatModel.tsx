@@ -0,0 +1,326 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import Button from '@/components/common/Button';
+
+type StrideCategory =
+  | 'Spoofing'
+  | 'Tampering'
+  | 'Repudiation'
+  | 'InformationDisclosure'
+  | 'DenialOfService'
+  | 'ElevationOfPrivilege';
+type ThreatStatus = 'Open' | 'Accepted' | 'Rejected' | 'Mitigated';
+
+interface Threat {
+  id: string;
+  category: StrideCategory;
+  assetType: 'Node' | 'Edge';
+  assetId: string;
+  assetName: string;
+  title: string;
+  description?: string | null;
+  severity: number;
+  status: ThreatStatus;
+  reviewComment?: string | null;
+  reviewedAt?: string | null;
+  findingId?: string | null;
+  finding?: { id: string; questionText: string } | null;
+}
+
+interface GenerateResult {
+  created: number;
+  updated: number;
+  removed: number;
+  total: number;
+}
+
+interface ThreatModelProps {
+  projectId: string;
+  canEdit: boolean;
+}
+
+const STRIDE_CATEGORIES: Array<{ value: StrideCategory; letter: string; label: string }> = [
+  { value: 'Spoofing', letter: 'S', label: 'Spoofing' },
+  { value: 'Tampering', letter: 'T', label: 'Tampering' },
+  { value: 'Repudiation', letter: 'R', label: 'Repudiation' },
+  { value: 'InformationDisclosure', letter: 'I', label: 'Information Disclosure' },
+  { value: 'DenialOfService', letter: 'D', label: 'Denial of Service' },
+  { value: 'ElevationOfPrivilege', letter: 'E', label: 'Elevation of Privilege' },
+];
+
+const THREAT_STATUSES: ThreatStatus[] = ['Open', 'Accepted', 'Rejected', 'Mitigated'];
+
+const STATUS_CLASS_NAMES: Record<ThreatStatus, string> = {
+  Open: 'bg-slate-700 text-slate-200',
+  Accepted: 'bg-orange-900/40 text-orange-200',
+  Rejected: 'bg-slate-800 text-slate-400 line-through',
+  Mitigated: 'bg-green-900/30 text-green-300',
+};
+
+const getSeverityClassName = (severity: number): string => {
+  if (severity >= 8) return 'text-red-300';
+  if (severity >= 6) return 'text-orange-300';
+  if (severity >= 4) return 'text-yellow-200';
+  return 'text-slate-300';
+};
+
+export default function ThreatModel({ projectId, canEdit }: ThreatModelProps) {
+  const [threats, setThreats] = useState<Threat[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [busyThreatId, setBusyThreatId] = useState<string | null>(null);
+  const [categoryFilter, setCategoryFilter] = useState<StrideCategory | 'ALL'>('ALL');
+  const [statusFilter, setStatusFilter] = useState<ThreatStatus | 'ALL'>('ALL');
+  const [commentDrafts, setCommentDrafts] = useState<Record<string, string>>({});
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+
+  const fetchThreats = async () => {
+    try {
+      setIsLoading(true);
+      const response = await fetch(`/api/projects/${projectId}/threats`);
+      if (!response.ok) {
+        throw new Error('Threats could not be loaded');
+      }
+      setThreats((await response.json()) as Threat[]);
+    } catch (fetchError) {
+      setError((fetchError as Error).message);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    void fetchThreats();
+  }, [projectId]);
+
+  const categoryCounts = useMemo(() => {
+    const counts = new Map<StrideCategory, number>();
+    for (const threat of threats) {
+      if (threat.status !== 'Rejected') {
+        counts.set(threat.category, (counts.get(threat.category) ?? 0) + 1);
+      }
+    }
+    return counts;
+  }, [threats]);
+
+  const visibleThreats = useMemo(
+    () =>
+      threats.filter(
+        (threat) =>
+          (categoryFilter === 'ALL' || threat.category === categoryFilter) &&
+          (statusFilter === 'ALL' || threat.status === statusFilter)
+      ),
+    [threats, categoryFilter, statusFilter]
+  );
+
+  const handleGenerate = async () => {
+    try {
+      setIsGenerating(true);
+      setError('');
+      setMessage('');
+      const response = await fetch(`/api/projects/${projectId}/threats/generate`, { method: 'POST' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Threats could not be generated');
+      }
+      const result = data as GenerateResult;
+      setMessage(
+        `${result.total} threats derived from the model: ${result.created} new, ${result.updated} refreshed, ${result.removed} removed`
+      );
+      await fetchThreats();
+    } catch (generateError) {
+      setError((generateError as Error).message);
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const handleReview = async (threat: Threat, status: ThreatStatus) => {
+    try {
+      setBusyThreatId(threat.id);
+      setError('');
+      const response = await fetch(`/api/projects/${projectId}/threats/${threat.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          status,
+          reviewComment: commentDrafts[threat.id] ?? threat.reviewComment ?? null,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Threat could not be updated');
+      }
+      setThreats((current) => current.map((entry) => (entry.id === threat.id ? (data as Threat) : entry)));
+    } catch (reviewError) {
+      setError((reviewError as Error).message);
+    } finally {
+      setBusyThreatId(null);
+    }
+  };
+
+  const handleConvert = async (threat: Threat) => {
+    try {
+      setBusyThreatId(threat.id);
+      setError('');
+      setMessage('');
+      const response = await fetch(`/api/projects/${projectId}/threats/${threat.id}/finding`, { method: 'POST' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Threat could not be converted');
+      }
+      setMessage(`Finding created with ${data.measures?.length ?? 0} measures`);
+      await fetchThreats();
+    } catch (convertError) {
+      setError((convertError as Error).message);
+    } finally {
+      setBusyThreatId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <h2 className="text-2xl font-bold text-white">Threat Model (STRIDE)</h2>
+          <p className="text-sm text-slate-400">
+            Threats are derived per component and data flow from protocols, zone boundaries and data ratings. Review
+            them and convert relevant threats into findings.
+          </p>
+        </div>
+        {canEdit ? (
+          <Button onClick={() => void handleGenerate()} disabled={isGenerating}>
+            {isGenerating ? 'Generating...' : threats.length > 0 ? 'Regenerate Threats' : 'Generate Threats'}
+          </Button>
+        ) : null}
+      </div>
+
+      {error ? (
+        <div className="rounded border border-red-600/30 bg-red-900/20 p-3 text-sm text-red-200">{error}</div>
+      ) : null}
+      {message ? (
+        <div className="rounded border border-emerald-600/30 bg-emerald-900/20 p-3 text-sm text-emerald-200">
+          {message}
+        </div>
+      ) : null}
+
+      <div className="grid grid-cols-2 gap-2 md:grid-cols-6">
+        {STRIDE_CATEGORIES.map((category) => {
+          const isActive = categoryFilter === category.value;
+          return (
+            <button
+              key={category.value}
+              type="button"
+              onClick={() => setCategoryFilter(isActive ? 'ALL' : category.value)}
+              className={`rounded-lg border p-3 text-left transition ${
+                isActive ? 'border-orange-400 bg-slate-800' : 'border-slate-700 bg-slate-800/50 hover:border-slate-500'
+              }`}
+            >
+              <span className="block text-2xl font-bold text-orange-300">{category.letter}</span>
+              <span className="block text-xs text-slate-300">{category.label}</span>
+              <span className="block text-sm font-semibold text-white">{categoryCounts.get(category.value) ?? 0}</span>
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 text-sm text-slate-300">
+        <label className="flex items-center gap-2">
+          Status
+          <select
+            value={statusFilter}
+            onChange={(event) => setStatusFilter(event.target.value as ThreatStatus | 'ALL')}
+            className="rounded border border-slate-600 bg-slate-700 px-2 py-1 text-sm text-white focus:border-orange-400 focus:outline-none"
+          >
+            <option value="ALL">All</option>
+            {THREAT_STATUSES.map((status) => (
+              <option key={status} value={status}>
+                {status}
+              </option>
+            ))}
+          </select>
+        </label>
+        <span className="text-xs text-slate-500">
+          {visibleThreats.length} of {threats.length} threats
+        </span>
+      </div>
+
+      {isLoading && threats.length === 0 ? (
+        <p className="text-sm text-slate-400">Loading threats...</p>
+      ) : threats.length === 0 ? (
+        <p className="text-sm text-slate-400">No threats generated yet.</p>
+      ) : (
+        <ul className="space-y-2">
+          {visibleThreats.map((threat) => {
+            const category = STRIDE_CATEGORIES.find((entry) => entry.value === threat.category);
+            const isBusy = busyThreatId === threat.id;
+            return (
+              <li key={threat.id} className="rounded-lg border border-slate-700 bg-slate-800/50 p-4">
+                <div className="flex flex-wrap items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="font-semibold text-white">
+                      <span className="mr-2 rounded bg-slate-700 px-1.5 py-0.5 text-xs text-orange-300">
+                        {category?.letter ?? '?'}
+                      </span>
+                      {threat.title}
+                    </p>
+                    <p className="mt-1 text-xs text-slate-400">
+                      {threat.assetType === 'Edge' ? 'Data flow' : 'Component'}: {threat.assetName}
+                    </p>
+                    {threat.description ? <p className="mt-2 text-sm text-slate-300">{threat.description}</p> : null}
+                  </div>
+                  <div className="flex items-center gap-2 text-xs">
+                    <span className={`font-semibold ${getSeverityClassName(threat.severity)}`}>
+                      Severity {threat.severity}/10
+                    </span>
+                    <span className={`rounded px-2 py-0.5 font-semibold ${STATUS_CLASS_NAMES[threat.status]}`}>
+                      {threat.status}
+                    </span>
+                  </div>
+                </div>
+
+                {threat.finding ? (
+                  <p className="mt-2 text-xs text-cyan-300">Converted into finding: {threat.finding.questionText}</p>
+                ) : null}
+
+                {canEdit ? (
+                  <div className="mt-3 flex flex-wrap items-center gap-2">
+                    <input
+                      type="text"
+                      value={commentDrafts[threat.id] ?? threat.reviewComment ?? ''}
+                      onChange={(event) =>
+                        setCommentDrafts((current) => ({ ...current, [threat.id]: event.target.value }))
+                      }
+                      placeholder="Review comment"
+                      className="min-w-[220px] flex-1 rounded border border-slate-600 bg-slate-700 px-2 py-1 text-sm text-white focus:border-orange-400 focus:outline-none"
+                    />
+                    {THREAT_STATUSES.filter((status) => status !== threat.status).map((status) => (
+                      <Button
+                        key={status}
+                        size="sm"
+                        variant="secondary"
+                        onClick={() => void handleReview(threat, status)}
+                        disabled={isBusy}
+                      >
+                        {status === 'Open' ? 'Reopen' : status === 'Accepted' ? 'Accept' : status === 'Rejected' ? 'Reject' : 'Mitigated'}
+                      </Button>
+                    ))}
+                    {!threat.findingId && threat.status !== 'Rejected' ? (
+                      <Button size="sm" onClick={() => void handleConvert(threat)} disabled={isBusy}>
+                        Create Finding
+                      </Button>
+                    ) : null}
+                  </div>
+                ) : threat.reviewComment ? (
+                  <p className="mt-2 text-xs text-slate-400">Review: {threat.reviewComment}</p>
+                ) : null}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,298 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import type { TraceabilityRow, TraceabilityStatus, TraceabilitySummary } from '@/lib/traceability-service';
+
+// Dates arrive as ISO strings
+type TraceabilityRowItem = Omit<TraceabilityRow, 'measure'> & {
+  measure: (Omit<NonNullable<TraceabilityRow['measure']>, 'dueDate'> & { dueDate: string | null }) | null;
+};
+
+const STATUS_LABELS: Record<TraceabilityStatus, string> = {
+  Unanswered: 'Unanswered',
+  Answered: 'Answered',
+  NoMeasure: 'Finding without measure',
+  Open: 'Measure open',
+  InProgress: 'Measure in progress',
+  Done: 'Measure done',
+  Accepted: 'Risk accepted',
+};
+
+const STATUS_CLASSES: Record<TraceabilityStatus, string> = {
+  Unanswered: 'border-red-500/40 bg-red-900/20 text-red-200',
+  Answered: 'border-green-500/40 bg-green-900/20 text-green-200',
+  NoMeasure: 'border-red-500/40 bg-red-900/20 text-red-200',
+  Open: 'border-orange-500/40 bg-orange-900/20 text-orange-200',
+  InProgress: 'border-yellow-500/40 bg-yellow-900/20 text-yellow-200',
+  Done: 'border-green-500/40 bg-green-900/20 text-green-200',
+  Accepted: 'border-cyan-500/40 bg-cyan-900/20 text-cyan-200',
+};
+
+const STATUSES = Object.keys(STATUS_LABELS) as TraceabilityStatus[];
+
+// Statuses that break the chain required by the audit, see TRACEABILITY_GAP_STATUSES
+const GAP_STATUSES: TraceabilityStatus[] = ['Unanswered', 'NoMeasure'];
+
+const EXPORT_FORMATS = [
+  { format: 'csv', label: 'CSV' },
+  { format: 'xlsx', label: 'XLSX' },
+  { format: 'json', label: 'JSON' },
+] as const;
+
+/**
+ * Norm requirement -> question -> answers -> final answer -> finding ->
+ * measure, one row per link, with export.
+ */
+export default function TraceabilityMatrix({ projectId }: { projectId: string }) {
+  const [rows, setRows] = useState<TraceabilityRowItem[]>([]);
+  const [summary, setSummary] = useState<TraceabilitySummary | null>(null);
+  const [filterText, setFilterText] = useState('');
+  const [statusFilter, setStatusFilter] = useState<TraceabilityStatus | 'Gaps' | ''>('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const fetchMatrix = async () => {
+    try {
+      setIsLoading(true);
+      setError('');
+      const response = await fetch(`/api/projects/${projectId}/traceability`);
+      if (!response.ok) {
+        throw new Error('Traceability matrix could not be loaded');
+      }
+      const payload = (await response.json()) as { rows: TraceabilityRowItem[]; summary: TraceabilitySummary };
+      setRows(payload.rows);
+      setSummary(payload.summary);
+    } catch (loadError) {
+      setError((loadError as Error).message);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    void fetchMatrix();
+    setFilterText('');
+    setStatusFilter('');
+  }, [projectId]);
+
+  const visibleRows = useMemo(() => {
+    const query = filterText.trim().toLowerCase();
+    return rows.filter((row) => {
+      if (statusFilter === 'Gaps' ? !GAP_STATUSES.includes(row.status) : statusFilter && row.status !== statusFilter) {
+        return false;
+      }
+      if (!query) {
+        return true;
+      }
+      return [row.normReference, row.question?.text, row.target?.label, row.finding?.description, row.measure?.title]
+        .filter(Boolean)
+        .some((value) => (value as string).toLowerCase().includes(query));
+    });
+  }, [filterText, rows, statusFilter]);
+
+  const inputClassName = 'rounded border border-slate-600 bg-slate-700 px-2 py-1 text-xs text-white';
+
+  return (
+    <div className="space-y-4 rounded-lg border border-slate-700 bg-slate-800/50 p-4">
+      <div className="flex flex-wrap items-start justify-between gap-2">
+        <div>
+          <h3 className="text-lg font-semibold text-white">Traceability Matrix</h3>
+          <p className="text-xs text-slate-400">
+            Every measure traced back to its finding, the answers and final answer behind it, the question and the norm
+            requirement.
+          </p>
+        </div>
+        <div className="flex items-center gap-2 text-xs">
+          <span className="text-slate-400">Export</span>
+          {EXPORT_FORMATS.map((entry) => (
+            <a
+              key={entry.format}
+              href={`/api/projects/${projectId}/traceability?format=${entry.format}`}
+              className="rounded border border-cyan-500/60 bg-cyan-700/20 px-2 py-1 font-semibold text-cyan-200 hover:bg-cyan-700/30"
+            >
+              {entry.label}
+            </a>
+          ))}
+          <button
+            type="button"
+            onClick={() => void fetchMatrix()}
+            className="rounded bg-slate-700 px-2 py-1 text-slate-200 hover:bg-slate-600"
+          >
+            Refresh
+          </button>
+        </div>
+      </div>
+
+      {summary ? (
+        <div className="grid grid-cols-2 gap-2 md:grid-cols-6">
+          {[
+            { label: 'Requirements', value: summary.requirements },
+            { label: 'Questions answered', value: `${summary.answeredQuestions} / ${summary.questions}` },
+            { label: 'Findings', value: summary.findings },
+            { label: 'Findings without measure', value: summary.findingsWithoutMeasure },
+            { label: 'Measures done', value: `${summary.measuresDone} / ${summary.measures}` },
+            { label: 'Gaps', value: summary.gaps },
+          ].map((entry) => (
+            <div key={entry.label} className="rounded border border-slate-700 bg-slate-900/40 p-2 text-center">
+              <p className="text-[11px] font-semibold uppercase text-slate-400">{entry.label}</p>
+              <p className="text-lg font-bold text-slate-100">{entry.value}</p>
+            </div>
+          ))}
+        </div>
+      ) : null}
+      {summary && summary.unlinkedFindings > 0 ? (
+        <p className="text-xs text-yellow-200">
+          {summary.unlinkedFindings} finding(s) are not linked to a question of this project, e.g. manual or threat
+          findings. They are listed at the end.
+        </p>
+      ) : null}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          value={filterText}
+          onChange={(event) => setFilterText(event.target.value)}
+          placeholder="Filter by requirement, question, target, finding or measure"
+          className={`${inputClassName} min-w-[280px] flex-1`}
+        />
+        <select
+          value={statusFilter}
+          onChange={(event) => setStatusFilter(event.target.value as TraceabilityStatus | 'Gaps' | '')}
+          className={inputClassName}
+        >
+          <option value="">All statuses</option>
+          <option value="Gaps">Gaps only</option>
+          {STATUSES.map((status) => (
+            <option key={status} value={status}>
+              {STATUS_LABELS[status]}
+            </option>
+          ))}
+        </select>
+        <span className="text-xs text-slate-400">
+          {visibleRows.length} of {rows.length} rows
+        </span>
+      </div>
+
+      {error ? (
+        <div className="rounded border border-red-600/40 bg-red-900/20 p-2 text-xs text-red-200">{error}</div>
+      ) : null}
+
+      {isLoading ? (
+        <p className="text-xs text-slate-400">Loading traceability matrix...</p>
+      ) : rows.length === 0 ? (
+        <p className="text-xs text-slate-400">This project has no questions or findings yet.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full min-w-[1200px] text-left text-xs">
+            <thead>
+              <tr className="border-b border-slate-700 text-slate-400">
+                <th className="py-1 pr-2 font-semibold">Requirement</th>
+                <th className="py-1 pr-2 font-semibold">Question</th>
+                <th className="py-1 pr-2 font-semibold">Target</th>
+                <th className="py-1 pr-2 font-semibold">Answers</th>
+                <th className="py-1 pr-2 font-semibold">Final Answer</th>
+                <th className="py-1 pr-2 font-semibold">Finding</th>
+                <th className="py-1 pr-2 font-semibold">Measure</th>
+                <th className="py-1 pr-2 font-semibold">Evidence</th>
+                <th className="py-1 font-semibold">Status</th>
+              </tr>
+            </thead>
+            <tbody>
+              {visibleRows.map((row, index) => (
+                <tr
+                  key={`${row.question?.id ?? 'none'}-${row.target?.id ?? ''}-${row.finding?.id ?? ''}-${row.measure?.id ?? index}`}
+                  className="border-b border-slate-800 align-top text-slate-200"
+                >
+                  <td className="py-1.5 pr-2 font-semibold text-slate-100">{row.normReference}</td>
+                  <td className="max-w-[280px] py-1.5 pr-2">
+                    {row.question?.text ?? <span className="italic text-slate-500">No question</span>}
+                  </td>
+                  <td className="py-1.5 pr-2">
+                    {row.target ? (
+                      <>
+                        {row.target.label}
+                        <span className="block text-[11px] text-slate-500">{row.target.type}</span>
+                      </>
+                    ) : (
+                      '-'
+                    )}
+                  </td>
+                  <td className="py-1.5 pr-2">
+                    {row.answers.length > 0
+                      ? row.answers.map((answer, answerIndex) => (
+                          <span key={answerIndex} className="block" title={answer.comment || undefined}>
+                            {answer.user}: <strong>{answer.value || '-'}</strong>
+                          </span>
+                        ))
+                      : '-'}
+                  </td>
+                  <td className="py-1.5 pr-2">
+                    {row.finalAnswer ? (
+                      <>
+                        <strong>{row.finalAnswer.value}</strong>
+                        <span className="block text-[11px] text-slate-500">
+                          {row.finalAnswer.status} · {row.finalAnswer.source}
+                        </span>
+                      </>
+                    ) : (
+                      '-'
+                    )}
+                  </td>
+                  <td className="py-1.5 pr-2">
+                    {row.finding ? (
+                      <>
+                        <span className="block max-w-[240px] truncate" title={row.finding.description || undefined}>
+                          {row.finding.description || row.finding.id}
+                        </span>
+                        <span className="block text-[11px] text-slate-500">severity {row.finding.severity}</span>
+                        {row.finding.linkedBy === 'Text' ? (
+                          <span className="block text-[11px] text-yellow-300" title="Matched by the copied question text">
+                            linked by text
+                          </span>
+                        ) : null}
+                      </>
+                    ) : (
+                      '-'
+                    )}
+                  </td>
+                  <td className="max-w-[240px] py-1.5 pr-2">
+                    {row.measure ? (
+                      <>
+                        {row.measure.title}
+                        <span className="block text-[11px] text-slate-500">
+                          {row.measure.priority} · {row.measure.status}
+                          {row.measure.dueDate ? ` · due ${new Date(row.measure.dueDate).toLocaleDateString()}` : ''}
+                          {row.measure.assignedTo ? ` · ${row.measure.assignedTo}` : ''}
+                        </span>
+                      </>
+                    ) : (
+                      '-'
+                    )}
+                  </td>
+                  <td className="py-1.5 pr-2">
+                    {row.evidence.length > 0
+                      ? row.evidence.map((entry) => (
+                          <a
+                            key={`${entry.linkType}-${entry.id}`}
+                            href={`/api/projects/${projectId}/evidence/${entry.id}`}
+                            title={`SHA-256 ${entry.sha256}`}
+                            className="block text-cyan-300 hover:text-cyan-200"
+                          >
+                            {entry.fileName}
+                          </a>
+                        ))
+                      : '-'}
+                  </td>
+                  <td className="py-1.5">
+                    <span className={`whitespace-nowrap rounded border px-1.5 py-0.5 ${STATUS_CLASSES[row.status]}`}>
+                      {STATUS_LABELS[row.status]}
+                    </span>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,6 +2,8 @@
  * Application Constants
  */
 
+import { DEFAULT_RISK_METHOD } from '@/lib/risk-method';
+
 export const ROLES = {
   ADMIN: 'Admin',
   USER: 'User',
@@ -59,12 +61,8 @@ export const SEVERITY_LEVELS = {
   CRITICAL: { value: 10, label: 'Critical', color: '#EF4444' },
 } as const;
 
-export const RISK_LEVELS = {
-  1: { min: 1, max: 20, label: 'Low', color: '#22C55E' },
-  2: { min: 21, max: 50, label: 'Medium', color: '#FBBF24' },
-  3: { min: 51, max: 80, label: 'High', color: '#F97316' },
-  4: { min: 81, max: 100, label: 'Critical', color: '#EF4444' },
-} as const;
+// Levels of the default risk method; projects may define their own (see lib/risk-method).
+export const RISK_LEVELS = DEFAULT_RISK_METHOD.levels;
 
 export const MAX_NODES = 500;
 export const MAX_EDGES = 1000;
@@ -0,0 +1,621 @@
+/**
+ * Applicability Service
+ * Parses question applicability rules and expands questions to the matching model elements
+ *
+ * Rule syntax: comparisons joined with and / or / not and parentheses, e.g.
+ *   protocol != "HTTPS"
+ *   stores = "Credentials" and zone in ("Control Zone", "DMZ")
+ *   confidentiality >= 8 or dataClass = "SafetyRelevant"
+ */
+
+import { prisma } from '@/lib/prisma';
+import { deriveConduits, resolveEffectiveZoneIds } from '@/lib/zone-service';
+
+export const APPLICABILITY_TARGET_TYPES = ['Component', 'Edge', 'DataObject', 'Zone', 'Conduit'] as const;
+
+export type ApplicabilityTargetType = (typeof APPLICABILITY_TARGET_TYPES)[number];
+
+// Fields that can be referenced per target type. Data fields match data object names and data classes.
+export const APPLICABILITY_FIELDS: Record<ApplicabilityTargetType, readonly string[]> = {
+  Component: ['name', 'category', 'zone', 'parent', 'data', 'stores', 'processes', 'generates', 'receives'],
+  Edge: ['name', 'protocol', 'direction', 'source', 'target', 'sourceZone', 'targetZone', 'zone', 'conduit', 'data'],
+  DataObject: ['name', 'dataClass', 'tags', 'confidentiality', 'integrity', 'availability', 'usedBy', 'storedBy'],
+  Zone: ['name', 'sl', 'members'],
+  Conduit: ['name', 'sl', 'zones'],
+};
+
+type ComparisonOperator = '=' | '!=' | '>' | '>=' | '<' | '<=' | 'in' | 'contains';
+type Literal = string | number;
+
+export type ApplicabilityExpression =
+  | { kind: 'and' | 'or'; left: ApplicabilityExpression; right: ApplicabilityExpression }
+  | { kind: 'not'; operand: ApplicabilityExpression }
+  | { kind: 'compare'; field: string; operator: ComparisonOperator; values: Literal[] };
+
+export type ApplicabilityFieldValue = string | number | string[] | null;
+
+export interface ApplicabilityElement {
+  targetType: ApplicabilityTargetType;
+  id: string;
+  name: string;
+  fields: Record<string, ApplicabilityFieldValue>;
+}
+
+type Token =
+  | { type: 'identifier'; value: string }
+  | { type: 'string'; value: string }
+  | { type: 'number'; value: number }
+  | { type: 'symbol'; value: string };
+
+const SYMBOLS = ['!=', '>=', '<=', '==', '=', '>', '<', '(', ')', ','];
+
+const tokenize = (rule: string): Token[] => {
+  const tokens: Token[] = [];
+  let index = 0;
+  while (index < rule.length) {
+    const char = rule[index];
+    if (/\s/.test(char)) {
+      index += 1;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      const end = rule.indexOf(char, index + 1);
+      if (end === -1) {
+        throw new Error('Unterminated string literal');
+      }
+      tokens.push({ type: 'string', value: rule.slice(index + 1, end) });
+      index = end + 1;
+      continue;
+    }
+
+    const numberMatch = /^-?\d+(\.\d+)?/.exec(rule.slice(index));
+    if (numberMatch) {
+      tokens.push({ type: 'number', value: Number.parseFloat(numberMatch[0]) });
+      index += numberMatch[0].length;
+      continue;
+    }
+
+    const identifierMatch = /^[A-Za-z_]\w*/.exec(rule.slice(index));
+    if (identifierMatch) {
+      tokens.push({ type: 'identifier', value: identifierMatch[0] });
+      index += identifierMatch[0].length;
+      continue;
+    }
+
+    const symbol = SYMBOLS.find((entry) => rule.startsWith(entry, index));
+    if (!symbol) {
+      throw new Error(`Unexpected character "${char}"`);
+    }
+    tokens.push({ type: 'symbol', value: symbol === '==' ? '=' : symbol });
+    index += symbol.length;
+  }
+  return tokens;
+};
+
+const isKeyword = (token: Token | undefined, keyword: string): boolean =>
+  token?.type === 'identifier' && token.value.toLowerCase() === keyword;
+
+const isSymbol = (token: Token | undefined, symbol: string): boolean =>
+  token?.type === 'symbol' && token.value === symbol;
+
+export function parseApplicabilityRule(rule: string): ApplicabilityExpression {
+  const tokens = tokenize(rule);
+  let position = 0;
+
+  const readLiteral = (): Literal => {
+    const token = tokens[position];
+    if (token?.type === 'string' || token?.type === 'number') {
+      position += 1;
+      return token.value;
+    }
+    throw new Error('Expected a quoted value or number');
+  };
+
+  const parseComparison = (): ApplicabilityExpression => {
+    const fieldToken = tokens[position];
+    if (fieldToken?.type !== 'identifier') {
+      throw new Error('Expected a field name');
+    }
+    position += 1;
+
+    const operatorToken = tokens[position];
+    if (isKeyword(operatorToken, 'in')) {
+      position += 1;
+      if (!isSymbol(tokens[position], '(')) {
+        throw new Error('Expected "(" after in');
+      }
+      position += 1;
+      const values = [readLiteral()];
+      while (isSymbol(tokens[position], ',')) {
+        position += 1;
+        values.push(readLiteral());
+      }
+      if (!isSymbol(tokens[position], ')')) {
+        throw new Error('Expected ")" to close the value list');
+      }
+      position += 1;
+      return { kind: 'compare', field: fieldToken.value, operator: 'in', values };
+    }
+
+    if (isKeyword(operatorToken, 'contains')) {
+      position += 1;
+      return { kind: 'compare', field: fieldToken.value, operator: 'contains', values: [readLiteral()] };
+    }
+
+    if (operatorToken?.type !== 'symbol' || !['=', '!=', '>', '>=', '<', '<='].includes(operatorToken.value)) {
+      throw new Error(`Expected a comparison operator after ${fieldToken.value}`);
+    }
+    position += 1;
+    return {
+      kind: 'compare',
+      field: fieldToken.value,
+      operator: operatorToken.value as ComparisonOperator,
+      values: [readLiteral()],
+    };
+  };
+
+  const parseUnary = (): ApplicabilityExpression => {
+    if (isKeyword(tokens[position], 'not')) {
+      position += 1;
+      return { kind: 'not', operand: parseUnary() };
+    }
+    if (isSymbol(tokens[position], '(')) {
+      position += 1;
+      const expression = parseOr();
+      if (!isSymbol(tokens[position], ')')) {
+        throw new Error('Expected ")"');
+      }
+      position += 1;
+      return expression;
+    }
+    return parseComparison();
+  };
+
+  const parseAnd = (): ApplicabilityExpression => {
+    let left = parseUnary();
+    while (isKeyword(tokens[position], 'and')) {
+      position += 1;
+      left = { kind: 'and', left, right: parseUnary() };
+    }
+    return left;
+  };
+
+  const parseOr = (): ApplicabilityExpression => {
+    let left = parseAnd();
+    while (isKeyword(tokens[position], 'or')) {
+      position += 1;
+      left = { kind: 'or', left, right: parseAnd() };
+    }
+    return left;
+  };
+
+  if (tokens.length === 0) {
+    throw new Error('Rule is empty');
+  }
+  const expression = parseOr();
+  if (position < tokens.length) {
+    throw new Error('Unexpected input after the end of the rule');
+  }
+  return expression;
+}
+
+const collectFields = (expression: ApplicabilityExpression, output: Set<string>): Set<string> => {
+  if (expression.kind === 'compare') {
+    output.add(expression.field);
+  } else if (expression.kind === 'not') {
+    collectFields(expression.operand, output);
+  } else {
+    collectFields(expression.left, output);
+    collectFields(expression.right, output);
+  }
+  return output;
+};
+
+export const isApplicabilityTargetType = (targetType: string): targetType is ApplicabilityTargetType =>
+  APPLICABILITY_TARGET_TYPES.some((entry) => entry === targetType);
+
+/**
+ * Returns a readable error for an invalid rule, or null if the rule can be
+ * evaluated for the question target type.
+ */
+export function validateApplicabilityRule(rule: string, targetType: string): string | null {
+  if (!isApplicabilityTargetType(targetType)) {
+    return 'Applicability rules require a Component, Edge, DataObject, Zone or Conduit target type';
+  }
+  try {
+    const knownFields = APPLICABILITY_FIELDS[targetType];
+    const unknownFields = Array.from(collectFields(parseApplicabilityRule(rule), new Set())).filter(
+      (field) => !knownFields.includes(field)
+    );
+    if (unknownFields.length > 0) {
+      return `Unknown field(s) for ${targetType}: ${unknownFields.join(', ')}`;
+    }
+    return null;
+  } catch (error) {
+    return (error as Error).message;
+  }
+}
+
+const normalizeText = (value: string): string => value.trim().toLowerCase();
+
+const equalsLiteral = (value: string | number, literal: Literal): boolean =>
+  typeof value === 'number' || typeof literal === 'number'
+    ? Number(value) === Number(literal)
+    : normalizeText(value) === normalizeText(literal);
+
+const matchesComparison = (value: ApplicabilityFieldValue, operator: ComparisonOperator, values: Literal[]): boolean => {
+  const entries: Array<string | number> = value === null ? [] : Array.isArray(value) ? value : [value];
+
+  switch (operator) {
+    case '=':
+    case 'in':
+      return entries.some((entry) => values.some((literal) => equalsLiteral(entry, literal)));
+    case '!=':
+      return !entries.some((entry) => values.some((literal) => equalsLiteral(entry, literal)));
+    case 'contains':
+      return entries.some((entry) => normalizeText(String(entry)).includes(normalizeText(String(values[0]))));
+    default: {
+      const literal = Number(values[0]);
+      return entries.some((entry) => {
+        if (typeof entry !== 'number' || !Number.isFinite(literal)) {
+          return false;
+        }
+        if (operator === '>') return entry > literal;
+        if (operator === '>=') return entry >= literal;
+        if (operator === '<') return entry < literal;
+        return entry <= literal;
+      });
+    }
+  }
+};
+
+export function evaluateApplicability(
+  expression: ApplicabilityExpression,
+  fields: Record<string, ApplicabilityFieldValue>
+): boolean {
+  switch (expression.kind) {
+    case 'and':
+      return evaluateApplicability(expression.left, fields) && evaluateApplicability(expression.right, fields);
+    case 'or':
+      return evaluateApplicability(expression.left, fields) || evaluateApplicability(expression.right, fields);
+    case 'not':
+      return !evaluateApplicability(expression.operand, fields);
+    default:
+      return matchesComparison(fields[expression.field] ?? null, expression.operator, expression.values);
+  }
+}
+
+export interface ApplicabilityModelInput {
+  nodes: Array<{ id: string; name: string; category: string; parentNodeId: string | null; zoneId: string | null }>;
+  edges: Array<{
+    id: string;
+    name: string | null;
+    protocol: string | null;
+    direction: string;
+    sourceNodeId: string;
+    targetNodeId: string;
+  }>;
+  dataObjects: Array<{
+    id: string;
+    name: string;
+    dataClass: string;
+    tags: string | null;
+    confidentiality: number;
+    integrity: number;
+    availability: number;
+  }>;
+  componentData: Array<{ nodeId: string; dataObjectId: string; role: string }>;
+  edgeDataFlows: Array<{ edgeId: string; dataObjectId: string }>;
+  zones: Array<{ id: string; name: string; targetSecurityLevel: number }>;
+}
+
+const isContainerCategory = (rawCategory: string | null | undefined): boolean => {
+  const value = (rawCategory || '').trim().toLowerCase();
+  return value === 'container' || value === 'system';
+};
+
+const parseTags = (raw: string | null): string[] => {
+  if (!raw) {
+    return [];
+  }
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.filter((tag): tag is string => typeof tag === 'string') : [];
+  } catch {
+    return [];
+  }
+};
+
+const unique = (values: string[]): string[] => Array.from(new Set(values.filter((value) => value.length > 0)));
+
+const byName = (a: ApplicabilityElement, b: ApplicabilityElement): number => a.name.localeCompare(b.name);
+
+/**
+ * Flattens the canonical model into one field record per assessable element.
+ * Container and system nodes are not components, matching the answer targets.
+ */
+export function buildApplicabilityElements(
+  model: ApplicabilityModelInput
+): Record<ApplicabilityTargetType, ApplicabilityElement[]> {
+  const nodeById = new Map(model.nodes.map((node) => [node.id, node]));
+  const zoneById = new Map(model.zones.map((zone) => [zone.id, zone]));
+  const dataObjectById = new Map(model.dataObjects.map((dataObject) => [dataObject.id, dataObject]));
+  const effectiveZoneIds = resolveEffectiveZoneIds(model.nodes);
+  const zoneNameOf = (nodeId: string): string | null => {
+    const zoneId = effectiveZoneIds.get(nodeId);
+    return zoneId ? zoneById.get(zoneId)?.name ?? null : null;
+  };
+  const dataLabels = (dataObjectIds: string[]): string[] =>
+    unique(
+      dataObjectIds.flatMap((dataObjectId) => {
+        const dataObject = dataObjectById.get(dataObjectId);
+        return dataObject ? [dataObject.name, dataObject.dataClass] : [];
+      })
+    );
+  const conduits = deriveConduits(model.zones, model.nodes, model.edges);
+  const conduitByEdgeId = new Map(
+    conduits.flatMap((conduit) => conduit.edgeIds.map((edgeId) => [edgeId, conduit.name] as const))
+  );
+
+  const components = model.nodes
+    .filter((node) => !isContainerCategory(node.category))
+    .map((node) => {
+      const links = model.componentData.filter((entry) => entry.nodeId === node.id);
+      const dataWithRole = (role: string) =>
+        dataLabels(links.filter((entry) => entry.role.toLowerCase() === role).map((entry) => entry.dataObjectId));
+      return {
+        targetType: 'Component' as const,
+        id: node.id,
+        name: node.name,
+        fields: {
+          name: node.name,
+          category: node.category,
+          zone: zoneNameOf(node.id),
+          parent: node.parentNodeId ? nodeById.get(node.parentNodeId)?.name ?? null : null,
+          data: dataLabels(links.map((entry) => entry.dataObjectId)),
+          stores: dataWithRole('stores'),
+          processes: dataWithRole('processes'),
+          generates: dataWithRole('generates'),
+          receives: dataWithRole('receives'),
+        },
+      };
+    })
+    .sort(byName);
+
+  const edges = model.edges
+    .map((edge) => {
+      const sourceName = nodeById.get(edge.sourceNodeId)?.name || edge.sourceNodeId;
+      const targetName = nodeById.get(edge.targetNodeId)?.name || edge.targetNodeId;
+      const sourceZone = zoneNameOf(edge.sourceNodeId);
+      const targetZone = zoneNameOf(edge.targetNodeId);
+      return {
+        targetType: 'Edge' as const,
+        id: edge.id,
+        name: edge.name?.trim() || `${sourceName} → ${targetName}`,
+        fields: {
+          name: edge.name,
+          protocol: edge.protocol?.trim() || null,
+          direction: edge.direction,
+          source: sourceName,
+          target: targetName,
+          sourceZone,
+          targetZone,
+          zone: unique([sourceZone || '', targetZone || '']),
+          conduit: conduitByEdgeId.get(edge.id) ?? null,
+          data: dataLabels(
+            model.edgeDataFlows.filter((flow) => flow.edgeId === edge.id).map((flow) => flow.dataObjectId)
+          ),
+        },
+      };
+    })
+    .sort(byName);
+
+  const dataObjects = model.dataObjects
+    .map((dataObject) => {
+      const links = model.componentData.filter((entry) => entry.dataObjectId === dataObject.id);
+      const nodeNames = (entries: typeof links) =>
+        unique(entries.map((entry) => nodeById.get(entry.nodeId)?.name || ''));
+      return {
+        targetType: 'DataObject' as const,
+        id: dataObject.id,
+        name: dataObject.name,
+        fields: {
+          name: dataObject.name,
+          dataClass: dataObject.dataClass,
+          tags: parseTags(dataObject.tags),
+          confidentiality: dataObject.confidentiality,
+          integrity: dataObject.integrity,
+          availability: dataObject.availability,
+          usedBy: nodeNames(links),
+          storedBy: nodeNames(links.filter((entry) => entry.role.toLowerCase() === 'stores')),
+        },
+      };
+    })
+    .sort(byName);
+
+  const zones = model.zones
+    .map((zone) => ({
+      targetType: 'Zone' as const,
+      id: zone.id,
+      name: zone.name,
+      fields: {
+        name: zone.name,
+        sl: zone.targetSecurityLevel,
+        members: unique(
+          model.nodes.filter((node) => effectiveZoneIds.get(node.id) === zone.id).map((node) => node.name)
+        ),
+      },
+    }))
+    .sort(byName);
+
+  const conduitElements = conduits.map((conduit) => ({
+    targetType: 'Conduit' as const,
+    id: conduit.id,
+    name: conduit.name,
+    fields: {
+      name: conduit.name,
+      sl: conduit.targetSecurityLevel,
+      zones: unique([zoneById.get(conduit.zoneAId)?.name || '', zoneById.get(conduit.zoneBId)?.name || '']),
+    },
+  }));
+
+  return { Component: components, Edge: edges, DataObject: dataObjects, Zone: zones, Conduit: conduitElements };
+}
+
+export interface ApplicableTarget {
+  targetType: ApplicabilityTargetType;
+  targetId: string;
+  name: string;
+  answered: boolean;
+}
+
+export interface QuestionApplicability {
+  questionId: string;
+  targetType: string;
+  rule: string;
+  error: string | null;
+  targets: ApplicableTarget[];
+  applicableCount: number;
+  answeredCount: number;
+}
+
+/**
+ * Expands every question that carries an applicability rule into its matching
+ * targets. A target counts as answered once any answer references it.
+ */
+export function buildQuestionApplicability(
+  questions: Array<{ id: string; targetType: string; applicability: string | null }>,
+  elements: Record<ApplicabilityTargetType, ApplicabilityElement[]>,
+  answers: Array<{ questionId: string; targetId: string | null }>
+): QuestionApplicability[] {
+  const answeredKeys = new Set(
+    answers.filter((answer) => answer.targetId).map((answer) => `${answer.questionId}::${answer.targetId}`)
+  );
+
+  return questions
+    .filter((question) => Boolean(question.applicability?.trim()))
+    .map((question) => {
+      const rule = (question.applicability || '').trim();
+      const error = validateApplicabilityRule(rule, question.targetType);
+      const expression = error ? null : parseApplicabilityRule(rule);
+      const candidates = expression && isApplicabilityTargetType(question.targetType) ? elements[question.targetType] : [];
+      const targets = candidates
+        .filter((element) => expression && evaluateApplicability(expression, element.fields))
+        .map((element) => ({
+          targetType: element.targetType,
+          targetId: element.id,
+          name: element.name,
+          answered: answeredKeys.has(`${question.id}::${element.id}`),
+        }));
+
+      return {
+        questionId: question.id,
+        targetType: question.targetType,
+        rule,
+        error,
+        targets,
+        applicableCount: targets.length,
+        answeredCount: targets.filter((target) => target.answered).length,
+      };
+    });
+}
+
+/**
+ * Loads the canonical models of several projects for applicability checks,
+ * with one query per table, keyed by project id.
+ */
+export async function loadApplicabilityModels(projectIds: string[]): Promise<Map<string, ApplicabilityModelInput>> {
+  const where = { projectId: { in: projectIds } };
+  const [nodes, edges, dataObjects, zones] = await Promise.all([
+    prisma.modelNode.findMany({
+      where,
+      select: { id: true, projectId: true, name: true, category: true, parentNodeId: true, zoneId: true },
+    }),
+    prisma.modelEdge.findMany({
+      where,
+      select: {
+        id: true,
+        projectId: true,
+        name: true,
+        protocol: true,
+        direction: true,
+        sourceNodeId: true,
+        targetNodeId: true,
+      },
+    }),
+    prisma.dataObject.findMany({
+      where,
+      select: {
+        id: true,
+        projectId: true,
+        name: true,
+        dataClass: true,
+        tags: true,
+        confidentiality: true,
+        integrity: true,
+        availability: true,
+      },
+    }),
+    prisma.zone.findMany({
+      where,
+      select: { id: true, projectId: true, name: true, targetSecurityLevel: true },
+    }),
+  ]);
+
+  const [componentData, edgeDataFlows] = await Promise.all([
+    prisma.componentData.findMany({
+      where: { node: where },
+      select: { nodeId: true, dataObjectId: true, role: true, node: { select: { projectId: true } } },
+    }),
+    prisma.edgeDataFlow.findMany({
+      where: { edge: where },
+      select: { edgeId: true, dataObjectId: true, edge: { select: { projectId: true } } },
+    }),
+  ]);
+
+  const ofProject = <T extends { projectId: string }>(entries: T[], projectId: string): T[] =>
+    entries.filter((entry) => entry.projectId === projectId);
+
+  return new Map(
+    projectIds.map((projectId) => [
+      projectId,
+      {
+        nodes: ofProject(nodes, projectId),
+        edges: ofProject(edges, projectId),
+        dataObjects: ofProject(dataObjects, projectId),
+        zones: ofProject(zones, projectId),
+        componentData: componentData
+          .filter((entry) => entry.node.projectId === projectId)
+          .map(({ nodeId, dataObjectId, role }) => ({ nodeId, dataObjectId, role })),
+        edgeDataFlows: edgeDataFlows
+          .filter((entry) => entry.edge.projectId === projectId)
+          .map(({ edgeId, dataObjectId }) => ({ edgeId, dataObjectId })),
+      },
+    ])
+  );
+}
+
+export async function getQuestionApplicability(projectId: string) {
+  const [questions, answers, models] = await Promise.all([
+    prisma.question.findMany({
+      where: { projectId },
+      select: { id: true, targetType: true, applicability: true },
+    }),
+    prisma.answer.findMany({
+      where: { projectId },
+      select: { questionId: true, targetId: true },
+    }),
+    loadApplicabilityModels([projectId]),
+  ]);
+
+  const elements = buildApplicabilityElements(models.get(projectId) as ApplicabilityModelInput);
+  const applicability = buildQuestionApplicability(questions, elements, answers);
+  const applicable = applicability.reduce((total, entry) => total + entry.applicableCount, 0);
+  const answered = applicability.reduce((total, entry) => total + entry.answeredCount, 0);
+
+  return {
+    questions: applicability,
+    coverage: { applicable, answered, unanswered: applicable - answered },
+  };
+}
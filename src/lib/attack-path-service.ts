@@ -0,0 +1,268 @@
+/**
+ * Attack Path Service
+ * Ranks attack paths from entry points to critical assets over the directed model graph
+ */
+
+import { prisma } from '@/lib/prisma';
+
+// Cost of traversing a hop without any known weakness; open findings and missing controls lower it.
+export const BASE_HOP_COST = 10;
+export const DEFAULT_MAX_PATH_DEPTH = 6;
+export const DEFAULT_MAX_PATHS = 5;
+// Assets valued at least this high are default attack targets.
+export const CRITICAL_ASSET_VALUE = 8;
+
+const MAX_SEARCH_EXPANSIONS = 20000;
+const ENTRY_POINT_NAME_PATTERN = /\b(internet|external|remote|cloud|vendor|third[- ]?party|public)\b/i;
+
+export interface AttackGraphInput {
+  nodes: Array<{ id: string; name: string; category: string }>;
+  edges: Array<{ id: string; name: string | null; direction: string; sourceNodeId: string; targetNodeId: string }>;
+  assetValues: Array<{ assetType: string; assetId: string; value: number }>;
+  findings: Array<{
+    assetType: string;
+    assetId: string;
+    severity: number;
+    measures: Array<{ status: string }>;
+  }>;
+}
+
+export interface AttackPathHop {
+  edgeId: string;
+  fromNodeId: string;
+  toNodeId: string;
+  cost: number;
+  openFindings: number;
+  missingControls: number;
+}
+
+export interface AttackPath {
+  entryNodeId: string;
+  targetNodeId: string;
+  nodeIds: string[];
+  edgeIds: string[];
+  hops: AttackPathHop[];
+  cost: number;
+  targetValue: number | null;
+}
+
+export interface AttackPathOptions {
+  entryNodeIds: string[];
+  targetNodeIds: string[];
+  maxPaths?: number;
+  maxDepth?: number;
+}
+
+interface AssetWeakness {
+  openFindings: number;
+  missingControls: number;
+  severity: number;
+}
+
+const isContainerCategory = (rawCategory: string | null | undefined): boolean => {
+  const value = (rawCategory || '').trim().toLowerCase();
+  return value === 'container' || value === 'system';
+};
+
+const roundCost = (value: number): number => Math.round(value * 100) / 100;
+
+// A finding stays open until all of its measures are done; every measure not done is a missing control.
+const collectWeaknesses = (findings: AttackGraphInput['findings']): Map<string, AssetWeakness> => {
+  const weaknesses = new Map<string, AssetWeakness>();
+  for (const finding of findings) {
+    const missingControls = finding.measures.filter((measure) => measure.status !== 'Done').length;
+    if (finding.measures.length > 0 && missingControls === 0) {
+      continue;
+    }
+    const key = `${finding.assetType}:${finding.assetId}`;
+    const current = weaknesses.get(key) || { openFindings: 0, missingControls: 0, severity: 0 };
+    weaknesses.set(key, {
+      openFindings: current.openFindings + 1,
+      missingControls: current.missingControls + missingControls,
+      severity: current.severity + finding.severity,
+    });
+  }
+  return weaknesses;
+};
+
+/**
+ * Hop cost in the range (1, BASE_HOP_COST]: summed finding severity (per 10)
+ * plus half a point per missing control make the hop cheaper for an attacker.
+ */
+export function computeHopCost(weakness: { severity: number; missingControls: number }): number {
+  const exposure = weakness.severity / 10 + weakness.missingControls * 0.5;
+  return roundCost(1 + (BASE_HOP_COST - 1) / (1 + exposure));
+}
+
+/**
+ * Enumerates simple attack paths in ascending cost order (best-first search).
+ * Edges are followed in their modelled direction; bidirectional edges both ways.
+ */
+export function findAttackPaths(graph: AttackGraphInput, options: AttackPathOptions): AttackPath[] {
+  const maxPaths = options.maxPaths ?? DEFAULT_MAX_PATHS;
+  const maxDepth = options.maxDepth ?? DEFAULT_MAX_PATH_DEPTH;
+  const nodeIds = new Set(graph.nodes.map((node) => node.id));
+  const targetIds = new Set(options.targetNodeIds.filter((nodeId) => nodeIds.has(nodeId)));
+  const entryIds = Array.from(new Set(options.entryNodeIds.filter((nodeId) => nodeIds.has(nodeId))));
+  if (maxPaths <= 0 || targetIds.size === 0 || entryIds.length === 0) {
+    return [];
+  }
+
+  const weaknesses = collectWeaknesses(graph.findings);
+  const nodeValues = new Map(
+    graph.assetValues.filter((entry) => entry.assetType === 'Node').map((entry) => [entry.assetId, entry.value])
+  );
+
+  const buildHop = (edgeId: string, fromNodeId: string, toNodeId: string): AttackPathHop => {
+    const edgeWeakness = weaknesses.get(`Edge:${edgeId}`);
+    const nodeWeakness = weaknesses.get(`Node:${toNodeId}`);
+    const severity = (edgeWeakness?.severity ?? 0) + (nodeWeakness?.severity ?? 0);
+    const missingControls = (edgeWeakness?.missingControls ?? 0) + (nodeWeakness?.missingControls ?? 0);
+    return {
+      edgeId,
+      fromNodeId,
+      toNodeId,
+      cost: computeHopCost({ severity, missingControls }),
+      openFindings: (edgeWeakness?.openFindings ?? 0) + (nodeWeakness?.openFindings ?? 0),
+      missingControls,
+    };
+  };
+
+  const adjacency = new Map<string, AttackPathHop[]>();
+  const addHop = (hop: AttackPathHop) => {
+    adjacency.set(hop.fromNodeId, [...(adjacency.get(hop.fromNodeId) || []), hop]);
+  };
+  for (const edge of graph.edges) {
+    if (!nodeIds.has(edge.sourceNodeId) || !nodeIds.has(edge.targetNodeId)) {
+      continue;
+    }
+    if (edge.direction !== 'B_TO_A') {
+      addHop(buildHop(edge.id, edge.sourceNodeId, edge.targetNodeId));
+    }
+    if (edge.direction === 'B_TO_A' || edge.direction === 'BIDIRECTIONAL') {
+      addHop(buildHop(edge.id, edge.targetNodeId, edge.sourceNodeId));
+    }
+  }
+
+  type PartialPath = { nodeIds: string[]; hops: AttackPathHop[]; cost: number };
+  const queue: PartialPath[] = entryIds.map((entryId) => ({ nodeIds: [entryId], hops: [], cost: 0 }));
+  const paths: AttackPath[] = [];
+  let expansions = 0;
+
+  while (queue.length > 0 && paths.length < maxPaths && expansions < MAX_SEARCH_EXPANSIONS) {
+    let cheapestIndex = 0;
+    for (let index = 1; index < queue.length; index += 1) {
+      if (queue[index].cost < queue[cheapestIndex].cost) {
+        cheapestIndex = index;
+      }
+    }
+    const current = queue.splice(cheapestIndex, 1)[0];
+    expansions += 1;
+    const lastNodeId = current.nodeIds[current.nodeIds.length - 1];
+
+    if (current.hops.length > 0 && targetIds.has(lastNodeId)) {
+      paths.push({
+        entryNodeId: current.nodeIds[0],
+        targetNodeId: lastNodeId,
+        nodeIds: current.nodeIds,
+        edgeIds: current.hops.map((hop) => hop.edgeId),
+        hops: current.hops,
+        cost: roundCost(current.cost),
+        targetValue: nodeValues.get(lastNodeId) ?? null,
+      });
+      continue;
+    }
+
+    if (current.hops.length >= maxDepth) {
+      continue;
+    }
+
+    for (const hop of adjacency.get(lastNodeId) || []) {
+      if (current.nodeIds.includes(hop.toNodeId)) {
+        continue;
+      }
+      queue.push({
+        nodeIds: [...current.nodeIds, hop.toNodeId],
+        hops: [...current.hops, hop],
+        cost: current.cost + hop.cost,
+      });
+    }
+  }
+
+  return paths;
+}
+
+/**
+ * Default endpoints when none are given: humans and nodes named like external
+ * access points (Internet, remote, vendor, cloud) as entries, critical assets as targets.
+ */
+export function suggestAttackPathEndpoints(graph: Pick<AttackGraphInput, 'nodes' | 'assetValues'>) {
+  const components = graph.nodes.filter((node) => !isContainerCategory(node.category));
+  const entryNodeIds = components
+    .filter((node) => node.category.trim().toLowerCase() === 'human' || ENTRY_POINT_NAME_PATTERN.test(node.name))
+    .map((node) => node.id);
+  const componentIds = new Set(components.map((node) => node.id));
+  const entryIdSet = new Set(entryNodeIds);
+  const targetNodeIds = graph.assetValues
+    .filter(
+      (entry) =>
+        entry.assetType === 'Node' &&
+        entry.value >= CRITICAL_ASSET_VALUE &&
+        componentIds.has(entry.assetId) &&
+        !entryIdSet.has(entry.assetId)
+    )
+    .sort((left, right) => right.value - left.value)
+    .map((entry) => entry.assetId);
+
+  return { entryNodeIds, targetNodeIds };
+}
+
+const loadAttackGraph = async (projectId: string): Promise<AttackGraphInput> => {
+  const [nodes, edges, assetValues, findings] = await Promise.all([
+    prisma.modelNode.findMany({
+      where: { projectId },
+      select: { id: true, name: true, category: true },
+    }),
+    prisma.modelEdge.findMany({
+      where: { projectId },
+      select: { id: true, name: true, direction: true, sourceNodeId: true, targetNodeId: true },
+    }),
+    prisma.assetValue.findMany({
+      where: { projectId },
+      select: { assetType: true, assetId: true, value: true },
+    }),
+    prisma.finding.findMany({
+      where: { projectId },
+      select: { assetType: true, assetId: true, severity: true, measures: { select: { status: true } } },
+    }),
+  ]);
+
+  return { nodes, edges, assetValues, findings };
+};
+
+export async function getAttackPathAnalysis(projectId: string, options: Partial<AttackPathOptions> = {}) {
+  const graph = await loadAttackGraph(projectId);
+  const suggested = suggestAttackPathEndpoints(graph);
+  const entryNodeIds = options.entryNodeIds?.length ? options.entryNodeIds : suggested.entryNodeIds;
+  const targetNodeIds = options.targetNodeIds?.length ? options.targetNodeIds : suggested.targetNodeIds;
+  const nodeNameById = new Map(graph.nodes.map((node) => [node.id, node.name]));
+
+  const paths = findAttackPaths(graph, {
+    entryNodeIds,
+    targetNodeIds,
+    maxPaths: options.maxPaths,
+    maxDepth: options.maxDepth,
+  });
+
+  return {
+    entryNodeIds,
+    targetNodeIds,
+    suggested,
+    paths: paths.map((attackPath) => ({
+      ...attackPath,
+      nodeNames: attackPath.nodeIds.map((nodeId) => nodeNameById.get(nodeId) || nodeId),
+    })),
+  };
+}
+
+export type AttackPathAnalysis = Awaited<ReturnType<typeof getAttackPathAnalysis>>;
@@ -0,0 +1,230 @@
+/**
+ * Audit Service
+ * Append-only log of who changed which model and assessment entity, with before/after snapshots.
+ * Not audited: manual diagram layout moves (frequent, positional only) and a user's own
+ * notification inbox (read markers, dismissals), which is personal rather than project data.
+ */
+
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+
+export const AUDIT_ACTIONS = ['Create', 'Update', 'Delete', 'Restore', 'Import', 'Generate'] as const;
+
+export type AuditAction = (typeof AUDIT_ACTIONS)[number];
+
+export type AuditValue = string | number | boolean | null | Array<string | number | boolean | null>;
+
+export type AuditSnapshot = Record<string, AuditValue>;
+
+export interface AuditChange {
+  field: string;
+  before: AuditValue | undefined;
+  after: AuditValue | undefined;
+}
+
+export interface AuditEventInput {
+  projectId?: string | null;
+  actorUserId?: string | null;
+  entityType: string;
+  entityId?: string | null;
+  action: AuditAction;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface AuditEventFilters {
+  projectId?: string;
+  entityType?: string;
+  entityId?: string;
+  action?: string;
+  actorUserId?: string;
+  from?: Date;
+  to?: Date;
+}
+
+const REDACTED_FIELDS = new Set(['password', 'passwordHash', 'secretAccessKey', 'token']);
+// Bookkeeping fields that change on every write and carry no audit value
+const IGNORED_DIFF_FIELDS = new Set(['updatedAt']);
+const MAX_SNAPSHOT_STRING_LENGTH = 2000;
+
+const toAuditValue = (value: unknown): AuditValue | undefined => {
+  if (value === null || typeof value === 'number' || typeof value === 'boolean') {
+    return value;
+  }
+  if (typeof value === 'string') {
+    return value.length > MAX_SNAPSHOT_STRING_LENGTH ? `${value.slice(0, MAX_SNAPSHOT_STRING_LENGTH)}…` : value;
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (Array.isArray(value) && value.every((item) => item === null || ['string', 'number', 'boolean'].includes(typeof item))) {
+    return value as AuditValue;
+  }
+  return undefined;
+};
+
+/**
+ * Reduces a record to its scalar fields. Included relations and JSON blobs
+ * are dropped, secrets are redacted and long strings are truncated.
+ */
+export function toAuditSnapshot(record: unknown): AuditSnapshot | null {
+  if (!record || typeof record !== 'object' || Array.isArray(record)) {
+    return null;
+  }
+  const snapshot: AuditSnapshot = {};
+  for (const [field, value] of Object.entries(record as Record<string, unknown>)) {
+    if (REDACTED_FIELDS.has(field)) {
+      snapshot[field] = '[redacted]';
+      continue;
+    }
+    const auditValue = toAuditValue(value);
+    if (auditValue !== undefined) {
+      snapshot[field] = auditValue;
+    }
+  }
+  return snapshot;
+}
+
+/**
+ * Field-level changes between two snapshots. A create lists every field of
+ * the new record, a delete every field of the removed one.
+ */
+export function diffAuditSnapshots(before: AuditSnapshot | null, after: AuditSnapshot | null): AuditChange[] {
+  const fields = Array.from(new Set([...Object.keys(before || {}), ...Object.keys(after || {})]));
+  return fields
+    .filter((field) => !IGNORED_DIFF_FIELDS.has(field))
+    .filter((field) => JSON.stringify(before?.[field]) !== JSON.stringify(after?.[field]))
+    .map((field) => ({ field, before: before?.[field], after: after?.[field] }));
+}
+
+const toJsonSnapshot = (record: unknown): Prisma.InputJsonValue | undefined =>
+  toAuditSnapshot(record) ?? undefined;
+
+/**
+ * Appends events to the audit log. Failures are logged and never undo the
+ * change that was already written.
+ */
+export async function recordAuditEvents(events: AuditEventInput[]): Promise<void> {
+  if (events.length === 0) {
+    return;
+  }
+  try {
+    const actorIds = Array.from(
+      new Set(events.map((event) => event.actorUserId).filter((id): id is string => Boolean(id)))
+    );
+    const actors = actorIds.length
+      ? await prisma.user.findMany({ where: { id: { in: actorIds } }, select: { id: true, name: true, email: true } })
+      : [];
+    const actorNameById = new Map(actors.map((actor) => [actor.id, actor.name || actor.email]));
+
+    await prisma.auditEvent.createMany({
+      data: events.map((event) => ({
+        projectId: event.projectId || null,
+        actorUserId: event.actorUserId || null,
+        actorName: event.actorUserId ? actorNameById.get(event.actorUserId) || null : null,
+        entityType: event.entityType,
+        entityId: event.entityId || null,
+        action: event.action,
+        before: toJsonSnapshot(event.before),
+        after: toJsonSnapshot(event.after),
+      })),
+    });
+  } catch (error) {
+    console.error('Record audit event failed:', error);
+  }
+}
+
+export async function recordAuditEvent(event: AuditEventInput): Promise<void> {
+  await recordAuditEvents([event]);
+}
+
+const parseDateParam = (value: string | null): Date | undefined => {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+};
+
+/**
+ * Reads history filters from query parameters. A date-only `to` includes
+ * the whole day.
+ */
+export function parseAuditEventFilters(searchParams: URLSearchParams): AuditEventFilters {
+  const rawTo = searchParams.get('to');
+  const to = parseDateParam(rawTo);
+  if (to && rawTo && /^\d{4}-\d{2}-\d{2}$/.test(rawTo)) {
+    to.setUTCHours(23, 59, 59, 999);
+  }
+  return {
+    entityType: searchParams.get('entityType') || undefined,
+    entityId: searchParams.get('entityId') || undefined,
+    action: searchParams.get('action') || undefined,
+    actorUserId: searchParams.get('actorUserId') || undefined,
+    from: parseDateParam(searchParams.get('from')),
+    to,
+  };
+}
+
+const buildAuditWhere = (filters: AuditEventFilters): Prisma.AuditEventWhereInput => ({
+  ...(filters.projectId && { projectId: filters.projectId }),
+  ...(filters.entityType && { entityType: filters.entityType }),
+  ...(filters.entityId && { entityId: filters.entityId }),
+  ...(filters.action && { action: filters.action }),
+  ...(filters.actorUserId && { actorUserId: filters.actorUserId }),
+  ...((filters.from || filters.to) && {
+    createdAt: { ...(filters.from && { gte: filters.from }), ...(filters.to && { lte: filters.to }) },
+  }),
+});
+
+/**
+ * Newest events first with their field-level changes. Pass the id of the
+ * last event of the previous page as cursor to continue.
+ */
+export async function listAuditEvents(filters: AuditEventFilters, options: { take?: number; cursor?: string } = {}) {
+  const events = await prisma.auditEvent.findMany({
+    where: buildAuditWhere(filters),
+    orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+    ...(options.take && { take: options.take }),
+    ...(options.cursor && { cursor: { id: options.cursor }, skip: 1 }),
+  });
+
+  return events.map((event) => ({
+    ...event,
+    changes: diffAuditSnapshots(event.before as AuditSnapshot | null, event.after as AuditSnapshot | null),
+  }));
+}
+
+const escapeCsv = (value: string): string => (/[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+const formatChangeValue = (value: AuditValue | undefined): string =>
+  value === undefined ? '' : typeof value === 'string' ? value : JSON.stringify(value);
+
+/**
+ * One CSV row per event; changes are listed as `field: before -> after`.
+ */
+export function auditEventsToCsv(
+  events: Array<{
+    createdAt: Date;
+    projectId: string | null;
+    actorUserId: string | null;
+    actorName: string | null;
+    entityType: string;
+    entityId: string | null;
+    action: string;
+    changes: AuditChange[];
+  }>
+): string {
+  const header = ['timestamp', 'projectId', 'actorUserId', 'actor', 'entityType', 'entityId', 'action', 'changes'];
+  const rows = events.map((event) => [
+    event.createdAt.toISOString(),
+    event.projectId || '',
+    event.actorUserId || '',
+    event.actorName || '',
+    event.entityType,
+    event.entityId || '',
+    event.action,
+    event.changes
+      .map((change) => `${change.field}: ${formatChangeValue(change.before)} -> ${formatChangeValue(change.after)}`)
+      .join('; '),
+  ]);
+  return [header, ...rows].map((row) => row.map(escapeCsv).join(',')).join('\n');
+}
@@ -0,0 +1,521 @@
+/**
+ * Auto Layout Service
+ * Computes layered, force-directed and orthogonal layouts of the model graph with containers kept around their children
+ */
+
+import type { DiagramLayout, NodePosition, NodeSize } from '@/lib/diagram-layout-service';
+
+export const AUTO_LAYOUT_ALGORITHMS = ['layered', 'force', 'orthogonal'] as const;
+
+export type AutoLayoutAlgorithm = (typeof AUTO_LAYOUT_ALGORITHMS)[number];
+
+export interface AutoLayoutNode {
+  id: string;
+  name: string;
+  category: string;
+  parentNodeId: string | null;
+}
+
+export interface AutoLayoutEdge {
+  sourceNodeId: string;
+  targetNodeId: string;
+}
+
+export interface AutoLayoutOptions {
+  algorithm: AutoLayoutAlgorithm;
+  // Only the content of this container is arranged; the container stays where it is.
+  containerId?: string | null;
+  // Top-left corner of the arranged area (the scoped container when one is given).
+  origin?: NodePosition;
+}
+
+// Sizes match the rendering in the graph editor.
+export const COMPONENT_WIDTH = 220;
+export const COMPONENT_HEIGHT = 96;
+export const EMPTY_CONTAINER_WIDTH = 520;
+export const EMPTY_CONTAINER_HEIGHT = 320;
+export const CONTAINER_PADDING = 30;
+export const CONTAINER_HEADER = 70;
+const DEFAULT_ORIGIN: NodePosition = { x: 80, y: 80 };
+
+const HORIZONTAL_GAP = 60;
+const VERTICAL_GAP = 80;
+const DUMMY_WIDTH = 24;
+const ORDERING_SWEEPS = 12;
+const FORCE_ITERATIONS = 240;
+const OVERLAP_PASSES = 60;
+
+interface LayoutBox {
+  id: string;
+  width: number;
+  height: number;
+}
+
+// Boxes of one nesting level with the (lifted) connections between them
+interface LevelGraph {
+  boxes: LayoutBox[];
+  links: Array<[number, number]>;
+}
+
+interface LayerOrdering {
+  layers: number[][];
+  // Number of real boxes; higher indices are dummy entries of long links
+  boxCount: number;
+  upper: Map<number, number[]>;
+}
+
+export const isLayoutContainer = (node: Pick<AutoLayoutNode, 'category'>): boolean => {
+  const normalized = node.category.toLowerCase();
+  return normalized === 'container' || normalized === 'system';
+};
+
+// The "Global" container is not drawn; its children are placed at the top level.
+export const isGlobalContainer = (node: AutoLayoutNode): boolean =>
+  isLayoutContainer(node) && node.name.trim().toLowerCase() === 'global';
+
+/**
+ * Number of crossing links between two neighbouring layers, given the
+ * position of each entry within its layer.
+ */
+export function countCrossings(pairs: Array<[number, number]>): number {
+  let crossings = 0;
+  for (let first = 0; first < pairs.length; first += 1) {
+    for (let second = first + 1; second < pairs.length; second += 1) {
+      const [upperA, lowerA] = pairs[first];
+      const [upperB, lowerB] = pairs[second];
+      if ((upperA - upperB) * (lowerA - lowerB) < 0) {
+        crossings += 1;
+      }
+    }
+  }
+  return crossings;
+}
+
+/**
+ * Sugiyama-style layering: breaks cycles, assigns longest-path layers, adds
+ * dummy entries for links spanning several layers and reorders every layer by
+ * barycenter sweeps, keeping the ordering with the fewest crossings.
+ */
+function orderLayers(graph: LevelGraph): LayerOrdering {
+  const count = graph.boxes.length;
+  const outgoing = Array.from({ length: count }, () => new Set<number>());
+  graph.links.forEach(([source, target]) => outgoing[source].add(target));
+
+  // Reverse links that close a cycle so every link points to a later layer
+  const state = new Array<number>(count).fill(0);
+  const acyclic: Array<[number, number]> = [];
+  const visit = (node: number) => {
+    state[node] = 1;
+    outgoing[node].forEach((target) => {
+      if (state[target] === 1) {
+        acyclic.push([target, node]);
+        return;
+      }
+      acyclic.push([node, target]);
+      if (state[target] === 0) {
+        visit(target);
+      }
+    });
+    state[node] = 2;
+  };
+  for (let node = 0; node < count; node += 1) {
+    if (state[node] === 0) {
+      visit(node);
+    }
+  }
+
+  const successors = Array.from({ length: count }, () => new Set<number>());
+  const indegree = new Array<number>(count).fill(0);
+  acyclic.forEach(([source, target]) => {
+    if (!successors[source].has(target)) {
+      successors[source].add(target);
+      indegree[target] += 1;
+    }
+  });
+
+  const layerOf = new Array<number>(count).fill(0);
+  const queue = Array.from({ length: count }, (_, node) => node).filter((node) => indegree[node] === 0);
+  while (queue.length > 0) {
+    const node = queue.shift() as number;
+    successors[node].forEach((target) => {
+      layerOf[target] = Math.max(layerOf[target], layerOf[node] + 1);
+      indegree[target] -= 1;
+      if (indegree[target] === 0) {
+        queue.push(target);
+      }
+    });
+  }
+
+  const layers: number[][] = [];
+  const addToLayer = (entry: number, layer: number) => {
+    while (layers.length <= layer) {
+      layers.push([]);
+    }
+    layers[layer].push(entry);
+  };
+  for (let node = 0; node < count; node += 1) {
+    addToLayer(node, layerOf[node]);
+  }
+
+  const upper = new Map<number, number[]>();
+  const connect = (from: number, to: number) => upper.set(to, [...(upper.get(to) || []), from]);
+  let nextDummy = count;
+  successors.forEach((targets, source) => {
+    targets.forEach((target) => {
+      let previous = source;
+      for (let layer = layerOf[source] + 1; layer < layerOf[target]; layer += 1) {
+        const dummy = nextDummy;
+        nextDummy += 1;
+        addToLayer(dummy, layer);
+        connect(previous, dummy);
+        previous = dummy;
+      }
+      connect(previous, target);
+    });
+  });
+
+  const lower = new Map<number, number[]>();
+  upper.forEach((sources, target) => {
+    sources.forEach((source) => lower.set(source, [...(lower.get(source) || []), target]));
+  });
+
+  const totalCrossings = (ordering: number[][]) => {
+    let total = 0;
+    for (let layer = 1; layer < ordering.length; layer += 1) {
+      const upperIndex = new Map(ordering[layer - 1].map((entry, index) => [entry, index]));
+      const pairs: Array<[number, number]> = [];
+      ordering[layer].forEach((entry, index) => {
+        (upper.get(entry) || []).forEach((source) => pairs.push([upperIndex.get(source) as number, index]));
+      });
+      total += countCrossings(pairs);
+    }
+    return total;
+  };
+
+  let best = layers.map((layer) => [...layer]);
+  let bestCrossings = totalCrossings(best);
+  let current = layers.map((layer) => [...layer]);
+  for (let sweep = 0; sweep < ORDERING_SWEEPS && bestCrossings > 0; sweep += 1) {
+    const downward = sweep % 2 === 0;
+    const range = downward
+      ? Array.from({ length: current.length - 1 }, (_, index) => index + 1)
+      : Array.from({ length: current.length - 1 }, (_, index) => current.length - 2 - index);
+    range.forEach((layer) => {
+      const reference = current[downward ? layer - 1 : layer + 1];
+      const referenceIndex = new Map(reference.map((entry, index) => [entry, index]));
+      const neighbours = downward ? upper : lower;
+      const barycenter = new Map(
+        current[layer].map((entry, index) => {
+          const positions = (neighbours.get(entry) || [])
+            .map((neighbour) => referenceIndex.get(neighbour))
+            .filter((position): position is number => position !== undefined);
+          const value = positions.length
+            ? positions.reduce((sum, position) => sum + position, 0) / positions.length
+            : index;
+          return [entry, value];
+        })
+      );
+      current[layer] = [...current[layer]].sort(
+        (left, right) => (barycenter.get(left) as number) - (barycenter.get(right) as number)
+      );
+    });
+    const crossings = totalCrossings(current);
+    if (crossings < bestCrossings) {
+      best = current.map((layer) => [...layer]);
+      bestCrossings = crossings;
+    }
+    current = current.map((layer) => [...layer]);
+  }
+
+  return { layers: best, boxCount: count, upper };
+}
+
+function placeLayered(graph: LevelGraph): NodePosition[] {
+  const { layers, boxCount, upper } = orderLayers(graph);
+  const widthOf = (entry: number) => (entry < boxCount ? graph.boxes[entry].width : DUMMY_WIDTH);
+  const centerX = new Map<number, number>();
+  const positions: NodePosition[] = new Array(boxCount);
+
+  let layerTop = 0;
+  layers.forEach((layer) => {
+    // Move each entry under its upper neighbours without changing the order
+    let nextFree = Number.NEGATIVE_INFINITY;
+    layer.forEach((entry) => {
+      const width = widthOf(entry);
+      const anchors = (upper.get(entry) || []).map((source) => centerX.get(source) as number);
+      const desired = anchors.length
+        ? anchors.reduce((sum, value) => sum + value, 0) / anchors.length - width / 2
+        : Number.NEGATIVE_INFINITY;
+      const left = Math.max(desired, nextFree === Number.NEGATIVE_INFINITY ? 0 : nextFree);
+      centerX.set(entry, left + width / 2);
+      nextFree = left + width + HORIZONTAL_GAP;
+    });
+
+    const layerHeight = Math.max(0, ...layer.filter((entry) => entry < boxCount).map((entry) => graph.boxes[entry].height));
+    layer.forEach((entry) => {
+      if (entry < boxCount) {
+        const box = graph.boxes[entry];
+        positions[entry] = {
+          x: (centerX.get(entry) as number) - box.width / 2,
+          y: layerTop + (layerHeight - box.height) / 2,
+        };
+      }
+    });
+    layerTop += layerHeight + VERTICAL_GAP;
+  });
+
+  return positions;
+}
+
+/**
+ * Layers become rows of a uniform grid. Entries take the column of their
+ * upper neighbours where it is free, so links run straight down or along
+ * grid lines.
+ */
+function placeOrthogonal(graph: LevelGraph): NodePosition[] {
+  const { layers, boxCount, upper } = orderLayers(graph);
+  const cellWidth = Math.max(COMPONENT_WIDTH, ...graph.boxes.map((box) => box.width)) + HORIZONTAL_GAP;
+  const cellHeight = Math.max(COMPONENT_HEIGHT, ...graph.boxes.map((box) => box.height)) + VERTICAL_GAP;
+  const columnOf = new Map<number, number>();
+  const positions: NodePosition[] = new Array(boxCount);
+
+  layers.forEach((layer, row) => {
+    let nextFree = 0;
+    layer.forEach((entry) => {
+      const anchors = (upper.get(entry) || [])
+        .map((source) => columnOf.get(source) as number)
+        .sort((left, right) => left - right);
+      const median = anchors.length ? anchors[Math.floor((anchors.length - 1) / 2)] : nextFree;
+      const column = Math.max(median, nextFree);
+      columnOf.set(entry, column);
+      nextFree = column + 1;
+      if (entry < boxCount) {
+        const box = graph.boxes[entry];
+        positions[entry] = {
+          x: column * cellWidth + (cellWidth - HORIZONTAL_GAP - box.width) / 2,
+          y: row * cellHeight + (cellHeight - VERTICAL_GAP - box.height) / 2,
+        };
+      }
+    });
+  });
+
+  return positions;
+}
+
+/**
+ * Deterministic Fruchterman-Reingold simulation followed by a pass that
+ * pushes overlapping boxes apart.
+ */
+function placeForce(graph: LevelGraph): NodePosition[] {
+  const count = graph.boxes.length;
+  const ideal =
+    graph.boxes.reduce((sum, box) => sum + Math.hypot(box.width, box.height), 0) / Math.max(count, 1) / 2 +
+    HORIZONTAL_GAP;
+  const radius = ideal * Math.sqrt(count);
+  const centers = graph.boxes.map((_, index) => ({
+    x: radius * Math.cos((2 * Math.PI * index) / Math.max(count, 1)),
+    y: radius * Math.sin((2 * Math.PI * index) / Math.max(count, 1)),
+  }));
+
+  for (let iteration = 0; iteration < FORCE_ITERATIONS; iteration += 1) {
+    const temperature = (radius + ideal) * (1 - iteration / FORCE_ITERATIONS);
+    const shifts = centers.map(() => ({ x: 0, y: 0 }));
+    for (let first = 0; first < count; first += 1) {
+      for (let second = first + 1; second < count; second += 1) {
+        const dx = centers[first].x - centers[second].x;
+        const dy = centers[first].y - centers[second].y;
+        const distance = Math.max(Math.hypot(dx, dy), 1);
+        const force = (ideal * ideal) / distance;
+        shifts[first].x += (dx / distance) * force;
+        shifts[first].y += (dy / distance) * force;
+        shifts[second].x -= (dx / distance) * force;
+        shifts[second].y -= (dy / distance) * force;
+      }
+    }
+    graph.links.forEach(([source, target]) => {
+      const dx = centers[source].x - centers[target].x;
+      const dy = centers[source].y - centers[target].y;
+      const distance = Math.max(Math.hypot(dx, dy), 1);
+      const force = (distance * distance) / ideal;
+      shifts[source].x -= (dx / distance) * force;
+      shifts[source].y -= (dy / distance) * force;
+      shifts[target].x += (dx / distance) * force;
+      shifts[target].y += (dy / distance) * force;
+    });
+    centers.forEach((center, index) => {
+      // Weak gravity keeps unconnected parts close together
+      shifts[index].x -= center.x * 0.05;
+      shifts[index].y -= center.y * 0.05;
+      const length = Math.max(Math.hypot(shifts[index].x, shifts[index].y), 1);
+      const step = Math.min(length, temperature);
+      center.x += (shifts[index].x / length) * step;
+      center.y += (shifts[index].y / length) * step;
+    });
+  }
+
+  for (let pass = 0; pass < OVERLAP_PASSES; pass += 1) {
+    let moved = false;
+    for (let first = 0; first < count; first += 1) {
+      for (let second = first + 1; second < count; second += 1) {
+        const a = graph.boxes[first];
+        const b = graph.boxes[second];
+        const dx = centers[second].x - centers[first].x;
+        const dy = centers[second].y - centers[first].y;
+        const overlapX = (a.width + b.width) / 2 + HORIZONTAL_GAP / 2 - Math.abs(dx);
+        const overlapY = (a.height + b.height) / 2 + VERTICAL_GAP / 2 - Math.abs(dy);
+        if (overlapX <= 0 || overlapY <= 0) {
+          continue;
+        }
+        moved = true;
+        if (overlapX < overlapY) {
+          const shift = (overlapX / 2) * (dx < 0 ? -1 : 1);
+          centers[first].x -= shift;
+          centers[second].x += shift;
+        } else {
+          const shift = (overlapY / 2) * (dy < 0 ? -1 : 1);
+          centers[first].y -= shift;
+          centers[second].y += shift;
+        }
+      }
+    }
+    if (!moved) {
+      break;
+    }
+  }
+
+  return centers.map((center, index) => ({
+    x: center.x - graph.boxes[index].width / 2,
+    y: center.y - graph.boxes[index].height / 2,
+  }));
+}
+
+const PLACERS: Record<AutoLayoutAlgorithm, (graph: LevelGraph) => NodePosition[]> = {
+  layered: placeLayered,
+  force: placeForce,
+  orthogonal: placeOrthogonal,
+};
+
+/**
+ * Arranges the whole model, or the content of one container, with the chosen
+ * algorithm. Containers are laid out from the innermost level outwards and
+ * sized to fit their children; links between nested nodes count as links
+ * between their containers on the outer levels. Positions are absolute, like
+ * the ones stored for diagram views.
+ */
+export function computeAutoLayout(
+  nodes: AutoLayoutNode[],
+  edges: AutoLayoutEdge[],
+  options: AutoLayoutOptions
+): DiagramLayout {
+  const visibleNodes = nodes.filter((node) => !isGlobalContainer(node));
+  const containerIds = new Set(visibleNodes.filter(isLayoutContainer).map((node) => node.id));
+  const parentOf = new Map(
+    visibleNodes.map((node) => [
+      node.id,
+      node.parentNodeId && containerIds.has(node.parentNodeId) ? node.parentNodeId : null,
+    ])
+  );
+  const childrenOf = new Map<string | null, string[]>();
+  visibleNodes.forEach((node) => {
+    const parentId = parentOf.get(node.id) ?? null;
+    childrenOf.set(parentId, [...(childrenOf.get(parentId) || []), node.id]);
+  });
+
+  // Direct child of the level that contains the node (the node itself or one of its ancestors)
+  const levelMemberFor = (nodeId: string, levelId: string | null): string | null => {
+    let current: string | null = nodeId;
+    const seen = new Set<string>();
+    while (current && !seen.has(current)) {
+      seen.add(current);
+      const parentId: string | null = parentOf.get(current) ?? null;
+      if (parentId === levelId) {
+        return current;
+      }
+      current = parentId;
+    }
+    return null;
+  };
+
+  const sizes: Record<string, NodeSize> = {};
+  const relative: Record<string, NodePosition> = {};
+
+  const layoutLevel = (levelId: string | null, visiting: Set<string>): NodeSize | null => {
+    const members = childrenOf.get(levelId) || [];
+    if (members.length === 0) {
+      return null;
+    }
+
+    const boxes: LayoutBox[] = members.map((memberId) => {
+      if (!containerIds.has(memberId)) {
+        return { id: memberId, width: COMPONENT_WIDTH, height: COMPONENT_HEIGHT };
+      }
+      const content = visiting.has(memberId) ? null : layoutLevel(memberId, new Set([...visiting, memberId]));
+      const size = content
+        ? { width: content.width + 2 * CONTAINER_PADDING, height: content.height + CONTAINER_HEADER + CONTAINER_PADDING }
+        : { width: EMPTY_CONTAINER_WIDTH, height: EMPTY_CONTAINER_HEIGHT };
+      sizes[memberId] = size;
+      return { id: memberId, ...size };
+    });
+
+    const indexById = new Map(members.map((memberId, index) => [memberId, index]));
+    const linkKeys = new Set<string>();
+    const links: Array<[number, number]> = [];
+    edges.forEach((edge) => {
+      const source = levelMemberFor(edge.sourceNodeId, levelId);
+      const target = levelMemberFor(edge.targetNodeId, levelId);
+      if (!source || !target || source === target) {
+        return;
+      }
+      const key = `${source}>${target}`;
+      if (!linkKeys.has(key)) {
+        linkKeys.add(key);
+        links.push([indexById.get(source) as number, indexById.get(target) as number]);
+      }
+    });
+
+    const positions = PLACERS[options.algorithm]({ boxes, links });
+    const minX = Math.min(...positions.map((position) => position.x));
+    const minY = Math.min(...positions.map((position) => position.y));
+    let width = 0;
+    let height = 0;
+    boxes.forEach((box, index) => {
+      const position = { x: Math.round(positions[index].x - minX), y: Math.round(positions[index].y - minY) };
+      relative[box.id] = position;
+      width = Math.max(width, position.x + box.width);
+      height = Math.max(height, position.y + box.height);
+    });
+    return { width, height };
+  };
+
+  const scopeId = options.containerId && containerIds.has(options.containerId) ? options.containerId : null;
+  const origin = options.origin || DEFAULT_ORIGIN;
+  const layout: DiagramLayout = { nodePositions: {}, containerSizes: {} };
+
+  const place = (levelId: string | null, levelOrigin: NodePosition) => {
+    (childrenOf.get(levelId) || []).forEach((memberId) => {
+      const offset = relative[memberId];
+      if (!offset) {
+        return;
+      }
+      const position = { x: levelOrigin.x + offset.x, y: levelOrigin.y + offset.y };
+      layout.nodePositions[memberId] = position;
+      if (containerIds.has(memberId)) {
+        layout.containerSizes[memberId] = sizes[memberId];
+        place(memberId, { x: position.x + CONTAINER_PADDING, y: position.y + CONTAINER_HEADER });
+      }
+    });
+  };
+
+  if (scopeId) {
+    const content = layoutLevel(scopeId, new Set([scopeId]));
+    layout.containerSizes[scopeId] = content
+      ? { width: content.width + 2 * CONTAINER_PADDING, height: content.height + CONTAINER_HEADER + CONTAINER_PADDING }
+      : { width: EMPTY_CONTAINER_WIDTH, height: EMPTY_CONTAINER_HEIGHT };
+    place(scopeId, { x: origin.x + CONTAINER_PADDING, y: origin.y + CONTAINER_HEADER });
+  } else {
+    layoutLevel(null, new Set());
+    place(null, origin);
+  }
+
+  return layout;
+}
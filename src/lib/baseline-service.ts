@@ -0,0 +1,513 @@
+/**
+ * Baseline Service
+ * Frozen per-release assessment baselines (model plus assessment data) and release-over-release comparison
+ */
+
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { ModelDiff, ModelSnapshotSchema, captureLiveModelSnapshot, diffModelSnapshots } from '@/lib/model-snapshot-service';
+import { countRiskLevels, evaluateFindingRisk, parseRiskMethod } from '@/lib/risk-method';
+import type { FindingRiskEvaluation, RiskMethod } from '@/lib/risk-method';
+
+// Compares a baseline with the current assessment instead of another baseline
+export const LIVE_BASELINE_REF = 'live';
+// Resolves to the most recently frozen baseline of the project
+export const LATEST_BASELINE_REF = 'latest';
+
+const BaselineAssetValueSchema = z.object({
+  assetType: z.string(),
+  assetId: z.string(),
+  value: z.number(),
+  confidentiality: z.number().nullable().optional(),
+  integrity: z.number().nullable().optional(),
+  availability: z.number().nullable().optional(),
+  source: z.string().optional(),
+  comment: z.string().nullable().optional(),
+});
+
+const BaselineQuestionSchema = z.object({
+  id: z.string(),
+  text: z.string(),
+  normReference: z.string(),
+  targetType: z.string(),
+  answerType: z.string().optional(),
+});
+
+const BaselineAnswerSchema = z.object({
+  id: z.string(),
+  questionId: z.string(),
+  userId: z.string(),
+  answerValue: z.string().nullable(),
+  targetType: z.string().nullable(),
+  targetId: z.string().nullable(),
+  isAggregate: z.boolean().optional(),
+});
+
+const BaselineFinalAnswerSchema = z.object({
+  questionId: z.string(),
+  targetType: z.string(),
+  targetId: z.string(),
+  answerValue: z.string(),
+  status: z.string(),
+});
+
+const BaselineFindingSchema = z.object({
+  id: z.string(),
+  assetType: z.string(),
+  assetId: z.string(),
+  assetName: z.string(),
+  questionText: z.string(),
+  normReference: z.string(),
+  severity: z.number(),
+  likelihood: z.number().nullable(),
+  impact: z.number().nullable(),
+  riskAcceptedAt: z.string().nullable(),
+});
+
+const BaselineMeasureSchema = z.object({
+  id: z.string(),
+  findingId: z.string(),
+  title: z.string(),
+  status: z.string(),
+  priority: z.string(),
+  likelihoodReduction: z.number(),
+  impactReduction: z.number(),
+  dueDate: z.string().nullable(),
+});
+
+export const AssessmentBaselineSchema = z.object({
+  version: z.number().optional(),
+  capturedAt: z.string().optional(),
+  riskMethod: z.string().nullable().default(null),
+  model: ModelSnapshotSchema,
+  assetValues: z.array(BaselineAssetValueSchema).default([]),
+  questions: z.array(BaselineQuestionSchema).default([]),
+  answers: z.array(BaselineAnswerSchema).default([]),
+  finalAnswers: z.array(BaselineFinalAnswerSchema).default([]),
+  findings: z.array(BaselineFindingSchema).default([]),
+  measures: z.array(BaselineMeasureSchema).default([]),
+});
+
+export type AssessmentBaseline = z.infer<typeof AssessmentBaselineSchema>;
+
+const BASELINE_FORMAT_VERSION = 1;
+
+const toIsoString = (value: Date | null): string | null => (value ? value.toISOString() : null);
+
+/**
+ * Current state of the whole assessment of a project in baseline format.
+ * Placements are taken from the default diagram view.
+ */
+export async function captureAssessmentBaseline(projectId: string): Promise<AssessmentBaseline> {
+  const [project, model, assetValues, questions, answers, finalAnswers, findings, measures] = await Promise.all([
+    prisma.project.findUnique({ where: { id: projectId }, select: { riskMethod: true } }),
+    captureLiveModelSnapshot(projectId),
+    prisma.assetValue.findMany({
+      where: { projectId },
+      orderBy: [{ assetType: 'asc' }, { assetId: 'asc' }],
+      select: {
+        assetType: true,
+        assetId: true,
+        value: true,
+        confidentiality: true,
+        integrity: true,
+        availability: true,
+        source: true,
+        comment: true,
+      },
+    }),
+    prisma.question.findMany({
+      where: { projectId },
+      orderBy: { createdAt: 'asc' },
+      select: { id: true, text: true, normReference: true, targetType: true, answerType: true },
+    }),
+    prisma.answer.findMany({
+      where: { projectId },
+      orderBy: { createdAt: 'asc' },
+      select: {
+        id: true,
+        questionId: true,
+        userId: true,
+        answerValue: true,
+        targetType: true,
+        targetId: true,
+        isAggregate: true,
+      },
+    }),
+    prisma.finalAnswer.findMany({
+      where: { projectId },
+      select: { questionId: true, targetType: true, targetId: true, answerValue: true, status: true },
+    }),
+    prisma.finding.findMany({
+      where: { projectId },
+      orderBy: { createdAt: 'asc' },
+      select: {
+        id: true,
+        assetType: true,
+        assetId: true,
+        assetName: true,
+        questionText: true,
+        normReference: true,
+        severity: true,
+        likelihood: true,
+        impact: true,
+        riskAcceptedAt: true,
+      },
+    }),
+    prisma.measure.findMany({
+      where: { projectId },
+      orderBy: { createdAt: 'asc' },
+      select: {
+        id: true,
+        findingId: true,
+        title: true,
+        status: true,
+        priority: true,
+        likelihoodReduction: true,
+        impactReduction: true,
+        dueDate: true,
+      },
+    }),
+  ]);
+
+  return {
+    version: BASELINE_FORMAT_VERSION,
+    capturedAt: new Date().toISOString(),
+    riskMethod: project?.riskMethod ?? null,
+    model,
+    assetValues,
+    questions,
+    answers,
+    finalAnswers,
+    findings: findings.map((finding) => ({ ...finding, riskAcceptedAt: toIsoString(finding.riskAcceptedAt) })),
+    measures: measures.map((measure) => ({ ...measure, dueDate: toIsoString(measure.dueDate) })),
+  };
+}
+
+/**
+ * Parsed baseline of a project, or null when it does not exist. `latest` picks
+ * the most recent baseline. Throws a SyntaxError or ZodError for corrupted data.
+ */
+export async function loadAssessmentBaseline(projectId: string, baselineRef: string) {
+  const baseline = await prisma.assessmentBaseline.findFirst({
+    where: baselineRef === LATEST_BASELINE_REF ? { projectId } : { id: baselineRef, projectId },
+    orderBy: { createdAt: 'desc' },
+    select: { id: true, releaseName: true, notes: true, baselineJson: true, createdAt: true },
+  });
+  if (!baseline) {
+    return null;
+  }
+  const { baselineJson, ...summary } = baseline;
+  return { baseline: summary, snapshot: AssessmentBaselineSchema.parse(JSON.parse(baselineJson)) };
+}
+
+// ============================================
+// COMPARISON
+// ============================================
+
+export interface BaselineRiskSummary {
+  findings: number;
+  rated: number;
+  inherentScore: number; // Sum over rated findings
+  residualScore: number;
+  intolerable: number; // Residual above tolerance and not accepted
+  accepted: number;
+  residualLevels: Array<{ name: string; color: string; count: number }>;
+}
+
+export interface BaselineFindingRef {
+  id: string;
+  assetName: string;
+  questionText: string;
+  normReference: string;
+  severity: number;
+  residualScore: number | null;
+  residualLevel: string | null;
+}
+
+export interface BaselineFindingChange extends BaselineFindingRef {
+  fields: string[];
+  before: BaselineFindingRef;
+}
+
+export interface BaselineAnswerChange {
+  key: string;
+  questionId: string;
+  questionText: string;
+  targetLabel: string | null;
+  userId: string | null; // Set for individual answers, null for final answers
+  before: string | null;
+  after: string | null;
+}
+
+export interface BaselineValueChange {
+  key: string;
+  label: string;
+  before: string | number | null;
+  after: string | number | null;
+}
+
+export interface BaselineComparison {
+  model: ModelDiff['summary'];
+  findings: {
+    new: BaselineFindingRef[];
+    closed: BaselineFindingRef[];
+    changed: BaselineFindingChange[];
+  };
+  risk: {
+    methodName: string;
+    before: BaselineRiskSummary;
+    after: BaselineRiskSummary;
+    delta: { findings: number; inherentScore: number; residualScore: number; intolerable: number };
+  };
+  finalAnswers: BaselineAnswerChange[];
+  answers: BaselineAnswerChange[];
+  assetValues: BaselineValueChange[];
+  measures: BaselineValueChange[];
+}
+
+type BaselineFinding = AssessmentBaseline['findings'][number];
+
+const roundScore = (value: number): number => Math.round(value * 10) / 10;
+
+// Findings regenerated from the same answer get a new id but keep asset and question
+const findingKey = (finding: BaselineFinding) => `${finding.assetType}::${finding.assetId}::${finding.questionText}`;
+
+const answerTargetKey = (questionId: string, targetType: string | null, targetId: string | null) =>
+  `${questionId}::${targetType || 'None'}::${targetId || ''}`;
+
+const evaluateBaselineFindings = (baseline: AssessmentBaseline, method: RiskMethod) => {
+  const assetValueByKey = new Map<string, number>([
+    ...baseline.assetValues
+      .filter((entry) => entry.assetType === 'Node' || entry.assetType === 'Edge')
+      .map((entry) => [`${entry.assetType}:${entry.assetId}`, entry.value] as [string, number]),
+    ...baseline.model.dataObjects.flatMap((dataObject) =>
+      dataObject.id
+        ? [
+            [
+              `DataObject:${dataObject.id}`,
+              Math.max(dataObject.confidentiality ?? 1, dataObject.integrity ?? 1, dataObject.availability ?? 1),
+            ] as [string, number],
+          ]
+        : []
+    ),
+  ]);
+
+  return new Map<string, FindingRiskEvaluation | null>(
+    baseline.findings.map((finding) => [
+      finding.id,
+      evaluateFindingRisk(
+        method,
+        finding,
+        assetValueByKey.get(`${finding.assetType}:${finding.assetId}`),
+        baseline.measures.filter((measure) => measure.findingId === finding.id)
+      ),
+    ])
+  );
+};
+
+const summarizeRisk = (
+  baseline: AssessmentBaseline,
+  method: RiskMethod,
+  risks: Map<string, FindingRiskEvaluation | null>
+): BaselineRiskSummary => {
+  const rated = baseline.findings.flatMap((finding) => {
+    const risk = risks.get(finding.id);
+    return risk ? [{ finding, risk }] : [];
+  });
+  return {
+    findings: baseline.findings.length,
+    rated: rated.length,
+    inherentScore: roundScore(rated.reduce((sum, entry) => sum + entry.risk.inherent.score, 0)),
+    residualScore: roundScore(rated.reduce((sum, entry) => sum + entry.risk.residual.score, 0)),
+    intolerable: rated.filter((entry) => !entry.risk.residual.tolerable && !entry.finding.riskAcceptedAt).length,
+    accepted: baseline.findings.filter((finding) => finding.riskAcceptedAt).length,
+    residualLevels: countRiskLevels(
+      method,
+      rated.map((entry) => entry.risk.residual)
+    ),
+  };
+};
+
+const toFindingRef = (finding: BaselineFinding, risk: FindingRiskEvaluation | null | undefined): BaselineFindingRef => ({
+  id: finding.id,
+  assetName: finding.assetName,
+  questionText: finding.questionText,
+  normReference: finding.normReference,
+  severity: finding.severity,
+  residualScore: risk ? risk.residual.score : null,
+  residualLevel: risk ? risk.residual.level : null,
+});
+
+const modelLabels = (baseline: AssessmentBaseline) =>
+  new Map<string, string>([
+    ...baseline.model.nodes.flatMap((node) => (node.id ? [[node.id, node.name] as [string, string]] : [])),
+    ...baseline.model.edges.flatMap((edge) => (edge.id && edge.name ? [[edge.id, edge.name] as [string, string]] : [])),
+    ...baseline.model.dataObjects.flatMap((dataObject) =>
+      dataObject.id ? [[dataObject.id, dataObject.name] as [string, string]] : []
+    ),
+    ...(baseline.model.zones || []).flatMap((zone) => (zone.id ? [[zone.id, zone.name] as [string, string]] : [])),
+  ]);
+
+/**
+ * Release-over-release comparison of two baselines. Findings are matched by id
+ * and, when regenerated, by asset and question. Both sides are rated with the
+ * risk method of the newer baseline so the delta only reflects assessment changes.
+ */
+export function compareAssessmentBaselines(before: AssessmentBaseline, after: AssessmentBaseline): BaselineComparison {
+  const method = parseRiskMethod(after.riskMethod);
+  const beforeRisks = evaluateBaselineFindings(before, method);
+  const afterRisks = evaluateBaselineFindings(after, method);
+
+  // Findings
+  const beforeById = new Map(before.findings.map((finding) => [finding.id, finding]));
+  const beforeByKey = new Map(before.findings.map((finding) => [findingKey(finding), finding]));
+  const matchedBeforeIds = new Set<string>();
+  const newFindings: BaselineFindingRef[] = [];
+  const changedFindings: BaselineFindingChange[] = [];
+  after.findings.forEach((finding) => {
+    const prior = beforeById.get(finding.id) ?? beforeByKey.get(findingKey(finding));
+    const afterRef = toFindingRef(finding, afterRisks.get(finding.id));
+    if (!prior || matchedBeforeIds.has(prior.id)) {
+      newFindings.push(afterRef);
+      return;
+    }
+    matchedBeforeIds.add(prior.id);
+    const beforeRef = toFindingRef(prior, beforeRisks.get(prior.id));
+    const fields = (['severity', 'likelihood', 'impact', 'normReference'] as const).filter(
+      (field) => prior[field] !== finding[field]
+    ) as string[];
+    if (Boolean(prior.riskAcceptedAt) !== Boolean(finding.riskAcceptedAt)) {
+      fields.push('riskAccepted');
+    }
+    if (beforeRef.residualScore !== afterRef.residualScore) {
+      fields.push('residualRisk');
+    }
+    if (fields.length > 0) {
+      changedFindings.push({ ...afterRef, fields, before: beforeRef });
+    }
+  });
+  const closedFindings = before.findings
+    .filter((finding) => !matchedBeforeIds.has(finding.id))
+    .map((finding) => toFindingRef(finding, beforeRisks.get(finding.id)));
+
+  // Answers
+  const questionText = new Map([...before.questions, ...after.questions].map((question) => [question.id, question.text]));
+  const labels = new Map([...modelLabels(before), ...modelLabels(after)]);
+  const compareAnswers = <T>(
+    beforeItems: T[],
+    afterItems: T[],
+    keyOf: (item: T) => string,
+    describe: (item: T) => Omit<BaselineAnswerChange, 'key' | 'before' | 'after'>,
+    valueOf: (item: T) => string | null
+  ): BaselineAnswerChange[] => {
+    const beforeByAnswerKey = new Map(beforeItems.map((item) => [keyOf(item), item]));
+    const afterByAnswerKey = new Map(afterItems.map((item) => [keyOf(item), item]));
+    return Array.from(new Set([...Array.from(beforeByAnswerKey.keys()), ...Array.from(afterByAnswerKey.keys())]))
+      .flatMap((key) => {
+        const prior = beforeByAnswerKey.get(key);
+        const next = afterByAnswerKey.get(key);
+        const beforeValue = prior ? valueOf(prior) : null;
+        const afterValue = next ? valueOf(next) : null;
+        if (beforeValue === afterValue) {
+          return [];
+        }
+        return [{ key, ...describe((next ?? prior) as T), before: beforeValue, after: afterValue }];
+      })
+      .sort((a, b) => a.questionText.localeCompare(b.questionText) || a.key.localeCompare(b.key));
+  };
+  const describeAnswer = (answer: {
+    questionId: string;
+    targetType: string | null;
+    targetId: string | null;
+    userId?: string;
+  }) => ({
+    questionId: answer.questionId,
+    questionText: questionText.get(answer.questionId) || answer.questionId,
+    targetLabel: answer.targetId ? labels.get(answer.targetId) || answer.targetId : null,
+    userId: answer.userId ?? null,
+  });
+
+  // Asset values and measures
+  const compareValues = <T>(
+    beforeItems: T[],
+    afterItems: T[],
+    keyOf: (item: T) => string,
+    labelOf: (item: T) => string,
+    valueOf: (item: T) => string | number
+  ): BaselineValueChange[] => {
+    const beforeByValueKey = new Map(beforeItems.map((item) => [keyOf(item), item]));
+    const afterByValueKey = new Map(afterItems.map((item) => [keyOf(item), item]));
+    return Array.from(new Set([...Array.from(beforeByValueKey.keys()), ...Array.from(afterByValueKey.keys())])).flatMap(
+      (key) => {
+        const prior = beforeByValueKey.get(key);
+        const next = afterByValueKey.get(key);
+        const beforeValue = prior ? valueOf(prior) : null;
+        const afterValue = next ? valueOf(next) : null;
+        return beforeValue === afterValue
+          ? []
+          : [{ key, label: labelOf((next ?? prior) as T), before: beforeValue, after: afterValue }];
+      }
+    );
+  };
+
+  const beforeRisk = summarizeRisk(before, method, beforeRisks);
+  const afterRisk = summarizeRisk(after, method, afterRisks);
+
+  return {
+    model: diffModelSnapshots(before.model, after.model).summary,
+    findings: { new: newFindings, closed: closedFindings, changed: changedFindings },
+    risk: {
+      methodName: method.name,
+      before: beforeRisk,
+      after: afterRisk,
+      delta: {
+        findings: afterRisk.findings - beforeRisk.findings,
+        inherentScore: roundScore(afterRisk.inherentScore - beforeRisk.inherentScore),
+        residualScore: roundScore(afterRisk.residualScore - beforeRisk.residualScore),
+        intolerable: afterRisk.intolerable - beforeRisk.intolerable,
+      },
+    },
+    finalAnswers: compareAnswers(
+      before.finalAnswers,
+      after.finalAnswers,
+      (answer) => answerTargetKey(answer.questionId, answer.targetType, answer.targetId),
+      describeAnswer,
+      (answer) => answer.answerValue
+    ),
+    answers: compareAnswers(
+      before.answers,
+      after.answers,
+      (answer) => `${answerTargetKey(answer.questionId, answer.targetType, answer.targetId)}::${answer.userId}`,
+      describeAnswer,
+      (answer) => answer.answerValue
+    ),
+    assetValues: compareValues(
+      before.assetValues,
+      after.assetValues,
+      (entry) => `${entry.assetType}:${entry.assetId}`,
+      (entry) => labels.get(entry.assetId) || entry.assetId,
+      (entry) => entry.value
+    ),
+    measures: compareValues(
+      before.measures,
+      after.measures,
+      (measure) => measure.id,
+      (measure) => measure.title,
+      (measure) => measure.status
+    ),
+  };
+}
+
+/**
+ * Comparison of the latest baseline with the current assessment, or null when
+ * the project has no baseline yet. Used for the "changes since last release" report section.
+ */
+export async function getChangesSinceLastRelease(projectId: string) {
+  const latest = await loadAssessmentBaseline(projectId, LATEST_BASELINE_REF);
+  if (!latest) {
+    return null;
+  }
+  const current = await captureAssessmentBaseline(projectId);
+  return { baseline: latest.baseline, comparison: compareAssessmentBaselines(latest.snapshot, current) };
+}
@@ -0,0 +1,202 @@
+/**
+ * Collaboration Service
+ * Pushes model changes, layout moves and presence of open editors to everyone viewing the same project
+ */
+
+export const COLLABORATION_CLIENT_HEADER = 'x-client-id';
+
+export type ModelChangeEntity = 'Node' | 'Edge' | 'DataObject' | 'ComponentData' | 'EdgeDataFlow' | 'Zone' | 'Model';
+
+export type ModelChangeAction = 'Create' | 'Update' | 'Delete' | 'Restore';
+
+export type LayoutPosition = { x: number; y: number };
+
+export type LayoutSize = { width: number; height: number };
+
+export interface CollaborationSelection {
+  nodeIds: string[];
+  edgeIds: string[];
+}
+
+export interface CollaborationParticipant {
+  clientId: string;
+  userId: string;
+  name: string;
+  color: string;
+  connectedAt: string;
+  selection: CollaborationSelection;
+}
+
+export interface ModelChange {
+  entityType: ModelChangeEntity;
+  entityId: string | null;
+  action: ModelChangeAction;
+  actorUserId: string | null;
+  clientId: string | null;
+}
+
+export interface LayoutChange {
+  viewId: string;
+  nodePositions: Record<string, LayoutPosition>;
+  containerSizes?: Record<string, LayoutSize>;
+  actorUserId: string | null;
+  clientId: string | null;
+}
+
+export type CollaborationEvent =
+  | ({ type: 'model-change'; at: string } & ModelChange)
+  | ({ type: 'layout' } & LayoutChange)
+  | { type: 'presence'; participants: CollaborationParticipant[] };
+
+type CollaborationListener = (event: CollaborationEvent) => void;
+
+interface ProjectChannel {
+  listeners: Set<CollaborationListener>;
+  participants: Map<string, CollaborationParticipant>;
+}
+
+const PRESENCE_COLORS = ['#f472b6', '#34d399', '#60a5fa', '#facc15', '#a78bfa', '#fb923c', '#2dd4bf', '#f87171'];
+const CLIENT_ID_PATTERN = /^[A-Za-z0-9_-]{8,64}$/;
+
+// Kept on the global object so every route handler of this server process
+// shares one hub. Connected editors only see changes made on the same
+// instance; a multi-instance deployment needs a shared broker instead.
+const globalForCollaboration = global as unknown as { collaborationChannels?: Map<string, ProjectChannel> };
+const channels = globalForCollaboration.collaborationChannels || new Map<string, ProjectChannel>();
+globalForCollaboration.collaborationChannels = channels;
+
+export const normalizeClientId = (raw: string | null | undefined): string | null =>
+  raw && CLIENT_ID_PATTERN.test(raw) ? raw : null;
+
+export const getRequestClientId = (request: Request): string | null =>
+  normalizeClientId(request.headers.get(COLLABORATION_CLIENT_HEADER));
+
+export function presenceColorForUser(userId: string): string {
+  let hash = 0;
+  for (let index = 0; index < userId.length; index += 1) {
+    hash = (hash * 31 + userId.charCodeAt(index)) >>> 0;
+  }
+  return PRESENCE_COLORS[hash % PRESENCE_COLORS.length];
+}
+
+/**
+ * Serializes an event in the text/event-stream wire format.
+ */
+export const formatServerSentEvent = (event: CollaborationEvent): string =>
+  `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+
+/**
+ * True when the client edited a version older than the stored one. Writes
+ * without an expected version are accepted (last writer wins).
+ */
+export function isStaleWrite(expectedUpdatedAt: string | null | undefined, currentUpdatedAt: Date): boolean {
+  if (!expectedUpdatedAt) {
+    return false;
+  }
+  const expected = new Date(expectedUpdatedAt).getTime();
+  return Number.isNaN(expected) || expected !== currentUpdatedAt.getTime();
+}
+
+/**
+ * Where clause for the conditional update after a passed isStaleWrite check.
+ * The row is only written while it still has the version the client edited,
+ * so a write landing between read and update matches nothing instead of
+ * being overwritten.
+ */
+export function versionedUpdateWhere(
+  id: string,
+  expectedUpdatedAt: string | null | undefined
+): { id: string; updatedAt?: Date } {
+  return expectedUpdatedAt ? { id, updatedAt: new Date(expectedUpdatedAt) } : { id };
+}
+
+const broadcast = (projectId: string, event: CollaborationEvent) => {
+  const channel = channels.get(projectId);
+  if (!channel) {
+    return;
+  }
+  channel.listeners.forEach((listener) => {
+    try {
+      listener(event);
+    } catch (error) {
+      console.error('Collaboration listener failed:', error);
+    }
+  });
+};
+
+export const listParticipants = (projectId: string): CollaborationParticipant[] =>
+  Array.from(channels.get(projectId)?.participants.values() || []);
+
+const broadcastPresence = (projectId: string) => {
+  broadcast(projectId, { type: 'presence', participants: listParticipants(projectId) });
+};
+
+/**
+ * Registers an open editor. The participant is announced to everyone in the
+ * project, including the new listener. Call the returned function when the
+ * connection closes.
+ */
+export function subscribeToProject(
+  projectId: string,
+  participant: { clientId: string; userId: string; name: string },
+  listener: CollaborationListener
+): () => void {
+  const channel = channels.get(projectId) || { listeners: new Set(), participants: new Map() };
+  channels.set(projectId, channel);
+  const entry: CollaborationParticipant = {
+    ...participant,
+    color: presenceColorForUser(participant.userId),
+    connectedAt: new Date().toISOString(),
+    selection: { nodeIds: [], edgeIds: [] },
+  };
+  channel.listeners.add(listener);
+  channel.participants.set(participant.clientId, entry);
+  broadcastPresence(projectId);
+
+  let isSubscribed = true;
+  return () => {
+    if (!isSubscribed) {
+      return;
+    }
+    isSubscribed = false;
+    channel.listeners.delete(listener);
+    // A reconnecting client may already have registered again under the same id
+    if (channel.participants.get(participant.clientId) === entry) {
+      channel.participants.delete(participant.clientId);
+    }
+    if (channel.listeners.size === 0) {
+      if (channels.get(projectId) === channel) {
+        channels.delete(projectId);
+      }
+      return;
+    }
+    broadcastPresence(projectId);
+  };
+}
+
+/**
+ * Updates what a connected editor has selected. Returns false when the
+ * client is not connected or belongs to another user.
+ */
+export function updatePresenceSelection(
+  projectId: string,
+  clientId: string,
+  userId: string,
+  selection: CollaborationSelection
+): boolean {
+  const participant = channels.get(projectId)?.participants.get(clientId);
+  if (!participant || participant.userId !== userId) {
+    return false;
+  }
+  participant.selection = { nodeIds: [...selection.nodeIds], edgeIds: [...selection.edgeIds] };
+  broadcastPresence(projectId);
+  return true;
+}
+
+export function publishModelChange(projectId: string, change: ModelChange): void {
+  broadcast(projectId, { type: 'model-change', at: new Date().toISOString(), ...change });
+}
+
+export function publishLayoutChange(projectId: string, change: LayoutChange): void {
+  broadcast(projectId, { type: 'layout', ...change });
+}
@@ -0,0 +1,463 @@
+/**
+ * Compliance Service
+ * Coverage and fulfillment per norm requirement of a project, loaded from its norms, synced catalogs, answers,
+ * findings and measures, and the portfolio rollup across projects
+ */
+
+import { prisma } from '@/lib/prisma';
+import { parseProjectNorms } from '@/lib/project-norm';
+import {
+  buildApplicabilityElements,
+  buildQuestionApplicability,
+  isApplicabilityTargetType,
+  loadApplicabilityModels,
+} from '@/lib/applicability-service';
+import type { ApplicabilityModelInput } from '@/lib/applicability-service';
+import { parseFulfillmentScore } from '@/lib/validation';
+
+// Questions that belong to none of the selected norms, e.g. manually added ones
+export const CUSTOM_COMPLIANCE_NORM = 'Custom';
+
+export interface ComplianceInput {
+  // Selected project norms without "None"
+  norms: string[];
+  // Catalog versions the project is synced to, controls in catalog order
+  catalogs: Array<{
+    projectNorm: string;
+    norm: string;
+    version: string;
+    controls: Array<{ controlId: string; title: string; groupTitle: string | null }>;
+  }>;
+  // projectNorm: library norm of the catalog the question was pulled from. applicableTargetIds: ids of the
+  // elements the question applies to (see applicability-service), null for project-wide questions
+  questions: Array<{
+    id: string;
+    text: string;
+    normReference: string;
+    projectNorm: string | null;
+    applicableTargetIds: string[] | null;
+  }>;
+  answers: Array<{ questionId: string; targetType: string | null; targetId: string | null; value: string | null }>;
+  finalAnswers: Array<{ questionId: string; targetType: string; targetId: string; value: string }>;
+  findings: Array<{ id: string; questionId: string | null; questionText: string; riskAccepted: boolean }>;
+  measures: Array<{ findingId: string; status: string }>;
+}
+
+export interface ComplianceMetrics {
+  questionCount: number;
+  // Questions answered for every applicable target
+  answeredCount: number;
+  // null without questions
+  answeredPercent: number | null;
+  // Mean 0-10 score over all answered targets, N/A and text answers excluded
+  fulfillmentAverage: number | null;
+  openFindings: number;
+  openMeasures: number;
+}
+
+export interface ComplianceQuestion extends ComplianceMetrics {
+  id: string;
+  text: string;
+}
+
+export interface ComplianceRequirement extends ComplianceMetrics {
+  reference: string;
+  title: string | null;
+  group: string | null;
+  questions: ComplianceQuestion[];
+}
+
+export interface ComplianceNorm extends ComplianceMetrics {
+  norm: string;
+  catalog: { norm: string; version: string } | null;
+  requirementCount: number;
+  // Requirements with at least one question
+  coveredRequirements: number;
+  // Requirements whose questions are all answered
+  answeredRequirements: number;
+  requirements: ComplianceRequirement[];
+}
+
+export interface ComplianceCoverage {
+  norms: ComplianceNorm[];
+}
+
+const targetKey = (targetType: string | null, targetId: string | null) => `${targetType || 'None'}::${targetId || ''}`;
+
+const roundOne = (value: number) => Math.round(value * 10) / 10;
+
+const average = (values: number[]): number | null =>
+  values.length > 0 ? roundOne(values.reduce((total, value) => total + value, 0) / values.length) : null;
+
+interface QuestionStats {
+  applicableTargetIds: string[] | null;
+  answeredTargetIds: Set<string>;
+  scores: number[];
+  openFindings: number;
+  openMeasures: number;
+}
+
+/**
+ * A question is answered once it has an answer and every target it applies to
+ * is answered. Project-wide questions need a single answer.
+ */
+const isAnswered = (stats: QuestionStats): boolean =>
+  stats.answeredTargetIds.size > 0 &&
+  (stats.applicableTargetIds === null || stats.applicableTargetIds.every((id) => stats.answeredTargetIds.has(id)));
+
+const toMetrics = (stats: QuestionStats[]): ComplianceMetrics => {
+  const answeredCount = stats.filter(isAnswered).length;
+  return {
+    questionCount: stats.length,
+    answeredCount,
+    answeredPercent: stats.length > 0 ? Math.round((answeredCount / stats.length) * 100) : null,
+    fulfillmentAverage: average(stats.flatMap((entry) => entry.scores)),
+    openFindings: stats.reduce((total, entry) => total + entry.openFindings, 0),
+    openMeasures: stats.reduce((total, entry) => total + entry.openMeasures, 0),
+  };
+};
+
+/**
+ * Groups the questions by selected norm and requirement. Requirements come
+ * from the synced catalog, or from the distinct norm references of the
+ * questions when the norm has no catalog. Per target, the final answer wins
+ * over the individual answers. A finding is open until its risk is accepted
+ * or all of its measures are done.
+ */
+export function buildComplianceCoverage(input: ComplianceInput): ComplianceCoverage {
+  const questionIdByText = new Map(input.questions.map((question) => [question.text, question.id]));
+  const questionIds = new Set(input.questions.map((question) => question.id));
+  const measuresByFinding = new Map<string, string[]>();
+  input.measures.forEach((measure) => {
+    measuresByFinding.set(measure.findingId, [...(measuresByFinding.get(measure.findingId) ?? []), measure.status]);
+  });
+
+  const statsByQuestion = new Map<string, QuestionStats>(
+    input.questions.map((question) => [
+      question.id,
+      {
+        applicableTargetIds: question.applicableTargetIds,
+        answeredTargetIds: new Set<string>(),
+        scores: [],
+        openFindings: 0,
+        openMeasures: 0,
+      },
+    ])
+  );
+  const answerScores = new Map<string, number[]>();
+  input.answers.forEach((answer) => {
+    const stats = statsByQuestion.get(answer.questionId);
+    if (!stats || !answer.value?.trim()) {
+      return;
+    }
+    stats.answeredTargetIds.add(answer.targetId || '');
+    const score = parseFulfillmentScore(answer.value);
+    const key = `${answer.questionId}::${targetKey(answer.targetType, answer.targetId)}`;
+    answerScores.set(key, [...(answerScores.get(key) ?? []), ...(score === null ? [] : [score])]);
+  });
+  const finalByKey = new Map(
+    input.finalAnswers.map((answer) => [`${answer.questionId}::${targetKey(answer.targetType, answer.targetId)}`, answer])
+  );
+  finalByKey.forEach((answer, key) => {
+    const stats = statsByQuestion.get(answer.questionId);
+    if (stats && answer.value.trim()) {
+      stats.answeredTargetIds.add(answer.targetId);
+      const score = parseFulfillmentScore(answer.value);
+      answerScores.set(key, score === null ? [] : [score]);
+    }
+  });
+  answerScores.forEach((scores, key) => {
+    const questionId = key.slice(0, key.indexOf('::'));
+    const targetScore = average(scores);
+    if (targetScore !== null) {
+      statsByQuestion.get(questionId)?.scores.push(targetScore);
+    }
+  });
+
+  input.findings.forEach((finding) => {
+    const questionId =
+      finding.questionId && questionIds.has(finding.questionId)
+        ? finding.questionId
+        : finding.questionId
+          ? undefined
+          : questionIdByText.get(finding.questionText);
+    const stats = questionId ? statsByQuestion.get(questionId) : undefined;
+    if (!stats) {
+      return;
+    }
+    const statuses = measuresByFinding.get(finding.id) ?? [];
+    const openMeasures = statuses.filter((status) => status !== 'Done').length;
+    stats.openMeasures += openMeasures;
+    if (!finding.riskAccepted && (statuses.length === 0 || openMeasures > 0)) {
+      stats.openFindings += 1;
+    }
+  });
+
+  const selectedNorms = new Set(input.norms);
+  const normOf = (question: ComplianceInput['questions'][number]): string => {
+    if (question.projectNorm && selectedNorms.has(question.projectNorm)) {
+      return question.projectNorm;
+    }
+    // Without a catalog a question belongs to the only selected norm
+    return !question.projectNorm && input.norms.length === 1 ? input.norms[0] : CUSTOM_COMPLIANCE_NORM;
+  };
+  const questionsByNorm = new Map<string, ComplianceInput['questions']>();
+  input.questions.forEach((question) => {
+    const norm = normOf(question);
+    questionsByNorm.set(norm, [...(questionsByNorm.get(norm) ?? []), question]);
+  });
+
+  const normNames = [
+    ...input.norms,
+    ...(questionsByNorm.has(CUSTOM_COMPLIANCE_NORM) && !selectedNorms.has(CUSTOM_COMPLIANCE_NORM)
+      ? [CUSTOM_COMPLIANCE_NORM]
+      : []),
+  ];
+
+  const norms = normNames.map((norm): ComplianceNorm => {
+    const catalog = input.catalogs.find((entry) => entry.projectNorm === norm) ?? null;
+    const questions = questionsByNorm.get(norm) ?? [];
+    const references = new Map<string, { title: string | null; group: string | null }>();
+    catalog?.controls.forEach((control) =>
+      references.set(control.controlId, { title: control.title, group: control.groupTitle })
+    );
+    // References outside the catalog, e.g. questions added manually
+    const extraReferences = Array.from(new Set(questions.map((question) => question.normReference)))
+      .filter((reference) => !references.has(reference))
+      .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+    extraReferences.forEach((reference) => references.set(reference, { title: null, group: null }));
+
+    const requirements = Array.from(references.entries()).map(([reference, details]): ComplianceRequirement => {
+      const requirementQuestions = questions.filter((question) => question.normReference === reference);
+      const stats = requirementQuestions.map((question) => statsByQuestion.get(question.id) as QuestionStats);
+      return {
+        reference,
+        ...details,
+        ...toMetrics(stats),
+        questions: requirementQuestions.map((question, index) => ({
+          id: question.id,
+          text: question.text,
+          ...toMetrics([stats[index]]),
+        })),
+      };
+    });
+    const stats = questions.map((question) => statsByQuestion.get(question.id) as QuestionStats);
+
+    return {
+      norm,
+      catalog: catalog ? { norm: catalog.norm, version: catalog.version } : null,
+      ...toMetrics(stats),
+      requirementCount: requirements.length,
+      coveredRequirements: requirements.filter((requirement) => requirement.questionCount > 0).length,
+      answeredRequirements: requirements.filter(
+        (requirement) => requirement.questionCount > 0 && requirement.answeredCount === requirement.questionCount
+      ).length,
+      requirements,
+    };
+  });
+
+  return { norms };
+}
+
+/**
+ * Computes the coverage of several projects with one query per table, keyed
+ * by project id. Unknown project ids are left out.
+ */
+export async function getComplianceCoverages(projectIds: string[]): Promise<Map<string, ComplianceCoverage>> {
+  if (projectIds.length === 0) {
+    return new Map();
+  }
+
+  const where = { projectId: { in: projectIds } };
+  const [projects, catalogLinks, questions, answers, finalAnswers, findings, measures, models] = await Promise.all([
+    prisma.project.findMany({
+      where: { id: { in: projectIds } },
+      select: { id: true, norm: true },
+    }),
+    prisma.projectNormCatalog.findMany({
+      where,
+      select: {
+        projectId: true,
+        projectNorm: true,
+        catalog: {
+          select: {
+            norm: true,
+            version: true,
+            controls: {
+              orderBy: { sortOrder: 'asc' },
+              select: { controlId: true, title: true, groupTitle: true },
+            },
+          },
+        },
+      },
+    }),
+    prisma.question.findMany({
+      where,
+      orderBy: { createdAt: 'asc' },
+      select: {
+        id: true,
+        projectId: true,
+        text: true,
+        normReference: true,
+        targetType: true,
+        applicability: true,
+        catalog: { select: { projectNorm: true } },
+      },
+    }),
+    prisma.answer.findMany({
+      where,
+      select: { projectId: true, questionId: true, targetType: true, targetId: true, answerValue: true },
+    }),
+    prisma.finalAnswer.findMany({
+      where,
+      select: { projectId: true, questionId: true, targetType: true, targetId: true, answerValue: true },
+    }),
+    prisma.finding.findMany({
+      where,
+      select: { id: true, projectId: true, questionId: true, questionText: true, riskAcceptedAt: true },
+    }),
+    prisma.measure.findMany({
+      where,
+      select: { projectId: true, findingId: true, status: true },
+    }),
+    loadApplicabilityModels(projectIds),
+  ]);
+
+  const ofProject = <T extends { projectId: string }>(entries: T[], projectId: string): T[] =>
+    entries.filter((entry) => entry.projectId === projectId);
+
+  // Questions with a rule apply to the matching elements, other typed questions to every element of their type
+  const applicableTargetIdsOf = (projectId: string): Map<string, string[] | null> => {
+    const projectQuestions = ofProject(questions, projectId);
+    const elements = buildApplicabilityElements(models.get(projectId) as ApplicabilityModelInput);
+    const ruleTargets = new Map(
+      buildQuestionApplicability(projectQuestions, elements, []).map((entry) => [
+        entry.questionId,
+        entry.error ? null : entry.targets.map((target) => target.targetId),
+      ])
+    );
+    return new Map(
+      projectQuestions.map((question) => [
+        question.id,
+        ruleTargets.has(question.id)
+          ? ruleTargets.get(question.id) ?? null
+          : isApplicabilityTargetType(question.targetType)
+            ? elements[question.targetType].map((element) => element.id)
+            : null,
+      ])
+    );
+  };
+
+  return new Map(
+    projects.map((project): [string, ComplianceCoverage] => {
+      const applicableTargetIds = applicableTargetIdsOf(project.id);
+      return [
+        project.id,
+        buildComplianceCoverage({
+          norms: parseProjectNorms(project.norm).filter((norm) => norm !== 'None'),
+          catalogs: ofProject(catalogLinks, project.id).map((link) => ({
+            projectNorm: link.projectNorm,
+            norm: link.catalog.norm,
+            version: link.catalog.version,
+            controls: link.catalog.controls,
+          })),
+          questions: ofProject(questions, project.id).map((question) => ({
+            id: question.id,
+            text: question.text,
+            normReference: question.normReference,
+            projectNorm: question.catalog?.projectNorm ?? null,
+            applicableTargetIds: applicableTargetIds.get(question.id) ?? null,
+          })),
+          answers: ofProject(answers, project.id).map((answer) => ({
+            questionId: answer.questionId,
+            targetType: answer.targetType,
+            targetId: answer.targetId,
+            value: answer.answerValue,
+          })),
+          finalAnswers: ofProject(finalAnswers, project.id).map((answer) => ({
+            questionId: answer.questionId,
+            targetType: answer.targetType,
+            targetId: answer.targetId,
+            value: answer.answerValue,
+          })),
+          findings: ofProject(findings, project.id).map((finding) => ({
+            id: finding.id,
+            questionId: finding.questionId,
+            questionText: finding.questionText,
+            riskAccepted: Boolean(finding.riskAcceptedAt),
+          })),
+          measures: ofProject(measures, project.id),
+        }),
+      ];
+    })
+  );
+}
+
+export async function getProjectCompliance(projectId: string): Promise<ComplianceCoverage> {
+  const coverages = await getComplianceCoverages([projectId]);
+  return coverages.get(projectId) ?? { norms: [] };
+}
+
+export type ComplianceNormSummary = Omit<ComplianceNorm, 'requirements'>;
+
+export const summarizeComplianceNorm = (norm: ComplianceNorm): ComplianceNormSummary => ({
+  norm: norm.norm,
+  catalog: norm.catalog,
+  questionCount: norm.questionCount,
+  answeredCount: norm.answeredCount,
+  answeredPercent: norm.answeredPercent,
+  fulfillmentAverage: norm.fulfillmentAverage,
+  openFindings: norm.openFindings,
+  openMeasures: norm.openMeasures,
+  requirementCount: norm.requirementCount,
+  coveredRequirements: norm.coveredRequirements,
+  answeredRequirements: norm.answeredRequirements,
+});
+
+export interface PortfolioComplianceProject {
+  id: string;
+  name: string;
+  norms: ComplianceNormSummary[];
+}
+
+export interface PortfolioComplianceNorm {
+  norm: string;
+  projectCount: number;
+  requirementCount: number;
+  answeredRequirements: number;
+  // Mean over the projects that have questions for the norm
+  answeredPercent: number | null;
+  fulfillmentAverage: number | null;
+  openFindings: number;
+  openMeasures: number;
+}
+
+/**
+ * Rolls the per-project norm summaries up into one row per norm. Percentages
+ * and scores are averaged per project so large projects do not dominate.
+ */
+export function summarizePortfolioCompliance(projects: PortfolioComplianceProject[]): PortfolioComplianceNorm[] {
+  const byNorm = new Map<string, ComplianceNormSummary[]>();
+  projects.forEach((project) =>
+    project.norms.forEach((entry) => byNorm.set(entry.norm, [...(byNorm.get(entry.norm) ?? []), entry]))
+  );
+
+  return Array.from(byNorm.entries())
+    .sort(([left], [right]) =>
+      left === CUSTOM_COMPLIANCE_NORM ? 1 : right === CUSTOM_COMPLIANCE_NORM ? -1 : left.localeCompare(right)
+    )
+    .map(([norm, entries]) => {
+      const answeredPercents = entries.flatMap((entry) => (entry.answeredPercent === null ? [] : [entry.answeredPercent]));
+      const fulfillment = entries.flatMap((entry) => (entry.fulfillmentAverage === null ? [] : [entry.fulfillmentAverage]));
+      return {
+        norm,
+        projectCount: entries.length,
+        requirementCount: entries.reduce((total, entry) => total + entry.requirementCount, 0),
+        answeredRequirements: entries.reduce((total, entry) => total + entry.answeredRequirements, 0),
+        answeredPercent: answeredPercents.length > 0 ? Math.round(average(answeredPercents) as number) : null,
+        fulfillmentAverage: average(fulfillment),
+        openFindings: entries.reduce((total, entry) => total + entry.openFindings, 0),
+        openMeasures: entries.reduce((total, entry) => total + entry.openMeasures, 0),
+      };
+    });
+}
@@ -0,0 +1,303 @@
+/**
+ * Consensus Service
+ * Aggregates the answers of all assessors into one final answer per question and target
+ */
+
+import { prisma } from '@/lib/prisma';
+import { getProjectConduits } from '@/lib/zone-service';
+import { parseFulfillmentScore } from '@/lib/validation';
+
+export const CONSENSUS_RULES = ['Unanimous', 'Median', 'MaxSpread'] as const;
+
+export type ConsensusRule = (typeof CONSENSUS_RULES)[number];
+
+export const DEFAULT_CONSENSUS_MAX_SPREAD = 3;
+
+const NOT_APPLICABLE = 'N/A';
+
+export interface ConsensusResult {
+  answerValue: string;
+  status: 'Approved' | 'Conflict';
+  // Difference between the highest and lowest score; null when not all answers are scores
+  spread: number | null;
+}
+
+export interface ConsensusAnswerInput {
+  questionId: string;
+  userId: string;
+  answerValue: string | null;
+  targetType: string | null;
+  targetId: string | null;
+  updatedAt: Date;
+}
+
+export interface ConsensusGroup<T extends ConsensusAnswerInput = ConsensusAnswerInput> {
+  key: string;
+  questionId: string;
+  targetType: string;
+  targetId: string;
+  // Latest answer of every assessor
+  answers: T[];
+  latestUpdate: Date;
+}
+
+export const normalizeConsensusRule = (raw: string | null | undefined): ConsensusRule =>
+  CONSENSUS_RULES.find((rule) => rule === raw) || 'Unanimous';
+
+export const consensusKey = (questionId: string, targetType: string | null, targetId: string | null): string =>
+  `${questionId}::${targetType || 'None'}::${targetId || ''}`;
+
+const normalizeValue = (value: string): string =>
+  value.trim().toUpperCase() === NOT_APPLICABLE ? NOT_APPLICABLE : value.trim();
+
+// Lower median: with an even number of scores ties lean towards the weaker fulfillment.
+const medianScore = (scores: number[]): number => {
+  const sorted = [...scores].sort((left, right) => left - right);
+  return sorted[Math.floor((sorted.length - 1) / 2)];
+};
+
+/**
+ * Aggregates answer values with the project rule. Identical answers are always
+ * approved; mixing N/A or text with scores is always a conflict. Scores follow
+ * the rule: Unanimous flags any difference, Median approves the median, and
+ * MaxSpread approves the median unless the scores differ by more than maxSpread.
+ */
+export function computeConsensus(
+  values: string[],
+  rule: ConsensusRule,
+  maxSpread: number = DEFAULT_CONSENSUS_MAX_SPREAD
+): ConsensusResult | null {
+  const normalized = values.map(normalizeValue).filter((value) => value.length > 0);
+  if (normalized.length === 0) {
+    return null;
+  }
+
+  const scores = normalized.map(parseFulfillmentScore).filter((score): score is number => score !== null);
+  const allScores = scores.length === normalized.length;
+  const spread = allScores ? Math.max(...scores) - Math.min(...scores) : null;
+
+  if (new Set(normalized).size === 1) {
+    return { answerValue: normalized[0], status: 'Approved', spread };
+  }
+
+  const proposal = scores.length > 0 ? String(medianScore(scores)) : normalized[0];
+  if (!allScores || rule === 'Unanimous') {
+    return { answerValue: proposal, status: 'Conflict', spread };
+  }
+  if (rule === 'MaxSpread' && (spread ?? 0) > maxSpread) {
+    return { answerValue: proposal, status: 'Conflict', spread };
+  }
+  return { answerValue: proposal, status: 'Approved', spread };
+}
+
+/**
+ * Groups answers by question and target, keeping only the latest answer of
+ * every assessor so re-answering replaces the earlier vote.
+ */
+export function groupLatestAnswers<T extends ConsensusAnswerInput>(answers: T[]): Array<ConsensusGroup<T>> {
+  const groups = new Map<string, ConsensusGroup<T>>();
+  const latestByUser = new Map<string, T>();
+
+  for (const answer of answers) {
+    const key = consensusKey(answer.questionId, answer.targetType, answer.targetId);
+    const userKey = `${key}::${answer.userId}`;
+    const current = latestByUser.get(userKey);
+    if (!current || current.updatedAt.getTime() <= answer.updatedAt.getTime()) {
+      latestByUser.set(userKey, answer);
+    }
+  }
+
+  latestByUser.forEach((answer) => {
+    const key = consensusKey(answer.questionId, answer.targetType, answer.targetId);
+    const group: ConsensusGroup<T> = groups.get(key) || {
+      key,
+      questionId: answer.questionId,
+      targetType: answer.targetType || 'None',
+      targetId: answer.targetId || '',
+      answers: [],
+      latestUpdate: answer.updatedAt,
+    };
+    group.answers.push(answer);
+    if (answer.updatedAt.getTime() > group.latestUpdate.getTime()) {
+      group.latestUpdate = answer.updatedAt;
+    }
+    groups.set(key, group);
+  });
+
+  return Array.from(groups.values());
+}
+
+/**
+ * Recomputes consensus final answers of a project (or a single question).
+ * A manual resolution is kept until an answer of its group changes again;
+ * consensus results without remaining answers are removed.
+ */
+export async function syncFinalAnswers(projectId: string, questionId?: string) {
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    select: { consensusRule: true, consensusMaxSpread: true },
+  });
+  if (!project) {
+    return { updated: 0, conflicts: 0, removed: 0 };
+  }
+
+  const rule = normalizeConsensusRule(project.consensusRule);
+  const [answers, finalAnswers] = await Promise.all([
+    prisma.answer.findMany({
+      where: { projectId, isAggregate: false, ...(questionId && { questionId }) },
+      select: { questionId: true, userId: true, answerValue: true, targetType: true, targetId: true, updatedAt: true },
+    }),
+    prisma.finalAnswer.findMany({
+      where: { projectId, ...(questionId && { questionId }) },
+    }),
+  ]);
+
+  const finalAnswerByKey = new Map(
+    finalAnswers.map((finalAnswer) => [
+      consensusKey(finalAnswer.questionId, finalAnswer.targetType, finalAnswer.targetId),
+      finalAnswer,
+    ])
+  );
+  const results = groupLatestAnswers(answers).flatMap((group) => {
+    const result = computeConsensus(
+      group.answers.map((answer) => answer.answerValue || ''),
+      rule,
+      project.consensusMaxSpread
+    );
+    return result ? [{ group, result }] : [];
+  });
+  const activeKeys = new Set(results.map(({ group }) => group.key));
+  const staleIds = finalAnswers
+    .filter(
+      (finalAnswer) =>
+        finalAnswer.source === 'Consensus' &&
+        !activeKeys.has(consensusKey(finalAnswer.questionId, finalAnswer.targetType, finalAnswer.targetId))
+    )
+    .map((finalAnswer) => finalAnswer.id);
+  let updated = 0;
+
+  await prisma.$transaction(async (tx) => {
+    for (const { group, result } of results) {
+      const existing = finalAnswerByKey.get(group.key);
+      if (existing?.source === 'Manual' && existing.resolvedAt && existing.resolvedAt >= group.latestUpdate) {
+        continue;
+      }
+      if (
+        existing?.source === 'Consensus' &&
+        existing.answerValue === result.answerValue &&
+        existing.status === result.status &&
+        existing.answerCount === group.answers.length
+      ) {
+        continue;
+      }
+
+      const data = {
+        answerValue: result.answerValue,
+        status: result.status,
+        source: 'Consensus',
+        answerCount: group.answers.length,
+        resolvedAt: result.status === 'Approved' ? new Date() : null,
+        resolvedByUserId: null,
+      };
+      await tx.finalAnswer.upsert({
+        where: {
+          projectId_questionId_targetType_targetId: {
+            projectId,
+            questionId: group.questionId,
+            targetType: group.targetType,
+            targetId: group.targetId,
+          },
+        },
+        update: data,
+        create: {
+          projectId,
+          questionId: group.questionId,
+          targetType: group.targetType,
+          targetId: group.targetId,
+          ...data,
+        },
+      });
+      updated += 1;
+    }
+
+    if (staleIds.length > 0) {
+      await tx.finalAnswer.deleteMany({ where: { id: { in: staleIds } } });
+    }
+  });
+
+  return {
+    updated,
+    conflicts: results.filter(({ result }) => result.status === 'Conflict').length,
+    removed: staleIds.length,
+  };
+}
+
+/**
+ * Open conflicts with the question, a readable target name and the votes they
+ * were computed from, for the project admin inbox.
+ */
+export async function getConflictInbox(projectId: string) {
+  const conflicts = await prisma.finalAnswer.findMany({
+    where: { projectId, status: 'Conflict' },
+    orderBy: { updatedAt: 'desc' },
+  });
+  if (conflicts.length === 0) {
+    return [];
+  }
+
+  const questionIds = Array.from(new Set(conflicts.map((conflict) => conflict.questionId)));
+  const [questions, answers, nodes, edges, dataObjects, zones, conduits] = await Promise.all([
+    prisma.question.findMany({
+      where: { id: { in: questionIds } },
+      select: { id: true, text: true, normReference: true },
+    }),
+    prisma.answer.findMany({
+      where: { projectId, isAggregate: false, questionId: { in: questionIds } },
+      select: {
+        id: true,
+        questionId: true,
+        userId: true,
+        answerValue: true,
+        targetType: true,
+        targetId: true,
+        comment: true,
+        updatedAt: true,
+        user: { select: { name: true, email: true } },
+      },
+    }),
+    prisma.modelNode.findMany({ where: { projectId }, select: { id: true, name: true } }),
+    prisma.modelEdge.findMany({ where: { projectId }, select: { id: true, name: true } }),
+    prisma.dataObject.findMany({ where: { projectId }, select: { id: true, name: true } }),
+    prisma.zone.findMany({ where: { projectId }, select: { id: true, name: true } }),
+    getProjectConduits(projectId),
+  ]);
+
+  const questionById = new Map(questions.map((question) => [question.id, question]));
+  const votesByKey = new Map(groupLatestAnswers(answers).map((group) => [group.key, group.answers]));
+  const targetNameByKey = new Map<string, string>([
+    ...nodes.map((node) => [`Component:${node.id}`, node.name] as [string, string]),
+    ...edges.map((edge) => [`Edge:${edge.id}`, edge.name || 'Interface'] as [string, string]),
+    ...dataObjects.map((dataObject) => [`DataObject:${dataObject.id}`, dataObject.name] as [string, string]),
+    ...zones.map((zone) => [`Zone:${zone.id}`, zone.name] as [string, string]),
+    ...conduits.map((conduit) => [`Conduit:${conduit.id}`, conduit.name] as [string, string]),
+  ]);
+
+  return conflicts.map((conflict) => ({
+    ...conflict,
+    question: questionById.get(conflict.questionId) || null,
+    targetName:
+      conflict.targetType === 'None' || !conflict.targetId
+        ? 'Project'
+        : targetNameByKey.get(`${conflict.targetType}:${conflict.targetId}`) || conflict.targetId,
+    votes: (votesByKey.get(consensusKey(conflict.questionId, conflict.targetType, conflict.targetId)) || []).map(
+      (vote) => ({
+        answerId: vote.id,
+        userId: vote.userId,
+        userName: vote.user.name || vote.user.email,
+        answerValue: vote.answerValue,
+        comment: vote.comment,
+        updatedAt: vote.updatedAt,
+      })
+    ),
+  }));
+}
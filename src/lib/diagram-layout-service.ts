@@ -0,0 +1,186 @@
+/**
+ * Diagram Layout Service
+ * Named views of the canonical model with node positions and container sizes stored per project
+ */
+
+import { prisma } from '@/lib/prisma';
+import { AutoLayoutAlgorithm, computeAutoLayout } from '@/lib/auto-layout-service';
+
+export const DEFAULT_DIAGRAM_VIEW_NAME = 'Default';
+
+export type NodePosition = { x: number; y: number };
+
+export type NodeSize = { width: number; height: number };
+
+export interface DiagramLayout {
+  nodePositions: Record<string, NodePosition>;
+  containerSizes: Record<string, NodeSize>;
+}
+
+export interface NodeLayoutRow {
+  nodeId: string;
+  x: number | null;
+  y: number | null;
+  width: number | null;
+  height: number | null;
+}
+
+export interface NodeLayoutUpdate {
+  nodeId: string;
+  position?: NodePosition;
+  size?: NodeSize;
+}
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+export function toDiagramLayout(rows: NodeLayoutRow[]): DiagramLayout {
+  const layout: DiagramLayout = { nodePositions: {}, containerSizes: {} };
+  rows.forEach((row) => {
+    if (isFiniteNumber(row.x) && isFiniteNumber(row.y)) {
+      layout.nodePositions[row.nodeId] = { x: row.x, y: row.y };
+    }
+    if (isFiniteNumber(row.width) && isFiniteNumber(row.height) && row.width > 0 && row.height > 0) {
+      layout.containerSizes[row.nodeId] = { width: row.width, height: row.height };
+    }
+  });
+  return layout;
+}
+
+/**
+ * Combines position and size changes into one update per node, keeping only
+ * nodes of the project and well-formed values.
+ */
+export function buildNodeLayoutUpdates(layout: Partial<DiagramLayout>, validNodeIds: Set<string>): NodeLayoutUpdate[] {
+  const updates = new Map<string, NodeLayoutUpdate>();
+  const updateFor = (nodeId: string) => updates.get(nodeId) || { nodeId };
+
+  Object.entries(layout.nodePositions || {}).forEach(([nodeId, position]) => {
+    if (validNodeIds.has(nodeId) && isFiniteNumber(position?.x) && isFiniteNumber(position?.y)) {
+      updates.set(nodeId, { ...updateFor(nodeId), position: { x: position.x, y: position.y } });
+    }
+  });
+  Object.entries(layout.containerSizes || {}).forEach(([nodeId, size]) => {
+    if (validNodeIds.has(nodeId) && isFiniteNumber(size?.width) && isFiniteNumber(size?.height) && size.width > 0 && size.height > 0) {
+      updates.set(nodeId, { ...updateFor(nodeId), size: { width: size.width, height: size.height } });
+    }
+  });
+
+  return Array.from(updates.values());
+}
+
+/**
+ * Returns the default view of a project, creating it on first use.
+ */
+export async function ensureDefaultDiagramView(projectId: string, userId?: string | null) {
+  const existing = await prisma.diagramView.findFirst({
+    where: { projectId, isDefault: true },
+    orderBy: { createdAt: 'asc' },
+  });
+  if (existing) {
+    return existing;
+  }
+
+  return prisma.diagramView.upsert({
+    where: { projectId_name: { projectId, name: DEFAULT_DIAGRAM_VIEW_NAME } },
+    update: { isDefault: true },
+    create: { projectId, name: DEFAULT_DIAGRAM_VIEW_NAME, isDefault: true, createdByUserId: userId || null },
+  });
+}
+
+/**
+ * The requested view when it belongs to the project, otherwise null. Without
+ * a view id the default view is used.
+ */
+export async function resolveDiagramView(projectId: string, viewId?: string | null) {
+  if (!viewId) {
+    return prisma.diagramView.findFirst({ where: { projectId, isDefault: true }, orderBy: { createdAt: 'asc' } });
+  }
+  const view = await prisma.diagramView.findUnique({ where: { id: viewId } });
+  return view?.projectId === projectId ? view : null;
+}
+
+export async function getDiagramLayout(viewId: string): Promise<DiagramLayout> {
+  const rows = await prisma.diagramNodeLayout.findMany({
+    where: { viewId },
+    select: { nodeId: true, x: true, y: true, width: true, height: true },
+  });
+  return toDiagramLayout(rows);
+}
+
+/**
+ * Stores moved nodes and resized containers of a view. Nodes that are not
+ * mentioned keep their stored layout. Returns the layout that was applied.
+ */
+export async function saveDiagramLayout(
+  projectId: string,
+  viewId: string,
+  layout: Partial<DiagramLayout>
+): Promise<DiagramLayout> {
+  const nodes = await prisma.modelNode.findMany({ where: { projectId }, select: { id: true } });
+  const updates = buildNodeLayoutUpdates(layout, new Set(nodes.map((node) => node.id)));
+
+  await prisma.$transaction(
+    updates.map((update) => {
+      const data = {
+        ...(update.position && { x: update.position.x, y: update.position.y }),
+        ...(update.size && { width: update.size.width, height: update.size.height }),
+      };
+      return prisma.diagramNodeLayout.upsert({
+        where: { viewId_nodeId: { viewId, nodeId: update.nodeId } },
+        update: data,
+        create: { viewId, nodeId: update.nodeId, ...data },
+      });
+    })
+  );
+
+  return {
+    nodePositions: Object.fromEntries(
+      updates.flatMap((update) => (update.position ? [[update.nodeId, update.position]] : []))
+    ),
+    containerSizes: Object.fromEntries(updates.flatMap((update) => (update.size ? [[update.nodeId, update.size]] : []))),
+  };
+}
+
+/**
+ * Copies all stored positions and sizes of one view into another.
+ */
+export async function copyDiagramLayout(sourceViewId: string, targetViewId: string): Promise<void> {
+  const rows = await prisma.diagramNodeLayout.findMany({ where: { viewId: sourceViewId } });
+  if (rows.length === 0) {
+    return;
+  }
+  await prisma.diagramNodeLayout.createMany({
+    data: rows.map((row) => ({
+      viewId: targetViewId,
+      nodeId: row.nodeId,
+      x: row.x,
+      y: row.y,
+      width: row.width,
+      height: row.height,
+    })),
+    skipDuplicates: true,
+  });
+}
+
+/**
+ * Arranges the whole model, or the content of one container, in a view and
+ * stores the result. Returns the layout that was applied.
+ */
+export async function autoLayoutDiagramView(
+  projectId: string,
+  viewId: string,
+  options: { algorithm: AutoLayoutAlgorithm; containerId?: string | null }
+): Promise<DiagramLayout> {
+  const [nodes, edges] = await Promise.all([
+    prisma.modelNode.findMany({
+      where: { projectId },
+      select: { id: true, name: true, category: true, parentNodeId: true },
+    }),
+    prisma.modelEdge.findMany({ where: { projectId }, select: { sourceNodeId: true, targetNodeId: true } }),
+  ]);
+  const origin = options.containerId
+    ? (await getDiagramLayout(viewId)).nodePositions[options.containerId]
+    : undefined;
+
+  return saveDiagramLayout(projectId, viewId, computeAutoLayout(nodes, edges, { ...options, origin }));
+}
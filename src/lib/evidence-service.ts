@@ -0,0 +1,204 @@
+/**
+ * Evidence Service
+ * Stores evidence files for answers, findings and measures with SHA-256 integrity hashes
+ */
+
+import { createHash } from 'crypto';
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { getEvidenceStorage, normalizeEvidenceStorageBackend } from '@/lib/evidence-storage';
+
+export const MAX_EVIDENCE_FILE_BYTES = 25 * 1024 * 1024;
+
+export type EvidenceLinkType = 'Answer' | 'Finding' | 'Measure';
+
+export interface EvidenceLink {
+  answerId?: string | null;
+  findingId?: string | null;
+  measureId?: string | null;
+}
+
+export interface EvidenceUpload {
+  projectId: string;
+  link: EvidenceLink;
+  fileName: string;
+  mimeType: string;
+  content: Buffer;
+  description?: string | null;
+  uploadedByUserId: string | null;
+}
+
+export const computeSha256 = (content: Buffer): string => createHash('sha256').update(content).digest('hex');
+
+/**
+ * Reduces an uploaded file name to a safe basename that can be used as the
+ * last segment of a storage key and in download headers.
+ */
+export function sanitizeEvidenceFileName(rawName: string): string {
+  const baseName = rawName.split(/[\\/]/).pop() || '';
+  const sanitized = baseName
+    .normalize('NFKD')
+    .replace(/[^A-Za-z0-9._-]+/g, '_')
+    .replace(/^[._]+/, '')
+    .slice(-120);
+  return sanitized || 'evidence';
+}
+
+// Content-addressed keys: uploading the same file twice reuses the stored file.
+export const buildEvidenceStorageKey = (projectId: string, sha256: string, fileName: string): string =>
+  `${projectId}/${sha256}/${sanitizeEvidenceFileName(fileName)}`;
+
+/**
+ * Returns the single linked entity of an evidence link, or null when none or
+ * more than one is set.
+ */
+export function resolveEvidenceLinkType(link: EvidenceLink): EvidenceLinkType | null {
+  const linkTypes: EvidenceLinkType[] = [
+    ...(link.answerId ? ['Answer' as const] : []),
+    ...(link.findingId ? ['Finding' as const] : []),
+    ...(link.measureId ? ['Measure' as const] : []),
+  ];
+  return linkTypes.length === 1 ? linkTypes[0] : null;
+}
+
+/**
+ * Checks that the linked answer, finding or measure belongs to the project.
+ */
+export async function isEvidenceLinkInProject(projectId: string, link: EvidenceLink): Promise<boolean> {
+  const linkType = resolveEvidenceLinkType(link);
+  if (linkType === 'Answer') {
+    const answer = await prisma.answer.findUnique({ where: { id: link.answerId as string }, select: { projectId: true } });
+    return answer?.projectId === projectId;
+  }
+  if (linkType === 'Finding') {
+    const finding = await prisma.finding.findUnique({
+      where: { id: link.findingId as string },
+      select: { projectId: true },
+    });
+    return finding?.projectId === projectId;
+  }
+  if (linkType === 'Measure') {
+    const measure = await prisma.measure.findUnique({
+      where: { id: link.measureId as string },
+      select: { projectId: true },
+    });
+    return measure?.projectId === projectId;
+  }
+  return false;
+}
+
+export const evidenceInclude = {
+  uploadedBy: { select: { id: true, name: true, email: true } },
+} satisfies Prisma.EvidenceInclude;
+
+/**
+ * Writes the file to the configured storage backend and records its hash.
+ */
+export async function storeEvidence(upload: EvidenceUpload) {
+  const storage = getEvidenceStorage();
+  const sha256 = computeSha256(upload.content);
+  const storageKey = buildEvidenceStorageKey(upload.projectId, sha256, upload.fileName);
+  await storage.put(storageKey, upload.content, upload.mimeType);
+
+  return prisma.evidence.create({
+    data: {
+      projectId: upload.projectId,
+      answerId: upload.link.answerId || null,
+      findingId: upload.link.findingId || null,
+      measureId: upload.link.measureId || null,
+      fileName: upload.fileName.trim().slice(0, 255) || 'evidence',
+      mimeType: upload.mimeType || 'application/octet-stream',
+      size: upload.content.length,
+      sha256,
+      storageBackend: storage.backend,
+      storageKey,
+      description: upload.description?.trim() || null,
+      uploadedByUserId: upload.uploadedByUserId,
+    },
+    include: evidenceInclude,
+  });
+}
+
+/**
+ * Reads a stored file and verifies it against the recorded hash.
+ */
+export async function readEvidenceContent(evidence: {
+  storageBackend: string;
+  storageKey: string;
+  sha256: string;
+}): Promise<Buffer> {
+  const content = await getEvidenceStorage(normalizeEvidenceStorageBackend(evidence.storageBackend)).get(
+    evidence.storageKey
+  );
+  if (computeSha256(content) !== evidence.sha256) {
+    throw new Error('Evidence integrity check failed');
+  }
+  return content;
+}
+
+/**
+ * Deletes evidence records and removes stored files no other record uses.
+ * Call before deleting answers, findings or measures, whose evidence rows
+ * would otherwise cascade away and leave the files behind.
+ */
+export async function deleteEvidence(where: Prisma.EvidenceWhereInput): Promise<number> {
+  const records = await prisma.evidence.findMany({
+    where,
+    select: { id: true, storageBackend: true, storageKey: true },
+  });
+  if (records.length === 0) {
+    return 0;
+  }
+
+  await prisma.evidence.deleteMany({ where: { id: { in: records.map((record) => record.id) } } });
+
+  const files = new Map(records.map((record) => [`${record.storageBackend}:${record.storageKey}`, record]));
+  for (const file of Array.from(files.values())) {
+    const remaining = await prisma.evidence.count({
+      where: { storageBackend: file.storageBackend, storageKey: file.storageKey },
+    });
+    if (remaining > 0) {
+      continue;
+    }
+    try {
+      await getEvidenceStorage(normalizeEvidenceStorageBackend(file.storageBackend)).remove(file.storageKey);
+    } catch (error) {
+      console.error('Remove evidence file failed:', error);
+    }
+  }
+
+  return records.length;
+}
+
+/**
+ * Evidence of a project with a readable label of what it proves, for the
+ * report appendix.
+ */
+export async function getEvidenceRegister(projectId: string) {
+  const evidence = await prisma.evidence.findMany({
+    where: { projectId },
+    orderBy: { createdAt: 'asc' },
+    include: {
+      uploadedBy: { select: { name: true, email: true } },
+      answer: { select: { answerValue: true, question: { select: { text: true, normReference: true } } } },
+      finding: { select: { questionText: true, assetName: true } },
+      measure: { select: { title: true } },
+    },
+  });
+
+  return evidence.map((entry) => ({
+    id: entry.id,
+    fileName: entry.fileName,
+    size: entry.size,
+    sha256: entry.sha256,
+    description: entry.description,
+    createdAt: entry.createdAt,
+    uploadedBy: entry.uploadedBy?.name || entry.uploadedBy?.email || 'Unknown',
+    linkType: resolveEvidenceLinkType(entry),
+    linkLabel: entry.answer
+      ? `${entry.answer.question.normReference}: ${entry.answer.question.text} (${entry.answer.answerValue || '-'})`
+      : entry.finding
+        ? `${entry.finding.questionText} (${entry.finding.assetName})`
+        : entry.measure?.title || '-',
+  }));
+}
@@ -0,0 +1,185 @@
+/**
+ * Evidence Storage
+ * Pluggable file storage for evidence: local filesystem by default, S3-compatible object storage optional
+ */
+
+import { createHash, createHmac } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export const EVIDENCE_STORAGE_BACKENDS = ['Local', 'S3'] as const;
+
+export type EvidenceStorageBackend = (typeof EVIDENCE_STORAGE_BACKENDS)[number];
+
+export interface EvidenceStorage {
+  backend: EvidenceStorageBackend;
+  put(key: string, content: Buffer, mimeType: string): Promise<void>;
+  get(key: string): Promise<Buffer>;
+  remove(key: string): Promise<void>;
+}
+
+export interface S3StorageConfig {
+  endpoint: string;
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+const DEFAULT_LOCAL_DIRECTORY = path.join('storage', 'evidence');
+
+export const normalizeEvidenceStorageBackend = (raw: string | null | undefined): EvidenceStorageBackend =>
+  raw?.trim().toLowerCase() === 's3' ? 'S3' : 'Local';
+
+/**
+ * Stores files below a root directory. Keys are relative paths; keys that
+ * would escape the root are rejected.
+ */
+export function createLocalEvidenceStorage(rootDirectory: string): EvidenceStorage {
+  const root = path.resolve(rootDirectory);
+  const resolveKey = (key: string): string => {
+    const filePath = path.resolve(root, key);
+    if (!filePath.startsWith(`${root}${path.sep}`)) {
+      throw new Error('Invalid evidence storage key');
+    }
+    return filePath;
+  };
+
+  return {
+    backend: 'Local',
+    async put(key, content) {
+      const filePath = resolveKey(key);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, content);
+    },
+    async get(key) {
+      return fs.readFile(resolveKey(key));
+    },
+    async remove(key) {
+      await fs.rm(resolveKey(key), { force: true });
+    },
+  };
+}
+
+const sha256Hex = (data: Buffer | string): string => createHash('sha256').update(data).digest('hex');
+
+const hmac = (key: Buffer | string, data: string): Buffer => createHmac('sha256', key).update(data).digest();
+
+// RFC 3986 encoding as required for S3 canonical URIs; "/" separates key segments.
+const encodeKey = (key: string): string =>
+  key
+    .split('/')
+    .map((segment) =>
+      encodeURIComponent(segment).replace(/[!'()*]/g, (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`)
+    )
+    .join('/');
+
+/**
+ * Builds a path-style URL and AWS Signature V4 headers for a single object
+ * request. Works with AWS S3 and S3-compatible stores such as MinIO.
+ */
+export function signS3Request(
+  config: S3StorageConfig,
+  method: 'GET' | 'PUT' | 'DELETE',
+  key: string,
+  payloadHash: string,
+  now: Date = new Date()
+): { url: string; headers: Record<string, string> } {
+  const endpoint = new URL(config.endpoint);
+  const basePath = endpoint.pathname.replace(/\/+$/, '');
+  const canonicalUri = `${basePath}/${encodeKey(config.bucket)}/${encodeKey(key)}`;
+  const amzDate = now.toISOString().replace(/[:-]|\.\d{3}/g, '');
+  const dateStamp = amzDate.slice(0, 8);
+  const scope = `${dateStamp}/${config.region}/s3/aws4_request`;
+
+  const signedHeaders = 'host;x-amz-content-sha256;x-amz-date';
+  const canonicalRequest = [
+    method,
+    canonicalUri,
+    '',
+    `host:${endpoint.host}`,
+    `x-amz-content-sha256:${payloadHash}`,
+    `x-amz-date:${amzDate}`,
+    '',
+    signedHeaders,
+    payloadHash,
+  ].join('\n');
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+  const signingKey = ['s3', 'aws4_request'].reduce(
+    (currentKey, part) => hmac(currentKey, part),
+    hmac(hmac(`AWS4${config.secretAccessKey}`, dateStamp), config.region)
+  );
+  const signature = createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+  return {
+    url: `${endpoint.origin}${canonicalUri}`,
+    headers: {
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate,
+      Authorization: `AWS4-HMAC-SHA256 Credential=${config.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+    },
+  };
+}
+
+export function createS3EvidenceStorage(config: S3StorageConfig): EvidenceStorage {
+  const send = async (method: 'GET' | 'PUT' | 'DELETE', key: string, content?: Buffer, mimeType?: string) => {
+    const { url, headers } = signS3Request(config, method, key, sha256Hex(content || ''));
+    const response = await fetch(url, {
+      method,
+      headers: mimeType ? { ...headers, 'Content-Type': mimeType } : headers,
+      body: content ? new Uint8Array(content) : undefined,
+    });
+    if (!response.ok && !(method === 'DELETE' && response.status === 404)) {
+      throw new Error(`S3 ${method} failed with status ${response.status}`);
+    }
+    return response;
+  };
+
+  return {
+    backend: 'S3',
+    async put(key, content, mimeType) {
+      await send('PUT', key, content, mimeType);
+    },
+    async get(key) {
+      const response = await send('GET', key);
+      return Buffer.from(await response.arrayBuffer());
+    },
+    async remove(key) {
+      await send('DELETE', key);
+    },
+  };
+}
+
+const readS3Config = (): S3StorageConfig | null => {
+  const endpoint = process.env.EVIDENCE_S3_ENDPOINT?.trim();
+  const bucket = process.env.EVIDENCE_S3_BUCKET?.trim();
+  const accessKeyId = process.env.EVIDENCE_S3_ACCESS_KEY_ID?.trim();
+  const secretAccessKey = process.env.EVIDENCE_S3_SECRET_ACCESS_KEY?.trim();
+  if (!endpoint || !bucket || !accessKeyId || !secretAccessKey) {
+    return null;
+  }
+  return {
+    endpoint,
+    bucket,
+    accessKeyId,
+    secretAccessKey,
+    region: process.env.EVIDENCE_S3_REGION?.trim() || 'us-east-1',
+  };
+};
+
+/**
+ * Storage for new uploads as configured by EVIDENCE_STORAGE, or the backend an
+ * existing file was stored with.
+ */
+export function getEvidenceStorage(
+  backend: EvidenceStorageBackend = normalizeEvidenceStorageBackend(process.env.EVIDENCE_STORAGE)
+): EvidenceStorage {
+  if (backend === 'S3') {
+    const config = readS3Config();
+    if (!config) {
+      throw new Error('S3 evidence storage is not configured');
+    }
+    return createS3EvidenceStorage(config);
+  }
+  return createLocalEvidenceStorage(process.env.EVIDENCE_STORAGE_DIR?.trim() || DEFAULT_LOCAL_DIRECTORY);
+}
@@ -80,8 +80,10 @@ export interface FindingRecommendationInput {
   key: string;
   questionText: string;
   normReference: string;
-  assetType: 'Node' | 'Edge';
+  assetType: 'Node' | 'Edge' | 'DataObject' | 'Zone' | 'Conduit';
   assetName: string;
+  // 1-10 criticality of the affected asset, when valued
+  assetValue?: number | null;
   answerComment?: string | null;
 }
 
@@ -969,6 +971,7 @@ export async function generateFindingRecommendations(
     normReference: item.normReference.trim().slice(0, 120),
     assetType: item.assetType,
     assetName: item.assetName.trim().slice(0, 120),
+    assetValue: item.assetValue ?? null,
     answerComment: item.answerComment?.trim().slice(0, 500) || null,
   }));
 
@@ -980,7 +983,7 @@ export async function generateFindingRecommendations(
       '{"suggestions":[{"key":"string","severity":1-10,"findingDescription":"string","measureTitle":"string","measureDescription":"string","priority":"Low|Medium|High|Critical"}]}',
       'Rules:',
       '- Use each input key at most once.',
-      '- Keep severity realistic and evidence-based.',
+      '- Keep severity realistic and evidence-based; weigh assetValue (1-10 criticality) when present.',
       '- measureTitle must be concise and implementation-oriented.',
       '- No markdown, no extra keys, no commentary.',
     ].join('\n');
@@ -0,0 +1,76 @@
+/**
+ * Model Diagram Service
+ * Loads nodes, edges, asset values, data-object links and the view layout needed to draw the model diagram
+ */
+
+import { prisma } from '@/lib/prisma';
+import { getDiagramLayout, resolveDiagramView } from '@/lib/diagram-layout-service';
+import type { ModelDiagramSource } from '@/lib/model-diagram';
+
+/**
+ * Drawing input for a view of the project (default view when no id is
+ * given). Returns null when the requested view does not exist; a project
+ * without any view is drawn with an automatic layout.
+ */
+export async function loadModelDiagramSource(
+  projectId: string,
+  viewId?: string | null
+): Promise<(ModelDiagramSource & { viewName: string | null }) | null> {
+  const view = await resolveDiagramView(projectId, viewId);
+  if (viewId && !view) {
+    return null;
+  }
+
+  const [nodes, edges, assetValues, layout] = await Promise.all([
+    prisma.modelNode.findMany({
+      where: { projectId },
+      orderBy: { name: 'asc' },
+      select: {
+        id: true,
+        name: true,
+        category: true,
+        parentNodeId: true,
+        _count: { select: { dataComponents: true } },
+      },
+    }),
+    prisma.modelEdge.findMany({
+      where: { projectId },
+      select: {
+        id: true,
+        name: true,
+        sourceNodeId: true,
+        targetNodeId: true,
+        direction: true,
+        _count: { select: { dataFlows: true } },
+      },
+    }),
+    prisma.assetValue.findMany({
+      where: { projectId, assetType: { in: ['Node', 'Edge'] } },
+      select: { assetType: true, assetId: true, value: true },
+    }),
+    view ? getDiagramLayout(view.id) : Promise.resolve({ nodePositions: {}, containerSizes: {} }),
+  ]);
+  const valueByKey = new Map(assetValues.map((entry) => [`${entry.assetType}:${entry.assetId}`, entry.value]));
+
+  return {
+    viewName: view?.name ?? null,
+    nodes: nodes.map((node) => ({
+      id: node.id,
+      name: node.name,
+      category: node.category,
+      parentNodeId: node.parentNodeId,
+      assetValue: valueByKey.get(`Node:${node.id}`) ?? null,
+      dataObjectCount: node._count.dataComponents,
+    })),
+    edges: edges.map((edge) => ({
+      id: edge.id,
+      name: edge.name,
+      sourceNodeId: edge.sourceNodeId,
+      targetNodeId: edge.targetNodeId,
+      direction: edge.direction,
+      assetValue: valueByKey.get(`Edge:${edge.id}`) ?? null,
+      dataObjectCount: edge._count.dataFlows,
+    })),
+    layout,
+  };
+}
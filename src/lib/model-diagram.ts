@@ -0,0 +1,411 @@
+/**
+ * Model Diagram
+ * Server-side drawing of the canonical model as SVG or TikZ figure from stored nodes, edges, containers and layout
+ */
+
+import {
+  COMPONENT_HEIGHT,
+  COMPONENT_WIDTH,
+  CONTAINER_HEADER,
+  CONTAINER_PADDING,
+  EMPTY_CONTAINER_HEIGHT,
+  EMPTY_CONTAINER_WIDTH,
+  computeAutoLayout,
+  isGlobalContainer,
+  isLayoutContainer,
+} from '@/lib/auto-layout-service';
+import type { DiagramLayout, NodePosition, NodeSize } from '@/lib/diagram-layout-service';
+
+export interface ModelDiagramNode {
+  id: string;
+  name: string;
+  category: string;
+  parentNodeId: string | null;
+  // Asset value (1-10), null when the node is not valued
+  assetValue: number | null;
+  dataObjectCount: number;
+}
+
+export interface ModelDiagramEdge {
+  id: string;
+  name: string | null;
+  sourceNodeId: string;
+  targetNodeId: string;
+  direction: string;
+  assetValue: number | null;
+  dataObjectCount: number;
+}
+
+export interface ModelDiagramSource {
+  nodes: ModelDiagramNode[];
+  edges: ModelDiagramEdge[];
+  layout: DiagramLayout;
+}
+
+export type DiagramRiskLevel = 'critical' | 'high' | 'medium' | 'low' | 'unrated';
+
+export const DIAGRAM_RISK_LEVELS: DiagramRiskLevel[] = ['critical', 'high', 'medium', 'low', 'unrated'];
+
+// Same value bands as the asset valuation (critical 8-10, high 6-7, medium 4-5, low 1-3)
+export const DIAGRAM_RISK_COLORS: Record<DiagramRiskLevel, { stroke: string; fill: string }> = {
+  critical: { stroke: '#dc2626', fill: '#fee2e2' },
+  high: { stroke: '#ea580c', fill: '#ffedd5' },
+  medium: { stroke: '#ca8a04', fill: '#fef9c3' },
+  low: { stroke: '#16a34a', fill: '#dcfce7' },
+  unrated: { stroke: '#64748b', fill: '#f1f5f9' },
+};
+
+export const DIAGRAM_BADGE_COLOR = '#0891b2';
+const CONTAINER_FILL = '#f8fafc';
+const TEXT_COLOR = '#0f172a';
+const MUTED_TEXT_COLOR = '#475569';
+
+const DIAGRAM_MARGIN = 20;
+const COMPONENT_LABEL_LENGTH = 24;
+const LINK_LABEL_LENGTH = 28;
+const BADGE_OFFSET = 16;
+// Text width of an A4 page with 2 cm margins, in pt
+const LATEX_LINE_WIDTH = 483;
+
+export const diagramRiskLevel = (value: number | null): DiagramRiskLevel => {
+  if (value === null) return 'unrated';
+  if (value >= 8) return 'critical';
+  if (value >= 6) return 'high';
+  if (value >= 4) return 'medium';
+  return 'low';
+};
+
+export interface DiagramBox {
+  id: string;
+  name: string;
+  category: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  // Number of enclosing containers
+  depth: number;
+  risk: DiagramRiskLevel;
+  dataObjectCount: number;
+}
+
+export interface DiagramLink {
+  id: string;
+  label: string | null;
+  source: NodePosition;
+  target: NodePosition;
+  direction: string;
+  risk: DiagramRiskLevel;
+  dataObjectCount: number;
+}
+
+export interface ModelDiagramScene {
+  width: number;
+  height: number;
+  // True when the stored layout did not cover every node and an automatic layout was used
+  autoLayout: boolean;
+  containers: DiagramBox[];
+  components: DiagramBox[];
+  links: DiagramLink[];
+}
+
+const round = (value: number): number => Math.round(value * 10) / 10;
+
+const truncate = (value: string, maxLength: number): string =>
+  value.length > maxLength ? `${value.slice(0, maxLength - 1).trimEnd()}...` : value;
+
+// Point where the line from the box center towards `toward` leaves the box
+const borderPoint = (box: DiagramBox, toward: NodePosition): NodePosition => {
+  const center = { x: box.x + box.width / 2, y: box.y + box.height / 2 };
+  const dx = toward.x - center.x;
+  const dy = toward.y - center.y;
+  if (dx === 0 && dy === 0) {
+    return center;
+  }
+  const scale = Math.min(
+    dx === 0 ? Infinity : box.width / 2 / Math.abs(dx),
+    dy === 0 ? Infinity : box.height / 2 / Math.abs(dy),
+    1
+  );
+  return { x: round(center.x + dx * scale), y: round(center.y + dy * scale) };
+};
+
+const linkArrows = (direction: string): { start: boolean; end: boolean } => ({
+  start: direction === 'B_TO_A' || direction === 'BIDIRECTIONAL',
+  end: direction !== 'B_TO_A',
+});
+
+/**
+ * Lays out the model for drawing. The stored positions of the view are used
+ * when they cover every node, otherwise the whole model is arranged with the
+ * layered auto layout so new nodes do not overlap. Containers without a
+ * stored size are fitted to their children. With `containerId` only that
+ * container and its content are included (detail diagram).
+ */
+export function buildModelDiagramScene(source: ModelDiagramSource, containerId?: string | null): ModelDiagramScene {
+  const visibleNodes = source.nodes.filter((node) => !isGlobalContainer(node));
+  const containerIds = new Set(visibleNodes.filter(isLayoutContainer).map((node) => node.id));
+  const parentOf = new Map(
+    visibleNodes.map((node) => [
+      node.id,
+      node.parentNodeId && containerIds.has(node.parentNodeId) ? node.parentNodeId : null,
+    ])
+  );
+  const autoLayout = visibleNodes.some((node) => !source.layout.nodePositions[node.id]);
+  const layout = autoLayout
+    ? computeAutoLayout(source.nodes, source.edges, { algorithm: 'layered' })
+    : source.layout;
+
+  const ancestorsOf = (nodeId: string): string[] => {
+    const ancestors: string[] = [];
+    let current = parentOf.get(nodeId) ?? null;
+    while (current && !ancestors.includes(current)) {
+      ancestors.push(current);
+      current = parentOf.get(current) ?? null;
+    }
+    return ancestors;
+  };
+  const positionOf = (nodeId: string): NodePosition => layout.nodePositions[nodeId] ?? { x: 0, y: 0 };
+
+  const sizes = new Map<string, NodeSize>();
+  const sizeOf = (nodeId: string, visiting: Set<string>): NodeSize => {
+    if (!containerIds.has(nodeId)) {
+      return { width: COMPONENT_WIDTH, height: COMPONENT_HEIGHT };
+    }
+    const known = sizes.get(nodeId) ?? layout.containerSizes[nodeId];
+    if (known) {
+      return known;
+    }
+    const children = visibleNodes.filter((node) => parentOf.get(node.id) === nodeId && !visiting.has(node.id));
+    if (children.length === 0) {
+      return { width: EMPTY_CONTAINER_WIDTH, height: EMPTY_CONTAINER_HEIGHT };
+    }
+    const position = positionOf(nodeId);
+    let right = position.x + COMPONENT_WIDTH;
+    let bottom = position.y + CONTAINER_HEADER;
+    children.forEach((child) => {
+      const childPosition = positionOf(child.id);
+      const childSize = sizeOf(child.id, new Set([...visiting, nodeId]));
+      right = Math.max(right, childPosition.x + childSize.width);
+      bottom = Math.max(bottom, childPosition.y + childSize.height);
+    });
+    const size = { width: right - position.x + CONTAINER_PADDING, height: bottom - position.y + CONTAINER_PADDING };
+    sizes.set(nodeId, size);
+    return size;
+  };
+
+  const scopedNodes = containerId
+    ? visibleNodes.filter((node) => node.id === containerId || ancestorsOf(node.id).includes(containerId))
+    : visibleNodes;
+  const placed = scopedNodes.map((node) => ({ node, position: positionOf(node.id), size: sizeOf(node.id, new Set()) }));
+  const minX = Math.min(...placed.map((entry) => entry.position.x));
+  const minY = Math.min(...placed.map((entry) => entry.position.y));
+  const maxX = Math.max(...placed.map((entry) => entry.position.x + entry.size.width));
+  const maxY = Math.max(...placed.map((entry) => entry.position.y + entry.size.height));
+  const offsetX = placed.length > 0 ? DIAGRAM_MARGIN - minX : 0;
+  const offsetY = placed.length > 0 ? DIAGRAM_MARGIN - minY : 0;
+
+  const boxes: DiagramBox[] = placed.map(({ node, position, size }) => ({
+    id: node.id,
+    name: node.name,
+    category: node.category,
+    x: round(position.x + offsetX),
+    y: round(position.y + offsetY),
+    width: round(size.width),
+    height: round(size.height),
+    depth: ancestorsOf(node.id).length,
+    risk: diagramRiskLevel(node.assetValue),
+    dataObjectCount: node.dataObjectCount,
+  }));
+  const boxById = new Map(boxes.map((box) => [box.id, box]));
+
+  const links: DiagramLink[] = [];
+  source.edges.forEach((edge) => {
+    const sourceBox = boxById.get(edge.sourceNodeId);
+    const targetBox = boxById.get(edge.targetNodeId);
+    if (!sourceBox || !targetBox || sourceBox === targetBox) {
+      return;
+    }
+    const sourceCenter = { x: sourceBox.x + sourceBox.width / 2, y: sourceBox.y + sourceBox.height / 2 };
+    const targetCenter = { x: targetBox.x + targetBox.width / 2, y: targetBox.y + targetBox.height / 2 };
+    const name = edge.name?.trim();
+    links.push({
+      id: edge.id,
+      label: name ? truncate(name, LINK_LABEL_LENGTH) : null,
+      source: borderPoint(sourceBox, targetCenter),
+      target: borderPoint(targetBox, sourceCenter),
+      direction: edge.direction,
+      risk: diagramRiskLevel(edge.assetValue),
+      dataObjectCount: edge.dataObjectCount,
+    });
+  });
+
+  return {
+    width: placed.length > 0 ? round(maxX - minX + 2 * DIAGRAM_MARGIN) : 2 * DIAGRAM_MARGIN,
+    height: placed.length > 0 ? round(maxY - minY + 2 * DIAGRAM_MARGIN) : 2 * DIAGRAM_MARGIN,
+    autoLayout,
+    containers: boxes
+      .filter((box) => containerIds.has(box.id))
+      .sort((a, b) => a.depth - b.depth || a.name.localeCompare(b.name)),
+    components: boxes.filter((box) => !containerIds.has(box.id)),
+    links,
+  };
+}
+
+const linkMidpoint = (link: DiagramLink): NodePosition => ({
+  x: round((link.source.x + link.target.x) / 2),
+  y: round((link.source.y + link.target.y) / 2),
+});
+
+const escapeXml = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const svgBadge = (x: number, y: number, count: number): string =>
+  `<circle cx="${x}" cy="${y}" r="11" fill="${DIAGRAM_BADGE_COLOR}"/>` +
+  `<text x="${x}" y="${round(y + 4)}" text-anchor="middle" font-size="11" font-weight="bold" fill="#ffffff">${count}</text>`;
+
+/**
+ * Standalone SVG document of a scene. Assets are colored by asset value;
+ * the cyan badges count the data objects of a component or interface.
+ */
+export function renderModelDiagramSvg(scene: ModelDiagramScene): string {
+  const markers = DIAGRAM_RISK_LEVELS.map(
+    (level) =>
+      `<marker id="arrow-${level}" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="7" markerHeight="7" orient="auto-start-reverse">` +
+      `<path d="M0,0 L10,5 L0,10 z" fill="${DIAGRAM_RISK_COLORS[level].stroke}"/></marker>`
+  ).join('');
+
+  const containers = scene.containers.map(
+    (box) =>
+      `<rect x="${box.x}" y="${box.y}" width="${box.width}" height="${box.height}" rx="10" fill="${CONTAINER_FILL}" ` +
+      `stroke="${DIAGRAM_RISK_COLORS[box.risk].stroke}" stroke-width="2" stroke-dasharray="8 4"/>` +
+      `<text x="${round(box.x + 14)}" y="${round(box.y + 26)}" font-size="16" font-weight="bold" fill="${TEXT_COLOR}">${escapeXml(
+        truncate(box.name, Math.floor(box.width / 10))
+      )}</text>` +
+      `<text x="${round(box.x + 14)}" y="${round(box.y + 46)}" font-size="12" fill="${MUTED_TEXT_COLOR}">${escapeXml(
+        box.category
+      )}</text>` +
+      (box.dataObjectCount > 0
+        ? svgBadge(round(box.x + box.width - BADGE_OFFSET), round(box.y + BADGE_OFFSET), box.dataObjectCount)
+        : '')
+  );
+
+  const links = scene.links.map((link) => {
+    const arrows = linkArrows(link.direction);
+    const middle = linkMidpoint(link);
+    return (
+      `<line x1="${link.source.x}" y1="${link.source.y}" x2="${link.target.x}" y2="${link.target.y}" ` +
+      `stroke="${DIAGRAM_RISK_COLORS[link.risk].stroke}" stroke-width="2"` +
+      `${arrows.start ? ` marker-start="url(#arrow-${link.risk})"` : ''}` +
+      `${arrows.end ? ` marker-end="url(#arrow-${link.risk})"` : ''}/>` +
+      (link.label
+        ? `<text x="${middle.x}" y="${round(middle.y - 8)}" text-anchor="middle" font-size="12" fill="${TEXT_COLOR}" ` +
+          `stroke="#ffffff" stroke-width="4" paint-order="stroke">${escapeXml(link.label)}</text>`
+        : '') +
+      (link.dataObjectCount > 0
+        ? svgBadge(middle.x, link.label ? round(middle.y + 10) : middle.y, link.dataObjectCount)
+        : '')
+    );
+  });
+
+  const components = scene.components.map(
+    (box) =>
+      `<rect x="${box.x}" y="${box.y}" width="${box.width}" height="${box.height}" rx="10" ` +
+      `fill="${DIAGRAM_RISK_COLORS[box.risk].fill}" stroke="${DIAGRAM_RISK_COLORS[box.risk].stroke}" stroke-width="2"/>` +
+      `<text x="${round(box.x + box.width / 2)}" y="${round(box.y + box.height / 2 - 2)}" text-anchor="middle" font-size="14" ` +
+      `font-weight="bold" fill="${TEXT_COLOR}">${escapeXml(truncate(box.name, COMPONENT_LABEL_LENGTH))}</text>` +
+      `<text x="${round(box.x + box.width / 2)}" y="${round(box.y + box.height / 2 + 18)}" text-anchor="middle" font-size="12" ` +
+      `fill="${MUTED_TEXT_COLOR}">${escapeXml(box.category)}</text>` +
+      (box.dataObjectCount > 0
+        ? svgBadge(round(box.x + box.width - BADGE_OFFSET), round(box.y + BADGE_OFFSET), box.dataObjectCount)
+        : '')
+  );
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${scene.width}" height="${scene.height}" ` +
+      `viewBox="0 0 ${scene.width} ${scene.height}" font-family="Helvetica, Arial, sans-serif">`,
+    `<defs>${markers}</defs>`,
+    '<rect width="100%" height="100%" fill="#ffffff"/>',
+    ...containers,
+    ...links,
+    ...components,
+    '</svg>',
+  ].join('\n');
+}
+
+const tikzColor = (hex: string): string => hex.slice(1).toUpperCase();
+
+const tikzBadge = (x: number, y: number, count: number): string =>
+  String.raw`\node[circle, fill=diagrambadge, text=white, inner sep=0pt, minimum size=22pt, font=\sffamily\footnotesize\bfseries] at (${x},${y}) {${count}};`;
+
+/**
+ * TikZ figure of a scene for the LaTeX report, scaled to the line width but
+ * never enlarged and at most `maxHeightRatio` line widths tall. Needs the
+ * tikz and graphicx packages. Text is passed through `escape`.
+ */
+export function renderModelDiagramTikz(
+  scene: ModelDiagramScene,
+  escape: (value: string) => string,
+  maxHeightRatio = 1.25
+): string {
+  const ratio = Math.min(1, scene.width / LATEX_LINE_WIDTH, (maxHeightRatio * scene.width) / scene.height);
+  const colors = [
+    ...DIAGRAM_RISK_LEVELS.flatMap((level) => [
+      String.raw`\definecolor{diagram${level}stroke}{HTML}{${tikzColor(DIAGRAM_RISK_COLORS[level].stroke)}}`,
+      String.raw`\definecolor{diagram${level}fill}{HTML}{${tikzColor(DIAGRAM_RISK_COLORS[level].fill)}}`,
+    ]),
+    String.raw`\definecolor{diagramcontainer}{HTML}{${tikzColor(CONTAINER_FILL)}}`,
+    String.raw`\definecolor{diagrammuted}{HTML}{${tikzColor(MUTED_TEXT_COLOR)}}`,
+    String.raw`\definecolor{diagrambadge}{HTML}{${tikzColor(DIAGRAM_BADGE_COLOR)}}`,
+  ];
+
+  const containers = scene.containers.flatMap((box) => [
+    String.raw`\draw[draw=diagram${box.risk}stroke, fill=diagramcontainer, rounded corners=10pt, line width=1.5pt, dashed] (${box.x},${box.y}) rectangle (${round(box.x + box.width)},${round(box.y + box.height)});`,
+    String.raw`\node[anchor=north west, font=\sffamily\large\bfseries] at (${round(box.x + 10)},${round(box.y + 8)}) {${escape(
+      truncate(box.name, Math.floor(box.width / 10))
+    )}};`,
+    String.raw`\node[anchor=north west, font=\sffamily\small, text=diagrammuted] at (${round(box.x + 10)},${round(box.y + 30)}) {${escape(box.category)}};`,
+    ...(box.dataObjectCount > 0
+      ? [tikzBadge(round(box.x + box.width - BADGE_OFFSET), round(box.y + BADGE_OFFSET), box.dataObjectCount)]
+      : []),
+  ]);
+
+  const links = scene.links.flatMap((link) => {
+    const arrows = linkArrows(link.direction);
+    const tips = `${arrows.start ? '<' : ''}-${arrows.end ? '>' : ''}`;
+    const middle = linkMidpoint(link);
+    return [
+      String.raw`\draw[draw=diagram${link.risk}stroke, line width=1.5pt, >=stealth, ${tips}] (${link.source.x},${link.source.y}) -- (${link.target.x},${link.target.y});`,
+      ...(link.label
+        ? [
+            String.raw`\node[fill=white, fill opacity=0.85, text opacity=1, inner sep=2pt, font=\sffamily\small] at (${middle.x},${round(
+              middle.y - 10
+            )}) {${escape(link.label)}};`,
+          ]
+        : []),
+      ...(link.dataObjectCount > 0
+        ? [tikzBadge(middle.x, link.label ? round(middle.y + 12) : middle.y, link.dataObjectCount)]
+        : []),
+    ];
+  });
+
+  const components = scene.components.flatMap((box) => [
+    String.raw`\draw[draw=diagram${box.risk}stroke, fill=diagram${box.risk}fill, rounded corners=10pt, line width=1.5pt] (${box.x},${box.y}) rectangle (${round(box.x + box.width)},${round(box.y + box.height)});`,
+    String.raw`\node[align=center, text width=${round(box.width - 24)}pt, font=\sffamily] at (${round(box.x + box.width / 2)},${round(
+      box.y + box.height / 2
+    )}) {\textbf{${escape(truncate(box.name, COMPONENT_LABEL_LENGTH))}}\\{\small\color{diagrammuted}${escape(box.category)}}};`,
+    ...(box.dataObjectCount > 0
+      ? [tikzBadge(round(box.x + box.width - BADGE_OFFSET), round(box.y + BADGE_OFFSET), box.dataObjectCount)]
+      : []),
+  ]);
+
+  return [
+    String.raw`\resizebox{${ratio.toFixed(3)}\linewidth}{!}{%`,
+    String.raw`\begin{tikzpicture}[x=1pt, y=-1pt]`,
+    ...colors,
+    ...containers,
+    ...links,
+    ...components,
+    String.raw`\end{tikzpicture}}`,
+  ].join('\n');
+}
@@ -0,0 +1,747 @@
+/**
+ * Model Snapshot Service
+ * Snapshot format of the canonical model, structured diffs between snapshots and selective restore of elements
+ */
+
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { getDiagramLayout, resolveDiagramView, saveDiagramLayout } from '@/lib/diagram-layout-service';
+import { relinkFindingTargets } from '@/lib/risk-service';
+
+// Compares a savepoint with the current state of the project instead of another savepoint
+export const LIVE_MODEL_REF = 'live';
+
+const SnapshotNodeSchema = z.object({
+  id: z.string().optional(),
+  stableId: z.string().optional(),
+  name: z.string().min(1),
+  category: z.string().optional(),
+  description: z.string().nullable().optional(),
+  notes: z.string().nullable().optional(),
+  parentNodeId: z.string().nullable().optional(),
+  zoneId: z.string().nullable().optional(),
+  capabilitySecurityLevel: z.number().int().nullable().optional(),
+});
+
+const SnapshotZoneSchema = z.object({
+  id: z.string().optional(),
+  name: z.string().min(1),
+  description: z.string().nullable().optional(),
+  targetSecurityLevel: z.number().optional(),
+  color: z.string().nullable().optional(),
+});
+
+const SnapshotEdgeSchema = z.object({
+  id: z.string().optional(),
+  sourceNodeId: z.string(),
+  targetNodeId: z.string(),
+  sourceHandleId: z.string().nullable().optional(),
+  targetHandleId: z.string().nullable().optional(),
+  name: z.string().nullable().optional(),
+  direction: z.string().optional(),
+  protocol: z.string().nullable().optional(),
+  description: z.string().nullable().optional(),
+  notes: z.string().nullable().optional(),
+});
+
+const SnapshotDataObjectSchema = z.object({
+  id: z.string().optional(),
+  name: z.string().min(1),
+  description: z.string().nullable().optional(),
+  dataClass: z.string().optional(),
+  confidentiality: z.number().optional(),
+  integrity: z.number().optional(),
+  availability: z.number().optional(),
+  tags: z.string().nullable().optional(),
+});
+
+const SnapshotComponentDataSchema = z.object({
+  id: z.string().optional(),
+  nodeId: z.string(),
+  dataObjectId: z.string(),
+  role: z.string().optional(),
+  notes: z.string().nullable().optional(),
+});
+
+const SnapshotEdgeDataFlowSchema = z.object({
+  id: z.string().optional(),
+  edgeId: z.string(),
+  dataObjectId: z.string(),
+  direction: z.string().optional(),
+  notes: z.string().nullable().optional(),
+});
+
+export const ModelSnapshotSchema = z.object({
+  version: z.number().optional(),
+  capturedAt: z.string().optional(),
+  nodes: z.array(SnapshotNodeSchema).default([]),
+  edges: z.array(SnapshotEdgeSchema).default([]),
+  // Snapshots captured before zones existed omit this list and leave current zones untouched.
+  zones: z.array(SnapshotZoneSchema).optional(),
+  dataObjects: z.array(SnapshotDataObjectSchema).default([]),
+  componentData: z.array(SnapshotComponentDataSchema).default([]),
+  edgeDataFlows: z.array(SnapshotEdgeDataFlowSchema).default([]),
+  nodePositions: z
+    .record(
+      z.object({
+        x: z.number(),
+        y: z.number(),
+      })
+    )
+    .default({}),
+  containerSizes: z
+    .record(
+      z.object({
+        width: z.number(),
+        height: z.number(),
+      })
+    )
+    .default({}),
+});
+
+export type ModelSnapshot = z.infer<typeof ModelSnapshotSchema>;
+
+export function normalizeNodeCategory(rawCategory: string | undefined): 'Container' | 'Component' {
+  const value = (rawCategory || '').trim().toLowerCase();
+  if (value === 'container' || value === 'system') {
+    return 'Container';
+  }
+  return 'Component';
+}
+
+export function normalizeEdgeDirection(rawDirection: string | undefined): 'A_TO_B' | 'B_TO_A' | 'BIDIRECTIONAL' {
+  const value = (rawDirection || '').trim().toUpperCase();
+  if (value === 'B_TO_A') return 'B_TO_A';
+  if (value === 'BIDIRECTIONAL') return 'BIDIRECTIONAL';
+  return 'A_TO_B';
+}
+
+export function normalizeComponentDataRole(rawRole: string | undefined): 'Stores' | 'Processes' | 'Generates' | 'Receives' {
+  const value = (rawRole || '').trim().toLowerCase();
+  if (value === 'processes') return 'Processes';
+  if (value === 'generates') return 'Generates';
+  if (value === 'receives') return 'Receives';
+  return 'Stores';
+}
+
+export function normalizeFlowDirection(rawDirection: string | undefined): 'SourceToTarget' | 'TargetToSource' | 'Bidirectional' {
+  const value = (rawDirection || '').trim().toLowerCase();
+  if (value === 'targettosource') return 'TargetToSource';
+  if (value === 'bidirectional') return 'Bidirectional';
+  return 'SourceToTarget';
+}
+
+export function clampCia(value: number | undefined): number {
+  if (!Number.isFinite(value)) return 5;
+  return Math.max(1, Math.min(10, Math.round(value as number)));
+}
+
+/**
+ * Current model of a project in snapshot format, with the layout of the
+ * given view (default view when omitted).
+ */
+export async function captureLiveModelSnapshot(projectId: string, viewId?: string | null): Promise<ModelSnapshot> {
+  const [nodes, edges, zones, dataObjects, componentData, edgeDataFlows, view] = await Promise.all([
+    prisma.modelNode.findMany({
+      where: { projectId },
+      select: {
+        id: true,
+        stableId: true,
+        name: true,
+        category: true,
+        description: true,
+        notes: true,
+        parentNodeId: true,
+        zoneId: true,
+        capabilitySecurityLevel: true,
+      },
+    }),
+    prisma.modelEdge.findMany({
+      where: { projectId },
+      select: {
+        id: true,
+        sourceNodeId: true,
+        targetNodeId: true,
+        sourceHandleId: true,
+        targetHandleId: true,
+        name: true,
+        direction: true,
+        protocol: true,
+        description: true,
+        notes: true,
+      },
+    }),
+    prisma.zone.findMany({
+      where: { projectId },
+      select: { id: true, name: true, description: true, targetSecurityLevel: true, color: true },
+    }),
+    prisma.dataObject.findMany({
+      where: { projectId },
+      select: {
+        id: true,
+        name: true,
+        description: true,
+        dataClass: true,
+        confidentiality: true,
+        integrity: true,
+        availability: true,
+        tags: true,
+      },
+    }),
+    prisma.componentData.findMany({
+      where: { node: { projectId } },
+      select: { id: true, nodeId: true, dataObjectId: true, role: true, notes: true },
+    }),
+    prisma.edgeDataFlow.findMany({
+      where: { edge: { projectId } },
+      select: { id: true, edgeId: true, dataObjectId: true, direction: true, notes: true },
+    }),
+    resolveDiagramView(projectId, viewId),
+  ]);
+  const layout = view ? await getDiagramLayout(view.id) : { nodePositions: {}, containerSizes: {} };
+
+  return {
+    capturedAt: new Date().toISOString(),
+    nodes,
+    edges,
+    zones,
+    dataObjects,
+    componentData,
+    edgeDataFlows,
+    nodePositions: layout.nodePositions,
+    containerSizes: layout.containerSizes,
+  };
+}
+
+/**
+ * Parsed snapshot of a savepoint, or null when the project has no such
+ * savepoint. Throws a SyntaxError or ZodError for corrupted snapshot data.
+ */
+export async function loadSavepointSnapshot(projectId: string, savepointId: string) {
+  const savepoint = await prisma.canonicalModelSavepoint.findFirst({
+    where: { id: savepointId, projectId },
+    select: { id: true, title: true, modelJson: true, createdAt: true },
+  });
+  if (!savepoint) {
+    return null;
+  }
+  const { modelJson, ...summary } = savepoint;
+  return { savepoint: summary, snapshot: ModelSnapshotSchema.parse(JSON.parse(modelJson)) };
+}
+
+// ============================================
+// DIFF
+// ============================================
+
+export type ModelDiffEntityType =
+  | 'node'
+  | 'edge'
+  | 'dataObject'
+  | 'zone'
+  | 'componentData'
+  | 'edgeDataFlow'
+  | 'placement';
+
+export type ModelDiffChange = 'added' | 'removed' | 'modified';
+
+type DiffValue = string | number | null;
+
+export interface ModelDiffEntry {
+  entityType: ModelDiffEntityType;
+  // Element id; mappings use "<nodeId|edgeId>::<dataObjectId>"
+  id: string;
+  label: string;
+  change: ModelDiffChange;
+  fields: string[];
+  before: Record<string, DiffValue> | null;
+  after: Record<string, DiffValue> | null;
+}
+
+export interface ModelDiff {
+  entries: ModelDiffEntry[];
+  summary: Record<ModelDiffEntityType, Record<ModelDiffChange, number>>;
+}
+
+const DIFF_ENTITY_TYPES: ModelDiffEntityType[] = [
+  'node',
+  'edge',
+  'dataObject',
+  'zone',
+  'componentData',
+  'edgeDataFlow',
+  'placement',
+];
+
+// Layout moves below this distance are rounding noise
+const PLACEMENT_TOLERANCE = 0.5;
+
+const normalizeDiffValue = (value: unknown): DiffValue => {
+  if (value === undefined || value === null || value === '') return null;
+  return typeof value === 'number' ? value : String(value);
+};
+
+const pickFields = (record: Record<string, unknown>, fields: string[]): Record<string, DiffValue> =>
+  Object.fromEntries(fields.map((field) => [field, normalizeDiffValue(record[field])]));
+
+function diffCollection<T extends Record<string, unknown>>(
+  entityType: ModelDiffEntityType,
+  before: T[],
+  after: T[],
+  keyOf: (record: T) => string | null,
+  labelOf: (record: T) => string,
+  fields: string[]
+): ModelDiffEntry[] {
+  const beforeByKey = new Map<string, T>();
+  before.forEach((record) => {
+    const key = keyOf(record);
+    if (key) beforeByKey.set(key, record);
+  });
+  const afterByKey = new Map<string, T>();
+  after.forEach((record) => {
+    const key = keyOf(record);
+    if (key) afterByKey.set(key, record);
+  });
+
+  const entries: ModelDiffEntry[] = [];
+  afterByKey.forEach((record, key) => {
+    const previous = beforeByKey.get(key);
+    const next = pickFields(record, fields);
+    if (!previous) {
+      entries.push({ entityType, id: key, label: labelOf(record), change: 'added', fields: [], before: null, after: next });
+      return;
+    }
+    const prior = pickFields(previous, fields);
+    const changed = fields.filter((field) => prior[field] !== next[field]);
+    if (changed.length > 0) {
+      entries.push({ entityType, id: key, label: labelOf(record), change: 'modified', fields: changed, before: prior, after: next });
+    }
+  });
+  beforeByKey.forEach((record, key) => {
+    if (!afterByKey.has(key)) {
+      entries.push({
+        entityType,
+        id: key,
+        label: labelOf(record),
+        change: 'removed',
+        fields: [],
+        before: pickFields(record, fields),
+        after: null,
+      });
+    }
+  });
+  return entries;
+}
+
+/**
+ * Added, removed and modified elements between two snapshots. Elements are
+ * matched by id (mappings by their node/edge and data object), so a restored
+ * savepoint compares cleanly with the snapshot it came from.
+ */
+export function diffModelSnapshots(before: ModelSnapshot, after: ModelSnapshot): ModelDiff {
+  const nodeNames = new Map<string, string>();
+  [...before.nodes, ...after.nodes].forEach((node) => node.id && nodeNames.set(node.id, node.name));
+  const dataObjectNames = new Map<string, string>();
+  [...before.dataObjects, ...after.dataObjects].forEach(
+    (dataObject) => dataObject.id && dataObjectNames.set(dataObject.id, dataObject.name)
+  );
+  const edgeLabels = new Map<string, string>();
+  const edgeLabel = (edge: ModelSnapshot['edges'][number]) =>
+    edge.name ||
+    `${nodeNames.get(edge.sourceNodeId) || edge.sourceNodeId} → ${nodeNames.get(edge.targetNodeId) || edge.targetNodeId}`;
+  [...before.edges, ...after.edges].forEach((edge) => edge.id && edgeLabels.set(edge.id, edgeLabel(edge)));
+
+  const entries: ModelDiffEntry[] = [
+    ...diffCollection('node', before.nodes, after.nodes, (node) => node.id || null, (node) => node.name, [
+      'name',
+      'category',
+      'description',
+      'notes',
+      'parentNodeId',
+      'zoneId',
+      'capabilitySecurityLevel',
+    ]),
+    ...diffCollection('edge', before.edges, after.edges, (edge) => edge.id || null, edgeLabel, [
+      'sourceNodeId',
+      'targetNodeId',
+      'name',
+      'direction',
+      'protocol',
+      'description',
+      'notes',
+    ]),
+    ...diffCollection(
+      'dataObject',
+      before.dataObjects,
+      after.dataObjects,
+      (dataObject) => dataObject.id || null,
+      (dataObject) => dataObject.name,
+      ['name', 'description', 'dataClass', 'confidentiality', 'integrity', 'availability', 'tags']
+    ),
+    // Zones are only compared when both snapshots contain them
+    ...(before.zones && after.zones
+      ? diffCollection('zone', before.zones, after.zones, (zone) => zone.id || null, (zone) => zone.name, [
+          'name',
+          'description',
+          'targetSecurityLevel',
+          'color',
+        ])
+      : []),
+    ...diffCollection(
+      'componentData',
+      before.componentData,
+      after.componentData,
+      (mapping) => `${mapping.nodeId}::${mapping.dataObjectId}`,
+      (mapping) =>
+        `${nodeNames.get(mapping.nodeId) || mapping.nodeId} · ${dataObjectNames.get(mapping.dataObjectId) || mapping.dataObjectId}`,
+      ['role', 'notes']
+    ),
+    ...diffCollection(
+      'edgeDataFlow',
+      before.edgeDataFlows,
+      after.edgeDataFlows,
+      (flow) => `${flow.edgeId}::${flow.dataObjectId}`,
+      (flow) =>
+        `${edgeLabels.get(flow.edgeId) || flow.edgeId} · ${dataObjectNames.get(flow.dataObjectId) || flow.dataObjectId}`,
+      ['direction', 'notes']
+    ),
+  ];
+
+  // Placements of nodes that exist on both sides; added and removed nodes carry their own
+  const beforeNodeIds = new Set(before.nodes.map((node) => node.id).filter(Boolean));
+  after.nodes.forEach((node) => {
+    if (!node.id || !beforeNodeIds.has(node.id)) {
+      return;
+    }
+    const prior = { ...before.nodePositions[node.id], ...before.containerSizes[node.id] };
+    const next = { ...after.nodePositions[node.id], ...after.containerSizes[node.id] };
+    const changed = (['x', 'y', 'width', 'height'] as const).filter((field) => {
+      const previousValue = prior[field as keyof typeof prior];
+      const nextValue = next[field as keyof typeof next];
+      if (previousValue === undefined || nextValue === undefined) {
+        return false;
+      }
+      return Math.abs(previousValue - nextValue) > PLACEMENT_TOLERANCE;
+    });
+    if (changed.length > 0) {
+      entries.push({
+        entityType: 'placement',
+        id: node.id,
+        label: node.name,
+        change: 'modified',
+        fields: changed,
+        before: pickFields(prior, ['x', 'y', 'width', 'height']),
+        after: pickFields(next, ['x', 'y', 'width', 'height']),
+      });
+    }
+  });
+
+  const summary = Object.fromEntries(
+    DIFF_ENTITY_TYPES.map((entityType) => [entityType, { added: 0, removed: 0, modified: 0 }])
+  ) as ModelDiff['summary'];
+  entries.forEach((entry) => {
+    summary[entry.entityType][entry.change] += 1;
+  });
+
+  return { entries, summary };
+}
+
+// ============================================
+// SELECTIVE RESTORE
+// ============================================
+
+export interface SelectiveRestoreSelection {
+  nodeIds: string[];
+  edgeIds: string[];
+  dataObjectIds: string[];
+  // Also restore everything nested inside selected containers
+  includeChildren: boolean;
+}
+
+export interface SelectiveRestorePlan {
+  nodes: Array<{
+    id: string;
+    stableId: string;
+    name: string;
+    category: 'Container' | 'Component';
+    description: string | null;
+    notes: string | null;
+    parentNodeId: string | null;
+    zoneId: string | null;
+    capabilitySecurityLevel: number | null;
+    isNew: boolean;
+  }>;
+  edges: Array<{
+    id: string;
+    sourceNodeId: string;
+    targetNodeId: string;
+    sourceHandleId: string | null;
+    targetHandleId: string | null;
+    name: string | null;
+    direction: 'A_TO_B' | 'B_TO_A' | 'BIDIRECTIONAL';
+    protocol: string | null;
+    description: string | null;
+    notes: string | null;
+  }>;
+  dataObjects: Array<{
+    id: string;
+    name: string;
+    description: string | null;
+    dataClass: string;
+    confidentiality: number;
+    integrity: number;
+    availability: number;
+    tags: string | null;
+  }>;
+  componentData: Array<{
+    nodeId: string;
+    dataObjectId: string;
+    role: 'Stores' | 'Processes' | 'Generates' | 'Receives';
+    notes: string | null;
+  }>;
+  edgeDataFlows: Array<{
+    edgeId: string;
+    dataObjectId: string;
+    direction: 'SourceToTarget' | 'TargetToSource' | 'Bidirectional';
+    notes: string | null;
+  }>;
+  // Snapshot layout of nodes that do not exist anymore
+  nodePositions: Record<string, { x: number; y: number }>;
+  containerSizes: Record<string, { width: number; height: number }>;
+}
+
+const uniqueValue = (value: string, taken: Set<string>, format: (value: string, suffix: number) => string) => {
+  if (!taken.has(value.toLowerCase())) {
+    return value;
+  }
+  let suffix = 2;
+  while (taken.has(format(value, suffix).toLowerCase())) {
+    suffix += 1;
+  }
+  return format(value, suffix);
+};
+
+/**
+ * Decides which snapshot elements to write back into the live model. Selected
+ * elements overwrite their current version or come back with their old id.
+ * Interfaces and data mappings of restored elements follow when both ends
+ * exist after the restore; everything else in the live model is left alone.
+ */
+export function planSelectiveRestore(
+  snapshot: ModelSnapshot,
+  live: ModelSnapshot,
+  selection: SelectiveRestoreSelection
+): SelectiveRestorePlan {
+  const snapshotNodes = snapshot.nodes.filter((node): node is typeof node & { id: string } => Boolean(node.id));
+  const liveNodeById = new Map(live.nodes.map((node) => [node.id, node]));
+
+  const restoredNodeIds = new Set(
+    selection.nodeIds.filter((nodeId) => snapshotNodes.some((node) => node.id === nodeId))
+  );
+  if (selection.includeChildren) {
+    let added = true;
+    while (added) {
+      added = false;
+      snapshotNodes.forEach((node) => {
+        if (node.parentNodeId && restoredNodeIds.has(node.parentNodeId) && !restoredNodeIds.has(node.id)) {
+          restoredNodeIds.add(node.id);
+          added = true;
+        }
+      });
+    }
+  }
+  const finalNodeIds = new Set([...live.nodes.map((node) => node.id as string), ...restoredNodeIds]);
+
+  const liveZoneIds = new Set((live.zones || []).map((zone) => zone.id));
+  const takenStableIds = new Set(live.nodes.map((node) => (node.stableId || '').toLowerCase()));
+  const nodes = snapshotNodes
+    .filter((node) => restoredNodeIds.has(node.id))
+    .map((node) => {
+      const liveNode = liveNodeById.get(node.id);
+      if (liveNode?.stableId) {
+        takenStableIds.delete(liveNode.stableId.toLowerCase());
+      }
+      const stableId = uniqueValue(
+        (node.stableId || '').trim() || `restored_${node.id}`,
+        takenStableIds,
+        (value, suffix) => `${value}_${suffix}`
+      );
+      takenStableIds.add(stableId.toLowerCase());
+      return {
+        id: node.id,
+        stableId,
+        name: node.name.trim() || 'Restored Node',
+        category: normalizeNodeCategory(node.category),
+        description: node.description || null,
+        notes: node.notes || null,
+        parentNodeId:
+          node.parentNodeId && node.parentNodeId !== node.id && finalNodeIds.has(node.parentNodeId)
+            ? node.parentNodeId
+            : null,
+        zoneId: node.zoneId && liveZoneIds.has(node.zoneId) ? node.zoneId : null,
+        capabilitySecurityLevel: node.capabilitySecurityLevel ?? null,
+        isNew: !liveNode,
+      };
+    });
+
+  const liveDataObjectById = new Map(live.dataObjects.map((dataObject) => [dataObject.id, dataObject]));
+  const restoredDataObjectIds = new Set(
+    selection.dataObjectIds.filter((dataObjectId) => snapshot.dataObjects.some((item) => item.id === dataObjectId))
+  );
+  const takenDataObjectNames = new Set(live.dataObjects.map((dataObject) => dataObject.name.toLowerCase()));
+  const dataObjects = snapshot.dataObjects
+    .filter((dataObject): dataObject is typeof dataObject & { id: string } =>
+      Boolean(dataObject.id && restoredDataObjectIds.has(dataObject.id))
+    )
+    .map((dataObject) => {
+      const liveDataObject = liveDataObjectById.get(dataObject.id);
+      if (liveDataObject) {
+        takenDataObjectNames.delete(liveDataObject.name.toLowerCase());
+      }
+      const name = uniqueValue(dataObject.name.trim() || 'Restored Data', takenDataObjectNames, (value, suffix) => `${value} (${suffix})`);
+      takenDataObjectNames.add(name.toLowerCase());
+      return {
+        id: dataObject.id,
+        name,
+        description: dataObject.description || null,
+        dataClass: dataObject.dataClass || 'Other',
+        confidentiality: clampCia(dataObject.confidentiality),
+        integrity: clampCia(dataObject.integrity),
+        availability: clampCia(dataObject.availability),
+        tags: dataObject.tags || null,
+      };
+    });
+  const finalDataObjectIds = new Set([...live.dataObjects.map((dataObject) => dataObject.id as string), ...restoredDataObjectIds]);
+
+  const selectedEdgeIds = new Set(selection.edgeIds);
+  const liveEdgeIds = new Set(live.edges.map((edge) => edge.id));
+  const livePairs = new Map(live.edges.map((edge) => [`${edge.sourceNodeId}::${edge.targetNodeId}`, edge.id]));
+  const edges = snapshot.edges
+    .filter((edge): edge is typeof edge & { id: string } => {
+      if (!edge.id || edge.sourceNodeId === edge.targetNodeId) return false;
+      const isRequested =
+        selectedEdgeIds.has(edge.id) || restoredNodeIds.has(edge.sourceNodeId) || restoredNodeIds.has(edge.targetNodeId);
+      if (!isRequested || !finalNodeIds.has(edge.sourceNodeId) || !finalNodeIds.has(edge.targetNodeId)) return false;
+      // Another interface between the same nodes already took its place
+      const pairOwner = livePairs.get(`${edge.sourceNodeId}::${edge.targetNodeId}`);
+      return !pairOwner || pairOwner === edge.id;
+    })
+    .map((edge) => ({
+      id: edge.id,
+      sourceNodeId: edge.sourceNodeId,
+      targetNodeId: edge.targetNodeId,
+      sourceHandleId: edge.sourceHandleId || null,
+      targetHandleId: edge.targetHandleId || null,
+      name: edge.name || null,
+      direction: normalizeEdgeDirection(edge.direction),
+      protocol: edge.protocol || null,
+      description: edge.description || null,
+      notes: edge.notes || null,
+    }));
+  const restoredEdgeIds = new Set(edges.map((edge) => edge.id));
+  const finalEdgeIds = new Set([...liveEdgeIds, ...restoredEdgeIds]);
+
+  const componentData = snapshot.componentData
+    .filter(
+      (mapping) =>
+        (restoredNodeIds.has(mapping.nodeId) || restoredDataObjectIds.has(mapping.dataObjectId)) &&
+        finalNodeIds.has(mapping.nodeId) &&
+        finalDataObjectIds.has(mapping.dataObjectId)
+    )
+    .map((mapping) => ({
+      nodeId: mapping.nodeId,
+      dataObjectId: mapping.dataObjectId,
+      role: normalizeComponentDataRole(mapping.role),
+      notes: mapping.notes || null,
+    }));
+
+  const edgeDataFlows = snapshot.edgeDataFlows
+    .filter(
+      (flow) =>
+        (restoredEdgeIds.has(flow.edgeId) || restoredDataObjectIds.has(flow.dataObjectId)) &&
+        finalEdgeIds.has(flow.edgeId) &&
+        finalDataObjectIds.has(flow.dataObjectId)
+    )
+    .map((flow) => ({
+      edgeId: flow.edgeId,
+      dataObjectId: flow.dataObjectId,
+      direction: normalizeFlowDirection(flow.direction),
+      notes: flow.notes || null,
+    }));
+
+  const nodePositions: SelectiveRestorePlan['nodePositions'] = {};
+  const containerSizes: SelectiveRestorePlan['containerSizes'] = {};
+  nodes
+    .filter((node) => node.isNew)
+    .forEach((node) => {
+      if (snapshot.nodePositions[node.id]) nodePositions[node.id] = snapshot.nodePositions[node.id];
+      if (snapshot.containerSizes[node.id]) containerSizes[node.id] = snapshot.containerSizes[node.id];
+    });
+
+  return { nodes, edges, dataObjects, componentData, edgeDataFlows, nodePositions, containerSizes };
+}
+
+/**
+ * Writes a selective restore plan into the project. Nodes are written before
+ * their parents are linked so nested subsystems can come back in any order.
+ */
+export async function applySelectiveRestore(projectId: string, plan: SelectiveRestorePlan, userId: string) {
+  await prisma.$transaction(async (tx) => {
+    for (const node of plan.nodes) {
+      const data = {
+        stableId: node.stableId,
+        name: node.name,
+        category: node.category,
+        description: node.description,
+        notes: node.notes,
+        zoneId: node.zoneId,
+        capabilitySecurityLevel: node.capabilitySecurityLevel,
+        updatedByUserId: userId,
+      };
+      await tx.modelNode.upsert({
+        where: { id: node.id },
+        update: data,
+        create: { id: node.id, projectId, ...data, createdByUserId: userId },
+      });
+    }
+    for (const node of plan.nodes) {
+      await tx.modelNode.update({ where: { id: node.id }, data: { parentNodeId: node.parentNodeId } });
+    }
+
+    for (const dataObject of plan.dataObjects) {
+      const { id, ...data } = dataObject;
+      await tx.dataObject.upsert({ where: { id }, update: data, create: { id, projectId, ...data } });
+    }
+
+    for (const edge of plan.edges) {
+      const { id, ...data } = edge;
+      await tx.modelEdge.upsert({
+        where: { id },
+        update: data,
+        create: { id, projectId, ...data, createdByUserId: userId },
+      });
+    }
+
+    for (const mapping of plan.componentData) {
+      await tx.componentData.upsert({
+        where: { nodeId_dataObjectId: { nodeId: mapping.nodeId, dataObjectId: mapping.dataObjectId } },
+        update: { role: mapping.role, notes: mapping.notes },
+        create: mapping,
+      });
+    }
+    for (const flow of plan.edgeDataFlows) {
+      await tx.edgeDataFlow.upsert({
+        where: { edgeId_dataObjectId: { edgeId: flow.edgeId, dataObjectId: flow.dataObjectId } },
+        update: { direction: flow.direction, notes: flow.notes },
+        create: flow,
+      });
+    }
+
+    await relinkFindingTargets(tx, projectId);
+  });
+
+  // Recovered nodes come back where they were in every view
+  const views = await prisma.diagramView.findMany({ where: { projectId }, select: { id: true } });
+  for (const view of views) {
+    await saveDiagramLayout(projectId, view.id, { nodePositions: plan.nodePositions, containerSizes: plan.containerSizes });
+  }
+}
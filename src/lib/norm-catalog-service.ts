@@ -0,0 +1,537 @@
+/**
+ * Norm Catalog Service
+ * Imports OSCAL catalogs/profiles into versioned norm catalogs, keeps the central
+ * catalog library per project norm and syncs project question sets against it
+ */
+
+import { readdir, readFile } from 'fs/promises';
+import path from 'path';
+import { prisma } from '@/lib/prisma';
+import { parseOscalDocument, selectProfileControls } from '@/lib/oscal-catalog';
+import type { OscalControl, OscalDocumentMetadata } from '@/lib/oscal-catalog';
+import { parseProjectNorms, PROJECT_NORMS } from '@/lib/project-norm';
+
+export const NORM_STANDARDS_ROOT = path.join(process.cwd(), 'standards');
+
+// Catalog files dropped into this directory are imported by the admin directory sync. The bundled files
+// also fill an empty library, see ensureNormCatalogLibrary.
+export const NORM_CATALOG_DIRECTORY = path.join(NORM_STANDARDS_ROOT, 'catalogs');
+
+export interface ResolvedNormCatalog {
+  metadata: OscalDocumentMetadata;
+  sourceType: 'catalog' | 'profile';
+  controls: OscalControl[];
+}
+
+export interface CatalogQuestionFields {
+  text: string;
+  normReference: string;
+  targetType: string;
+  riskDescription: string | null;
+  applicability: string | null;
+  defaultMeasures: string | null;
+}
+
+export interface CatalogControlSnapshot {
+  oscalId: string;
+  controlId: string;
+  title: string;
+  statement: string | null;
+  questionText: string;
+  targetType: string;
+  applicability: string | null;
+  defaultMeasures: string | null;
+}
+
+export interface LinkedQuestionSnapshot extends CatalogQuestionFields {
+  id: string;
+  catalogControlKey: string | null;
+  answerCount: number;
+}
+
+export type CatalogQuestionDiffStatus = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export interface CatalogQuestionDiffEntry {
+  status: CatalogQuestionDiffStatus;
+  controlKey: string;
+  controlId: string;
+  title: string;
+  questionId: string | null;
+  currentText: string | null;
+  latestText: string | null;
+  changedFields: Array<keyof CatalogQuestionFields>;
+  localModified: boolean;
+  answerCount: number;
+}
+
+const QUESTION_FIELD_KEYS: Array<keyof CatalogQuestionFields> = [
+  'text',
+  'normReference',
+  'targetType',
+  'riskDescription',
+  'applicability',
+  'defaultMeasures',
+];
+
+const LIBRARY_PROJECT_NORMS = PROJECT_NORMS.filter((norm) => norm !== 'None');
+
+export function toLibraryProjectNorm(value: string | null | undefined): string | null {
+  const normalized = (value || '').trim();
+  return LIBRARY_PROJECT_NORMS.find((norm) => norm === normalized) || null;
+}
+
+export function toCatalogQuestionFields(control: CatalogControlSnapshot): CatalogQuestionFields {
+  return {
+    text: control.questionText,
+    normReference: control.controlId,
+    targetType: control.targetType,
+    riskDescription: control.statement,
+    applicability: control.applicability,
+    defaultMeasures: control.defaultMeasures,
+  };
+}
+
+const differingFields = (left: CatalogQuestionFields, right: CatalogQuestionFields): Array<keyof CatalogQuestionFields> =>
+  QUESTION_FIELD_KEYS.filter((key) => (left[key] ?? null) !== (right[key] ?? null));
+
+/**
+ * Compares the questions a project pulled for one norm with the latest library
+ * catalog. "changed" means the catalog changed since the version the project was
+ * synced to; "localModified" means the question was edited in the project.
+ */
+export function diffQuestionSet(
+  questions: LinkedQuestionSnapshot[],
+  baseControls: CatalogControlSnapshot[],
+  latestControls: CatalogControlSnapshot[]
+): CatalogQuestionDiffEntry[] {
+  const baseByKey = new Map(baseControls.map((control) => [control.oscalId, control]));
+  const latestKeys = new Set(latestControls.map((control) => control.oscalId));
+  const questionByKey = new Map<string, LinkedQuestionSnapshot>();
+  for (const question of questions) {
+    if (question.catalogControlKey && !questionByKey.has(question.catalogControlKey)) {
+      questionByKey.set(question.catalogControlKey, question);
+    }
+  }
+
+  const entries: CatalogQuestionDiffEntry[] = latestControls.map((control) => {
+    const question = questionByKey.get(control.oscalId);
+    const latestFields = toCatalogQuestionFields(control);
+    if (!question) {
+      return {
+        status: 'added',
+        controlKey: control.oscalId,
+        controlId: control.controlId,
+        title: control.title,
+        questionId: null,
+        currentText: null,
+        latestText: latestFields.text,
+        changedFields: [],
+        localModified: false,
+        answerCount: 0,
+      };
+    }
+
+    const baseControl = baseByKey.get(control.oscalId);
+    const baseFields = baseControl ? toCatalogQuestionFields(baseControl) : question;
+    const changedFields = differingFields(baseFields, latestFields);
+    return {
+      status: changedFields.length > 0 ? 'changed' : 'unchanged',
+      controlKey: control.oscalId,
+      controlId: control.controlId,
+      title: control.title,
+      questionId: question.id,
+      currentText: question.text,
+      latestText: latestFields.text,
+      changedFields,
+      localModified: differingFields(baseFields, question).length > 0,
+      answerCount: question.answerCount,
+    };
+  });
+
+  for (const [controlKey, question] of Array.from(questionByKey.entries())) {
+    if (latestKeys.has(controlKey)) {
+      continue;
+    }
+    entries.push({
+      status: 'removed',
+      controlKey,
+      controlId: question.normReference,
+      title: baseByKey.get(controlKey)?.title || question.normReference,
+      questionId: question.id,
+      currentText: question.text,
+      latestText: null,
+      changedFields: [],
+      localModified: false,
+      answerCount: question.answerCount,
+    });
+  }
+
+  return entries;
+}
+
+const resolveStandardsPath = (basePath: string, relativePath: string): string => {
+  const resolved = path.resolve(basePath, relativePath);
+  if (resolved !== NORM_STANDARDS_ROOT && !resolved.startsWith(`${NORM_STANDARDS_ROOT}${path.sep}`)) {
+    throw new Error('Catalog path must be inside the standards directory');
+  }
+  return resolved;
+};
+
+const readJsonFile = async (filePath: string): Promise<unknown> => JSON.parse(await readFile(filePath, 'utf8'));
+
+/**
+ * Profiles are resolved against the catalogs they import. Relative hrefs are
+ * looked up next to the profile file (or in the drop-in directory for uploads).
+ */
+export async function resolveOscalDocument(raw: unknown, baseDirectory: string): Promise<ResolvedNormCatalog> {
+  const parsed = parseOscalDocument(raw);
+  if (parsed.kind === 'catalog') {
+    return { metadata: parsed.metadata, sourceType: 'catalog', controls: parsed.controls };
+  }
+
+  const controls: OscalControl[] = [];
+  const seenControlIds = new Set<string>();
+  for (const profileImport of parsed.imports) {
+    if (/^[a-z]+:\/\//i.test(profileImport.href) || profileImport.href.startsWith('#')) {
+      throw new Error(`Unsupported profile import reference: ${profileImport.href}`);
+    }
+
+    const catalogPath = resolveStandardsPath(baseDirectory, profileImport.href);
+    const importedDocument = parseOscalDocument(await readJsonFile(catalogPath));
+    if (importedDocument.kind !== 'catalog') {
+      throw new Error(`Profile import must reference a catalog: ${profileImport.href}`);
+    }
+
+    for (const control of selectProfileControls(profileImport, importedDocument.controls)) {
+      if (!seenControlIds.has(control.oscalId)) {
+        seenControlIds.add(control.oscalId);
+        controls.push(control);
+      }
+    }
+  }
+
+  return { metadata: parsed.metadata, sourceType: 'profile', controls };
+}
+
+export async function loadNormCatalogFile(relativePath: string): Promise<ResolvedNormCatalog> {
+  const filePath = resolveStandardsPath(NORM_STANDARDS_ROOT, relativePath);
+  return resolveOscalDocument(await readJsonFile(filePath), path.dirname(filePath));
+}
+
+export async function saveNormCatalog(
+  resolved: ResolvedNormCatalog,
+  options: { sourcePath?: string | null; importedByUserId?: string | null; projectNorm?: string | null } = {}
+) {
+  return prisma.$transaction(async (tx) => {
+    const catalog = await tx.normCatalog.create({
+      data: {
+        norm: resolved.metadata.norm,
+        title: resolved.metadata.title,
+        version: resolved.metadata.version,
+        projectNorm: toLibraryProjectNorm(options.projectNorm ?? resolved.metadata.projectNorm),
+        sourceType: resolved.sourceType,
+        sourcePath: options.sourcePath ?? null,
+        oscalUuid: resolved.metadata.uuid,
+        importedByUserId: options.importedByUserId ?? null,
+      },
+    });
+
+    if (resolved.controls.length > 0) {
+      await tx.normCatalogControl.createMany({
+        data: resolved.controls.map((control, index) => ({
+          catalogId: catalog.id,
+          oscalId: control.oscalId,
+          controlId: control.controlId,
+          title: control.title,
+          statement: control.statement,
+          groupTitle: control.groupTitle,
+          questionText: control.questionText,
+          targetType: control.targetType,
+          applicability: control.applicability,
+          defaultMeasures: control.defaultMeasures.length > 0 ? JSON.stringify(control.defaultMeasures) : null,
+          sortOrder: index,
+        })),
+      });
+    }
+
+    return catalog;
+  });
+}
+
+/**
+ * Imports every catalog file in the drop-in directory whose norm version is not
+ * known yet. Broken files are skipped so one bad file does not block the others.
+ * Runs on an explicit admin sync, on seeding and once for an empty library,
+ * never as a side effect of every read.
+ */
+export async function syncNormCatalogDirectory(
+  importedByUserId: string | null = null
+): Promise<Array<{ id: string; norm: string; version: string; controlCount: number }>> {
+  const imported: Array<{ id: string; norm: string; version: string; controlCount: number }> = [];
+  let fileNames: string[];
+  try {
+    fileNames = (await readdir(NORM_CATALOG_DIRECTORY)).filter((fileName) => fileName.toLowerCase().endsWith('.json'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return imported;
+    }
+    throw error;
+  }
+
+  for (const fileName of fileNames.sort()) {
+    const sourcePath = path.relative(NORM_STANDARDS_ROOT, path.join(NORM_CATALOG_DIRECTORY, fileName));
+    try {
+      const resolved = await loadNormCatalogFile(sourcePath);
+      const existing = await prisma.normCatalog.findUnique({
+        where: { norm_version: { norm: resolved.metadata.norm, version: resolved.metadata.version } },
+        select: { id: true },
+      });
+      if (!existing) {
+        const catalog = await saveNormCatalog(resolved, { sourcePath, importedByUserId });
+        imported.push({
+          id: catalog.id,
+          norm: catalog.norm,
+          version: catalog.version,
+          controlCount: resolved.controls.length,
+        });
+      }
+    } catch (error) {
+      console.warn(`Skipping norm catalog file ${sourcePath}:`, (error as Error).message);
+    }
+  }
+  return imported;
+}
+
+/**
+ * Fills an empty library from the catalog directory, so new projects on a
+ * fresh install get a question set. Once the library holds a catalog, the
+ * directory is only imported again by the admin sync.
+ */
+export async function ensureNormCatalogLibrary(
+  importedByUserId: string | null = null
+): Promise<Array<{ id: string; norm: string; version: string; controlCount: number }>> {
+  if ((await prisma.normCatalog.count()) > 0) {
+    return [];
+  }
+  return syncNormCatalogDirectory(importedByUserId);
+}
+
+/**
+ * Creates one question per selected catalog control. Controls whose ID is
+ * already used as a norm reference in the project are skipped.
+ */
+export async function createProjectQuestionsFromCatalog(
+  projectId: string,
+  catalogId: string,
+  oscalIds?: string[]
+): Promise<{ created: number; skipped: number } | null> {
+  const catalog = await prisma.normCatalog.findUnique({
+    where: { id: catalogId },
+    include: { controls: { orderBy: { sortOrder: 'asc' } } },
+  });
+  if (!catalog) {
+    return null;
+  }
+
+  const selectedIds = oscalIds ? new Set(oscalIds) : null;
+  const controls = catalog.controls.filter((control) => !selectedIds || selectedIds.has(control.oscalId));
+  const existingReferences = new Set(
+    (
+      await prisma.question.findMany({
+        where: { projectId },
+        select: { normReference: true },
+      })
+    ).map((question) => question.normReference)
+  );
+
+  const newControls = controls.filter((control) => !existingReferences.has(control.controlId));
+  if (newControls.length > 0) {
+    await prisma.question.createMany({
+      data: newControls.map((control) => ({
+        projectId,
+        ...toCatalogQuestionFields(control),
+        answerType: 'YesNo',
+        catalogId: catalog.id,
+        catalogControlKey: control.oscalId,
+      })),
+    });
+  }
+
+  return { created: newControls.length, skipped: controls.length - newControls.length };
+}
+
+/**
+ * The library entry of a project norm is its most recently imported catalog version.
+ */
+export async function getLibraryCatalog(projectNorm: string) {
+  return prisma.normCatalog.findFirst({
+    where: { projectNorm },
+    orderBy: { createdAt: 'desc' },
+    include: { controls: { orderBy: { sortOrder: 'asc' } } },
+  });
+}
+
+const loadLinkedQuestions = async (projectId: string, projectNorm: string): Promise<LinkedQuestionSnapshot[]> => {
+  const questions = await prisma.question.findMany({
+    where: { projectId, catalog: { projectNorm } },
+    include: { _count: { select: { answers: true } } },
+    orderBy: { createdAt: 'asc' },
+  });
+  return questions.map((question) => ({
+    id: question.id,
+    text: question.text,
+    normReference: question.normReference,
+    targetType: question.targetType,
+    riskDescription: question.riskDescription,
+    applicability: question.applicability,
+    defaultMeasures: question.defaultMeasures,
+    catalogControlKey: question.catalogControlKey,
+    answerCount: question._count.answers,
+  }));
+};
+
+export async function getProjectCatalogStatus(projectId: string, rawProjectNorm: string) {
+  const projectNorms = parseProjectNorms(rawProjectNorm).filter((norm) => toLibraryProjectNorm(norm) !== null);
+  const links = await prisma.projectNormCatalog.findMany({
+    where: { projectId },
+    include: { catalog: { include: { controls: { orderBy: { sortOrder: 'asc' } } } } },
+  });
+
+  return Promise.all(
+    projectNorms.map(async (projectNorm) => {
+      const link = links.find((entry) => entry.projectNorm === projectNorm) || null;
+      const latest = await getLibraryCatalog(projectNorm);
+      const questions = await loadLinkedQuestions(projectId, projectNorm);
+      const diff = latest
+        ? diffQuestionSet(questions, link ? link.catalog.controls : latest.controls, latest.controls)
+        : [];
+
+      return {
+        projectNorm,
+        linkedCatalog: link
+          ? { id: link.catalog.id, title: link.catalog.title, version: link.catalog.version, syncedAt: link.syncedAt }
+          : null,
+        latestCatalog: latest ? { id: latest.id, title: latest.title, version: latest.version } : null,
+        updateAvailable: Boolean(latest && (!link || link.catalogId !== latest.id || diff.some((entry) => entry.status === 'added'))),
+        diff,
+      };
+    })
+  );
+}
+
+export interface ProjectNormCatalogSyncResult {
+  catalogId: string;
+  version: string;
+  added: number;
+  updated: number;
+  removed: number;
+  skippedLocalChanges: number;
+  keptObsolete: number;
+}
+
+/**
+ * Pulls (first sync) or updates the question set of one project norm from the
+ * library. Locally edited questions and answered obsolete questions are kept
+ * unless the caller explicitly asks otherwise.
+ */
+export async function syncProjectNormCatalog(
+  projectId: string,
+  projectNorm: string,
+  options: { removeObsolete?: boolean; overwriteLocalChanges?: boolean } = {}
+): Promise<ProjectNormCatalogSyncResult | null> {
+  const latest = await getLibraryCatalog(projectNorm);
+  if (!latest) {
+    return null;
+  }
+
+  const link = await prisma.projectNormCatalog.findUnique({
+    where: { projectId_projectNorm: { projectId, projectNorm } },
+    include: { catalog: { include: { controls: true } } },
+  });
+  const questions = await loadLinkedQuestions(projectId, projectNorm);
+  const diff = diffQuestionSet(questions, link ? link.catalog.controls : latest.controls, latest.controls);
+  const latestByKey = new Map(latest.controls.map((control) => [control.oscalId, control]));
+
+  const result: ProjectNormCatalogSyncResult = {
+    catalogId: latest.id,
+    version: latest.version,
+    added: 0,
+    updated: 0,
+    removed: 0,
+    skippedLocalChanges: 0,
+    keptObsolete: 0,
+  };
+
+  await prisma.$transaction(async (tx) => {
+    const unlinkedQuestions = await tx.question.findMany({
+      where: { projectId, catalogId: null },
+      select: { id: true, normReference: true },
+    });
+
+    for (const entry of diff) {
+      const control = latestByKey.get(entry.controlKey);
+
+      if (entry.status === 'added' && control) {
+        // Questions created by hand with the same control ID are adopted instead of duplicated.
+        const adopted = unlinkedQuestions.find((question) => question.normReference === control.controlId);
+        if (adopted) {
+          await tx.question.update({
+            where: { id: adopted.id },
+            data: { catalogId: latest.id, catalogControlKey: control.oscalId },
+          });
+          unlinkedQuestions.splice(unlinkedQuestions.indexOf(adopted), 1);
+        } else {
+          await tx.question.create({
+            data: {
+              projectId,
+              ...toCatalogQuestionFields(control),
+              answerType: 'YesNo',
+              catalogId: latest.id,
+              catalogControlKey: control.oscalId,
+            },
+          });
+        }
+        result.added += 1;
+        continue;
+      }
+
+      if (entry.status === 'removed' && entry.questionId) {
+        if (options.removeObsolete && entry.answerCount === 0) {
+          await tx.question.delete({ where: { id: entry.questionId } });
+          result.removed += 1;
+        } else {
+          result.keptObsolete += 1;
+        }
+        continue;
+      }
+
+      if (!entry.questionId || !control) {
+        continue;
+      }
+
+      const applyCatalogFields =
+        entry.status === 'changed' && (!entry.localModified || options.overwriteLocalChanges);
+      if (entry.status === 'changed' && !applyCatalogFields) {
+        result.skippedLocalChanges += 1;
+      }
+      if (applyCatalogFields) {
+        result.updated += 1;
+      }
+
+      await tx.question.update({
+        where: { id: entry.questionId },
+        data: applyCatalogFields
+          ? { ...toCatalogQuestionFields(control), catalogId: latest.id }
+          : { catalogId: latest.id },
+      });
+    }
+
+    await tx.projectNormCatalog.upsert({
+      where: { projectId_projectNorm: { projectId, projectNorm } },
+      create: { projectId, projectNorm, catalogId: latest.id },
+      update: { catalogId: latest.id, syncedAt: new Date() },
+    });
+  });
+
+  return result;
+}
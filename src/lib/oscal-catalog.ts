@@ -0,0 +1,247 @@
+/**
+ * OSCAL Catalog Parser
+ * Reads OSCAL catalog and profile JSON documents into flat norm control lists
+ */
+
+export const SECUDO_OSCAL_NAMESPACE = 'urn:secudo:oscal';
+
+const QUESTION_TARGET_TYPES = ['Component', 'Edge', 'DataObject', 'Zone', 'Conduit', 'None'] as const;
+
+export type CatalogQuestionTargetType = (typeof QUESTION_TARGET_TYPES)[number];
+
+export interface OscalDocumentMetadata {
+  uuid: string | null;
+  title: string;
+  version: string;
+  norm: string;
+  projectNorm: string | null;
+}
+
+export interface CatalogMeasureTemplate {
+  title: string;
+  description: string;
+}
+
+export interface OscalControl {
+  oscalId: string;
+  controlId: string;
+  title: string;
+  statement: string | null;
+  groupTitle: string | null;
+  questionText: string;
+  targetType: CatalogQuestionTargetType;
+  applicability: string | null;
+  defaultMeasures: CatalogMeasureTemplate[];
+}
+
+export interface OscalProfileImport {
+  href: string;
+  includeAll: boolean;
+  includeIds: string[];
+  excludeIds: string[];
+}
+
+export type ParsedOscalDocument =
+  | { kind: 'catalog'; metadata: OscalDocumentMetadata; controls: OscalControl[] }
+  | { kind: 'profile'; metadata: OscalDocumentMetadata; imports: OscalProfileImport[] };
+
+type JsonRecord = Record<string, unknown>;
+
+const asRecord = (value: unknown): JsonRecord | null =>
+  value && typeof value === 'object' && !Array.isArray(value) ? (value as JsonRecord) : null;
+
+const asArray = (value: unknown): unknown[] => (Array.isArray(value) ? value : []);
+
+const readString = (value: unknown): string => (typeof value === 'string' ? value.trim() : '');
+
+const readProp = (record: JsonRecord, name: string): string => {
+  const prop = asArray(record.props)
+    .map(asRecord)
+    .find((entry) => entry && readString(entry.name) === name);
+  return prop ? readString(prop.value) : '';
+};
+
+const normalizeWhitespace = (value: string): string => value.replace(/\s+/g, ' ').trim();
+
+const resolveParameterInsertions = (prose: string, parameterLabels: Map<string, string>): string =>
+  prose.replace(/{{\s*insert:\s*param,\s*([^}\s]+)\s*}}/g, (_match, parameterId: string) => {
+    const label = parameterLabels.get(parameterId);
+    return `[Assignment: ${label || parameterId}]`;
+  });
+
+const collectPartProse = (part: JsonRecord, parameterLabels: Map<string, string>): string[] => {
+  const lines: string[] = [];
+  const prose = readString(part.prose);
+  if (prose) {
+    const label = readProp(part, 'label');
+    lines.push(`${label ? `${label} ` : ''}${resolveParameterInsertions(prose, parameterLabels)}`);
+  }
+  for (const child of asArray(part.parts)) {
+    const childPart = asRecord(child);
+    if (childPart) {
+      lines.push(...collectPartProse(childPart, parameterLabels));
+    }
+  }
+  return lines;
+};
+
+const readStatement = (control: JsonRecord): string | null => {
+  const parameterLabels = new Map<string, string>();
+  for (const entry of asArray(control.params)) {
+    const param = asRecord(entry);
+    if (param && readString(param.id)) {
+      parameterLabels.set(readString(param.id), readString(param.label));
+    }
+  }
+
+  const statementPart = asArray(control.parts)
+    .map(asRecord)
+    .find((part) => part && readString(part.name) === 'statement');
+  if (!statementPart) {
+    return null;
+  }
+
+  const statement = normalizeWhitespace(collectPartProse(statementPart, parameterLabels).join(' '));
+  return statement || null;
+};
+
+const readTargetType = (control: JsonRecord): CatalogQuestionTargetType => {
+  const raw = readProp(control, 'secudo-target-type');
+  return QUESTION_TARGET_TYPES.find((targetType) => targetType === raw) || 'None';
+};
+
+// Measure templates are stored as control parts named "secudo-measure" (title + prose).
+const readDefaultMeasures = (control: JsonRecord): CatalogMeasureTemplate[] =>
+  asArray(control.parts)
+    .map(asRecord)
+    .filter((part): part is JsonRecord => part !== null && readString(part.name) === 'secudo-measure')
+    .map((part) => ({
+      title: normalizeWhitespace(readString(part.title)),
+      description: normalizeWhitespace(readString(part.prose)),
+    }))
+    .filter((measure) => measure.title.length > 0);
+
+const isWithdrawn = (control: JsonRecord): boolean => readProp(control, 'status').toLowerCase() === 'withdrawn';
+
+const readMetadata = (document: JsonRecord): OscalDocumentMetadata => {
+  const metadata = asRecord(document.metadata) || {};
+  const title = readString(metadata.title) || 'Untitled catalog';
+  return {
+    uuid: readString(document.uuid) || null,
+    title,
+    version: readString(metadata.version) || '1.0',
+    norm: readProp(metadata, 'secudo-norm') || title,
+    projectNorm: readProp(metadata, 'secudo-project-norm') || null,
+  };
+};
+
+const collectControls = (
+  controls: unknown[],
+  groupTitle: string | null,
+  output: OscalControl[]
+): void => {
+  for (const entry of controls) {
+    const control = asRecord(entry);
+    const oscalId = control ? readString(control.id) : '';
+    if (!control || !oscalId || isWithdrawn(control)) {
+      continue;
+    }
+
+    const title = normalizeWhitespace(readString(control.title)) || oscalId;
+    const controlId = readProp(control, 'label') || oscalId.toUpperCase();
+    const statement = readStatement(control);
+
+    output.push({
+      oscalId,
+      controlId,
+      title,
+      statement,
+      groupTitle,
+      questionText: readProp(control, 'secudo-question') || `Is "${title}" (${controlId}) implemented?`,
+      targetType: readTargetType(control),
+      applicability: readProp(control, 'secudo-applicability') || null,
+      defaultMeasures: readDefaultMeasures(control),
+    });
+
+    // Nested controls are control enhancements and are listed right after their base control.
+    collectControls(asArray(control.controls), groupTitle, output);
+  }
+};
+
+const collectGroups = (groups: unknown[], output: OscalControl[]): void => {
+  for (const entry of groups) {
+    const group = asRecord(entry);
+    if (!group) {
+      continue;
+    }
+    const groupTitle = normalizeWhitespace(readString(group.title)) || null;
+    collectControls(asArray(group.controls), groupTitle, output);
+    collectGroups(asArray(group.groups), output);
+  }
+};
+
+const readControlIds = (selections: unknown[]): string[] =>
+  selections.flatMap((entry) => asArray(asRecord(entry)?.['with-ids']).map(readString).filter(Boolean));
+
+export function parseOscalDocument(raw: unknown): ParsedOscalDocument {
+  const root = asRecord(raw);
+  const catalog = asRecord(root?.catalog);
+  if (catalog) {
+    const controls: OscalControl[] = [];
+    collectControls(asArray(catalog.controls), null, controls);
+    collectGroups(asArray(catalog.groups), controls);
+    return { kind: 'catalog', metadata: readMetadata(catalog), controls };
+  }
+
+  const profile = asRecord(root?.profile);
+  if (profile) {
+    const imports = asArray(profile.imports)
+      .map(asRecord)
+      .filter((entry): entry is JsonRecord => entry !== null && readString(entry.href).length > 0)
+      .map((entry) => ({
+        href: readString(entry.href),
+        includeAll: asRecord(entry['include-all']) !== null || !Array.isArray(entry['include-controls']),
+        includeIds: readControlIds(asArray(entry['include-controls'])),
+        excludeIds: readControlIds(asArray(entry['exclude-controls'])),
+      }));
+    return { kind: 'profile', metadata: readMetadata(profile), imports };
+  }
+
+  throw new Error('Document is neither an OSCAL catalog nor an OSCAL profile');
+}
+
+/**
+ * Reads a stored measure template list (JSON) back into templates.
+ * Invalid or empty values yield an empty list.
+ */
+export function parseMeasureTemplates(raw: string | null | undefined): CatalogMeasureTemplate[] {
+  if (!raw) {
+    return [];
+  }
+  try {
+    return asArray(JSON.parse(raw))
+      .map(asRecord)
+      .filter((entry): entry is JsonRecord => entry !== null)
+      .map((entry) => ({ title: readString(entry.title), description: readString(entry.description) }))
+      .filter((measure) => measure.title.length > 0);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Selects the controls a profile import refers to from the resolved catalog.
+ * Control ids are matched against the OSCAL id (e.g. "ac-2" or "ac-2.1").
+ */
+export function selectProfileControls(profileImport: OscalProfileImport, controls: OscalControl[]): OscalControl[] {
+  const includeIds = new Set(profileImport.includeIds.map((id) => id.toLowerCase()));
+  const excludeIds = new Set(profileImport.excludeIds.map((id) => id.toLowerCase()));
+
+  return controls.filter((control) => {
+    const id = control.oscalId.toLowerCase();
+    if (excludeIds.has(id)) {
+      return false;
+    }
+    return profileImport.includeAll || includeIds.has(id);
+  });
+}
@@ -1,4 +1,6 @@
 import { prisma } from '@/lib/prisma';
+import { deleteEvidence } from '@/lib/evidence-service';
+import { deleteReports } from '@/lib/report-service';
 
 export const PROJECT_TRASH_RETENTION_DAYS = 30;
 let supportsProjectDeletedAtCache: boolean | null = null;
@@ -33,6 +35,8 @@ export async function purgeExpiredDeletedProjects(now = new Date()): Promise<num
   }
 
   const cutoff = getProjectTrashCutoff(now);
+  await deleteEvidence({ project: { deletedAt: { not: null, lte: cutoff } } });
+  await deleteReports({ project: { deletedAt: { not: null, lte: cutoff } } });
   const result = await prisma.project.deleteMany({
     where: {
       deletedAt: {
@@ -0,0 +1,336 @@
+/**
+ * Report Content Service
+ * Loads and derives everything a report shows, independent of the output format
+ */
+
+import { prisma } from '@/lib/prisma';
+import { getSecurityLevelGapAnalysis } from '@/lib/security-level-service';
+import type { SecurityLevelGapAnalysis } from '@/lib/security-level-service';
+import { getAttackPathAnalysis } from '@/lib/attack-path-service';
+import type { AttackPathAnalysis } from '@/lib/attack-path-service';
+import { evaluateFindingRisk, parseRiskMethod } from '@/lib/risk-method';
+import type { FindingRiskEvaluation, RiskMethod } from '@/lib/risk-method';
+import { getEvidenceRegister } from '@/lib/evidence-service';
+import { getChangesSinceLastRelease } from '@/lib/baseline-service';
+import type { ReportTemplateDefinition } from '@/lib/report-template';
+import { parseConduitId } from '@/lib/zone-service';
+import { isGlobalContainer, isLayoutContainer } from '@/lib/auto-layout-service';
+import { buildModelDiagramScene } from '@/lib/model-diagram';
+import type { ModelDiagramScene } from '@/lib/model-diagram';
+import { loadModelDiagramSource } from '@/lib/model-diagram-service';
+
+export type SeverityBuckets = {
+  critical: number;
+  high: number;
+  medium: number;
+  low: number;
+};
+
+export interface ReportMeasure {
+  title: string;
+  status: string;
+  priority: string;
+  normReference: string | null;
+  assignedTo: string | null;
+  dueDate: Date | null;
+}
+
+export interface ReportContent {
+  template: ReportTemplateDefinition;
+  project: { name: string; description: string | null; norm: string; updatedAt: Date };
+  modelStats: { containers: number; components: number; interfaces: number; dataObjects: number };
+  modelDiagram: { viewName: string | null; scene: ModelDiagramScene | null };
+  containerDiagrams: Array<{ name: string; scene: ModelDiagramScene }>;
+  assets: SeverityBuckets;
+  assetList: Array<{ name: string; type: string; value: number; source: string }>;
+  dataObjects: Array<{
+    name: string;
+    dataClass: string;
+    confidentiality: number;
+    integrity: number;
+    availability: number;
+    components: number;
+    interfaces: number;
+  }>;
+  questions: Array<{
+    text: string;
+    normReference: string;
+    answers: Array<{ targetLabel: string | null; answerValue: string; status: string }>;
+  }>;
+  findings: Array<{
+    assetName: string;
+    severity: number;
+    questionText: string;
+    normReference: string;
+    risk: FindingRiskEvaluation | null;
+    riskAcceptedAt: Date | null;
+    riskAcceptanceNote: string | null;
+    riskAcceptedBy: { name: string | null; email: string } | null;
+  }>;
+  findingsBySeverity: SeverityBuckets;
+  riskMethod: RiskMethod;
+  measures: ReportMeasure[];
+  // Open and in-progress measures by due date, then priority
+  measurePlan: ReportMeasure[];
+  measuresSummary: { total: number; open: number; inProgress: number; done: number; completionRate: number };
+  securityLevels: SecurityLevelGapAnalysis | null;
+  attackPaths: AttackPathAnalysis['paths'];
+  evidence: Awaited<ReturnType<typeof getEvidenceRegister>>;
+  releaseChanges: Awaited<ReturnType<typeof getChangesSinceLastRelease>>;
+  generatedAt: Date;
+}
+
+const bucketFromValues = (values: Array<{ value: number }>): SeverityBuckets => ({
+  critical: values.filter((entry) => entry.value >= 8).length,
+  high: values.filter((entry) => entry.value >= 6 && entry.value < 8).length,
+  medium: values.filter((entry) => entry.value >= 4 && entry.value < 6).length,
+  low: values.filter((entry) => entry.value < 4).length,
+});
+
+const MEASURE_PRIORITY_RANK: Record<string, number> = { Critical: 0, High: 1, Medium: 2, Low: 3 };
+
+/**
+ * Collects the report content of a project for the given template. Returns
+ * null when the project does not exist. Diagrams are only laid out when the
+ * template shows them.
+ */
+export async function loadReportContent(
+  projectId: string,
+  template: ReportTemplateDefinition
+): Promise<ReportContent | null> {
+  const includesDiagrams = template.sections.some(
+    (section) => section === 'modelDiagram' || section === 'containerDiagrams'
+  );
+
+  const [
+    project,
+    nodes,
+    edges,
+    zones,
+    dataObjects,
+    assetValues,
+    questions,
+    finalAnswers,
+    findings,
+    measures,
+    securityLevels,
+    attackPaths,
+    evidence,
+    releaseChanges,
+    diagramSource,
+  ] = await Promise.all([
+    prisma.project.findUnique({
+      where: { id: projectId },
+      select: { name: true, description: true, norm: true, riskMethod: true, updatedAt: true },
+    }),
+    prisma.modelNode.findMany({
+      where: { projectId },
+      select: { id: true, category: true, name: true },
+    }),
+    prisma.modelEdge.findMany({
+      where: { projectId },
+      select: { id: true, name: true, sourceNode: { select: { name: true } }, targetNode: { select: { name: true } } },
+    }),
+    prisma.zone.findMany({
+      where: { projectId },
+      select: { id: true, name: true },
+    }),
+    prisma.dataObject.findMany({
+      where: { projectId },
+      orderBy: { name: 'asc' },
+      select: {
+        id: true,
+        name: true,
+        dataClass: true,
+        confidentiality: true,
+        integrity: true,
+        availability: true,
+        _count: { select: { componentData: true, edgeDataFlows: true } },
+      },
+    }),
+    prisma.assetValue.findMany({
+      where: {
+        projectId,
+        assetType: {
+          in: ['Node', 'Edge'],
+        },
+      },
+      select: { assetType: true, assetId: true, value: true, source: true },
+    }),
+    prisma.question.findMany({
+      where: { projectId },
+      orderBy: [{ normReference: 'asc' }, { createdAt: 'asc' }],
+      select: { id: true, text: true, normReference: true },
+    }),
+    prisma.finalAnswer.findMany({
+      where: { projectId },
+      select: { questionId: true, targetType: true, targetId: true, answerValue: true, status: true },
+    }),
+    prisma.finding.findMany({
+      where: { projectId },
+      orderBy: [{ severity: 'desc' }, { createdAt: 'asc' }],
+      select: {
+        id: true,
+        assetType: true,
+        assetId: true,
+        assetName: true,
+        severity: true,
+        likelihood: true,
+        impact: true,
+        questionText: true,
+        normReference: true,
+        riskAcceptedAt: true,
+        riskAcceptanceNote: true,
+        riskAcceptedBy: { select: { name: true, email: true } },
+      },
+    }),
+    prisma.measure.findMany({
+      where: { projectId },
+      orderBy: [{ status: 'asc' }, { priority: 'desc' }, { createdAt: 'asc' }],
+      select: {
+        findingId: true,
+        title: true,
+        status: true,
+        priority: true,
+        normReference: true,
+        assignedTo: true,
+        dueDate: true,
+        likelihoodReduction: true,
+        impactReduction: true,
+      },
+    }),
+    getSecurityLevelGapAnalysis(projectId),
+    getAttackPathAnalysis(projectId),
+    getEvidenceRegister(projectId),
+    getChangesSinceLastRelease(projectId),
+    includesDiagrams ? loadModelDiagramSource(projectId) : Promise.resolve(null),
+  ]);
+
+  if (!project) {
+    return null;
+  }
+
+  const derivedDataObjectValues = dataObjects.map((dataObject) => ({
+    assetType: 'DataObject',
+    assetId: dataObject.id,
+    value: Math.max(dataObject.confidentiality, dataObject.integrity, dataObject.availability),
+    source: 'Derived',
+  }));
+  const riskMethod = parseRiskMethod(project.riskMethod);
+  const assetValueByKey = new Map(
+    [...assetValues, ...derivedDataObjectValues].map((entry) => [`${entry.assetType}:${entry.assetId}`, entry.value])
+  );
+  const doneMeasures = measures.filter((measure) => measure.status === 'Done').length;
+
+  const zoneNames = new Map(zones.map((zone) => [zone.id, zone.name]));
+  const targetLabels = new Map<string, string>([
+    ...nodes.map((node) => [node.id, node.name] as [string, string]),
+    ...edges.map(
+      (edge) => [edge.id, edge.name || `${edge.sourceNode.name} -> ${edge.targetNode.name}`] as [string, string]
+    ),
+    ...dataObjects.map((dataObject) => [dataObject.id, dataObject.name] as [string, string]),
+    ...zones.map((zone) => [zone.id, zone.name] as [string, string]),
+  ]);
+  const targetLabel = (targetType: string, targetId: string): string | null => {
+    if (!targetId) {
+      return null;
+    }
+    const conduit = targetType === 'Conduit' ? parseConduitId(targetId) : null;
+    if (conduit) {
+      return `${zoneNames.get(conduit.zoneAId) || '?'} <-> ${zoneNames.get(conduit.zoneBId) || '?'}`;
+    }
+    return targetLabels.get(targetId) || targetId;
+  };
+  const isContainer = (category: string) => {
+    const normalized = category.trim().toLowerCase();
+    return normalized === 'container' || normalized === 'system';
+  };
+
+  return {
+    template,
+    project,
+    modelStats: {
+      containers: nodes.filter((node) => isContainer(node.category)).length,
+      components: nodes.filter((node) => !isContainer(node.category)).length,
+      interfaces: edges.length,
+      dataObjects: dataObjects.length,
+    },
+    modelDiagram: {
+      viewName: diagramSource?.viewName ?? null,
+      scene: diagramSource && template.sections.includes('modelDiagram') ? buildModelDiagramScene(diagramSource) : null,
+    },
+    // Detail diagrams for every drawn container that has content
+    containerDiagrams:
+      diagramSource && template.sections.includes('containerDiagrams')
+        ? diagramSource.nodes
+            .filter(
+              (node) =>
+                isLayoutContainer(node) &&
+                !isGlobalContainer(node) &&
+                diagramSource.nodes.some((child) => child.parentNodeId === node.id)
+            )
+            .map((node) => ({ name: node.name, scene: buildModelDiagramScene(diagramSource, node.id) }))
+        : [],
+    assets: bucketFromValues([...assetValues, ...derivedDataObjectValues]),
+    assetList: [...assetValues, ...derivedDataObjectValues]
+      .map((entry) => ({
+        name: targetLabels.get(entry.assetId) || entry.assetId,
+        type: entry.assetType,
+        value: entry.value,
+        source: entry.source,
+      }))
+      .sort((a, b) => b.value - a.value || a.name.localeCompare(b.name)),
+    dataObjects: dataObjects.map((dataObject) => ({
+      name: dataObject.name,
+      dataClass: dataObject.dataClass,
+      confidentiality: dataObject.confidentiality,
+      integrity: dataObject.integrity,
+      availability: dataObject.availability,
+      components: dataObject._count.componentData,
+      interfaces: dataObject._count.edgeDataFlows,
+    })),
+    questions: questions.map((question) => ({
+      text: question.text,
+      normReference: question.normReference,
+      answers: finalAnswers
+        .filter((answer) => answer.questionId === question.id)
+        .map((answer) => ({
+          targetLabel: targetLabel(answer.targetType, answer.targetId),
+          answerValue: answer.answerValue,
+          status: answer.status,
+        }))
+        .sort((a, b) => (a.targetLabel || '').localeCompare(b.targetLabel || '')),
+    })),
+    findings: findings.map((finding) => ({
+      ...finding,
+      risk: evaluateFindingRisk(
+        riskMethod,
+        finding,
+        assetValueByKey.get(`${finding.assetType}:${finding.assetId}`),
+        measures.filter((measure) => measure.findingId === finding.id)
+      ),
+    })),
+    findingsBySeverity: bucketFromValues(findings.map((finding) => ({ value: finding.severity }))),
+    riskMethod,
+    measures,
+    measurePlan: measures
+      .filter((measure) => measure.status !== 'Done')
+      .sort(
+        (a, b) =>
+          (a.dueDate?.getTime() ?? Number.MAX_SAFE_INTEGER) - (b.dueDate?.getTime() ?? Number.MAX_SAFE_INTEGER) ||
+          (MEASURE_PRIORITY_RANK[a.priority] ?? 9) - (MEASURE_PRIORITY_RANK[b.priority] ?? 9)
+      ),
+    measuresSummary: {
+      total: measures.length,
+      open: measures.filter((measure) => measure.status === 'Open').length,
+      inProgress: measures.filter((measure) => measure.status === 'InProgress').length,
+      done: doneMeasures,
+      completionRate: measures.length > 0 ? Math.round((doneMeasures / measures.length) * 100) : 0,
+    },
+    securityLevels,
+    attackPaths: attackPaths.paths,
+    evidence,
+    releaseChanges,
+    generatedAt: new Date(),
+  };
+}
@@ -0,0 +1,469 @@
+/**
+ * Report Document
+ * Format-neutral report structure (headings, paragraphs, tables, diagrams) rendered to HTML, DOCX and Markdown
+ */
+
+import { FOUNDATIONAL_REQUIREMENTS } from '@/lib/security-level-service';
+import { countRiskLevels, countRiskMatrix } from '@/lib/risk-method';
+import {
+  formatFileSize,
+  formatReportDate,
+  formatReportDateTime,
+  formatReportLabel,
+  reportLabels,
+  reportSectionTitle,
+} from '@/lib/report-template';
+import type { ReportLanguage, ReportSectionId } from '@/lib/report-template';
+import { DIAGRAM_BADGE_COLOR, DIAGRAM_RISK_COLORS, DIAGRAM_RISK_LEVELS } from '@/lib/model-diagram';
+import type { DiagramRiskLevel, ModelDiagramScene } from '@/lib/model-diagram';
+import type { ReportContent } from '@/lib/report-content-service';
+
+// Cells may carry a background color (risk matrix) and a note that replaces the color in plain text output
+export type ReportCell = string | { text: string; color?: string; bold?: boolean; note?: string };
+
+export type ReportBlock =
+  | { kind: 'heading'; level: 1 | 2; text: string }
+  | { kind: 'paragraph'; text: string }
+  // Tables without columns are label/value lists
+  | { kind: 'table'; columns: string[]; rows: ReportCell[][] }
+  | { kind: 'diagram'; scene: ModelDiagramScene; caption: string }
+  | { kind: 'legend'; entries: Array<{ color: string; label: string }> };
+
+export interface ReportDocument {
+  language: ReportLanguage;
+  title: string;
+  subtitle: string | null;
+  // PNG or JPEG data URL
+  logo: string | null;
+  coverPage: boolean;
+  metadata: Array<{ label: string; value: string }>;
+  disclaimerTitle: string;
+  disclaimer: string[];
+  blocks: ReportBlock[];
+}
+
+export const reportCellText = (cell: ReportCell): string => (typeof cell === 'string' ? cell : cell.text);
+
+/**
+ * Builds the sections of the template from the report content. Shows the
+ * same information as the LaTeX report.
+ */
+export function buildReportDocument(content: ReportContent): ReportDocument {
+  const { template } = content;
+  const t = reportLabels(template.language);
+  const formatDateTime = (value: Date) => formatReportDateTime(value, template.language);
+  const statusLabels: Record<string, string> = { Open: t.open, InProgress: t.inProgress, Done: t.done };
+  const priorityLabels: Record<string, string> = { Critical: t.critical, High: t.high, Medium: t.medium, Low: t.low };
+  const statusLabel = (status: string): string => statusLabels[status] || status;
+  const priorityLabel = (priority: string): string => priorityLabels[priority] || priority;
+
+  const heading = (section: ReportSectionId): ReportBlock => ({
+    kind: 'heading',
+    level: 1,
+    text: reportSectionTitle(template.language, section),
+  });
+  const paragraph = (text: string): ReportBlock => ({ kind: 'paragraph', text });
+  const table = (columns: string[], rows: ReportCell[][], emptyText: string): ReportBlock =>
+    rows.length === 0 ? paragraph(emptyText) : { kind: 'table', columns, rows };
+
+  const ratedFindings = content.findings.flatMap((finding) => (finding.risk ? [finding.risk] : []));
+  const acceptedFindings = content.findings.filter((finding) => finding.riskAcceptedAt);
+  const residualLevelCounts = countRiskLevels(
+    content.riskMethod,
+    ratedFindings.map((risk) => risk.residual)
+  );
+
+  const diagramLevelLabels: Record<DiagramRiskLevel, string> = {
+    critical: `${t.critical} (8-10)`,
+    high: `${t.high} (6-7)`,
+    medium: `${t.medium} (4-5)`,
+    low: `${t.low} (1-3)`,
+    unrated: t.notValued,
+  };
+  const diagramLegend: ReportBlock = {
+    kind: 'legend',
+    entries: [
+      ...DIAGRAM_RISK_LEVELS.map((level) => ({ color: DIAGRAM_RISK_COLORS[level].stroke, label: diagramLevelLabels[level] })),
+      { color: DIAGRAM_BADGE_COLOR, label: t.dataObjects },
+    ],
+  };
+  const diagram = (scene: ModelDiagramScene | null, caption: string): ReportBlock =>
+    scene && scene.components.length + scene.containers.length > 0
+      ? { kind: 'diagram', scene, caption }
+      : paragraph(t.noModelElements);
+
+  const releaseChanges = content.releaseChanges;
+  const formatDelta = (value: number): string => (value > 0 ? `+${value}` : String(value));
+
+  const sections: Record<ReportSectionId, () => ReportBlock[]> = {
+    projectInformation: () => [
+      heading('projectInformation'),
+      {
+        kind: 'table',
+        columns: [],
+        rows: [
+          [t.name, content.project.name],
+          [t.description, content.project.description || t.notAvailable],
+          [t.standard, content.project.norm],
+        ],
+      },
+    ],
+    modelSummary: () => [
+      heading('modelSummary'),
+      {
+        kind: 'table',
+        columns: [],
+        rows: [
+          [t.containers, String(content.modelStats.containers)],
+          [t.components, String(content.modelStats.components)],
+          [t.interfaces, String(content.modelStats.interfaces)],
+          [t.dataObjects, String(content.modelStats.dataObjects)],
+        ],
+      },
+    ],
+    modelDiagram: () => [
+      heading('modelDiagram'),
+      paragraph(
+        content.modelDiagram.scene?.autoLayout
+          ? t.diagramIntroAuto
+          : formatReportLabel(t.diagramIntro, { view: content.modelDiagram.viewName || '-' })
+      ),
+      diagram(content.modelDiagram.scene, reportSectionTitle(template.language, 'modelDiagram')),
+      diagramLegend,
+    ],
+    containerDiagrams: () => [
+      heading('containerDiagrams'),
+      diagramLegend,
+      ...(content.containerDiagrams.length === 0
+        ? [paragraph(t.noContainers)]
+        : content.containerDiagrams.flatMap((entry): ReportBlock[] => [
+            { kind: 'heading', level: 2, text: entry.name },
+            diagram(entry.scene, entry.name),
+          ])),
+    ],
+    assetSummary: () => [
+      heading('assetSummary'),
+      {
+        kind: 'table',
+        columns: [],
+        rows: [
+          [`${t.critical} (8-10)`, String(content.assets.critical)],
+          [`${t.high} (6-7)`, String(content.assets.high)],
+          [`${t.medium} (4-5)`, String(content.assets.medium)],
+          [`${t.low} (1-3)`, String(content.assets.low)],
+        ],
+      },
+    ],
+    assetList: () => [
+      heading('assetList'),
+      table(
+        [t.asset, t.type, t.value, t.source],
+        content.assetList.map((asset) => [asset.name, asset.type, String(asset.value), asset.source]),
+        t.noAssets
+      ),
+    ],
+    dataObjects: () => [
+      heading('dataObjects'),
+      table(
+        [t.name, t.dataClass, 'C', 'I', 'A', `${t.usedBy} (${t.components} / ${t.interfaces})`],
+        content.dataObjects.map((dataObject) => [
+          dataObject.name,
+          dataObject.dataClass,
+          String(dataObject.confidentiality),
+          String(dataObject.integrity),
+          String(dataObject.availability),
+          `${dataObject.components} / ${dataObject.interfaces}`,
+        ]),
+        t.noDataObjects
+      ),
+    ],
+    findingsSummary: () => [
+      heading('findingsSummary'),
+      {
+        kind: 'table',
+        columns: [],
+        rows: [
+          [t.critical, String(content.findingsBySeverity.critical)],
+          [t.high, String(content.findingsBySeverity.high)],
+          [t.medium, String(content.findingsBySeverity.medium)],
+          [t.low, String(content.findingsBySeverity.low)],
+        ],
+      },
+    ],
+    riskAssessment: () => [
+      heading('riskAssessment'),
+      paragraph(
+        formatReportLabel(t.riskMethodIntro, {
+          method: content.riskMethod.name,
+          likelihood: content.riskMethod.likelihood.label,
+          impact: content.riskMethod.impact.label,
+          tolerance: content.riskMethod.toleranceLevel,
+        })
+      ),
+      {
+        kind: 'table',
+        columns: [t.riskLevel, t.inherent, t.residual],
+        rows: [
+          ...countRiskLevels(
+            content.riskMethod,
+            ratedFindings.map((risk) => risk.inherent)
+          ).map((level, index) => [level.name, String(level.count), String(residualLevelCounts[index].count)]),
+          [
+            t.riskIntolerableOpen,
+            String(
+              content.findings.filter(
+                (finding) => finding.risk && !finding.risk.residual.tolerable && !finding.riskAcceptedAt
+              ).length
+            ),
+            '',
+          ],
+          [t.riskAccepted, String(acceptedFindings.length), ''],
+          [t.riskUnrated, String(content.findings.length - ratedFindings.length), ''],
+        ],
+      },
+      { kind: 'heading', level: 2, text: t.riskAcceptance },
+      table(
+        [t.asset, t.residual, t.acceptedBy, t.justification],
+        acceptedFindings.map((finding) => [
+          finding.assetName,
+          finding.risk ? finding.risk.residual.level : '-',
+          `${finding.riskAcceptedBy?.name || finding.riskAcceptedBy?.email || t.unknown}, ${
+            finding.riskAcceptedAt ? formatDateTime(finding.riskAcceptedAt) : '-'
+          }`,
+          finding.riskAcceptanceNote || '-',
+        ]),
+        t.noAcceptedRisks
+      ),
+    ],
+    riskMatrix: () => [
+      heading('riskMatrix'),
+      paragraph(
+        `${formatReportLabel(t.riskMatrixIntro, {
+          likelihood: content.riskMethod.likelihood.label,
+          impact: content.riskMethod.impact.label,
+        })}${ratedFindings.length === 0 ? ` ${t.noRatedFindings}` : ''}`
+      ),
+      {
+        kind: 'table',
+        columns: [
+          `${content.riskMethod.likelihood.label} / ${content.riskMethod.impact.label}`,
+          ...Array.from({ length: content.riskMethod.impact.steps }, (_, index) => String(index + 1)),
+        ],
+        rows: countRiskMatrix(
+          content.riskMethod,
+          ratedFindings.map((risk) => risk.residual)
+        ).map((row) => [
+          String(row[0].likelihood),
+          ...row.map((cell) => ({
+            text: cell.count > 0 ? String(cell.count) : '',
+            color: cell.color,
+            bold: true,
+            note: cell.level,
+          })),
+        ]),
+      },
+      {
+        kind: 'legend',
+        entries: content.riskMethod.levels.map((level) => ({ color: level.color, label: level.name })),
+      },
+    ],
+    releaseChanges: () => [
+      heading('releaseChanges'),
+      ...(!releaseChanges
+        ? [paragraph(t.noBaseline)]
+        : [
+            paragraph(
+              formatReportLabel(t.releaseIntro, {
+                release: releaseChanges.baseline.releaseName,
+                date: formatDateTime(releaseChanges.baseline.createdAt),
+              })
+            ),
+            {
+              kind: 'table' as const,
+              columns: ['', t.baseline, t.current, t.delta],
+              rows: [
+                ...(
+                  [
+                    [t.riskFindings, 'findings'],
+                    [t.riskInherentScore, 'inherentScore'],
+                    [t.riskResidualScore, 'residualScore'],
+                    [t.riskIntolerable, 'intolerable'],
+                  ] as const
+                ).map(([label, key]) => [
+                  label,
+                  String(releaseChanges.comparison.risk.before[key]),
+                  String(releaseChanges.comparison.risk.after[key]),
+                  formatDelta(releaseChanges.comparison.risk.delta[key]),
+                ]),
+                [t.changedFindings, '', String(releaseChanges.comparison.findings.changed.length), ''],
+                [t.changedFinalAnswers, '', String(releaseChanges.comparison.finalAnswers.length), ''],
+                [t.changedAssetValues, '', String(releaseChanges.comparison.assetValues.length), ''],
+              ],
+            },
+            table(
+              [t.change, t.asset, t.residual, t.question],
+              [
+                ...releaseChanges.comparison.findings.new.map((finding) => ({ change: t.changeNew, finding })),
+                ...releaseChanges.comparison.findings.closed.map((finding) => ({ change: t.changeClosed, finding })),
+              ].map(({ change, finding }) => [
+                change,
+                finding.assetName,
+                finding.residualScore !== null ? `${finding.residualScore} (${finding.residualLevel})` : '-',
+                finding.questionText,
+              ]),
+              t.noReleaseFindings
+            ),
+          ]),
+    ],
+    securityLevels: () => [
+      heading('securityLevels'),
+      paragraph(formatReportLabel(t.securityLevelIntro, { level: content.securityLevels?.targetSecurityLevel ?? '-' })),
+      table(
+        [t.target, 'SL-T', 'SL-C', ...FOUNDATIONAL_REQUIREMENTS.map((fr) => fr.id)],
+        (content.securityLevels?.rows ?? []).map((row) => [
+          row.targetType === 'Zone' ? `Zone: ${row.name}` : row.name,
+          String(row.targetLevel),
+          row.capabilityLevel === null
+            ? '-'
+            : row.capabilityLevel < row.targetLevel
+              ? { text: String(row.capabilityLevel), bold: true }
+              : String(row.capabilityLevel),
+          ...FOUNDATIONAL_REQUIREMENTS.map((fr): ReportCell => {
+            const achieved = row.achieved[fr.id];
+            if (achieved === null) {
+              return '-';
+            }
+            return (row.gaps[fr.id] || 0) > 0 ? { text: String(achieved), bold: true } : String(achieved);
+          }),
+        ]),
+        t.noSecurityLevels
+      ),
+    ],
+    attackPaths: () => [
+      heading('attackPaths'),
+      paragraph(t.attackPathIntro),
+      table(
+        ['#', t.path, t.hops, t.cost],
+        content.attackPaths.map((attackPath, index) => [
+          String(index + 1),
+          attackPath.nodeNames.join(' -> '),
+          String(attackPath.hops.length),
+          String(attackPath.cost),
+        ]),
+        t.noAttackPaths
+      ),
+    ],
+    questions: () => [
+      heading('questions'),
+      table(
+        [t.reference, t.question, t.target, t.answer],
+        content.questions.flatMap((question) =>
+          (question.answers.length === 0 ? [null] : question.answers).map((answer, index) => [
+            index === 0 ? question.normReference : '',
+            index === 0 ? question.text : '',
+            answer?.targetLabel || '-',
+            answer ? `${answer.answerValue}${answer.status !== 'Approved' ? ` (${answer.status})` : ''}` : '-',
+          ])
+        ),
+        t.noQuestions
+      ),
+    ],
+    findings: () => [
+      heading('findings'),
+      table(
+        ['#', t.asset, t.severityShort, t.inherent, t.residual, t.question],
+        content.findings.map((finding, index) => [
+          String(index + 1),
+          finding.assetName,
+          String(finding.severity),
+          finding.risk ? `${finding.risk.inherent.score} (${finding.risk.inherent.level})` : '-',
+          `${finding.risk ? `${finding.risk.residual.score} (${finding.risk.residual.level})` : '-'}${
+            finding.riskAcceptedAt ? ` [${t.accepted}]` : ''
+          }`,
+          finding.questionText,
+        ]),
+        t.noFindings
+      ),
+    ],
+    measuresSummary: () => [
+      heading('measuresSummary'),
+      {
+        kind: 'table',
+        columns: [],
+        rows: [
+          [t.total, String(content.measuresSummary.total)],
+          [t.done, String(content.measuresSummary.done)],
+          [t.open, String(content.measuresSummary.open)],
+          [t.inProgress, String(content.measuresSummary.inProgress)],
+          [t.completionRate, `${content.measuresSummary.completionRate}%`],
+        ],
+      },
+    ],
+    measurePlan: () => [
+      heading('measurePlan'),
+      paragraph(t.measurePlanIntro),
+      table(
+        [t.dueDate, t.title, t.priority, t.assignedTo, t.status],
+        content.measurePlan.map((measure) => [
+          measure.dueDate ? formatReportDate(measure.dueDate, template.language) : '-',
+          measure.title,
+          priorityLabel(measure.priority),
+          measure.assignedTo || '-',
+          statusLabel(measure.status),
+        ]),
+        t.noOpenMeasures
+      ),
+    ],
+    measures: () => [
+      heading('measures'),
+      table(
+        ['#', t.title, t.status, t.priority, t.reference],
+        content.measures.map((measure, index) => [
+          String(index + 1),
+          measure.title,
+          statusLabel(measure.status),
+          priorityLabel(measure.priority),
+          measure.normReference || '-',
+        ]),
+        t.noMeasures
+      ),
+    ],
+    evidence: () => [
+      heading('evidence'),
+      paragraph(t.evidenceIntro),
+      table(
+        ['#', t.file, t.linkedTo, t.item, t.uploaded, 'SHA-256'],
+        content.evidence.map((entry, index) => [
+          String(index + 1),
+          `${entry.fileName} (${formatFileSize(entry.size)})`,
+          entry.linkType || '-',
+          entry.linkLabel,
+          `${entry.uploadedBy}, ${formatDateTime(entry.createdAt)}`,
+          entry.sha256,
+        ]),
+        t.noEvidence
+      ),
+    ],
+  };
+
+  return {
+    language: template.language,
+    title: template.title || `SECUDO ${t.reportTitle}`,
+    subtitle: template.subtitle || null,
+    logo: template.logo || null,
+    coverPage: template.coverPage,
+    metadata: [
+      { label: t.project, value: content.project.name },
+      { label: t.standard, value: content.project.norm },
+      ...(template.preparedBy ? [{ label: t.preparedBy, value: template.preparedBy }] : []),
+      { label: t.generated, value: formatDateTime(content.generatedAt) },
+      { label: t.lastUpdate, value: formatDateTime(content.project.updatedAt) },
+    ],
+    disclaimerTitle: t.disclaimer,
+    disclaimer: (template.disclaimer || '')
+      .split(/\r?\n\s*\r?\n/)
+      .map((entry) => entry.replace(/\r?\n/g, ' ').trim())
+      .filter(Boolean),
+    blocks: template.sections.flatMap((section) => sections[section]()),
+  };
+}
@@ -0,0 +1,205 @@
+/**
+ * Report DOCX
+ * Office Open XML (Word) rendering of the report document, packed with the built-in ZIP writer
+ */
+
+import type { ReportBlock, ReportCell, ReportDocument } from '@/lib/report-document';
+import { formatReportLabel, reportLabels } from '@/lib/report-template';
+import { createZipArchive } from '@/lib/zip-archive';
+
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Control characters are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '');
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+const WORD_NAMESPACE = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const RELATIONSHIP_NAMESPACE = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const PACKAGE_RELATIONSHIP_NAMESPACE = 'http://schemas.openxmlformats.org/package/2006/relationships';
+
+// A4 with 2 cm margins, in twentieths of a point
+const PAGE_WIDTH = 11906;
+const PAGE_HEIGHT = 16838;
+const PAGE_MARGIN = 1134;
+const EMU_PER_PIXEL = 9525;
+const LOGO_MAX_WIDTH_PX = 240;
+const LOGO_MAX_HEIGHT_PX = 96;
+
+interface DocxImage {
+  data: Buffer;
+  extension: 'png' | 'jpeg';
+  width: number;
+  height: number;
+}
+
+// Pixel size from the PNG IHDR chunk or the first JPEG start-of-frame marker
+const readImageSize = (data: Buffer, extension: DocxImage['extension']): { width: number; height: number } | null => {
+  if (extension === 'png') {
+    return data.length >= 24 ? { width: data.readUInt32BE(16), height: data.readUInt32BE(20) } : null;
+  }
+  let offset = 2;
+  while (offset + 9 < data.length) {
+    if (data[offset] !== 0xff) {
+      return null;
+    }
+    const marker = data[offset + 1];
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return { width: data.readUInt16BE(offset + 7), height: data.readUInt16BE(offset + 5) };
+    }
+    offset += 2 + data.readUInt16BE(offset + 2);
+  }
+  return null;
+};
+
+const parseLogo = (logo: string | null): DocxImage | null => {
+  const match = logo?.match(/^data:image\/(png|jpeg);base64,(.+)$/);
+  if (!match) {
+    return null;
+  }
+  const extension = match[1] as DocxImage['extension'];
+  const data = Buffer.from(match[2], 'base64');
+  const size = readImageSize(data, extension);
+  if (!size || size.width === 0 || size.height === 0) {
+    return null;
+  }
+  const scale = Math.min(1, LOGO_MAX_WIDTH_PX / size.width, LOGO_MAX_HEIGHT_PX / size.height);
+  return {
+    data,
+    extension,
+    width: Math.round(size.width * scale),
+    height: Math.round(size.height * scale),
+  };
+};
+
+const run = (text: string, options: { bold?: boolean; italic?: boolean; color?: string } = {}): string => {
+  const properties = [
+    options.bold ? '<w:b/>' : '',
+    options.italic ? '<w:i/>' : '',
+    options.color ? `<w:color w:val="${options.color.replace('#', '')}"/>` : '',
+  ].join('');
+  return `<w:r>${properties ? `<w:rPr>${properties}</w:rPr>` : ''}<w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>`;
+};
+
+const paragraph = (content: string, style?: string, alignment?: 'center'): string => {
+  const properties = [style ? `<w:pStyle w:val="${style}"/>` : '', alignment ? `<w:jc w:val="${alignment}"/>` : ''].join(
+    ''
+  );
+  return `<w:p>${properties ? `<w:pPr>${properties}</w:pPr>` : ''}${content}</w:p>`;
+};
+
+const tableCell = (cell: ReportCell, header = false): string => {
+  const text = typeof cell === 'string' ? cell : cell.text;
+  const color = typeof cell === 'string' ? undefined : cell.color;
+  const bold = header || (typeof cell !== 'string' && cell.bold);
+  const shading = color
+    ? `<w:shd w:val="clear" w:color="auto" w:fill="${color.replace('#', '')}"/>`
+    : header
+      ? '<w:shd w:val="clear" w:color="auto" w:fill="F1F5F9"/>'
+      : '';
+  return `<w:tc><w:tcPr>${shading}</w:tcPr>${paragraph(run(text, { bold }), undefined, color ? 'center' : undefined)}</w:tc>`;
+};
+
+const table = (columns: string[], rows: ReportCell[][]): string => {
+  const header =
+    columns.length > 0
+      ? `<w:tr><w:trPr><w:tblHeader/></w:trPr>${columns.map((column) => tableCell(column, true)).join('')}</w:tr>`
+      : '';
+  // Label/value lists have no header row; the label column is shaded instead
+  const body = rows
+    .map(
+      (row) =>
+        `<w:tr>${row.map((cell, index) => tableCell(cell, columns.length === 0 && index === 0)).join('')}</w:tr>`
+    )
+    .join('');
+  const columnCount = Math.max(columns.length, ...rows.map((row) => row.length), 1);
+  const columnWidth = Math.floor((PAGE_WIDTH - 2 * PAGE_MARGIN) / columnCount);
+  const grid = `<w:tblGrid>${`<w:gridCol w:w="${columnWidth}"/>`.repeat(columnCount)}</w:tblGrid>`;
+  return `<w:tbl><w:tblPr><w:tblStyle w:val="TableGrid"/><w:tblW w:w="5000" w:type="pct"/></w:tblPr>${grid}${header}${body}</w:tbl>${paragraph('')}`;
+};
+
+const renderBlock = (block: ReportBlock, diagramNote: string): string => {
+  switch (block.kind) {
+    case 'heading':
+      return paragraph(run(block.text), block.level === 1 ? 'Heading1' : 'Heading2');
+    case 'paragraph':
+      return paragraph(run(block.text));
+    case 'table':
+      return table(block.columns, block.rows);
+    case 'diagram':
+      return paragraph(run(formatReportLabel(diagramNote, { name: block.caption }), { italic: true }));
+    case 'legend':
+      return paragraph(
+        block.entries.map((entry) => `${run('■ ', { color: entry.color })}${run(`${entry.label}   `)}`).join('')
+      );
+  }
+};
+
+const logoDrawing = (image: DocxImage): string => {
+  const cx = image.width * EMU_PER_PIXEL;
+  const cy = image.height * EMU_PER_PIXEL;
+  return `<w:r><w:drawing><wp:inline distT="0" distB="0" distL="0" distR="0"><wp:extent cx="${cx}" cy="${cy}"/><wp:docPr id="1" name="Logo"/><a:graphic xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main"><a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/picture"><pic:pic xmlns:pic="http://schemas.openxmlformats.org/drawingml/2006/picture"><pic:nvPicPr><pic:cNvPr id="1" name="logo.${image.extension}"/><pic:cNvPicPr/></pic:nvPicPr><pic:blipFill><a:blip r:embed="rIdLogo"/><a:stretch><a:fillRect/></a:stretch></pic:blipFill><pic:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="${cx}" cy="${cy}"/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom></pic:spPr></pic:pic></a:graphicData></a:graphic></wp:inline></w:drawing></w:r>`;
+};
+
+const STYLES_XML = `${XML_HEADER}
+<w:styles xmlns:w="${WORD_NAMESPACE}">
+<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:cs="Calibri"/><w:sz w:val="20"/><w:szCs w:val="20"/><w:lang w:val="en-US"/></w:rPr></w:rPrDefault><w:pPrDefault><w:pPr><w:spacing w:after="80" w:line="264" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>
+<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/></w:style>
+<w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/><w:basedOn w:val="Normal"/><w:pPr><w:spacing w:before="240" w:after="240"/></w:pPr><w:rPr><w:b/><w:sz w:val="48"/><w:szCs w:val="48"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Heading1"><w:name w:val="heading 1"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:pPr><w:keepNext/><w:spacing w:before="360" w:after="120"/><w:outlineLvl w:val="0"/></w:pPr><w:rPr><w:b/><w:sz w:val="32"/><w:szCs w:val="32"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Heading2"><w:name w:val="heading 2"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:pPr><w:keepNext/><w:spacing w:before="240" w:after="80"/><w:outlineLvl w:val="1"/></w:pPr><w:rPr><w:b/><w:sz w:val="26"/><w:szCs w:val="26"/></w:rPr></w:style>
+<w:style w:type="table" w:default="1" w:styleId="TableNormal"><w:name w:val="Normal Table"/><w:tblPr><w:tblCellMar><w:top w:w="0" w:type="dxa"/><w:left w:w="108" w:type="dxa"/><w:bottom w:w="0" w:type="dxa"/><w:right w:w="108" w:type="dxa"/></w:tblCellMar></w:tblPr></w:style>
+<w:style w:type="table" w:styleId="TableGrid"><w:name w:val="Table Grid"/><w:basedOn w:val="TableNormal"/><w:tblPr><w:tblBorders><w:top w:val="single" w:sz="4" w:space="0" w:color="CBD5E1"/><w:left w:val="single" w:sz="4" w:space="0" w:color="CBD5E1"/><w:bottom w:val="single" w:sz="4" w:space="0" w:color="CBD5E1"/><w:right w:val="single" w:sz="4" w:space="0" w:color="CBD5E1"/><w:insideH w:val="single" w:sz="4" w:space="0" w:color="CBD5E1"/><w:insideV w:val="single" w:sz="4" w:space="0" w:color="CBD5E1"/></w:tblBorders></w:tblPr></w:style>
+</w:styles>`;
+
+/**
+ * Word version of the report. Diagrams are not embedded (Word has no native
+ * SVG support everywhere); a note points to the PDF and HTML report instead.
+ */
+export function renderReportDocx(document: ReportDocument): Buffer {
+  const diagramNote = reportLabels(document.language).diagramNotEmbedded;
+  const logo = parseLogo(document.logo);
+  const logoParagraph = logo ? paragraph(logoDrawing(logo), undefined, document.coverPage ? 'center' : undefined) : '';
+  const metadata = document.metadata.map((entry) =>
+    paragraph(`${run(`${entry.label}: `, { bold: true })}${run(entry.value)}`, undefined, document.coverPage ? 'center' : undefined)
+  );
+  const disclaimer =
+    document.disclaimer.length > 0
+      ? [paragraph(run(document.disclaimerTitle, { bold: true })), ...document.disclaimer.map((entry) => paragraph(run(entry)))]
+      : [];
+  const title = [
+    logoParagraph,
+    paragraph(run(document.title), 'Title', document.coverPage ? 'center' : undefined),
+    document.subtitle ? paragraph(run(document.subtitle, { italic: true }), undefined, document.coverPage ? 'center' : undefined) : '',
+    ...metadata,
+    ...disclaimer,
+    document.coverPage ? paragraph('<w:r><w:br w:type="page"/></w:r>') : '',
+  ];
+
+  const body = [...title, ...document.blocks.map((block) => renderBlock(block, diagramNote))].join('');
+  const documentXml = `${XML_HEADER}
+<w:document xmlns:w="${WORD_NAMESPACE}" xmlns:r="${RELATIONSHIP_NAMESPACE}" xmlns:wp="http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing"><w:body>${body}<w:sectPr><w:pgSz w:w="${PAGE_WIDTH}" w:h="${PAGE_HEIGHT}"/><w:pgMar w:top="${PAGE_MARGIN}" w:right="${PAGE_MARGIN}" w:bottom="${PAGE_MARGIN}" w:left="${PAGE_MARGIN}" w:header="708" w:footer="708" w:gutter="0"/></w:sectPr></w:body></w:document>`;
+
+  const contentTypes = `${XML_HEADER}
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/>${
+    logo ? `<Default Extension="${logo.extension}" ContentType="image/${logo.extension}"/>` : ''
+  }<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/><Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/></Types>`;
+  const packageRelationships = `${XML_HEADER}
+<Relationships xmlns="${PACKAGE_RELATIONSHIP_NAMESPACE}"><Relationship Id="rId1" Type="${RELATIONSHIP_NAMESPACE}/officeDocument" Target="word/document.xml"/></Relationships>`;
+  const documentRelationships = `${XML_HEADER}
+<Relationships xmlns="${PACKAGE_RELATIONSHIP_NAMESPACE}"><Relationship Id="rIdStyles" Type="${RELATIONSHIP_NAMESPACE}/styles" Target="styles.xml"/>${
+    logo ? `<Relationship Id="rIdLogo" Type="${RELATIONSHIP_NAMESPACE}/image" Target="media/logo.${logo.extension}"/>` : ''
+  }</Relationships>`;
+
+  return createZipArchive([
+    { name: '[Content_Types].xml', content: contentTypes },
+    { name: '_rels/.rels', content: packageRelationships },
+    { name: 'word/document.xml', content: documentXml },
+    { name: 'word/styles.xml', content: STYLES_XML },
+    { name: 'word/_rels/document.xml.rels', content: documentRelationships },
+    ...(logo ? [{ name: `word/media/logo.${logo.extension}`, content: logo.data }] : []),
+  ]);
+}
@@ -0,0 +1,110 @@
+/**
+ * Report HTML
+ * Self-contained HTML rendering of the report document with inline styles, logo and SVG diagrams
+ */
+
+import { renderModelDiagramSvg } from '@/lib/model-diagram';
+import type { ReportBlock, ReportCell, ReportDocument } from '@/lib/report-document';
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const STYLES = `
+  body { font-family: Helvetica, Arial, sans-serif; color: #0f172a; max-width: 960px; margin: 2rem auto; padding: 0 1.5rem; line-height: 1.45; }
+  h1 { font-size: 1.9rem; margin: 0.4rem 0; }
+  h2 { font-size: 1.35rem; margin-top: 2rem; border-bottom: 1px solid #cbd5e1; padding-bottom: 0.2rem; }
+  h3 { font-size: 1.1rem; margin-top: 1.4rem; }
+  table { border-collapse: collapse; width: 100%; margin: 0.6rem 0 1rem; font-size: 0.9rem; }
+  th, td { border: 1px solid #cbd5e1; padding: 0.3rem 0.5rem; text-align: left; vertical-align: top; overflow-wrap: anywhere; }
+  th { background: #f1f5f9; }
+  table.fields th { width: 35%; }
+  figure { margin: 1rem 0; text-align: center; }
+  figure svg { max-width: 100%; height: auto; }
+  figcaption, .legend, .meta { font-size: 0.85rem; color: #475569; }
+  .legend span { margin-right: 1rem; white-space: nowrap; }
+  .legend i { display: inline-block; width: 0.8rem; height: 0.8rem; margin-right: 0.3rem; vertical-align: -0.1rem; }
+  .logo { max-height: 4rem; max-width: 40%; }
+  .cover { min-height: 90vh; display: flex; flex-direction: column; justify-content: center; text-align: center; }
+  .cover .logo { max-height: 8rem; margin: 0 auto 2rem; }
+  .disclaimer { font-size: 0.85rem; margin-top: 1rem; }
+  @media print { body { margin: 0; max-width: none; } .cover { page-break-after: always; } h2 { page-break-after: avoid; } }
+`;
+
+const renderCell = (cell: ReportCell, tag: 'td' | 'th' = 'td'): string => {
+  if (typeof cell === 'string') {
+    return `<${tag}>${escapeHtml(cell)}</${tag}>`;
+  }
+  const style = cell.color ? ` style="background:${escapeHtml(cell.color)};text-align:center"` : '';
+  const title = cell.note ? ` title="${escapeHtml(cell.note)}"` : '';
+  const text = escapeHtml(cell.text);
+  return `<${tag}${style}${title}>${cell.bold ? `<strong>${text}</strong>` : text}</${tag}>`;
+};
+
+const renderBlock = (block: ReportBlock): string => {
+  switch (block.kind) {
+    case 'heading':
+      return block.level === 1 ? `<h2>${escapeHtml(block.text)}</h2>` : `<h3>${escapeHtml(block.text)}</h3>`;
+    case 'paragraph':
+      return `<p>${escapeHtml(block.text)}</p>`;
+    case 'table':
+      if (block.columns.length === 0) {
+        return `<table class="fields">${block.rows
+          .map(([label, ...values]) => `<tr>${renderCell(label, 'th')}${values.map((cell) => renderCell(cell)).join('')}</tr>`)
+          .join('')}</table>`;
+      }
+      return `<table><thead><tr>${block.columns.map((column) => renderCell(column, 'th')).join('')}</tr></thead><tbody>${block.rows
+        .map((row) => `<tr>${row.map((cell) => renderCell(cell)).join('')}</tr>`)
+        .join('')}</tbody></table>`;
+    case 'diagram':
+      return `<figure>${renderModelDiagramSvg(block.scene)}<figcaption>${escapeHtml(block.caption)}</figcaption></figure>`;
+    case 'legend':
+      return `<p class="legend">${block.entries
+        .map((entry) => `<span><i style="background:${escapeHtml(entry.color)}"></i>${escapeHtml(entry.label)}</span>`)
+        .join('')}</p>`;
+  }
+};
+
+/**
+ * Single HTML file that opens offline: styles are inline, the logo is a data
+ * URL and diagrams are inline SVG.
+ */
+export function renderReportHtml(document: ReportDocument): string {
+  const logo = document.logo ? `<img class="logo" src="${escapeHtml(document.logo)}" alt="">` : '';
+  const metadata = `<p class="meta">${document.metadata
+    .map((entry) => `<strong>${escapeHtml(entry.label)}:</strong> ${escapeHtml(entry.value)}`)
+    .join('<br>')}</p>`;
+  const disclaimer =
+    document.disclaimer.length > 0
+      ? `<div class="disclaimer"><strong>${escapeHtml(document.disclaimerTitle)}</strong>${document.disclaimer
+          .map((paragraph) => `<p>${escapeHtml(paragraph)}</p>`)
+          .join('')}</div>`
+      : '';
+  const subtitle = document.subtitle ? `<p><em>${escapeHtml(document.subtitle)}</em></p>` : '';
+  const header = document.coverPage
+    ? `<section class="cover">${logo}<h1>${escapeHtml(document.title)}</h1>${subtitle}${metadata}${disclaimer}</section>`
+    : `<header>${logo}<h1>${escapeHtml(document.title)}</h1>${subtitle}${metadata}${disclaimer}</header>`;
+
+  return [
+    '<!DOCTYPE html>',
+    `<html lang="${document.language}">`,
+    '<head>',
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    `<title>${escapeHtml(document.title)}</title>`,
+    `<style>${STYLES}</style>`,
+    '</head>',
+    '<body>',
+    header,
+    '<main>',
+    ...document.blocks.map(renderBlock),
+    '</main>',
+    '</body>',
+    '</html>',
+    '',
+  ].join('\n');
+}
@@ -0,0 +1,615 @@
+/**
+ * Report LaTeX
+ * LaTeX rendering of the report content and PDF compilation with tectonic
+ */
+
+import { spawn } from 'child_process';
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import path from 'path';
+import { tmpdir } from 'os';
+import { FOUNDATIONAL_REQUIREMENTS } from '@/lib/security-level-service';
+import { countRiskLevels, countRiskMatrix } from '@/lib/risk-method';
+import {
+  formatFileSize,
+  formatReportDate,
+  formatReportDateTime,
+  formatReportLabel,
+  reportLabels,
+  reportSectionTitle,
+} from '@/lib/report-template';
+import type { ReportSectionId } from '@/lib/report-template';
+import { DIAGRAM_BADGE_COLOR, DIAGRAM_RISK_COLORS, DIAGRAM_RISK_LEVELS, renderModelDiagramTikz } from '@/lib/model-diagram';
+import type { DiagramRiskLevel, ModelDiagramScene } from '@/lib/model-diagram';
+import type { ReportContent } from '@/lib/report-content-service';
+
+const escapeLatex = (value: string | null | undefined): string => {
+  const input = (value || '').replace(/\r?\n/g, ' ').trim();
+  return input
+    .replace(/\\/g, '\\textbackslash{}')
+    .replace(/&/g, '\\&')
+    .replace(/%/g, '\\%')
+    .replace(/\$/g, '\\$')
+    .replace(/#/g, '\\#')
+    .replace(/_/g, '\\_')
+    .replace(/{/g, '\\{')
+    .replace(/}/g, '\\}')
+    .replace(/~/g, '\\textasciitilde{}')
+    .replace(/\^/g, '\\textasciicircum{}');
+};
+
+// Blank lines separate paragraphs in free text such as the disclaimer
+const escapeLatexParagraphs = (value: string): string =>
+  value
+    .split(/\r?\n\s*\r?\n/)
+    .map(escapeLatex)
+    .filter(Boolean)
+    .join('\\par\n');
+
+
+const buildReportLatex = (params: ReportContent, logoFile: string | null): string => {
+  const { template } = params;
+  const t = reportLabels(template.language);
+  const formatDateTime = (value: Date) => formatReportDateTime(value, template.language);
+  const statusLabels: Record<string, string> = { Open: t.open, InProgress: t.inProgress, Done: t.done };
+  const priorityLabels: Record<string, string> = { Critical: t.critical, High: t.high, Medium: t.medium, Low: t.low };
+  const statusLabel = (status: string): string => statusLabels[status] || status;
+  const priorityLabel = (priority: string): string => priorityLabels[priority] || priority;
+
+  const findingsRows =
+    params.findings.length === 0
+      ? `\\multicolumn{6}{l}{${escapeLatex(t.noFindings)}} \\\\`
+      : params.findings
+          .map(
+            (finding, index) =>
+              `${index + 1} & ${escapeLatex(finding.assetName)} & ${finding.severity} & ${
+                finding.risk ? `${finding.risk.inherent.score} (${escapeLatex(finding.risk.inherent.level)})` : '-'
+              } & ${
+                finding.risk ? `${finding.risk.residual.score} (${escapeLatex(finding.risk.residual.level)})` : '-'
+              }${finding.riskAcceptedAt ? ` [${escapeLatex(t.accepted)}]` : ''} & ${escapeLatex(
+                finding.questionText
+              )} \\\\`
+          )
+          .join('\n\\midrule\n');
+
+  const ratedFindings = params.findings.flatMap((finding) => (finding.risk ? [finding.risk] : []));
+  const residualLevelCounts = countRiskLevels(
+    params.riskMethod,
+    ratedFindings.map((risk) => risk.residual)
+  );
+  const riskLevelRows = countRiskLevels(
+    params.riskMethod,
+    ratedFindings.map((risk) => risk.inherent)
+  )
+    .map((level, index) => `${escapeLatex(level.name)} & ${level.count} & ${residualLevelCounts[index].count} \\\\`)
+    .join('\n');
+  const intolerableRisks = params.findings.filter(
+    (finding) => finding.risk && !finding.risk.residual.tolerable && !finding.riskAcceptedAt
+  ).length;
+  const acceptedFindings = params.findings.filter((finding) => finding.riskAcceptedAt);
+  const riskAcceptanceRows =
+    acceptedFindings.length === 0
+      ? `\\multicolumn{4}{l}{${escapeLatex(t.noAcceptedRisks)}} \\\\`
+      : acceptedFindings
+          .map(
+            (finding) =>
+              `${escapeLatex(finding.assetName)} & ${
+                finding.risk ? escapeLatex(finding.risk.residual.level) : '-'
+              } & ${escapeLatex(finding.riskAcceptedBy?.name || finding.riskAcceptedBy?.email || t.unknown)}, ${
+                finding.riskAcceptedAt ? formatDateTime(finding.riskAcceptedAt) : '-'
+              } & ${escapeLatex(finding.riskAcceptanceNote || '-')} \\\\`
+          )
+          .join('\n\\midrule\n');
+
+  const riskMatrix = countRiskMatrix(
+    params.riskMethod,
+    ratedFindings.map((risk) => risk.residual)
+  );
+  const riskMatrixRows = riskMatrix
+    .map(
+      (row) =>
+        `${row[0].likelihood} & ${row
+          .map((cell) => `\\cellcolor[HTML]{${cell.color.slice(1)}}${cell.count > 0 ? `\\textbf{${cell.count}}` : ''}`)
+          .join(' & ')} \\\\`
+    )
+    .join('\n');
+  const riskMatrixLegend = params.riskMethod.levels
+    .map((level) => `\\colorbox[HTML]{${level.color.slice(1)}}{\\strut\\ ${escapeLatex(level.name)}\\ }`)
+    .join(' ');
+
+  const diagramLevelLabels: Record<DiagramRiskLevel, string> = {
+    critical: `${t.critical} (8-10)`,
+    high: `${t.high} (6-7)`,
+    medium: `${t.medium} (4-5)`,
+    low: `${t.low} (1-3)`,
+    unrated: t.notValued,
+  };
+  const diagramLegend = [
+    ...DIAGRAM_RISK_LEVELS.map(
+      (level) =>
+        `\\textcolor[HTML]{${DIAGRAM_RISK_COLORS[level].stroke.slice(1)}}{\\rule{8pt}{8pt}}~${escapeLatex(
+          diagramLevelLabels[level]
+        )}`
+    ),
+    `\\textcolor[HTML]{${DIAGRAM_BADGE_COLOR.slice(1)}}{\\rule{8pt}{8pt}}~${escapeLatex(t.dataObjects)}`,
+  ].join('\\quad\n');
+  // Empty scenes have no size and cannot be scaled
+  const diagramFigure = (scene: ModelDiagramScene | null, emptyLabel: string) =>
+    scene && scene.components.length + scene.containers.length > 0
+      ? `\\begin{center}\n${renderModelDiagramTikz(scene, escapeLatex)}\n\\end{center}`
+      : escapeLatex(emptyLabel);
+  const diagramIntro = params.modelDiagram.scene?.autoLayout
+    ? t.diagramIntroAuto
+    : formatReportLabel(t.diagramIntro, { view: params.modelDiagram.viewName || '-' });
+  const containerDiagrams =
+    params.containerDiagrams.length === 0
+      ? escapeLatex(t.noContainers)
+      : params.containerDiagrams
+          .map((entry) => `\\subsection*{${escapeLatex(entry.name)}}\n${diagramFigure(entry.scene, t.noModelElements)}`)
+          .join('\n\n');
+
+  const measuresRows =
+    params.measures.length === 0
+      ? `\\multicolumn{5}{l}{${escapeLatex(t.noMeasures)}} \\\\`
+      : params.measures
+          .map(
+            (measure, index) =>
+              `${index + 1} & ${escapeLatex(measure.title)} & ${escapeLatex(statusLabel(measure.status))} & ${escapeLatex(
+                priorityLabel(measure.priority)
+              )} & ${escapeLatex(measure.normReference || '-')} \\\\`
+          )
+          .join('\n\\midrule\n');
+
+  const measurePlanRows =
+    params.measurePlan.length === 0
+      ? `\\multicolumn{5}{l}{${escapeLatex(t.noOpenMeasures)}} \\\\`
+      : params.measurePlan
+          .map(
+            (measure) =>
+              `${measure.dueDate ? escapeLatex(formatReportDate(measure.dueDate, template.language)) : '-'} & ${escapeLatex(
+                measure.title
+              )} & ${escapeLatex(priorityLabel(measure.priority))} & ${escapeLatex(
+                measure.assignedTo || '-'
+              )} & ${escapeLatex(statusLabel(measure.status))} \\\\`
+          )
+          .join('\n\\midrule\n');
+
+  const assetListRows =
+    params.assetList.length === 0
+      ? `\\multicolumn{4}{l}{${escapeLatex(t.noAssets)}} \\\\`
+      : params.assetList
+          .map(
+            (asset) =>
+              `${escapeLatex(asset.name)} & ${escapeLatex(asset.type)} & ${asset.value} & ${escapeLatex(asset.source)} \\\\`
+          )
+          .join('\n');
+
+  const dataObjectRows =
+    params.dataObjects.length === 0
+      ? `\\multicolumn{6}{l}{${escapeLatex(t.noDataObjects)}} \\\\`
+      : params.dataObjects
+          .map(
+            (dataObject) =>
+              `${escapeLatex(dataObject.name)} & ${escapeLatex(dataObject.dataClass)} & ${dataObject.confidentiality} & ${
+                dataObject.integrity
+              } & ${dataObject.availability} & ${dataObject.components} / ${dataObject.interfaces} \\\\`
+          )
+          .join('\n');
+
+  const questionRows =
+    params.questions.length === 0
+      ? `\\multicolumn{4}{l}{${escapeLatex(t.noQuestions)}} \\\\`
+      : params.questions
+          .map((question) => {
+            const answers = question.answers.length === 0 ? [null] : question.answers;
+            return answers
+              .map(
+                (answer, index) =>
+                  `${index === 0 ? escapeLatex(question.normReference) : ''} & ${
+                    index === 0 ? escapeLatex(question.text) : ''
+                  } & ${escapeLatex(answer?.targetLabel || '-')} & ${
+                    answer
+                      ? `${escapeLatex(answer.answerValue)}${
+                          answer.status !== 'Approved' ? ` (${escapeLatex(answer.status)})` : ''
+                        }`
+                      : '-'
+                  } \\\\`
+              )
+              .join('\n');
+          })
+          .join('\n\\midrule\n');
+
+  const securityLevelRows =
+    !params.securityLevels || params.securityLevels.rows.length === 0
+      ? `\\multicolumn{10}{l}{${escapeLatex(t.noSecurityLevels)}} \\\\`
+      : params.securityLevels.rows
+          .map((row) => {
+            const cells = FOUNDATIONAL_REQUIREMENTS.map((fr) => {
+              const achieved = row.achieved[fr.id];
+              if (achieved === null) {
+                return '-';
+              }
+              return (row.gaps[fr.id] || 0) > 0 ? `\\textbf{${achieved}}` : String(achieved);
+            });
+            const capability =
+              row.capabilityLevel === null
+                ? '-'
+                : row.capabilityLevel < row.targetLevel
+                  ? `\\textbf{${row.capabilityLevel}}`
+                  : String(row.capabilityLevel);
+            const name = row.targetType === 'Zone' ? `Zone: ${row.name}` : row.name;
+            return `${escapeLatex(name)} & ${row.targetLevel} & ${capability} & ${cells.join(' & ')} \\\\`;
+          })
+          .join('\n');
+
+  const attackPathRows =
+    params.attackPaths.length === 0
+      ? `\\multicolumn{4}{l}{${escapeLatex(t.noAttackPaths)}} \\\\`
+      : params.attackPaths
+          .map(
+            (attackPath, index) =>
+              `${index + 1} & ${attackPath.nodeNames.map(escapeLatex).join(' $\\rightarrow$ ')} & ${
+                attackPath.hops.length
+              } & ${attackPath.cost} \\\\`
+          )
+          .join('\n\\midrule\n');
+
+  const releaseChanges = params.releaseChanges;
+  const releaseFindingRows = !releaseChanges
+    ? ''
+    : releaseChanges.comparison.findings.new.length + releaseChanges.comparison.findings.closed.length === 0
+      ? `\\multicolumn{4}{l}{${escapeLatex(t.noReleaseFindings)}} \\\\`
+      : [
+          ...releaseChanges.comparison.findings.new.map((finding) => ({ change: t.changeNew, finding })),
+          ...releaseChanges.comparison.findings.closed.map((finding) => ({ change: t.changeClosed, finding })),
+        ]
+          .map(
+            ({ change, finding }) =>
+              `${escapeLatex(change)} & ${escapeLatex(finding.assetName)} & ${
+                finding.residualScore !== null ? `${finding.residualScore} (${escapeLatex(finding.residualLevel)})` : '-'
+              } & ${escapeLatex(finding.questionText)} \\\\`
+          )
+          .join('\n\\midrule\n');
+  const formatDelta = (value: number): string => (value > 0 ? `+${value}` : String(value));
+  const releaseRiskRows = !releaseChanges
+    ? ''
+    : (
+        [
+          [t.riskFindings, 'findings'],
+          [t.riskInherentScore, 'inherentScore'],
+          [t.riskResidualScore, 'residualScore'],
+          [t.riskIntolerable, 'intolerable'],
+        ] as const
+      )
+        .map(
+          ([label, key]) =>
+            `${escapeLatex(label)} & ${releaseChanges.comparison.risk.before[key]} & ${
+              releaseChanges.comparison.risk.after[key]
+            } & ${formatDelta(releaseChanges.comparison.risk.delta[key])} \\\\`
+        )
+        .join('\n');
+  const releaseChangesSection = !releaseChanges
+    ? escapeLatex(t.noBaseline)
+    : String.raw`${escapeLatex(
+        formatReportLabel(t.releaseIntro, {
+          release: releaseChanges.baseline.releaseName,
+          date: formatDateTime(releaseChanges.baseline.createdAt),
+        })
+      )}
+
+\begin{tabular}{p{0.4\linewidth}p{0.16\linewidth}p{0.16\linewidth}p{0.16\linewidth}}
+\toprule
+ & ${escapeLatex(t.baseline)} & ${escapeLatex(t.current)} & ${escapeLatex(t.delta)} \\
+\midrule
+${releaseRiskRows}
+\midrule
+${escapeLatex(t.changedFindings)} & \multicolumn{3}{l}{${releaseChanges.comparison.findings.changed.length}} \\
+${escapeLatex(t.changedFinalAnswers)} & \multicolumn{3}{l}{${releaseChanges.comparison.finalAnswers.length}} \\
+${escapeLatex(t.changedAssetValues)} & \multicolumn{3}{l}{${releaseChanges.comparison.assetValues.length}} \\
+\bottomrule
+\end{tabular}
+
+\begin{longtable}{p{0.1\linewidth}p{0.22\linewidth}p{0.16\linewidth}p{0.44\linewidth}}
+\toprule
+${escapeLatex(t.change)} & ${escapeLatex(t.asset)} & ${escapeLatex(t.residual)} & ${escapeLatex(t.question)} \\
+\midrule
+${releaseFindingRows}
+\bottomrule
+\end{longtable}`;
+
+  const evidenceRows =
+    params.evidence.length === 0
+      ? `\\multicolumn{5}{l}{${escapeLatex(t.noEvidence)}} \\\\`
+      : params.evidence
+          .map(
+            (entry, index) =>
+              `${index + 1} & ${escapeLatex(entry.fileName)} (${formatFileSize(entry.size)}) & ${escapeLatex(
+                entry.linkType || '-'
+              )} & ${escapeLatex(entry.linkLabel)} & ${escapeLatex(entry.uploadedBy)}, ${formatDateTime(
+                entry.createdAt
+              )} \\\\\n\\multicolumn{5}{l}{\\footnotesize\\texttt{SHA-256 ${entry.sha256}}} \\\\`
+          )
+          .join('\n\\midrule\n');
+
+  // Repeats the column headings on every page of a long table
+  const longtableHead = (columns: string[]) => {
+    const columnRow = `${columns.map(escapeLatex).join(' & ')} \\\\`;
+    return `\\toprule\n${columnRow}\n\\midrule\n\\endfirsthead\n\\toprule\n${columnRow}\n\\midrule\n\\endhead`;
+  };
+  const heading = (section: ReportSectionId) => `\\section*{${escapeLatex(reportSectionTitle(template.language, section))}}`;
+
+  const sections: Record<ReportSectionId, () => string> = {
+    projectInformation: () => String.raw`${heading('projectInformation')}
+\begin{tabular}{p{0.28\linewidth}p{0.68\linewidth}}
+\toprule
+${escapeLatex(t.name)} & ${escapeLatex(params.project.name)} \\
+${escapeLatex(t.description)} & ${escapeLatex(params.project.description || t.notAvailable)} \\
+${escapeLatex(t.standard)} & ${escapeLatex(params.project.norm)} \\
+\bottomrule
+\end{tabular}`,
+    modelSummary: () => String.raw`${heading('modelSummary')}
+\begin{tabular}{p{0.36\linewidth}p{0.24\linewidth}p{0.36\linewidth}}
+\toprule
+${escapeLatex(t.containers)} & ${params.modelStats.containers} & ${escapeLatex(t.components)} ${params.modelStats.components} \\
+${escapeLatex(t.interfaces)} & ${params.modelStats.interfaces} & ${escapeLatex(t.dataObjects)} ${params.modelStats.dataObjects} \\
+\bottomrule
+\end{tabular}`,
+    modelDiagram: () => String.raw`${heading('modelDiagram')}
+${escapeLatex(diagramIntro)}
+
+${diagramFigure(params.modelDiagram.scene, t.noModelElements)}
+
+{\small ${diagramLegend}}`,
+    containerDiagrams: () => String.raw`${heading('containerDiagrams')}
+{\small ${diagramLegend}}
+
+${containerDiagrams}`,
+    assetSummary: () => String.raw`${heading('assetSummary')}
+\begin{tabular}{p{0.24\linewidth}p{0.2\linewidth}p{0.24\linewidth}p{0.2\linewidth}}
+\toprule
+${escapeLatex(t.critical)} (8-10) & ${params.assets.critical} & ${escapeLatex(t.high)} (6-7) & ${params.assets.high} \\
+${escapeLatex(t.medium)} (4-5) & ${params.assets.medium} & ${escapeLatex(t.low)} (1-3) & ${params.assets.low} \\
+\bottomrule
+\end{tabular}`,
+    assetList: () => String.raw`${heading('assetList')}
+\begin{longtable}{p{0.5\linewidth}p{0.16\linewidth}p{0.1\linewidth}p{0.14\linewidth}}
+${longtableHead([t.asset, t.type, t.value, t.source])}
+${assetListRows}
+\bottomrule
+\end{longtable}`,
+    dataObjects: () => String.raw`${heading('dataObjects')}
+\begin{longtable}{p{0.32\linewidth}p{0.2\linewidth}p{0.05\linewidth}p{0.05\linewidth}p{0.05\linewidth}p{0.17\linewidth}}
+${longtableHead([t.name, t.dataClass, 'C', 'I', 'A', `${t.usedBy} (${t.components} / ${t.interfaces})`])}
+${dataObjectRows}
+\bottomrule
+\end{longtable}`,
+    findingsSummary: () => String.raw`${heading('findingsSummary')}
+\begin{tabular}{p{0.24\linewidth}p{0.2\linewidth}p{0.24\linewidth}p{0.2\linewidth}}
+\toprule
+${escapeLatex(t.critical)} & ${params.findingsBySeverity.critical} & ${escapeLatex(t.high)} & ${params.findingsBySeverity.high} \\
+${escapeLatex(t.medium)} & ${params.findingsBySeverity.medium} & ${escapeLatex(t.low)} & ${params.findingsBySeverity.low} \\
+\bottomrule
+\end{tabular}`,
+    riskAssessment: () => String.raw`${heading('riskAssessment')}
+${escapeLatex(
+  formatReportLabel(t.riskMethodIntro, {
+    method: params.riskMethod.name,
+    likelihood: params.riskMethod.likelihood.label,
+    impact: params.riskMethod.impact.label,
+    tolerance: params.riskMethod.toleranceLevel,
+  })
+)}
+
+\begin{tabular}{p{0.4\linewidth}p{0.2\linewidth}p{0.2\linewidth}}
+\toprule
+${escapeLatex(t.riskLevel)} & ${escapeLatex(t.inherent)} & ${escapeLatex(t.residual)} \\
+\midrule
+${riskLevelRows}
+\midrule
+${escapeLatex(t.riskIntolerableOpen)} & \multicolumn{2}{l}{${intolerableRisks}} \\
+${escapeLatex(t.riskAccepted)} & \multicolumn{2}{l}{${acceptedFindings.length}} \\
+${escapeLatex(t.riskUnrated)} & \multicolumn{2}{l}{${params.findings.length - ratedFindings.length}} \\
+\bottomrule
+\end{tabular}
+
+\subsection*{${escapeLatex(t.riskAcceptance)}}
+\begin{longtable}{p{0.22\linewidth}p{0.14\linewidth}p{0.26\linewidth}p{0.3\linewidth}}
+\toprule
+${escapeLatex(t.asset)} & ${escapeLatex(t.residual)} & ${escapeLatex(t.acceptedBy)} & ${escapeLatex(t.justification)} \\
+\midrule
+${riskAcceptanceRows}
+\bottomrule
+\end{longtable}`,
+    riskMatrix: () => String.raw`${heading('riskMatrix')}
+${escapeLatex(
+  formatReportLabel(t.riskMatrixIntro, {
+    likelihood: params.riskMethod.likelihood.label,
+    impact: params.riskMethod.impact.label,
+  })
+)}${ratedFindings.length === 0 ? ` ${escapeLatex(t.noRatedFindings)}` : ''}
+
+\begin{center}
+\setlength{\tabcolsep}{4pt}
+\begin{tabular}{r|*{${params.riskMethod.impact.steps}}{c}}
+${escapeLatex(params.riskMethod.likelihood.label)} & \multicolumn{${params.riskMethod.impact.steps}}{c}{} \\
+\hline
+${riskMatrixRows}
+\hline
+ & ${Array.from({ length: params.riskMethod.impact.steps }, (_, index) => index + 1).join(' & ')} \\
+ & \multicolumn{${params.riskMethod.impact.steps}}{c}{${escapeLatex(params.riskMethod.impact.label)}} \\
+\end{tabular}
+
+\medskip
+${riskMatrixLegend}
+\end{center}`,
+    releaseChanges: () => `${heading('releaseChanges')}\n${releaseChangesSection}`,
+    securityLevels: () => String.raw`${heading('securityLevels')}
+${escapeLatex(formatReportLabel(t.securityLevelIntro, { level: params.securityLevels?.targetSecurityLevel ?? '-' }))}
+
+\begin{longtable}{p{0.26\linewidth}p{0.05\linewidth}p{0.05\linewidth}*{7}{p{0.05\linewidth}}}
+${longtableHead([t.target, 'SL-T', 'SL-C', 'FR1', 'FR2', 'FR3', 'FR4', 'FR5', 'FR6', 'FR7'])}
+${securityLevelRows}
+\bottomrule
+\end{longtable}`,
+    attackPaths: () => String.raw`${heading('attackPaths')}
+${escapeLatex(t.attackPathIntro)}
+
+\begin{longtable}{p{0.06\linewidth}p{0.64\linewidth}p{0.08\linewidth}p{0.1\linewidth}}
+${longtableHead(['#', t.path, t.hops, t.cost])}
+${attackPathRows}
+\bottomrule
+\end{longtable}`,
+    questions: () => String.raw`${heading('questions')}
+\begin{longtable}{p{0.14\linewidth}p{0.44\linewidth}p{0.18\linewidth}p{0.14\linewidth}}
+${longtableHead([t.reference, t.question, t.target, t.answer])}
+${questionRows}
+\bottomrule
+\end{longtable}`,
+    findings: () => String.raw`${heading('findings')}
+\begin{longtable}{p{0.05\linewidth}p{0.18\linewidth}p{0.06\linewidth}p{0.14\linewidth}p{0.18\linewidth}p{0.31\linewidth}}
+${longtableHead(['#', t.asset, t.severityShort, t.inherent, t.residual, t.question])}
+${findingsRows}
+\\\bottomrule
+\end{longtable}`,
+    measuresSummary: () => String.raw`${heading('measuresSummary')}
+\begin{tabular}{p{0.2\linewidth}p{0.14\linewidth}p{0.2\linewidth}p{0.14\linewidth}}
+\toprule
+${escapeLatex(t.total)} & ${params.measuresSummary.total} & ${escapeLatex(t.done)} & ${params.measuresSummary.done} \\
+${escapeLatex(t.open)} & ${params.measuresSummary.open} & ${escapeLatex(t.inProgress)} & ${params.measuresSummary.inProgress} \\
+\multicolumn{4}{p{0.94\linewidth}}{\textbf{${escapeLatex(t.completionRate)}:} ${params.measuresSummary.completionRate}\%} \\
+\bottomrule
+\end{tabular}`,
+    measurePlan: () => String.raw`${heading('measurePlan')}
+${escapeLatex(t.measurePlanIntro)}
+
+\begin{longtable}{p{0.12\linewidth}p{0.4\linewidth}p{0.12\linewidth}p{0.16\linewidth}p{0.1\linewidth}}
+${longtableHead([t.dueDate, t.title, t.priority, t.assignedTo, t.status])}
+${measurePlanRows}
+\bottomrule
+\end{longtable}`,
+    measures: () => String.raw`${heading('measures')}
+\begin{longtable}{p{0.06\linewidth}p{0.38\linewidth}p{0.14\linewidth}p{0.14\linewidth}p{0.2\linewidth}}
+${longtableHead(['#', t.title, t.status, t.priority, t.reference])}
+${measuresRows}
+\\\bottomrule
+\end{longtable}`,
+    evidence: () => String.raw`${heading('evidence')}
+${escapeLatex(t.evidenceIntro)}
+
+\begin{longtable}{p{0.05\linewidth}p{0.24\linewidth}p{0.1\linewidth}p{0.32\linewidth}p{0.19\linewidth}}
+${longtableHead(['#', t.file, t.linkedTo, t.item, t.uploaded])}
+${evidenceRows}
+\bottomrule
+\end{longtable}`,
+  };
+
+  const title = escapeLatex(template.title || `SECUDO ${t.reportTitle}`);
+  const logo = logoFile
+    ? `\\includegraphics[height=${template.coverPage ? '4cm' : '1.6cm'},width=0.4\\linewidth,keepaspectratio]{${
+        logoFile
+      }}`
+    : '';
+  const disclaimer = template.disclaimer
+    ? `{\\small \\textbf{${escapeLatex(t.disclaimer)}}\\par\n${escapeLatexParagraphs(template.disclaimer)}\\par}`
+    : '';
+  const metadataLines = [
+    `\\textbf{${escapeLatex(t.project)}:} ${escapeLatex(params.project.name)}`,
+    `\\textbf{${escapeLatex(t.standard)}:} ${escapeLatex(params.project.norm)}`,
+    ...(template.preparedBy ? [`\\textbf{${escapeLatex(t.preparedBy)}:} ${escapeLatex(template.preparedBy)}`] : []),
+    `\\textbf{${escapeLatex(t.generated)}:} ${escapeLatex(formatDateTime(params.generatedAt))}`,
+    `\\textbf{${escapeLatex(t.lastUpdate)}:} ${escapeLatex(formatDateTime(params.project.updatedAt))}`,
+  ];
+  const header = template.coverPage
+    ? String.raw`\begin{titlepage}
+\centering
+${logo ? `${logo}\\\\[2em]` : ''}
+{\Huge \textbf{${title}}\par}
+${template.subtitle ? String.raw`\vspace{1em}{\Large ${escapeLatex(template.subtitle)}\par}` : ''}
+\vspace{3em}
+${metadataLines.join('\\\\\n')}
+\vfill
+\raggedright
+${disclaimer}
+\end{titlepage}`
+    : String.raw`${logo ? `${logo}\\\\[1em]` : ''}
+{\LARGE \textbf{${title}}}\\
+${template.subtitle ? `{\\large ${escapeLatex(template.subtitle)}}\\\\\n` : ''}${metadataLines.join('\\\\\n')}
+${disclaimer ? `\n\\medskip\n${disclaimer}` : ''}`;
+
+  return String.raw`\documentclass[11pt,a4paper]{article}
+\usepackage[T1]{fontenc}
+\usepackage[utf8]{inputenc}
+\usepackage[${template.language === 'de' ? 'ngerman' : 'english'}]{babel}
+\usepackage{lmodern}
+\usepackage{geometry}
+\usepackage{longtable}
+\usepackage{array}
+\usepackage{booktabs}
+\usepackage{graphicx}
+\usepackage[table]{xcolor}
+\usepackage{tikz}
+\geometry{margin=2cm}
+\setlength{\parindent}{0pt}
+\setlength{\parskip}{0.4em}
+
+\begin{document}
+
+${header}
+
+${template.sections.map((section) => sections[section]()).join('\n\n')}
+
+\end{document}
+`;
+};
+
+const compileLatexToPdf = async (workingDirectory: string): Promise<void> => {
+  await new Promise<void>((resolve, reject) => {
+    const child = spawn('tectonic', ['--outdir', workingDirectory, 'report.tex'], {
+      cwd: workingDirectory,
+    });
+
+    let output = '';
+    child.stdout.on('data', (chunk) => {
+      output += chunk.toString();
+    });
+    child.stderr.on('data', (chunk) => {
+      output += chunk.toString();
+    });
+
+    child.on('error', (error) => {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        reject(new Error('LaTeX engine "tectonic" is not installed in this container.'));
+        return;
+      }
+      reject(error);
+    });
+
+    child.on('close', (code) => {
+      if (code === 0) {
+        resolve();
+        return;
+      }
+      reject(new Error(`LaTeX compilation failed (${code}). ${output}`));
+    });
+  });
+};
+
+/**
+ * Renders the report content to PDF in a temporary directory. The logo of
+ * the template is written next to the LaTeX source.
+ */
+export async function renderReportPdf(content: ReportContent): Promise<Buffer> {
+  const { logo } = content.template;
+  const logoFile = logo ? (logo.startsWith('data:image/png') ? 'logo.png' : 'logo.jpg') : null;
+  const workingDirectory = await mkdtemp(path.join(tmpdir(), 'secudo-report-'));
+
+  try {
+    if (logo && logoFile) {
+      await writeFile(path.join(workingDirectory, logoFile), Buffer.from(logo.split(',')[1], 'base64'));
+    }
+    await writeFile(path.join(workingDirectory, 'report.tex'), buildReportLatex(content, logoFile), 'utf8');
+    await compileLatexToPdf(workingDirectory);
+    return await readFile(path.join(workingDirectory, 'report.pdf'));
+  } finally {
+    await rm(workingDirectory, { recursive: true, force: true }).catch(() => undefined);
+  }
+}
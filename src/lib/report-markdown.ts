@@ -0,0 +1,68 @@
+/**
+ * Report Markdown
+ * GitHub-flavored Markdown rendering of the report document; diagrams are embedded as SVG data URIs
+ */
+
+import { renderModelDiagramSvg } from '@/lib/model-diagram';
+import type { ReportBlock, ReportCell, ReportDocument } from '@/lib/report-document';
+
+// Escapes characters that would start Markdown formatting or end a table cell
+const escapeMarkdown = (value: string): string =>
+  value
+    .replace(/\r?\n/g, ' ')
+    .replace(/([\\`*_[\]<>|#])/g, '\\$1')
+    .trim();
+
+const cellText = (cell: ReportCell): string => {
+  if (typeof cell === 'string') {
+    return escapeMarkdown(cell);
+  }
+  const text = cell.bold && cell.text ? `**${escapeMarkdown(cell.text)}**` : escapeMarkdown(cell.text);
+  return cell.note ? `${text ? `${text} ` : ''}(${escapeMarkdown(cell.note)})` : text;
+};
+
+const tableRow = (cells: string[]): string => `| ${cells.join(' | ')} |`;
+
+const renderBlock = (block: ReportBlock): string => {
+  switch (block.kind) {
+    case 'heading':
+      return `${block.level === 1 ? '##' : '###'} ${escapeMarkdown(block.text)}`;
+    case 'paragraph':
+      return escapeMarkdown(block.text);
+    case 'table':
+      if (block.columns.length === 0) {
+        return block.rows
+          .map(([label, ...values]) => `- **${cellText(label)}:** ${values.map(cellText).join(', ')}`)
+          .join('\n');
+      }
+      return [
+        tableRow(block.columns.map(escapeMarkdown)),
+        tableRow(block.columns.map(() => '---')),
+        ...block.rows.map((row) => tableRow(row.map(cellText))),
+      ].join('\n');
+    case 'diagram':
+      return `![${escapeMarkdown(block.caption)}](data:image/svg+xml;base64,${Buffer.from(
+        renderModelDiagramSvg(block.scene),
+        'utf8'
+      ).toString('base64')})`;
+    case 'legend':
+      return `_${block.entries.map((entry) => escapeMarkdown(entry.label)).join(' · ')}_`;
+  }
+};
+
+/**
+ * Markdown version of the report. The logo is left out; everything else
+ * matches the other formats.
+ */
+export function renderReportMarkdown(document: ReportDocument): string {
+  return [
+    `# ${escapeMarkdown(document.title)}`,
+    ...(document.subtitle ? [`_${escapeMarkdown(document.subtitle)}_`] : []),
+    document.metadata.map((entry) => `- **${escapeMarkdown(entry.label)}:** ${escapeMarkdown(entry.value)}`).join('\n'),
+    ...(document.disclaimer.length > 0
+      ? [`**${escapeMarkdown(document.disclaimerTitle)}**`, ...document.disclaimer.map((entry) => `> ${escapeMarkdown(entry)}`)]
+      : []),
+    ...document.blocks.map(renderBlock),
+    '',
+  ].join('\n\n');
+}
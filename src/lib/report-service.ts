@@ -0,0 +1,149 @@
+/**
+ * Report Service
+ * Renders reports in the selected output format and keeps every generated artifact as report history
+ */
+
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { getEvidenceStorage, normalizeEvidenceStorageBackend } from '@/lib/evidence-storage';
+import { computeSha256 } from '@/lib/evidence-service';
+import { loadReportContent } from '@/lib/report-content-service';
+import type { ReportContent } from '@/lib/report-content-service';
+import { buildReportDocument } from '@/lib/report-document';
+import { renderReportHtml } from '@/lib/report-html';
+import { renderReportMarkdown } from '@/lib/report-markdown';
+import { renderReportDocx } from '@/lib/report-docx';
+import { renderReportPdf } from '@/lib/report-latex';
+import { REPORT_FORMAT_FILES, buildReportFileName, reportLabels } from '@/lib/report-template';
+import type { ReportFormat, ReportTemplateDefinition } from '@/lib/report-template';
+
+export interface ReportGeneration {
+  projectId: string;
+  format: ReportFormat;
+  template: ReportTemplateDefinition;
+  templateName: string | null;
+  recipient?: string | null;
+  note?: string | null;
+  generatedByUserId: string | null;
+}
+
+export const reportInclude = {
+  generatedBy: { select: { id: true, name: true, email: true } },
+} satisfies Prisma.ReportInclude;
+
+// Stored next to evidence files, content-addressed like them
+const buildReportStorageKey = (projectId: string, sha256: string, fileName: string): string =>
+  `${projectId}/reports/${sha256}/${fileName}`;
+
+/**
+ * Renders the report content in the given format.
+ */
+export async function renderReport(content: ReportContent, format: ReportFormat): Promise<Buffer> {
+  if (format === 'PDF') {
+    return renderReportPdf(content);
+  }
+  const document = buildReportDocument(content);
+  if (format === 'DOCX') {
+    return renderReportDocx(document);
+  }
+  return Buffer.from(format === 'HTML' ? renderReportHtml(document) : renderReportMarkdown(document), 'utf8');
+}
+
+/**
+ * Renders a report, stores the artifact and records it in the report
+ * history. Returns null when the project does not exist.
+ */
+export async function generateReport(generation: ReportGeneration) {
+  const content = await loadReportContent(generation.projectId, generation.template);
+  if (!content) {
+    return null;
+  }
+
+  const artifact = await renderReport(content, generation.format);
+  const { mimeType } = REPORT_FORMAT_FILES[generation.format];
+  const fileName = buildReportFileName(content.project.name, generation.format);
+  const sha256 = computeSha256(artifact);
+  const storage = getEvidenceStorage();
+  const storageKey = buildReportStorageKey(generation.projectId, sha256, fileName);
+  await storage.put(storageKey, artifact, mimeType);
+
+  return prisma.report.create({
+    data: {
+      projectId: generation.projectId,
+      title: generation.template.title || `SECUDO ${reportLabels(generation.template.language).reportTitle}`,
+      generatedAt: content.generatedAt,
+      format: generation.format,
+      templateName: generation.templateName,
+      language: generation.template.language,
+      recipient: generation.recipient?.trim() || null,
+      note: generation.note?.trim() || null,
+      fileName,
+      mimeType,
+      size: artifact.length,
+      sha256,
+      storageBackend: storage.backend,
+      storageKey,
+      generatedByUserId: generation.generatedByUserId,
+    },
+    include: reportInclude,
+  });
+}
+
+/**
+ * Reads a stored report artifact and verifies it against the recorded hash.
+ * Returns null for reports without an artifact, e.g. imported ones.
+ */
+export async function readReportArtifact(report: {
+  storageBackend: string;
+  storageKey: string | null;
+  sha256: string | null;
+}): Promise<Buffer | null> {
+  if (!report.storageKey || !report.sha256) {
+    return null;
+  }
+  const content = await getEvidenceStorage(normalizeEvidenceStorageBackend(report.storageBackend)).get(
+    report.storageKey
+  );
+  if (computeSha256(content) !== report.sha256) {
+    throw new Error('Report integrity check failed');
+  }
+  return content;
+}
+
+/**
+ * Deletes report records and removes stored artifacts no other record uses.
+ * Call before deleting a project, whose reports would otherwise cascade away
+ * and leave the files behind.
+ */
+export async function deleteReports(where: Prisma.ReportWhereInput): Promise<number> {
+  const records = await prisma.report.findMany({
+    where,
+    select: { id: true, storageBackend: true, storageKey: true },
+  });
+  if (records.length === 0) {
+    return 0;
+  }
+
+  await prisma.report.deleteMany({ where: { id: { in: records.map((record) => record.id) } } });
+
+  const files = new Map(
+    records
+      .filter((record) => record.storageKey)
+      .map((record) => [`${record.storageBackend}:${record.storageKey}`, record])
+  );
+  for (const file of Array.from(files.values())) {
+    const remaining = await prisma.report.count({
+      where: { storageBackend: file.storageBackend, storageKey: file.storageKey },
+    });
+    if (remaining > 0 || !file.storageKey) {
+      continue;
+    }
+    try {
+      await getEvidenceStorage(normalizeEvidenceStorageBackend(file.storageBackend)).remove(file.storageKey);
+    } catch (error) {
+      console.error('Remove report file failed:', error);
+    }
+  }
+
+  return records.length;
+}
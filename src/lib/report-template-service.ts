@@ -0,0 +1,54 @@
+/**
+ * Report Template Service
+ * Loads organization-wide and project report templates
+ */
+
+import { prisma } from '@/lib/prisma';
+import { parseReportTemplateDefinition } from '@/lib/report-template';
+import type { ReportTemplate, ReportTemplateDefinition } from '@/lib/report-template';
+
+const toReportTemplate = (row: {
+  id: string;
+  projectId: string | null;
+  name: string;
+  definitionJson: string;
+  updatedAt: Date;
+}): ReportTemplate => ({
+  id: row.id,
+  name: row.name,
+  scope: row.projectId ? 'project' : 'organization',
+  definition: parseReportTemplateDefinition(row.definitionJson),
+  updatedAt: row.updatedAt,
+});
+
+// The embedded logo is too large for the audit log
+export const toReportTemplateAuditSnapshot = (name: string, definition: ReportTemplateDefinition) => ({
+  name,
+  ...definition,
+  logo: definition.logo ? 'embedded image' : null,
+});
+
+/**
+ * Templates a project can render with: its own ones followed by the
+ * organization-wide ones.
+ */
+export async function listReportTemplates(projectId: string): Promise<ReportTemplate[]> {
+  const rows = await prisma.reportTemplate.findMany({
+    where: { OR: [{ projectId }, { projectId: null }] },
+    orderBy: [{ name: 'asc' }, { createdAt: 'asc' }],
+  });
+  return rows
+    .map(toReportTemplate)
+    .sort((left, right) => (left.scope === right.scope ? 0 : left.scope === 'project' ? -1 : 1));
+}
+
+/**
+ * A template of the project or of the organization; null for unknown ids and
+ * for templates of other projects.
+ */
+export async function loadReportTemplate(projectId: string, templateId: string): Promise<ReportTemplate | null> {
+  const row = await prisma.reportTemplate.findFirst({
+    where: { id: templateId, OR: [{ projectId }, { projectId: null }] },
+  });
+  return row ? toReportTemplate(row) : null;
+}
@@ -0,0 +1,437 @@
+/**
+ * Report Template
+ * Report layout definition: cover page, branding, disclaimer, language and the ordered set of sections
+ */
+
+import * as z from 'zod';
+
+export const REPORT_LANGUAGES = ['en', 'de'] as const;
+
+export type ReportLanguage = (typeof REPORT_LANGUAGES)[number];
+
+export const REPORT_SECTION_IDS = [
+  'projectInformation',
+  'modelSummary',
+  'modelDiagram',
+  'containerDiagrams',
+  'assetSummary',
+  'assetList',
+  'dataObjects',
+  'findingsSummary',
+  'riskAssessment',
+  'riskMatrix',
+  'releaseChanges',
+  'securityLevels',
+  'attackPaths',
+  'questions',
+  'findings',
+  'measuresSummary',
+  'measurePlan',
+  'measures',
+  'evidence',
+] as const;
+
+export type ReportSectionId = (typeof REPORT_SECTION_IDS)[number];
+
+export const REPORT_FORMATS = ['PDF', 'HTML', 'DOCX', 'Markdown'] as const;
+
+export type ReportFormat = (typeof REPORT_FORMATS)[number];
+
+export const REPORT_FORMAT_FILES: Record<ReportFormat, { extension: string; mimeType: string }> = {
+  PDF: { extension: 'pdf', mimeType: 'application/pdf' },
+  HTML: { extension: 'html', mimeType: 'text/html; charset=utf-8' },
+  DOCX: { extension: 'docx', mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' },
+  Markdown: { extension: 'md', mimeType: 'text/markdown; charset=utf-8' },
+};
+
+export const buildReportFileName = (projectName: string, format: ReportFormat): string => {
+  const sanitized = projectName
+    .replace(/[^a-zA-Z0-9-_ ]+/g, '')
+    .trim()
+    .replace(/\s+/g, '-')
+    .toLowerCase();
+  return `${sanitized || 'secudo'}-report.${REPORT_FORMAT_FILES[format].extension}`;
+};
+
+// PNG or JPEG logos are embedded as data URLs; ~375 KB decoded
+export const MAX_REPORT_LOGO_LENGTH = 500_000;
+const LOGO_DATA_URL_PATTERN = /^data:image\/(png|jpeg);base64,[A-Za-z0-9+/]+={0,2}$/;
+
+export const ReportTemplateDefinitionSchema = z.object({
+  language: z.enum(REPORT_LANGUAGES).default('en'),
+  // Separate title page; otherwise the report starts with a compact header
+  coverPage: z.boolean().default(false),
+  title: z.string().trim().max(200).optional(),
+  subtitle: z.string().trim().max(300).optional(),
+  preparedBy: z.string().trim().max(200).optional(),
+  logo: z
+    .string()
+    .max(MAX_REPORT_LOGO_LENGTH)
+    .regex(LOGO_DATA_URL_PATTERN, 'Logo must be a PNG or JPEG data URL')
+    .optional(),
+  disclaimer: z.string().trim().max(5000).optional(),
+  sections: z
+    .array(z.enum(REPORT_SECTION_IDS))
+    .min(1)
+    .refine((sections) => new Set(sections).size === sections.length, { message: 'Sections must be unique' }),
+});
+
+export type ReportTemplateDefinition = z.infer<typeof ReportTemplateDefinitionSchema>;
+
+export type ReportTemplateScope = 'project' | 'organization';
+
+export interface ReportTemplate {
+  id: string;
+  name: string;
+  scope: ReportTemplateScope;
+  definition: ReportTemplateDefinition;
+  updatedAt: Date;
+}
+
+// Section order of the built-in report
+export const DEFAULT_REPORT_TEMPLATE: ReportTemplateDefinition = {
+  language: 'en',
+  coverPage: false,
+  sections: [
+    'projectInformation',
+    'modelSummary',
+    'modelDiagram',
+    'assetSummary',
+    'findingsSummary',
+    'riskAssessment',
+    'releaseChanges',
+    'securityLevels',
+    'attackPaths',
+    'findings',
+    'measuresSummary',
+    'measures',
+    'evidence',
+  ],
+};
+
+/**
+ * Parses a stored template definition. Invalid definitions fall back to the
+ * built-in report so rendering never fails on a broken template.
+ */
+export function parseReportTemplateDefinition(raw: string | null | undefined): ReportTemplateDefinition {
+  if (!raw) {
+    return DEFAULT_REPORT_TEMPLATE;
+  }
+  try {
+    const parsed = ReportTemplateDefinitionSchema.safeParse(JSON.parse(raw));
+    return parsed.success ? parsed.data : DEFAULT_REPORT_TEMPLATE;
+  } catch {
+    return DEFAULT_REPORT_TEMPLATE;
+  }
+}
+
+export const serializeReportTemplateDefinition = (definition: ReportTemplateDefinition): string =>
+  JSON.stringify(definition);
+
+const EN_LABELS = {
+  reportTitle: 'Security Assessment Report',
+  project: 'Project',
+  standard: 'Standard',
+  generated: 'Generated',
+  lastUpdate: 'Last Project Update',
+  preparedBy: 'Prepared by',
+  disclaimer: 'Disclaimer',
+  name: 'Name',
+  description: 'Description',
+  notAvailable: 'n/a',
+  containers: 'Containers',
+  components: 'Components',
+  interfaces: 'Interfaces',
+  dataObjects: 'Data Objects',
+  critical: 'Critical',
+  high: 'High',
+  medium: 'Medium',
+  low: 'Low',
+  asset: 'Asset',
+  type: 'Type',
+  value: 'Value',
+  source: 'Source',
+  dataClass: 'Class',
+  usedBy: 'Used by',
+  question: 'Question',
+  target: 'Target',
+  answer: 'Answer',
+  status: 'Status',
+  reference: 'Reference',
+  severityShort: 'Sev.',
+  inherent: 'Inherent',
+  residual: 'Residual',
+  riskLevel: 'Risk Level',
+  acceptedBy: 'Accepted by',
+  justification: 'Justification',
+  unknown: 'Unknown',
+  accepted: 'accepted',
+  title: 'Title',
+  priority: 'Priority',
+  assignedTo: 'Assigned to',
+  dueDate: 'Due',
+  total: 'Total',
+  open: 'Open',
+  inProgress: 'In Progress',
+  done: 'Done',
+  completionRate: 'Completion Rate',
+  path: 'Path',
+  hops: 'Hops',
+  cost: 'Cost',
+  file: 'File',
+  linkedTo: 'Linked to',
+  item: 'Item',
+  uploaded: 'Uploaded',
+  baseline: 'Baseline',
+  current: 'Current',
+  delta: 'Delta',
+  change: 'Change',
+  changeNew: 'New',
+  changeClosed: 'Closed',
+  riskFindings: 'Findings',
+  riskInherentScore: 'Inherent risk score',
+  riskResidualScore: 'Residual risk score',
+  riskIntolerable: 'Residual above tolerance',
+  riskIntolerableOpen: 'Residual above tolerance, not accepted',
+  riskAccepted: 'Residual risk accepted',
+  riskUnrated: 'Without asset value',
+  changedFindings: 'Changed findings',
+  changedFinalAnswers: 'Changed final answers',
+  changedAssetValues: 'Changed asset values',
+  riskAcceptance: 'Risk Acceptance',
+  riskMethodIntro:
+    'Method: {method} ({likelihood} from the finding likelihood or severity, {impact} from the finding impact or asset value). Tolerated up to: {tolerance}. Residual risk applies the expected reduction of done measures in full and of measures in progress by half.',
+  riskMatrixIntro:
+    'Residual risk of rated findings per {likelihood} and {impact} step. Cells are colored by risk level; the number is the count of findings.',
+  releaseIntro: 'Compared with the baseline of release {release}, frozen on {date}. Risk scores are summed over rated findings.',
+  securityLevelIntro:
+    'Achieved security level (SL-A) per IEC 62443 foundational requirement compared to the target security level (SL-T), next to the declared capability level (SL-C) of the components. Bold values are below target. Project default SL-T: {level}.',
+  attackPathIntro:
+    'Cheapest routes from external entry points to critical assets. Open findings and missing controls lower the cost of a hop.',
+  measurePlanIntro: 'Open and in-progress measures ordered by due date and priority.',
+  evidenceIntro:
+    'Files attached as proof to answers, findings and measures. The SHA-256 hash identifies the exact file that was assessed.',
+  noFindings: 'No findings identified.',
+  noAcceptedRisks: 'No residual risks accepted.',
+  noMeasures: 'No measures available.',
+  noOpenMeasures: 'No open measures.',
+  noAssets: 'No assets valued.',
+  noDataObjects: 'No data objects defined.',
+  noQuestions: 'No questions in the assessment.',
+  noSecurityLevels: 'No components or zones assessed.',
+  noAttackPaths: 'No attack paths from entry points to critical assets found.',
+  noEvidence: 'No evidence attached.',
+  noBaseline: 'No release baseline has been frozen yet.',
+  noReleaseFindings: 'No findings added or closed.',
+  noRatedFindings: 'No rated findings.',
+  noModelElements: 'The model has no elements yet.',
+  noContainers: 'The model has no containers with content.',
+  notValued: 'Not valued',
+  diagramIntro:
+    'Layout of the diagram view "{view}". Components and interfaces are colored by asset value; the cyan badge counts the data objects they process or transfer.',
+  diagramIntroAuto:
+    'Automatic layout, as not every element is placed in a diagram view. Components and interfaces are colored by asset value; the cyan badge counts the data objects they process or transfer.',
+  diagramNotEmbedded: 'The diagram "{name}" is included in the PDF and HTML report.',
+  sectionProjectInformation: 'Project Information',
+  sectionModelSummary: 'Canonical Model Summary',
+  sectionModelDiagram: 'Canonical Model Diagram',
+  sectionContainerDiagrams: 'Container Detail Diagrams',
+  sectionAssetSummary: 'Asset Valuation Summary',
+  sectionAssetList: 'Asset List',
+  sectionDataObjects: 'Data Object Overview',
+  sectionFindingsSummary: 'Findings Summary',
+  sectionRiskAssessment: 'Risk Assessment',
+  sectionRiskMatrix: 'Risk Matrix',
+  sectionReleaseChanges: 'Changes Since Last Release',
+  sectionSecurityLevels: 'Security Level Gap Analysis',
+  sectionAttackPaths: 'Top Attack Paths',
+  sectionQuestions: 'Questions and Final Answers',
+  sectionFindings: 'Detailed Findings',
+  sectionMeasuresSummary: 'Measures Summary',
+  sectionMeasurePlan: 'Measure Plan',
+  sectionMeasures: 'Detailed Measures',
+  sectionEvidence: 'Appendix: Evidence Register',
+};
+
+export type ReportLabels = typeof EN_LABELS;
+
+const DE_LABELS: ReportLabels = {
+  reportTitle: 'Bericht zur Sicherheitsbewertung',
+  project: 'Projekt',
+  standard: 'Norm',
+  generated: 'Erstellt',
+  lastUpdate: 'Letzte Projektänderung',
+  preparedBy: 'Erstellt von',
+  disclaimer: 'Haftungsausschluss',
+  name: 'Name',
+  description: 'Beschreibung',
+  notAvailable: 'k. A.',
+  containers: 'Container',
+  components: 'Komponenten',
+  interfaces: 'Schnittstellen',
+  dataObjects: 'Datenobjekte',
+  critical: 'Kritisch',
+  high: 'Hoch',
+  medium: 'Mittel',
+  low: 'Niedrig',
+  asset: 'Asset',
+  type: 'Typ',
+  value: 'Wert',
+  source: 'Quelle',
+  dataClass: 'Klasse',
+  usedBy: 'Verwendet von',
+  question: 'Frage',
+  target: 'Ziel',
+  answer: 'Antwort',
+  status: 'Status',
+  reference: 'Referenz',
+  severityShort: 'Schw.',
+  inherent: 'Inhärent',
+  residual: 'Restrisiko',
+  riskLevel: 'Risikostufe',
+  acceptedBy: 'Akzeptiert von',
+  justification: 'Begründung',
+  unknown: 'Unbekannt',
+  accepted: 'akzeptiert',
+  title: 'Titel',
+  priority: 'Priorität',
+  assignedTo: 'Zuständig',
+  dueDate: 'Fällig',
+  total: 'Gesamt',
+  open: 'Offen',
+  inProgress: 'In Arbeit',
+  done: 'Erledigt',
+  completionRate: 'Umsetzungsgrad',
+  path: 'Pfad',
+  hops: 'Schritte',
+  cost: 'Kosten',
+  file: 'Datei',
+  linkedTo: 'Verknüpft mit',
+  item: 'Element',
+  uploaded: 'Hochgeladen',
+  baseline: 'Baseline',
+  current: 'Aktuell',
+  delta: 'Differenz',
+  change: 'Änderung',
+  changeNew: 'Neu',
+  changeClosed: 'Geschlossen',
+  riskFindings: 'Befunde',
+  riskInherentScore: 'Summe inhärentes Risiko',
+  riskResidualScore: 'Summe Restrisiko',
+  riskIntolerable: 'Restrisiko über Toleranz',
+  riskIntolerableOpen: 'Restrisiko über Toleranz, nicht akzeptiert',
+  riskAccepted: 'Akzeptierte Restrisiken',
+  riskUnrated: 'Ohne Asset-Wert',
+  changedFindings: 'Geänderte Befunde',
+  changedFinalAnswers: 'Geänderte finale Antworten',
+  changedAssetValues: 'Geänderte Asset-Werte',
+  riskAcceptance: 'Risikoakzeptanz',
+  riskMethodIntro:
+    'Methode: {method} ({likelihood} aus der Eintrittswahrscheinlichkeit oder Schwere des Befunds, {impact} aus der Auswirkung des Befunds oder dem Asset-Wert). Toleriert bis: {tolerance}. Das Restrisiko berücksichtigt die erwartete Reduktion erledigter Maßnahmen vollständig und die von Maßnahmen in Arbeit zur Hälfte.',
+  riskMatrixIntro:
+    'Restrisiko bewerteter Befunde je Stufe von {likelihood} und {impact}. Die Farbe zeigt die Risikostufe, die Zahl die Anzahl der Befunde.',
+  releaseIntro:
+    'Vergleich mit der Baseline des Release {release}, eingefroren am {date}. Risikowerte sind über alle bewerteten Befunde summiert.',
+  securityLevelIntro:
+    'Erreichtes Security Level (SL-A) je grundlegender Anforderung nach IEC 62443 im Vergleich zum Ziel-Security-Level (SL-T), neben dem deklarierten Capability-Level (SL-C) der Komponenten. Fett gedruckte Werte liegen unter dem Ziel. Projektstandard SL-T: {level}.',
+  attackPathIntro:
+    'Günstigste Wege von externen Einstiegspunkten zu kritischen Assets. Offene Befunde und fehlende Maßnahmen senken die Kosten eines Schritts.',
+  measurePlanIntro: 'Offene und laufende Maßnahmen, sortiert nach Fälligkeit und Priorität.',
+  evidenceIntro:
+    'Als Nachweis an Antworten, Befunde und Maßnahmen angehängte Dateien. Der SHA-256-Hash identifiziert die bewertete Datei eindeutig.',
+  noFindings: 'Keine Befunde festgestellt.',
+  noAcceptedRisks: 'Keine Restrisiken akzeptiert.',
+  noMeasures: 'Keine Maßnahmen vorhanden.',
+  noOpenMeasures: 'Keine offenen Maßnahmen.',
+  noAssets: 'Keine Assets bewertet.',
+  noDataObjects: 'Keine Datenobjekte definiert.',
+  noQuestions: 'Keine Fragen in der Bewertung.',
+  noSecurityLevels: 'Keine Komponenten oder Zonen bewertet.',
+  noAttackPaths: 'Keine Angriffspfade von Einstiegspunkten zu kritischen Assets gefunden.',
+  noEvidence: 'Keine Nachweise angehängt.',
+  noBaseline: 'Es wurde noch keine Release-Baseline eingefroren.',
+  noReleaseFindings: 'Keine Befunde hinzugekommen oder geschlossen.',
+  noRatedFindings: 'Keine bewerteten Befunde.',
+  noModelElements: 'Das Modell enthält noch keine Elemente.',
+  noContainers: 'Das Modell enthält keine Container mit Inhalt.',
+  notValued: 'Nicht bewertet',
+  diagramIntro:
+    'Anordnung der Diagrammansicht „{view}“. Komponenten und Schnittstellen sind nach Asset-Wert eingefärbt; das türkise Abzeichen zählt die verarbeiteten oder übertragenen Datenobjekte.',
+  diagramIntroAuto:
+    'Automatische Anordnung, da nicht jedes Element in einer Diagrammansicht platziert ist. Komponenten und Schnittstellen sind nach Asset-Wert eingefärbt; das türkise Abzeichen zählt die verarbeiteten oder übertragenen Datenobjekte.',
+  diagramNotEmbedded: 'Das Diagramm „{name}“ ist im PDF- und HTML-Bericht enthalten.',
+  sectionProjectInformation: 'Projektinformationen',
+  sectionModelSummary: 'Übersicht kanonisches Modell',
+  sectionModelDiagram: 'Diagramm des kanonischen Modells',
+  sectionContainerDiagrams: 'Detaildiagramme der Container',
+  sectionAssetSummary: 'Übersicht Asset-Bewertung',
+  sectionAssetList: 'Asset-Liste',
+  sectionDataObjects: 'Übersicht Datenobjekte',
+  sectionFindingsSummary: 'Übersicht Befunde',
+  sectionRiskAssessment: 'Risikobewertung',
+  sectionRiskMatrix: 'Risikomatrix',
+  sectionReleaseChanges: 'Änderungen seit dem letzten Release',
+  sectionSecurityLevels: 'Security-Level-Lückenanalyse',
+  sectionAttackPaths: 'Wichtigste Angriffspfade',
+  sectionQuestions: 'Fragen und finale Antworten',
+  sectionFindings: 'Befunde im Detail',
+  sectionMeasuresSummary: 'Übersicht Maßnahmen',
+  sectionMeasurePlan: 'Maßnahmenplan',
+  sectionMeasures: 'Maßnahmen im Detail',
+  sectionEvidence: 'Anhang: Nachweisverzeichnis',
+};
+
+const REPORT_LABELS: Record<ReportLanguage, ReportLabels> = { en: EN_LABELS, de: DE_LABELS };
+
+export const reportLabels = (language: ReportLanguage): ReportLabels => REPORT_LABELS[language];
+
+const SECTION_LABEL_KEYS: Record<ReportSectionId, keyof ReportLabels> = {
+  projectInformation: 'sectionProjectInformation',
+  modelSummary: 'sectionModelSummary',
+  modelDiagram: 'sectionModelDiagram',
+  containerDiagrams: 'sectionContainerDiagrams',
+  assetSummary: 'sectionAssetSummary',
+  assetList: 'sectionAssetList',
+  dataObjects: 'sectionDataObjects',
+  findingsSummary: 'sectionFindingsSummary',
+  riskAssessment: 'sectionRiskAssessment',
+  riskMatrix: 'sectionRiskMatrix',
+  releaseChanges: 'sectionReleaseChanges',
+  securityLevels: 'sectionSecurityLevels',
+  attackPaths: 'sectionAttackPaths',
+  questions: 'sectionQuestions',
+  findings: 'sectionFindings',
+  measuresSummary: 'sectionMeasuresSummary',
+  measurePlan: 'sectionMeasurePlan',
+  measures: 'sectionMeasures',
+  evidence: 'sectionEvidence',
+};
+
+export const reportSectionTitle = (language: ReportLanguage, section: ReportSectionId): string =>
+  REPORT_LABELS[language][SECTION_LABEL_KEYS[section]];
+
+/**
+ * Fills `{name}` placeholders of a label; unknown placeholders are kept.
+ */
+export const formatReportLabel = (label: string, values: Record<string, string | number>): string =>
+  label.replace(/\{(\w+)\}/g, (placeholder, key: string) => (key in values ? String(values[key]) : placeholder));
+
+const DATE_LOCALES: Record<ReportLanguage, string> = { en: 'en-US', de: 'de-DE' };
+
+export const formatReportDateTime = (value: Date, language: ReportLanguage): string =>
+  new Intl.DateTimeFormat(DATE_LOCALES[language], {
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  }).format(value);
+
+export const formatReportDate = (value: Date, language: ReportLanguage): string =>
+  new Intl.DateTimeFormat(DATE_LOCALES[language], { year: 'numeric', month: '2-digit', day: '2-digit' }).format(value);
+
+export const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
@@ -0,0 +1,354 @@
+/**
+ * Risk Method
+ * Project-level risk methodology: axes, scales, formula or lookup matrix, levels and tolerance
+ */
+
+import * as z from 'zod';
+
+export const RISK_FORMULAS = ['Product', 'Sum', 'Matrix'] as const;
+
+const RiskAxisSchema = z.object({
+  label: z.string().trim().min(1),
+  // Number of steps the 1-10 input (severity or asset value) is scaled onto
+  steps: z.number().int().min(2).max(10),
+});
+
+const RiskLevelSchema = z.object({
+  name: z.string().trim().min(1),
+  minScore: z.number().min(0),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/),
+});
+
+export const RiskMethodSchema = z
+  .object({
+    key: z.string().trim().min(1),
+    name: z.string().trim().min(1),
+    // Likelihood is scaled from the finding severity, impact from the asset value.
+    likelihood: RiskAxisSchema,
+    impact: RiskAxisSchema,
+    formula: z.enum(RISK_FORMULAS),
+    // Normalizes Product/Sum results onto 0..maxScore; raw results are used when omitted.
+    maxScore: z.number().positive().optional(),
+    // Level name per [likelihood - 1][impact - 1], required for the Matrix formula.
+    matrix: z.array(z.array(z.string())).optional(),
+    // Ordered from lowest to highest risk.
+    levels: z.array(RiskLevelSchema).min(1),
+    // Highest level that is still tolerated without treatment.
+    toleranceLevel: z.string().trim().min(1),
+  })
+  .superRefine((method, context) => {
+    const levelNames = method.levels.map((level) => level.name);
+    if (new Set(levelNames).size !== levelNames.length) {
+      context.addIssue({ code: z.ZodIssueCode.custom, path: ['levels'], message: 'Level names must be unique' });
+    }
+    if (method.levels.some((level, index) => index > 0 && level.minScore < method.levels[index - 1].minScore)) {
+      context.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['levels'],
+        message: 'Levels must be ordered by ascending minimum score',
+      });
+    }
+    if (!levelNames.includes(method.toleranceLevel)) {
+      context.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['toleranceLevel'],
+        message: 'Tolerance level must be one of the defined levels',
+      });
+    }
+    if (method.formula === 'Matrix') {
+      const matrix = method.matrix || [];
+      const isComplete =
+        matrix.length === method.likelihood.steps &&
+        matrix.every(
+          (row) => row.length === method.impact.steps && row.every((levelName) => levelNames.includes(levelName))
+        );
+      if (!isComplete) {
+        context.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['matrix'],
+          message: 'Matrix must map every likelihood/impact step to a defined level',
+        });
+      }
+    }
+  });
+
+export type RiskMethod = z.infer<typeof RiskMethodSchema>;
+
+export interface RiskEvaluation {
+  score: number;
+  level: string;
+  color: string;
+  likelihood: number;
+  impact: number;
+  tolerable: boolean;
+}
+
+export const DEFAULT_RISK_METHOD: RiskMethod = {
+  key: 'secudo-default',
+  name: 'Asset value x severity',
+  likelihood: { label: 'Severity', steps: 10 },
+  impact: { label: 'Asset value', steps: 10 },
+  formula: 'Product',
+  maxScore: 100,
+  levels: [
+    { name: 'Low', minScore: 1, color: '#22C55E' },
+    { name: 'Medium', minScore: 21, color: '#FBBF24' },
+    { name: 'High', minScore: 51, color: '#F97316' },
+    { name: 'Critical', minScore: 81, color: '#EF4444' },
+  ],
+  toleranceLevel: 'Medium',
+};
+
+export const RISK_METHOD_PRESETS: RiskMethod[] = [
+  DEFAULT_RISK_METHOD,
+  {
+    key: 'matrix-5x5',
+    name: '5x5 likelihood/impact matrix',
+    likelihood: { label: 'Likelihood', steps: 5 },
+    impact: { label: 'Impact', steps: 5 },
+    formula: 'Matrix',
+    matrix: [
+      ['Low', 'Low', 'Low', 'Medium', 'Medium'],
+      ['Low', 'Low', 'Medium', 'Medium', 'High'],
+      ['Low', 'Medium', 'Medium', 'High', 'High'],
+      ['Medium', 'Medium', 'High', 'High', 'Critical'],
+      ['Medium', 'High', 'High', 'Critical', 'Critical'],
+    ],
+    levels: [
+      { name: 'Low', minScore: 1, color: '#22C55E' },
+      { name: 'Medium', minScore: 5, color: '#FBBF24' },
+      { name: 'High', minScore: 10, color: '#F97316' },
+      { name: 'Critical', minScore: 17, color: '#EF4444' },
+    ],
+    toleranceLevel: 'Medium',
+  },
+  {
+    key: 'iso-27005',
+    name: 'ISO/IEC 27005 (likelihood + consequence)',
+    likelihood: { label: 'Likelihood', steps: 5 },
+    impact: { label: 'Consequence', steps: 5 },
+    formula: 'Sum',
+    levels: [
+      { name: 'Low', minScore: 2, color: '#22C55E' },
+      { name: 'Medium', minScore: 5, color: '#FBBF24' },
+      { name: 'High', minScore: 7, color: '#F97316' },
+      { name: 'Very High', minScore: 9, color: '#EF4444' },
+    ],
+    toleranceLevel: 'Medium',
+  },
+  {
+    key: 'iec-62443-3-2',
+    name: 'IEC 62443-3-2 risk tolerance matrix',
+    likelihood: { label: 'Likelihood', steps: 5 },
+    impact: { label: 'Consequence', steps: 5 },
+    formula: 'Matrix',
+    matrix: [
+      ['Acceptable', 'Acceptable', 'Acceptable', 'Tolerable', 'Tolerable'],
+      ['Acceptable', 'Acceptable', 'Tolerable', 'Tolerable', 'Intolerable'],
+      ['Acceptable', 'Tolerable', 'Tolerable', 'Intolerable', 'Intolerable'],
+      ['Tolerable', 'Tolerable', 'Intolerable', 'Intolerable', 'Intolerable'],
+      ['Tolerable', 'Intolerable', 'Intolerable', 'Intolerable', 'Intolerable'],
+    ],
+    levels: [
+      { name: 'Acceptable', minScore: 1, color: '#22C55E' },
+      { name: 'Tolerable', minScore: 4, color: '#FBBF24' },
+      { name: 'Intolerable', minScore: 10, color: '#EF4444' },
+    ],
+    toleranceLevel: 'Tolerable',
+  },
+  {
+    key: 'cvss-like',
+    name: 'CVSS-like score (0-10)',
+    likelihood: { label: 'Exploitability', steps: 10 },
+    impact: { label: 'Impact', steps: 10 },
+    formula: 'Product',
+    maxScore: 10,
+    levels: [
+      { name: 'Low', minScore: 0, color: '#22C55E' },
+      { name: 'Medium', minScore: 4, color: '#FBBF24' },
+      { name: 'High', minScore: 7, color: '#F97316' },
+      { name: 'Critical', minScore: 9, color: '#EF4444' },
+    ],
+    toleranceLevel: 'Medium',
+  },
+];
+
+/**
+ * Parses a stored risk method definition. Missing or invalid definitions fall
+ * back to the default method so findings can always be rated.
+ */
+export function parseRiskMethod(raw: string | null | undefined): RiskMethod {
+  if (!raw) {
+    return DEFAULT_RISK_METHOD;
+  }
+  try {
+    const parsed = RiskMethodSchema.safeParse(JSON.parse(raw));
+    return parsed.success ? parsed.data : DEFAULT_RISK_METHOD;
+  } catch {
+    return DEFAULT_RISK_METHOD;
+  }
+}
+
+export const serializeRiskMethod = (method: RiskMethod): string => JSON.stringify(method);
+
+// Scales a 1-10 rating onto 1..steps.
+const scaleToAxis = (value: number, steps: number): number => {
+  const rating = Math.min(10, Math.max(1, Math.round(value)));
+  return Math.min(steps, Math.max(1, Math.ceil((rating * steps) / 10)));
+};
+
+const roundScore = (value: number): number => Math.round(value * 10) / 10;
+
+export function evaluateRisk(
+  method: RiskMethod,
+  input: { assetValue: number; findingSeverity: number }
+): RiskEvaluation {
+  return evaluateRiskCell(
+    method,
+    scaleToAxis(input.findingSeverity, method.likelihood.steps),
+    scaleToAxis(input.assetValue, method.impact.steps)
+  );
+}
+
+/**
+ * Rates one cell of the method's likelihood/impact grid (1-based axis steps).
+ */
+export function evaluateRiskCell(method: RiskMethod, likelihood: number, impact: number): RiskEvaluation {
+  const isSum = method.formula === 'Sum';
+  const rawScore = isSum ? likelihood + impact : likelihood * impact;
+  const rawMaximum = isSum
+    ? method.likelihood.steps + method.impact.steps
+    : method.likelihood.steps * method.impact.steps;
+  const score = method.maxScore ? roundScore((rawScore / rawMaximum) * method.maxScore) : rawScore;
+
+  let levelIndex = 0;
+  if (method.formula === 'Matrix') {
+    const levelName = method.matrix?.[likelihood - 1]?.[impact - 1];
+    levelIndex = Math.max(0, method.levels.findIndex((level) => level.name === levelName));
+  } else {
+    method.levels.forEach((level, index) => {
+      if (score >= level.minScore) {
+        levelIndex = index;
+      }
+    });
+  }
+
+  const level = method.levels[levelIndex];
+  const toleranceIndex = method.levels.findIndex((entry) => entry.name === method.toleranceLevel);
+
+  return {
+    score,
+    level: level.name,
+    color: level.color,
+    likelihood,
+    impact,
+    tolerable: toleranceIndex < 0 || levelIndex <= toleranceIndex,
+  };
+}
+
+/**
+ * Counts evaluations per level, in the order of the method's levels.
+ */
+export function countRiskLevels(
+  method: RiskMethod,
+  evaluations: RiskEvaluation[]
+): Array<{ name: string; color: string; count: number }> {
+  return method.levels.map((level) => ({
+    name: level.name,
+    color: level.color,
+    count: evaluations.filter((evaluation) => evaluation.level === level.name).length,
+  }));
+}
+
+export interface RiskMatrixCell extends RiskEvaluation {
+  count: number;
+}
+
+/**
+ * Likelihood/impact grid of the method with the number of evaluations per cell.
+ * Rows run from the highest likelihood down, columns from the lowest impact up.
+ */
+export function countRiskMatrix(method: RiskMethod, evaluations: RiskEvaluation[]): RiskMatrixCell[][] {
+  return Array.from({ length: method.likelihood.steps }, (_, row) => {
+    const likelihood = method.likelihood.steps - row;
+    return Array.from({ length: method.impact.steps }, (__, column) => ({
+      ...evaluateRiskCell(method, likelihood, column + 1),
+      count: evaluations.filter((evaluation) => evaluation.likelihood === likelihood && evaluation.impact === column + 1)
+        .length,
+    }));
+  });
+}
+
+// Measures in progress count with this share of their expected reduction.
+export const IN_PROGRESS_REDUCTION_SHARE = 0.5;
+
+export interface RiskReducingMeasure {
+  status: string;
+  likelihoodReduction: number; // 0-100 %
+  impactReduction: number; // 0-100 %
+}
+
+export interface FindingRiskEvaluation {
+  inherent: RiskEvaluation;
+  residual: RiskEvaluation;
+  residualLikelihood: number;
+  residualImpact: number;
+}
+
+const effectiveReductionShare = (status: string): number => {
+  if (status === 'Done') return 1;
+  if (status === 'InProgress') return IN_PROGRESS_REDUCTION_SHARE;
+  return 0;
+};
+
+/**
+ * Residual likelihood and impact after measures. Done measures apply their full
+ * expected reduction, measures in progress half of it; several reductions compound.
+ */
+export function computeResidualRatings(
+  inherent: { likelihood: number; impact: number },
+  measures: RiskReducingMeasure[]
+): { likelihood: number; impact: number } {
+  const remaining = measures.reduce(
+    (current, measure) => {
+      const share = effectiveReductionShare(measure.status);
+      const likelihoodReduction = Math.min(100, Math.max(0, measure.likelihoodReduction)) / 100;
+      const impactReduction = Math.min(100, Math.max(0, measure.impactReduction)) / 100;
+      return {
+        likelihood: current.likelihood * (1 - likelihoodReduction * share),
+        impact: current.impact * (1 - impactReduction * share),
+      };
+    },
+    { likelihood: 1, impact: 1 }
+  );
+
+  return {
+    likelihood: Math.max(1, Math.round(inherent.likelihood * remaining.likelihood)),
+    impact: Math.max(1, Math.round(inherent.impact * remaining.impact)),
+  };
+}
+
+/**
+ * Inherent and residual risk of a finding. Likelihood falls back to the finding
+ * severity and impact to the asset value when they were not rated separately.
+ */
+export function evaluateFindingRisk(
+  method: RiskMethod,
+  finding: { severity: number; likelihood?: number | null; impact?: number | null },
+  assetValue: number | null | undefined,
+  measures: RiskReducingMeasure[]
+): FindingRiskEvaluation | null {
+  const likelihood = finding.likelihood ?? finding.severity;
+  const impact = finding.impact ?? assetValue;
+  if (impact === null || impact === undefined) {
+    return null;
+  }
+
+  const residual = computeResidualRatings({ likelihood, impact }, measures);
+  return {
+    inherent: evaluateRisk(method, { assetValue: impact, findingSeverity: likelihood }),
+    residual: evaluateRisk(method, { assetValue: residual.impact, findingSeverity: residual.likelihood }),
+    residualLikelihood: residual.likelihood,
+    residualImpact: residual.impact,
+  };
+}
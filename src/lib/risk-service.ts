@@ -3,12 +3,18 @@
  * Handles finding generation, risk calculation, and measure templates
  */
 
+import type { Prisma } from '@prisma/client';
 import { prisma } from '@/lib/prisma';
 import {
   FindingRecommendation,
   FindingRecommendationInput,
   generateFindingRecommendations,
 } from '@/lib/llm-service';
+import { parseMeasureTemplates } from '@/lib/oscal-catalog';
+import { DEFAULT_RISK_METHOD, evaluateRisk, parseRiskMethod } from '@/lib/risk-method';
+import type { RiskMethod } from '@/lib/risk-method';
+import { getProjectConduits } from '@/lib/zone-service';
+import { parseFulfillmentScore } from '@/lib/validation';
 
 export interface RiskCalculationInput {
   assetValue: number; // 1-10 criticality
@@ -16,41 +22,24 @@ export interface RiskCalculationInput {
 }
 
 export interface RiskScore {
-  score: number; // 1-100
-  level: 'Low' | 'Medium' | 'High' | 'Critical';
+  score: number; // Scale depends on the risk method (1-100 by default)
+  level: string; // Level name defined by the risk method
+  tolerable: boolean;
 }
 
-const FINDING_FULFILLMENT_THRESHOLD = 4;
-
-const parseAssessmentFulfillmentScore = (answerValue: string | null | undefined): number | null => {
-  if (!answerValue) {
-    return null;
-  }
+export type FindingAssetType = 'Node' | 'Edge' | 'DataObject' | 'Zone' | 'Conduit';
 
-  const normalized = answerValue.trim().toUpperCase();
-  if (normalized === 'N/A') {
-    return null;
-  }
-  if (normalized === 'YES') {
-    return 10;
-  }
-  if (normalized === 'NO') {
-    return 0;
-  }
-  if (!/^(10|[0-9])$/.test(normalized)) {
-    return null;
-  }
+const FINDING_FULFILLMENT_THRESHOLD = 4;
 
-  return Number.parseInt(normalized, 10);
-};
+export const GENERAL_ASSET_ID = 'general';
 
 const shouldGenerateFindingForAnswer = (answerValue: string | null | undefined): boolean => {
-  const score = parseAssessmentFulfillmentScore(answerValue);
+  const score = parseFulfillmentScore(answerValue);
   return score !== null && score <= FINDING_FULFILLMENT_THRESHOLD;
 };
 
 const fallbackSeverityFromFulfillment = (answerValue: string | null | undefined): number => {
-  const score = parseAssessmentFulfillmentScore(answerValue);
+  const score = parseFulfillmentScore(answerValue);
   if (score === null) {
     return 7;
   }
@@ -58,29 +47,185 @@ const fallbackSeverityFromFulfillment = (answerValue: string | null | undefined)
 };
 
 /**
- * Calculate risk score using formula: assetValue × findingSeverity × 1.25
- * Result: 1-125, normalized to 1-100
+ * Maps an answer target onto the asset a finding is attached to. Answers
+ * without a target become project-wide findings on the "general" asset.
  */
-export function calculateRiskScore(input: RiskCalculationInput): RiskScore {
-  const { assetValue, findingSeverity } = input;
-
-  // Score formula: multiply value and severity, scale to 1-100
-  const rawScore = (assetValue * findingSeverity) / 100 * 100;
-  const score = Math.min(100, Math.max(1, Math.round(rawScore)));
-
-  // Classify risk level
-  let level: RiskScore['level'];
-  if (score >= 81) {
-    level = 'Critical';
-  } else if (score >= 51) {
-    level = 'High';
-  } else if (score >= 21) {
-    level = 'Medium';
-  } else {
-    level = 'Low';
+export function toFindingAsset(
+  targetType: string | null | undefined,
+  targetId: string | null | undefined
+): { assetType: FindingAssetType; assetId: string } {
+  if (!targetId) {
+    return { assetType: 'Node', assetId: GENERAL_ASSET_ID };
   }
+  switch (targetType) {
+    case 'Component':
+      return { assetType: 'Node', assetId: targetId };
+    case 'Edge':
+    case 'DataObject':
+    case 'Zone':
+    case 'Conduit':
+      return { assetType: targetType, assetId: targetId };
+    default:
+      return { assetType: 'Node', assetId: GENERAL_ASSET_ID };
+  }
+}
 
-  return { score, level };
+/**
+ * Foreign keys of the model element a finding is attached to. Conduits are
+ * derived from zone pairs and the "general" asset is project-wide, so
+ * neither has a key.
+ */
+export function toFindingTargetKeys(
+  assetType: string,
+  assetId: string
+): { nodeId: string | null; edgeId: string | null; dataObjectId: string | null; zoneId: string | null } {
+  const key = assetId === GENERAL_ASSET_ID ? null : assetId;
+  return {
+    nodeId: assetType === 'Node' ? key : null,
+    edgeId: assetType === 'Edge' ? key : null,
+    dataObjectId: assetType === 'DataObject' ? key : null,
+    zoneId: assetType === 'Zone' ? key : null,
+  };
+}
+
+/**
+ * Like toFindingTargetKeys, for asset references that may point to deleted
+ * elements: keys of elements missing from the project stay null.
+ */
+export async function resolveFindingTargetKeys(projectId: string, assetType: string, assetId: string) {
+  const keys = toFindingTargetKeys(assetType, assetId);
+  const select = { id: true } as const;
+  const [node, edge, dataObject, zone] = await Promise.all([
+    keys.nodeId ? prisma.modelNode.findFirst({ where: { id: keys.nodeId, projectId }, select }) : null,
+    keys.edgeId ? prisma.modelEdge.findFirst({ where: { id: keys.edgeId, projectId }, select }) : null,
+    keys.dataObjectId ? prisma.dataObject.findFirst({ where: { id: keys.dataObjectId, projectId }, select }) : null,
+    keys.zoneId ? prisma.zone.findFirst({ where: { id: keys.zoneId, projectId }, select }) : null,
+  ]);
+  return {
+    nodeId: node?.id ?? null,
+    edgeId: edge?.id ?? null,
+    dataObjectId: dataObject?.id ?? null,
+    zoneId: zone?.id ?? null,
+  };
+}
+
+/**
+ * Sets the keys again for findings whose element exists under its asset id.
+ * Restores and imports recreate elements with their previous ids, after the
+ * deletion had cleared the keys.
+ */
+export async function relinkFindingTargets(db: Prisma.TransactionClient, projectId: string): Promise<number> {
+  const select = { id: true } as const;
+  const findings = await db.finding.findMany({
+    where: {
+      projectId,
+      assetType: { in: ['Node', 'Edge', 'DataObject', 'Zone'] },
+      nodeId: null,
+      edgeId: null,
+      dataObjectId: null,
+      zoneId: null,
+    },
+    select: { id: true, assetType: true, assetId: true },
+  });
+  if (findings.length === 0) {
+    return 0;
+  }
+
+  const nodes = await db.modelNode.findMany({ where: { projectId }, select });
+  const edges = await db.modelEdge.findMany({ where: { projectId }, select });
+  const dataObjects = await db.dataObject.findMany({ where: { projectId }, select });
+  const zones = await db.zone.findMany({ where: { projectId }, select });
+  const existingKeys = new Set([
+    ...nodes.map((node) => `Node:${node.id}`),
+    ...edges.map((edge) => `Edge:${edge.id}`),
+    ...dataObjects.map((dataObject) => `DataObject:${dataObject.id}`),
+    ...zones.map((zone) => `Zone:${zone.id}`),
+  ]);
+
+  let relinked = 0;
+  for (const finding of findings) {
+    if (!existingKeys.has(`${finding.assetType}:${finding.assetId}`)) {
+      continue;
+    }
+    await db.finding.update({
+      where: { id: finding.id },
+      data: toFindingTargetKeys(finding.assetType, finding.assetId),
+    });
+    relinked += 1;
+  }
+  return relinked;
+}
+
+/**
+ * Display names and asset values of every asset a finding can be attached to.
+ * Data objects are valued by their highest C/I/A rating.
+ */
+export const loadFindingAssets = async (projectId: string) => {
+  const [nodes, edges, dataObjects, zones, conduits, assetValues] = await Promise.all([
+    prisma.modelNode.findMany({ where: { projectId }, select: { id: true, name: true } }),
+    prisma.modelEdge.findMany({
+      where: { projectId },
+      select: { id: true, name: true, sourceNodeId: true, targetNodeId: true },
+    }),
+    prisma.dataObject.findMany({
+      where: { projectId },
+      select: { id: true, name: true, confidentiality: true, integrity: true, availability: true },
+    }),
+    prisma.zone.findMany({ where: { projectId }, select: { id: true, name: true } }),
+    getProjectConduits(projectId),
+    prisma.assetValue.findMany({
+      where: { projectId, assetType: { in: ['Node', 'Edge'] } },
+      select: { assetType: true, assetId: true, value: true },
+    }),
+  ]);
+
+  const nodeNameById = new Map(nodes.map((node) => [node.id, node.name]));
+  const nameByKey = new Map<string, string>([
+    ...nodes.map((node) => [`Node:${node.id}`, node.name] as [string, string]),
+    ...edges.map(
+      (edge) =>
+        [
+          `Edge:${edge.id}`,
+          edge.name?.trim() ||
+            `${nodeNameById.get(edge.sourceNodeId) || 'Source'} -> ${nodeNameById.get(edge.targetNodeId) || 'Target'}`,
+        ] as [string, string]
+    ),
+    ...dataObjects.map((dataObject) => [`DataObject:${dataObject.id}`, dataObject.name] as [string, string]),
+    ...zones.map((zone) => [`Zone:${zone.id}`, zone.name] as [string, string]),
+    ...conduits.map((conduit) => [`Conduit:${conduit.id}`, conduit.name] as [string, string]),
+  ]);
+  const valueByKey = new Map<string, number>([
+    ...assetValues.map((entry) => [`${entry.assetType}:${entry.assetId}`, entry.value] as [string, number]),
+    ...dataObjects.map(
+      (dataObject) =>
+        [
+          `DataObject:${dataObject.id}`,
+          Math.max(dataObject.confidentiality, dataObject.integrity, dataObject.availability),
+        ] as [string, number]
+    ),
+  ]);
+
+  return { nameByKey, valueByKey };
+};
+
+/**
+ * Calculate risk score with the given risk method.
+ * The default method multiplies asset value and severity (1-100).
+ */
+export function calculateRiskScore(input: RiskCalculationInput, method: RiskMethod = DEFAULT_RISK_METHOD): RiskScore {
+  const { score, level, tolerable } = evaluateRisk(method, input);
+  return { score, level, tolerable };
+}
+
+/**
+ * Load the risk method configured for a project
+ */
+export async function getProjectRiskMethod(projectId: string): Promise<RiskMethod> {
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    select: { riskMethod: true },
+  });
+  return parseRiskMethod(project?.riskMethod);
 }
 
 /**
@@ -93,8 +238,9 @@ export async function autoGenerateFindings(projectId: string, userId: string) {
       select: { norm: true },
     });
 
+    // Unresolved conflicts do not produce findings until an admin resolves them
     const finalAnswers = await prisma.finalAnswer.findMany({
-      where: { projectId },
+      where: { projectId, status: { not: 'Conflict' } },
     });
 
     const questions = await prisma.question.findMany({
@@ -106,8 +252,7 @@ export async function autoGenerateFindings(projectId: string, userId: string) {
         ? finalAnswers.map((answer) => ({
             questionId: answer.questionId,
             answerValue: answer.answerValue,
-            targetType: 'Node' as 'Node' | 'Edge',
-            targetId: 'general',
+            ...toFindingAsset(answer.targetType, answer.targetId),
             comment: null as string | null,
           }))
         : (
@@ -119,11 +264,16 @@ export async function autoGenerateFindings(projectId: string, userId: string) {
           ).map((answer) => ({
             questionId: answer.questionId,
             answerValue: answer.answerValue || '',
-            targetType: answer.targetType === 'Edge' ? ('Edge' as const) : ('Node' as const),
-            targetId: answer.targetId || 'general',
+            ...toFindingAsset(answer.targetType, answer.targetId),
             comment: answer.comment || null,
           }));
 
+    const findingAssets = await loadFindingAssets(projectId);
+    const resolveAssetName = (assetType: FindingAssetType, assetId: string, questionTargetType: string) =>
+      assetId === GENERAL_ASSET_ID
+        ? questionTargetType || 'System'
+        : findingAssets.nameByKey.get(`${assetType}:${assetId}`) || assetId;
+
     const recommendationInputs: FindingRecommendationInput[] = [];
     const recommendationInputKeys = new Set<string>();
     for (const answer of answersToEvaluate) {
@@ -136,9 +286,8 @@ export async function autoGenerateFindings(projectId: string, userId: string) {
         continue;
       }
 
-      const normalizedAssetType = answer.targetType === 'Edge' ? 'Edge' : 'Node';
-      const normalizedAssetId = answer.targetId || 'general';
-      const recommendationKey = `${answer.questionId}::${normalizedAssetType}::${normalizedAssetId}`;
+      const { assetType, assetId } = answer;
+      const recommendationKey = `${answer.questionId}::${assetType}::${assetId}`;
       if (recommendationInputKeys.has(recommendationKey)) {
         continue;
       }
@@ -148,8 +297,9 @@ export async function autoGenerateFindings(projectId: string, userId: string) {
         key: recommendationKey,
         questionText: question.text,
         normReference: question.normReference,
-        assetType: normalizedAssetType,
-        assetName: normalizedAssetId === 'general' ? question.targetType || 'System' : normalizedAssetId,
+        assetType,
+        assetName: resolveAssetName(assetType, assetId, question.targetType),
+        assetValue: findingAssets.valueByKey.get(`${assetType}:${assetId}`) ?? null,
         answerComment: answer.comment,
       });
     }
@@ -175,18 +325,17 @@ export async function autoGenerateFindings(projectId: string, userId: string) {
         continue;
       }
 
-      const normalizedAssetType = answer.targetType === 'Edge' ? 'Edge' : 'Node';
-      const normalizedAssetId = answer.targetId || 'general';
-      const recommendationKey = `${answer.questionId}::${normalizedAssetType}::${normalizedAssetId}`;
+      const { assetType, assetId } = answer;
+      const recommendationKey = `${answer.questionId}::${assetType}::${assetId}`;
       const aiRecommendation = recommendationByKey.get(recommendationKey);
       const severity = aiRecommendation?.severity ?? fallbackSeverityFromFulfillment(answer.answerValue);
 
       const existingFinding = await prisma.finding.findFirst({
         where: {
           projectId,
-          assetType: normalizedAssetType,
-          assetId: normalizedAssetId,
-          questionText: question.text,
+          assetType,
+          assetId,
+          OR: [{ questionId: question.id }, { questionText: question.text }],
         },
       });
       if (existingFinding) {
@@ -196,25 +345,30 @@ export async function autoGenerateFindings(projectId: string, userId: string) {
       const finding = await prisma.finding.create({
         data: {
           projectId,
-          assetType: normalizedAssetType,
-          assetId: normalizedAssetId,
-          assetName: normalizedAssetId === 'general' ? question.targetType || 'System' : normalizedAssetId,
+          assetType,
+          assetId,
+          assetName: resolveAssetName(assetType, assetId, question.targetType),
           questionText: question.text,
           normReference: question.normReference,
           severity,
           description: aiRecommendation?.findingDescription || `Non-compliance with ${question.normReference}: ${question.text}`,
+          questionId: question.id,
+          // Final answers of deleted elements are kept, so only link elements that still exist
+          ...(findingAssets.nameByKey.has(`${assetType}:${assetId}`) && toFindingTargetKeys(assetType, assetId)),
         },
       });
 
       generatedFindings.push(finding);
 
+      const [catalogMeasure] = parseMeasureTemplates(question.defaultMeasures);
       const measure = await prisma.measure.create({
         data: {
           projectId,
           findingId: finding.id,
-          title: aiRecommendation?.measureTitle || `Remediate: ${question.text}`,
+          title: aiRecommendation?.measureTitle || catalogMeasure?.title || `Remediate: ${question.text}`,
           description:
             aiRecommendation?.measureDescription ||
+            catalogMeasure?.description ||
             `Implement control to address finding related to ${question.normReference}`,
           assetType: finding.assetType,
           assetId: finding.assetId,
@@ -264,15 +418,20 @@ export async function getRiskMatrix(projectId: string) {
       where: { projectId },
     });
 
+    const riskMethod = await getProjectRiskMethod(projectId);
+
     // Create risk matrix
     const matrix: Record<string, Record<number, number>> = {};
 
     for (const finding of findings) {
       for (const asset of assetValues) {
-        const risk = calculateRiskScore({
-          assetValue: asset.value,
-          findingSeverity: finding.severity,
-        });
+        const risk = calculateRiskScore(
+          {
+            assetValue: asset.value,
+            findingSeverity: finding.severity,
+          },
+          riskMethod
+        );
 
         const key = risk.level;
         const severity = finding.severity;
@@ -314,16 +473,21 @@ export async function getMeasurePriorities(projectId: string) {
       take: 10, // Top 10 priorities
     });
 
+    const riskMethod = await getProjectRiskMethod(projectId);
+
     return measures.map((m) => ({
       id: m.id,
       title: m.title,
       priority: m.priority,
       severity: m.finding?.severity || 0,
       norm: m.finding?.normReference || 'Unknown',
-      riskScore: calculateRiskScore({
-        assetValue: 5, // Default asset value
-        findingSeverity: m.finding?.severity || 5,
-      }),
+      riskScore: calculateRiskScore(
+        {
+          assetValue: 5, // Default asset value
+          findingSeverity: m.finding?.severity || 5,
+        },
+        riskMethod
+      ),
     }));
   } catch (error) {
     console.error('Get measure priorities failed:', error);
@@ -0,0 +1,379 @@
+/**
+ * Security Level Service
+ * IEC 62443 security level gap analysis (SL-A vs. SL-T) per foundational requirement,
+ * next to the capability level (SL-C) declared for the components
+ */
+
+import { prisma } from '@/lib/prisma';
+import { MAX_SECURITY_LEVEL, MIN_SECURITY_LEVEL, normalizeSecurityLevel, resolveEffectiveZoneIds } from '@/lib/zone-service';
+import { parseFulfillmentScore } from '@/lib/validation';
+
+export const FOUNDATIONAL_REQUIREMENTS = [
+  { id: 'FR1', name: 'Identification and authentication control' },
+  { id: 'FR2', name: 'Use control' },
+  { id: 'FR3', name: 'System integrity' },
+  { id: 'FR4', name: 'Data confidentiality' },
+  { id: 'FR5', name: 'Restricted data flow' },
+  { id: 'FR6', name: 'Timely response to events' },
+  { id: 'FR7', name: 'Resource availability' },
+] as const;
+
+export type FoundationalRequirementId = (typeof FOUNDATIONAL_REQUIREMENTS)[number]['id'];
+
+export type SecurityLevelProfile = Record<FoundationalRequirementId, number | null>;
+
+// A requirement counts as implemented once its fulfillment score reaches this value.
+export const SECURITY_LEVEL_FULFILLMENT_THRESHOLD = 7;
+
+export interface SecurityRequirementReference {
+  fr: FoundationalRequirementId;
+  requirement: string;
+  level: number;
+}
+
+export interface SecurityLevelQuestionInput {
+  id: string;
+  normReference: string;
+  targetType: string;
+}
+
+export interface SecurityLevelAnswerInput {
+  questionId: string;
+  userId: string;
+  answerValue: string | null;
+  targetType: string | null;
+  targetId: string | null;
+  updatedAt: Date;
+}
+
+export interface SecurityLevelNodeInput {
+  id: string;
+  name: string;
+  category: string;
+  parentNodeId: string | null;
+  zoneId: string | null;
+  capabilitySecurityLevel: number | null;
+}
+
+export interface SecurityLevelZoneInput {
+  id: string;
+  name: string;
+  targetSecurityLevel: number;
+}
+
+export interface SecurityLevelGapRow {
+  targetType: 'Component' | 'Zone';
+  targetId: string;
+  name: string;
+  zoneId: string | null;
+  targetLevel: number;
+  // Declared SL-C; for zones the lowest declared level of the members, null if none is declared
+  capabilityLevel: number | null;
+  achieved: SecurityLevelProfile;
+  gaps: SecurityLevelProfile;
+  assessedRequirements: number;
+}
+
+export interface SecurityLevelGapAnalysis {
+  targetSecurityLevel: number;
+  rows: SecurityLevelGapRow[];
+}
+
+const REQUIREMENT_REFERENCE_PATTERN =
+  /\b(SR|CR|NDR|HDR|EDR|SAR)\s*([1-7])\.(\d+)(?:\s*RE\s*\(?\s*(\d+)\s*\)?|\s*\(\s*(\d+)\s*\))?/i;
+
+const isContainerCategory = (rawCategory: string | null | undefined): boolean => {
+  const value = (rawCategory || '').trim().toLowerCase();
+  return value === 'container' || value === 'system';
+};
+
+const isNotApplicableAnswer = (answerValue: string | null | undefined): boolean =>
+  (answerValue || '').trim().toUpperCase() === 'N/A';
+
+const emptyProfile = (): SecurityLevelProfile => ({
+  FR1: null,
+  FR2: null,
+  FR3: null,
+  FR4: null,
+  FR5: null,
+  FR6: null,
+  FR7: null,
+});
+
+/**
+ * Reads the foundational requirement and the security level a requirement
+ * contributes to from a norm reference such as "IEC 62443-3-3 SR 1.1 RE 2".
+ * Base requirements count towards SL 1, requirement enhancement n towards SL n+1.
+ */
+export function parseSecurityRequirementReference(
+  normReference: string | null | undefined
+): SecurityRequirementReference | null {
+  const match = REQUIREMENT_REFERENCE_PATTERN.exec(normReference || '');
+  if (!match) {
+    return null;
+  }
+
+  const [, prefix, frNumber, srNumber, enhancement, parenthesizedEnhancement] = match;
+  const enhancementNumber = Number.parseInt(enhancement || parenthesizedEnhancement || '0', 10);
+  const requirement = `${prefix.toUpperCase()} ${frNumber}.${srNumber}${enhancementNumber > 0 ? ` RE ${enhancementNumber}` : ''}`;
+
+  return {
+    fr: `FR${frNumber}` as FoundationalRequirementId,
+    requirement,
+    level: Math.min(MAX_SECURITY_LEVEL, MIN_SECURITY_LEVEL + enhancementNumber),
+  };
+}
+
+/**
+ * The achieved level is the highest level below the first unfulfilled or
+ * unassessed requirement (score null). Without any assessed requirement the
+ * level is unknown (null).
+ */
+export function computeAchievedSecurityLevel(requirements: Array<{ level: number; score: number | null }>): number | null {
+  if (!requirements.some((requirement) => requirement.score !== null)) {
+    return null;
+  }
+
+  const openLevels = requirements
+    .filter((requirement) => requirement.score === null || requirement.score < SECURITY_LEVEL_FULFILLMENT_THRESHOLD)
+    .map((requirement) => requirement.level);
+  if (openLevels.length > 0) {
+    return Math.min(...openLevels) - 1;
+  }
+
+  return Math.max(...requirements.map((requirement) => requirement.level));
+}
+
+export function computeSecurityLevelGaps(targetLevel: number, achieved: SecurityLevelProfile): SecurityLevelProfile {
+  const gaps = emptyProfile();
+  for (const fr of FOUNDATIONAL_REQUIREMENTS) {
+    const achievedLevel = achieved[fr.id];
+    gaps[fr.id] = achievedLevel === null ? null : Math.max(0, targetLevel - achievedLevel);
+  }
+  return gaps;
+}
+
+/**
+ * Most conservative score per question for one target: the latest answer of
+ * every user is considered and the lowest fulfillment wins. Questions answered
+ * only with N/A map to null.
+ */
+const collectScoresByQuestion = (answers: SecurityLevelAnswerInput[]): Map<string, number | null> => {
+  const latestByUserQuestion = new Map<string, SecurityLevelAnswerInput>();
+  for (const answer of answers) {
+    const key = `${answer.questionId}::${answer.userId}`;
+    const existing = latestByUserQuestion.get(key);
+    if (!existing || existing.updatedAt < answer.updatedAt) {
+      latestByUserQuestion.set(key, answer);
+    }
+  }
+
+  const scoresByQuestion = new Map<string, number | null>();
+  for (const answer of latestByUserQuestion.values()) {
+    const score = parseFulfillmentScore(answer.answerValue);
+    const existing = scoresByQuestion.get(answer.questionId);
+    if (score === null) {
+      if (isNotApplicableAnswer(answer.answerValue) && existing === undefined) {
+        scoresByQuestion.set(answer.questionId, null);
+      }
+      continue;
+    }
+    scoresByQuestion.set(answer.questionId, existing === undefined || existing === null ? score : Math.min(existing, score));
+  }
+  return scoresByQuestion;
+};
+
+/**
+ * Every requirement the row is assessed against counts, answered or not, so
+ * unanswered lower-level requirements cap the achieved level. N/A answers
+ * take a requirement out of scope.
+ */
+const buildProfile = (
+  scoresByQuestion: Map<string, number | null>,
+  referenceByQuestionId: Map<string, SecurityRequirementReference>
+): { achieved: SecurityLevelProfile; assessedRequirements: number } => {
+  const requirementsByFr = new Map<FoundationalRequirementId, Array<{ level: number; score: number | null }>>();
+  for (const [questionId, reference] of referenceByQuestionId.entries()) {
+    const score = scoresByQuestion.get(questionId);
+    if (score === null) {
+      continue;
+    }
+    const requirements = requirementsByFr.get(reference.fr) || [];
+    requirements.push({ level: reference.level, score: score ?? null });
+    requirementsByFr.set(reference.fr, requirements);
+  }
+  const achieved = emptyProfile();
+  let assessedRequirements = 0;
+  for (const fr of FOUNDATIONAL_REQUIREMENTS) {
+    const requirements = requirementsByFr.get(fr.id) || [];
+    achieved[fr.id] = computeAchievedSecurityLevel(requirements);
+    assessedRequirements += requirements.filter((requirement) => requirement.score !== null).length;
+  }
+  return { achieved, assessedRequirements };
+};
+
+const minProfile = (profiles: SecurityLevelProfile[]): SecurityLevelProfile => {
+  const merged = emptyProfile();
+  for (const fr of FOUNDATIONAL_REQUIREMENTS) {
+    const levels = profiles.map((profile) => profile[fr.id]).filter((level): level is number => level !== null);
+    merged[fr.id] = levels.length > 0 ? Math.min(...levels) : null;
+  }
+  return merged;
+};
+
+/**
+ * Components are rated with their own answers and fall back to project-wide
+ * (untargeted) answers for questions they were not assessed on individually.
+ * A zone achieves at most what its weakest member component achieves, and
+ * likewise is only capable of the lowest SL-C declared by its members.
+ */
+export function buildSecurityLevelGapAnalysis(input: {
+  targetSecurityLevel: number;
+  zones: SecurityLevelZoneInput[];
+  nodes: SecurityLevelNodeInput[];
+  questions: SecurityLevelQuestionInput[];
+  answers: SecurityLevelAnswerInput[];
+}): SecurityLevelGapAnalysis {
+  const projectTargetLevel = normalizeSecurityLevel(input.targetSecurityLevel);
+  const referenceByQuestionId = new Map<string, SecurityRequirementReference>();
+  // Components are rated against component and project-wide questions, zones against zone questions
+  const componentReferences = new Map<string, SecurityRequirementReference>();
+  const zoneReferences = new Map<string, SecurityRequirementReference>();
+  for (const question of input.questions) {
+    const reference = parseSecurityRequirementReference(question.normReference);
+    if (!reference) {
+      continue;
+    }
+    referenceByQuestionId.set(question.id, reference);
+    if (question.targetType === 'Zone') {
+      zoneReferences.set(question.id, reference);
+    } else if (question.targetType === 'Component' || question.targetType === 'None' || !question.targetType) {
+      componentReferences.set(question.id, reference);
+    }
+  }
+
+  const answersByTarget = new Map<string, SecurityLevelAnswerInput[]>();
+  const generalAnswers: SecurityLevelAnswerInput[] = [];
+  for (const answer of input.answers) {
+    if (!referenceByQuestionId.has(answer.questionId)) {
+      continue;
+    }
+    if (!answer.targetId || !answer.targetType || answer.targetType === 'None') {
+      generalAnswers.push(answer);
+      continue;
+    }
+    const key = `${answer.targetType}::${answer.targetId}`;
+    const targetAnswers = answersByTarget.get(key) || [];
+    targetAnswers.push(answer);
+    answersByTarget.set(key, targetAnswers);
+  }
+  const generalScores = collectScoresByQuestion(generalAnswers);
+
+  const zoneById = new Map(input.zones.map((zone) => [zone.id, zone]));
+  const effectiveZoneIds = resolveEffectiveZoneIds(input.nodes);
+  const componentRows: SecurityLevelGapRow[] = [];
+
+  for (const node of input.nodes) {
+    if (isContainerCategory(node.category)) {
+      continue;
+    }
+
+    const scores = new Map(generalScores);
+    for (const [questionId, score] of collectScoresByQuestion(answersByTarget.get(`Component::${node.id}`) || [])) {
+      scores.set(questionId, score);
+    }
+
+    const zoneId = effectiveZoneIds.get(node.id) ?? null;
+    const zone = zoneId ? zoneById.get(zoneId) : undefined;
+    const targetLevel = zone ? normalizeSecurityLevel(zone.targetSecurityLevel) : projectTargetLevel;
+    const { achieved, assessedRequirements } = buildProfile(scores, componentReferences);
+
+    componentRows.push({
+      targetType: 'Component',
+      targetId: node.id,
+      name: node.name,
+      zoneId: zone ? zone.id : null,
+      targetLevel,
+      capabilityLevel:
+        node.capabilitySecurityLevel === null ? null : normalizeSecurityLevel(node.capabilitySecurityLevel),
+      achieved,
+      gaps: computeSecurityLevelGaps(targetLevel, achieved),
+      assessedRequirements,
+    });
+  }
+
+  const zoneRows: SecurityLevelGapRow[] = input.zones.map((zone) => {
+    const targetLevel = normalizeSecurityLevel(zone.targetSecurityLevel);
+    const own = buildProfile(
+      collectScoresByQuestion(answersByTarget.get(`Zone::${zone.id}`) || []),
+      zoneReferences
+    );
+    const members = componentRows.filter((row) => row.zoneId === zone.id);
+    const achieved = minProfile([own.achieved, ...members.map((row) => row.achieved)]);
+    const capabilityLevels = members
+      .map((row) => row.capabilityLevel)
+      .filter((level): level is number => level !== null);
+
+    return {
+      targetType: 'Zone',
+      targetId: zone.id,
+      name: zone.name,
+      zoneId: zone.id,
+      targetLevel,
+      capabilityLevel: capabilityLevels.length > 0 ? Math.min(...capabilityLevels) : null,
+      achieved,
+      gaps: computeSecurityLevelGaps(targetLevel, achieved),
+      assessedRequirements: own.assessedRequirements + members.reduce((sum, row) => sum + row.assessedRequirements, 0),
+    };
+  });
+
+  const byName = (a: SecurityLevelGapRow, b: SecurityLevelGapRow) => a.name.localeCompare(b.name);
+  return {
+    targetSecurityLevel: projectTargetLevel,
+    rows: [...zoneRows.sort(byName), ...componentRows.sort(byName)],
+  };
+}
+
+export async function getSecurityLevelGapAnalysis(projectId: string): Promise<SecurityLevelGapAnalysis | null> {
+  const [project, zones, nodes, questions, answers] = await Promise.all([
+    prisma.project.findUnique({
+      where: { id: projectId },
+      select: { targetSecurityLevel: true },
+    }),
+    prisma.zone.findMany({
+      where: { projectId },
+      select: { id: true, name: true, targetSecurityLevel: true },
+    }),
+    prisma.modelNode.findMany({
+      where: { projectId },
+      select: { id: true, name: true, category: true, parentNodeId: true, zoneId: true, capabilitySecurityLevel: true },
+    }),
+    prisma.question.findMany({
+      where: { projectId },
+      select: { id: true, normReference: true, targetType: true },
+    }),
+    prisma.answer.findMany({
+      where: { projectId },
+      select: {
+        questionId: true,
+        userId: true,
+        answerValue: true,
+        targetType: true,
+        targetId: true,
+        updatedAt: true,
+      },
+    }),
+  ]);
+
+  if (!project) {
+    return null;
+  }
+
+  return buildSecurityLevelGapAnalysis({
+    targetSecurityLevel: project.targetSecurityLevel,
+    zones,
+    nodes,
+    questions,
+    answers,
+  });
+}
@@ -0,0 +1,509 @@
+/**
+ * Threat Service
+ * Offline STRIDE-per-element threat enumeration from the canonical data-flow model
+ */
+
+import { prisma } from '@/lib/prisma';
+import { resolveEffectiveZoneIds } from '@/lib/zone-service';
+import { resolveFindingTargetKeys } from '@/lib/risk-service';
+
+export const STRIDE_CATEGORIES = [
+  'Spoofing',
+  'Tampering',
+  'Repudiation',
+  'InformationDisclosure',
+  'DenialOfService',
+  'ElevationOfPrivilege',
+] as const;
+
+export type StrideCategory = (typeof STRIDE_CATEGORIES)[number];
+
+export const STRIDE_CATEGORY_LABELS: Record<StrideCategory, string> = {
+  Spoofing: 'Spoofing',
+  Tampering: 'Tampering',
+  Repudiation: 'Repudiation',
+  InformationDisclosure: 'Information Disclosure',
+  DenialOfService: 'Denial of Service',
+  ElevationOfPrivilege: 'Elevation of Privilege',
+};
+
+export const THREAT_STATUSES = ['Open', 'Accepted', 'Rejected', 'Mitigated'] as const;
+
+export type ThreatStatus = (typeof THREAT_STATUSES)[number];
+
+// Measures created when a threat is turned into a finding.
+const STRIDE_MITIGATIONS: Record<StrideCategory, Array<{ title: string; description: string }>> = {
+  Spoofing: [
+    {
+      title: 'Enforce authentication',
+      description: 'Authenticate every communication partner and user before accepting requests.',
+    },
+  ],
+  Tampering: [
+    {
+      title: 'Protect integrity',
+      description: 'Use integrity-protected protocols or message signatures and restrict write access.',
+    },
+  ],
+  Repudiation: [
+    {
+      title: 'Introduce audit logging',
+      description: 'Log security-relevant user actions with user identity and timestamp in a tamper-resistant log.',
+    },
+  ],
+  InformationDisclosure: [
+    {
+      title: 'Encrypt confidential data',
+      description: 'Encrypt confidential data in transit and at rest and limit read access to authorized users.',
+    },
+  ],
+  DenialOfService: [
+    {
+      title: 'Limit resource exhaustion',
+      description: 'Apply rate limiting, resource quotas and redundancy for availability-critical functions.',
+    },
+  ],
+  ElevationOfPrivilege: [
+    {
+      title: 'Validate inputs and apply least privilege',
+      description: 'Validate all external inputs and run the component with the minimum privileges required.',
+    },
+    {
+      title: 'Harden the component',
+      description: 'Remove unused services, apply security updates and restrict administrative interfaces.',
+    },
+  ],
+};
+
+const SECURE_PROTOCOL_PATTERN = /\b(https|tls|ssl|dtls|ssh|sftp|ftps|wss|mqtts|amqps|ldaps|ipsec|vpn|opc ?ua)\b/i;
+
+export interface ThreatModelInput {
+  nodes: Array<{ id: string; name: string; category: string; parentNodeId: string | null; zoneId: string | null }>;
+  edges: Array<{
+    id: string;
+    name: string | null;
+    protocol: string | null;
+    direction: string;
+    sourceNodeId: string;
+    targetNodeId: string;
+  }>;
+  dataObjects: Array<{
+    id: string;
+    name: string;
+    confidentiality: number;
+    integrity: number;
+    availability: number;
+  }>;
+  componentData: Array<{ nodeId: string; dataObjectId: string; role: string }>;
+  edgeDataFlows: Array<{ edgeId: string; dataObjectId: string }>;
+}
+
+export interface GeneratedThreat {
+  ruleKey: string;
+  category: StrideCategory;
+  assetType: 'Node' | 'Edge';
+  assetId: string;
+  assetName: string;
+  title: string;
+  description: string;
+  severity: number;
+}
+
+const clampSeverity = (value: number): number => Math.min(10, Math.max(1, Math.round(value)));
+
+const isContainerCategory = (rawCategory: string | null | undefined): boolean => {
+  const value = (rawCategory || '').trim().toLowerCase();
+  return value === 'container' || value === 'system';
+};
+
+const isHumanCategory = (rawCategory: string | null | undefined): boolean =>
+  (rawCategory || '').trim().toLowerCase() === 'human';
+
+export const isSecureProtocol = (protocol: string | null | undefined): boolean =>
+  Boolean(protocol && SECURE_PROTOCOL_PATTERN.test(protocol));
+
+interface DataRatings {
+  names: string[];
+  confidentiality: number;
+  integrity: number;
+  availability: number;
+}
+
+const summarizeData = (
+  dataObjectIds: string[],
+  dataObjectById: Map<string, ThreatModelInput['dataObjects'][number]>
+): DataRatings =>
+  dataObjectIds.reduce<DataRatings>(
+    (summary, dataObjectId) => {
+      const dataObject = dataObjectById.get(dataObjectId);
+      if (!dataObject) {
+        return summary;
+      }
+      return {
+        names: [...summary.names, dataObject.name],
+        confidentiality: Math.max(summary.confidentiality, dataObject.confidentiality),
+        integrity: Math.max(summary.integrity, dataObject.integrity),
+        availability: Math.max(summary.availability, dataObject.availability),
+      };
+    },
+    { names: [], confidentiality: 0, integrity: 0, availability: 0 }
+  );
+
+const describeData = (data: DataRatings): string =>
+  data.names.length > 0 ? ` It carries ${data.names.join(', ')}.` : '';
+
+/**
+ * Derives STRIDE threats per element: data flows (edges) get T/I/D plus S at
+ * trust boundaries, processes get S/T/R/I/D/E depending on exposure and the data
+ * they handle, humans get S. Trust boundaries are zone changes and human input.
+ */
+export function generateStrideThreats(model: ThreatModelInput): GeneratedThreat[] {
+  const nodeById = new Map(model.nodes.map((node) => [node.id, node]));
+  const dataObjectById = new Map(model.dataObjects.map((dataObject) => [dataObject.id, dataObject]));
+  const effectiveZoneIds = resolveEffectiveZoneIds(model.nodes);
+  const threats: GeneratedThreat[] = [];
+
+  const addThreat = (threat: Omit<GeneratedThreat, 'ruleKey'>) => {
+    threats.push({
+      ...threat,
+      ruleKey: `${threat.category}:${threat.assetType}:${threat.assetId}`,
+      severity: clampSeverity(threat.severity),
+    });
+  };
+
+  const nodeName = (nodeId: string): string => nodeById.get(nodeId)?.name || nodeId;
+  const crossesZones = (edge: ThreatModelInput['edges'][number]): boolean =>
+    (effectiveZoneIds.get(edge.sourceNodeId) ?? null) !== (effectiveZoneIds.get(edge.targetNodeId) ?? null);
+  const receiverIds = (edge: ThreatModelInput['edges'][number]): string[] => {
+    if (edge.direction === 'BIDIRECTIONAL') return [edge.sourceNodeId, edge.targetNodeId];
+    return [edge.direction === 'B_TO_A' ? edge.sourceNodeId : edge.targetNodeId];
+  };
+  const senderIds = (edge: ThreatModelInput['edges'][number]): string[] => {
+    if (edge.direction === 'BIDIRECTIONAL') return [edge.sourceNodeId, edge.targetNodeId];
+    return [edge.direction === 'B_TO_A' ? edge.targetNodeId : edge.sourceNodeId];
+  };
+
+  for (const edge of model.edges) {
+    const edgeName = edge.name?.trim() || `${nodeName(edge.sourceNodeId)} → ${nodeName(edge.targetNodeId)}`;
+    const data = summarizeData(
+      model.edgeDataFlows.filter((flow) => flow.edgeId === edge.id).map((flow) => flow.dataObjectId),
+      dataObjectById
+    );
+    const secure = isSecureProtocol(edge.protocol);
+    const boundary = crossesZones(edge);
+    const protocolText = edge.protocol?.trim() ? `uses ${edge.protocol.trim()}` : 'has no documented protocol';
+    const boundaryText = boundary ? ' The flow crosses a zone boundary.' : '';
+
+    if (!secure && (data.integrity > 0 || boundary)) {
+      addThreat({
+        category: 'Tampering',
+        assetType: 'Edge',
+        assetId: edge.id,
+        assetName: edgeName,
+        title: `Tampering with data in transit on ${edgeName}`,
+        description: `The interface ${protocolText} without integrity protection.${describeData(data)}${boundaryText}`,
+        severity: Math.max(data.integrity, 5) + (boundary ? 1 : 0),
+      });
+    }
+
+    if (!secure && (data.confidentiality > 0 || boundary)) {
+      addThreat({
+        category: 'InformationDisclosure',
+        assetType: 'Edge',
+        assetId: edge.id,
+        assetName: edgeName,
+        title: `Disclosure of data in transit on ${edgeName}`,
+        description: `The interface ${protocolText} without encryption.${describeData(data)}${boundaryText}`,
+        severity: Math.max(data.confidentiality, 4) + (boundary ? 1 : 0),
+      });
+    }
+
+    if (data.availability >= 7 || boundary) {
+      addThreat({
+        category: 'DenialOfService',
+        assetType: 'Edge',
+        assetId: edge.id,
+        assetName: edgeName,
+        title: `Interruption of ${edgeName}`,
+        description: `Flooding or blocking the interface interrupts the data flow.${describeData(data)}${boundaryText}`,
+        severity: Math.max(data.availability, 5),
+      });
+    }
+
+    if (!secure && boundary) {
+      addThreat({
+        category: 'Spoofing',
+        assetType: 'Edge',
+        assetId: edge.id,
+        assetName: edgeName,
+        title: `Spoofed communication partner on ${edgeName}`,
+        description: `The interface ${protocolText} and crosses a zone boundary, so an attacker can impersonate either endpoint.`,
+        severity: 7,
+      });
+    }
+  }
+
+  for (const node of model.nodes) {
+    if (isContainerCategory(node.category)) {
+      continue;
+    }
+
+    if (isHumanCategory(node.category)) {
+      if (model.edges.some((edge) => senderIds(edge).includes(node.id))) {
+        addThreat({
+          category: 'Spoofing',
+          assetType: 'Node',
+          assetId: node.id,
+          assetName: node.name,
+          title: `Impersonation of ${node.name}`,
+          description: `An attacker uses stolen or guessed credentials to act as ${node.name}.`,
+          severity: 6,
+        });
+      }
+      continue;
+    }
+
+    const inboundEdges = model.edges.filter((edge) => receiverIds(edge).includes(node.id));
+    const humanInput = inboundEdges.some((edge) =>
+      senderIds(edge).some((senderId) => senderId !== node.id && isHumanCategory(nodeById.get(senderId)?.category))
+    );
+    const boundaryInput = inboundEdges.some(crossesZones);
+    const exposed = humanInput || boundaryInput;
+    const links = model.componentData.filter((entry) => entry.nodeId === node.id);
+    const data = summarizeData(
+      links.map((entry) => entry.dataObjectId),
+      dataObjectById
+    );
+    const storedData = summarizeData(
+      links.filter((entry) => entry.role.toLowerCase() === 'stores').map((entry) => entry.dataObjectId),
+      dataObjectById
+    );
+    const exposureText = boundaryInput
+      ? ' It accepts input from another zone.'
+      : humanInput
+        ? ' It accepts input from users.'
+        : '';
+
+    if (inboundEdges.length > 0) {
+      addThreat({
+        category: 'Spoofing',
+        assetType: 'Node',
+        assetId: node.id,
+        assetName: node.name,
+        title: `Spoofing of requests to ${node.name}`,
+        description: `A forged sender issues requests that ${node.name} accepts as legitimate.${exposureText}`,
+        severity: exposed ? 7 : 4,
+      });
+    }
+
+    if (data.integrity > 0 || exposed) {
+      addThreat({
+        category: 'Tampering',
+        assetType: 'Node',
+        assetId: node.id,
+        assetName: node.name,
+        title: `Tampering with ${node.name}`,
+        description: `Manipulated software, configuration or data changes the behaviour of ${node.name}.${describeData(data)}${exposureText}`,
+        severity: Math.max(data.integrity, exposed ? 5 : 3),
+      });
+    }
+
+    if (humanInput) {
+      addThreat({
+        category: 'Repudiation',
+        assetType: 'Node',
+        assetId: node.id,
+        assetName: node.name,
+        title: `Repudiation of user actions on ${node.name}`,
+        description: `Users can deny actions performed on ${node.name} if they are not logged with their identity.`,
+        severity: data.integrity >= 7 ? 6 : 5,
+      });
+    }
+
+    if (storedData.confidentiality >= 5 || data.confidentiality >= 7) {
+      const confidentiality = Math.max(storedData.confidentiality, data.confidentiality);
+      addThreat({
+        category: 'InformationDisclosure',
+        assetType: 'Node',
+        assetId: node.id,
+        assetName: node.name,
+        title: `Disclosure of data held by ${node.name}`,
+        description: `Confidential data can be read from ${node.name}.${describeData(data)}${exposureText}`,
+        severity: confidentiality + (exposed ? 1 : 0),
+      });
+    }
+
+    if (data.availability >= 7 || exposed) {
+      addThreat({
+        category: 'DenialOfService',
+        assetType: 'Node',
+        assetId: node.id,
+        assetName: node.name,
+        title: `Denial of service against ${node.name}`,
+        description: `Overloading or crashing ${node.name} makes its function unavailable.${describeData(data)}${exposureText}`,
+        severity: Math.max(data.availability, 5),
+      });
+    }
+
+    if (exposed) {
+      addThreat({
+        category: 'ElevationOfPrivilege',
+        assetType: 'Node',
+        assetId: node.id,
+        assetName: node.name,
+        title: `Elevation of privilege through inputs of ${node.name}`,
+        description: `Malicious input exploits a flaw in ${node.name} to gain higher privileges.${exposureText}`,
+        severity: boundaryInput ? 8 : 7,
+      });
+    }
+  }
+
+  return threats;
+}
+
+const loadThreatModel = async (projectId: string): Promise<ThreatModelInput> => {
+  const [nodes, edges, dataObjects] = await Promise.all([
+    prisma.modelNode.findMany({
+      where: { projectId },
+      select: { id: true, name: true, category: true, parentNodeId: true, zoneId: true },
+    }),
+    prisma.modelEdge.findMany({
+      where: { projectId },
+      select: { id: true, name: true, protocol: true, direction: true, sourceNodeId: true, targetNodeId: true },
+    }),
+    prisma.dataObject.findMany({
+      where: { projectId },
+      select: { id: true, name: true, confidentiality: true, integrity: true, availability: true },
+    }),
+  ]);
+
+  const [componentData, edgeDataFlows] = await Promise.all([
+    prisma.componentData.findMany({
+      where: { node: { projectId } },
+      select: { nodeId: true, dataObjectId: true, role: true },
+    }),
+    prisma.edgeDataFlow.findMany({
+      where: { edge: { projectId } },
+      select: { edgeId: true, dataObjectId: true },
+    }),
+  ]);
+
+  return { nodes, edges, dataObjects, componentData, edgeDataFlows };
+};
+
+/**
+ * Regenerates the project's threats. Reviewed or converted threats are kept as
+ * they are; open threats are refreshed or removed when the model no longer yields them.
+ */
+export async function generateProjectThreats(projectId: string) {
+  const generated = generateStrideThreats(await loadThreatModel(projectId));
+  const generatedByKey = new Map(generated.map((threat) => [threat.ruleKey, threat]));
+  const existing = await prisma.threat.findMany({
+    where: { projectId },
+    select: { id: true, ruleKey: true, status: true, findingId: true },
+  });
+  const existingKeys = new Set(existing.map((threat) => threat.ruleKey));
+
+  const isUntouched = (threat: (typeof existing)[number]) => threat.status === 'Open' && !threat.findingId;
+  const stale = existing.filter((threat) => isUntouched(threat) && !generatedByKey.has(threat.ruleKey));
+  const refreshable = existing.filter((threat) => isUntouched(threat) && generatedByKey.has(threat.ruleKey));
+  const created = generated.filter((threat) => !existingKeys.has(threat.ruleKey));
+
+  await prisma.$transaction(async (tx) => {
+    if (stale.length > 0) {
+      await tx.threat.deleteMany({ where: { id: { in: stale.map((threat) => threat.id) } } });
+    }
+    for (const threat of refreshable) {
+      const generatedThreat = generatedByKey.get(threat.ruleKey) as GeneratedThreat;
+      await tx.threat.update({
+        where: { id: threat.id },
+        data: {
+          assetName: generatedThreat.assetName,
+          title: generatedThreat.title,
+          description: generatedThreat.description,
+          severity: generatedThreat.severity,
+        },
+      });
+    }
+    if (created.length > 0) {
+      await tx.threat.createMany({
+        data: created.map((threat) => ({ projectId, ...threat })),
+        skipDuplicates: true,
+      });
+    }
+  });
+
+  return { created: created.length, updated: refreshable.length, removed: stale.length, total: generated.length };
+}
+
+const priorityFromSeverity = (severity: number): string =>
+  severity >= 8 ? 'Critical' : severity >= 6 ? 'High' : severity >= 4 ? 'Medium' : 'Low';
+
+/**
+ * Turns a threat into a finding with the STRIDE default measures. Open threats
+ * are marked as accepted by the conversion.
+ */
+export async function convertThreatToFinding(
+  threat: {
+    id: string;
+    projectId: string;
+    category: string;
+    assetType: string;
+    assetId: string;
+    assetName: string;
+    title: string;
+    description: string | null;
+    severity: number;
+    status: string;
+  },
+  userId: string
+) {
+  const category = STRIDE_CATEGORIES.find((entry) => entry === threat.category) || 'Tampering';
+  const targetKeys = await resolveFindingTargetKeys(threat.projectId, threat.assetType, threat.assetId);
+
+  return prisma.$transaction(async (tx) => {
+    const finding = await tx.finding.create({
+      data: {
+        projectId: threat.projectId,
+        assetType: threat.assetType,
+        assetId: threat.assetId,
+        assetName: threat.assetName,
+        questionText: threat.title,
+        normReference: `STRIDE ${STRIDE_CATEGORY_LABELS[category]}`,
+        severity: threat.severity,
+        description: threat.description,
+        ...targetKeys,
+      },
+    });
+
+    await tx.measure.createMany({
+      data: STRIDE_MITIGATIONS[category].map((mitigation) => ({
+        projectId: threat.projectId,
+        findingId: finding.id,
+        title: mitigation.title,
+        description: mitigation.description,
+        assetType: threat.assetType,
+        assetId: threat.assetId,
+        normReference: finding.normReference,
+        priority: priorityFromSeverity(threat.severity),
+        status: 'Open',
+        createdByUserId: userId,
+      })),
+    });
+
+    await tx.threat.update({
+      where: { id: threat.id },
+      data: {
+        findingId: finding.id,
+        ...(threat.status === 'Open'
+          ? { status: 'Accepted', reviewedByUserId: userId, reviewedAt: new Date() }
+          : {}),
+      },
+    });
+
+    return tx.finding.findUnique({
+      where: { id: finding.id },
+      include: { measures: true },
+    });
+  });
+}
@@ -0,0 +1,460 @@
+/**
+ * Traceability Service
+ * Requirement traceability matrix: norm requirement -> question -> answers -> final answer -> finding -> measure,
+ * loaded from the questions, answers, findings, measures and evidence of a project
+ */
+
+import { prisma } from '@/lib/prisma';
+import { GENERAL_ASSET_ID, loadFindingAssets, toFindingAsset } from '@/lib/risk-service';
+
+export const TRACEABILITY_STATUSES = ['Unanswered', 'Answered', 'NoMeasure', 'Open', 'InProgress', 'Done', 'Accepted'] as const;
+
+export type TraceabilityStatus = (typeof TRACEABILITY_STATUSES)[number];
+
+// Statuses that break the chain required by the audit: no answer, or a finding nobody acts on
+export const TRACEABILITY_GAP_STATUSES: TraceabilityStatus[] = ['Unanswered', 'NoMeasure'];
+
+export interface TraceabilityInput {
+  questions: Array<{ id: string; text: string; normReference: string }>;
+  // Targets are given as finding assets (assetType/assetId), see toFindingAsset
+  answers: Array<{
+    id: string;
+    questionId: string;
+    assetType: string;
+    assetId: string;
+    user: string;
+    value: string;
+    comment: string | null;
+  }>;
+  finalAnswers: Array<{
+    questionId: string;
+    assetType: string;
+    assetId: string;
+    value: string;
+    status: string;
+    source: string;
+  }>;
+  findings: Array<{
+    id: string;
+    questionId: string | null;
+    questionText: string;
+    normReference: string;
+    assetType: string;
+    assetId: string;
+    assetName: string;
+    // Foreign key of the element, null for conduits, project-wide findings and deleted elements
+    nodeId: string | null;
+    edgeId: string | null;
+    dataObjectId: string | null;
+    zoneId: string | null;
+    description: string | null;
+    severity: number;
+    riskAccepted: boolean;
+  }>;
+  measures: Array<{
+    id: string;
+    findingId: string;
+    title: string;
+    status: string;
+    priority: string;
+    dueDate: Date | null;
+    assignedTo: string | null;
+  }>;
+  evidence: Array<{
+    id: string;
+    answerId: string | null;
+    findingId: string | null;
+    measureId: string | null;
+    fileName: string;
+    sha256: string;
+  }>;
+  // Display names by `${assetType}:${assetId}`
+  targetLabels: Map<string, string>;
+}
+
+export interface TraceabilityRow {
+  normReference: string;
+  question: { id: string; text: string } | null;
+  target: { type: string; id: string; label: string } | null;
+  answers: Array<{ user: string; value: string; comment: string | null }>;
+  finalAnswer: { value: string; status: string; source: string } | null;
+  // linkedBy "Text": legacy finding without questionId, matched by its copied question text
+  finding: {
+    id: string;
+    severity: number;
+    description: string | null;
+    riskAccepted: boolean;
+    linkedBy: 'Key' | 'Text' | null;
+  } | null;
+  measure: {
+    id: string;
+    title: string;
+    status: string;
+    priority: string;
+    dueDate: Date | null;
+    assignedTo: string | null;
+  } | null;
+  evidence: Array<{ id: string; fileName: string; sha256: string; linkType: 'Answer' | 'Finding' | 'Measure' }>;
+  status: TraceabilityStatus;
+}
+
+export interface TraceabilitySummary {
+  requirements: number;
+  questions: number;
+  answeredQuestions: number;
+  findings: number;
+  findingsWithoutMeasure: number;
+  unlinkedFindings: number;
+  measures: number;
+  measuresDone: number;
+  gaps: number;
+}
+
+export interface TraceabilityMatrix {
+  rows: TraceabilityRow[];
+  summary: TraceabilitySummary;
+}
+
+const assetKey = (entry: { assetType: string; assetId: string }) => `${entry.assetType}:${entry.assetId}`;
+
+/**
+ * The element a finding points to. Its keys follow the element; the copied
+ * asset reference only stands in for conduits, project-wide findings and
+ * elements that were deleted.
+ */
+const findingTarget = (finding: TraceabilityInput['findings'][number]): { assetType: string; assetId: string } => {
+  if (finding.nodeId) {
+    return { assetType: 'Node', assetId: finding.nodeId };
+  }
+  if (finding.edgeId) {
+    return { assetType: 'Edge', assetId: finding.edgeId };
+  }
+  if (finding.dataObjectId) {
+    return { assetType: 'DataObject', assetId: finding.dataObjectId };
+  }
+  if (finding.zoneId) {
+    return { assetType: 'Zone', assetId: finding.zoneId };
+  }
+  return { assetType: finding.assetType, assetId: finding.assetId };
+};
+
+const MEASURE_STATUSES = new Set<TraceabilityStatus>(['Open', 'InProgress', 'Done']);
+
+const rowStatus = (
+  hasAnswer: boolean,
+  finding: TraceabilityInput['findings'][number] | null,
+  measure: TraceabilityInput['measures'][number] | null
+): TraceabilityStatus => {
+  if (!finding) {
+    return hasAnswer ? 'Answered' : 'Unanswered';
+  }
+  const measureStatus = measure && MEASURE_STATUSES.has(measure.status as TraceabilityStatus) ? measure.status : null;
+  if (measureStatus === 'Done') {
+    return 'Done';
+  }
+  if (finding.riskAccepted) {
+    return 'Accepted';
+  }
+  return (measureStatus as TraceabilityStatus | null) ?? (measure ? 'Open' : 'NoMeasure');
+};
+
+/**
+ * One row per question, target, finding and measure, ordered by norm
+ * reference. Findings are matched to their question by key; findings without
+ * a key fall back to the copied question text, and findings that match no
+ * question are listed at the end.
+ */
+export function buildTraceabilityMatrix(input: TraceabilityInput): TraceabilityMatrix {
+  const questionIds = new Set(input.questions.map((question) => question.id));
+  const questionIdByText = new Map(input.questions.map((question) => [question.text, question.id]));
+  const findingQuestion = new Map<string, { questionId: string; linkedBy: 'Key' | 'Text' } | null>(
+    input.findings.map((finding) => {
+      if (finding.questionId && questionIds.has(finding.questionId)) {
+        return [finding.id, { questionId: finding.questionId, linkedBy: 'Key' as const }];
+      }
+      const matched = finding.questionId ? undefined : questionIdByText.get(finding.questionText);
+      return [finding.id, matched ? { questionId: matched, linkedBy: 'Text' as const } : null];
+    })
+  );
+  const measuresByFinding = new Map<string, TraceabilityInput['measures']>();
+  input.measures.forEach((measure) => {
+    measuresByFinding.set(measure.findingId, [...(measuresByFinding.get(measure.findingId) ?? []), measure]);
+  });
+  const evidenceOf = (
+    linkType: 'Answer' | 'Finding' | 'Measure',
+    ids: string[]
+  ): TraceabilityRow['evidence'] => {
+    const field = linkType === 'Answer' ? 'answerId' : linkType === 'Finding' ? 'findingId' : 'measureId';
+    return input.evidence
+      .filter((entry) => entry[field] && ids.includes(entry[field] as string))
+      .map((entry) => ({ id: entry.id, fileName: entry.fileName, sha256: entry.sha256, linkType }));
+  };
+  const targetOf = (entry: { assetType: string; assetId: string }, fallbackLabel?: string): TraceabilityRow['target'] => ({
+    type: entry.assetType,
+    id: entry.assetId,
+    label: input.targetLabels.get(assetKey(entry)) || fallbackLabel || entry.assetId,
+  });
+
+  const findingRows = (
+    base: Omit<TraceabilityRow, 'finding' | 'measure' | 'status' | 'evidence'>,
+    baseEvidence: TraceabilityRow['evidence'],
+    finding: TraceabilityInput['findings'][number],
+    linkedBy: 'Key' | 'Text' | null
+  ): TraceabilityRow[] => {
+    const findingEntry = {
+      id: finding.id,
+      severity: finding.severity,
+      description: finding.description,
+      riskAccepted: finding.riskAccepted,
+      linkedBy,
+    };
+    const findingEvidence = evidenceOf('Finding', [finding.id]);
+    const measures = measuresByFinding.get(finding.id) ?? [];
+    return (measures.length > 0 ? measures : [null]).map((measure) => ({
+      ...base,
+      finding: findingEntry,
+      measure: measure
+        ? {
+            id: measure.id,
+            title: measure.title,
+            status: measure.status,
+            priority: measure.priority,
+            dueDate: measure.dueDate,
+            assignedTo: measure.assignedTo,
+          }
+        : null,
+      evidence: [...baseEvidence, ...findingEvidence, ...(measure ? evidenceOf('Measure', [measure.id]) : [])],
+      status: rowStatus(base.answers.length > 0 || base.finalAnswer !== null, finding, measure),
+    }));
+  };
+
+  const questionRows = [...input.questions]
+    .sort((a, b) => a.normReference.localeCompare(b.normReference, undefined, { numeric: true }))
+    .flatMap((question) => {
+      const answers = input.answers.filter((answer) => answer.questionId === question.id);
+      const finalAnswers = input.finalAnswers.filter((answer) => answer.questionId === question.id);
+      const findings = input.findings.filter((finding) => findingQuestion.get(finding.id)?.questionId === question.id);
+      const targets = new Map<string, { assetType: string; assetId: string }>();
+      [...answers, ...finalAnswers, ...findings.map(findingTarget)].forEach((entry) => targets.set(assetKey(entry), entry));
+      const findingLabels = new Map(findings.map((finding) => [assetKey(findingTarget(finding)), finding.assetName]));
+
+      const rows = Array.from(targets.values()).flatMap((target) => {
+        const key = assetKey(target);
+        const targetAnswers = answers.filter((answer) => assetKey(answer) === key);
+        const finalAnswer = finalAnswers.find((answer) => assetKey(answer) === key);
+        const base = {
+          normReference: question.normReference,
+          question: { id: question.id, text: question.text },
+          target: targetOf(target, findingLabels.get(key)),
+          answers: targetAnswers.map((answer) => ({ user: answer.user, value: answer.value, comment: answer.comment })),
+          finalAnswer: finalAnswer
+            ? { value: finalAnswer.value, status: finalAnswer.status, source: finalAnswer.source }
+            : null,
+        };
+        const answerEvidence = evidenceOf(
+          'Answer',
+          targetAnswers.map((answer) => answer.id)
+        );
+        const targetFindings = findings.filter((finding) => assetKey(findingTarget(finding)) === key);
+        if (targetFindings.length === 0) {
+          return [
+            {
+              ...base,
+              finding: null,
+              measure: null,
+              evidence: answerEvidence,
+              status: rowStatus(base.answers.length > 0 || base.finalAnswer !== null, null, null),
+            },
+          ];
+        }
+        return targetFindings.flatMap((finding) =>
+          findingRows(base, answerEvidence, finding, findingQuestion.get(finding.id)?.linkedBy ?? null)
+        );
+      });
+
+      return rows.length > 0
+        ? rows
+        : [
+            {
+              normReference: question.normReference,
+              question: { id: question.id, text: question.text },
+              target: null,
+              answers: [],
+              finalAnswer: null,
+              finding: null,
+              measure: null,
+              evidence: [],
+              status: 'Unanswered' as const,
+            },
+          ];
+    });
+
+  const unlinkedFindings = input.findings.filter((finding) => !findingQuestion.get(finding.id));
+  const unlinkedRows = unlinkedFindings.flatMap((finding) =>
+    findingRows(
+      {
+        normReference: finding.normReference,
+        question: null,
+        target: targetOf(findingTarget(finding), finding.assetName),
+        answers: [],
+        finalAnswer: null,
+      },
+      [],
+      finding,
+      null
+    )
+  );
+
+  const rows = [...questionRows, ...unlinkedRows];
+  return {
+    rows,
+    summary: {
+      requirements: new Set(input.questions.map((question) => question.normReference)).size,
+      questions: input.questions.length,
+      answeredQuestions: new Set(
+        [...input.answers, ...input.finalAnswers].map((answer) => answer.questionId).filter((id) => questionIds.has(id))
+      ).size,
+      findings: input.findings.length,
+      findingsWithoutMeasure: input.findings.filter((finding) => !measuresByFinding.has(finding.id)).length,
+      unlinkedFindings: unlinkedFindings.length,
+      measures: input.measures.length,
+      measuresDone: input.measures.filter((measure) => measure.status === 'Done').length,
+      gaps: rows.filter((row) => TRACEABILITY_GAP_STATUSES.includes(row.status)).length,
+    },
+  };
+}
+
+export async function getTraceabilityMatrix(projectId: string): Promise<TraceabilityMatrix> {
+  const [questions, answers, finalAnswers, findings, measures, evidence, findingAssets] = await Promise.all([
+    prisma.question.findMany({
+      where: { projectId },
+      orderBy: { createdAt: 'asc' },
+      select: { id: true, text: true, normReference: true },
+    }),
+    prisma.answer.findMany({
+      where: { projectId },
+      orderBy: { createdAt: 'asc' },
+      select: {
+        id: true,
+        questionId: true,
+        targetType: true,
+        targetId: true,
+        answerValue: true,
+        comment: true,
+        user: { select: { name: true, email: true } },
+      },
+    }),
+    prisma.finalAnswer.findMany({
+      where: { projectId },
+      select: { questionId: true, targetType: true, targetId: true, answerValue: true, status: true, source: true },
+    }),
+    prisma.finding.findMany({
+      where: { projectId },
+      orderBy: [{ severity: 'desc' }, { createdAt: 'asc' }],
+      select: {
+        id: true,
+        questionId: true,
+        questionText: true,
+        normReference: true,
+        assetType: true,
+        assetId: true,
+        assetName: true,
+        nodeId: true,
+        edgeId: true,
+        dataObjectId: true,
+        zoneId: true,
+        description: true,
+        severity: true,
+        riskAcceptedAt: true,
+      },
+    }),
+    prisma.measure.findMany({
+      where: { projectId },
+      orderBy: { createdAt: 'asc' },
+      select: { id: true, findingId: true, title: true, status: true, priority: true, dueDate: true, assignedTo: true },
+    }),
+    prisma.evidence.findMany({
+      where: { projectId },
+      orderBy: { createdAt: 'asc' },
+      select: { id: true, answerId: true, findingId: true, measureId: true, fileName: true, sha256: true },
+    }),
+    loadFindingAssets(projectId),
+  ]);
+
+  return buildTraceabilityMatrix({
+    questions,
+    answers: answers.map((answer) => ({
+      id: answer.id,
+      questionId: answer.questionId,
+      ...toFindingAsset(answer.targetType, answer.targetId),
+      user: answer.user.name || answer.user.email,
+      value: answer.answerValue || '',
+      comment: answer.comment,
+    })),
+    finalAnswers: finalAnswers.map((answer) => ({
+      questionId: answer.questionId,
+      ...toFindingAsset(answer.targetType, answer.targetId),
+      value: answer.answerValue,
+      status: answer.status,
+      source: answer.source,
+    })),
+    findings: findings.map(({ riskAcceptedAt, ...finding }) => ({ ...finding, riskAccepted: Boolean(riskAcceptedAt) })),
+    measures,
+    evidence,
+    targetLabels: new Map([...Array.from(findingAssets.nameByKey), [`Node:${GENERAL_ASSET_ID}`, 'Project-wide']]),
+  });
+}
+
+export const TRACEABILITY_COLUMNS = [
+  'Norm requirement',
+  'Question',
+  'Target type',
+  'Target',
+  'Answers',
+  'Final answer',
+  'Final answer status',
+  'Finding',
+  'Severity',
+  'Risk accepted',
+  'Measure',
+  'Priority',
+  'Measure status',
+  'Due date',
+  'Assigned to',
+  'Evidence',
+  'Trace status',
+] as const;
+
+/**
+ * Flattens the matrix into one text cell per column, for CSV and XLSX.
+ * Severity stays numeric.
+ */
+export function traceabilityTableRows(rows: TraceabilityRow[]): Array<Array<string | number>> {
+  return rows.map((row) => [
+    row.normReference,
+    row.question?.text ?? '',
+    row.target?.type ?? '',
+    row.target?.label ?? '',
+    row.answers.map((answer) => `${answer.user}: ${answer.value}`).join('; '),
+    row.finalAnswer?.value ?? '',
+    row.finalAnswer?.status ?? '',
+    row.finding ? row.finding.description || row.finding.id : '',
+    row.finding?.severity ?? '',
+    row.finding ? (row.finding.riskAccepted ? 'Yes' : 'No') : '',
+    row.measure?.title ?? '',
+    row.measure?.priority ?? '',
+    row.measure?.status ?? '',
+    row.measure?.dueDate ? row.measure.dueDate.toISOString().slice(0, 10) : '',
+    row.measure?.assignedTo ?? '',
+    row.evidence.map((entry) => `${entry.fileName} (${entry.linkType}, sha256 ${entry.sha256})`).join('; '),
+    row.status,
+  ]);
+}
+
+const escapeCsv = (value: string): string => (/[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+export function traceabilityToCsv(rows: TraceabilityRow[]): string {
+  return [[...TRACEABILITY_COLUMNS], ...traceabilityTableRows(rows)]
+    .map((row) => row.map((cell) => escapeCsv(String(cell))).join(','))
+    .join('\n');
+}
@@ -109,6 +109,21 @@ const normalizeFulfillmentAnswerValue = (value: string): string => {
   return String(Number.parseInt(trimmed, 10));
 };
 
+/**
+ * 0-10 fulfillment score of an answer value. Legacy Yes/No answers count as
+ * 10 and 0; N/A, text and empty answers have no score.
+ */
+export const parseFulfillmentScore = (answerValue: string | null | undefined): number | null => {
+  const normalized = (answerValue || '').trim().toUpperCase();
+  if (normalized === 'YES') {
+    return 10;
+  }
+  if (normalized === 'NO') {
+    return 0;
+  }
+  return /^(10|[0-9])$/.test(normalized) ? Number.parseInt(normalized, 10) : null;
+};
+
 export const answerSchema = z.object({
   questionId: z.string().min(1),
   answerValue: z
@@ -117,7 +132,7 @@ export const answerSchema = z.object({
       message: 'answerValue must be a number from 0 to 10 or N/A',
     })
     .transform(normalizeFulfillmentAnswerValue),
-  targetType: z.enum(['Component', 'Edge', 'DataObject', 'None']).optional(),
+  targetType: z.enum(['Component', 'Edge', 'DataObject', 'Zone', 'Conduit', 'None']).optional(),
   targetId: z.string().optional(),
   comment: z.string().optional(),
 });
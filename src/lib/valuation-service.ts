@@ -0,0 +1,364 @@
+/**
+ * Valuation Service
+ * Derives C/I/A asset values for components, containers and interfaces from the data objects they handle
+ */
+
+import { prisma } from '@/lib/prisma';
+
+export const VALUATION_MODES = ['Propose', 'Enforce'] as const;
+
+export type ValuationMode = (typeof VALUATION_MODES)[number];
+
+export interface CiaRating {
+  confidentiality: number;
+  integrity: number;
+  availability: number;
+}
+
+type CiaDimension = keyof CiaRating;
+
+const CIA_DIMENSIONS: CiaDimension[] = ['confidentiality', 'integrity', 'availability'];
+
+export interface ValuationModelInput {
+  nodes: Array<{ id: string; name: string; category: string; parentNodeId: string | null }>;
+  edges: Array<{ id: string; name: string | null; sourceNodeId: string; targetNodeId: string }>;
+  dataObjects: Array<{ id: string; name: string } & CiaRating>;
+  componentData: Array<{ nodeId: string; dataObjectId: string; role: string }>;
+  edgeDataFlows: Array<{ edgeId: string; dataObjectId: string }>;
+}
+
+export interface ValuationSource {
+  kind: 'DataObject' | 'ChildNode';
+  id: string;
+  name: string;
+  // Role of the data object (Stores, Processes, ..., Transports) or "Contains" for child nodes
+  relation: string;
+  rating: CiaRating;
+  // Dimensions in which this source sets the derived value
+  determines: CiaDimension[];
+}
+
+export interface DerivedAssetValuation {
+  assetType: 'Node' | 'Edge';
+  assetId: string;
+  name: string;
+  rating: CiaRating;
+  value: number;
+  sources: ValuationSource[];
+}
+
+export interface AssetValueRecord {
+  assetType: string;
+  assetId: string;
+  value: number;
+  confidentiality: number | null;
+  integrity: number | null;
+  availability: number | null;
+  source: string;
+  comment: string | null;
+}
+
+export interface AssetValuationEntry {
+  assetType: 'Node' | 'Edge';
+  assetId: string;
+  name: string;
+  derived: DerivedAssetValuation | null;
+  current: AssetValueRecord | null;
+  isOverride: boolean;
+}
+
+const clampRating = (value: number): number => Math.min(10, Math.max(1, Math.round(value)));
+
+export const ratingValue = (rating: CiaRating): number =>
+  Math.max(rating.confidentiality, rating.integrity, rating.availability);
+
+export const normalizeValuationMode = (raw: string | null | undefined): ValuationMode =>
+  VALUATION_MODES.find((mode) => mode === raw) || 'Propose';
+
+const toRating = (entry: CiaRating): CiaRating => ({
+  confidentiality: clampRating(entry.confidentiality),
+  integrity: clampRating(entry.integrity),
+  availability: clampRating(entry.availability),
+});
+
+// Maximum principle: every dimension takes the highest value among its sources.
+const combineSources = (
+  assetType: DerivedAssetValuation['assetType'],
+  assetId: string,
+  name: string,
+  sources: Array<Omit<ValuationSource, 'determines'>>
+): DerivedAssetValuation | null => {
+  if (sources.length === 0) {
+    return null;
+  }
+  const rating = CIA_DIMENSIONS.reduce<CiaRating>(
+    (current, dimension) => ({
+      ...current,
+      [dimension]: Math.max(...sources.map((source) => source.rating[dimension])),
+    }),
+    { confidentiality: 1, integrity: 1, availability: 1 }
+  );
+  return {
+    assetType,
+    assetId,
+    name,
+    rating,
+    value: ratingValue(rating),
+    sources: sources.map((source) => ({
+      ...source,
+      determines: CIA_DIMENSIONS.filter((dimension) => source.rating[dimension] === rating[dimension]),
+    })),
+  };
+};
+
+/**
+ * Derives node and edge ratings: components from the data objects they store,
+ * process, generate or receive; interfaces from the data they transport; and
+ * containers from their own data plus all child nodes (recursively).
+ */
+export function deriveAssetValuations(model: ValuationModelInput): DerivedAssetValuation[] {
+  const dataObjectById = new Map(model.dataObjects.map((dataObject) => [dataObject.id, dataObject]));
+  const childrenByParentId = new Map<string, ValuationModelInput['nodes']>();
+  for (const node of model.nodes) {
+    if (node.parentNodeId) {
+      childrenByParentId.set(node.parentNodeId, [...(childrenByParentId.get(node.parentNodeId) || []), node]);
+    }
+  }
+
+  const dataSourcesFor = (links: Array<{ dataObjectId: string; relation: string }>) =>
+    links.flatMap((link) => {
+      const dataObject = dataObjectById.get(link.dataObjectId);
+      return dataObject
+        ? [{ kind: 'DataObject' as const, id: dataObject.id, name: dataObject.name, relation: link.relation, rating: toRating(dataObject) }]
+        : [];
+    });
+
+  const nodeValuations = new Map<string, DerivedAssetValuation | null>();
+  const resolveNode = (node: ValuationModelInput['nodes'][number], visiting: Set<string>): DerivedAssetValuation | null => {
+    if (nodeValuations.has(node.id)) {
+      return nodeValuations.get(node.id) ?? null;
+    }
+    if (visiting.has(node.id)) {
+      return null;
+    }
+    visiting.add(node.id);
+
+    const ownSources = dataSourcesFor(
+      model.componentData
+        .filter((entry) => entry.nodeId === node.id)
+        .map((entry) => ({ dataObjectId: entry.dataObjectId, relation: entry.role }))
+    );
+    const childSources = (childrenByParentId.get(node.id) || []).flatMap((child) => {
+      const childValuation = resolveNode(child, visiting);
+      return childValuation
+        ? [{ kind: 'ChildNode' as const, id: child.id, name: child.name, relation: 'Contains', rating: childValuation.rating }]
+        : [];
+    });
+
+    const valuation = combineSources('Node', node.id, node.name, [...ownSources, ...childSources]);
+    nodeValuations.set(node.id, valuation);
+    return valuation;
+  };
+
+  const derived: DerivedAssetValuation[] = [];
+  for (const node of model.nodes) {
+    const valuation = resolveNode(node, new Set());
+    if (valuation) {
+      derived.push(valuation);
+    }
+  }
+
+  const nodeNameById = new Map(model.nodes.map((node) => [node.id, node.name]));
+  for (const edge of model.edges) {
+    const name =
+      edge.name?.trim() ||
+      `${nodeNameById.get(edge.sourceNodeId) || 'Source'} -> ${nodeNameById.get(edge.targetNodeId) || 'Target'}`;
+    const valuation = combineSources(
+      'Edge',
+      edge.id,
+      name,
+      dataSourcesFor(
+        model.edgeDataFlows
+          .filter((flow) => flow.edgeId === edge.id)
+          .map((flow) => ({ dataObjectId: flow.dataObjectId, relation: 'Transports' }))
+      )
+    );
+    if (valuation) {
+      derived.push(valuation);
+    }
+  }
+
+  return derived;
+}
+
+/**
+ * Joins derived values with stored asset values. A manual value that differs
+ * from the derived one is flagged as override.
+ */
+export function buildAssetValuationEntries(
+  model: ValuationModelInput,
+  assetValues: AssetValueRecord[]
+): AssetValuationEntry[] {
+  const derivedByKey = new Map(
+    deriveAssetValuations(model).map((valuation) => [`${valuation.assetType}:${valuation.assetId}`, valuation])
+  );
+  const valueByKey = new Map(assetValues.map((entry) => [`${entry.assetType}:${entry.assetId}`, entry]));
+  const nodeNameById = new Map(model.nodes.map((node) => [node.id, node.name]));
+
+  const assets: Array<{ assetType: 'Node' | 'Edge'; assetId: string; name: string }> = [
+    ...model.nodes.map((node) => ({ assetType: 'Node' as const, assetId: node.id, name: node.name })),
+    ...model.edges.map((edge) => ({
+      assetType: 'Edge' as const,
+      assetId: edge.id,
+      name:
+        edge.name?.trim() ||
+        `${nodeNameById.get(edge.sourceNodeId) || 'Source'} -> ${nodeNameById.get(edge.targetNodeId) || 'Target'}`,
+    })),
+  ];
+
+  return assets.map((asset) => {
+    const key = `${asset.assetType}:${asset.assetId}`;
+    const derived = derivedByKey.get(key) || null;
+    const current = valueByKey.get(key) || null;
+    return {
+      ...asset,
+      derived,
+      current,
+      isOverride: Boolean(derived && current && current.source !== 'Derived' && current.value !== derived.value),
+    };
+  });
+}
+
+const loadValuationModel = async (projectId: string): Promise<ValuationModelInput> => {
+  const [nodes, edges, dataObjects, componentData, edgeDataFlows] = await Promise.all([
+    prisma.modelNode.findMany({
+      where: { projectId },
+      select: { id: true, name: true, category: true, parentNodeId: true },
+    }),
+    prisma.modelEdge.findMany({
+      where: { projectId },
+      select: { id: true, name: true, sourceNodeId: true, targetNodeId: true },
+    }),
+    prisma.dataObject.findMany({
+      where: { projectId },
+      select: { id: true, name: true, confidentiality: true, integrity: true, availability: true },
+    }),
+    prisma.componentData.findMany({
+      where: { node: { projectId } },
+      select: { nodeId: true, dataObjectId: true, role: true },
+    }),
+    prisma.edgeDataFlow.findMany({
+      where: { edge: { projectId } },
+      select: { edgeId: true, dataObjectId: true },
+    }),
+  ]);
+
+  return { nodes, edges, dataObjects, componentData, edgeDataFlows };
+};
+
+const loadAssetValues = (projectId: string) =>
+  prisma.assetValue.findMany({
+    where: { projectId, assetType: { in: ['Node', 'Edge'] } },
+    select: {
+      assetType: true,
+      assetId: true,
+      value: true,
+      confidentiality: true,
+      integrity: true,
+      availability: true,
+      source: true,
+      comment: true,
+    },
+  });
+
+export async function getAssetValuation(projectId: string) {
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    select: { valuationMode: true },
+  });
+  if (!project) {
+    return null;
+  }
+
+  const [model, assetValues] = await Promise.all([loadValuationModel(projectId), loadAssetValues(projectId)]);
+
+  return {
+    mode: normalizeValuationMode(project.valuationMode),
+    entries: buildAssetValuationEntries(model, assetValues),
+  };
+}
+
+/**
+ * Writes derived values as asset values. Without an explicit asset list only
+ * assets without a manual value are updated, and derived values whose data
+ * mapping disappeared are removed. Listed assets are applied even if they were
+ * overridden manually.
+ */
+export async function applyDerivedAssetValues(
+  projectId: string,
+  userId: string | null,
+  assets?: Array<{ assetType: 'Node' | 'Edge'; assetId: string }>
+) {
+  const [model, assetValues] = await Promise.all([loadValuationModel(projectId), loadAssetValues(projectId)]);
+  const entries = buildAssetValuationEntries(model, assetValues);
+  const requestedKeys = assets ? new Set(assets.map((asset) => `${asset.assetType}:${asset.assetId}`)) : null;
+
+  const toApply = entries.filter((entry) => {
+    if (!entry.derived) {
+      return false;
+    }
+    if (requestedKeys) {
+      return requestedKeys.has(`${entry.assetType}:${entry.assetId}`);
+    }
+    return !entry.current || entry.current.source === 'Derived';
+  });
+  const stale = requestedKeys
+    ? []
+    : entries.filter((entry) => !entry.derived && entry.current?.source === 'Derived');
+
+  await prisma.$transaction(async (tx) => {
+    for (const entry of toApply) {
+      const derived = entry.derived as DerivedAssetValuation;
+      const data = {
+        value: derived.value,
+        confidentiality: derived.rating.confidentiality,
+        integrity: derived.rating.integrity,
+        availability: derived.rating.availability,
+        source: 'Derived',
+      };
+      await tx.assetValue.upsert({
+        where: {
+          projectId_assetType_assetId: { projectId, assetType: entry.assetType, assetId: entry.assetId },
+        },
+        update: data,
+        create: { projectId, assetType: entry.assetType, assetId: entry.assetId, ...data, createdByUserId: userId },
+      });
+    }
+    if (stale.length > 0) {
+      await tx.assetValue.deleteMany({
+        where: {
+          projectId,
+          source: 'Derived',
+          OR: stale.map((entry) => ({ assetType: entry.assetType, assetId: entry.assetId })),
+        },
+      });
+    }
+  });
+
+  return { applied: toApply.length, removed: stale.length };
+}
+
+/**
+ * Re-applies derived values after model or data changes when the project
+ * enforces derived valuation. Does nothing in propose mode.
+ */
+export async function syncEnforcedAssetValues(projectId: string): Promise<void> {
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    select: { valuationMode: true },
+  });
+  if (!project || normalizeValuationMode(project.valuationMode) !== 'Enforce') {
+    return;
+  }
+  await applyDerivedAssetValues(projectId, null);
+}
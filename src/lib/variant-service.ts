@@ -0,0 +1,919 @@
+/**
+ * Variant Service
+ * Product variants that inherit model elements and answers from a parent project, with local overrides and pending parent updates
+ *
+ * Inherited elements are materialized as rows of the variant and linked to their parent element
+ * (InheritedElement). Every model, assessment and report query keeps reading a single project that
+ * way; the link decides per field whether a value is still inherited or overridden locally.
+ */
+
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { syncFinalAnswers } from '@/lib/consensus-service';
+import { DEFAULT_DIAGRAM_VIEW_NAME } from '@/lib/diagram-layout-service';
+import { buildConduitId, parseConduitId } from '@/lib/zone-service';
+
+// Written in this order so that references always point to elements that already exist
+export const INHERITABLE_ENTITY_TYPES = [
+  'Zone',
+  'Node',
+  'DataObject',
+  'Edge',
+  'ComponentData',
+  'EdgeDataFlow',
+  'Question',
+  'Answer',
+] as const;
+
+export type InheritableEntityType = (typeof INHERITABLE_ENTITY_TYPES)[number];
+
+export type InheritedValue = string | number | boolean | null;
+
+export type InheritedRecord = { id: string } & Record<string, InheritedValue>;
+
+export type InheritedRecords = Record<InheritableEntityType, InheritedRecord[]>;
+
+export const INHERITED_FIELDS: Record<InheritableEntityType, string[]> = {
+  Zone: ['name', 'description', 'targetSecurityLevel', 'color'],
+  Node: ['stableId', 'name', 'category', 'description', 'notes', 'parentNodeId', 'zoneId', 'capabilitySecurityLevel'],
+  DataObject: ['name', 'description', 'dataClass', 'confidentiality', 'integrity', 'availability', 'tags'],
+  Edge: [
+    'sourceNodeId',
+    'targetNodeId',
+    'sourceHandleId',
+    'targetHandleId',
+    'name',
+    'direction',
+    'protocol',
+    'description',
+    'notes',
+  ],
+  ComponentData: ['nodeId', 'dataObjectId', 'role', 'notes'],
+  EdgeDataFlow: ['edgeId', 'dataObjectId', 'direction', 'notes'],
+  Question: [
+    'text',
+    'normReference',
+    'targetType',
+    'answerType',
+    'riskDescription',
+    'defaultMeasures',
+    'applicability',
+    'catalogId',
+    'catalogControlKey',
+  ],
+  Answer: ['questionId', 'userId', 'answerValue', 'targetType', 'targetId', 'comment', 'isAggregate'],
+};
+
+// An inherited element cannot exist in the variant without these references
+const REQUIRED_REFERENCES: Partial<Record<InheritableEntityType, string[]>> = {
+  Edge: ['sourceNodeId', 'targetNodeId'],
+  ComponentData: ['nodeId', 'dataObjectId'],
+  EdgeDataFlow: ['edgeId', 'dataObjectId'],
+  Answer: ['questionId'],
+};
+
+const ANSWER_TARGET_ENTITY_TYPES: Record<string, InheritableEntityType> = {
+  Component: 'Node',
+  Edge: 'Edge',
+  DataObject: 'DataObject',
+  Zone: 'Zone',
+};
+
+const referencedEntityType = (
+  entityType: InheritableEntityType,
+  field: string,
+  record: Record<string, InheritedValue>
+): InheritableEntityType | 'Conduit' | null => {
+  switch (`${entityType}.${field}`) {
+    case 'Node.parentNodeId':
+    case 'Edge.sourceNodeId':
+    case 'Edge.targetNodeId':
+    case 'ComponentData.nodeId':
+      return 'Node';
+    case 'Node.zoneId':
+      return 'Zone';
+    case 'ComponentData.dataObjectId':
+    case 'EdgeDataFlow.dataObjectId':
+      return 'DataObject';
+    case 'EdgeDataFlow.edgeId':
+      return 'Edge';
+    case 'Answer.questionId':
+      return 'Question';
+    case 'Answer.targetId':
+      return record.targetType === 'Conduit' ? 'Conduit' : ANSWER_TARGET_ENTITY_TYPES[String(record.targetType)] ?? null;
+    default:
+      return null;
+  }
+};
+
+type IdResolver = (entityType: InheritableEntityType, id: string) => string | undefined;
+
+/**
+ * Rewrites the element references of a record between parent and variant ids.
+ * Unresolved references are kept when `keepUnresolved` is set, otherwise cleared.
+ */
+const translateReferences = (
+  entityType: InheritableEntityType,
+  record: Record<string, InheritedValue>,
+  resolve: IdResolver,
+  keepUnresolved: boolean
+): Record<string, InheritedValue> => {
+  const translated = { ...record };
+  INHERITED_FIELDS[entityType].forEach((field) => {
+    const value = record[field];
+    const referencedType = referencedEntityType(entityType, field, record);
+    if (!referencedType || typeof value !== 'string' || !value) {
+      return;
+    }
+    let resolved: string | undefined;
+    if (referencedType === 'Conduit') {
+      const conduit = parseConduitId(value);
+      const zoneAId = conduit ? resolve('Zone', conduit.zoneAId) : undefined;
+      const zoneBId = conduit ? resolve('Zone', conduit.zoneBId) : undefined;
+      resolved = zoneAId && zoneBId ? buildConduitId(zoneAId, zoneBId) : undefined;
+    } else {
+      resolved = resolve(referencedType, value);
+    }
+    translated[field] = resolved ?? (keepUnresolved ? value : null);
+  });
+  return translated;
+};
+
+const pickInheritedFields = (
+  entityType: InheritableEntityType,
+  record: Record<string, InheritedValue>
+): Record<string, InheritedValue> =>
+  Object.fromEntries(INHERITED_FIELDS[entityType].map((field) => [field, record[field] ?? null]));
+
+const sameValue = (a: InheritedValue | undefined, b: InheritedValue | undefined) => (a ?? null) === (b ?? null);
+
+const elementKey = (entityType: InheritableEntityType, id: string) => `${entityType}:${id}`;
+
+// ============================================
+// PENDING UPDATES
+// ============================================
+
+export interface InheritanceLink {
+  entityType: InheritableEntityType;
+  parentEntityId: string;
+  localEntityId: string;
+  synced: Record<string, InheritedValue>; // Parent values at the last sync
+}
+
+export type VariantUpdateChange = 'added' | 'removed' | 'modified';
+
+export interface VariantUpdate {
+  key: string;
+  entityType: InheritableEntityType;
+  parentEntityId: string;
+  localEntityId: string | null;
+  label: string;
+  change: VariantUpdateChange;
+  fields: string[]; // Fields the parent changed since the last sync
+  conflictFields: string[]; // Fields the variant has overridden with a different value
+}
+
+export interface VariantInheritanceStatus {
+  updates: VariantUpdate[];
+  summary: { inherited: number; overridden: number; localOnly: number };
+}
+
+export const variantUpdateKey = (entityType: InheritableEntityType, parentEntityId: string) =>
+  elementKey(entityType, parentEntityId);
+
+const buildLabeler = (records: InheritedRecords) => {
+  const names = new Map<string, string>();
+  (['Zone', 'Node', 'DataObject'] as const).forEach((entityType) =>
+    records[entityType].forEach((record) => names.set(elementKey(entityType, record.id), String(record.name)))
+  );
+  records.Question.forEach((record) => names.set(elementKey('Question', record.id), String(record.text)));
+  const nameOf = (entityType: InheritableEntityType, id: InheritedValue) =>
+    names.get(elementKey(entityType, String(id))) || String(id);
+  const edgeLabel = (edge: Record<string, InheritedValue>) =>
+    edge.name ? String(edge.name) : `${nameOf('Node', edge.sourceNodeId)} → ${nameOf('Node', edge.targetNodeId)}`;
+  const edgeById = new Map(records.Edge.map((edge) => [edge.id, edge]));
+
+  return (entityType: InheritableEntityType, record: Record<string, InheritedValue>): string => {
+    switch (entityType) {
+      case 'Edge':
+        return edgeLabel(record);
+      case 'ComponentData':
+        return `${nameOf('Node', record.nodeId)} · ${nameOf('DataObject', record.dataObjectId)}`;
+      case 'EdgeDataFlow': {
+        const edge = edgeById.get(String(record.edgeId));
+        return `${edge ? edgeLabel(edge) : String(record.edgeId)} · ${nameOf('DataObject', record.dataObjectId)}`;
+      }
+      case 'Question':
+        return String(record.text);
+      case 'Answer':
+        return `${nameOf('Question', record.questionId)}: ${record.answerValue ?? '–'}`;
+      default:
+        return String(record.name);
+    }
+  };
+};
+
+/**
+ * Compares the parent with the variant. A field is inherited while its local
+ * value equals the parent value of the last sync; any other local value is an
+ * override. Parent changes since the last sync are pending updates, and changed
+ * fields the variant has overridden are reported as conflicts.
+ */
+export function planVariantUpdates(
+  parent: InheritedRecords,
+  local: InheritedRecords,
+  links: InheritanceLink[]
+): VariantInheritanceStatus {
+  const parentIdByLocalKey = new Map(
+    links.map((link) => [elementKey(link.entityType, link.localEntityId), link.parentEntityId])
+  );
+  const toParentIds: IdResolver = (entityType, id) => parentIdByLocalKey.get(elementKey(entityType, id));
+  const labelOf = buildLabeler(parent);
+
+  const updates: VariantUpdate[] = [];
+  const summary = { inherited: 0, overridden: 0, localOnly: 0 };
+
+  INHERITABLE_ENTITY_TYPES.forEach((entityType) => {
+    const fields = INHERITED_FIELDS[entityType];
+    const typeLinks = links.filter((link) => link.entityType === entityType);
+    const linkByParentId = new Map(typeLinks.map((link) => [link.parentEntityId, link]));
+    const parentIds = new Set(parent[entityType].map((record) => record.id));
+    const linkedLocalIds = new Set(typeLinks.map((link) => link.localEntityId));
+    const localById = new Map(
+      local[entityType].map((record) => [record.id, translateReferences(entityType, record, toParentIds, true)])
+    );
+    const overriddenFields = (link: InheritanceLink, localRecord: Record<string, InheritedValue>) =>
+      fields.filter((field) => !sameValue(localRecord[field], link.synced[field]));
+
+    parent[entityType].forEach((record) => {
+      const link = linkByParentId.get(record.id);
+      const base = {
+        key: variantUpdateKey(entityType, record.id),
+        entityType,
+        parentEntityId: record.id,
+        label: labelOf(entityType, record),
+      };
+      if (!link) {
+        updates.push({ ...base, localEntityId: null, change: 'added', fields, conflictFields: [] });
+        return;
+      }
+      const localRecord = localById.get(link.localEntityId);
+      if (!localRecord) {
+        // Deleted in the variant on purpose
+        return;
+      }
+      summary.inherited += 1;
+      const overridden = overriddenFields(link, localRecord);
+      if (overridden.length > 0) {
+        summary.overridden += 1;
+      }
+      const changed = fields.filter((field) => !sameValue(record[field], link.synced[field]));
+      if (changed.length > 0) {
+        updates.push({
+          ...base,
+          localEntityId: link.localEntityId,
+          change: 'modified',
+          fields: changed,
+          conflictFields: changed.filter(
+            (field) => overridden.includes(field) && !sameValue(localRecord[field], record[field])
+          ),
+        });
+      }
+    });
+
+    typeLinks.forEach((link) => {
+      if (parentIds.has(link.parentEntityId)) {
+        return;
+      }
+      const localRecord = localById.get(link.localEntityId);
+      updates.push({
+        key: variantUpdateKey(entityType, link.parentEntityId),
+        entityType,
+        parentEntityId: link.parentEntityId,
+        localEntityId: localRecord ? link.localEntityId : null,
+        label: labelOf(entityType, localRecord ?? link.synced),
+        change: 'removed',
+        fields: [],
+        conflictFields: localRecord ? overriddenFields(link, localRecord) : [],
+      });
+    });
+
+    summary.localOnly += local[entityType].filter((record) => !linkedLocalIds.has(record.id)).length;
+  });
+
+  return { updates, summary };
+}
+
+// ============================================
+// PERSISTENCE
+// ============================================
+
+const ZONE_SELECT = {
+  id: true,
+  name: true,
+  description: true,
+  targetSecurityLevel: true,
+  color: true,
+} satisfies Prisma.ZoneSelect;
+
+const NODE_SELECT = {
+  id: true,
+  stableId: true,
+  name: true,
+  category: true,
+  description: true,
+  notes: true,
+  parentNodeId: true,
+  zoneId: true,
+  capabilitySecurityLevel: true,
+} satisfies Prisma.ModelNodeSelect;
+
+const DATA_OBJECT_SELECT = {
+  id: true,
+  name: true,
+  description: true,
+  dataClass: true,
+  confidentiality: true,
+  integrity: true,
+  availability: true,
+  tags: true,
+} satisfies Prisma.DataObjectSelect;
+
+const EDGE_SELECT = {
+  id: true,
+  sourceNodeId: true,
+  targetNodeId: true,
+  sourceHandleId: true,
+  targetHandleId: true,
+  name: true,
+  direction: true,
+  protocol: true,
+  description: true,
+  notes: true,
+} satisfies Prisma.ModelEdgeSelect;
+
+const COMPONENT_DATA_SELECT = {
+  id: true,
+  nodeId: true,
+  dataObjectId: true,
+  role: true,
+  notes: true,
+} satisfies Prisma.ComponentDataSelect;
+
+const EDGE_DATA_FLOW_SELECT = {
+  id: true,
+  edgeId: true,
+  dataObjectId: true,
+  direction: true,
+  notes: true,
+} satisfies Prisma.EdgeDataFlowSelect;
+
+const QUESTION_SELECT = {
+  id: true,
+  text: true,
+  normReference: true,
+  targetType: true,
+  answerType: true,
+  riskDescription: true,
+  defaultMeasures: true,
+  applicability: true,
+  catalogId: true,
+  catalogControlKey: true,
+} satisfies Prisma.QuestionSelect;
+
+const ANSWER_SELECT = {
+  id: true,
+  questionId: true,
+  userId: true,
+  answerValue: true,
+  targetType: true,
+  targetId: true,
+  comment: true,
+  isAggregate: true,
+} satisfies Prisma.AnswerSelect;
+
+async function loadInheritableRecords(db: Prisma.TransactionClient, projectId: string): Promise<InheritedRecords> {
+  const [zones, nodes, dataObjects, edges, componentData, edgeDataFlows, questions, answers] = await Promise.all([
+    db.zone.findMany({ where: { projectId }, select: ZONE_SELECT }),
+    db.modelNode.findMany({ where: { projectId }, select: NODE_SELECT }),
+    db.dataObject.findMany({ where: { projectId }, select: DATA_OBJECT_SELECT }),
+    db.modelEdge.findMany({ where: { projectId }, select: EDGE_SELECT }),
+    db.componentData.findMany({ where: { node: { projectId } }, select: COMPONENT_DATA_SELECT }),
+    db.edgeDataFlow.findMany({ where: { edge: { projectId } }, select: EDGE_DATA_FLOW_SELECT }),
+    db.question.findMany({ where: { projectId }, select: QUESTION_SELECT }),
+    db.answer.findMany({ where: { projectId }, select: ANSWER_SELECT }),
+  ]);
+
+  return {
+    Zone: zones,
+    Node: nodes,
+    DataObject: dataObjects,
+    Edge: edges,
+    ComponentData: componentData,
+    EdgeDataFlow: edgeDataFlows,
+    Question: questions,
+    Answer: answers,
+  };
+}
+
+async function loadInheritanceLinks(db: Prisma.TransactionClient, projectId: string): Promise<InheritanceLink[]> {
+  const rows = await db.inheritedElement.findMany({
+    where: { projectId },
+    select: { entityType: true, parentEntityId: true, localEntityId: true, syncedJson: true },
+  });
+  return rows.flatMap((row) =>
+    (INHERITABLE_ENTITY_TYPES as readonly string[]).includes(row.entityType)
+      ? [
+          {
+            entityType: row.entityType as InheritableEntityType,
+            parentEntityId: row.parentEntityId,
+            localEntityId: row.localEntityId,
+            synced: JSON.parse(row.syncedJson) as Record<string, InheritedValue>,
+          },
+        ]
+      : []
+  );
+}
+
+type ElementData = Record<string, InheritedValue>;
+
+const text = (value: InheritedValue | undefined): string => (value === null || value === undefined ? '' : String(value));
+
+const optionalText = (value: InheritedValue | undefined): string | null =>
+  value === null || value === undefined ? null : String(value);
+
+const integer = (value: InheritedValue | undefined, fallback: number): number =>
+  typeof value === 'number' ? value : fallback;
+
+const optionalInteger = (value: InheritedValue | undefined): number | null => (typeof value === 'number' ? value : null);
+
+// An update only writes the fields the sync selected
+const presentFields = <T extends object>(data: ElementData, values: T): Partial<T> =>
+  Object.fromEntries(Object.entries(values).filter(([field]) => field in data)) as Partial<T>;
+
+const zoneFields = (data: ElementData) => ({
+  name: text(data.name),
+  description: optionalText(data.description),
+  targetSecurityLevel: integer(data.targetSecurityLevel, 1),
+  color: optionalText(data.color),
+});
+
+const nodeFields = (data: ElementData) => ({
+  stableId: text(data.stableId),
+  name: text(data.name),
+  category: text(data.category),
+  description: optionalText(data.description),
+  notes: optionalText(data.notes),
+  parentNodeId: optionalText(data.parentNodeId),
+  zoneId: optionalText(data.zoneId),
+  capabilitySecurityLevel: optionalInteger(data.capabilitySecurityLevel),
+});
+
+const dataObjectFields = (data: ElementData) => ({
+  name: text(data.name),
+  description: optionalText(data.description),
+  dataClass: text(data.dataClass),
+  confidentiality: integer(data.confidentiality, 5),
+  integrity: integer(data.integrity, 5),
+  availability: integer(data.availability, 5),
+  tags: optionalText(data.tags),
+});
+
+const edgeFields = (data: ElementData) => ({
+  sourceNodeId: text(data.sourceNodeId),
+  targetNodeId: text(data.targetNodeId),
+  sourceHandleId: optionalText(data.sourceHandleId),
+  targetHandleId: optionalText(data.targetHandleId),
+  name: optionalText(data.name),
+  direction: text(data.direction) || 'A_TO_B',
+  protocol: optionalText(data.protocol),
+  description: optionalText(data.description),
+  notes: optionalText(data.notes),
+});
+
+const componentDataFields = (data: ElementData) => ({
+  nodeId: text(data.nodeId),
+  dataObjectId: text(data.dataObjectId),
+  role: text(data.role),
+  notes: optionalText(data.notes),
+});
+
+const edgeDataFlowFields = (data: ElementData) => ({
+  edgeId: text(data.edgeId),
+  dataObjectId: text(data.dataObjectId),
+  direction: text(data.direction) || 'SourceToTarget',
+  notes: optionalText(data.notes),
+});
+
+const questionFields = (data: ElementData) => ({
+  text: text(data.text),
+  normReference: text(data.normReference),
+  targetType: text(data.targetType),
+  answerType: text(data.answerType) || 'YesNo',
+  riskDescription: optionalText(data.riskDescription),
+  defaultMeasures: optionalText(data.defaultMeasures),
+  applicability: optionalText(data.applicability),
+  catalogId: optionalText(data.catalogId),
+  catalogControlKey: optionalText(data.catalogControlKey),
+});
+
+const answerFields = (data: ElementData) => ({
+  questionId: text(data.questionId),
+  userId: text(data.userId),
+  answerValue: optionalText(data.answerValue),
+  targetType: optionalText(data.targetType),
+  targetId: optionalText(data.targetId),
+  comment: optionalText(data.comment),
+  isAggregate: data.isAggregate === true,
+});
+
+interface ElementWriter {
+  create: (
+    tx: Prisma.TransactionClient,
+    data: ElementData,
+    context: { projectId: string; userId: string }
+  ) => Promise<{ id: string }>;
+  update: (tx: Prisma.TransactionClient, id: string, data: ElementData, userId: string) => Promise<unknown>;
+  remove: (tx: Prisma.TransactionClient, id: string) => Promise<unknown>;
+}
+
+const ELEMENT_WRITERS: Record<InheritableEntityType, ElementWriter> = {
+  Zone: {
+    create: (tx, data, { projectId }) => tx.zone.create({ data: { ...zoneFields(data), projectId }, select: { id: true } }),
+    update: (tx, id, data) => tx.zone.update({ where: { id }, data: presentFields(data, zoneFields(data)) }),
+    remove: (tx, id) => tx.zone.deleteMany({ where: { id } }),
+  },
+  Node: {
+    create: (tx, data, { projectId, userId }) =>
+      tx.modelNode.create({
+        data: { ...nodeFields(data), projectId, createdByUserId: userId, updatedByUserId: userId },
+        select: { id: true },
+      }),
+    update: (tx, id, data, userId) =>
+      tx.modelNode.update({ where: { id }, data: { ...presentFields(data, nodeFields(data)), updatedByUserId: userId } }),
+    remove: (tx, id) => tx.modelNode.deleteMany({ where: { id } }),
+  },
+  DataObject: {
+    create: (tx, data, { projectId }) =>
+      tx.dataObject.create({ data: { ...dataObjectFields(data), projectId }, select: { id: true } }),
+    update: (tx, id, data) => tx.dataObject.update({ where: { id }, data: presentFields(data, dataObjectFields(data)) }),
+    remove: (tx, id) => tx.dataObject.deleteMany({ where: { id } }),
+  },
+  Edge: {
+    create: (tx, data, { projectId, userId }) =>
+      tx.modelEdge.create({ data: { ...edgeFields(data), projectId, createdByUserId: userId }, select: { id: true } }),
+    update: (tx, id, data) => tx.modelEdge.update({ where: { id }, data: presentFields(data, edgeFields(data)) }),
+    remove: (tx, id) => tx.modelEdge.deleteMany({ where: { id } }),
+  },
+  ComponentData: {
+    create: (tx, data) => tx.componentData.create({ data: componentDataFields(data), select: { id: true } }),
+    update: (tx, id, data) =>
+      tx.componentData.update({ where: { id }, data: presentFields(data, componentDataFields(data)) }),
+    remove: (tx, id) => tx.componentData.deleteMany({ where: { id } }),
+  },
+  EdgeDataFlow: {
+    create: (tx, data) => tx.edgeDataFlow.create({ data: edgeDataFlowFields(data), select: { id: true } }),
+    update: (tx, id, data) =>
+      tx.edgeDataFlow.update({ where: { id }, data: presentFields(data, edgeDataFlowFields(data)) }),
+    remove: (tx, id) => tx.edgeDataFlow.deleteMany({ where: { id } }),
+  },
+  Question: {
+    create: (tx, data, { projectId }) =>
+      tx.question.create({ data: { ...questionFields(data), projectId }, select: { id: true } }),
+    update: (tx, id, data) => tx.question.update({ where: { id }, data: presentFields(data, questionFields(data)) }),
+    remove: (tx, id) => tx.question.deleteMany({ where: { id } }),
+  },
+  Answer: {
+    // Inherited answers keep their parent author and are flagged so they are not mistaken for local votes
+    create: (tx, data, { projectId }) =>
+      tx.answer.create({ data: { ...answerFields(data), projectId, isInherited: true }, select: { id: true } }),
+    update: (tx, id, data) => tx.answer.update({ where: { id }, data: presentFields(data, answerFields(data)) }),
+    remove: (tx, id) => tx.answer.deleteMany({ where: { id } }),
+  },
+};
+
+// Values that must be unique within the variant; parent elements take over a local element with the same value
+const NATURAL_KEYS: Partial<Record<InheritableEntityType, (record: ElementData) => string>> = {
+  Zone: (record) => String(record.name).toLowerCase(),
+  DataObject: (record) => String(record.name).toLowerCase(),
+  ComponentData: (record) => `${record.nodeId}::${record.dataObjectId}`,
+  EdgeDataFlow: (record) => `${record.edgeId}::${record.dataObjectId}`,
+};
+
+const uniqueStableId = (stableId: string, taken: Set<string>) => {
+  let candidate = stableId;
+  let suffix = 2;
+  while (taken.has(candidate.toLowerCase())) {
+    candidate = `${stableId}_${suffix}`;
+    suffix += 1;
+  }
+  return candidate;
+};
+
+/**
+ * Parent project, pending updates and override summary of a variant, or null
+ * when the project does not inherit from another project.
+ */
+export async function getVariantInheritance(projectId: string) {
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    select: { parentProject: { select: { id: true, name: true, deletedAt: true } } },
+  });
+  if (!project?.parentProject) {
+    return null;
+  }
+
+  const [parentRecords, localRecords, links] = await Promise.all([
+    loadInheritableRecords(prisma, project.parentProject.id),
+    loadInheritableRecords(prisma, projectId),
+    loadInheritanceLinks(prisma, projectId),
+  ]);
+  return { parent: project.parentProject, ...planVariantUpdates(parentRecords, localRecords, links) };
+}
+
+/**
+ * Writes the selected pending parent updates into a variant within the given
+ * transaction. Returns whether answers were touched so the caller can
+ * recompute the final answers once the transaction has committed.
+ */
+async function writeVariantUpdates(
+  tx: Prisma.TransactionClient,
+  projectId: string,
+  parentProjectId: string,
+  options: { keys?: string[]; overwriteLocal?: boolean },
+  userId: string
+) {
+  const [parentRecords, localRecords, links] = await Promise.all([
+    loadInheritableRecords(tx, parentProjectId),
+    loadInheritableRecords(tx, projectId),
+    loadInheritanceLinks(tx, projectId),
+  ]);
+  const { updates } = planVariantUpdates(parentRecords, localRecords, links);
+  const selectedKeys = options.keys ? new Set(options.keys) : null;
+  const selected = updates.filter((update) => !selectedKeys || selectedKeys.has(update.key));
+
+  const localIdByParentKey = new Map(
+    links.map((link) => [elementKey(link.entityType, link.parentEntityId), link.localEntityId])
+  );
+  const toLocalIds: IdResolver = (entityType, id) => localIdByParentKey.get(elementKey(entityType, id));
+  const linkedLocalKeys = new Set(links.map((link) => elementKey(link.entityType, link.localEntityId)));
+  const takenStableIds = new Set(localRecords.Node.map((node) => String(node.stableId).toLowerCase()));
+  const localIdByNaturalKey = new Map<string, string>();
+  INHERITABLE_ENTITY_TYPES.forEach((entityType) => {
+    const naturalKey = NATURAL_KEYS[entityType];
+    localRecords[entityType].forEach((record) => {
+      if (naturalKey && !linkedLocalKeys.has(elementKey(entityType, record.id))) {
+        localIdByNaturalKey.set(`${entityType}:${naturalKey(record)}`, record.id);
+      }
+    });
+  });
+  const parentById = new Map(
+    INHERITABLE_ENTITY_TYPES.flatMap((entityType) =>
+      parentRecords[entityType].map((record) => [elementKey(entityType, record.id), record] as const)
+    )
+  );
+
+  let applied = 0;
+  let skipped = 0;
+  // Node parents are linked once all nodes exist, as in a selective restore
+  const pendingNodeParents: Array<{ localId: string; parentNodeId: InheritedValue }> = [];
+
+  for (const entityType of INHERITABLE_ENTITY_TYPES) {
+    const typeUpdates = selected
+      .filter((update) => update.entityType === entityType)
+      .sort((a, b) => (a.change === 'added' ? 0 : 1) - (b.change === 'added' ? 0 : 1));
+
+    for (const update of typeUpdates) {
+      const parentRecord = parentById.get(elementKey(entityType, update.parentEntityId));
+
+      if (update.change === 'removed') {
+        if (update.localEntityId && update.conflictFields.length === 0) {
+          await ELEMENT_WRITERS[entityType].remove(tx, update.localEntityId);
+        }
+        await tx.inheritedElement.deleteMany({
+          where: { projectId, entityType, parentEntityId: update.parentEntityId },
+        });
+        applied += 1;
+        continue;
+      }
+      if (!parentRecord) {
+        skipped += 1;
+        continue;
+      }
+
+      const synced = pickInheritedFields(entityType, parentRecord);
+      const fields =
+        update.change === 'added' || options.overwriteLocal
+          ? update.fields
+          : update.fields.filter((field) => !update.conflictFields.includes(field));
+      const data = translateReferences(
+        entityType,
+        Object.fromEntries(fields.map((field) => [field, synced[field]])),
+        toLocalIds,
+        false
+      );
+      const missingReference = (REQUIRED_REFERENCES[entityType] || []).some(
+        (field) => field in data && data[field] === null
+      );
+      if (missingReference && update.change === 'added') {
+        skipped += 1;
+        continue;
+      }
+      (REQUIRED_REFERENCES[entityType] || []).forEach((field) => {
+        if (data[field] === null) {
+          delete data[field];
+        }
+      });
+      const deferParentNode = entityType === 'Node' && 'parentNodeId' in data;
+      if (deferParentNode) {
+        delete data.parentNodeId;
+      }
+
+      let localId = update.localEntityId;
+      if (update.change === 'added') {
+        const naturalKey = NATURAL_KEYS[entityType];
+        const adoptKey = naturalKey ? `${entityType}:${naturalKey(data)}` : null;
+        const adopted = adoptKey ? localIdByNaturalKey.get(adoptKey) : undefined;
+        if (adoptKey && adopted) {
+          localId = adopted;
+          localIdByNaturalKey.delete(adoptKey);
+        } else {
+          if (entityType === 'Node') {
+            data.stableId = uniqueStableId(String(data.stableId), takenStableIds);
+            takenStableIds.add(String(data.stableId).toLowerCase());
+          }
+          const created = await ELEMENT_WRITERS[entityType].create(tx, data, { projectId, userId });
+          localId = created.id;
+        }
+        localIdByParentKey.set(elementKey(entityType, update.parentEntityId), localId);
+        await tx.inheritedElement.create({
+          data: {
+            projectId,
+            entityType,
+            parentEntityId: update.parentEntityId,
+            localEntityId: localId,
+            syncedJson: JSON.stringify(synced),
+          },
+        });
+      } else if (localId) {
+        if (entityType === 'Node' && typeof data.stableId === 'string') {
+          const currentStableId = localRecords.Node.find((node) => node.id === localId)?.stableId;
+          takenStableIds.delete(String(currentStableId).toLowerCase());
+          data.stableId = uniqueStableId(data.stableId, takenStableIds);
+          takenStableIds.add(data.stableId.toLowerCase());
+        }
+        if (Object.keys(data).length > 0) {
+          await ELEMENT_WRITERS[entityType].update(tx, localId, data, userId);
+        }
+        await tx.inheritedElement.update({
+          where: {
+            projectId_entityType_parentEntityId: { projectId, entityType, parentEntityId: update.parentEntityId },
+          },
+          data: { syncedJson: JSON.stringify(synced), syncedAt: new Date() },
+        });
+      }
+
+      if (deferParentNode && localId) {
+        pendingNodeParents.push({ localId, parentNodeId: synced.parentNodeId });
+      }
+      applied += 1;
+    }
+
+    if (entityType === 'Node') {
+      for (const pending of pendingNodeParents) {
+        await tx.modelNode.update({
+          where: { id: pending.localId },
+          data: {
+            parentNodeId:
+              typeof pending.parentNodeId === 'string' ? toLocalIds('Node', pending.parentNodeId) ?? null : null,
+          },
+        });
+      }
+    }
+  }
+
+  return { applied, skipped, answersChanged: selected.some((update) => update.entityType === 'Answer') };
+}
+
+// Creating a large variant writes every element of the parent in one go
+const VARIANT_TRANSACTION_OPTIONS = { timeout: 60_000 };
+
+/**
+ * Pulls pending parent updates into a variant (all of them when no keys are
+ * given). Locally overridden fields are kept unless `overwriteLocal` is set;
+ * elements removed in the parent are only deleted when the variant did not
+ * change them, otherwise they stay as local elements.
+ */
+export async function applyVariantUpdates(
+  projectId: string,
+  options: { keys?: string[]; overwriteLocal?: boolean },
+  userId: string
+) {
+  const project = await prisma.project.findUnique({ where: { id: projectId }, select: { parentProjectId: true } });
+  if (!project?.parentProjectId) {
+    return null;
+  }
+  const parentProjectId = project.parentProjectId;
+
+  const { applied, skipped, answersChanged } = await prisma.$transaction(
+    (tx) => writeVariantUpdates(tx, projectId, parentProjectId, options, userId),
+    VARIANT_TRANSACTION_OPTIONS
+  );
+  if (answersChanged) {
+    await syncFinalAnswers(projectId);
+  }
+
+  return { applied, skipped };
+}
+
+/**
+ * Creates a variant of a project: a new private project with the parent's
+ * settings that inherits all model elements, questions and answers. The
+ * parent's default diagram layout is carried over. Project, inherited
+ * elements and layout are written in one transaction, so a failure leaves
+ * no partial variant behind.
+ */
+export async function createVariantProject(
+  parentProjectId: string,
+  input: { name: string; description?: string | null },
+  userId: string
+) {
+  const parent = await prisma.project.findUnique({
+    where: { id: parentProjectId },
+    select: {
+      norm: true,
+      targetSecurityLevel: true,
+      valuationMode: true,
+      riskMethod: true,
+      consensusRule: true,
+      consensusMaxSpread: true,
+      normCatalogLinks: { select: { projectNorm: true, catalogId: true } },
+    },
+  });
+  if (!parent) {
+    return null;
+  }
+
+  const { normCatalogLinks, ...settings } = parent;
+  const { variant, result } = await prisma.$transaction(async (tx) => {
+    const variant = await tx.project.create({
+      data: {
+        ...settings,
+        name: input.name,
+        description: input.description || null,
+        minRoleToView: 'private',
+        parentProjectId,
+        members: { create: { userId, role: 'Admin' } },
+        normCatalogLinks: { create: normCatalogLinks },
+      },
+      select: { id: true, name: true, description: true, parentProjectId: true, createdAt: true },
+    });
+
+    const result = await writeVariantUpdates(tx, variant.id, parentProjectId, {}, userId);
+
+    const parentView = await tx.diagramView.findFirst({
+      where: { projectId: parentProjectId, isDefault: true },
+      orderBy: { createdAt: 'asc' },
+      select: { id: true },
+    });
+    if (parentView) {
+      const [parentLayout, view, links] = await Promise.all([
+        tx.diagramNodeLayout.findMany({ where: { viewId: parentView.id } }),
+        tx.diagramView.create({
+          data: { projectId: variant.id, name: DEFAULT_DIAGRAM_VIEW_NAME, isDefault: true, createdByUserId: userId },
+          select: { id: true },
+        }),
+        tx.inheritedElement.findMany({
+          where: { projectId: variant.id, entityType: 'Node' },
+          select: { parentEntityId: true, localEntityId: true },
+        }),
+      ]);
+      const localNodeId = new Map(links.map((link) => [link.parentEntityId, link.localEntityId]));
+      await tx.diagramNodeLayout.createMany({
+        data: parentLayout.flatMap((row) => {
+          const nodeId = localNodeId.get(row.nodeId);
+          return nodeId ? [{ viewId: view.id, nodeId, x: row.x, y: row.y, width: row.width, height: row.height }] : [];
+        }),
+      });
+    }
+
+    return { variant, result };
+  }, VARIANT_TRANSACTION_OPTIONS);
+
+  if (result.answersChanged) {
+    await syncFinalAnswers(variant.id);
+  }
+
+  return { variant, inherited: result.applied };
+}
+
+/**
+ * Turns a variant into an independent project. Its elements stay as they are
+ * but no longer follow the parent.
+ */
+export async function detachVariant(projectId: string) {
+  await prisma.$transaction([
+    prisma.inheritedElement.deleteMany({ where: { projectId } }),
+    prisma.project.update({ where: { id: projectId }, data: { parentProjectId: null } }),
+  ]);
+}
@@ -0,0 +1,111 @@
+/**
+ * XLSX Workbook
+ * Minimal Office Open XML spreadsheet writer: inline strings, numbers, bold header row with filter
+ */
+
+import { createZipArchive } from '@/lib/zip-archive';
+
+export type XlsxCell = string | number | null;
+
+export interface XlsxSheet {
+  name: string;
+  // The first row is formatted as header
+  rows: XlsxCell[][];
+}
+
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Control characters are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '');
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+const SHEET_NAMESPACE = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const RELATIONSHIP_NAMESPACE = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const MAX_COLUMN_WIDTH = 60;
+// Excel rejects longer cell texts
+const MAX_CELL_LENGTH = 32767;
+
+// Column letters: 0 -> A, 25 -> Z, 26 -> AA
+const columnName = (index: number): string =>
+  index < 26 ? String.fromCharCode(65 + index) : `${columnName(Math.floor(index / 26) - 1)}${columnName(index % 26)}`;
+
+// Sheet names are limited to 31 characters without []:*?/\
+const sanitizeSheetName = (name: string, index: number): string =>
+  name.replace(/[[\]:*?/\\]/g, ' ').trim().slice(0, 31) || `Sheet${index + 1}`;
+
+const renderCell = (value: XlsxCell, reference: string, header: boolean): string => {
+  const style = header ? ' s="1"' : '';
+  if (value === null || value === '') {
+    return header ? `<c r="${reference}"${style}/>` : '';
+  }
+  if (typeof value === 'number') {
+    return `<c r="${reference}"${style}><v>${value}</v></c>`;
+  }
+  return `<c r="${reference}"${style} t="inlineStr"><is><t xml:space="preserve">${escapeXml(
+    value.slice(0, MAX_CELL_LENGTH)
+  )}</t></is></c>`;
+};
+
+const renderSheet = (sheet: XlsxSheet): string => {
+  const columnCount = Math.max(1, ...sheet.rows.map((row) => row.length));
+  const widths = Array.from({ length: columnCount }, (_, column) =>
+    Math.min(MAX_COLUMN_WIDTH, Math.max(8, ...sheet.rows.map((row) => String(row[column] ?? '').length + 2)))
+  );
+  const rows = sheet.rows
+    .map(
+      (row, rowIndex) =>
+        `<row r="${rowIndex + 1}">${row
+          .map((value, column) => renderCell(value, `${columnName(column)}${rowIndex + 1}`, rowIndex === 0))
+          .join('')}</row>`
+    )
+    .join('');
+  const range = `A1:${columnName(columnCount - 1)}${Math.max(1, sheet.rows.length)}`;
+
+  return `${XML_HEADER}
+<worksheet xmlns="${SHEET_NAMESPACE}"><sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews><cols>${widths
+    .map((width, column) => `<col min="${column + 1}" max="${column + 1}" width="${width}" customWidth="1"/>`)
+    .join('')}</cols><sheetData>${rows}</sheetData>${sheet.rows.length > 1 ? `<autoFilter ref="${range}"/>` : ''}</worksheet>`;
+};
+
+const STYLES_XML = `${XML_HEADER}
+<styleSheet xmlns="${SHEET_NAMESPACE}"><fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts><fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills><borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders><cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs><cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs></styleSheet>`;
+
+/**
+ * Packs the sheets into an .xlsx file.
+ */
+export function createXlsxWorkbook(sheets: XlsxSheet[]): Buffer {
+  const names = sheets.map((sheet, index) => sanitizeSheetName(sheet.name, index));
+  const workbook = `${XML_HEADER}
+<workbook xmlns="${SHEET_NAMESPACE}" xmlns:r="${RELATIONSHIP_NAMESPACE}"><sheets>${names
+    .map((name, index) => `<sheet name="${escapeXml(name)}" sheetId="${index + 1}" r:id="rId${index + 1}"/>`)
+    .join('')}</sheets></workbook>`;
+  const workbookRelationships = `${XML_HEADER}
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${sheets
+    .map(
+      (_, index) =>
+        `<Relationship Id="rId${index + 1}" Type="${RELATIONSHIP_NAMESPACE}/worksheet" Target="worksheets/sheet${index + 1}.xml"/>`
+    )
+    .join('')}<Relationship Id="rId${sheets.length + 1}" Type="${RELATIONSHIP_NAMESPACE}/styles" Target="styles.xml"/></Relationships>`;
+  const contentTypes = `${XML_HEADER}
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>${sheets
+    .map(
+      (_, index) =>
+        `<Override PartName="/xl/worksheets/sheet${index + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+    )
+    .join('')}</Types>`;
+  const packageRelationships = `${XML_HEADER}
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="${RELATIONSHIP_NAMESPACE}/officeDocument" Target="xl/workbook.xml"/></Relationships>`;
+
+  return createZipArchive([
+    { name: '[Content_Types].xml', content: contentTypes },
+    { name: '_rels/.rels', content: packageRelationships },
+    { name: 'xl/workbook.xml', content: workbook },
+    { name: 'xl/_rels/workbook.xml.rels', content: workbookRelationships },
+    { name: 'xl/styles.xml', content: STYLES_XML },
+    ...sheets.map((sheet, index) => ({ name: `xl/worksheets/sheet${index + 1}.xml`, content: renderSheet(sheet) })),
+  ]);
+}
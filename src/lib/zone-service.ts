@@ -0,0 +1,156 @@
+/**
+ * Zone Service
+ * Security zones and derived conduits (IEC 62443-3-2)
+ */
+
+import { prisma } from '@/lib/prisma';
+
+export const MIN_SECURITY_LEVEL = 1;
+export const MAX_SECURITY_LEVEL = 4;
+
+const CONDUIT_ID_PREFIX = 'conduit';
+const CONDUIT_ID_DELIMITER = ':';
+
+export interface ZoneNodeInput {
+  id: string;
+  parentNodeId: string | null;
+  zoneId: string | null;
+}
+
+export interface ZoneEdgeInput {
+  id: string;
+  sourceNodeId: string;
+  targetNodeId: string;
+}
+
+export interface ZoneInput {
+  id: string;
+  name: string;
+  targetSecurityLevel: number;
+}
+
+export interface DerivedConduit {
+  id: string;
+  name: string;
+  zoneAId: string;
+  zoneBId: string;
+  targetSecurityLevel: number;
+  edgeIds: string[];
+}
+
+export function normalizeSecurityLevel(raw: unknown): number {
+  const parsed = typeof raw === 'number' ? raw : Number.parseInt(String(raw ?? ''), 10);
+  if (!Number.isFinite(parsed)) {
+    return MIN_SECURITY_LEVEL;
+  }
+  return Math.min(MAX_SECURITY_LEVEL, Math.max(MIN_SECURITY_LEVEL, Math.round(parsed)));
+}
+
+export function buildConduitId(zoneAId: string, zoneBId: string): string {
+  const [first, second] = zoneAId < zoneBId ? [zoneAId, zoneBId] : [zoneBId, zoneAId];
+  return [CONDUIT_ID_PREFIX, first, second].join(CONDUIT_ID_DELIMITER);
+}
+
+export function parseConduitId(conduitId: string): { zoneAId: string; zoneBId: string } | null {
+  const parts = conduitId.split(CONDUIT_ID_DELIMITER);
+  if (parts.length !== 3 || parts[0] !== CONDUIT_ID_PREFIX || !parts[1] || !parts[2]) {
+    return null;
+  }
+  return { zoneAId: parts[1], zoneBId: parts[2] };
+}
+
+/**
+ * A node without an explicit zone inherits the zone of its closest zoned ancestor,
+ * so assigning a container to a zone places all of its children in that zone.
+ */
+export function resolveEffectiveZoneIds(nodes: ZoneNodeInput[]): Map<string, string | null> {
+  const nodeById = new Map(nodes.map((node) => [node.id, node]));
+  const resolved = new Map<string, string | null>();
+
+  const resolve = (nodeId: string, visited: Set<string>): string | null => {
+    if (resolved.has(nodeId)) {
+      return resolved.get(nodeId) ?? null;
+    }
+    const node = nodeById.get(nodeId);
+    if (!node || visited.has(nodeId)) {
+      return null;
+    }
+    visited.add(nodeId);
+
+    const zoneId = node.zoneId || (node.parentNodeId ? resolve(node.parentNodeId, visited) : null);
+    resolved.set(nodeId, zoneId);
+    return zoneId;
+  };
+
+  for (const node of nodes) {
+    resolve(node.id, new Set());
+  }
+
+  return resolved;
+}
+
+/**
+ * Every edge whose endpoints sit in two different zones belongs to the conduit
+ * between those zones. Edges touching an unzoned node do not form a conduit.
+ */
+export function deriveConduits(
+  zones: ZoneInput[],
+  nodes: ZoneNodeInput[],
+  edges: ZoneEdgeInput[]
+): DerivedConduit[] {
+  const zoneById = new Map(zones.map((zone) => [zone.id, zone]));
+  const effectiveZoneIds = resolveEffectiveZoneIds(nodes);
+  const conduitsById = new Map<string, DerivedConduit>();
+
+  for (const edge of edges) {
+    const sourceZoneId = effectiveZoneIds.get(edge.sourceNodeId) ?? null;
+    const targetZoneId = effectiveZoneIds.get(edge.targetNodeId) ?? null;
+    if (!sourceZoneId || !targetZoneId || sourceZoneId === targetZoneId) {
+      continue;
+    }
+
+    const zoneA = zoneById.get(sourceZoneId);
+    const zoneB = zoneById.get(targetZoneId);
+    if (!zoneA || !zoneB) {
+      continue;
+    }
+
+    const conduitId = buildConduitId(zoneA.id, zoneB.id);
+    const existing = conduitsById.get(conduitId);
+    if (existing) {
+      existing.edgeIds.push(edge.id);
+      continue;
+    }
+
+    const [first, second] = zoneA.id < zoneB.id ? [zoneA, zoneB] : [zoneB, zoneA];
+    conduitsById.set(conduitId, {
+      id: conduitId,
+      name: `${first.name} ↔ ${second.name}`,
+      zoneAId: first.id,
+      zoneBId: second.id,
+      targetSecurityLevel: Math.max(first.targetSecurityLevel, second.targetSecurityLevel),
+      edgeIds: [edge.id],
+    });
+  }
+
+  return Array.from(conduitsById.values()).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function getProjectConduits(projectId: string): Promise<DerivedConduit[]> {
+  const [zones, nodes, edges] = await Promise.all([
+    prisma.zone.findMany({
+      where: { projectId },
+      select: { id: true, name: true, targetSecurityLevel: true },
+    }),
+    prisma.modelNode.findMany({
+      where: { projectId },
+      select: { id: true, parentNodeId: true, zoneId: true },
+    }),
+    prisma.modelEdge.findMany({
+      where: { projectId },
+      select: { id: true, sourceNodeId: true, targetNodeId: true },
+    }),
+  ]);
+
+  return deriveConduits(zones, nodes, edges);
+}
@@ -43,6 +43,7 @@ export interface ModelNodeDTO {
   name: string;
   category: 'Container' | 'Component' | string;
   parentNodeId: string | null;
+  zoneId: string | null;
   stableId: string;
   createdAt: Date;
 }
@@ -58,6 +59,24 @@ export interface ModelEdgeDTO {
   protocol: string | null;
 }
 
+export interface ZoneDTO {
+  id: string;
+  name: string;
+  description: string | null;
+  targetSecurityLevel: number;
+  color: string | null;
+  nodes: { id: string }[];
+}
+
+export interface ConduitDTO {
+  id: string;
+  name: string;
+  zoneAId: string;
+  zoneBId: string;
+  targetSecurityLevel: number;
+  edgeIds: string[];
+}
+
 // Assessment
 export interface AssetValueDTO {
   assetId: string;
@@ -0,0 +1,78 @@
+import {
+  buildApplicabilityElements,
+  buildQuestionApplicability,
+  evaluateApplicability,
+  parseApplicabilityRule,
+  validateApplicabilityRule,
+} from '@/lib/applicability-service';
+
+const model = {
+  nodes: [
+    { id: 'plant', name: 'Plant', category: 'Container', parentNodeId: null, zoneId: 'zone-control' },
+    { id: 'plc', name: 'PLC', category: 'Component', parentNodeId: 'plant', zoneId: null },
+    { id: 'hmi', name: 'HMI', category: 'Component', parentNodeId: null, zoneId: 'zone-dmz' },
+    { id: 'historian', name: 'Historian', category: 'Component', parentNodeId: null, zoneId: null },
+  ],
+  edges: [
+    { id: 'e1', name: null, protocol: 'Modbus', direction: 'A_TO_B', sourceNodeId: 'hmi', targetNodeId: 'plc' },
+    { id: 'e2', name: 'Web UI', protocol: 'HTTPS', direction: 'A_TO_B', sourceNodeId: 'historian', targetNodeId: 'hmi' },
+    { id: 'e3', name: 'Export', protocol: null, direction: 'A_TO_B', sourceNodeId: 'historian', targetNodeId: 'plc' },
+  ],
+  dataObjects: [
+    {
+      id: 'd1',
+      name: 'Operator passwords',
+      dataClass: 'Credentials',
+      tags: null,
+      confidentiality: 9,
+      integrity: 8,
+      availability: 5,
+    },
+  ],
+  componentData: [{ nodeId: 'hmi', dataObjectId: 'd1', role: 'Stores' }],
+  edgeDataFlows: [],
+  zones: [
+    { id: 'zone-control', name: 'Control Zone', targetSecurityLevel: 3 },
+    { id: 'zone-dmz', name: 'DMZ', targetSecurityLevel: 2 },
+  ],
+};
+
+describe('applicability-service', () => {
+  it('parses rules with precedence and rejects malformed input', () => {
+    const expression = parseApplicabilityRule('not name = "A" or zone in ("DMZ", \'Control Zone\') and sl >= 2');
+    expect(expression.kind).toBe('or');
+    expect(() => parseApplicabilityRule('protocol != ')).toThrow('Expected a quoted value or number');
+    expect(validateApplicabilityRule('protocol != "HTTPS"', 'Edge')).toBeNull();
+    expect(validateApplicabilityRule('protocol != "HTTPS"', 'Component')).toBe('Unknown field(s) for Component: protocol');
+    expect(validateApplicabilityRule('name = "x"', 'None')).not.toBeNull();
+  });
+
+  it('compares case-insensitively and treats missing values as not equal', () => {
+    const expression = parseApplicabilityRule('protocol != "https"');
+    expect(evaluateApplicability(expression, { protocol: 'HTTPS' })).toBe(false);
+    expect(evaluateApplicability(expression, { protocol: null })).toBe(true);
+    expect(evaluateApplicability(parseApplicabilityRule('stores = "credentials"'), { stores: ['Credentials'] })).toBe(true);
+    expect(evaluateApplicability(parseApplicabilityRule('confidentiality > 8'), { confidentiality: 9 })).toBe(true);
+  });
+
+  it('expands questions to matching model elements with answer coverage', () => {
+    const elements = buildApplicabilityElements(model);
+    expect(elements.Component.map((element) => element.id)).toEqual(['historian', 'hmi', 'plc']);
+    expect(elements.Component.find((element) => element.id === 'plc')?.fields.zone).toBe('Control Zone');
+    expect(elements.Edge.find((element) => element.id === 'e1')?.fields.conduit).toBe('Control Zone ↔ DMZ');
+
+    const [edges, components] = buildQuestionApplicability(
+      [
+        { id: 'q1', targetType: 'Edge', applicability: 'protocol != "HTTPS"' },
+        { id: 'q2', targetType: 'Component', applicability: 'stores = "Credentials" or zone = "Control Zone"' },
+        { id: 'q3', targetType: 'Component', applicability: null },
+      ],
+      elements,
+      [{ questionId: 'q1', targetId: 'e3' }]
+    );
+
+    expect(edges.targets.map((target) => target.targetId)).toEqual(['e3', 'e1']);
+    expect(edges).toMatchObject({ applicableCount: 2, answeredCount: 1 });
+    expect(components.targets.map((target) => target.targetId)).toEqual(['hmi', 'plc']);
+  });
+});
@@ -0,0 +1,56 @@
+import { computeHopCost, findAttackPaths, suggestAttackPathEndpoints } from '@/lib/attack-path-service';
+
+const graph = {
+  nodes: [
+    { id: 'internet', name: 'Internet', category: 'Component' },
+    { id: 'technician', name: 'Remote Technician', category: 'Human' },
+    { id: 'firewall', name: 'Firewall', category: 'Component' },
+    { id: 'vpn', name: 'VPN Gateway', category: 'Component' },
+    { id: 'plc', name: 'Safety PLC', category: 'Component' },
+    { id: 'plant', name: 'Plant', category: 'Container' },
+  ],
+  edges: [
+    { id: 'e1', name: null, direction: 'A_TO_B', sourceNodeId: 'internet', targetNodeId: 'firewall' },
+    { id: 'e2', name: null, direction: 'A_TO_B', sourceNodeId: 'firewall', targetNodeId: 'plc' },
+    { id: 'e3', name: null, direction: 'BIDIRECTIONAL', sourceNodeId: 'vpn', targetNodeId: 'technician' },
+    { id: 'e4', name: null, direction: 'A_TO_B', sourceNodeId: 'vpn', targetNodeId: 'plc' },
+    { id: 'e5', name: null, direction: 'A_TO_B', sourceNodeId: 'plc', targetNodeId: 'internet' },
+  ],
+  assetValues: [
+    { assetType: 'Node', assetId: 'plc', value: 10 },
+    { assetType: 'Node', assetId: 'firewall', value: 6 },
+  ],
+  findings: [
+    { assetType: 'Node', assetId: 'vpn', severity: 9, measures: [{ status: 'Open' }, { status: 'Done' }] },
+    { assetType: 'Edge', assetId: 'e2', severity: 8, measures: [{ status: 'Done' }] },
+  ],
+};
+
+describe('attack path service', () => {
+  test('lowers hop cost with open findings and missing controls', () => {
+    expect(computeHopCost({ severity: 0, missingControls: 0 })).toBe(10);
+    expect(computeHopCost({ severity: 9, missingControls: 1 })).toBeLessThan(5);
+    expect(computeHopCost({ severity: 40, missingControls: 10 })).toBeGreaterThan(1);
+  });
+
+  test('ranks paths along edge direction by cost and ignores resolved findings', () => {
+    const paths = findAttackPaths(graph, { entryNodeIds: ['internet', 'technician'], targetNodeIds: ['plc'] });
+
+    expect(paths.map((attackPath) => attackPath.edgeIds)).toEqual([
+      ['e3', 'e4'],
+      ['e1', 'e2'],
+    ]);
+    expect(paths[0].nodeIds).toEqual(['technician', 'vpn', 'plc']);
+    expect(paths[0].hops[0]).toMatchObject({ openFindings: 1, missingControls: 1 });
+    expect(paths[1].cost).toBe(20);
+    expect(paths[0].targetValue).toBe(10);
+    expect(findAttackPaths(graph, { entryNodeIds: ['plc'], targetNodeIds: ['technician'], maxDepth: 1 })).toEqual([]);
+  });
+
+  test('suggests external entry points and critical targets', () => {
+    expect(suggestAttackPathEndpoints(graph)).toEqual({
+      entryNodeIds: ['internet', 'technician'],
+      targetNodeIds: ['plc'],
+    });
+  });
+});
@@ -0,0 +1,89 @@
+import {
+  auditEventsToCsv,
+  diffAuditSnapshots,
+  parseAuditEventFilters,
+  toAuditSnapshot,
+} from '@/lib/audit-service';
+
+describe('toAuditSnapshot', () => {
+  it('keeps scalar fields and drops included relations', () => {
+    const snapshot = toAuditSnapshot({
+      id: 'n1',
+      name: 'PLC',
+      severity: 7,
+      createdAt: new Date('2026-01-02T03:04:05.000Z'),
+      tags: ['ot', 'cell-1'],
+      childNodes: [{ id: 'n2' }],
+      finding: { id: 'f1' },
+    });
+    expect(snapshot).toEqual({
+      id: 'n1',
+      name: 'PLC',
+      severity: 7,
+      createdAt: '2026-01-02T03:04:05.000Z',
+      tags: ['ot', 'cell-1'],
+    });
+  });
+
+  it('redacts secrets', () => {
+    expect(toAuditSnapshot({ email: 'a@example.com', password: 'hash' })).toEqual({
+      email: 'a@example.com',
+      password: '[redacted]',
+    });
+  });
+});
+
+describe('diffAuditSnapshots', () => {
+  it('lists changed fields and ignores updatedAt', () => {
+    const changes = diffAuditSnapshots(
+      { id: 'm1', status: 'Open', priority: 'High', updatedAt: '2026-01-01' },
+      { id: 'm1', status: 'Done', priority: 'High', updatedAt: '2026-01-02' }
+    );
+    expect(changes).toEqual([{ field: 'status', before: 'Open', after: 'Done' }]);
+  });
+
+  it('lists every field of a deleted record', () => {
+    expect(diffAuditSnapshots({ id: 'e1', name: 'OPC UA' }, null)).toEqual([
+      { field: 'id', before: 'e1', after: undefined },
+      { field: 'name', before: 'OPC UA', after: undefined },
+    ]);
+  });
+});
+
+describe('parseAuditEventFilters', () => {
+  it('reads filters and includes the whole end day', () => {
+    const filters = parseAuditEventFilters(
+      new URLSearchParams('entityType=Node&action=Delete&from=2026-03-01&to=2026-03-31&actorUserId=')
+    );
+    expect(filters.entityType).toBe('Node');
+    expect(filters.action).toBe('Delete');
+    expect(filters.actorUserId).toBeUndefined();
+    expect(filters.from?.toISOString()).toBe('2026-03-01T00:00:00.000Z');
+    expect(filters.to?.toISOString()).toBe('2026-03-31T23:59:59.999Z');
+  });
+
+  it('ignores invalid dates', () => {
+    expect(parseAuditEventFilters(new URLSearchParams('from=yesterday')).from).toBeUndefined();
+  });
+});
+
+describe('auditEventsToCsv', () => {
+  it('writes one escaped row per event', () => {
+    const csv = auditEventsToCsv([
+      {
+        createdAt: new Date('2026-03-01T10:00:00.000Z'),
+        projectId: 'p1',
+        actorUserId: 'u1',
+        actorName: 'Doe, Jane',
+        entityType: 'Finding',
+        entityId: 'f1',
+        action: 'Update',
+        changes: [{ field: 'severity', before: 5, after: 8 }],
+      },
+    ]);
+    expect(csv.split('\n')).toEqual([
+      'timestamp,projectId,actorUserId,actor,entityType,entityId,action,changes',
+      '2026-03-01T10:00:00.000Z,p1,u1,"Doe, Jane",Finding,f1,Update,severity: 5 -> 8',
+    ]);
+  });
+});
@@ -0,0 +1,97 @@
+import { AutoLayoutNode, computeAutoLayout, countCrossings } from '@/lib/auto-layout-service';
+
+const node = (id: string, parentNodeId: string | null = null, category = 'Component'): AutoLayoutNode => ({
+  id,
+  name: id,
+  category,
+  parentNodeId,
+});
+
+const COMPONENT = { width: 220, height: 96 };
+
+const overlaps = (
+  a: { x: number; y: number; width: number; height: number },
+  b: { x: number; y: number; width: number; height: number }
+) => a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+
+describe('countCrossings', () => {
+  it('counts pairs of links whose ends are in opposite order', () => {
+    expect(countCrossings([[0, 1], [1, 0]])).toBe(1);
+    expect(countCrossings([[0, 0], [1, 1], [0, 1]])).toBe(0);
+  });
+});
+
+describe('computeAutoLayout', () => {
+  const nodes = [
+    node('global', null, 'Container'),
+    node('dmz', 'global', 'Container'),
+    node('web', 'dmz'),
+    node('proxy', 'dmz'),
+    node('plant', null, 'System'),
+    node('plc', 'plant'),
+    node('hmi', 'plant'),
+    node('historian'),
+  ];
+  const edges = [
+    { sourceNodeId: 'proxy', targetNodeId: 'web' },
+    { sourceNodeId: 'web', targetNodeId: 'hmi' },
+    { sourceNodeId: 'hmi', targetNodeId: 'plc' },
+    { sourceNodeId: 'plc', targetNodeId: 'historian' },
+  ];
+
+  it.each(['layered', 'force', 'orthogonal'] as const)(
+    'keeps children inside their containers without overlaps (%s)',
+    (algorithm) => {
+      const layout = computeAutoLayout(nodes, edges, { algorithm });
+      const box = (id: string) => ({ ...layout.nodePositions[id], ...(layout.containerSizes[id] || COMPONENT) });
+
+      expect(layout.nodePositions.global).toBeUndefined();
+      expect(Object.keys(layout.containerSizes).sort()).toEqual(['dmz', 'plant']);
+      [
+        ['dmz', 'web'],
+        ['dmz', 'proxy'],
+        ['plant', 'plc'],
+        ['plant', 'hmi'],
+      ].forEach(([containerId, childId]) => {
+        const container = box(containerId);
+        const child = box(childId);
+        expect(child.x).toBeGreaterThanOrEqual(container.x);
+        expect(child.y).toBeGreaterThanOrEqual(container.y);
+        expect(child.x + child.width).toBeLessThanOrEqual(container.x + container.width);
+        expect(child.y + child.height).toBeLessThanOrEqual(container.y + container.height);
+      });
+      expect(overlaps(box('dmz'), box('plant'))).toBe(false);
+      expect(overlaps(box('plant'), box('historian'))).toBe(false);
+      expect(overlaps(box('web'), box('proxy'))).toBe(false);
+      expect(computeAutoLayout(nodes, edges, { algorithm })).toEqual(layout);
+    }
+  );
+
+  it('orders layers to avoid crossing interfaces', () => {
+    const layout = computeAutoLayout(
+      [node('a'), node('b'), node('c'), node('d')],
+      [
+        { sourceNodeId: 'a', targetNodeId: 'd' },
+        { sourceNodeId: 'b', targetNodeId: 'c' },
+      ],
+      { algorithm: 'layered' }
+    );
+    const { a, b, c, d } = layout.nodePositions;
+
+    expect(c.y).toBeGreaterThan(a.y);
+    expect(Math.sign(b.x - a.x)).toBe(Math.sign(c.x - d.x));
+  });
+
+  it('only arranges the content of the chosen container', () => {
+    const layout = computeAutoLayout(nodes, edges, {
+      algorithm: 'layered',
+      containerId: 'plant',
+      origin: { x: 1000, y: 500 },
+    });
+
+    expect(Object.keys(layout.nodePositions).sort()).toEqual(['hmi', 'plc']);
+    expect(layout.nodePositions.hmi.y).toBeLessThan(layout.nodePositions.plc.y);
+    expect(layout.nodePositions.hmi.x).toBeGreaterThanOrEqual(1000);
+    expect(Object.keys(layout.containerSizes)).toEqual(['plant']);
+  });
+});
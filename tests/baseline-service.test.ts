@@ -0,0 +1,144 @@
+import { AssessmentBaseline, compareAssessmentBaselines } from '@/lib/baseline-service';
+
+const baseline = (overrides: Partial<AssessmentBaseline>): AssessmentBaseline => ({
+  riskMethod: null,
+  model: {
+    nodes: [
+      { id: 'plc', stableId: 'plc', name: 'PLC', category: 'Component', parentNodeId: null },
+      { id: 'hmi', stableId: 'hmi', name: 'HMI', category: 'Component', parentNodeId: null },
+    ],
+    edges: [],
+    zones: [],
+    dataObjects: [],
+    componentData: [],
+    edgeDataFlows: [],
+    nodePositions: {},
+    containerSizes: {},
+  },
+  assetValues: [
+    { assetType: 'Node', assetId: 'plc', value: 9 },
+    { assetType: 'Node', assetId: 'hmi', value: 6 },
+  ],
+  questions: [
+    { id: 'q1', text: 'Is authentication enforced?', normReference: 'SR 1.1', targetType: 'Component' },
+    { id: 'q2', text: 'Are backups tested?', normReference: 'SR 7.3', targetType: 'Component' },
+  ],
+  answers: [],
+  finalAnswers: [],
+  findings: [],
+  measures: [],
+  ...overrides,
+});
+
+const finding = (id: string, assetId: string, questionText: string, severity: number) => ({
+  id,
+  assetType: 'Node',
+  assetId,
+  assetName: assetId.toUpperCase(),
+  questionText,
+  normReference: 'SR 1.1',
+  severity,
+  likelihood: null,
+  impact: null,
+  riskAcceptedAt: null,
+});
+
+const measure = (findingId: string, status: string) => ({
+  id: `m-${findingId}`,
+  findingId,
+  title: `Fix ${findingId}`,
+  status,
+  priority: 'High',
+  likelihoodReduction: 80,
+  impactReduction: 0,
+  dueDate: null,
+});
+
+const release1 = baseline({
+  answers: [
+    {
+      id: 'a1',
+      questionId: 'q1',
+      userId: 'u1',
+      answerValue: 'No',
+      targetType: 'Component',
+      targetId: 'plc',
+    },
+  ],
+  finalAnswers: [{ questionId: 'q1', targetType: 'Component', targetId: 'plc', answerValue: 'No', status: 'Approved' }],
+  findings: [
+    finding('f1', 'plc', 'Is authentication enforced?', 8),
+    finding('f2', 'hmi', 'Are backups tested?', 6),
+  ],
+  measures: [measure('f1', 'Open')],
+});
+
+const release2 = baseline({
+  answers: [
+    {
+      id: 'a1',
+      questionId: 'q1',
+      userId: 'u1',
+      answerValue: 'Yes',
+      targetType: 'Component',
+      targetId: 'plc',
+    },
+  ],
+  finalAnswers: [{ questionId: 'q1', targetType: 'Component', targetId: 'plc', answerValue: 'Yes', status: 'Approved' }],
+  findings: [
+    // Regenerated from the same answer, so it keeps asset and question but not the id
+    finding('f1-regenerated', 'plc', 'Is authentication enforced?', 8),
+    finding('f3', 'hmi', 'Is authentication enforced?', 4),
+  ],
+  measures: [measure('f1-regenerated', 'Done')],
+});
+
+describe('compareAssessmentBaselines', () => {
+  const comparison = compareAssessmentBaselines(release1, release2);
+
+  it('reports new and closed findings and matches regenerated ones', () => {
+    expect(comparison.findings.new.map((entry) => entry.id)).toEqual(['f3']);
+    expect(comparison.findings.closed.map((entry) => entry.id)).toEqual(['f2']);
+    expect(comparison.findings.changed).toHaveLength(1);
+    expect(comparison.findings.changed[0]).toMatchObject({ id: 'f1-regenerated', fields: ['residualRisk'] });
+    expect(comparison.findings.changed[0].residualScore).toBeLessThan(
+      comparison.findings.changed[0].before.residualScore as number
+    );
+  });
+
+  it('computes the risk delta between the releases', () => {
+    expect(comparison.risk.before.findings).toBe(2);
+    expect(comparison.risk.after.findings).toBe(2);
+    expect(comparison.risk.delta.findings).toBe(0);
+    expect(comparison.risk.delta.residualScore).toBeCloseTo(
+      comparison.risk.after.residualScore - comparison.risk.before.residualScore,
+      5
+    );
+    expect(comparison.risk.delta.residualScore).toBeLessThan(0);
+  });
+
+  it('lists changed final and individual answers and measure status', () => {
+    expect(comparison.finalAnswers).toEqual([
+      expect.objectContaining({
+        questionText: 'Is authentication enforced?',
+        targetLabel: 'PLC',
+        userId: null,
+        before: 'No',
+        after: 'Yes',
+      }),
+    ]);
+    expect(comparison.answers).toEqual([expect.objectContaining({ userId: 'u1', before: 'No', after: 'Yes' })]);
+    expect(comparison.measures).toEqual([
+      { key: 'm-f1', label: 'Fix f1', before: 'Open', after: null },
+      { key: 'm-f1-regenerated', label: 'Fix f1-regenerated', before: null, after: 'Done' },
+    ]);
+    expect(comparison.assetValues).toEqual([]);
+  });
+
+  it('finds no changes between identical baselines', () => {
+    const unchanged = compareAssessmentBaselines(release1, release1);
+    expect(unchanged.findings).toEqual({ new: [], closed: [], changed: [] });
+    expect(unchanged.finalAnswers).toEqual([]);
+    expect(unchanged.risk.delta).toEqual({ findings: 0, inherentScore: 0, residualScore: 0, intolerable: 0 });
+  });
+});
@@ -0,0 +1,93 @@
+import {
+  CollaborationEvent,
+  formatServerSentEvent,
+  isStaleWrite,
+  listParticipants,
+  normalizeClientId,
+  publishModelChange,
+  subscribeToProject,
+  updatePresenceSelection,
+  versionedUpdateWhere,
+} from '@/lib/collaboration-service';
+
+describe('isStaleWrite', () => {
+  const storedAt = new Date('2026-03-01T10:00:00.123Z');
+
+  it('accepts writes without an expected version', () => {
+    expect(isStaleWrite(undefined, storedAt)).toBe(false);
+    expect(isStaleWrite(null, storedAt)).toBe(false);
+  });
+
+  it('accepts the current version and rejects older or invalid ones', () => {
+    expect(isStaleWrite('2026-03-01T10:00:00.123Z', storedAt)).toBe(false);
+    expect(isStaleWrite('2026-03-01T09:59:59.000Z', storedAt)).toBe(true);
+    expect(isStaleWrite('not a date', storedAt)).toBe(true);
+  });
+});
+
+describe('versionedUpdateWhere', () => {
+  it('pins the update to the expected version when one is sent', () => {
+    expect(versionedUpdateWhere('n1', '2026-03-01T10:00:00.123Z')).toEqual({
+      id: 'n1',
+      updatedAt: new Date('2026-03-01T10:00:00.123Z'),
+    });
+    expect(versionedUpdateWhere('n1', undefined)).toEqual({ id: 'n1' });
+  });
+});
+
+describe('normalizeClientId', () => {
+  it('accepts generated ids and rejects anything else', () => {
+    expect(normalizeClientId('lmn3x4-8fk2a9zq')).toBe('lmn3x4-8fk2a9zq');
+    expect(normalizeClientId('short')).toBeNull();
+    expect(normalizeClientId('id with spaces')).toBeNull();
+    expect(normalizeClientId(null)).toBeNull();
+  });
+});
+
+describe('formatServerSentEvent', () => {
+  it('uses the event type as SSE event name', () => {
+    const event: CollaborationEvent = { type: 'presence', participants: [] };
+    expect(formatServerSentEvent(event)).toBe('event: presence\ndata: {"type":"presence","participants":[]}\n\n');
+  });
+});
+
+describe('project channels', () => {
+  it('announces presence, forwards changes and forgets closed editors', () => {
+    const aliceEvents: CollaborationEvent[] = [];
+    const bobEvents: CollaborationEvent[] = [];
+    const closeAlice = subscribeToProject(
+      'p1',
+      { clientId: 'alice-tab-1', userId: 'u-alice', name: 'Alice' },
+      (event) => aliceEvents.push(event)
+    );
+    const closeBob = subscribeToProject(
+      'p1',
+      { clientId: 'bob-tab-1', userId: 'u-bob', name: 'Bob' },
+      (event) => bobEvents.push(event)
+    );
+
+    expect(listParticipants('p1').map((participant) => participant.name)).toEqual(['Alice', 'Bob']);
+
+    expect(updatePresenceSelection('p1', 'bob-tab-1', 'u-alice', { nodeIds: ['n1'], edgeIds: [] })).toBe(false);
+    expect(updatePresenceSelection('p1', 'bob-tab-1', 'u-bob', { nodeIds: ['n1'], edgeIds: [] })).toBe(true);
+    const lastPresence = aliceEvents[aliceEvents.length - 1];
+    expect(lastPresence.type === 'presence' && lastPresence.participants[1].selection.nodeIds).toEqual(['n1']);
+
+    publishModelChange('p1', {
+      entityType: 'Node',
+      entityId: 'n1',
+      action: 'Update',
+      actorUserId: 'u-bob',
+      clientId: 'bob-tab-1',
+    });
+    publishModelChange('p2', { entityType: 'Node', entityId: 'n9', action: 'Delete', actorUserId: null, clientId: null });
+    expect(aliceEvents.filter((event) => event.type === 'model-change')).toHaveLength(1);
+    expect(bobEvents.filter((event) => event.type === 'model-change')).toHaveLength(1);
+
+    closeBob();
+    closeBob();
+    expect(listParticipants('p1').map((participant) => participant.name)).toEqual(['Alice']);
+    closeAlice();
+    expect(listParticipants('p1')).toEqual([]);
+  });
+});
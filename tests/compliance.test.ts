@@ -0,0 +1,144 @@
+import {
+  CUSTOM_COMPLIANCE_NORM,
+  buildComplianceCoverage,
+  summarizeComplianceNorm,
+  summarizePortfolioCompliance,
+} from '@/lib/compliance-service';
+import type { ComplianceInput } from '@/lib/compliance-service';
+
+const input: ComplianceInput = {
+  norms: ['IEC 62443', 'ISO 27001'],
+  catalogs: [
+    {
+      projectNorm: 'IEC 62443',
+      norm: 'IEC 62443-3-3',
+      version: '2013',
+      controls: [
+        { controlId: 'SR 1.1', title: 'Human user identification', groupTitle: 'FR 1' },
+        { controlId: 'SR 1.2', title: 'Software process identification', groupTitle: 'FR 1' },
+      ],
+    },
+  ],
+  questions: [
+    {
+      id: 'q1',
+      text: 'Are users identified?',
+      normReference: 'SR 1.1',
+      projectNorm: 'IEC 62443',
+      applicableTargetIds: ['n1', 'n2'],
+    },
+    {
+      id: 'q2',
+      text: 'Is MFA enforced?',
+      normReference: 'SR 1.1',
+      projectNorm: 'IEC 62443',
+      applicableTargetIds: null,
+    },
+    { id: 'q3', text: 'Is there an ISMS?', normReference: 'A.5.1', projectNorm: 'ISO 27001', applicableTargetIds: null },
+    {
+      id: 'q4',
+      text: 'Is the HMI hardened?',
+      normReference: 'Custom 1',
+      projectNorm: null,
+      applicableTargetIds: ['n2'],
+    },
+  ],
+  answers: [
+    { questionId: 'q1', targetType: 'Component', targetId: 'n1', value: '2' },
+    { questionId: 'q1', targetType: 'Component', targetId: 'n1', value: '8' },
+    { questionId: 'q1', targetType: 'Component', targetId: 'n2', value: 'N/A' },
+    { questionId: 'q3', targetType: null, targetId: null, value: 'Yes' },
+  ],
+  finalAnswers: [{ questionId: 'q1', targetType: 'Component', targetId: 'n1', value: '3' }],
+  findings: [
+    { id: 'f1', questionId: 'q1', questionText: 'Are users identified?', riskAccepted: false },
+    { id: 'f2', questionId: null, questionText: 'Is MFA enforced?', riskAccepted: false },
+    { id: 'f3', questionId: 'q1', questionText: 'Are users identified?', riskAccepted: true },
+  ],
+  measures: [
+    { findingId: 'f1', status: 'Done' },
+    { findingId: 'f2', status: 'Open' },
+    { findingId: 'f3', status: 'InProgress' },
+  ],
+};
+
+describe('compliance coverage', () => {
+  test('groups requirements per norm with answered share, fulfillment and open work', () => {
+    const { norms } = buildComplianceCoverage(input);
+
+    expect(norms.map((norm) => norm.norm)).toEqual(['IEC 62443', 'ISO 27001', CUSTOM_COMPLIANCE_NORM]);
+    const [iec, iso, custom] = norms;
+    expect(iec.catalog).toEqual({ norm: 'IEC 62443-3-3', version: '2013' });
+    expect(iec.requirements.map((requirement) => requirement.reference)).toEqual(['SR 1.1', 'SR 1.2']);
+    expect(iec).toMatchObject({
+      requirementCount: 2,
+      coveredRequirements: 1,
+      answeredRequirements: 0,
+      questionCount: 2,
+      answeredCount: 1,
+      answeredPercent: 50,
+      // The final answer replaces the individual scores of n1; N/A is not scored
+      fulfillmentAverage: 3,
+      // f1 is done, f3 is accepted, f2 is matched by text and still open
+      openFindings: 1,
+      openMeasures: 2,
+    });
+    expect(iec.requirements[0].questions.map((question) => [question.id, question.openFindings])).toEqual([
+      ['q1', 0],
+      ['q2', 1],
+    ]);
+    expect(iec.requirements[1]).toMatchObject({ questionCount: 0, answeredPercent: null, fulfillmentAverage: null });
+    expect(iso).toMatchObject({ catalog: null, requirementCount: 1, answeredRequirements: 1, fulfillmentAverage: 10 });
+    expect(custom.requirements.map((requirement) => requirement.reference)).toEqual(['Custom 1']);
+  });
+
+  test('a question counts as answered only once every applicable target is answered', () => {
+    const withThirdTarget = buildComplianceCoverage({
+      ...input,
+      questions: input.questions.map((question) =>
+        question.id === 'q1' ? { ...question, applicableTargetIds: ['n1', 'n2', 'n3'] } : question
+      ),
+    });
+    expect(withThirdTarget.norms[0]).toMatchObject({ answeredCount: 0, answeredPercent: 0, fulfillmentAverage: 3 });
+
+    const withoutAnswers = buildComplianceCoverage({ ...input, answers: [], finalAnswers: [] });
+    expect(withoutAnswers.norms[0].answeredCount).toBe(0);
+  });
+
+  test('a single norm takes the questions without catalog', () => {
+    const { norms } = buildComplianceCoverage({ ...input, norms: ['IEC 62443'] });
+
+    expect(norms.map((norm) => [norm.norm, norm.questionCount])).toEqual([
+      ['IEC 62443', 3],
+      [CUSTOM_COMPLIANCE_NORM, 1],
+    ]);
+    expect(norms[0].requirements.map((requirement) => requirement.reference)).toEqual(['SR 1.1', 'SR 1.2', 'Custom 1']);
+  });
+
+  test('portfolio rollup averages per project and sums open work', () => {
+    const first = buildComplianceCoverage(input).norms.map(summarizeComplianceNorm);
+    const second = buildComplianceCoverage({
+      ...input,
+      answers: [{ questionId: 'q2', targetType: null, targetId: null, value: '9' }],
+      finalAnswers: [],
+    }).norms.map(summarizeComplianceNorm);
+
+    const rollup = summarizePortfolioCompliance([
+      { id: 'p1', name: 'Plant A', norms: first },
+      { id: 'p2', name: 'Plant B', norms: second },
+    ]);
+
+    expect(rollup.map((norm) => norm.norm)).toEqual(['IEC 62443', 'ISO 27001', CUSTOM_COMPLIANCE_NORM]);
+    expect(rollup[0]).toEqual({
+      norm: 'IEC 62443',
+      projectCount: 2,
+      requirementCount: 4,
+      answeredRequirements: 0,
+      answeredPercent: 50,
+      fulfillmentAverage: 6,
+      openFindings: 2,
+      openMeasures: 4,
+    });
+    expect(rollup[1]).toMatchObject({ answeredPercent: 50, fulfillmentAverage: 10 });
+  });
+});
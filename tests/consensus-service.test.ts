@@ -0,0 +1,41 @@
+import { computeConsensus, groupLatestAnswers } from '@/lib/consensus-service';
+
+describe('consensus service', () => {
+  test('identical answers are approved under every rule', () => {
+    expect(computeConsensus(['7', '7', '7'], 'Unanimous')).toEqual({ answerValue: '7', status: 'Approved', spread: 0 });
+    expect(computeConsensus(['n/a', 'N/A'], 'Median')).toMatchObject({ answerValue: 'N/A', status: 'Approved' });
+    expect(computeConsensus([], 'Median')).toBeNull();
+  });
+
+  test('rules decide differing scores', () => {
+    const scores = ['2', '6', '7', '8', '9'];
+    expect(computeConsensus(scores, 'Unanimous')).toEqual({ answerValue: '7', status: 'Conflict', spread: 7 });
+    expect(computeConsensus(scores, 'Median')).toEqual({ answerValue: '7', status: 'Approved', spread: 7 });
+    expect(computeConsensus(scores, 'MaxSpread', 3)).toMatchObject({ status: 'Conflict' });
+    expect(computeConsensus(['6', '8', '9'], 'MaxSpread', 3)).toEqual({ answerValue: '8', status: 'Approved', spread: 3 });
+    expect(computeConsensus(['4', '5'], 'Median')?.answerValue).toBe('4');
+  });
+
+  test('legacy Yes/No answers are scored like everywhere else', () => {
+    expect(computeConsensus(['Yes', '9'], 'MaxSpread', 3)).toEqual({ answerValue: '9', status: 'Approved', spread: 1 });
+  });
+
+  test('mixing N/A with scores is always a conflict', () => {
+    expect(computeConsensus(['N/A', '8'], 'Median')).toEqual({ answerValue: '8', status: 'Conflict', spread: null });
+  });
+
+  test('groups by question and target and keeps the latest answer per assessor', () => {
+    const groups = groupLatestAnswers([
+      { questionId: 'q1', userId: 'u1', answerValue: '3', targetType: 'Edge', targetId: 'e1', updatedAt: new Date(1) },
+      { questionId: 'q1', userId: 'u1', answerValue: '8', targetType: 'Edge', targetId: 'e1', updatedAt: new Date(5) },
+      { questionId: 'q1', userId: 'u2', answerValue: '8', targetType: 'Edge', targetId: 'e1', updatedAt: new Date(3) },
+      { questionId: 'q1', userId: 'u2', answerValue: '2', targetType: 'Edge', targetId: 'e2', updatedAt: new Date(2) },
+      { questionId: 'q2', userId: 'u1', answerValue: '5', targetType: null, targetId: null, updatedAt: new Date(4) },
+    ]);
+
+    expect(groups.map((group) => group.key).sort()).toEqual(['q1::Edge::e1', 'q1::Edge::e2', 'q2::None::']);
+    const firstInterface = groups.find((group) => group.key === 'q1::Edge::e1');
+    expect(firstInterface?.answers.map((answer) => answer.answerValue)).toEqual(['8', '8']);
+    expect(firstInterface?.latestUpdate).toEqual(new Date(5));
+  });
+});
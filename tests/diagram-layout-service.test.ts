@@ -0,0 +1,28 @@
+import { buildNodeLayoutUpdates, toDiagramLayout } from '@/lib/diagram-layout-service';
+
+describe('toDiagramLayout', () => {
+  it('splits stored rows into positions and container sizes', () => {
+    const layout = toDiagramLayout([
+      { nodeId: 'n1', x: 10, y: 20, width: null, height: null },
+      { nodeId: 'c1', x: 0, y: 0, width: 640, height: 360 },
+      { nodeId: 'n2', x: null, y: null, width: 0, height: 100 },
+    ]);
+
+    expect(layout.nodePositions).toEqual({ n1: { x: 10, y: 20 }, c1: { x: 0, y: 0 } });
+    expect(layout.containerSizes).toEqual({ c1: { width: 640, height: 360 } });
+  });
+});
+
+describe('buildNodeLayoutUpdates', () => {
+  it('merges positions and sizes per node and drops unknown nodes and invalid values', () => {
+    const updates = buildNodeLayoutUpdates(
+      {
+        nodePositions: { n1: { x: 5, y: 6 }, other: { x: 1, y: 1 }, n2: { x: Number.NaN, y: 2 } },
+        containerSizes: { n1: { width: 300, height: 200 }, n2: { width: -1, height: 50 } },
+      },
+      new Set(['n1', 'n2'])
+    );
+
+    expect(updates).toEqual([{ nodeId: 'n1', position: { x: 5, y: 6 }, size: { width: 300, height: 200 } }]);
+  });
+});
@@ -0,0 +1,46 @@
+import {
+  buildEvidenceStorageKey,
+  computeSha256,
+  resolveEvidenceLinkType,
+  sanitizeEvidenceFileName,
+} from '@/lib/evidence-service';
+import { createLocalEvidenceStorage, normalizeEvidenceStorageBackend } from '@/lib/evidence-storage';
+
+describe('evidence-service', () => {
+  it('computes hex SHA-256 hashes', () => {
+    expect(computeSha256(Buffer.from('abc'))).toBe(
+      'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad'
+    );
+  });
+
+  it('reduces file names to a safe basename', () => {
+    expect(sanitizeEvidenceFileName('../../etc/passwd')).toBe('passwd');
+    expect(sanitizeEvidenceFileName('C:\\exports\\firewall config.xml')).toBe('firewall_config.xml');
+    expect(sanitizeEvidenceFileName('..')).toBe('evidence');
+  });
+
+  it('builds content-addressed storage keys', () => {
+    expect(buildEvidenceStorageKey('project-1', 'abc123', 'scan report.pdf')).toBe(
+      'project-1/abc123/scan_report.pdf'
+    );
+  });
+
+  it('requires exactly one linked entity', () => {
+    expect(resolveEvidenceLinkType({ answerId: 'a1' })).toBe('Answer');
+    expect(resolveEvidenceLinkType({ measureId: 'm1', findingId: null })).toBe('Measure');
+    expect(resolveEvidenceLinkType({})).toBeNull();
+    expect(resolveEvidenceLinkType({ answerId: 'a1', findingId: 'f1' })).toBeNull();
+  });
+});
+
+describe('evidence-storage', () => {
+  it('defaults to the local backend', () => {
+    expect(normalizeEvidenceStorageBackend(undefined)).toBe('Local');
+    expect(normalizeEvidenceStorageBackend(' S3 ')).toBe('S3');
+  });
+
+  it('rejects keys outside the storage root', async () => {
+    const storage = createLocalEvidenceStorage('/tmp/secudo-evidence-test');
+    await expect(storage.get('../outside.txt')).rejects.toThrow('Invalid evidence storage key');
+  });
+});
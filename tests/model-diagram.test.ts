@@ -0,0 +1,105 @@
+import {
+  ModelDiagramEdge,
+  ModelDiagramNode,
+  buildModelDiagramScene,
+  diagramRiskLevel,
+  renderModelDiagramSvg,
+  renderModelDiagramTikz,
+} from '@/lib/model-diagram';
+
+const node = (
+  id: string,
+  parentNodeId: string | null = null,
+  category = 'Component',
+  assetValue: number | null = null
+): ModelDiagramNode => ({ id, name: id, category, parentNodeId, assetValue, dataObjectCount: 0 });
+
+const edge = (id: string, sourceNodeId: string, targetNodeId: string, direction = 'A_TO_B'): ModelDiagramEdge => ({
+  id,
+  name: null,
+  sourceNodeId,
+  targetNodeId,
+  direction,
+  assetValue: null,
+  dataObjectCount: 0,
+});
+
+describe('model diagram', () => {
+  const nodes = [
+    node('global', null, 'Container'),
+    node('plant', 'global', 'System'),
+    { ...node('plc', 'plant', 'Component', 9), dataObjectCount: 2 },
+    node('hmi', 'plant', 'Component', 5),
+    node('historian'),
+  ];
+  const edges = [edge('e1', 'hmi', 'plc'), edge('e2', 'plc', 'historian', 'BIDIRECTIONAL')];
+  const layout = {
+    nodePositions: {
+      plant: { x: 100, y: 100 },
+      plc: { x: 130, y: 170 },
+      hmi: { x: 400, y: 170 },
+      historian: { x: 800, y: 140 },
+    },
+    containerSizes: {},
+  };
+
+  test('stored positions are shifted to the margin and containers are fitted to their children', () => {
+    const scene = buildModelDiagramScene({ nodes, edges, layout });
+
+    expect(scene.autoLayout).toBe(false);
+    expect(scene.containers.map((box) => box.id)).toEqual(['plant']);
+    expect(scene.containers[0]).toMatchObject({ x: 20, y: 20, width: 550, height: 196 });
+    expect(scene.components.find((box) => box.id === 'plc')).toMatchObject({
+      x: 50,
+      y: 90,
+      depth: 1,
+      risk: 'critical',
+      dataObjectCount: 2,
+    });
+    expect(scene.width).toBe(960);
+    // Links end at the box borders
+    expect(scene.links.find((link) => link.id === 'e1')).toMatchObject({
+      source: { x: 320, y: 138 },
+      target: { x: 270, y: 138 },
+    });
+  });
+
+  test('missing positions switch to the automatic layout and detail diagrams keep only the container content', () => {
+    expect(buildModelDiagramScene({ nodes, edges, layout: { nodePositions: {}, containerSizes: {} } }).autoLayout).toBe(
+      true
+    );
+
+    const detail = buildModelDiagramScene({ nodes, edges, layout }, 'plant');
+    expect(detail.components.map((box) => box.id).sort()).toEqual(['hmi', 'plc']);
+    expect(detail.links.map((link) => link.id)).toEqual(['e1']);
+    expect(detail.containers[0]).toMatchObject({ x: 20, y: 20 });
+  });
+
+  test('asset values map to the valuation bands', () => {
+    expect([null, 1, 4, 6, 8, 10].map(diagramRiskLevel)).toEqual([
+      'unrated',
+      'low',
+      'medium',
+      'high',
+      'critical',
+      'critical',
+    ]);
+  });
+
+  test('SVG and TikZ output escape labels and draw arrows by direction', () => {
+    const scene = buildModelDiagramScene({
+      nodes: [...nodes, node('R&D <lab>')],
+      edges,
+      layout: { ...layout, nodePositions: { ...layout.nodePositions, 'R&D <lab>': { x: 800, y: 400 } } },
+    });
+
+    const svg = renderModelDiagramSvg(scene);
+    expect(svg).toContain('R&amp;D &lt;lab&gt;');
+    expect(svg).toContain('marker-start="url(#arrow-unrated)" marker-end="url(#arrow-unrated)"');
+
+    const tikz = renderModelDiagramTikz(scene, (value) => value.replace(/&/g, '\\&'));
+    expect(tikz).toContain('R\\&D <lab>');
+    expect(tikz).toContain('<->');
+    expect(tikz).toContain('fill=diagramcriticalfill');
+  });
+});
@@ -0,0 +1,101 @@
+import { ModelSnapshot, diffModelSnapshots, planSelectiveRestore } from '@/lib/model-snapshot-service';
+
+const snapshot = (overrides: Partial<ModelSnapshot>): ModelSnapshot => ({
+  nodes: [],
+  edges: [],
+  zones: [],
+  dataObjects: [],
+  componentData: [],
+  edgeDataFlows: [],
+  nodePositions: {},
+  containerSizes: {},
+  ...overrides,
+});
+
+const saved = snapshot({
+  nodes: [
+    { id: 'plant', stableId: 'plant', name: 'Plant', category: 'Container', parentNodeId: null },
+    { id: 'plc', stableId: 'plc', name: 'PLC', category: 'Component', parentNodeId: 'plant' },
+    { id: 'scada', stableId: 'scada', name: 'SCADA', category: 'Component', parentNodeId: null },
+  ],
+  edges: [
+    { id: 'e1', sourceNodeId: 'scada', targetNodeId: 'plc', name: 'Modbus', direction: 'A_TO_B' },
+    { id: 'e2', sourceNodeId: 'plc', targetNodeId: 'scada', name: null, direction: 'A_TO_B' },
+  ],
+  dataObjects: [{ id: 'd1', name: 'Recipes', dataClass: 'ProductionData', confidentiality: 6 }],
+  componentData: [{ nodeId: 'plc', dataObjectId: 'd1', role: 'Stores' }],
+  edgeDataFlows: [{ edgeId: 'e1', dataObjectId: 'd1', direction: 'SourceToTarget' }],
+  nodePositions: { plant: { x: 0, y: 0 }, plc: { x: 30, y: 70 }, scada: { x: 600, y: 0 } },
+  containerSizes: { plant: { width: 300, height: 200 } },
+});
+
+const live = snapshot({
+  nodes: [
+    { id: 'scada', stableId: 'scada', name: 'SCADA Server', category: 'Component', parentNodeId: null },
+    { id: 'mes', stableId: 'plc', name: 'MES', category: 'Component', parentNodeId: null },
+  ],
+  dataObjects: [{ id: 'd1', name: 'Recipes', dataClass: 'ProductionData', confidentiality: 6 }],
+  nodePositions: { scada: { x: 640, y: 0 }, mes: { x: 0, y: 400 } },
+});
+
+describe('diffModelSnapshots', () => {
+  it('reports added, removed and modified elements and moved placements', () => {
+    const diff = diffModelSnapshots(saved, live);
+    const changes = diff.entries.map((entry) => `${entry.change} ${entry.entityType} ${entry.id}`);
+
+    expect(changes).toEqual(
+      expect.arrayContaining([
+        'added node mes',
+        'removed node plant',
+        'removed node plc',
+        'modified node scada',
+        'removed edge e1',
+        'removed componentData plc::d1',
+        'removed edgeDataFlow e1::d1',
+        'modified placement scada',
+      ])
+    );
+    expect(diff.entries.find((entry) => entry.id === 'scada' && entry.entityType === 'node')?.fields).toEqual([
+      'name',
+    ]);
+    expect(diff.entries.some((entry) => entry.entityType === 'dataObject')).toBe(false);
+    expect(diff.summary.node).toEqual({ added: 1, removed: 2, modified: 1 });
+  });
+
+  it('finds no changes between identical snapshots', () => {
+    expect(diffModelSnapshots(saved, saved).entries).toEqual([]);
+  });
+});
+
+describe('planSelectiveRestore', () => {
+  it('brings back a deleted subsystem with its interfaces, mappings and layout', () => {
+    const plan = planSelectiveRestore(saved, live, {
+      nodeIds: ['plant'],
+      edgeIds: [],
+      dataObjectIds: [],
+      includeChildren: true,
+    });
+
+    expect(plan.nodes.map((node) => node.id)).toEqual(['plant', 'plc']);
+    expect(plan.nodes.find((node) => node.id === 'plc')).toMatchObject({ parentNodeId: 'plant', isNew: true });
+    // The live MES node took over the stable id in the meantime
+    expect(plan.nodes.find((node) => node.id === 'plc')?.stableId).toBe('plc_2');
+    expect(plan.edges.map((edge) => edge.id).sort()).toEqual(['e1', 'e2']);
+    expect(plan.componentData).toEqual([{ nodeId: 'plc', dataObjectId: 'd1', role: 'Stores', notes: null }]);
+    expect(plan.edgeDataFlows).toHaveLength(1);
+    expect(plan.nodePositions).toEqual({ plant: { x: 0, y: 0 }, plc: { x: 30, y: 70 } });
+    expect(plan.containerSizes).toEqual({ plant: { width: 300, height: 200 } });
+  });
+
+  it('skips interfaces whose other end no longer exists', () => {
+    const plan = planSelectiveRestore(saved, live, {
+      nodeIds: [],
+      edgeIds: ['e1'],
+      dataObjectIds: [],
+      includeChildren: true,
+    });
+
+    expect(plan.nodes).toEqual([]);
+    expect(plan.edges).toEqual([]);
+  });
+});
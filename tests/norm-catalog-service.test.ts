@@ -0,0 +1,139 @@
+// In-memory catalog library, empty like on a fresh install
+jest.mock('@/lib/prisma', () => {
+  type Row = Record<string, unknown>;
+  const catalogs: Row[] = [];
+  const controls: Row[] = [];
+  const questions: Row[] = [];
+  const client = {
+    normCatalog: {
+      count: async () => catalogs.length,
+      findUnique: async ({ where }: { where: { norm_version: { norm: string; version: string } } }) =>
+        catalogs.find(
+          (catalog) => catalog.norm === where.norm_version.norm && catalog.version === where.norm_version.version
+        ) ?? null,
+      findFirst: async ({ where }: { where: { projectNorm: string } }) => {
+        const latest = catalogs.filter((catalog) => catalog.projectNorm === where.projectNorm).pop();
+        return latest ? { ...latest, controls: controls.filter((entry) => entry.catalogId === latest.id) } : null;
+      },
+      create: async ({ data }: { data: Row }) => {
+        const catalog = { id: `catalog-${catalogs.length + 1}`, ...data };
+        catalogs.push(catalog);
+        return catalog;
+      },
+    },
+    normCatalogControl: {
+      createMany: async ({ data }: { data: Row[] }) => {
+        controls.push(...data);
+        return { count: data.length };
+      },
+    },
+    projectNormCatalog: {
+      findUnique: async () => null,
+      upsert: async ({ create }: { create: Row }) => create,
+    },
+    question: {
+      findMany: async ({ where }: { where: { projectId: string; catalogId?: null; catalog?: { projectNorm: string } } }) =>
+        questions
+          .filter((question) => question.projectId === where.projectId)
+          .filter((question) => (where.catalogId === null ? question.catalogId === null : true))
+          .filter((question) =>
+            where.catalog
+              ? catalogs.some((catalog) => catalog.id === question.catalogId && catalog.projectNorm === where.catalog?.projectNorm)
+              : true
+          )
+          .map((question) => ({ ...question, _count: { answers: 0 } })),
+      create: async ({ data }: { data: Row }) => {
+        const question = { id: `question-${questions.length + 1}`, ...data };
+        questions.push(question);
+        return question;
+      },
+    },
+    $transaction: async <T>(callback: (tx: unknown) => Promise<T>) => callback(client),
+  };
+  return { prisma: client };
+});
+
+import {
+  diffQuestionSet,
+  ensureNormCatalogLibrary,
+  getLibraryCatalog,
+  syncProjectNormCatalog,
+} from '@/lib/norm-catalog-service';
+import type { CatalogControlSnapshot, LinkedQuestionSnapshot } from '@/lib/norm-catalog-service';
+
+const control = (oscalId: string, overrides: Partial<CatalogControlSnapshot> = {}): CatalogControlSnapshot => ({
+  oscalId,
+  controlId: oscalId.toUpperCase(),
+  title: `Control ${oscalId}`,
+  statement: null,
+  questionText: `Is ${oscalId} implemented?`,
+  targetType: 'Component',
+  applicability: null,
+  defaultMeasures: null,
+  ...overrides,
+});
+
+const questionFor = (
+  source: CatalogControlSnapshot,
+  overrides: Partial<LinkedQuestionSnapshot> = {}
+): LinkedQuestionSnapshot => ({
+  id: `q-${source.oscalId}`,
+  text: source.questionText,
+  normReference: source.controlId,
+  targetType: source.targetType,
+  riskDescription: source.statement,
+  applicability: source.applicability,
+  defaultMeasures: source.defaultMeasures,
+  catalogControlKey: source.oscalId,
+  answerCount: 0,
+  ...overrides,
+});
+
+describe('norm-catalog-service', () => {
+  it('classifies added, removed, changed and unchanged catalog controls', () => {
+    const base = [control('sr-1.1'), control('sr-1.2'), control('sr-2.1')];
+    const latest = [control('sr-1.1'), control('sr-1.2', { questionText: 'Reworded?' }), control('sr-3.1')];
+    const questions = base.map((entry) => questionFor(entry));
+
+    const statusByKey = Object.fromEntries(
+      diffQuestionSet(questions, base, latest).map((entry) => [entry.controlKey, entry.status])
+    );
+
+    expect(statusByKey).toEqual({
+      'sr-1.1': 'unchanged',
+      'sr-1.2': 'changed',
+      'sr-3.1': 'added',
+      'sr-2.1': 'removed',
+    });
+  });
+
+  it('flags questions edited in the project separately from catalog changes', () => {
+    const base = [control('sr-1.1'), control('sr-1.2')];
+    const latest = [control('sr-1.1'), control('sr-1.2', { targetType: 'Edge' })];
+    const questions = [
+      questionFor(base[0], { text: 'Local wording' }),
+      questionFor(base[1], { text: 'Local wording', answerCount: 2 }),
+    ];
+
+    const [first, second] = diffQuestionSet(questions, base, latest);
+
+    expect(first).toMatchObject({ status: 'unchanged', localModified: true, changedFields: [] });
+    expect(second).toMatchObject({ status: 'changed', localModified: true, changedFields: ['targetType'] });
+  });
+});
+
+describe('norm catalog library on a fresh install', () => {
+  it('fills the empty library once so new projects get a question set', async () => {
+    expect(await syncProjectNormCatalog('project-1', 'IEC 62443')).toBeNull();
+
+    const imported = await ensureNormCatalogLibrary();
+
+    expect(imported.length).toBeGreaterThan(0);
+    const library = await getLibraryCatalog('IEC 62443');
+    const pulled = await syncProjectNormCatalog('project-1', 'IEC 62443');
+    expect(pulled).toMatchObject({ catalogId: library?.id, added: library?.controls.length });
+    expect(pulled?.added).toBeGreaterThan(0);
+    // A filled library is only updated by the admin directory sync
+    expect(await ensureNormCatalogLibrary()).toEqual([]);
+  });
+});
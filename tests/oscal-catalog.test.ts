@@ -0,0 +1,97 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { parseOscalDocument, selectProfileControls } from '@/lib/oscal-catalog';
+import { parseSecurityRequirementReference } from '@/lib/security-level-service';
+
+const catalogDocument = {
+  catalog: {
+    uuid: 'c8b6a8b5-4b36-4d61-9a44-64a1c2cbd8e0',
+    metadata: {
+      title: 'Example Catalog',
+      version: '5.1',
+      props: [{ name: 'secudo-norm', ns: 'urn:secudo:oscal', value: 'Example Norm' }],
+    },
+    groups: [
+      {
+        id: 'ac',
+        title: 'Access Control',
+        controls: [
+          {
+            id: 'ac-2',
+            title: 'Account Management',
+            params: [{ id: 'ac-02_odp.01', label: 'time period' }],
+            props: [{ name: 'label', value: 'AC-2' }],
+            parts: [
+              {
+                name: 'statement',
+                parts: [{ name: 'item', props: [{ name: 'label', value: 'a.' }], prose: 'Review accounts every {{ insert: param, ac-02_odp.01 }}.' }],
+              },
+            ],
+            controls: [
+              { id: 'ac-2.1', title: 'Automated Account Management', props: [{ name: 'label', value: 'AC-2(1)' }] },
+              { id: 'ac-2.2', title: 'Withdrawn', props: [{ name: 'status', value: 'withdrawn' }] },
+            ],
+          },
+        ],
+      },
+    ],
+  },
+};
+
+describe('oscal-catalog', () => {
+  it('flattens groups and control enhancements', () => {
+    const parsed = parseOscalDocument(catalogDocument);
+    if (parsed.kind !== 'catalog') {
+      throw new Error('expected a catalog');
+    }
+
+    expect(parsed.metadata).toEqual({
+      uuid: 'c8b6a8b5-4b36-4d61-9a44-64a1c2cbd8e0',
+      title: 'Example Catalog',
+      version: '5.1',
+      norm: 'Example Norm',
+      projectNorm: null,
+    });
+    expect(parsed.controls.map((control) => control.controlId)).toEqual(['AC-2', 'AC-2(1)']);
+    expect(parsed.controls[0].statement).toBe('a. Review accounts every [Assignment: time period].');
+    expect(parsed.controls[0].groupTitle).toBe('Access Control');
+    expect(parsed.controls[0].targetType).toBe('None');
+  });
+
+  it('selects profile controls by id', () => {
+    const parsed = parseOscalDocument({
+      profile: {
+        uuid: 'a5b3c9d2-3d1f-4a8b-8c7e-0f7e6d5c4b3a',
+        metadata: { title: 'Example Baseline', version: '1.0' },
+        imports: [{ href: 'catalog.json', 'include-controls': [{ 'with-ids': ['ac-2.1'] }] }],
+      },
+    });
+    const catalog = parseOscalDocument(catalogDocument);
+    if (parsed.kind !== 'profile' || catalog.kind !== 'catalog') {
+      throw new Error('unexpected document kinds');
+    }
+
+    expect(parsed.imports[0].includeAll).toBe(false);
+    expect(selectProfileControls(parsed.imports[0], catalog.controls).map((control) => control.oscalId)).toEqual([
+      'ac-2.1',
+    ]);
+  });
+
+  it('parses the shipped IEC 62443-3-3 catalog into security requirements', () => {
+    const raw = JSON.parse(readFileSync(path.join(__dirname, '../standards/catalogs/iec-62443-3-3.json'), 'utf8'));
+    const parsed = parseOscalDocument(raw);
+    if (parsed.kind !== 'catalog') {
+      throw new Error('expected a catalog');
+    }
+
+    expect(parsed.metadata.norm).toBe('IEC 62443-3-3');
+    expect(parsed.controls.length).toBeGreaterThan(0);
+    for (const control of parsed.controls) {
+      expect(parseSecurityRequirementReference(control.controlId)).not.toBeNull();
+    }
+  });
+
+  it('rejects documents that are not OSCAL catalogs or profiles', () => {
+    expect(() => parseOscalDocument({ foo: 'bar' })).toThrow();
+  });
+});
@@ -0,0 +1,90 @@
+import { inflateRawSync } from 'zlib';
+import { crc32, createZipArchive } from '@/lib/zip-archive';
+import { renderReportDocx } from '@/lib/report-docx';
+import { renderReportHtml } from '@/lib/report-html';
+import { renderReportMarkdown } from '@/lib/report-markdown';
+import type { ReportDocument } from '@/lib/report-document';
+
+// Reads the entries back through the central directory
+const readZipEntries = (archive: Buffer): Map<string, Buffer> => {
+  const end = archive.length - 22;
+  expect(archive.readUInt32LE(end)).toBe(0x06054b50);
+  const count = archive.readUInt16LE(end + 10);
+  let offset = archive.readUInt32LE(end + 16);
+  const entries = new Map<string, Buffer>();
+  for (let index = 0; index < count; index += 1) {
+    const compressedSize = archive.readUInt32LE(offset + 20);
+    const nameLength = archive.readUInt16LE(offset + 28);
+    const localOffset = archive.readUInt32LE(offset + 42);
+    const name = archive.subarray(offset + 46, offset + 46 + nameLength).toString('utf8');
+    const dataStart = localOffset + 30 + archive.readUInt16LE(localOffset + 26);
+    const content = inflateRawSync(archive.subarray(dataStart, dataStart + compressedSize));
+    expect(crc32(content)).toBe(archive.readUInt32LE(offset + 16));
+    entries.set(name, content);
+    offset += 46 + nameLength;
+  }
+  return entries;
+};
+
+const document: ReportDocument = {
+  language: 'en',
+  title: 'Plant <A> & B',
+  subtitle: null,
+  logo: null,
+  coverPage: true,
+  metadata: [{ label: 'Project', value: 'Plant_1' }],
+  disclaimerTitle: 'Disclaimer',
+  disclaimer: [],
+  blocks: [
+    { kind: 'heading', level: 1, text: 'Risk Matrix' },
+    { kind: 'table', columns: ['Impact', '1'], rows: [['5', { text: '2', color: '#EF4444', note: 'Critical' }]] },
+    { kind: 'table', columns: [], rows: [['Components', '3']] },
+  ],
+};
+
+describe('report formats', () => {
+  test('crc32 matches the reference value', () => {
+    expect(crc32(Buffer.from('123456789'))).toBe(0xcbf43926);
+  });
+
+  test('zip archive entries round-trip with UTF-8 names', () => {
+    const entries = readZipEntries(
+      createZipArchive([
+        { name: 'a.txt', content: 'hello' },
+        { name: 'übersicht/b.bin', content: Buffer.from([0, 1, 2, 255]) },
+      ])
+    );
+
+    expect(entries.get('a.txt')?.toString('utf8')).toBe('hello');
+    expect(Array.from(entries.get('übersicht/b.bin') ?? [])).toEqual([0, 1, 2, 255]);
+  });
+
+  test('docx contains the word parts with escaped text and shaded cells', () => {
+    const entries = readZipEntries(renderReportDocx(document));
+
+    expect(Array.from(entries.keys())).toEqual([
+      '[Content_Types].xml',
+      '_rels/.rels',
+      'word/document.xml',
+      'word/styles.xml',
+      'word/_rels/document.xml.rels',
+    ]);
+    const body = entries.get('word/document.xml')?.toString('utf8') ?? '';
+    expect(body).toContain('Plant &lt;A&gt; &amp; B');
+    expect(body).toContain('w:fill="EF4444"');
+    expect(body).toContain('<w:br w:type="page"/>');
+  });
+
+  test('markdown and html escape content and keep the cell notes', () => {
+    const markdown = renderReportMarkdown(document);
+    expect(markdown).toContain('# Plant \\<A\\> & B');
+    expect(markdown).toContain('- **Project:** Plant\\_1');
+    expect(markdown).toContain('| 5 | 2 (Critical) |');
+    expect(markdown).toContain('- **Components:** 3');
+
+    const html = renderReportHtml(document);
+    expect(html).toContain('<title>Plant &lt;A&gt; &amp; B</title>');
+    expect(html).toContain('<td style="background:#EF4444;text-align:center" title="Critical">2</td>');
+    expect(html).toContain('<table class="fields">');
+  });
+});
@@ -0,0 +1,51 @@
+import {
+  DEFAULT_REPORT_TEMPLATE,
+  REPORT_SECTION_IDS,
+  ReportTemplateDefinitionSchema,
+  formatReportLabel,
+  parseReportTemplateDefinition,
+  reportLabels,
+  reportSectionTitle,
+} from '@/lib/report-template';
+
+describe('report template', () => {
+  test('stored definitions are validated and fall back to the built-in report', () => {
+    expect(parseReportTemplateDefinition(null)).toBe(DEFAULT_REPORT_TEMPLATE);
+    expect(parseReportTemplateDefinition('{not json')).toBe(DEFAULT_REPORT_TEMPLATE);
+    expect(parseReportTemplateDefinition(JSON.stringify({ sections: ['unknownSection'] }))).toBe(
+      DEFAULT_REPORT_TEMPLATE
+    );
+    expect(parseReportTemplateDefinition(JSON.stringify({ language: 'de', sections: ['riskMatrix', 'assetList'] })))
+      .toEqual({ language: 'de', coverPage: false, sections: ['riskMatrix', 'assetList'] });
+  });
+
+  test('sections must be unique and logos must be PNG or JPEG data URLs', () => {
+    expect(ReportTemplateDefinitionSchema.safeParse({ sections: ['findings', 'findings'] }).success).toBe(false);
+    expect(ReportTemplateDefinitionSchema.safeParse({ sections: [] }).success).toBe(false);
+    expect(
+      ReportTemplateDefinitionSchema.safeParse({ sections: ['findings'], logo: 'data:image/svg+xml;base64,PHN2Zz4=' })
+        .success
+    ).toBe(false);
+    expect(
+      ReportTemplateDefinitionSchema.safeParse({ sections: ['findings'], logo: 'data:image/png;base64,iVBORw0KGgo=' })
+        .success
+    ).toBe(true);
+  });
+
+  test('every section has a title in every language', () => {
+    REPORT_SECTION_IDS.forEach((section) => {
+      expect(reportSectionTitle('en', section)).toBeTruthy();
+      expect(reportSectionTitle('de', section)).toBeTruthy();
+    });
+    expect(reportSectionTitle('de', 'measurePlan')).toBe('Maßnahmenplan');
+  });
+
+  test('label placeholders are filled and unknown ones are kept', () => {
+    expect(
+      formatReportLabel(reportLabels('en').releaseIntro, { release: 'v2.1', date: '01/02/2026' }).startsWith(
+        'Compared with the baseline of release v2.1, frozen on 01/02/2026.'
+      )
+    ).toBe(true);
+    expect(formatReportLabel('{known} and {unknown}', { known: 1 })).toBe('1 and {unknown}');
+  });
+});
@@ -0,0 +1,108 @@
+import {
+  DEFAULT_RISK_METHOD,
+  RISK_METHOD_PRESETS,
+  RiskMethodSchema,
+  computeResidualRatings,
+  countRiskMatrix,
+  evaluateFindingRisk,
+  evaluateRisk,
+  parseRiskMethod,
+} from '@/lib/risk-method';
+
+const preset = (key: string) => {
+  const method = RISK_METHOD_PRESETS.find((entry) => entry.key === key);
+  if (!method) {
+    throw new Error(`Missing preset ${key}`);
+  }
+  return method;
+};
+
+describe('risk method', () => {
+  test('all presets are valid definitions', () => {
+    RISK_METHOD_PRESETS.forEach((method) => {
+      expect(RiskMethodSchema.safeParse(method).success).toBe(true);
+    });
+  });
+
+  test('default method keeps value x severity with the classic thresholds', () => {
+    expect(evaluateRisk(DEFAULT_RISK_METHOD, { assetValue: 8, findingSeverity: 7 })).toMatchObject({
+      score: 56,
+      level: 'High',
+      tolerable: false,
+    });
+    expect(evaluateRisk(DEFAULT_RISK_METHOD, { assetValue: 5, findingSeverity: 4 })).toMatchObject({
+      score: 20,
+      level: 'Low',
+      tolerable: true,
+    });
+  });
+
+  test('matrix methods scale both axes and look up the level', () => {
+    const result = evaluateRisk(preset('matrix-5x5'), { assetValue: 9, findingSeverity: 4 });
+    expect(result.likelihood).toBe(2);
+    expect(result.impact).toBe(5);
+    expect(result.level).toBe('High');
+    expect(result.tolerable).toBe(false);
+  });
+
+  test('sum and normalized formulas use the configured scales', () => {
+    expect(evaluateRisk(preset('iso-27005'), { assetValue: 6, findingSeverity: 6 })).toMatchObject({
+      score: 6,
+      level: 'Medium',
+      tolerable: true,
+    });
+    expect(evaluateRisk(preset('cvss-like'), { assetValue: 10, findingSeverity: 9 })).toMatchObject({
+      score: 9,
+      level: 'Critical',
+    });
+  });
+
+  test('invalid stored definitions fall back to the default method', () => {
+    expect(parseRiskMethod(null)).toBe(DEFAULT_RISK_METHOD);
+    expect(parseRiskMethod('{not json')).toBe(DEFAULT_RISK_METHOD);
+    expect(parseRiskMethod(JSON.stringify({ ...preset('matrix-5x5'), matrix: [['Low']] }))).toBe(DEFAULT_RISK_METHOD);
+    expect(parseRiskMethod(JSON.stringify(preset('iso-27005'))).key).toBe('iso-27005');
+  });
+
+  test('residual ratings apply done measures fully and measures in progress by half', () => {
+    expect(
+      computeResidualRatings({ likelihood: 8, impact: 6 }, [
+        { status: 'Done', likelihoodReduction: 50, impactReduction: 0 },
+        { status: 'InProgress', likelihoodReduction: 50, impactReduction: 50 },
+        { status: 'Open', likelihoodReduction: 100, impactReduction: 100 },
+      ])
+    ).toEqual({ likelihood: 3, impact: 5 });
+    expect(
+      computeResidualRatings({ likelihood: 8, impact: 6 }, [
+        { status: 'Done', likelihoodReduction: 100, impactReduction: 100 },
+      ])
+    ).toEqual({ likelihood: 1, impact: 1 });
+  });
+
+  test('finding risk falls back to severity and asset value and reports the residual level', () => {
+    const result = evaluateFindingRisk(DEFAULT_RISK_METHOD, { severity: 7 }, 8, [
+      { status: 'Done', likelihoodReduction: 50, impactReduction: 0 },
+    ]);
+    expect(result?.inherent).toMatchObject({ score: 56, level: 'High', tolerable: false });
+    expect(result?.residual).toMatchObject({ score: 32, level: 'Medium', tolerable: true });
+
+    expect(evaluateFindingRisk(DEFAULT_RISK_METHOD, { severity: 7 }, undefined, [])).toBeNull();
+    expect(
+      evaluateFindingRisk(DEFAULT_RISK_METHOD, { severity: 3, likelihood: 9, impact: 9 }, undefined, [])?.inherent
+    ).toMatchObject({ score: 81, level: 'Critical' });
+  });
+
+  test('risk matrix counts evaluations per cell with the highest likelihood first', () => {
+    const method = preset('matrix-5x5');
+    const evaluations = [
+      evaluateRisk(method, { assetValue: 9, findingSeverity: 4 }),
+      evaluateRisk(method, { assetValue: 10, findingSeverity: 3 }),
+      evaluateRisk(method, { assetValue: 1, findingSeverity: 10 }),
+    ];
+    const matrix = countRiskMatrix(method, evaluations);
+    expect(matrix).toHaveLength(5);
+    expect(matrix[0][0]).toMatchObject({ likelihood: 5, impact: 1, level: 'Medium', count: 1 });
+    expect(matrix[3][4]).toMatchObject({ likelihood: 2, impact: 5, level: 'High', count: 2 });
+    expect(matrix[4][0]).toMatchObject({ likelihood: 1, impact: 1, level: 'Low', count: 0 });
+  });
+});
@@ -1,4 +1,4 @@
-import { calculateRiskScore } from '@/lib/risk-service';
+import { calculateRiskScore, toFindingAsset } from '@/lib/risk-service';
 
 describe('calculateRiskScore', () => {
   it('returns low risk for small values', () => {
@@ -25,3 +25,17 @@ describe('calculateRiskScore', () => {
     expect(result.level).toBe('Critical');
   });
 });
+
+describe('toFindingAsset', () => {
+  it('attaches findings to the answered asset', () => {
+    expect(toFindingAsset('Component', 'node-1')).toEqual({ assetType: 'Node', assetId: 'node-1' });
+    expect(toFindingAsset('Edge', 'edge-1')).toEqual({ assetType: 'Edge', assetId: 'edge-1' });
+    expect(toFindingAsset('DataObject', 'data-1')).toEqual({ assetType: 'DataObject', assetId: 'data-1' });
+    expect(toFindingAsset('Zone', 'zone-1')).toEqual({ assetType: 'Zone', assetId: 'zone-1' });
+  });
+
+  it('falls back to the general asset for untargeted answers', () => {
+    expect(toFindingAsset('None', '')).toEqual({ assetType: 'Node', assetId: 'general' });
+    expect(toFindingAsset('Edge', null)).toEqual({ assetType: 'Node', assetId: 'general' });
+  });
+});
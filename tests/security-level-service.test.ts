@@ -0,0 +1,90 @@
+import {
+  buildSecurityLevelGapAnalysis,
+  computeAchievedSecurityLevel,
+  parseSecurityRequirementReference,
+} from '@/lib/security-level-service';
+
+const answeredAt = new Date('2026-01-01T00:00:00Z');
+
+describe('security-level-service', () => {
+  it('maps requirement enhancements to security levels', () => {
+    expect(parseSecurityRequirementReference('IEC 62443-3-3 SR 1.1')).toEqual({
+      fr: 'FR1',
+      requirement: 'SR 1.1',
+      level: 1,
+    });
+    expect(parseSecurityRequirementReference('CR 3.4 RE(2)')?.level).toBe(3);
+    expect(parseSecurityRequirementReference('SR 7.6 (5)')?.level).toBe(4);
+    expect(parseSecurityRequirementReference('ISO 27001 A.5.1')).toBeNull();
+  });
+
+  it('stops at the lowest unfulfilled level', () => {
+    expect(computeAchievedSecurityLevel([])).toBeNull();
+    expect(
+      computeAchievedSecurityLevel([
+        { level: 1, score: 9 },
+        { level: 2, score: 8 },
+        { level: 3, score: 2 },
+      ])
+    ).toBe(2);
+    expect(computeAchievedSecurityLevel([{ level: 1, score: 3 }])).toBe(0);
+  });
+
+  it('does not claim levels above an unassessed requirement', () => {
+    expect(computeAchievedSecurityLevel([{ level: 1, score: null }])).toBeNull();
+    expect(
+      computeAchievedSecurityLevel([
+        { level: 1, score: null },
+        { level: 3, score: 9 },
+        { level: 4, score: 10 },
+      ])
+    ).toBe(0);
+  });
+
+  it('rates zones by their weakest member and the most conservative answer', () => {
+    const analysis = buildSecurityLevelGapAnalysis({
+      targetSecurityLevel: 2,
+      zones: [{ id: 'zone-1', name: 'Control', targetSecurityLevel: 3 }],
+      nodes: [
+        { id: 'plc', name: 'PLC', category: 'Component', parentNodeId: null, zoneId: 'zone-1', capabilitySecurityLevel: 2 },
+        { id: 'hmi', name: 'HMI', category: 'Component', parentNodeId: null, zoneId: null, capabilitySecurityLevel: null },
+      ],
+      questions: [
+        { id: 'q1', normReference: 'SR 1.1', targetType: 'None' },
+        { id: 'q2', normReference: 'SR 1.1 RE 1', targetType: 'Component' },
+        { id: 'q3', normReference: 'SR 2.1', targetType: 'Zone' },
+      ],
+      answers: [
+        { questionId: 'q1', userId: 'u1', answerValue: '9', targetType: 'None', targetId: null, updatedAt: answeredAt },
+        { questionId: 'q2', userId: 'u1', answerValue: '8', targetType: 'Component', targetId: 'plc', updatedAt: answeredAt },
+        { questionId: 'q2', userId: 'u2', answerValue: '4', targetType: 'Component', targetId: 'plc', updatedAt: answeredAt },
+      ],
+    });
+
+    const zone = analysis.rows.find((row) => row.targetType === 'Zone');
+    const hmi = analysis.rows.find((row) => row.targetId === 'hmi');
+    expect(zone?.achieved.FR1).toBe(1);
+    expect(zone?.gaps.FR1).toBe(2);
+    expect(zone?.achieved.FR2).toBeNull();
+    expect(hmi?.targetLevel).toBe(2);
+    expect(hmi?.achieved.FR1).toBe(1);
+  });
+
+  it('reports the declared capability level of components and the lowest one of a zone', () => {
+    const analysis = buildSecurityLevelGapAnalysis({
+      targetSecurityLevel: 2,
+      zones: [{ id: 'zone-1', name: 'Control', targetSecurityLevel: 3 }],
+      nodes: [
+        { id: 'plc', name: 'PLC', category: 'Component', parentNodeId: null, zoneId: 'zone-1', capabilitySecurityLevel: 3 },
+        { id: 'rtu', name: 'RTU', category: 'Component', parentNodeId: null, zoneId: 'zone-1', capabilitySecurityLevel: 2 },
+        { id: 'hmi', name: 'HMI', category: 'Component', parentNodeId: null, zoneId: 'zone-1', capabilitySecurityLevel: null },
+      ],
+      questions: [],
+      answers: [],
+    });
+
+    expect(analysis.rows.find((row) => row.targetId === 'plc')?.capabilityLevel).toBe(3);
+    expect(analysis.rows.find((row) => row.targetId === 'hmi')?.capabilityLevel).toBeNull();
+    expect(analysis.rows.find((row) => row.targetType === 'Zone')?.capabilityLevel).toBe(2);
+  });
+});
@@ -0,0 +1,54 @@
+import { generateStrideThreats, isSecureProtocol } from '@/lib/threat-service';
+
+const model = {
+  nodes: [
+    { id: 'operator', name: 'Operator', category: 'Human', parentNodeId: null, zoneId: null },
+    { id: 'cell', name: 'Cell', category: 'Container', parentNodeId: null, zoneId: 'zone-control' },
+    { id: 'hmi', name: 'HMI', category: 'Component', parentNodeId: null, zoneId: 'zone-dmz' },
+    { id: 'plc', name: 'PLC', category: 'Component', parentNodeId: 'cell', zoneId: null },
+    { id: 'historian', name: 'Historian', category: 'Component', parentNodeId: null, zoneId: 'zone-dmz' },
+  ],
+  edges: [
+    { id: 'e1', name: null, protocol: 'HTTPS', direction: 'A_TO_B', sourceNodeId: 'operator', targetNodeId: 'hmi' },
+    { id: 'e2', name: 'Control', protocol: 'Modbus', direction: 'A_TO_B', sourceNodeId: 'hmi', targetNodeId: 'plc' },
+    { id: 'e3', name: 'Archive', protocol: 'TLS', direction: 'A_TO_B', sourceNodeId: 'hmi', targetNodeId: 'historian' },
+  ],
+  dataObjects: [
+    { id: 'd1', name: 'Recipes', confidentiality: 8, integrity: 9, availability: 4 },
+  ],
+  componentData: [{ nodeId: 'historian', dataObjectId: 'd1', role: 'Stores' }],
+  edgeDataFlows: [{ edgeId: 'e2', dataObjectId: 'd1' }],
+};
+
+describe('threat service', () => {
+  test('recognizes secure transport protocols', () => {
+    expect(isSecureProtocol('HTTPS')).toBe(true);
+    expect(isSecureProtocol('OPC UA')).toBe(true);
+    expect(isSecureProtocol('Modbus')).toBe(false);
+    expect(isSecureProtocol(null)).toBe(false);
+  });
+
+  test('derives STRIDE threats per element from zones, protocols and data', () => {
+    const threats = generateStrideThreats(model);
+    const keys = threats.map((threat) => threat.ruleKey);
+
+    // Insecure flow from the DMZ into the control zone carrying integrity-critical data
+    expect(keys).toEqual(
+      expect.arrayContaining([
+        'Tampering:Edge:e2',
+        'InformationDisclosure:Edge:e2',
+        'Spoofing:Edge:e2',
+        'DenialOfService:Edge:e2',
+        'Spoofing:Node:operator',
+        'Repudiation:Node:hmi',
+        'ElevationOfPrivilege:Node:plc',
+        'InformationDisclosure:Node:historian',
+      ])
+    );
+    expect(keys).not.toContain('Tampering:Edge:e1');
+    expect(keys).not.toContain('Spoofing:Edge:e3');
+    expect(keys.some((key) => key.endsWith(':Node:cell'))).toBe(false);
+    expect(new Set(keys).size).toBe(keys.length);
+    expect(threats.find((threat) => threat.ruleKey === 'Tampering:Edge:e2')?.severity).toBe(10);
+  });
+});
@@ -0,0 +1,157 @@
+import { inflateRawSync } from 'zlib';
+import { buildTraceabilityMatrix, traceabilityToCsv } from '@/lib/traceability-service';
+import type { TraceabilityInput } from '@/lib/traceability-service';
+import { createXlsxWorkbook } from '@/lib/xlsx-workbook';
+
+const input: TraceabilityInput = {
+  questions: [
+    { id: 'q2', text: 'Is logging enabled?', normReference: 'SR 6.1' },
+    { id: 'q1', text: 'Is MFA used?', normReference: 'SR 1.2' },
+    { id: 'q3', text: 'Are backups tested?', normReference: 'SR 7.3' },
+  ],
+  answers: [
+    { id: 'a1', questionId: 'q1', assetType: 'Node', assetId: 'n1', user: 'alice', value: 'No', comment: null },
+    { id: 'a2', questionId: 'q2', assetType: 'Node', assetId: 'n1', user: 'bob', value: 'Yes', comment: 'SIEM' },
+    { id: 'a3', questionId: 'q2', assetType: 'Node', assetId: 'n1', user: 'carol', value: 'No', comment: null },
+  ],
+  finalAnswers: [
+    { questionId: 'q1', assetType: 'Node', assetId: 'n1', value: 'No', status: 'Approved', source: 'Consensus' },
+    // bob and carol disagree, so consensus leaves the PLC logging answer in conflict
+    { questionId: 'q2', assetType: 'Node', assetId: 'n1', value: 'Yes', status: 'Conflict', source: 'Consensus' },
+  ],
+  findings: [
+    {
+      id: 'f1',
+      questionId: 'q1',
+      questionText: 'Is MFA used?',
+      normReference: 'SR 1.2',
+      assetType: 'Node',
+      assetId: 'n1',
+      assetName: 'PLC',
+      nodeId: 'n1',
+      edgeId: null,
+      dataObjectId: null,
+      zoneId: null,
+      description: 'MFA is missing on the PLC',
+      severity: 4,
+      riskAccepted: false,
+    },
+    {
+      id: 'f2',
+      questionId: null,
+      questionText: 'Is logging enabled?',
+      normReference: 'SR 6.1',
+      assetType: 'Edge',
+      assetId: 'e1',
+      assetName: 'PLC -> HMI',
+      nodeId: null,
+      edgeId: 'e1',
+      dataObjectId: null,
+      zoneId: null,
+      description: null,
+      severity: 2,
+      riskAccepted: true,
+    },
+    {
+      id: 'f3',
+      questionId: null,
+      questionText: 'Spoofing of the HMI',
+      normReference: '',
+      assetType: 'Node',
+      assetId: 'n2',
+      assetName: 'HMI',
+      // The HMI was deleted, which cleared the key
+      nodeId: null,
+      edgeId: null,
+      dataObjectId: null,
+      zoneId: null,
+      description: 'Spoofing of the HMI',
+      severity: 3,
+      riskAccepted: false,
+    },
+  ],
+  measures: [
+    {
+      id: 'm1',
+      findingId: 'f1',
+      title: 'Enable MFA, "strict"',
+      status: 'InProgress',
+      priority: 'High',
+      dueDate: new Date('2026-03-01T00:00:00.000Z'),
+      assignedTo: 'alice',
+    },
+  ],
+  evidence: [
+    { id: 'ev1', answerId: 'a1', findingId: null, measureId: null, fileName: 'config.png', sha256: 'abc' },
+    { id: 'ev2', answerId: null, findingId: null, measureId: 'm1', fileName: 'ticket.pdf', sha256: 'def' },
+  ],
+  targetLabels: new Map([
+    ['Node:n1', 'PLC'],
+    ['Edge:e1', 'PLC -> HMI'],
+  ]),
+};
+
+describe('traceability matrix', () => {
+  test('links findings by key or question text and derives the row status', () => {
+    const { rows, summary } = buildTraceabilityMatrix(input);
+
+    expect(rows.map((row) => [row.normReference, row.target?.label ?? null, row.status])).toEqual([
+      ['SR 1.2', 'PLC', 'InProgress'],
+      ['SR 6.1', 'PLC', 'Answered'],
+      ['SR 6.1', 'PLC -> HMI', 'Accepted'],
+      ['SR 7.3', null, 'Unanswered'],
+      ['', 'HMI', 'NoMeasure'],
+    ]);
+    expect(rows[0].finalAnswer?.status).toBe('Approved');
+    expect(rows[1].finalAnswer).toEqual({ value: 'Yes', status: 'Conflict', source: 'Consensus' });
+    expect(rows[1].answers).toHaveLength(2);
+    expect(rows[0].finding?.linkedBy).toBe('Key');
+    expect(rows[0].evidence.map((entry) => `${entry.linkType}:${entry.id}`)).toEqual(['Answer:ev1', 'Measure:ev2']);
+    expect(rows[2].finding?.linkedBy).toBe('Text');
+    expect(rows[4].question).toBeNull();
+    expect(summary).toEqual({
+      requirements: 3,
+      questions: 3,
+      answeredQuestions: 2,
+      findings: 3,
+      findingsWithoutMeasure: 2,
+      unlinkedFindings: 1,
+      measures: 1,
+      measuresDone: 0,
+      gaps: 2,
+    });
+  });
+
+  test('csv escapes cells and xlsx keeps numbers numeric', () => {
+    const { rows } = buildTraceabilityMatrix(input);
+    const csv = traceabilityToCsv(rows).split('\n');
+    expect(csv[0]).toMatch(/^Norm requirement,Question,/);
+    expect(csv[1]).toContain('"Enable MFA, ""strict"""');
+    expect(csv[1]).toContain(',MFA is missing on the PLC,4,');
+    expect(csv[1]).toContain(',2026-03-01,');
+    expect(csv[2]).toContain(',bob: Yes; carol: No,Yes,Conflict,');
+    // Findings without description are named by id
+    expect(csv[3]).toContain(',f2,2,Yes,');
+
+    const archive = createXlsxWorkbook([{ name: 'Trace/ability', rows: [['Finding', 'Severity'], ['PLC & HMI', 4]] }]);
+    // The sheet is the last entry of the archive
+    const end = archive.length - 22;
+    let offset = archive.readUInt32LE(end + 16);
+    const names: string[] = [];
+    let sheet = '';
+    for (let index = 0; index < archive.readUInt16LE(end + 10); index += 1) {
+      const nameLength = archive.readUInt16LE(offset + 28);
+      const localOffset = archive.readUInt32LE(offset + 42);
+      const name = archive.subarray(offset + 46, offset + 46 + nameLength).toString('utf8');
+      const dataStart = localOffset + 30 + archive.readUInt16LE(localOffset + 26);
+      names.push(name);
+      sheet = inflateRawSync(archive.subarray(dataStart, dataStart + archive.readUInt32LE(offset + 20))).toString('utf8');
+      offset += 46 + nameLength;
+    }
+
+    expect(names).toContain('xl/worksheets/sheet1.xml');
+    expect(sheet).toContain('<c r="A2" t="inlineStr"><is><t xml:space="preserve">PLC &amp; HMI</t></is></c>');
+    expect(sheet).toContain('<c r="B2"><v>4</v></c>');
+    expect(sheet).toContain('<autoFilter ref="A1:B2"/>');
+  });
+});
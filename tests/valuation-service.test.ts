@@ -0,0 +1,66 @@
+import { buildAssetValuationEntries, deriveAssetValuations } from '@/lib/valuation-service';
+
+const model = {
+  nodes: [
+    { id: 'cell', name: 'Cell', category: 'Container', parentNodeId: null },
+    { id: 'plc', name: 'PLC', category: 'Component', parentNodeId: 'cell' },
+    { id: 'hmi', name: 'HMI', category: 'Component', parentNodeId: 'cell' },
+    { id: 'printer', name: 'Printer', category: 'Component', parentNodeId: null },
+  ],
+  edges: [
+    { id: 'e1', name: null, sourceNodeId: 'hmi', targetNodeId: 'plc' },
+    { id: 'e2', name: 'Print', sourceNodeId: 'hmi', targetNodeId: 'printer' },
+  ],
+  dataObjects: [
+    { id: 'recipes', name: 'Recipes', confidentiality: 8, integrity: 6, availability: 3 },
+    { id: 'setpoints', name: 'Setpoints', confidentiality: 2, integrity: 9, availability: 7 },
+  ],
+  componentData: [
+    { nodeId: 'plc', dataObjectId: 'setpoints', role: 'Processes' },
+    { nodeId: 'hmi', dataObjectId: 'recipes', role: 'Stores' },
+    { nodeId: 'hmi', dataObjectId: 'setpoints', role: 'Generates' },
+  ],
+  edgeDataFlows: [{ edgeId: 'e1', dataObjectId: 'setpoints' }],
+};
+
+describe('valuation service', () => {
+  test('derives ratings with the maximum principle and propagates them to containers', () => {
+    const derived = new Map(deriveAssetValuations(model).map((entry) => [`${entry.assetType}:${entry.assetId}`, entry]));
+
+    const hmi = derived.get('Node:hmi');
+    expect(hmi?.rating).toEqual({ confidentiality: 8, integrity: 9, availability: 7 });
+    expect(hmi?.value).toBe(9);
+    expect(hmi?.sources.find((source) => source.id === 'recipes')?.determines).toEqual(['confidentiality']);
+    expect(hmi?.sources.find((source) => source.id === 'setpoints')?.determines).toEqual([
+      'integrity',
+      'availability',
+    ]);
+
+    const cell = derived.get('Node:cell');
+    expect(cell?.rating).toEqual({ confidentiality: 8, integrity: 9, availability: 7 });
+    expect(cell?.sources.map((source) => [source.kind, source.relation])).toEqual([
+      ['ChildNode', 'Contains'],
+      ['ChildNode', 'Contains'],
+    ]);
+
+    expect(derived.get('Edge:e1')?.sources[0].relation).toBe('Transports');
+    expect(derived.has('Node:printer')).toBe(false);
+    expect(derived.has('Edge:e2')).toBe(false);
+  });
+
+  test('flags manual values that deviate from the derived value as overrides', () => {
+    const base = { confidentiality: null, integrity: null, availability: null, comment: null };
+    const entries = buildAssetValuationEntries(model, [
+      { assetType: 'Node', assetId: 'plc', value: 4, source: 'Manual', ...base },
+      { assetType: 'Node', assetId: 'hmi', value: 9, source: 'Manual', ...base },
+      { assetType: 'Edge', assetId: 'e1', value: 5, source: 'Derived', ...base },
+    ]);
+    const overrideByKey = new Map(entries.map((entry) => [`${entry.assetType}:${entry.assetId}`, entry.isOverride]));
+
+    expect(overrideByKey.get('Node:plc')).toBe(true);
+    expect(overrideByKey.get('Node:hmi')).toBe(false);
+    expect(overrideByKey.get('Edge:e1')).toBe(false);
+    expect(overrideByKey.get('Node:printer')).toBe(false);
+    expect(entries.find((entry) => entry.assetId === 'e2')?.name).toBe('Print');
+  });
+});
@@ -0,0 +1,90 @@
+import { InheritedRecords, InheritanceLink, planVariantUpdates } from '@/lib/variant-service';
+
+const records = (overrides: Partial<InheritedRecords>): InheritedRecords => ({
+  Zone: [],
+  Node: [],
+  DataObject: [],
+  Edge: [],
+  ComponentData: [],
+  EdgeDataFlow: [],
+  Question: [],
+  Answer: [],
+  ...overrides,
+});
+
+const node = (id: string, name: string, parentNodeId: string | null = null) => ({
+  id,
+  stableId: id,
+  name,
+  category: 'Component',
+  description: null,
+  notes: null,
+  parentNodeId,
+  zoneId: null,
+});
+
+const link = (entityType: InheritanceLink['entityType'], parentEntityId: string, localEntityId: string, synced: object) => ({
+  entityType,
+  parentEntityId,
+  localEntityId,
+  synced: synced as InheritanceLink['synced'],
+});
+
+describe('planVariantUpdates', () => {
+  const synced = {
+    cell: node('cell', 'Robot Cell'),
+    plc: node('plc', 'PLC', 'cell'),
+    hmi: node('hmi', 'HMI', 'cell'),
+  };
+  const links = [
+    link('Node', 'cell', 'v-cell', synced.cell),
+    link('Node', 'plc', 'v-plc', synced.plc),
+    link('Node', 'hmi', 'v-hmi', synced.hmi),
+    link('Node', 'scanner', 'v-scanner', node('scanner', 'Scanner')),
+  ];
+
+  const parent = records({
+    Node: [
+      node('cell', 'Robot Cell'),
+      // Renamed in the parent, overridden in the variant as well
+      node('plc', 'Safety PLC', 'cell'),
+      // Description added in the parent only
+      { ...node('hmi', 'HMI', 'cell'), description: 'Operator panel' },
+      node('camera', 'Camera', 'cell'),
+    ],
+  });
+  const local = records({
+    Node: [
+      // Local ids are mapped back to the parent, so an unchanged parent reference is still inherited
+      { ...node('v-cell', 'Robot Cell'), stableId: 'cell' },
+      { ...node('v-plc', 'PLC S7-1500', 'v-cell'), stableId: 'plc' },
+      { ...node('v-hmi', 'HMI', 'v-cell'), stableId: 'hmi' },
+      { ...node('v-scanner', 'Scanner'), stableId: 'scanner' },
+      node('v-gripper', 'Gripper', 'v-cell'),
+    ],
+  });
+
+  const status = planVariantUpdates(parent, local, links);
+  const byKey = new Map(status.updates.map((update) => [update.key, update]));
+
+  it('reports parent changes as pending updates', () => {
+    expect(byKey.get('Node:camera')).toMatchObject({ change: 'added', localEntityId: null, label: 'Camera' });
+    expect(byKey.get('Node:hmi')).toMatchObject({ change: 'modified', fields: ['description'], conflictFields: [] });
+    expect(byKey.get('Node:scanner')).toMatchObject({ change: 'removed', localEntityId: 'v-scanner', conflictFields: [] });
+    expect(byKey.has('Node:cell')).toBe(false);
+  });
+
+  it('flags parent changes to locally overridden fields as conflicts', () => {
+    expect(byKey.get('Node:plc')).toMatchObject({ change: 'modified', fields: ['name'], conflictFields: ['name'] });
+  });
+
+  it('counts inherited, overridden and local-only elements', () => {
+    expect(status.summary).toEqual({ inherited: 3, overridden: 1, localOnly: 1 });
+  });
+
+  it('ignores inherited elements the variant deleted', () => {
+    const withoutHmi = records({ Node: local.Node.filter((entry) => entry.id !== 'v-hmi') });
+    const updates = planVariantUpdates(parent, withoutHmi, links).updates;
+    expect(updates.some((update) => update.key === 'Node:hmi')).toBe(false);
+  });
+});
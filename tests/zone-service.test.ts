@@ -0,0 +1,40 @@
+import { buildConduitId, deriveConduits, parseConduitId, resolveEffectiveZoneIds } from '@/lib/zone-service';
+
+const zones = [
+  { id: 'zone-b', name: 'Control', targetSecurityLevel: 3 },
+  { id: 'zone-a', name: 'Enterprise', targetSecurityLevel: 1 },
+];
+
+const nodes = [
+  { id: 'container', parentNodeId: null, zoneId: 'zone-b' },
+  { id: 'plc', parentNodeId: 'container', zoneId: null },
+  { id: 'erp', parentNodeId: null, zoneId: 'zone-a' },
+  { id: 'laptop', parentNodeId: null, zoneId: null },
+];
+
+describe('zone-service', () => {
+  it('inherits the zone of the closest zoned ancestor', () => {
+    const effective = resolveEffectiveZoneIds(nodes);
+    expect(effective.get('plc')).toBe('zone-b');
+    expect(effective.get('laptop')).toBeNull();
+  });
+
+  it('groups cross-zone edges into one conduit per zone pair', () => {
+    const conduits = deriveConduits(zones, nodes, [
+      { id: 'e1', sourceNodeId: 'erp', targetNodeId: 'plc' },
+      { id: 'e2', sourceNodeId: 'plc', targetNodeId: 'erp' },
+      { id: 'e3', sourceNodeId: 'plc', targetNodeId: 'container' },
+      { id: 'e4', sourceNodeId: 'laptop', targetNodeId: 'plc' },
+    ]);
+
+    expect(conduits).toHaveLength(1);
+    expect(conduits[0].id).toBe(buildConduitId('zone-b', 'zone-a'));
+    expect(conduits[0].edgeIds).toEqual(['e1', 'e2']);
+    expect(conduits[0].targetSecurityLevel).toBe(3);
+  });
+
+  it('round-trips conduit ids', () => {
+    expect(parseConduitId(buildConduitId('zone-b', 'zone-a'))).toEqual({ zoneAId: 'zone-a', zoneBId: 'zone-b' });
+    expect(parseConduitId('zone-a')).toBeNull();
+  });
+});